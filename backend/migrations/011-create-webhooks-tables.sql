@@ -0,0 +1,51 @@
+-- Migration 011: Create webhook subscription and delivery tables
+-- Outbound webhooks push requirement, trace link, baseline and verification events
+-- to tenant-registered URLs. Deliveries double as the retry queue and delivery log.
+
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_slug VARCHAR(255) NOT NULL,
+  project_slug VARCHAR(255),
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL DEFAULT ARRAY['*'],
+  description TEXT,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_tenant ON webhook_subscriptions (tenant_slug, active);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  subscription_id UUID NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL,
+  event_type VARCHAR(100) NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_attempt_at TIMESTAMP,
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  redelivery_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMP,
+  CONSTRAINT webhook_deliveries_status_check CHECK (status IN ('pending', 'sending', 'succeeded', 'failed'))
+);
+
+-- Retry queue: due deliveries in order
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries (next_attempt_at) WHERE status IN ('pending', 'sending');
+
+-- Delivery log per subscription
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries (subscription_id, created_at DESC);
+
+COMMENT ON TABLE webhook_subscriptions IS 'Tenant webhook endpoints and the events they subscribe to';
+COMMENT ON COLUMN webhook_subscriptions.project_slug IS 'Restrict to one project (NULL = all projects in the tenant)';
+COMMENT ON COLUMN webhook_subscriptions.secret IS 'HMAC-SHA256 signing secret';
+COMMENT ON COLUMN webhook_subscriptions.events IS 'Event filter, e.g. requirement.updated, baseline.*, or * for all';
+COMMENT ON TABLE webhook_deliveries IS 'Webhook delivery log and retry queue';
+COMMENT ON COLUMN webhook_deliveries.status IS 'pending, sending, succeeded or failed (retries exhausted)';
@@ -0,0 +1,47 @@
+-- Migration 012: Create service_accounts and api_tokens tables
+-- Personal access tokens and tenant-owned service account tokens for API, CLI and MCP clients.
+-- Tokens are stored as SHA256 hashes; the plain value is shown once at creation.
+
+CREATE TABLE IF NOT EXISTS service_accounts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_slug VARCHAR(255) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  role VARCHAR(50) NOT NULL DEFAULT 'viewer',
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  disabled_at TIMESTAMP,
+  CONSTRAINT service_accounts_role_check CHECK (role IN ('tenant-admin', 'admin', 'approver', 'author', 'viewer'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_service_accounts_tenant_name ON service_accounts (tenant_slug, name) WHERE disabled_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(255) NOT NULL,
+  token_prefix VARCHAR(32) NOT NULL,
+  hashed_token TEXT NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  service_account_id UUID REFERENCES service_accounts(id) ON DELETE CASCADE,
+  scopes TEXT[] NOT NULL,
+  projects TEXT[],
+  expires_at TIMESTAMP,
+  last_used_at TIMESTAMP,
+  last_used_ip VARCHAR(64),
+  revoked_at TIMESTAMP,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT api_tokens_owner_check CHECK ((user_id IS NULL) <> (service_account_id IS NULL))
+);
+
+-- Lookup by hash on every authenticated request
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_tokens_hashed ON api_tokens (hashed_token);
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens (user_id) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_api_tokens_service_account ON api_tokens (service_account_id) WHERE service_account_id IS NOT NULL;
+
+COMMENT ON TABLE service_accounts IS 'Tenant-owned non-human identities for CI pipelines and integrations';
+COMMENT ON COLUMN service_accounts.role IS 'Tenant role granted to the account (super-admin is not allowed)';
+COMMENT ON TABLE api_tokens IS 'Personal access tokens (user_id) and service account tokens (service_account_id)';
+COMMENT ON COLUMN api_tokens.token_prefix IS 'Leading characters of the token, shown to identify it';
+COMMENT ON COLUMN api_tokens.scopes IS 'Granted scopes: read, write, verification:write, admin';
+COMMENT ON COLUMN api_tokens.projects IS 'Restrict to "tenant/project" entries (NULL = no project restriction)';
@@ -0,0 +1,24 @@
+-- Migration 013: Create notifications table
+-- In-app notifications, e.g. when a user is @mentioned in a comment.
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  tenant_slug VARCHAR(255) NOT NULL,
+  project_slug VARCHAR(255),
+  type VARCHAR(50) NOT NULL,
+  title VARCHAR(500) NOT NULL,
+  body TEXT,
+  target JSONB,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  read_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications (user_id) WHERE read_at IS NULL;
+
+COMMENT ON TABLE notifications IS 'Per-user in-app notifications';
+COMMENT ON COLUMN notifications.type IS 'Notification kind, e.g. mention';
+COMMENT ON COLUMN notifications.target IS 'What the notification points at, e.g. {"kind":"comment","commentId":...,"targetType":...,"targetId":...}';
+COMMENT ON COLUMN notifications.read_at IS 'When the user marked it read (NULL = unread)';
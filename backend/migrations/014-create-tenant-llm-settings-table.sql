@@ -0,0 +1,29 @@
+-- Migration 014: Create tenant LLM settings table
+-- Per-tenant choice of LLM provider for chat completion and embeddings.
+-- Tenants without a row use the platform default from the LLM_* environment.
+
+CREATE TABLE IF NOT EXISTS tenant_llm_settings (
+  tenant_slug VARCHAR(255) PRIMARY KEY,
+  provider VARCHAR(20) NOT NULL,
+  model VARCHAR(255) NOT NULL,
+  base_url TEXT,
+  api_key_encrypted TEXT,
+  api_version VARCHAR(50),
+  embedding_provider VARCHAR(20),
+  embedding_model VARCHAR(255),
+  embedding_base_url TEXT,
+  embedding_api_key_encrypted TEXT,
+  updated_by VARCHAR(255),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT tenant_llm_settings_provider_check CHECK (provider IN ('openai', 'local', 'azure', 'anthropic', 'fake')),
+  CONSTRAINT tenant_llm_settings_embedding_provider_check CHECK (embedding_provider IS NULL OR embedding_provider IN ('openai', 'local', 'azure', 'fake'))
+);
+
+COMMENT ON TABLE tenant_llm_settings IS 'Tenant-selected LLM provider overriding the platform default';
+COMMENT ON COLUMN tenant_llm_settings.model IS 'Chat model name (Azure: deployment name)';
+COMMENT ON COLUMN tenant_llm_settings.base_url IS 'Endpoint for local servers, Azure resources or OpenAI-compatible proxies';
+COMMENT ON COLUMN tenant_llm_settings.api_key_encrypted IS 'AES-256-GCM encrypted API key';
+COMMENT ON COLUMN tenant_llm_settings.api_version IS 'Azure OpenAI API version';
+COMMENT ON COLUMN tenant_llm_settings.embedding_provider IS 'Embedding provider (NULL = same as the chat provider, or the platform default for Anthropic)';
+COMMENT ON COLUMN tenant_llm_settings.updated_by IS 'User ID, or sa:<service account ID>, of whoever last changed the settings';
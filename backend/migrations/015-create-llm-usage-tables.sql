@@ -0,0 +1,65 @@
+-- Migration 015: Create LLM usage metering, quota and audit tables
+-- Every LLM call (drafting, AirGen chat, NL query, embeddings, Imagine) is metered.
+-- Tenants may have monthly soft/hard quotas and opt in to prompt/response retention.
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_slug VARCHAR(255),
+  project_slug VARCHAR(255),
+  user_id VARCHAR(255),
+  feature VARCHAR(50) NOT NULL,
+  provider VARCHAR(20) NOT NULL,
+  model VARCHAR(255) NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  tokens_estimated BOOLEAN NOT NULL DEFAULT false,
+  cost_usd NUMERIC(14, 8),
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL,
+  error TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT llm_usage_status_check CHECK (status IN ('success', 'error', 'blocked'))
+);
+
+-- Month-to-date totals for quota checks and per-tenant reports
+CREATE INDEX IF NOT EXISTS idx_llm_usage_tenant_created ON llm_usage (tenant_slug, created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage (created_at);
+
+CREATE TABLE IF NOT EXISTS llm_usage_audit (
+  usage_id UUID PRIMARY KEY REFERENCES llm_usage(id) ON DELETE CASCADE,
+  request JSONB NOT NULL,
+  response TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_audit_expires ON llm_usage_audit (expires_at);
+
+CREATE TABLE IF NOT EXISTS tenant_llm_quotas (
+  tenant_slug VARCHAR(255) PRIMARY KEY,
+  monthly_token_soft_limit BIGINT,
+  monthly_token_hard_limit BIGINT,
+  monthly_cost_soft_limit_usd NUMERIC(12, 2),
+  monthly_cost_hard_limit_usd NUMERIC(12, 2),
+  retain_prompts BOOLEAN NOT NULL DEFAULT false,
+  retention_days INTEGER,
+  updated_by VARCHAR(255),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT tenant_llm_quotas_retention_check CHECK (retention_days IS NULL OR retention_days > 0)
+);
+
+COMMENT ON TABLE llm_usage IS 'One row per LLM call, including calls that failed or were blocked by a quota';
+COMMENT ON COLUMN llm_usage.tenant_slug IS 'Tenant billed for the call (NULL = platform call without tenant context)';
+COMMENT ON COLUMN llm_usage.user_id IS 'User ID, or sa:<service account ID>, that made the call (NULL = no authenticated caller)';
+COMMENT ON COLUMN llm_usage.feature IS 'Calling feature, e.g. drafting, diagram-generation, nl-query, embeddings, imagine';
+COMMENT ON COLUMN llm_usage.tokens_estimated IS 'Provider reported no usage; tokens were estimated from text length';
+COMMENT ON COLUMN llm_usage.cost_usd IS 'Estimated cost from the price list (NULL = model without a known price)';
+COMMENT ON COLUMN llm_usage.status IS 'success, error (provider failed) or blocked (hard quota reached)';
+COMMENT ON TABLE llm_usage_audit IS 'Retained prompts and responses for tenants that opted in';
+COMMENT ON COLUMN llm_usage_audit.expires_at IS 'Purged after this time; set from the retention period in force when recorded';
+COMMENT ON TABLE tenant_llm_quotas IS 'Monthly LLM quotas and audit retention per tenant';
+COMMENT ON COLUMN tenant_llm_quotas.monthly_token_soft_limit IS 'Calls continue past a soft limit but the tenant is flagged';
+COMMENT ON COLUMN tenant_llm_quotas.monthly_token_hard_limit IS 'Calls are refused once month-to-date usage reaches a hard limit';
+COMMENT ON COLUMN tenant_llm_quotas.updated_by IS 'User ID, or sa:<service account ID>, of whoever last changed the quotas';
+COMMENT ON COLUMN tenant_llm_quotas.retention_days IS 'Audit retention in days (NULL = LLM_AUDIT_RETENTION_DAYS)';
@@ -1,5 +1,6 @@
 import { resolve } from "path";
 import { readFileSync, existsSync } from "fs";
+import { hkdfSync } from "crypto";
 import { logger } from "./lib/logger.js";
 
 type Environment = "development" | "staging" | "production" | "test";
@@ -62,8 +63,9 @@ const smtpPassword = getSecret('smtp_password', 'SMTP_PASSWORD');
 const postgresPassword = getSecret('postgres_password', 'POSTGRES_PASSWORD');
 const resticPassword = getSecret('restic_password', 'RESTIC_PASSWORD');
 const awsSecretAccessKey = getSecret('aws_secret_access_key', 'AWS_SECRET_ACCESS_KEY');
+const reportSigningKey = getSecret('report_signing_key', 'REPORT_SIGNING_KEY');
 
-// Set LLM_API_KEY in process.env if loaded from secret (for openai.ts to use)
+// Set LLM_API_KEY in process.env if loaded from secret (for modules that read process.env directly)
 if (llmApiKey && !process.env.LLM_API_KEY && !process.env.OPENAI_API_KEY) {
   process.env.LLM_API_KEY = llmApiKey;
 }
@@ -169,8 +171,22 @@ export const config = {
     provider: env.LLM_PROVIDER ?? null,
     apiKey: llmApiKey ?? null,
     baseUrl: env.LLM_BASE_URL ?? null,
-    model: env.LLM_MODEL ?? "gpt-4o-mini",
-    temperature: parseNumber(env.LLM_TEMPERATURE, 0.2)
+    model: env.LLM_MODEL ?? env.OPENAI_MODEL ?? "gpt-4o-mini",
+    temperature: parseNumber(env.LLM_TEMPERATURE, 0.2),
+    /** Azure OpenAI REST API version (LLM_PROVIDER=azure) */
+    azureApiVersion: env.LLM_AZURE_API_VERSION ?? "2024-10-21",
+    timeoutMs: parseNumber(env.LLM_TIMEOUT_MS, 60000),
+    // Embeddings default to the chat provider's endpoint and key
+    embeddingProvider: env.LLM_EMBEDDING_PROVIDER ?? null,
+    embeddingApiKey: env.LLM_EMBEDDING_API_KEY ?? null,
+    embeddingBaseUrl: env.LLM_EMBEDDING_BASE_URL ?? null,
+    embeddingModel: env.LLM_EMBEDDING_MODEL ?? "text-embedding-3-small",
+    /** Must match the Neo4j vector index */
+    embeddingDimensions: parseNumber(env.LLM_EMBEDDING_DIMENSIONS, 1536),
+    /** JSON map of model name prefix to USD per million tokens, merged over the built-in table */
+    pricing: env.LLM_PRICING ?? null,
+    /** Days retained prompts/responses are kept when a tenant has no retention period of its own */
+    auditRetentionDays: parseNumber(env.LLM_AUDIT_RETENTION_DAYS, 90)
   },
 
   // Imagine visualization configuration
@@ -225,6 +241,14 @@ export const config = {
     issuer: env.TWOFA_ISSUER ?? "AIRGen"
   },
 
+  // Baseline change reports
+  reports: {
+    // HMAC key used to sign report content hashes. Without one, a key is
+    // derived from the JWT secret so the JWT secret itself never signs reports
+    signingKey: reportSigningKey ||
+      Buffer.from(hkdfSync("sha256", resolvedJwtSecret, "", "airgen report-signing", 32)).toString("hex")
+  },
+
   // Feature flags
   features: {
     adminRoutesEnabled: parseBoolean(env.ENABLE_ADMIN_ROUTES, true),
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { renderDocx } from "../docx-writer.js";
+import { extractTextUnits, type TextUnit } from "../document-text.js";
+import { describeLocator, locateExcerpt } from "../excerpt-locator.js";
+import { renderPdf } from "../pdf-writer.js";
+import { renderXlsx } from "../xlsx-writer.js";
+
+function paragraph(index: number, text: string): TextUnit {
+  return { locatorType: "docx_paragraph", locator: { paragraph: index }, text };
+}
+
+describe("extractTextUnits", () => {
+  it("splits a DOCX into numbered paragraphs", async () => {
+    const docx = renderDocx({
+      title: "Brake test procedure",
+      blocks: [
+        { type: "heading", level: 1, text: "Setup" },
+        { type: "paragraph", runs: [{ text: "Mount the rover on " }, { text: "the 15° ramp", style: "bold" }, { text: "." }] },
+        { type: "paragraph", runs: [{ text: "Release the brake & time it." }] }
+      ]
+    });
+
+    const { format, units } = await extractTextUnits(docx);
+    expect(format).toBe("docx");
+    expect(units.map(u => u.text)).toContain("Mount the rover on the 15° ramp.");
+    const release = units.find(u => u.text === "Release the brake & time it.");
+    const mount = units.find(u => u.text.startsWith("Mount"));
+    expect(release?.locatorType).toBe("docx_paragraph");
+    expect((release?.locator as { paragraph: number }).paragraph).toBe((mount?.locator as { paragraph: number }).paragraph + 1);
+  });
+
+  it("reads XLSX cells with their sheet and reference", async () => {
+    const xlsx = renderXlsx({
+      title: "Results",
+      sheets: [{ name: "Run 1", headers: ["Step", "Measured"], rows: [["Release time", 180], ["Holding", null]] }]
+    });
+
+    const { format, units } = await extractTextUnits(xlsx);
+    expect(format).toBe("xlsx");
+    expect(units.map(u => [u.locator, u.text])).toEqual([
+      [{ sheet: "Run 1", cell: "A1" }, "Step"],
+      [{ sheet: "Run 1", cell: "B1" }, "Measured"],
+      [{ sheet: "Run 1", cell: "A2" }, "Release time"],
+      [{ sheet: "Run 1", cell: "B2" }, "180"],
+      [{ sheet: "Run 1", cell: "A3" }, "Holding"]
+    ]);
+  });
+
+  it("reads PDF text per page", async () => {
+    const pdf = renderPdf({
+      title: "Analysis report",
+      blocks: [{ type: "paragraph", runs: [{ text: "Thermal margin is 12 K at end of life." }] }]
+    });
+
+    const { format, units } = await extractTextUnits(pdf);
+    expect(format).toBe("pdf");
+    expect(units[0].locator).toEqual({ page: 1 });
+    expect(units[0].text.replace(/\s+/g, " ")).toContain("Thermal margin is 12 K at end of life.");
+  });
+
+  it("rejects other files", async () => {
+    await expect(extractTextUnits(Buffer.from("plain text"))).rejects.toThrow(/Unsupported document format/);
+  });
+});
+
+describe("locateExcerpt", () => {
+  const reference = {
+    locatorType: "docx_paragraph",
+    locator: { paragraph: 2 },
+    excerptText: "release the brake within 200 ms"
+  };
+
+  it("finds an unchanged excerpt at its locator, ignoring whitespace", () => {
+    const units = [paragraph(1, "Setup"), paragraph(2, "Then release the brake\nwithin  200 ms of the command.")];
+    expect(locateExcerpt(reference, units)).toMatchObject({ status: "unchanged", locator: { paragraph: 2 }, similarity: 1 });
+  });
+
+  it("reports a verbatim excerpt under another locator as moved", () => {
+    const units = [paragraph(1, "Setup"), paragraph(2, "Inserted step."), paragraph(3, "Then release the brake within 200 ms.")];
+    expect(locateExcerpt(reference, units)).toMatchObject({ status: "moved", locator: { paragraph: 3 } });
+  });
+
+  it("returns the most similar passage when the excerpt was edited", () => {
+    const units = [paragraph(1, "Setup"), paragraph(2, "Then release the brake within 250 ms of the command.")];
+    const location = locateExcerpt(reference, units);
+    expect(location).toMatchObject({ status: "changed", locator: { paragraph: 2 }, excerptText: "release the brake within 250 ms" });
+    expect(location.similarity).toBeCloseTo(0.83, 2);
+  });
+
+  it("reports an excerpt with nothing similar left as missing", () => {
+    const units = [paragraph(1, "Setup"), paragraph(2, "Apply the parking pawl.")];
+    expect(locateExcerpt(reference, units)).toMatchObject({ status: "missing", locator: null, excerptText: null });
+  });
+
+  it("matches XLSX locators case-insensitively", () => {
+    const cell: TextUnit = { locatorType: "xlsx_cell", locator: { sheet: "Run 1", cell: "B2" }, text: "180" };
+    expect(locateExcerpt({ locatorType: "xlsx_cell", locator: { sheet: "run 1", cell: "b2" }, excerptText: "180" }, [cell]).status)
+      .toBe("unchanged");
+    expect(describeLocator(cell.locatorType, cell.locator)).toBe("Run 1!B2");
+  });
+});
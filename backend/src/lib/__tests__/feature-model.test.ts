@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  conditionFeatures,
+  isPresent,
+  parseCondition,
+  validateConfiguration,
+  validateFeatureModel,
+  type FeatureModelDefinition
+} from "../feature-model.js";
+
+const model: FeatureModelDefinition = {
+  features: [
+    { id: "rover", name: "Rover", parentId: null, optional: false, group: "and" },
+    { id: "drive", name: "Drive", parentId: "rover", optional: false, group: "alternative" },
+    { id: "wheels", name: "Wheels", parentId: "drive", optional: false, group: "and" },
+    { id: "tracks", name: "Tracks", parentId: "drive", optional: false, group: "and" },
+    { id: "sensors", name: "Sensors", parentId: "rover", optional: true, group: "or" },
+    { id: "lidar", name: "Lidar", parentId: "sensors", optional: false, group: "and" },
+    { id: "camera", name: "Camera", parentId: "sensors", optional: false, group: "and" }
+  ],
+  constraints: [{ expression: "tracks => !lidar", description: "Lidar mast clears wheels only" }]
+};
+
+describe("parseCondition", () => {
+  it("binds not tighter than and, and tighter than or, with implies loosest", () => {
+    const selected = new Set(["wheels", "camera"]);
+
+    expect(isPresent("wheels || tracks && lidar", selected)).toBe(true);
+    expect(isPresent("(wheels || tracks) && lidar", selected)).toBe(false);
+    expect(isPresent("not lidar and camera", selected)).toBe(true);
+    expect(isPresent("lidar implies tracks", selected)).toBe(true);
+    expect(isPresent("camera => lidar", selected)).toBe(false);
+  });
+
+  it("treats an empty condition as always present", () => {
+    expect(isPresent(null, new Set())).toBe(true);
+    expect(isPresent("  ", new Set())).toBe(true);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCondition("wheels &&")).toThrow(/Unexpected end/);
+    expect(() => parseCondition("(wheels || tracks")).toThrow(/closing parenthesis/);
+    expect(() => parseCondition("wheels tracks")).toThrow(/Unexpected "tracks"/);
+    expect(() => parseCondition("wheels & tracks")).toThrow(/Unexpected "&"/);
+  });
+
+  it("lists referenced features once", () => {
+    expect(conditionFeatures(parseCondition("lidar || (camera && !lidar)"))).toEqual(["lidar", "camera"]);
+  });
+});
+
+describe("validateFeatureModel", () => {
+  it("accepts a well-formed model", () => {
+    expect(validateFeatureModel(model)).toEqual([]);
+  });
+
+  it("reports duplicate IDs, dangling parents, extra roots and bad constraints", () => {
+    const errors = validateFeatureModel({
+      features: [
+        ...model.features,
+        { id: "lidar", name: "Lidar again", parentId: "rover", optional: true, group: "and" },
+        { id: "gps", name: "GPS", parentId: "nav", optional: true, group: "and" },
+        { id: "spare", name: "Spare", parentId: null, optional: false, group: "and" }
+      ],
+      constraints: [{ expression: "gps => radar" }, { expression: "gps =>" }]
+    });
+
+    expect(errors).toEqual([
+      'Duplicate feature "lidar"',
+      "A feature model needs exactly one root feature, found 2",
+      'Feature "gps" has unknown parent "nav"',
+      'Constraint: Unknown feature "radar" in "gps => radar"',
+      'Constraint: Unexpected end of expression in "gps =>"'
+    ]);
+  });
+
+  it("detects cycles", () => {
+    const errors = validateFeatureModel({
+      features: [
+        { id: "root", name: "Root", parentId: null, optional: false, group: "and" },
+        { id: "a", name: "A", parentId: "b", optional: true, group: "and" },
+        { id: "b", name: "B", parentId: "a", optional: true, group: "and" }
+      ],
+      constraints: []
+    });
+
+    expect(errors).toEqual(['Feature "a" is part of a cycle', 'Feature "b" is part of a cycle']);
+  });
+});
+
+describe("validateConfiguration", () => {
+  it("accepts a configuration that satisfies groups and constraints", () => {
+    expect(validateConfiguration(model, ["drive", "wheels", "sensors", "lidar"])).toEqual([]);
+  });
+
+  it("enforces mandatory, alternative and or groups", () => {
+    expect(validateConfiguration(model, ["sensors"])).toEqual([
+      'Select at least one of "lidar", "camera" for "sensors"',
+      '"drive" is mandatory when "rover" is selected'
+    ]);
+    expect(validateConfiguration(model, ["drive", "wheels", "tracks"])).toEqual([
+      'Select exactly one of "wheels", "tracks" for "drive"'
+    ]);
+  });
+
+  it("rejects configurations that violate constraints or select orphans", () => {
+    expect(validateConfiguration(model, ["drive", "tracks", "sensors", "lidar"])).toEqual([
+      'Violates constraint "Lidar mast clears wheels only" (tracks => !lidar)'
+    ]);
+    expect(validateConfiguration(model, ["drive", "wheels", "camera", "radar"])).toEqual([
+      '"camera" requires its parent "sensors"',
+      'Unknown feature "radar"'
+    ]);
+  });
+});
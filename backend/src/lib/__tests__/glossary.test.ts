@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  analyzeRequirement,
+  findGlossaryMatches,
+  findUndefinedAcronyms,
+  INCOSE_GTWR_RULE_PACK
+} from "@airgen/req-qa";
+import { glossaryConflicts, summarizeGlossaryUsage, type GlossaryTermInput } from "../glossary.js";
+
+function term(id: string, input: Partial<GlossaryTermInput> & { term: string }): GlossaryTermInput & { id: string } {
+  return { id, definition: "", abbreviation: null, synonyms: [], deprecated: [], ...input };
+}
+
+const bcu = term("t1", {
+  term: "brake control unit",
+  definition: "Controller that commands the brakes",
+  abbreviation: "BCU",
+  synonyms: ["brake controller"],
+  deprecated: ["brake box"]
+});
+const vehicle = term("t2", { term: "vehicle", deprecated: ["car"] });
+const glossary = [bcu, vehicle];
+
+describe("glossary detection", () => {
+  it("prefers the longest form and accepts plurals", () => {
+    const matches = findGlossaryMatches("The brake control unit shall stop all vehicles; the brake box is retired.", glossary);
+
+    expect(matches.map(match => [match.text, match.kind, match.entry])).toEqual([
+      ["brake control unit", "term", 0],
+      ["vehicles", "term", 1],
+      ["brake box", "deprecated", 0]
+    ]);
+  });
+
+  it("matches abbreviations case-sensitively", () => {
+    expect(findGlossaryMatches("The BCU shall log faults.", glossary)).toHaveLength(1);
+    expect(findGlossaryMatches("The bcu shall log faults.", glossary)).toHaveLength(0);
+  });
+
+  it("reports acronyms that are neither in the glossary nor spelled out", () => {
+    const text = "The BCU SHALL send CAN frames to the ECUs using the Global Positioning System (GPS) time.";
+
+    expect(findUndefinedAcronyms(text, glossary)).toEqual(["CAN", "ECU"]);
+    expect(findUndefinedAcronyms(text, glossary, ["CAN"])).toEqual(["ECU"]);
+  });
+});
+
+describe("GlossaryTerms rule", () => {
+  it("flags deprecated forms and undefined acronyms", () => {
+    const result = analyzeRequirement("The brake box shall send CAN frames within 10 ms.", {
+      pack: INCOSE_GTWR_RULE_PACK,
+      glossary
+    });
+
+    expect(result.hits.find(hit => hit.rule === "R37-DefinedTerms")).toMatchObject({
+      ok: false,
+      message: "'brake box' is deprecated, use 'brake control unit'; Undefined acronyms: CAN"
+    });
+    expect(result.suggestions).toContain("Replace 'brake box' with 'brake control unit'. Spell out or add to the glossary: CAN.");
+  });
+
+  it("passes when the project has no glossary", () => {
+    const result = analyzeRequirement("The brake box shall send CAN frames within 10 ms.", { pack: INCOSE_GTWR_RULE_PACK });
+
+    expect(result.hits.find(hit => hit.rule === "R37-DefinedTerms")).toMatchObject({ ok: true });
+  });
+
+  it("only reports in the default pack", () => {
+    const text = "When the pump starts, the BCU shall raise the pressure to 2 bar within 500 ms.";
+    const withGlossary = analyzeRequirement(text.replace("BCU", "brake box"), { glossary });
+
+    expect(withGlossary.score).toBe(analyzeRequirement(text, { glossary }).score);
+    expect(withGlossary.hits.find(hit => hit.rule === "GlossaryTerms")).toMatchObject({ ok: false, severity: "info" });
+  });
+});
+
+describe("glossaryConflicts", () => {
+  it("rejects forms already used by another term, ignoring case", () => {
+    const candidate = term("new", { term: "Brake Controller", abbreviation: "VEH", synonyms: ["Car"] });
+
+    expect(glossaryConflicts(candidate, glossary)).toEqual([
+      "'Brake Controller' is already used by 'brake control unit'",
+      "'Car' is already used by 'vehicle'"
+    ]);
+  });
+
+  it("rejects a form that is both accepted and deprecated", () => {
+    const candidate = term("new", { term: "axle", synonyms: ["shaft"], deprecated: ["Shaft"] });
+
+    expect(glossaryConflicts(candidate, [])).toEqual(["'Shaft' cannot be both accepted and deprecated"]);
+  });
+
+  it("allows a term to keep its own forms when updated", () => {
+    expect(glossaryConflicts({ ...bcu, definition: "Updated" }, [vehicle])).toEqual([]);
+  });
+});
+
+describe("summarizeGlossaryUsage", () => {
+  it("counts requirements per term and lists deprecated uses", () => {
+    const usage = summarizeGlossaryUsage(glossary, [
+      { ref: "SYS-1", text: "The BCU shall stop the vehicle and the brake controller shall log it." },
+      { ref: "SYS-2", text: "The brake box shall stop the car." },
+      { ref: "SYS-3", text: "The display shall show speed." }
+    ]);
+
+    expect(usage).toEqual([
+      { termId: "t1", requirements: 2, deprecatedUses: [{ ref: "SYS-2", form: "brake box" }] },
+      { termId: "t2", requirements: 2, deprecatedUses: [{ ref: "SYS-2", form: "car" }] }
+    ]);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { assertPublicUrl, isBlockedAddress } from "../outbound-url.js";
+
+describe("outbound URL checks", () => {
+  it("blocks loopback, private, link-local and metadata addresses", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.20.0.5", "192.168.1.1", "169.254.169.254", "100.100.100.200", "0.0.0.0", "::1", "fd00:ec2::254", "fe80::1", "::ffff:127.0.0.1"]) {
+      expect(isBlockedAddress(address), address).toBe(true);
+    }
+  });
+
+  it("allows public addresses", () => {
+    for (const address of ["93.184.215.14", "8.8.8.8", "2606:4700:4700::1111"]) {
+      expect(isBlockedAddress(address), address).toBe(false);
+    }
+  });
+
+  it("rejects URLs whose host is an internal IP literal", async () => {
+    await expect(assertPublicUrl("http://127.0.0.1:7474/db/neo4j")).rejects.toMatchObject({ statusCode: 400 });
+    await expect(assertPublicUrl("http://[::1]/")).rejects.toThrow(/private or reserved/);
+    await expect(assertPublicUrl("https://8.8.8.8/hook")).resolves.toBeUndefined();
+  });
+});
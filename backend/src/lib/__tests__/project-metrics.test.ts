@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeBurnUp,
+  implementationStatusOf,
+  summarizeProjectMetrics,
+  type MetricRequirement,
+  type VerificationMetrics
+} from "../project-metrics.js";
+
+function requirement(id: string, documentSlug: string | null, extra: Partial<MetricRequirement> = {}): MetricRequirement {
+  return { id, qaScore: null, tags: [], documentSlug, verified: false, ...extra };
+}
+
+const verification: VerificationMetrics = {
+  verified: 1,
+  unverified: 3,
+  incomplete: 0,
+  coveragePercent: 25,
+  errorFindings: 2,
+  warningFindings: 5
+};
+
+describe("implementationStatusOf", () => {
+  it("reads the impl: tag and ignores unknown statuses", () => {
+    expect(implementationStatusOf(["safety", "impl:in_progress"])).toBe("in_progress");
+    expect(implementationStatusOf(["impl:someday"])).toBeNull();
+    expect(implementationStatusOf([])).toBeNull();
+  });
+});
+
+describe("summarizeProjectMetrics", () => {
+  const requirements = [
+    requirement("sys-1", "sys", { qaScore: 90, tags: ["impl:implemented"], verified: true }),
+    requirement("sys-2", "sys", { qaScore: 65 }),
+    requirement("sub-1", "sub", { qaScore: 40, tags: ["impl:in_progress"] }),
+    requirement("sub-2", "sub")
+  ];
+
+  const metrics = summarizeProjectMetrics({
+    requirements,
+    documents: [{ slug: "sys", name: "System" }, { slug: "sub", name: "Subsystem" }],
+    links: [
+      { sourceRequirementId: "sub-1", targetRequirementId: "sys-1", suspect: true },
+      { sourceRequirementId: "sub-2", targetRequirementId: "archived", suspect: true }
+    ],
+    linksets: [{ id: "ls-1", sourceDocumentSlug: "sub", targetDocumentSlug: "sys" }],
+    verification
+  });
+
+  it("counts traced requirements and suspect links among live requirements only", () => {
+    expect(metrics.requirements).toBe(4);
+    expect(metrics.traced).toBe(2);
+    expect(metrics.traceCoveragePercent).toBe(50);
+    expect(metrics.suspectLinks).toBe(1);
+  });
+
+  it("buckets QA scores and implementation statuses", () => {
+    expect(metrics.qa).toEqual({ average: 65, excellent: 1, good: 1, needsWork: 1, unscored: 1 });
+    expect(metrics.implementation).toMatchObject({ implemented: 1, in_progress: 1, unset: 2, verified: 0 });
+  });
+
+  it("measures linkset coverage over the source document", () => {
+    expect(metrics.linksets).toEqual([{
+      linksetId: "ls-1",
+      sourceDocumentSlug: "sub",
+      targetDocumentSlug: "sys",
+      requirements: 2,
+      covered: 1,
+      coveragePercent: 50
+    }]);
+  });
+
+  it("breaks counts down per document", () => {
+    expect(metrics.documents).toEqual([
+      { slug: "sys", name: "System", requirements: 2, traced: 1, verified: 1, averageQaScore: 78 },
+      { slug: "sub", name: "Subsystem", requirements: 2, traced: 1, verified: 0, averageQaScore: 40 }
+    ]);
+  });
+});
+
+describe("computeBurnUp", () => {
+  const points = [
+    { date: "2026-03-03", scope: 10, done: 4 },
+    { date: "2026-03-01", scope: 10, done: 0 },
+    { date: "2026-03-02", scope: 10, done: 2 }
+  ];
+
+  it("projects completion from the recent rate and compares it with the target", () => {
+    const burnUp = computeBurnUp(points, "2026-03-05");
+
+    expect(burnUp.points.map(point => point.date)).toEqual(["2026-03-01", "2026-03-02", "2026-03-03"]);
+    expect(burnUp.ratePerDay).toBe(2);
+    expect(burnUp.projectedCompletion).toBe("2026-03-06");
+    expect(burnUp.onTrack).toBe(false);
+    expect(burnUp.ideal).toEqual([{ date: "2026-03-01", value: 0 }, { date: "2026-03-05", value: 10 }]);
+  });
+
+  it("has no projection without progress and no verdict without a target", () => {
+    const burnUp = computeBurnUp([{ date: "2026-03-01", scope: 5, done: 1 }, { date: "2026-03-02", scope: 6, done: 1 }]);
+
+    expect(burnUp.ratePerDay).toBe(0);
+    expect(burnUp.projectedCompletion).toBeNull();
+    expect(burnUp.onTrack).toBeNull();
+    expect(burnUp.ideal).toEqual([]);
+  });
+
+  it("is complete once done reaches scope", () => {
+    expect(computeBurnUp([{ date: "2026-03-01", scope: 3, done: 3 }], "2026-02-01")).toMatchObject({
+      projectedCompletion: "2026-03-01",
+      onTrack: false
+    });
+  });
+});
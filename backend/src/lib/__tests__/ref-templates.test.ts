@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  nextRef,
+  parseRefCounter,
+  planRenumber,
+  renderRef,
+  validateRefScheme,
+  type RefScheme,
+  type RenumberItem
+} from "../ref-templates.js";
+
+const gapped: RefScheme = { template: "SRS-NAV-{n:4}", start: 10, step: 10, counter: "document" };
+const sectioned: RefScheme = { template: "{section}-R{n}", start: 1, step: 1, counter: "section" };
+
+describe("renderRef", () => {
+  it("fills tokens and pads the counter", () => {
+    expect(renderRef(gapped, { documentCode: "SRS", sectionCode: null }, 10)).toBe("SRS-NAV-0010");
+    expect(renderRef(sectioned, { documentCode: "SRS", sectionCode: "3.2.4" }, 5)).toBe("3.2.4-R5");
+    expect(renderRef({ ...gapped, template: "{doc}-{section}-{n:3}" }, { documentCode: "SRS", sectionCode: "NAV" }, 7)).toBe("SRS-NAV-007");
+  });
+
+  it("drops the section token and one separator outside sections", () => {
+    expect(renderRef({ ...gapped, template: "{doc}-{section}-{n:3}" }, { documentCode: "SRS", sectionCode: null }, 7)).toBe("SRS-007");
+    expect(renderRef(sectioned, { documentCode: "SRS", sectionCode: null }, 2)).toBe("R2");
+  });
+});
+
+describe("parseRefCounter", () => {
+  it("reads the counter only from refs the scheme produced", () => {
+    const context = { documentCode: "SRS", sectionCode: null };
+    expect(parseRefCounter(gapped, context, "SRS-NAV-0040")).toBe(40);
+    expect(parseRefCounter(gapped, context, "SRS-NAV-40")).toBe(40);
+    expect(parseRefCounter(gapped, context, "SRS-GNC-0040")).toBeNull();
+    expect(parseRefCounter(sectioned, { documentCode: "SRS", sectionCode: "3.2.4" }, "3x2x4-R1")).toBeNull();
+  });
+});
+
+describe("nextRef", () => {
+  const context = { documentCode: "SRS", sectionCode: null };
+
+  it("continues one step past the highest counter in scope", () => {
+    expect(nextRef(gapped, context, [], new Set())).toBe("SRS-NAV-0010");
+    expect(nextRef(gapped, context, ["SRS-NAV-0010", "SRS-NAV-0030", "OTHER-1"], new Set())).toBe("SRS-NAV-0040");
+  });
+
+  it("skips refs taken elsewhere in the project", () => {
+    expect(nextRef(gapped, context, ["SRS-NAV-0010"], new Set(["SRS-NAV-0020", "SRS-NAV-0030"]))).toBe("SRS-NAV-0040");
+  });
+});
+
+describe("planRenumber", () => {
+  const items: RenumberItem[] = [
+    { requirementId: "a", ref: "SRS-001", sectionId: null, sectionCode: null },
+    { requirementId: "b", ref: "SRS-NAV-002", sectionId: "s1", sectionCode: "3.2.4" },
+    { requirementId: "c", ref: "SRS-NAV-003", sectionId: "s1", sectionCode: "3.2.4" },
+    { requirementId: "d", ref: "3.3-R1", sectionId: "s2", sectionCode: "3.3" }
+  ];
+
+  it("numbers each section from the start and reports unchanged refs", () => {
+    const plan = planRenumber(sectioned, "SRS", items, new Set());
+
+    expect(plan.changes).toEqual([
+      { requirementId: "a", oldRef: "SRS-001", newRef: "R1" },
+      { requirementId: "b", oldRef: "SRS-NAV-002", newRef: "3.2.4-R1" },
+      { requirementId: "c", oldRef: "SRS-NAV-003", newRef: "3.2.4-R2" }
+    ]);
+    expect(plan.unchanged).toBe(1);
+    expect(plan.conflicts).toEqual([]);
+  });
+
+  it("reports refs already used outside the document", () => {
+    const plan = planRenumber(gapped, "SRS", items, new Set(["SRS-NAV-0020"]));
+
+    expect(plan.changes.map(change => change.newRef)).toEqual(["SRS-NAV-0010", "SRS-NAV-0020", "SRS-NAV-0030", "SRS-NAV-0040"]);
+    expect(plan.conflicts).toEqual(["SRS-NAV-0020 (for SRS-NAV-002) is already used outside this document"]);
+  });
+});
+
+describe("validateRefScheme", () => {
+  it("requires one counter, known tokens and a section token for per-section counters", () => {
+    expect(validateRefScheme(gapped)).toEqual([]);
+    expect(validateRefScheme({ template: "{doc}-{n}-{n}", start: 1, step: 1, counter: "section" })).toEqual([
+      "Template must contain exactly one {n} counter",
+      "Per-section counters need {section} in the template, or refs would repeat across sections"
+    ]);
+    expect(validateRefScheme({ template: "{dok} {n:0}", start: -1, step: 0, counter: "document" })).toEqual([
+      "Template may only contain letters, digits, '.', '_', '-' and tokens",
+      "Unknown token {dok}",
+      "Counter width must be between 1 and 10",
+      "Start must be a non-negative integer",
+      "Step must be a positive integer"
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectTestResultFormat,
+  mapTestResults,
+  parseTestResults,
+  refsInText,
+  runVerdict,
+  type TestCaseResult,
+  type TestTargetRequirement
+} from "../test-results.js";
+
+const junit = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="brakes">
+    <testcase classname="BrakeTests" name="test_SRS_012_release" time="0.021"/>
+    <testcase classname="BrakeTests" name="holds on slope" time="1.5">
+      <properties>
+        <property name="requirement" value="SRS-013, SRS-014"/>
+      </properties>
+      <failure message="expected 0 to be 1">stack &amp; trace</failure>
+    </testcase>
+    <testcase classname="BrakeTests" name="abs pulse">
+      <skipped/>
+    </testcase>
+  </testsuite>
+</testsuites>`;
+
+const tap = `TAP version 13
+1..4
+ok 1 - SRS-012 releases within 200ms
+not ok 2 - SRS-013 holds on slope
+  ---
+  message: 'expected 0 to be 1'
+  ...
+ok 3 - SRS-014 pulse # SKIP no hardware
+ok 4 unrelated helper
+`;
+
+const ctest = `Test project /build
+    Start 1: brake_SRS_012
+1/3 Test #1: brake_SRS_012 ....................   Passed    0.02 sec
+2/3 Test #2: brake_SRS_013 ....................***Failed    0.05 sec
+3/3 Test #3: brake_SRS_014 ....................***Not Run   0.00 sec
+
+67% tests passed, 1 tests failed out of 3
+`;
+
+const requirements: TestTargetRequirement[] = [
+  { id: "r12", ref: "SRS-012", aliases: [] },
+  { id: "r13", ref: "SRS-013", aliases: ["BRK-7"] },
+  { id: "r14", ref: "SRS-014", aliases: [] }
+];
+
+function testCase(name: string, outcome: TestCaseResult["outcome"], extra: Partial<TestCaseResult> = {}): TestCaseResult {
+  return { name, suite: null, outcome, durationSeconds: null, message: null, declaredRefs: [], ...extra };
+}
+
+describe("detectTestResultFormat", () => {
+  it("recognises each format", () => {
+    expect(detectTestResultFormat(junit)).toBe("junit");
+    expect(detectTestResultFormat(tap)).toBe("tap");
+    expect(detectTestResultFormat(ctest)).toBe("ctest");
+    expect(detectTestResultFormat("hello")).toBeNull();
+  });
+});
+
+describe("parseTestResults", () => {
+  it("reads JUnit outcomes, durations, messages and requirement properties", () => {
+    const cases = parseTestResults(junit, "junit");
+    expect(cases.map(c => c.outcome)).toEqual(["passed", "failed", "skipped"]);
+    expect(cases[0]).toMatchObject({ suite: "BrakeTests", durationSeconds: 0.021, message: null });
+    expect(cases[1]).toMatchObject({ message: "expected 0 to be 1", declaredRefs: ["SRS-013", "SRS-014"] });
+  });
+
+  it("reads top-level TAP test points and directives", () => {
+    const cases = parseTestResults(tap, "tap");
+    expect(cases.map(c => [c.name, c.outcome])).toEqual([
+      ["SRS-012 releases within 200ms", "passed"],
+      ["SRS-013 holds on slope", "failed"],
+      ["SRS-014 pulse", "skipped"],
+      ["unrelated helper", "passed"]
+    ]);
+  });
+
+  it("reads CTest console lines", () => {
+    const cases = parseTestResults(ctest, "ctest");
+    expect(cases.map(c => [c.name, c.outcome, c.durationSeconds])).toEqual([
+      ["brake_SRS_012", "passed", 0.02],
+      ["brake_SRS_013", "failed", 0.05],
+      ["brake_SRS_014", "skipped", 0]
+    ]);
+  });
+
+  it("rejects input without test cases", () => {
+    expect(() => parseTestResults("<coverage/>", "junit")).toThrow(/Not a JUnit report/);
+    expect(() => parseTestResults("no tests here", "tap")).toThrow(/No test cases/);
+  });
+});
+
+describe("refsInText", () => {
+  it("matches whole refs and aliases, accepting underscores for dashes", () => {
+    expect(refsInText("test_SRS_012_release", requirements).map(r => r.id)).toEqual(["r12"]);
+    expect(refsInText("BRK-7 holds", requirements).map(r => r.id)).toEqual(["r13"]);
+    expect(refsInText("SRS-0120 and XSRS-013", requirements)).toEqual([]);
+  });
+});
+
+describe("runVerdict", () => {
+  it("fails on any failure, passes on any pass and is otherwise inconclusive", () => {
+    expect(runVerdict([testCase("a", "passed"), testCase("b", "error")])).toBe("fail");
+    expect(runVerdict([testCase("a", "passed"), testCase("b", "skipped")])).toBe("pass");
+    expect(runVerdict([testCase("a", "skipped")])).toBe("inconclusive");
+  });
+});
+
+describe("mapTestResults", () => {
+  it("groups cases per requirement by name and declared refs", () => {
+    const result = mapTestResults(parseTestResults(junit, "junit"), requirements);
+    expect(result.requirements.map(r => [r.ref, r.verdict, r.cases.length])).toEqual([
+      ["SRS-012", "pass", 1],
+      ["SRS-013", "fail", 1],
+      ["SRS-014", "fail", 1]
+    ]);
+    expect(result.unmatched.map(c => c.name)).toEqual(["abs pulse"]);
+  });
+
+  it("prefers the mapping file, supports wildcards and reports unknown refs", () => {
+    const cases = [
+      testCase("SRS-012 release", "passed"),
+      testCase("pulse", "passed", { suite: "Abs" }),
+      testCase("legacy", "failed")
+    ];
+    const result = mapTestResults(cases, requirements, {
+      "SRS-012 *": "BRK-7",
+      "Abs.*": ["SRS-014"],
+      legacy: "SRS-999"
+    });
+    expect(result.requirements.map(r => [r.ref, r.verdict])).toEqual([
+      ["SRS-013", "pass"],
+      ["SRS-014", "pass"]
+    ]);
+    expect(result.unmatched.map(c => c.name)).toEqual(["legacy"]);
+    expect(result.unknownRefs).toEqual(["SRS-999"]);
+  });
+});
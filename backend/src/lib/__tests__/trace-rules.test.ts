@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkDocumentLink,
+  checkTraceLink,
+  evaluateTraceRules,
+  matchesClass,
+  validateTraceRules,
+  type TraceEndpoint,
+  type TraceRuleSetDefinition
+} from "../trace-rules.js";
+
+function endpoint(id: string, documentSlug: string, shortCode: string, extra: Partial<TraceEndpoint> = {}): TraceEndpoint {
+  return { id, ref: id.toUpperCase(), documentSlug, documentShortCode: shortCode, tags: [], attributes: {}, ...extra };
+}
+
+const sys1 = endpoint("sys-1", "system-requirements", "SYS");
+const sys2 = endpoint("sys-2", "system-requirements", "SYS", { tags: ["Safety"] });
+const sub1 = endpoint("sub-1", "subsystem-requirements", "SUB", { attributes: { Level: "L2" } });
+const test1 = endpoint("test-1", "test-cases", "TST");
+
+const ruleSet: TraceRuleSetDefinition = {
+  unmatched: "reject",
+  rules: [
+    {
+      id: "sub-satisfies-sys",
+      source: { document: "SUB" },
+      target: { document: "SYS" },
+      linkTypes: ["satisfies", "derives"],
+      enforcement: "reject",
+      minPerTarget: 1
+    },
+    {
+      id: "tests-verify",
+      source: { document: "test-cases" },
+      target: {},
+      linkTypes: ["verifies"],
+      enforcement: "warn"
+    }
+  ]
+};
+
+describe("matchesClass", () => {
+  it("matches documents by slug or short code and tags and attributes ignoring case", () => {
+    expect(matchesClass({ document: "sys" }, sys1)).toBe(true);
+    expect(matchesClass({ document: "system-requirements" }, sys1)).toBe(true);
+    expect(matchesClass({ tag: "safety" }, sys2)).toBe(true);
+    expect(matchesClass({ tag: "safety" }, sys1)).toBe(false);
+    expect(matchesClass({ attribute: { key: "level", value: "l2" } }, sub1)).toBe(true);
+    expect(matchesClass({ document: "SYS", attribute: { key: "level", value: "L2" } }, sub1)).toBe(false);
+    expect(matchesClass({}, test1)).toBe(true);
+  });
+});
+
+describe("checkTraceLink", () => {
+  it("allows a link type listed by a matching rule", () => {
+    expect(checkTraceLink(ruleSet, sub1, sys1, "derives")).toEqual([]);
+    expect(checkTraceLink(ruleSet, test1, sub1, "verifies")).toEqual([]);
+  });
+
+  it("reports each matching rule that does not allow the link type", () => {
+    const violations = checkTraceLink(ruleSet, sub1, sys1, "verifies");
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ ruleId: "sub-satisfies-sys", enforcement: "reject", requirementId: "sub-1" });
+
+    expect(checkTraceLink(ruleSet, test1, sys1, "refines")[0].enforcement).toBe("warn");
+  });
+
+  it("applies the unmatched policy to links no rule covers", () => {
+    expect(checkTraceLink(ruleSet, sys1, sub1, "satisfies")).toEqual([
+      expect.objectContaining({ ruleId: null, enforcement: "reject" })
+    ]);
+    expect(checkTraceLink({ ...ruleSet, unmatched: "allow" }, sys1, sub1, "satisfies")).toEqual([]);
+  });
+});
+
+describe("checkDocumentLink", () => {
+  const sub = { slug: "subsystem-requirements", shortCode: "SUB" };
+  const sys = { slug: "system-requirements", shortCode: "SYS" };
+
+  it("rejects document pairs no rule can apply to", () => {
+    expect(checkDocumentLink(ruleSet, sub, sys)).toEqual([]);
+    expect(checkDocumentLink(ruleSet, sys, sub)[0]).toMatchObject({ ruleId: null, enforcement: "reject" });
+  });
+
+  it("checks the default link type against rules naming both documents", () => {
+    expect(checkDocumentLink(ruleSet, sub, sys, "satisfies")).toEqual([]);
+    expect(checkDocumentLink(ruleSet, sub, sys, "refines")[0]).toMatchObject({ ruleId: "sub-satisfies-sys" });
+  });
+});
+
+describe("evaluateTraceRules", () => {
+  it("reports targets with too few links from the source class", () => {
+    const violations = evaluateTraceRules(ruleSet, [sys1, sys2, sub1], [
+      { sourceRequirementId: "sub-1", targetRequirementId: "sys-1", linkType: "satisfies" }
+    ]);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ ruleId: "sub-satisfies-sys", requirementId: "sys-2" });
+    expect(violations[0].message).toContain("requires at least 1");
+  });
+
+  it("reports disallowed links and skips links to unknown requirements", () => {
+    const violations = evaluateTraceRules({ ...ruleSet, rules: ruleSet.rules.map(rule => ({ ...rule, minPerTarget: undefined })) }, [sys1, sub1], [
+      { sourceRequirementId: "sys-1", targetRequirementId: "sub-1", linkType: "satisfies" },
+      { sourceRequirementId: "sub-1", targetRequirementId: "deleted", linkType: "satisfies" }
+    ]);
+
+    expect(violations).toEqual([expect.objectContaining({ ruleId: null, requirementId: "sys-1" })]);
+  });
+});
+
+describe("validateTraceRules", () => {
+  it("flags duplicate IDs and inverted cardinality bounds", () => {
+    const errors = validateTraceRules({
+      unmatched: "allow",
+      rules: [
+        { id: "a", source: {}, target: {}, linkTypes: ["satisfies"], enforcement: "warn" },
+        { id: "a", source: {}, target: {}, linkTypes: ["satisfies"], enforcement: "warn", minPerSource: 3, maxPerSource: 1 }
+      ]
+    });
+
+    expect(errors).toEqual([
+      'Duplicate rule "a"',
+      'Rule "a" requires at least 3 but at most 1 links per source'
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { EventEmitter } from "node:events";
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+import { describe, it, expect } from "vitest";
+import { acceptWebSocket, encodeWebSocketFrame, websocketAcceptKey, WebSocketConnection } from "../websocket.js";
+
+class FakeSocket extends EventEmitter {
+  written: Array<Buffer | string> = [];
+  ended = false;
+
+  write(data: Buffer | string): boolean {
+    this.written.push(data);
+    return true;
+  }
+
+  end(data?: Buffer | string): this {
+    if (data !== undefined) {this.written.push(data);}
+    this.ended = true;
+    return this;
+  }
+}
+
+/** Encode a client frame, which must be masked */
+function clientFrame(opcode: number, text: string, fin = true): Buffer {
+  const payload = Buffer.from(text, "utf8");
+  const mask = Buffer.from([1, 2, 3, 4]);
+  const masked = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]));
+  const header = payload.length < 126
+    ? Buffer.from([(fin ? 0x80 : 0) | opcode, 0x80 | payload.length])
+    : Buffer.from([(fin ? 0x80 : 0) | opcode, 0x80 | 126, payload.length >> 8, payload.length & 0xff]);
+  return Buffer.concat([header, mask, masked]);
+}
+
+function connect(): { socket: FakeSocket; connection: WebSocketConnection; messages: string[] } {
+  const socket = new FakeSocket();
+  const connection = new WebSocketConnection(socket as unknown as Duplex);
+  const messages: string[] = [];
+  connection.on("message", (message: string) => messages.push(message));
+  return { socket, connection, messages };
+}
+
+describe("websocket", () => {
+  it("computes the handshake accept key from RFC 6455", () => {
+    expect(websocketAcceptKey("dGhlIHNhbXBsZSBub25jZQ==")).toBe("s3pPLMBiTxaQ9kYGzzhZRbK+xOo=");
+  });
+
+  it("answers a valid upgrade and rejects anything else", () => {
+    const socket = new FakeSocket();
+    const connection = acceptWebSocket(
+      { headers: { upgrade: "websocket", "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==" } } as unknown as IncomingMessage,
+      socket as unknown as Duplex
+    );
+    expect(connection).toBeInstanceOf(WebSocketConnection);
+    expect(String(socket.written[0])).toContain("Sec-WebSocket-Accept: s3pPLMBiTxaQ9kYGzzhZRbK+xOo=");
+
+    const rejected = new FakeSocket();
+    expect(acceptWebSocket({ headers: {} } as unknown as IncomingMessage, rejected as unknown as Duplex)).toBeNull();
+    expect(String(rejected.written[0])).toMatch(/^HTTP\/1.1 400/);
+    expect(rejected.ended).toBe(true);
+  });
+
+  it("decodes masked text frames split across chunks and fragments", () => {
+    const { socket, messages } = connect();
+    const frame = clientFrame(0x1, "x".repeat(200));
+
+    socket.emit("data", frame.subarray(0, 3));
+    socket.emit("data", frame.subarray(3));
+    socket.emit("data", Buffer.concat([clientFrame(0x1, "hel", false), clientFrame(0x0, "lo")]));
+
+    expect(messages).toEqual(["x".repeat(200), "hello"]);
+  });
+
+  it("answers pings and closes on unmasked or binary frames", () => {
+    const { socket, connection } = connect();
+    socket.emit("data", clientFrame(0x9, "hi"));
+    expect(socket.written[0]).toEqual(encodeWebSocketFrame(0xa, Buffer.from("hi")));
+
+    let closed = 0;
+    connection.on("close", () => closed++);
+    socket.emit("data", clientFrame(0x2, "bin"));
+    expect(connection.isOpen).toBe(false);
+    expect(socket.ended).toBe(true);
+    expect(closed).toBe(1);
+
+    const unmasked = connect();
+    unmasked.socket.emit("data", encodeWebSocketFrame(0x1, Buffer.from("nope")));
+    expect(unmasked.messages).toEqual([]);
+    expect(unmasked.connection.isOpen).toBe(false);
+  });
+
+  it("encodes server frames with extended lengths", () => {
+    const frame = encodeWebSocketFrame(0x1, Buffer.alloc(300, 0x61));
+    expect(frame[0]).toBe(0x81);
+    expect(frame[1]).toBe(126);
+    expect(frame.readUInt16BE(2)).toBe(300);
+    expect(frame.length).toBe(304);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { diffWords } from "../word-diff.js";
+
+function join(segments: ReturnType<typeof diffWords>, keep: "insert" | "delete"): string {
+  return segments.filter(s => s.op === "equal" || s.op === keep).map(s => s.text).join("");
+}
+
+describe("diffWords", () => {
+  it("marks replaced words and keeps the rest equal", () => {
+    const segments = diffWords("The pump shall deliver 10 L/min.", "The pump shall deliver 12 L/min.");
+
+    expect(segments).toEqual([
+      { op: "equal", text: "The pump shall deliver " },
+      { op: "delete", text: "10" },
+      { op: "insert", text: "12" },
+      { op: "equal", text: " L/min." }
+    ]);
+  });
+
+  it("reproduces both texts from the segments", () => {
+    const before = "The system shall log every  fault within 5 s.";
+    const after = "The control system shall record every fault within 2 s\nof detection.";
+    const segments = diffWords(before, after);
+
+    expect(join(segments, "delete")).toBe(before);
+    expect(join(segments, "insert")).toBe(after);
+  });
+
+  it("treats added and removed text as a single segment", () => {
+    expect(diffWords("", "New text")).toEqual([{ op: "insert", text: "New text" }]);
+    expect(diffWords("Old text", "")).toEqual([{ op: "delete", text: "Old text" }]);
+    expect(diffWords("", "")).toEqual([]);
+  });
+});
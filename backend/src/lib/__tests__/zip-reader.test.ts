@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { listZip, readZip } from "../zip-reader.js";
+import { createZip } from "../zip-writer.js";
+
+describe("readZip", () => {
+  const archive = createZip([
+    { name: "word/document.xml", data: "<w:document/>" },
+    { name: "word/media/image1.png", data: Buffer.alloc(1024) }
+  ]);
+
+  it("reads only the included entries", () => {
+    expect(listZip(archive)).toEqual(["word/document.xml", "word/media/image1.png"]);
+    const entries = readZip(archive, { include: name => name.endsWith(".xml") });
+    expect([...entries.keys()]).toEqual(["word/document.xml"]);
+    expect(entries.get("word/document.xml")?.toString("utf8")).toBe("<w:document/>");
+  });
+
+  it("stops inflating entries past the size caps", () => {
+    // 1 MiB of zeros deflates to about 1 KiB
+    const bomb = createZip([{ name: "a.xml", data: Buffer.alloc(1024 * 1024) }, { name: "b.xml", data: Buffer.alloc(1024 * 1024) }]);
+    expect(bomb.length).toBeLessThan(16 * 1024);
+
+    expect(() => readZip(bomb, { maxEntrySize: 64 * 1024 })).toThrow(/a\.xml is too large/);
+    expect(() => readZip(bomb, { maxTotalSize: 1.5 * 1024 * 1024 })).toThrow(/b\.xml is too large/);
+    expect(readZip(bomb).get("b.xml")?.length).toBe(1024 * 1024);
+  });
+
+  it("rejects offsets outside the buffer instead of throwing a RangeError", () => {
+    const corrupt = Buffer.from(archive);
+    const end = corrupt.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    const centralDirectory = corrupt.readUInt32LE(end + 16);
+    corrupt.writeUInt32LE(corrupt.length + 100, centralDirectory + 42);
+
+    expect(() => readZip(corrupt)).toThrow(/bad local header/);
+    expect(() => readZip(corrupt)).not.toThrow(RangeError);
+  });
+});
@@ -0,0 +1,142 @@
+import { createHash, randomBytes } from "node:crypto";
+import { slugify } from "../services/workspace.js";
+
+/**
+ * API token primitives shared by the auth plugin and the token service.
+ *
+ * Tokens are opaque random strings with a recognisable prefix so the
+ * authenticate hook can tell them apart from JWTs without a database hit:
+ * - airgen_pat_… personal access tokens (act as the owning user)
+ * - airgen_sat_… service account tokens (act as a tenant-owned account)
+ */
+
+export const API_TOKEN_SCOPES = ["read", "write", "verification:write", "admin"] as const;
+
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+export const API_TOKEN_SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  read: "Read-only access to everything the owner can see",
+  write: "Create and edit requirements, documents, trace links and baselines",
+  "verification:write": "Read access plus recording verification activities and evidence",
+  admin: "Project administration such as settings, QA rule packs and deletion (implies write)"
+};
+
+export type ApiTokenKind = "personal" | "service_account";
+
+export const API_TOKEN_PREFIXES: Record<ApiTokenKind, string> = {
+  personal: "airgen_pat_",
+  service_account: "airgen_sat_"
+};
+
+/** Attached to AuthenticatedUser when the request used an API token */
+export type ApiTokenContext = {
+  id: string;
+  kind: ApiTokenKind;
+  scopes: ApiTokenScope[];
+  /** "tenant/project" slugs the token is limited to; undefined = no project restriction */
+  projects?: string[];
+  serviceAccountId?: string;
+};
+
+/** Error with an HTTP status for the global error handler */
+export class ApiTokenError extends Error {
+  constructor(public readonly statusCode: 401 | 403, message: string) {
+    super(message);
+    this.name = "ApiTokenError";
+  }
+}
+
+// Number of leading characters stored in clear to identify a token in listings
+const DISPLAY_PREFIX_LENGTH = 16;
+
+export function isApiToken(value: string): boolean {
+  return Object.values(API_TOKEN_PREFIXES).some(prefix => value.startsWith(prefix));
+}
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Generate a new token. Only the hash is persisted; the plain token is
+ * returned to the caller once.
+ */
+export function generateApiToken(kind: ApiTokenKind): { token: string; tokenPrefix: string; hashedToken: string } {
+  const token = `${API_TOKEN_PREFIXES[kind]}${randomBytes(30).toString("base64url")}`;
+  return {
+    token,
+    tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+    hashedToken: hashApiToken(token)
+  };
+}
+
+const READ_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+// Credential, access and integration management always requires an interactive session
+const TOKEN_FORBIDDEN_PATHS = [
+  /^\/api\/tokens(\/|$)/,
+  /^\/api\/(admin|super-admin|tenant-admin)\//,
+  /^\/api\/mfa(\/|$)/,
+  /^\/api\/webhooks(\/|$)/
+];
+
+const VERIFICATION_WRITE_PATH = /^\/api\/verification\//;
+
+const TENANT_KEYS = ["tenant", "tenantSlug"];
+const PROJECT_KEYS = ["project", "projectKey", "projectSlug"];
+
+function pickString(sources: unknown[], keys: string[]): string | undefined {
+  for (const source of sources) {
+    if (!source || typeof source !== "object") continue;
+    for (const key of keys) {
+      const value = (source as Record<string, unknown>)[key];
+      if (typeof value === "string" && value.length > 0) {
+        return value;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check a request against a token's scopes and project restriction.
+ * Tenant and project are read from route params, query string and body.
+ *
+ * @returns An error message, or null when the request is allowed
+ */
+export function checkApiTokenAccess(
+  token: ApiTokenContext,
+  request: { method: string; url: string; params?: unknown; query?: unknown; body?: unknown }
+): string | null {
+  const path = request.url.split("?")[0];
+
+  if (TOKEN_FORBIDDEN_PATHS.some(pattern => pattern.test(path))) {
+    return "API tokens cannot manage tokens, users, service accounts or webhooks";
+  }
+
+  if (!READ_METHODS.has(request.method.toUpperCase())) {
+    const canWrite = token.scopes.includes("write") || token.scopes.includes("admin");
+    const canWriteVerification = token.scopes.includes("verification:write") && VERIFICATION_WRITE_PATH.test(path);
+    if (!canWrite && !canWriteVerification) {
+      return `Token scopes (${token.scopes.join(", ")}) do not allow ${request.method} ${path}`;
+    }
+  }
+
+  if (token.projects) {
+    const sources = [request.params, request.query, request.body];
+    const tenant = pickString(sources, TENANT_KEYS);
+    const project = pickString(sources, PROJECT_KEYS);
+    const allowed = token.projects.map(entry => entry.split("/"));
+
+    if (tenant && !allowed.some(([allowedTenant]) => allowedTenant === slugify(tenant))) {
+      return `Token is not valid for tenant '${tenant}'`;
+    }
+    if (project && !allowed.some(([allowedTenant, allowedProject]) =>
+      allowedProject === slugify(project) && (!tenant || allowedTenant === slugify(tenant))
+    )) {
+      return `Token is not valid for project '${project}'`;
+    }
+  }
+
+  return null;
+}
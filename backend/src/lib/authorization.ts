@@ -493,6 +493,22 @@ export function requireProjectAdmin(
   }
 }
 
+/**
+ * Check whether user has at least a minimum role in a context
+ */
+export function hasMinimumRoleInContext(
+  user: AuthUser | undefined,
+  minimumRole: UserRole,
+  tenantSlug?: string,
+  projectKey?: string
+): boolean {
+  if (!user) return false;
+  if (isSuperAdmin(user)) return true;
+
+  const role = getEffectiveRole(user, tenantSlug, projectKey);
+  return !!role && roleHasMinimum(role, minimumRole);
+}
+
 /**
  * Require user to have at least a minimum role in a context
  */
@@ -0,0 +1,232 @@
+import { childElements, firstChild, isElement, localName, parseXml, textContent, type XmlElement, type XmlNode } from "../services/reqif/reqif-xml.js";
+import { listZip, readZip } from "./zip-reader.js";
+
+export type DocumentFormat = "pdf" | "docx" | "xlsx";
+
+/**
+ * One addressable piece of text in a document, with a locator in the same
+ * shape stable references use:
+ * - `pdf_page`: `{ page }`, 1-based
+ * - `docx_paragraph`: `{ paragraph }`, 1-based over every paragraph in
+ *   document order, table cells included
+ * - `xlsx_cell`: `{ sheet, cell }` with an A1-style cell reference
+ */
+export type TextUnit =
+  | { locatorType: "pdf_page"; locator: { page: number }; text: string }
+  | { locatorType: "docx_paragraph"; locator: { paragraph: number }; text: string }
+  | { locatorType: "xlsx_cell"; locator: { sheet: string; cell: string }; text: string };
+
+export type ExtractedDocument = {
+  format: DocumentFormat;
+  units: TextUnit[];
+};
+
+function entryText(entries: Map<string, Buffer>, name: string): string | undefined {
+  return entries.get(name)?.toString("utf8");
+}
+
+// ── DOCX ───────────────────────────────────────────────────────
+
+function runText(node: XmlNode): string {
+  if (!isElement(node)) {return "";}
+  switch (localName(node.name)) {
+    case "t":
+      return textContent(node);
+    case "tab":
+      return "\t";
+    case "br":
+    case "cr":
+      return "\n";
+    // Deleted revisions and field instructions are not visible text
+    case "delText":
+    case "instrText":
+      return "";
+    default:
+      return node.children.map(runText).join("");
+  }
+}
+
+function collectParagraphs(element: XmlElement, out: XmlElement[]): void {
+  for (const child of childElements(element)) {
+    if (localName(child.name) === "p") {
+      out.push(child);
+    } else {
+      collectParagraphs(child, out);
+    }
+  }
+}
+
+/**
+ * Paragraph text of a DOCX package's main document part. Empty paragraphs
+ * keep their number but produce no unit.
+ */
+export function extractDocxParagraphs(entries: Map<string, Buffer>): TextUnit[] {
+  const xml = entryText(entries, "word/document.xml");
+  if (xml === undefined) {
+    throw new Error("DOCX package has no word/document.xml");
+  }
+  const body = firstChild(parseXml(xml), "body");
+  if (!body) {return [];}
+
+  const paragraphs: XmlElement[] = [];
+  collectParagraphs(body, paragraphs);
+
+  const units: TextUnit[] = [];
+  paragraphs.forEach((paragraph, index) => {
+    const text = runText(paragraph);
+    if (text.trim()) {
+      units.push({ locatorType: "docx_paragraph", locator: { paragraph: index + 1 }, text });
+    }
+  });
+  return units;
+}
+
+// ── XLSX ───────────────────────────────────────────────────────
+
+function resolvePartPath(target: string): string {
+  if (target.startsWith("/")) {return target.slice(1);}
+  const parts: string[] = ["xl"];
+  for (const segment of target.split("/")) {
+    if (segment === "..") {parts.pop();}
+    else if (segment && segment !== ".") {parts.push(segment);}
+  }
+  return parts.join("/");
+}
+
+function sharedStrings(entries: Map<string, Buffer>): string[] {
+  const xml = entryText(entries, "xl/sharedStrings.xml");
+  if (xml === undefined) {return [];}
+  // Rich text runs are concatenated; phonetic hints (rPh) are dropped
+  const plain = (node: XmlNode): string => {
+    if (!isElement(node)) {return "";}
+    const name = localName(node.name);
+    if (name === "rPh") {return "";}
+    if (name === "t") {return textContent(node);}
+    return node.children.map(plain).join("");
+  };
+  return childElements(parseXml(xml), "si").map(plain);
+}
+
+/**
+ * Non-empty cell values of every worksheet in an XLSX package, as
+ * displayed text without number formatting.
+ */
+export function extractXlsxCells(entries: Map<string, Buffer>): TextUnit[] {
+  const workbookXml = entryText(entries, "xl/workbook.xml");
+  if (workbookXml === undefined) {
+    throw new Error("XLSX package has no xl/workbook.xml");
+  }
+  const relsXml = entryText(entries, "xl/_rels/workbook.xml.rels");
+  const targets = new Map<string, string>();
+  if (relsXml !== undefined) {
+    for (const rel of childElements(parseXml(relsXml), "Relationship")) {
+      targets.set(rel.attributes.Id, rel.attributes.Target);
+    }
+  }
+  const strings = sharedStrings(entries);
+
+  const units: TextUnit[] = [];
+  const sheets = firstChild(parseXml(workbookXml), "sheets");
+  for (const sheet of sheets ? childElements(sheets, "sheet") : []) {
+    const relId = Object.entries(sheet.attributes).find(([name]) => localName(name) === "id")?.[1];
+    const target = relId ? targets.get(relId) : undefined;
+    const xml = target ? entryText(entries, resolvePartPath(target)) : undefined;
+    if (xml === undefined) {continue;}
+
+    const sheetData = firstChild(parseXml(xml), "sheetData");
+    for (const row of sheetData ? childElements(sheetData, "row") : []) {
+      for (const cell of childElements(row, "c")) {
+        const type = cell.attributes.t;
+        const value = textContent(firstChild(cell, "v"));
+        let text: string;
+        if (type === "s") {
+          text = strings[Number(value)] ?? "";
+        } else if (type === "inlineStr") {
+          text = textContent(firstChild(cell, "is"));
+        } else if (type === "b") {
+          text = value === "1" ? "TRUE" : value === "0" ? "FALSE" : value;
+        } else {
+          text = value;
+        }
+        if (text.trim() && cell.attributes.r) {
+          units.push({ locatorType: "xlsx_cell", locator: { sheet: sheet.attributes.name, cell: cell.attributes.r }, text });
+        }
+      }
+    }
+  }
+  return units;
+}
+
+// ── PDF ────────────────────────────────────────────────────────
+
+/**
+ * Text of each PDF page, with a line break wherever pdf.js reports the end
+ * of a line.
+ */
+async function extractPdfPages(content: Buffer): Promise<TextUnit[]> {
+  // pdf.js is large; load it only when a PDF actually arrives
+  const pdfjsLib = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const pdfDocument = await pdfjsLib.getDocument({
+    data: new Uint8Array(content),
+    useSystemFonts: true,
+    verbosity: 0
+  }).promise;
+
+  const units: TextUnit[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+      const page = await pdfDocument.getPage(pageNumber);
+      const { items } = await page.getTextContent();
+      const text = items
+        .map(item => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : ""))
+        .join("");
+      if (text.trim()) {
+        units.push({ locatorType: "pdf_page", locator: { page: pageNumber }, text });
+      }
+    }
+  } finally {
+    await pdfDocument.destroy();
+  }
+  return units;
+}
+
+// ── Entry point ────────────────────────────────────────────────
+
+/**
+ * Detect a PDF, DOCX or XLSX file from its bytes. OOXML packages are told
+ * apart by their main part.
+ */
+export function detectDocumentFormat(content: Buffer): DocumentFormat | null {
+  if (content.subarray(0, 5).toString("latin1") === "%PDF-") {return "pdf";}
+  if (content.length < 4 || content.readUInt32LE(0) !== 0x04034b50) {return null;}
+  try {
+    const names = listZip(content);
+    if (names.includes("word/document.xml")) {return "docx";}
+    if (names.includes("xl/workbook.xml")) {return "xlsx";}
+  } catch {
+    return null;
+  }
+  return null;
+}
+
+/**
+ * Split a PDF, DOCX or XLSX file into addressable text units.
+ *
+ * @throws Error if the format is not recognised or the file cannot be read
+ */
+export async function extractTextUnits(content: Buffer): Promise<ExtractedDocument> {
+  const format = detectDocumentFormat(content);
+  if (!format) {
+    throw new Error("Unsupported document format; expected PDF, DOCX or XLSX");
+  }
+  if (format === "pdf") {
+    try {
+      return { format, units: await extractPdfPages(content) };
+    } catch (error) {
+      throw new Error(`Failed to extract PDF text: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+  // Text lives in XML parts; media and other binaries are never inflated
+  const entries = readZip(content, { include: name => name.endsWith(".xml") || name.endsWith(".rels") });
+  return { format, units: format === "docx" ? extractDocxParagraphs(entries) : extractXlsxCells(entries) };
+}
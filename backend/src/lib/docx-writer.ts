@@ -0,0 +1,170 @@
+import type { ReportDocument, ReportRun } from "./report-document.js";
+import { createZip } from "./zip-writer.js";
+
+// Usable width of an A4 page with 2cm margins, in twentieths of a point
+const CONTENT_WIDTH_TWIPS = 9638;
+
+const RUN_PROPERTIES: Record<NonNullable<ReportRun["style"]>, string> = {
+  normal: "",
+  bold: "<w:b/>",
+  muted: '<w:color w:val="6B7280"/>',
+  insert: '<w:color w:val="00733A"/><w:u w:val="single"/>',
+  delete: '<w:color w:val="BF1A1A"/><w:strike/>'
+};
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+function run(text: string, style: ReportRun["style"] = "normal"): string {
+  const props = RUN_PROPERTIES[style];
+  const parts = text.split("\n").map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`);
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}${parts.join("<w:br/>")}</w:r>`;
+}
+
+function paragraph(runs: ReportRun[], style?: string): string {
+  const props = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : "";
+  return `<w:p>${props}${runs.map(r => run(r.text, r.style)).join("")}</w:p>`;
+}
+
+function table(headers: string[], rows: string[][], weights: number[]): string {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const widths = weights.map(w => Math.round((w / total) * CONTENT_WIDTH_TWIPS));
+  const cell = (text: string, width: number, header: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${header ? '<w:shd w:val="clear" w:color="auto" w:fill="EDEFF4"/>' : ""}</w:tcPr>` +
+    `${paragraph([{ text, style: header ? "bold" : "normal" }])}</w:tc>`;
+  const row = (cells: string[], header: boolean) =>
+    `<w:tr>${header ? "<w:trPr><w:tblHeader/></w:trPr>" : ""}${widths.map((w, i) => cell(cells[i] ?? "", w, header)).join("")}</w:tr>`;
+
+  return (
+    `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="${CONTENT_WIDTH_TWIPS}" w:type="dxa"/></w:tblPr>` +
+    `<w:tblGrid>${widths.map(w => `<w:gridCol w:w="${w}"/>`).join("")}</w:tblGrid>` +
+    row(headers, true) +
+    rows.map(r => row(r, false)).join("") +
+    "</w:tbl>" +
+    // Word requires a paragraph between consecutive tables and before the section end
+    "<w:p/>"
+  );
+}
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="20"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="100"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="200" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="160" w:after="60"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:sz w:val="23"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Footer"><w:name w:val="footer"/><w:basedOn w:val="Normal"/><w:rPr><w:color w:val="6B7280"/><w:sz w:val="16"/></w:rPr></w:style>
+<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>
+<w:top w:val="single" w:sz="4" w:space="0" w:color="CBD0D8"/><w:left w:val="single" w:sz="4" w:space="0" w:color="CBD0D8"/>
+<w:bottom w:val="single" w:sz="4" w:space="0" w:color="CBD0D8"/><w:right w:val="single" w:sz="4" w:space="0" w:color="CBD0D8"/>
+<w:insideH w:val="single" w:sz="4" w:space="0" w:color="CBD0D8"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="CBD0D8"/>
+</w:tblBorders><w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`;
+
+/**
+ * Render a report document as a minimal WordprocessingML (.docx) package.
+ * Document properties go into docProps/custom.xml so they survive editing.
+ */
+export function renderDocx(document: ReportDocument): Buffer {
+  const body = document.blocks.map(block => {
+    if (block.type === "heading") return paragraph([{ text: block.text }], `Heading${block.level}`);
+    if (block.type === "paragraph") return paragraph(block.runs);
+    return table(block.headers, block.rows, block.widths ?? block.headers.map(() => 1));
+  });
+
+  const footer = document.footer
+    ? '<w:footerReference w:type="default" r:id="rIdFooter"/>'
+    : "";
+  const documentXml =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><w:body>' +
+    body.join("") +
+    `<w:sectPr>${footer}<w:pgSz w:w="11906" w:h="16838"/>` +
+    '<w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/></w:sectPr>' +
+    "</w:body></w:document>";
+
+  const footerXml =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<w:ftr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+    `<w:p><w:pPr><w:pStyle w:val="Footer"/></w:pPr>${run(document.footer ?? "")}` +
+    '<w:r><w:tab/><w:t xml:space="preserve">Page </w:t></w:r>' +
+    '<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r>' +
+    '<w:r><w:fldChar w:fldCharType="end"/></w:r></w:p></w:ftr>';
+
+  const customProperties = Object.entries(document.properties ?? {})
+    .map(([name, value], i) =>
+      `<property fmtid="{D5CDD505-2E9C-101B-9397-08002B2CF9AE}" pid="${i + 2}" name="${escapeXml(name)}">` +
+      `<vt:lpwstr>${escapeXml(value)}</vt:lpwstr></property>`
+    )
+    .join("");
+
+  const entries = [
+    {
+      name: "[Content_Types].xml",
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+        '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+        '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>' +
+        '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+        '<Override PartName="/docProps/custom.xml" ContentType="application/vnd.openxmlformats-officedocument.custom-properties+xml"/>' +
+        "</Types>"
+    },
+    {
+      name: "_rels/.rels",
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+        '<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/custom-properties" Target="docProps/custom.xml"/>' +
+        "</Relationships>"
+    },
+    {
+      name: "word/_rels/document.xml.rels",
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '<Relationship Id="rIdFooter" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>' +
+        "</Relationships>"
+    },
+    { name: "word/document.xml", data: documentXml },
+    { name: "word/styles.xml", data: STYLES_XML },
+    { name: "word/footer1.xml", data: footerXml },
+    {
+      name: "docProps/core.xml",
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+        'xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+        `<dc:title>${escapeXml(document.title)}</dc:title>` +
+        (document.subject ? `<dc:subject>${escapeXml(document.subject)}</dc:subject>` : "") +
+        (document.author ? `<dc:creator>${escapeXml(document.author)}</dc:creator>` : "") +
+        "</cp:coreProperties>"
+    },
+    {
+      name: "docProps/custom.xml",
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/custom-properties" ' +
+        'xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes">' +
+        customProperties +
+        "</Properties>"
+    }
+  ];
+
+  return createZip(entries);
+}
@@ -648,6 +648,63 @@ export async function sendTenantInvitationEmail(
   });
 }
 
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Notify a user that they were @mentioned in a comment
+ */
+export async function sendCommentMentionEmail(
+  email: string,
+  name: string | undefined,
+  mention: {
+    mentionedBy: string;
+    projectSlug: string;
+    documentSlug: string | null;
+    excerpt: string;
+  }
+): Promise<void> {
+  const location = mention.documentSlug
+    ? `${mention.projectSlug} / ${mention.documentSlug}`
+    : mention.projectSlug;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    </head>
+    <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <h2 style="color: #2563eb;">You were mentioned in a comment</h2>
+      <p>Hello ${name || "there"},</p>
+      <p>${escapeHtml(mention.mentionedBy)} mentioned you in <strong>${escapeHtml(location)}</strong>:</p>
+      <div style="background-color: #f3f4f6; border-left: 4px solid #2563eb; padding: 15px; margin: 20px 0; white-space: pre-wrap;">${escapeHtml(mention.excerpt)}</div>
+      <p style="margin: 30px 0;">
+        <a href="${config.appUrl}/documents"
+           style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block;">
+          Open AIRGen
+        </a>
+      </p>
+      <p style="margin-top: 30px; color: #6b7280; font-size: 14px;">
+        You can review all your mentions from the notifications menu in AIRGen.
+      </p>
+    </body>
+    </html>
+  `;
+
+  await sendEmail({
+    to: email,
+    subject: `${mention.mentionedBy} mentioned you – AIRGen`,
+    html
+  });
+}
+
 /**
  * Send failed signup notification to admin
  */
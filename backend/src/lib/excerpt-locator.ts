@@ -0,0 +1,156 @@
+import type { TextUnit } from "./document-text.js";
+
+/**
+ * Where a stable reference's excerpt ended up in a newer revision:
+ * - `unchanged`: still at its locator
+ * - `moved`: verbatim, but under a different locator
+ * - `changed`: only a similar passage remains
+ * - `missing`: nothing similar enough remains
+ */
+export type DriftStatus = "unchanged" | "moved" | "changed" | "missing";
+
+export type ExcerptReference = {
+  locatorType: string;
+  locator: Record<string, unknown>;
+  excerptText: string;
+};
+
+export type ExcerptLocation = {
+  status: DriftStatus;
+  locatorType: TextUnit["locatorType"] | null;
+  locator: Record<string, unknown> | null;
+  /** The passage as it reads now; null when missing */
+  excerptText: string | null;
+  /** Word overlap (Dice) between the captured and current passage, 0–1 */
+  similarity: number;
+};
+
+/** Below this similarity a reference counts as missing rather than changed */
+export const CHANGED_SIMILARITY = 0.5;
+
+/**
+ * Human-readable form of a locator for messages: "page 3",
+ * "paragraph 12", "Results!B4".
+ */
+export function describeLocator(locatorType: string, locator: Record<string, unknown>): string {
+  switch (locatorType) {
+    case "pdf_page":
+      return `page ${locator.page}`;
+    case "docx_paragraph":
+      return `paragraph ${locator.paragraph}`;
+    case "xlsx_cell":
+      return `${locator.sheet}!${locator.cell}`;
+    default:
+      return JSON.stringify(locator);
+  }
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function tokenize(text: string): string[] {
+  const normalized = normalize(text);
+  return normalized ? normalized.split(" ") : [];
+}
+
+// Compare words case-insensitively and without surrounding punctuation
+function wordKey(token: string): string {
+  return token.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "") || token;
+}
+
+function isAt(reference: ExcerptReference, unit: TextUnit): boolean {
+  if (reference.locatorType !== unit.locatorType) {return false;}
+  return Object.entries(unit.locator).every(([key, value]) =>
+    String(reference.locator[key] ?? "").toUpperCase() === String(value).toUpperCase()
+  );
+}
+
+type Window = { score: number; start: number; end: number };
+
+/**
+ * Slide a window the length of the excerpt over the unit's words and return
+ * the one with the highest word overlap.
+ */
+function bestWindow(tokens: string[], excerptCounts: Map<string, number>, excerptLength: number): Window {
+  const size = Math.min(excerptLength, tokens.length);
+  const counts = new Map<string, number>();
+  let overlap = 0;
+
+  const add = (token: string) => {
+    const key = wordKey(token);
+    const count = counts.get(key) ?? 0;
+    if (count < (excerptCounts.get(key) ?? 0)) {overlap++;}
+    counts.set(key, count + 1);
+  };
+  const remove = (token: string) => {
+    const key = wordKey(token);
+    const count = (counts.get(key) ?? 0) - 1;
+    counts.set(key, count);
+    if (count < (excerptCounts.get(key) ?? 0)) {overlap--;}
+  };
+
+  for (let i = 0; i < size; i++) {add(tokens[i]);}
+  const score = () => (2 * overlap) / (excerptLength + size);
+  let best: Window = { score: score(), start: 0, end: size };
+
+  for (let start = 1; start + size <= tokens.length; start++) {
+    remove(tokens[start - 1]);
+    add(tokens[start + size - 1]);
+    const current = score();
+    if (current > best.score) {
+      best = { score: current, start, end: start + size };
+    }
+  }
+  return best;
+}
+
+/**
+ * Re-locate a captured excerpt in a newer revision's text units. The unit at
+ * the reference's own locator is checked first, then every other unit for a
+ * verbatim copy, and finally all units for the most similar passage. Ties go
+ * to the original location. Whitespace differences are ignored throughout.
+ */
+export function locateExcerpt(reference: ExcerptReference, units: TextUnit[]): ExcerptLocation {
+  const excerpt = normalize(reference.excerptText);
+  const origin = units.find(unit => isAt(reference, unit));
+
+  if (origin && normalize(origin.text).includes(excerpt)) {
+    return { status: "unchanged", locatorType: origin.locatorType, locator: origin.locator, excerptText: excerpt, similarity: 1 };
+  }
+
+  const verbatim = units.find(unit => unit !== origin && normalize(unit.text).includes(excerpt));
+  if (verbatim) {
+    return { status: "moved", locatorType: verbatim.locatorType, locator: verbatim.locator, excerptText: excerpt, similarity: 1 };
+  }
+
+  const excerptTokens = tokenize(excerpt);
+  const excerptCounts = new Map<string, number>();
+  for (const token of excerptTokens) {
+    const key = wordKey(token);
+    excerptCounts.set(key, (excerptCounts.get(key) ?? 0) + 1);
+  }
+
+  let best: { unit: TextUnit; tokens: string[]; window: Window } | null = null;
+  const candidates = origin ? [origin, ...units.filter(unit => unit !== origin)] : units;
+  for (const unit of candidates) {
+    const tokens = tokenize(unit.text);
+    if (tokens.length === 0 || excerptTokens.length === 0) {continue;}
+    const window = bestWindow(tokens, excerptCounts, excerptTokens.length);
+    if (!best || window.score > best.window.score) {
+      best = { unit, tokens, window };
+    }
+  }
+
+  const similarity = best ? Math.round(best.window.score * 100) / 100 : 0;
+  if (!best || best.window.score < CHANGED_SIMILARITY) {
+    return { status: "missing", locatorType: null, locator: null, excerptText: null, similarity };
+  }
+  return {
+    status: "changed",
+    locatorType: best.unit.locatorType,
+    locator: best.unit.locator,
+    excerptText: best.tokens.slice(best.window.start, best.window.end).join(" "),
+    similarity
+  };
+}
@@ -0,0 +1,324 @@
+/**
+ * Product-line feature models and presence conditions.
+ *
+ * A feature model is a tree of features. Each feature says how its children
+ * are chosen: "and" (every mandatory child, any optional one), "alternative"
+ * (exactly one) or "or" (at least one). Cross-tree constraints and the
+ * presence conditions attached to requirements, sections, blocks and
+ * connectors share one boolean grammar over feature IDs:
+ *
+ *   abs && !manual_gearbox
+ *   eu_market => (abs || esc)
+ *
+ * `not`, `and`, `or` and `implies` may be written instead of `!`, `&&`, `||`
+ * and `=>`. A configuration is the set of selected feature IDs.
+ */
+
+export const FEATURE_GROUP_KINDS = ["and", "alternative", "or"] as const;
+export type FeatureGroupKind = typeof FEATURE_GROUP_KINDS[number];
+
+export type FeatureDefinition = {
+  id: string;
+  name: string;
+  description?: string;
+  /** Null for the root feature */
+  parentId: string | null;
+  /** Only meaningful for children of an "and" group; others are chosen by their group */
+  optional: boolean;
+  /** How this feature's children are selected */
+  group: FeatureGroupKind;
+};
+
+export type FeatureConstraint = {
+  expression: string;
+  description?: string;
+};
+
+export type FeatureModelDefinition = {
+  features: FeatureDefinition[];
+  constraints: FeatureConstraint[];
+};
+
+export type ConditionNode =
+  | { kind: "feature"; id: string }
+  | { kind: "constant"; value: boolean }
+  | { kind: "not"; operand: ConditionNode }
+  | { kind: "and" | "or" | "implies"; left: ConditionNode; right: ConditionNode };
+
+export class ConditionSyntaxError extends Error {
+  constructor(message: string, public readonly expression: string) {
+    super(`${message} in "${expression}"`);
+    this.name = "ConditionSyntaxError";
+  }
+}
+
+export const FEATURE_ID_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+const KEYWORDS: Record<string, string> = { not: "!", and: "&&", or: "||", implies: "=>" };
+
+function tokenizeCondition(expression: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /\s*(=>|&&|\|\||!|\(|\)|[A-Za-z_][A-Za-z0-9_.-]*|\S)/gy;
+  let match: RegExpExecArray | null;
+
+  while (pattern.lastIndex < expression.length && (match = pattern.exec(expression)) !== null) {
+    const token = match[1];
+    if (token === undefined) {
+      break;
+    }
+    tokens.push(KEYWORDS[token.toLowerCase()] ?? token);
+  }
+  return tokens;
+}
+
+/**
+ * Parse a presence condition or constraint. Precedence from loosest to
+ * tightest is implies (right-associative), or, and, not.
+ *
+ * @throws ConditionSyntaxError on malformed input
+ */
+export function parseCondition(expression: string): ConditionNode {
+  const tokens = tokenizeCondition(expression);
+  let position = 0;
+
+  const peek = (): string | undefined => tokens[position];
+  const fail = (message: string): never => {
+    throw new ConditionSyntaxError(message, expression);
+  };
+
+  function parseImplies(): ConditionNode {
+    const left = parseOr();
+    if (peek() === "=>") {
+      position++;
+      return { kind: "implies", left, right: parseImplies() };
+    }
+    return left;
+  }
+
+  function parseOr(): ConditionNode {
+    let left = parseAnd();
+    while (peek() === "||") {
+      position++;
+      left = { kind: "or", left, right: parseAnd() };
+    }
+    return left;
+  }
+
+  function parseAnd(): ConditionNode {
+    let left = parseUnary();
+    while (peek() === "&&") {
+      position++;
+      left = { kind: "and", left, right: parseUnary() };
+    }
+    return left;
+  }
+
+  function parseUnary(): ConditionNode {
+    const token = peek();
+    if (token === undefined) {
+      return fail("Unexpected end of expression");
+    }
+    position++;
+
+    if (token === "!") {
+      return { kind: "not", operand: parseUnary() };
+    }
+    if (token === "(") {
+      const inner = parseImplies();
+      if (peek() !== ")") {
+        fail("Missing closing parenthesis");
+      }
+      position++;
+      return inner;
+    }
+    if (token.toLowerCase() === "true" || token.toLowerCase() === "false") {
+      return { kind: "constant", value: token.toLowerCase() === "true" };
+    }
+    if (FEATURE_ID_PATTERN.test(token)) {
+      return { kind: "feature", id: token };
+    }
+    return fail(`Unexpected "${token}"`);
+  }
+
+  if (tokens.length === 0) {
+    return fail("Empty expression");
+  }
+  const node = parseImplies();
+  if (position < tokens.length) {
+    fail(`Unexpected "${tokens[position]}"`);
+  }
+  return node;
+}
+
+/** Feature IDs referenced by a parsed condition, in order of first use */
+export function conditionFeatures(node: ConditionNode): string[] {
+  const ids = new Set<string>();
+  const visit = (current: ConditionNode): void => {
+    switch (current.kind) {
+      case "feature":
+        ids.add(current.id);
+        break;
+      case "constant":
+        break;
+      case "not":
+        visit(current.operand);
+        break;
+      default:
+        visit(current.left);
+        visit(current.right);
+    }
+  };
+  visit(node);
+  return [...ids];
+}
+
+export function evaluateCondition(node: ConditionNode, selected: ReadonlySet<string>): boolean {
+  switch (node.kind) {
+    case "feature":
+      return selected.has(node.id);
+    case "constant":
+      return node.value;
+    case "not":
+      return !evaluateCondition(node.operand, selected);
+    case "and":
+      return evaluateCondition(node.left, selected) && evaluateCondition(node.right, selected);
+    case "or":
+      return evaluateCondition(node.left, selected) || evaluateCondition(node.right, selected);
+    case "implies":
+      return !evaluateCondition(node.left, selected) || evaluateCondition(node.right, selected);
+  }
+}
+
+/** Whether an entity with this presence condition is part of the variant; no condition means always */
+export function isPresent(condition: string | null | undefined, selected: ReadonlySet<string>): boolean {
+  if (!condition || !condition.trim()) {
+    return true;
+  }
+  return evaluateCondition(parseCondition(condition), selected);
+}
+
+/**
+ * Check a presence condition against a feature model, returning problems
+ * (syntax errors, unknown features). An empty list means it is usable.
+ */
+export function validateCondition(condition: string, model: FeatureModelDefinition): string[] {
+  let node: ConditionNode;
+  try {
+    node = parseCondition(condition);
+  } catch (error) {
+    return [(error as Error).message];
+  }
+  const known = new Set(model.features.map(feature => feature.id));
+  return conditionFeatures(node)
+    .filter(id => !known.has(id))
+    .map(id => `Unknown feature "${id}" in "${condition}"`);
+}
+
+/**
+ * Check the feature tree for unique IDs, a single root, dangling parents and
+ * cycles, and check that every constraint parses and names known features.
+ */
+export function validateFeatureModel(model: FeatureModelDefinition): string[] {
+  const errors: string[] = [];
+  const byId = new Map<string, FeatureDefinition>();
+
+  for (const feature of model.features) {
+    if (!FEATURE_ID_PATTERN.test(feature.id)) {
+      errors.push(`Feature ID "${feature.id}" must start with a letter or underscore and contain only letters, digits, "_", "." or "-"`);
+    }
+    if (["true", "false", ...Object.keys(KEYWORDS)].includes(feature.id.toLowerCase())) {
+      errors.push(`Feature ID "${feature.id}" is a reserved word`);
+    }
+    if (byId.has(feature.id)) {
+      errors.push(`Duplicate feature "${feature.id}"`);
+    }
+    byId.set(feature.id, feature);
+  }
+
+  if (model.features.length > 0) {
+    const roots = model.features.filter(feature => feature.parentId === null);
+    if (roots.length !== 1) {
+      errors.push(`A feature model needs exactly one root feature, found ${roots.length}`);
+    }
+  }
+
+  for (const feature of model.features) {
+    if (feature.parentId !== null && !byId.has(feature.parentId)) {
+      errors.push(`Feature "${feature.id}" has unknown parent "${feature.parentId}"`);
+      continue;
+    }
+    const seen = new Set<string>([feature.id]);
+    let parentId = feature.parentId;
+    while (parentId !== null) {
+      if (seen.has(parentId)) {
+        errors.push(`Feature "${feature.id}" is part of a cycle`);
+        break;
+      }
+      seen.add(parentId);
+      parentId = byId.get(parentId)?.parentId ?? null;
+    }
+  }
+
+  for (const constraint of model.constraints) {
+    errors.push(...validateCondition(constraint.expression, model).map(error => `Constraint: ${error}`));
+  }
+
+  return errors;
+}
+
+/**
+ * Check a configuration against the model. The root feature is always
+ * selected. A valid configuration selects the parent of every selected
+ * feature, satisfies every group of a selected feature and every constraint.
+ */
+export function validateConfiguration(model: FeatureModelDefinition, selectedIds: Iterable<string>): string[] {
+  const errors: string[] = [];
+  const byId = new Map(model.features.map(feature => [feature.id, feature]));
+  const selected = new Set(selectedIds);
+  const root = model.features.find(feature => feature.parentId === null);
+  if (root) {
+    selected.add(root.id);
+  }
+
+  for (const id of selected) {
+    const feature = byId.get(id);
+    if (!feature) {
+      errors.push(`Unknown feature "${id}"`);
+      continue;
+    }
+    if (feature.parentId !== null && !selected.has(feature.parentId)) {
+      errors.push(`"${id}" requires its parent "${feature.parentId}"`);
+    }
+
+    const children = model.features.filter(child => child.parentId === id);
+    if (children.length === 0) {
+      continue;
+    }
+    const chosen = children.filter(child => selected.has(child.id));
+    if (feature.group === "and") {
+      for (const child of children) {
+        if (!child.optional && !selected.has(child.id)) {
+          errors.push(`"${child.id}" is mandatory when "${id}" is selected`);
+        }
+      }
+    } else if (feature.group === "alternative" && chosen.length !== 1) {
+      errors.push(`Select exactly one of ${children.map(child => `"${child.id}"`).join(", ")} for "${id}"`);
+    } else if (feature.group === "or" && chosen.length === 0) {
+      errors.push(`Select at least one of ${children.map(child => `"${child.id}"`).join(", ")} for "${id}"`);
+    }
+  }
+
+  for (const constraint of model.constraints) {
+    let node: ConditionNode;
+    try {
+      node = parseCondition(constraint.expression);
+    } catch {
+      continue;
+    }
+    if (!evaluateCondition(node, selected)) {
+      errors.push(`Violates constraint ${constraint.description ? `"${constraint.description}" ` : ""}(${constraint.expression})`);
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,87 @@
+/**
+ * Project glossary rules.
+ *
+ * Every form a glossary knows (term, abbreviation, synonym or deprecated
+ * form) must point at exactly one term, otherwise term detection could not
+ * tell which definition a word refers to. Forms are compared ignoring case.
+ * Detection itself lives in @airgen/req-qa so the QA rules and the backend
+ * agree on what counts as a use of a term.
+ */
+
+import { findGlossaryMatches } from "@airgen/req-qa";
+
+export type GlossaryTermInput = {
+  term: string;
+  definition: string;
+  abbreviation: string | null;
+  synonyms: string[];
+  deprecated: string[];
+};
+
+export type GlossaryTermUsage = {
+  termId: string;
+  /** Requirements using the term in any form */
+  requirements: number;
+  /** Requirements using a deprecated form, with the form used */
+  deprecatedUses: Array<{ ref: string; form: string }>;
+};
+
+function forms(input: GlossaryTermInput): string[] {
+  return [input.term, input.abbreviation ?? "", ...input.synonyms, ...input.deprecated]
+    .map(form => form.trim())
+    .filter(form => form.length > 0);
+}
+
+/**
+ * Problems with saving `candidate` next to the project's other terms, empty
+ * when it can be saved.
+ */
+export function glossaryConflicts(
+  candidate: GlossaryTermInput,
+  others: Array<GlossaryTermInput & { id: string }>
+): string[] {
+  const errors: string[] = [];
+  const preferred = new Set([candidate.term, candidate.abbreviation ?? "", ...candidate.synonyms].map(form => form.toLowerCase()));
+
+  for (const form of candidate.deprecated) {
+    if (preferred.has(form.toLowerCase())) {
+      errors.push(`'${form}' cannot be both accepted and deprecated`);
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const form of forms(candidate)) {
+    const key = form.toLowerCase();
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    const owner = others.find(other => forms(other).some(existing => existing.toLowerCase() === key));
+    if (owner) {
+      errors.push(`'${form}' is already used by '${owner.term}'`);
+    }
+  }
+
+  return errors;
+}
+
+/** How often each term is used across the given requirements */
+export function summarizeGlossaryUsage(
+  terms: Array<GlossaryTermInput & { id: string }>,
+  requirements: Array<{ ref: string; text: string }>
+): GlossaryTermUsage[] {
+  const usage = terms.map(term => ({ termId: term.id, requirements: 0, deprecatedUses: [] as GlossaryTermUsage["deprecatedUses"] }));
+
+  for (const requirement of requirements) {
+    const used = new Set<number>();
+    for (const match of findGlossaryMatches(requirement.text, terms)) {
+      used.add(match.entry);
+      if (match.kind === "deprecated") {
+        usage[match.entry].deprecatedUses.push({ ref: requirement.ref, form: match.text });
+      }
+    }
+    used.forEach(index => usage[index].requirements++);
+  }
+
+  return usage;
+}
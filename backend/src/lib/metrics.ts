@@ -30,6 +30,10 @@ let neo4jQueriesTotal: Counter | null = null;
 let activeConnections: Gauge | null = null;
 let cacheHitsTotal: Counter | null = null;
 let cacheMissesTotal: Counter | null = null;
+let llmCallsTotal: Counter | null = null;
+let llmTokensTotal: Counter | null = null;
+let llmCostUsdTotal: Counter | null = null;
+let llmCallDuration: Histogram | null = null;
 
 // Module availability flag
 let isMetricsAvailable = false;
@@ -115,6 +119,39 @@ export async function initMetrics(): Promise<void> {
       registers: [registry],
     });
 
+    // LLM Calls Counter
+    llmCallsTotal = new promClient.Counter({
+      name: 'llm_calls_total',
+      help: 'Total number of LLM provider calls',
+      labelNames: ['provider', 'model', 'feature', 'status'],
+      registers: [registry],
+    });
+
+    // LLM Tokens Counter
+    llmTokensTotal = new promClient.Counter({
+      name: 'llm_tokens_total',
+      help: 'Total number of LLM tokens consumed',
+      labelNames: ['provider', 'model', 'feature', 'kind'],
+      registers: [registry],
+    });
+
+    // LLM Cost Counter
+    llmCostUsdTotal = new promClient.Counter({
+      name: 'llm_cost_usd_total',
+      help: 'Estimated LLM cost in US dollars (models with a known price only)',
+      labelNames: ['provider', 'model', 'feature'],
+      registers: [registry],
+    });
+
+    // LLM Call Duration Histogram
+    llmCallDuration = new promClient.Histogram({
+      name: 'llm_call_duration_seconds',
+      help: 'Duration of LLM provider calls in seconds',
+      labelNames: ['provider', 'feature'],
+      buckets: [0.1, 0.5, 1, 2, 5, 10, 30, 60, 120],
+      registers: [registry],
+    });
+
     isMetricsAvailable = true;
     logger.info('Prometheus metrics initialized successfully');
   } catch (err) {
@@ -303,6 +340,37 @@ export function recordCacheMiss(cacheKey: string): void {
   cacheMissesTotal.inc({ cache_key_prefix: prefix });
 }
 
+/**
+ * Record an LLM provider call with its token usage and estimated cost
+ */
+export function recordLlmCall(call: {
+  provider: string;
+  model: string;
+  feature: string;
+  status: 'success' | 'error';
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number | null;
+  latencyMs: number;
+}): void {
+  if (!isMetricsAvailable || !llmCallsTotal || !llmTokensTotal || !llmCostUsdTotal || !llmCallDuration) {
+    return;
+  }
+
+  const { provider, model, feature } = call;
+  llmCallsTotal.inc({ provider, model, feature, status: call.status });
+  llmCallDuration.observe({ provider, feature }, call.latencyMs / 1000);
+  if (call.promptTokens > 0) {
+    llmTokensTotal.inc({ provider, model, feature, kind: 'prompt' }, call.promptTokens);
+  }
+  if (call.completionTokens > 0) {
+    llmTokensTotal.inc({ provider, model, feature, kind: 'completion' }, call.completionTokens);
+  }
+  if (call.costUsd) {
+    llmCostUsdTotal.inc({ provider, model, feature }, call.costUsd);
+  }
+}
+
 /**
  * Extract cache key prefix for metric labeling
  * E.g., "documents:tenant:project:100:0" -> "documents"
@@ -25,6 +25,25 @@ export function toNumber(value: unknown, fallback = 0): number {
   return fallback;
 }
 
+/**
+ * Converts a list property to strings. Also accepts the JSON-encoded lists
+ * some nodes hold (e.g. requirement tags); anything else yields [].
+ */
+export function toStringList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value) as unknown;
+      return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
 /**
  * Converts a Neo4j temporal type to an ISO string.
  * Handles Date, DateTime, LocalDateTime, Time, LocalTime.
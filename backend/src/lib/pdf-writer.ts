@@ -0,0 +1,374 @@
+import { deflateSync } from "node:zlib";
+import type { ReportDocument, ReportRun, ReportRunStyle } from "./report-document.js";
+
+// A4 in points
+const A4_SHORT = 595.28;
+const A4_LONG = 841.89;
+const MARGIN = 50;
+const FOOTER_Y = 28;
+const BODY_SIZE = 10;
+const LINE_FACTOR = 1.35;
+const HEADING_SIZES = { 1: 18, 2: 14, 3: 11.5 } as const;
+const CELL_PADDING = 4;
+
+// Advance widths (1/1000 em) of the standard Helvetica fonts for codes 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+const DEFAULT_WIDTH = 556;
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87, "‰": 0x89, "‹": 0x8b,
+  "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99, "›": 0x9b
+};
+const FALLBACKS: Record<string, string> = { "→": "->", "←": "<-", "≤": "<=", "≥": ">=", "≠": "!=" };
+
+type Font = "F1" | "F2";
+
+const STYLE_COLORS: Record<ReportRunStyle, string> = {
+  normal: "0 0 0",
+  bold: "0 0 0",
+  muted: "0.42 0.45 0.5",
+  insert: "0 0.45 0.2",
+  delete: "0.75 0.1 0.1"
+};
+
+/** Map text to WinAnsi byte values, substituting what the encoding lacks */
+function encodeWinAnsi(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code === 0x09) {
+      bytes.push(0x20);
+    } else if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+      bytes.push(code);
+    } else if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      bytes.push(WIN_ANSI_EXTRAS[char]);
+    } else if (FALLBACKS[char]) {
+      bytes.push(...FALLBACKS[char].split("").map(c => c.charCodeAt(0)));
+    } else if (code >= 0x20) {
+      bytes.push(0x3f);
+    }
+  }
+  return bytes;
+}
+
+function textWidth(bytes: number[], font: Font, size: number): number {
+  const widths = font === "F2" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const byte of bytes) {
+    total += byte >= 32 && byte <= 126 ? widths[byte - 32] : DEFAULT_WIDTH;
+  }
+  return (total * size) / 1000;
+}
+
+function pdfString(bytes: number[]): string {
+  let out = "(";
+  for (const byte of bytes) {
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+      out += "\\" + String.fromCharCode(byte);
+    } else {
+      out += String.fromCharCode(byte);
+    }
+  }
+  return out + ")";
+}
+
+/** UTF-16BE hex string for document information entries */
+function pdfTextString(text: string): string {
+  let hex = "FEFF";
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, "0").toUpperCase();
+  }
+  return `<${hex}>`;
+}
+
+function fmt(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+type Fragment = {
+  bytes: number[];
+  font: Font;
+  style: ReportRunStyle;
+  width: number;
+  space: boolean;
+};
+
+/** Break runs into words and spaces, then pack them into lines no wider than maxWidth */
+function layoutRuns(runs: ReportRun[], size: number, maxWidth: number, forceBold = false): Fragment[][] {
+  const tokens: Array<Fragment | "newline"> = [];
+  for (const run of runs) {
+    const style = run.style ?? "normal";
+    const font: Font = forceBold || style === "bold" ? "F2" : "F1";
+    run.text.split("\n").forEach((paragraph, index) => {
+      if (index > 0) tokens.push("newline");
+      for (const piece of paragraph.split(/(\s+)/)) {
+        if (!piece) continue;
+        const space = /^\s+$/.test(piece);
+        const bytes = encodeWinAnsi(space ? " " : piece);
+        tokens.push({ bytes, font, style, width: textWidth(bytes, font, size), space });
+      }
+    });
+  }
+
+  const lines: Fragment[][] = [];
+  let line: Fragment[] = [];
+  let width = 0;
+  const flush = () => {
+    while (line.length > 0 && line[line.length - 1].space) line.pop();
+    // Draw consecutive words of the same style as one string
+    const merged: Fragment[] = [];
+    for (const fragment of line) {
+      const last = merged[merged.length - 1];
+      if (last && last.font === fragment.font && last.style === fragment.style) {
+        merged[merged.length - 1] = { ...last, bytes: [...last.bytes, ...fragment.bytes], width: last.width + fragment.width, space: false };
+      } else {
+        merged.push(fragment);
+      }
+    }
+    lines.push(merged);
+    line = [];
+    width = 0;
+  };
+
+  for (const token of tokens) {
+    if (token === "newline") {
+      flush();
+      continue;
+    }
+    if (token.space) {
+      if (line.length > 0) {
+        line.push(token);
+        width += token.width;
+      }
+      continue;
+    }
+    if (width + token.width > maxWidth && line.length > 0) {
+      flush();
+    }
+    if (token.width > maxWidth) {
+      // Hard-wrap words longer than a whole line
+      let chunk: number[] = [];
+      for (const byte of token.bytes) {
+        if (textWidth([...chunk, byte], token.font, size) > maxWidth && chunk.length > 0) {
+          line.push({ ...token, bytes: chunk, width: textWidth(chunk, token.font, size) });
+          flush();
+          chunk = [];
+        }
+        chunk.push(byte);
+      }
+      token.bytes = chunk;
+      token.width = textWidth(chunk, token.font, size);
+    }
+    line.push(token);
+    width += token.width;
+  }
+  if (line.length > 0 || lines.length === 0) flush();
+  return lines;
+}
+
+class PdfPages {
+  readonly pages: string[][] = [];
+  readonly contentWidth: number;
+  private y = 0;
+
+  constructor(readonly pageWidth: number, readonly pageHeight: number) {
+    this.contentWidth = pageWidth - MARGIN * 2;
+    this.newPage();
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  newPage(): void {
+    this.pages.push([]);
+    this.y = this.pageHeight - MARGIN;
+  }
+
+  /** Start a new page unless `height` still fits above the bottom margin */
+  ensure(height: number): void {
+    if (this.y - height < MARGIN) this.newPage();
+  }
+
+  gap(height: number): void {
+    this.y -= height;
+  }
+
+  drawLines(lines: Fragment[][], x: number, size: number, top = this.y): number {
+    const lineHeight = size * LINE_FACTOR;
+    let baseline = top - size;
+    for (const fragments of lines) {
+      let cx = x;
+      for (const fragment of fragments) {
+        if (fragment.bytes.length > 0) {
+          this.ops.push(
+            `BT /${fragment.font} ${fmt(size)} Tf ${STYLE_COLORS[fragment.style]} rg ${fmt(cx)} ${fmt(baseline)} Td ${pdfString(fragment.bytes)} Tj ET`
+          );
+          if (fragment.style === "insert" || fragment.style === "delete") {
+            const ly = fragment.style === "insert" ? baseline - 1.5 : baseline + size * 0.3;
+            this.ops.push(`${STYLE_COLORS[fragment.style]} RG 0.6 w ${fmt(cx)} ${fmt(ly)} m ${fmt(cx + fragment.width)} ${fmt(ly)} l S`);
+          }
+        }
+        cx += fragment.width;
+      }
+      baseline -= lineHeight;
+    }
+    return lines.length * lineHeight;
+  }
+
+  text(runs: ReportRun[], size: number, bold = false): void {
+    const lineHeight = size * LINE_FACTOR;
+    for (const line of layoutRuns(runs, size, this.contentWidth, bold)) {
+      this.ensure(lineHeight);
+      this.y -= this.drawLines([line], MARGIN, size);
+    }
+  }
+
+  table(headers: string[], rows: string[][], weights: number[]): void {
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    const widths = weights.map(w => (w / total) * this.contentWidth);
+    const size = BODY_SIZE - 1;
+
+    const layoutRow = (cells: string[], bold: boolean) =>
+      widths.map((width, i) => layoutRuns([{ text: cells[i] ?? "" }], size, width - CELL_PADDING * 2, bold));
+    const rowHeight = (cells: Fragment[][][]) =>
+      Math.max(...cells.map(lines => lines.length)) * size * LINE_FACTOR + CELL_PADDING * 2;
+
+    const drawRow = (cells: Fragment[][][], header: boolean) => {
+      const height = rowHeight(cells);
+      const top = this.y;
+      if (header) {
+        this.ops.push(`0.93 0.94 0.96 rg ${fmt(MARGIN)} ${fmt(top - height)} ${fmt(this.contentWidth)} ${fmt(height)} re f`);
+      }
+      let x = MARGIN;
+      cells.forEach((lines, i) => {
+        this.drawLines(lines, x + CELL_PADDING, size, top - CELL_PADDING);
+        this.ops.push(`0.8 0.82 0.85 RG 0.5 w ${fmt(x)} ${fmt(top - height)} ${fmt(widths[i])} ${fmt(height)} re S`);
+        x += widths[i];
+      });
+      this.y -= height;
+    };
+
+    const headerCells = layoutRow(headers, true);
+    this.ensure(rowHeight(headerCells) * 2);
+    drawRow(headerCells, true);
+    for (const row of rows) {
+      const cells = layoutRow(row, false);
+      if (this.y - rowHeight(cells) < MARGIN) {
+        this.newPage();
+        drawRow(headerCells, true);
+      }
+      drawRow(cells, false);
+    }
+  }
+
+  footer(text: string): void {
+    const count = this.pages.length;
+    this.pages.forEach((ops, index) => {
+      const label = encodeWinAnsi(`Page ${index + 1} of ${count}`);
+      const labelWidth = textWidth(label, "F1", 8);
+      const footerText = layoutRuns([{ text }], 8, this.contentWidth - labelWidth - 12)[0] ?? [];
+      ops.push(`BT /F1 8 Tf ${STYLE_COLORS.muted} rg ${fmt(MARGIN)} ${FOOTER_Y} Td ${pdfString(footerText.flatMap(f => f.bytes))} Tj ET`);
+      ops.push(`BT /F1 8 Tf ${STYLE_COLORS.muted} rg ${fmt(this.pageWidth - MARGIN - labelWidth)} ${FOOTER_Y} Td ${pdfString(label)} Tj ET`);
+    });
+  }
+}
+
+/**
+ * Render a report document as a PDF using the standard Helvetica fonts,
+ * so no font files need to be embedded.
+ */
+export function renderPdf(document: ReportDocument): Buffer {
+  const pages = document.orientation === "landscape"
+    ? new PdfPages(A4_LONG, A4_SHORT)
+    : new PdfPages(A4_SHORT, A4_LONG);
+
+  for (const block of document.blocks) {
+    if (block.type === "heading") {
+      const size = HEADING_SIZES[block.level];
+      pages.gap(block.level === 1 ? 0 : size * 0.6);
+      // Keep headings with at least two lines of what follows
+      pages.ensure(size * LINE_FACTOR + BODY_SIZE * LINE_FACTOR * 2);
+      pages.text([{ text: block.text }], size, true);
+      pages.gap(size * 0.3);
+    } else if (block.type === "paragraph") {
+      pages.text(block.runs, BODY_SIZE);
+      pages.gap(BODY_SIZE * 0.5);
+    } else {
+      pages.table(block.headers, block.rows, block.widths ?? block.headers.map(() => 1));
+      pages.gap(BODY_SIZE);
+    }
+  }
+  pages.footer(document.footer ?? document.title);
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and content stream per page
+  const objects: Buffer[] = [];
+  const pageIds = pages.pages.map((_, i) => 6 + i * 2);
+  objects.push(Buffer.from("<< /Type /Catalog /Pages 2 0 R >>"));
+  objects.push(Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`));
+  objects.push(Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"));
+  objects.push(Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"));
+
+  const info: string[] = [`/Title ${pdfTextString(document.title)}`, `/Producer ${pdfTextString("AIRGen")}`];
+  if (document.author) info.push(`/Author ${pdfTextString(document.author)}`);
+  if (document.subject) info.push(`/Subject ${pdfTextString(document.subject)}`);
+  for (const [key, value] of Object.entries(document.properties ?? {})) {
+    info.push(`/${key.replace(/[^A-Za-z0-9]/g, "")} ${pdfTextString(value)}`);
+  }
+  objects.push(Buffer.from(`<< ${info.join(" ")} >>`));
+
+  pages.pages.forEach((ops, i) => {
+    const contentId = pageIds[i] + 1;
+    objects.push(Buffer.from(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pages.pageWidth} ${pages.pageHeight}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+    ));
+    const stream = deflateSync(Buffer.from(ops.join("\n"), "latin1"));
+    objects.push(Buffer.concat([
+      Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+      stream,
+      Buffer.from("\nendstream")
+    ]));
+  });
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(length);
+    const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), body, Buffer.from("\nendobj\n")]);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF"
+  ];
+  chunks.push(Buffer.from(xref.join("\n") + "\n"));
+
+  return Buffer.concat(chunks);
+}
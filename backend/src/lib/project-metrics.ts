@@ -0,0 +1,270 @@
+/**
+ * Project metric snapshots and trends.
+ *
+ * `summarizeProjectMetrics` turns a project's live requirements, trace links
+ * and linksets into the counts recorded in a daily snapshot. `computeBurnUp`
+ * projects when a measure (e.g. verified requirements) will reach the
+ * requirement count, from the rate it grew over recent snapshots.
+ */
+
+/** Implementation status is kept as an `impl:<status>` requirement tag */
+export const IMPLEMENTATION_STATUSES = ["not_started", "in_progress", "implemented", "verified", "blocked"] as const;
+export type ImplementationStatus = typeof IMPLEMENTATION_STATUSES[number];
+
+const IMPLEMENTATION_TAG_PREFIX = "impl:";
+
+export type MetricRequirement = {
+  id: string;
+  qaScore: number | null;
+  tags: string[];
+  documentSlug: string | null;
+  /** Has a passed verification activity */
+  verified: boolean;
+};
+
+export type MetricDocument = { slug: string; name: string };
+
+export type MetricLink = {
+  sourceRequirementId: string;
+  targetRequirementId: string;
+  suspect: boolean;
+};
+
+export type MetricLinkset = {
+  id: string;
+  sourceDocumentSlug: string;
+  targetDocumentSlug: string;
+};
+
+export type QaDistribution = {
+  average: number | null;
+  /** Score 80 and above */
+  excellent: number;
+  /** 60 to 79 */
+  good: number;
+  /** Below 60 */
+  needsWork: number;
+  unscored: number;
+};
+
+export type LinksetCoverage = {
+  linksetId: string;
+  sourceDocumentSlug: string;
+  targetDocumentSlug: string;
+  /** Requirements in the source document */
+  requirements: number;
+  /** Of those, how many link to or from a requirement in the target document */
+  covered: number;
+  coveragePercent: number;
+};
+
+export type DocumentMetrics = {
+  slug: string;
+  name: string;
+  requirements: number;
+  traced: number;
+  verified: number;
+  averageQaScore: number | null;
+};
+
+export type VerificationMetrics = {
+  verified: number;
+  unverified: number;
+  incomplete: number;
+  coveragePercent: number;
+  errorFindings: number;
+  warningFindings: number;
+};
+
+export type ProjectMetricValues = {
+  requirements: number;
+  /** Requirements with at least one trace link */
+  traced: number;
+  traceCoveragePercent: number;
+  qa: QaDistribution;
+  linksets: LinksetCoverage[];
+  verification: VerificationMetrics;
+  implementation: Record<ImplementationStatus | "unset", number>;
+  suspectLinks: number;
+  documents: DocumentMetrics[];
+};
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+function averageScore(requirements: MetricRequirement[]): number | null {
+  const scored = requirements.filter(requirement => requirement.qaScore !== null);
+  if (scored.length === 0) {
+    return null;
+  }
+  return Math.round(scored.reduce((sum, requirement) => sum + requirement.qaScore!, 0) / scored.length);
+}
+
+export function implementationStatusOf(tags: string[]): ImplementationStatus | null {
+  const tag = tags.find(candidate => candidate.startsWith(IMPLEMENTATION_TAG_PREFIX));
+  const status = tag?.slice(IMPLEMENTATION_TAG_PREFIX.length) as ImplementationStatus | undefined;
+  return status && IMPLEMENTATION_STATUSES.includes(status) ? status : null;
+}
+
+/**
+ * Counts for one snapshot. Links to requirements outside `requirements` (e.g.
+ * archived ones) are ignored; verification comes from the verification
+ * engine so it matches the verification report.
+ */
+export function summarizeProjectMetrics(input: {
+  requirements: MetricRequirement[];
+  documents: MetricDocument[];
+  links: MetricLink[];
+  linksets: MetricLinkset[];
+  verification: VerificationMetrics;
+}): ProjectMetricValues {
+  const byId = new Map(input.requirements.map(requirement => [requirement.id, requirement]));
+  const links = input.links.filter(link => byId.has(link.sourceRequirementId) && byId.has(link.targetRequirementId));
+
+  const traced = new Set<string>();
+  for (const link of links) {
+    traced.add(link.sourceRequirementId);
+    traced.add(link.targetRequirementId);
+  }
+
+  const qa: QaDistribution = { average: averageScore(input.requirements), excellent: 0, good: 0, needsWork: 0, unscored: 0 };
+  const implementation = Object.fromEntries(
+    [...IMPLEMENTATION_STATUSES, "unset"].map(status => [status, 0])
+  ) as ProjectMetricValues["implementation"];
+
+  for (const requirement of input.requirements) {
+    if (requirement.qaScore === null) qa.unscored++;
+    else if (requirement.qaScore >= 80) qa.excellent++;
+    else if (requirement.qaScore >= 60) qa.good++;
+    else qa.needsWork++;
+
+    implementation[implementationStatusOf(requirement.tags) ?? "unset"]++;
+  }
+
+  const linksets = input.linksets.map(linkset => {
+    const inSource = input.requirements.filter(requirement => requirement.documentSlug === linkset.sourceDocumentSlug);
+    const covered = new Set<string>();
+    for (const link of links) {
+      const ends = [byId.get(link.sourceRequirementId)!, byId.get(link.targetRequirementId)!];
+      for (const [end, other] of [ends, [ends[1], ends[0]]]) {
+        if (end.documentSlug === linkset.sourceDocumentSlug && other.documentSlug === linkset.targetDocumentSlug) {
+          covered.add(end.id);
+        }
+      }
+    }
+    return {
+      linksetId: linkset.id,
+      sourceDocumentSlug: linkset.sourceDocumentSlug,
+      targetDocumentSlug: linkset.targetDocumentSlug,
+      requirements: inSource.length,
+      covered: covered.size,
+      coveragePercent: percent(covered.size, inSource.length)
+    };
+  });
+
+  const documents = input.documents.map(document => {
+    const contained = input.requirements.filter(requirement => requirement.documentSlug === document.slug);
+    return {
+      slug: document.slug,
+      name: document.name,
+      requirements: contained.length,
+      traced: contained.filter(requirement => traced.has(requirement.id)).length,
+      verified: contained.filter(requirement => requirement.verified).length,
+      averageQaScore: averageScore(contained)
+    };
+  });
+
+  return {
+    requirements: input.requirements.length,
+    traced: traced.size,
+    traceCoveragePercent: percent(traced.size, input.requirements.length),
+    qa,
+    linksets,
+    verification: input.verification,
+    implementation,
+    suspectLinks: links.filter(link => link.suspect).length,
+    documents
+  };
+}
+
+export type BurnUpPoint = {
+  /** YYYY-MM-DD */
+  date: string;
+  /** Total work (requirement count) */
+  scope: number;
+  /** Work done so far (e.g. verified requirements) */
+  done: number;
+};
+
+export type BurnUp = {
+  points: BurnUpPoint[];
+  targetDate: string | null;
+  /** Straight line from the first point's progress to full scope on the target date */
+  ideal: Array<{ date: string; value: number }>;
+  /** Average growth of `done` per day over the recent window */
+  ratePerDay: number | null;
+  /** When `done` reaches the latest scope at that rate; null if it is not growing */
+  projectedCompletion: string | null;
+  /** Whether the projection lands on or before the target; null without a target */
+  onTrack: boolean | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Snapshots used to estimate the current rate */
+const RATE_WINDOW = 14;
+
+function dayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+function dateOfDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Least-squares slope of done against day over the recent window */
+function recentRate(points: BurnUpPoint[]): number | null {
+  const window = points.slice(-RATE_WINDOW);
+  if (window.length < 2) {
+    return null;
+  }
+  const xs = window.map(point => dayNumber(point.date));
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = window.reduce((sum, point) => sum + point.done, 0) / window.length;
+  let numerator = 0;
+  let denominator = 0;
+  window.forEach((point, i) => {
+    numerator += (xs[i] - meanX) * (point.done - meanY);
+    denominator += (xs[i] - meanX) ** 2;
+  });
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+export function computeBurnUp(input: BurnUpPoint[], targetDate?: string | null): BurnUp {
+  const points = [...input].sort((a, b) => a.date.localeCompare(b.date));
+  const target = targetDate ?? null;
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  if (!last) {
+    return { points, targetDate: target, ideal: [], ratePerDay: null, projectedCompletion: null, onTrack: null };
+  }
+
+  const ratePerDay = recentRate(points);
+  const remaining = last.scope - last.done;
+  let projectedCompletion: string | null = null;
+  if (remaining <= 0) {
+    projectedCompletion = last.date;
+  } else if (ratePerDay !== null && ratePerDay > 0) {
+    projectedCompletion = dateOfDay(dayNumber(last.date) + Math.ceil(remaining / ratePerDay));
+  }
+
+  return {
+    points,
+    targetDate: target,
+    ideal: target ? [{ date: first.date, value: first.done }, { date: target, value: last.scope }] : [],
+    ratePerDay: ratePerDay === null ? null : Math.round(ratePerDay * 100) / 100,
+    projectedCompletion,
+    onTrack: target ? projectedCompletion !== null && projectedCompletion <= target : null
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * Requirement ref numbering schemes.
+ *
+ * A document's scheme is a template such as `SRS-NAV-{n:4}` or
+ * `{section}-R{n}` plus the first number, the step between numbers and
+ * whether the counter runs per document or per section. Tokens:
+ *
+ * - `{doc}`: the document short code (or its slug in upper case)
+ * - `{section}`: the section short code (or its name in upper case without
+ *   spaces). Requirements outside any section drop the token together with
+ *   one adjoining separator.
+ * - `{n}` / `{n:W}`: the counter, zero-padded to W digits
+ */
+
+export const REF_COUNTER_SCOPES = ["document", "section"] as const;
+export type RefCounterScope = typeof REF_COUNTER_SCOPES[number];
+
+export type RefScheme = {
+  template: string;
+  /** First number in each counter scope */
+  start: number;
+  /** Gap between consecutive numbers */
+  step: number;
+  counter: RefCounterScope;
+};
+
+/** What a ref is rendered for */
+export type RefContext = {
+  documentCode: string;
+  /** Null for requirements outside any section */
+  sectionCode: string | null;
+};
+
+export type RenumberItem = {
+  requirementId: string;
+  ref: string;
+  /** Null for requirements outside any section */
+  sectionId: string | null;
+  sectionCode: string | null;
+};
+
+export type RenumberChange = {
+  requirementId: string;
+  oldRef: string;
+  newRef: string;
+};
+
+export type RenumberPlan = {
+  changes: RenumberChange[];
+  unchanged: number;
+  /** Refs the plan cannot assign; a plan with conflicts must not be applied */
+  conflicts: string[];
+};
+
+const TOKEN_PATTERN = /\{([a-z]+)(?::(\d+))?\}/g;
+const KNOWN_TOKENS = new Set(["doc", "section", "n"]);
+const LITERAL_CHARACTERS = /^[A-Za-z0-9._-]*$/;
+
+/** The document part of default refs */
+export function documentRefCode(document: { shortCode?: string | null; slug: string }): string {
+  return document.shortCode || document.slug.toUpperCase();
+}
+
+/** The section part of default refs */
+export function sectionRefCode(section: { shortCode?: string | null; name: string }): string {
+  return section.shortCode || section.name.replace(/ /g, "").toUpperCase();
+}
+
+/** Problems with a scheme, empty when it can be used */
+export function validateRefScheme(scheme: RefScheme): string[] {
+  const errors: string[] = [];
+  const tokens = [...scheme.template.matchAll(TOKEN_PATTERN)];
+
+  if (!LITERAL_CHARACTERS.test(scheme.template.replace(TOKEN_PATTERN, ""))) {
+    errors.push("Template may only contain letters, digits, '.', '_', '-' and tokens");
+  }
+  for (const token of tokens) {
+    if (!KNOWN_TOKENS.has(token[1])) {
+      errors.push(`Unknown token {${token[1]}}`);
+    } else if (token[2] !== undefined && token[1] !== "n") {
+      errors.push(`Only {n} takes a width, not {${token[1]}}`);
+    }
+  }
+  const counters = tokens.filter(token => token[1] === "n");
+  if (counters.length !== 1) {
+    errors.push("Template must contain exactly one {n} counter");
+  }
+  if (counters[0]?.[2] !== undefined && (Number(counters[0][2]) < 1 || Number(counters[0][2]) > 10)) {
+    errors.push("Counter width must be between 1 and 10");
+  }
+  if (scheme.counter === "section" && !tokens.some(token => token[1] === "section")) {
+    errors.push("Per-section counters need {section} in the template, or refs would repeat across sections");
+  }
+  if (!Number.isInteger(scheme.start) || scheme.start < 0) {
+    errors.push("Start must be a non-negative integer");
+  }
+  if (!Number.isInteger(scheme.step) || scheme.step < 1) {
+    errors.push("Step must be a positive integer");
+  }
+  return errors;
+}
+
+/**
+ * Split the template into literal text and values for the context, with a
+ * placeholder where the counter goes.
+ */
+function fillTemplate(template: string, context: RefContext): { before: string; after: string; width: number } {
+  let filled = template.replace(/\{doc\}/g, context.documentCode);
+  if (context.sectionCode !== null) {
+    filled = filled.replace(/\{section\}/g, context.sectionCode);
+  } else {
+    filled = filled
+      .replace(/[^A-Za-z0-9{}]\{section\}/g, "")
+      .replace(/\{section\}[^A-Za-z0-9{}]?/g, "");
+  }
+
+  const counter = /\{n(?::(\d+))?\}/.exec(filled)!;
+  return {
+    before: filled.slice(0, counter.index),
+    after: filled.slice(counter.index + counter[0].length),
+    width: counter[1] ? Number(counter[1]) : 1
+  };
+}
+
+export function renderRef(scheme: RefScheme, context: RefContext, counter: number): string {
+  const { before, after, width } = fillTemplate(scheme.template, context);
+  return `${before}${String(counter).padStart(width, "0")}${after}`;
+}
+
+/** The counter in `ref` if it was rendered from the scheme for this context */
+export function parseRefCounter(scheme: RefScheme, context: RefContext, ref: string): number | null {
+  const { before, after } = fillTemplate(scheme.template, context);
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+  const match = new RegExp(`^${escape(before)}(\\d+)${escape(after)}$`).exec(ref);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * The ref for a new requirement: one step past the highest counter already
+ * used in its scope, skipping refs taken elsewhere in the project.
+ *
+ * @param scopeRefs - refs (and aliases) of requirements in the same counter scope
+ * @param takenRefs - refs in use anywhere in the project
+ */
+export function nextRef(scheme: RefScheme, context: RefContext, scopeRefs: string[], takenRefs: Set<string>): string {
+  const used = scopeRefs
+    .map(ref => parseRefCounter(scheme, context, ref))
+    .filter((counter): counter is number => counter !== null);
+  let counter = used.length > 0 ? Math.max(...used) + scheme.step : scheme.start;
+  while (takenRefs.has(renderRef(scheme, context, counter))) {
+    counter += scheme.step;
+  }
+  return renderRef(scheme, context, counter);
+}
+
+/**
+ * Assign new refs to a document's requirements in the given order.
+ *
+ * @param items - the document's requirements in document order
+ * @param takenRefs - refs of requirements outside the document
+ */
+export function planRenumber(
+  scheme: RefScheme,
+  documentCode: string,
+  items: RenumberItem[],
+  takenRefs: Set<string>
+): RenumberPlan {
+  const counters = new Map<string, number>();
+  const assigned = new Set<string>();
+  const changes: RenumberChange[] = [];
+  const conflicts: string[] = [];
+  let unchanged = 0;
+
+  for (const item of items) {
+    const scope = scheme.counter === "section" ? item.sectionId ?? "" : "";
+    const counter = counters.get(scope) ?? scheme.start;
+    counters.set(scope, counter + scheme.step);
+
+    const newRef = renderRef(scheme, { documentCode, sectionCode: item.sectionCode }, counter);
+    if (takenRefs.has(newRef)) {
+      conflicts.push(`${newRef} (for ${item.ref}) is already used outside this document`);
+    } else if (assigned.has(newRef)) {
+      conflicts.push(`${newRef} (for ${item.ref}) would be assigned twice`);
+    }
+    assigned.add(newRef);
+
+    if (newRef === item.ref) {
+      unchanged++;
+    } else {
+      changes.push({ requirementId: item.requirementId, oldRef: item.ref, newRef });
+    }
+  }
+
+  return { changes, unchanged, conflicts };
+}
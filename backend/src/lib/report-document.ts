@@ -0,0 +1,28 @@
+/**
+ * Format-neutral document model rendered by the PDF and DOCX writers.
+ */
+
+export type ReportRunStyle = "normal" | "bold" | "muted" | "insert" | "delete";
+
+export type ReportRun = {
+  text: string;
+  style?: ReportRunStyle;
+};
+
+export type ReportBlock =
+  | { type: "heading"; level: 1 | 2 | 3; text: string }
+  | { type: "paragraph"; runs: ReportRun[] }
+  | { type: "table"; headers: string[]; rows: string[][]; widths?: number[] };
+
+export type ReportDocument = {
+  title: string;
+  author?: string;
+  subject?: string;
+  /** Page orientation for the PDF writer; defaults to portrait */
+  orientation?: "portrait" | "landscape";
+  /** Text repeated at the foot of every page, where the format supports it */
+  footer?: string;
+  /** Extra metadata written into the file's document properties */
+  properties?: Record<string, string>;
+  blocks: ReportBlock[];
+};
@@ -0,0 +1,325 @@
+import { childElements, firstChild, localName, parseXml, textContent, type XmlElement } from "../services/reqif/reqif-xml.js";
+
+/**
+ * Test result ingestion.
+ *
+ * CI output in JUnit XML, TAP or CTest console format is parsed into a flat
+ * list of test cases. Each case is mapped to requirements by, in order of
+ * precedence, the mapping file, requirement properties on the JUnit test case
+ * (`requirement`, `requirements`, `req` or `verifies`) and refs or ref
+ * aliases written in the test name, e.g. `test_SRS_012_brake_release` or
+ * `BrakeTests.SRS-012 releases within 200ms`.
+ *
+ * Cases are then grouped per requirement into one verdict: any failure or
+ * error fails it, otherwise any pass passes it, and a requirement whose
+ * cases were all skipped is inconclusive.
+ */
+
+export const TEST_RESULT_FORMATS = ["junit", "tap", "ctest"] as const;
+export type TestResultFormat = typeof TEST_RESULT_FORMATS[number];
+
+export type TestOutcome = "passed" | "failed" | "error" | "skipped";
+export type TestRunVerdict = "pass" | "fail" | "inconclusive";
+
+export type TestCaseResult = {
+  name: string;
+  /** JUnit classname or suite name, when the format has one */
+  suite: string | null;
+  outcome: TestOutcome;
+  durationSeconds: number | null;
+  message: string | null;
+  /** Requirement refs declared on the test case itself */
+  declaredRefs: string[];
+};
+
+/**
+ * Test name (or `suite.name`) to requirement refs. A `*` in a key matches any
+ * run of characters.
+ */
+export type TestRefMapping = Record<string, string | string[]>;
+
+/** What the matcher knows about a requirement */
+export type TestTargetRequirement = {
+  id: string;
+  ref: string;
+  aliases: string[];
+};
+
+export type TestRequirementResult = {
+  requirementId: string;
+  ref: string;
+  verdict: TestRunVerdict;
+  cases: TestCaseResult[];
+};
+
+export type TestResultMapping = {
+  requirements: TestRequirementResult[];
+  /** Cases that name no known requirement */
+  unmatched: TestCaseResult[];
+  /** Refs named by cases or the mapping file that are not in the project */
+  unknownRefs: string[];
+};
+
+const REF_PROPERTIES = new Set(["requirement", "requirements", "req", "verifies"]);
+
+/**
+ * Guess the format from the content: XML is JUnit, a `Test #n:` line is
+ * CTest and anything with TAP `ok`/`not ok` lines is TAP.
+ */
+export function detectTestResultFormat(content: string): TestResultFormat | null {
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith("<")) {
+    return "junit";
+  }
+  if (/^\s*\d+\/\d+\s+Test\s+#\d+:/m.test(content)) {
+    return "ctest";
+  }
+  if (/^(TAP version \d+|1\.\.\d+|(not )?ok\b)/m.test(content)) {
+    return "tap";
+  }
+  return null;
+}
+
+/**
+ * @throws Error if the content is not valid for the format or has no test cases
+ */
+export function parseTestResults(content: string, format: TestResultFormat): TestCaseResult[] {
+  const cases = format === "junit"
+    ? parseJUnit(content)
+    : format === "tap"
+      ? parseTap(content)
+      : parseCTest(content);
+  if (cases.length === 0) {
+    throw new Error(`No test cases found in ${format} input`);
+  }
+  return cases;
+}
+
+function parseJUnit(content: string): TestCaseResult[] {
+  const root = parseXml(content);
+  const rootName = localName(root.name);
+  if (rootName !== "testsuites" && rootName !== "testsuite") {
+    throw new Error(`Not a JUnit report: unexpected root element <${root.name}>`);
+  }
+  const cases: TestCaseResult[] = [];
+  collectJUnitCases(root, null, cases);
+  return cases;
+}
+
+function collectJUnitCases(element: XmlElement, suiteName: string | null, cases: TestCaseResult[]): void {
+  for (const child of childElements(element)) {
+    const name = localName(child.name);
+    if (name === "testsuite") {
+      collectJUnitCases(child, child.attributes.name ?? suiteName, cases);
+    } else if (name === "testcase") {
+      cases.push(junitCase(child, suiteName));
+    }
+  }
+}
+
+function junitCase(element: XmlElement, suiteName: string | null): TestCaseResult {
+  const failure = firstChild(element, "failure");
+  const error = firstChild(element, "error");
+  const skipped = firstChild(element, "skipped");
+  const problem = failure ?? error ?? skipped;
+  const message = problem ? (problem.attributes.message ?? textContent(problem).trim()) : null;
+  const time = element.attributes.time !== undefined ? Number(element.attributes.time) : NaN;
+
+  const properties = firstChild(element, "properties");
+  const declaredRefs = (properties ? childElements(properties, "property") : [])
+    .filter(property => REF_PROPERTIES.has((property.attributes.name ?? "").toLowerCase()))
+    .flatMap(property => splitRefs(property.attributes.value ?? textContent(property)));
+
+  return {
+    name: element.attributes.name ?? "",
+    suite: element.attributes.classname ?? suiteName,
+    outcome: failure ? "failed" : error ? "error" : skipped ? "skipped" : "passed",
+    durationSeconds: Number.isFinite(time) ? time : null,
+    message: message || null,
+    declaredRefs
+  };
+}
+
+function splitRefs(value: string): string[] {
+  return value.split(/[\s,;]+/).filter(Boolean);
+}
+
+/**
+ * Top-level TAP test points. Indented lines (subtests and YAML diagnostics)
+ * are ignored; `# SKIP` and `# TODO` directives count as skipped.
+ */
+function parseTap(content: string): TestCaseResult[] {
+  const cases: TestCaseResult[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    if (/^Bail out!/.test(line)) {
+      cases.push({
+        name: line.slice("Bail out!".length).trim() || "Bail out",
+        suite: null,
+        outcome: "error",
+        durationSeconds: null,
+        message: "Test run bailed out",
+        declaredRefs: []
+      });
+      break;
+    }
+    const match = line.match(/^(not )?ok\b(?:\s+(\d+))?\s*(?:-\s*)?([^#]*?)\s*(?:#\s*(.*))?$/);
+    if (!match) {
+      continue;
+    }
+    const [, notOk, number, description, directive] = match;
+    const directiveKind = directive?.match(/^(SKIP|TODO)\S*/i)?.[1].toUpperCase();
+    cases.push({
+      name: description || `test ${number ?? cases.length + 1}`,
+      suite: null,
+      outcome: directiveKind ? "skipped" : notOk ? "failed" : "passed",
+      durationSeconds: null,
+      message: directive?.trim() || null,
+      declaredRefs: []
+    });
+  }
+  return cases;
+}
+
+/**
+ * CTest console output, e.g.
+ *
+ *   1/3 Test #1: brake_release ....................   Passed    0.02 sec
+ *   2/3 Test #2: brake_hold .......................***Failed    0.05 sec
+ */
+function parseCTest(content: string): TestCaseResult[] {
+  const cases: TestCaseResult[] = [];
+  const pattern = /^\s*\d+\/\d+\s+Test\s+#\d+:\s+(\S+)\s+\.*\s*\**([A-Za-z][A-Za-z :]*?)\s+([\d.]+)\s+sec/;
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(pattern);
+    if (!match) {
+      continue;
+    }
+    const [, name, status, seconds] = match;
+    const outcome: TestOutcome = status === "Passed"
+      ? "passed"
+      : status === "Failed"
+        ? "failed"
+        : status === "Not Run" || status === "Skipped" || status === "Disabled"
+          ? "skipped"
+          : "error";
+    cases.push({
+      name,
+      suite: null,
+      outcome,
+      durationSeconds: Number(seconds),
+      message: outcome === "passed" ? null : status.trim(),
+      declaredRefs: []
+    });
+  }
+  return cases;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function qualifiedName(testCase: TestCaseResult): string {
+  return testCase.suite ? `${testCase.suite}.${testCase.name}` : testCase.name;
+}
+
+function mappingPattern(key: string): RegExp {
+  return new RegExp(`^${key.split("*").map(escapeRegex).join(".*")}$`);
+}
+
+/**
+ * Refs the mapping file assigns to a case; keys match the test name or the
+ * suite-qualified name.
+ */
+export function mappedRefs(testCase: TestCaseResult, mapping: TestRefMapping): string[] {
+  const names = [testCase.name, qualifiedName(testCase)];
+  return Object.entries(mapping)
+    .filter(([key]) => {
+      const pattern = mappingPattern(key);
+      return names.some(name => pattern.test(name));
+    })
+    .flatMap(([, refs]) => (Array.isArray(refs) ? refs : [refs]));
+}
+
+/**
+ * Requirements whose ref or alias appears in the text as a whole token.
+ * Test names often cannot contain dashes, so `SRS_012` also matches `SRS-012`.
+ */
+export function refsInText(text: string, requirements: TestTargetRequirement[]): TestTargetRequirement[] {
+  return requirements.filter(requirement => [requirement.ref, ...requirement.aliases].some(ref => {
+    const form = escapeRegex(ref).replace(/-/g, "[-_]");
+    return new RegExp(`(?<![A-Za-z0-9])${form}(?![0-9])`, "i").test(text);
+  }));
+}
+
+export function runVerdict(cases: TestCaseResult[]): TestRunVerdict {
+  if (cases.some(testCase => testCase.outcome === "failed" || testCase.outcome === "error")) {
+    return "fail";
+  }
+  return cases.some(testCase => testCase.outcome === "passed") ? "pass" : "inconclusive";
+}
+
+/**
+ * Map test cases to requirements. A case that the mapping file or its
+ * properties assign to requirements is not also matched by name.
+ */
+export function mapTestResults(
+  cases: TestCaseResult[],
+  requirements: TestTargetRequirement[],
+  mapping: TestRefMapping = {}
+): TestResultMapping {
+  const byRef = new Map<string, TestTargetRequirement>();
+  for (const requirement of requirements) {
+    for (const ref of [requirement.ref, ...requirement.aliases]) {
+      byRef.set(ref.toUpperCase(), requirement);
+    }
+  }
+
+  const grouped = new Map<string, { requirement: TestTargetRequirement; cases: TestCaseResult[] }>();
+  const unmatched: TestCaseResult[] = [];
+  const unknownRefs = new Set<string>();
+
+  for (const testCase of cases) {
+    const explicit = [...mappedRefs(testCase, mapping), ...testCase.declaredRefs];
+    const targets = explicit.length > 0
+      ? explicit.flatMap(ref => {
+        const requirement = byRef.get(ref.toUpperCase());
+        if (!requirement) {
+          unknownRefs.add(ref);
+        }
+        return requirement ? [requirement] : [];
+      })
+      : refsInText(qualifiedName(testCase), requirements);
+
+    if (targets.length === 0) {
+      unmatched.push(testCase);
+      continue;
+    }
+    for (const requirement of new Set(targets)) {
+      const group = grouped.get(requirement.id) ?? { requirement, cases: [] };
+      group.cases.push(testCase);
+      grouped.set(requirement.id, group);
+    }
+  }
+
+  return {
+    requirements: [...grouped.values()].map(({ requirement, cases: requirementCases }) => ({
+      requirementId: requirement.id,
+      ref: requirement.ref,
+      verdict: runVerdict(requirementCases),
+      cases: requirementCases
+    })),
+    unmatched,
+    unknownRefs: [...unknownRefs]
+  };
+}
+
+/** Evidence summary listing each case with its outcome */
+export function describeTestCases(cases: TestCaseResult[]): string {
+  return cases
+    .map(testCase => {
+      const duration = testCase.durationSeconds !== null ? ` (${testCase.durationSeconds}s)` : "";
+      const message = testCase.message ? `: ${testCase.message.split("\n")[0]}` : "";
+      return `${testCase.outcome.toUpperCase()} ${qualifiedName(testCase)}${duration}${message}`;
+    })
+    .join("\n");
+}
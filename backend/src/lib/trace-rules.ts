@@ -0,0 +1,309 @@
+/**
+ * Traceability information model.
+ *
+ * A project's trace rules declare which classes of requirement may link to
+ * which, with which link types, and how many links each end must have. A
+ * requirement class picks requirements by document (slug or short code), tag
+ * and/or attribute value; an empty class matches every requirement. For
+ * example, "every SYS requirement must be satisfied by at least one SUB
+ * requirement" is
+ *
+ *   { source: { document: "SUB" }, target: { document: "SYS" },
+ *     linkTypes: ["satisfies"], minPerTarget: 1 }
+ *
+ * Links between requirement pairs that no rule covers are governed by the
+ * rule set's `unmatched` policy. Link type violations are checked when a link
+ * is created; cardinality is a completeness property and is only reported by
+ * `evaluateTraceRules`.
+ */
+
+export const TRACE_LINK_TYPES = ["satisfies", "derives", "verifies", "implements", "refines", "conflicts"] as const;
+export type TraceLinkType = typeof TRACE_LINK_TYPES[number];
+
+export const TRACE_RULE_ENFORCEMENTS = ["reject", "warn"] as const;
+export type TraceRuleEnforcement = typeof TRACE_RULE_ENFORCEMENTS[number];
+
+export const UNMATCHED_LINK_POLICIES = ["allow", "warn", "reject"] as const;
+export type UnmatchedLinkPolicy = typeof UNMATCHED_LINK_POLICIES[number];
+
+export type RequirementClass = {
+  /** Document slug or short code */
+  document?: string;
+  tag?: string;
+  attribute?: { key: string; value: string };
+};
+
+export type TraceRule = {
+  id: string;
+  description?: string;
+  source: RequirementClass;
+  target: RequirementClass;
+  linkTypes: TraceLinkType[];
+  enforcement: TraceRuleEnforcement;
+  /** Links each matching source must have to matching targets */
+  minPerSource?: number;
+  maxPerSource?: number;
+  /** Links each matching target must have from matching sources */
+  minPerTarget?: number;
+  maxPerTarget?: number;
+};
+
+export type TraceRuleSetDefinition = {
+  rules: TraceRule[];
+  unmatched: UnmatchedLinkPolicy;
+};
+
+/** What the rules know about a requirement at either end of a link */
+export type TraceEndpoint = {
+  id: string;
+  ref: string;
+  documentSlug: string | null;
+  documentShortCode: string | null;
+  tags: string[];
+  attributes: Record<string, unknown>;
+};
+
+export type TraceLinkEnds = {
+  sourceRequirementId: string;
+  targetRequirementId: string;
+  linkType: string;
+};
+
+export type TraceRuleViolation = {
+  /** Null when the link is covered by no rule */
+  ruleId: string | null;
+  enforcement: TraceRuleEnforcement;
+  requirementId?: string;
+  requirementRef?: string;
+  message: string;
+};
+
+type DocumentEnd = { slug: string; shortCode: string | null };
+
+function same(a: string, b: string | null | undefined): boolean {
+  return b !== null && b !== undefined && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function matchesDocument(requirementClass: RequirementClass, document: DocumentEnd | null): boolean {
+  if (!requirementClass.document) {
+    return true;
+  }
+  return document !== null && (same(requirementClass.document, document.slug) || same(requirementClass.document, document.shortCode));
+}
+
+export function matchesClass(requirementClass: RequirementClass, endpoint: TraceEndpoint): boolean {
+  const document = endpoint.documentSlug ? { slug: endpoint.documentSlug, shortCode: endpoint.documentShortCode } : null;
+  if (!matchesDocument(requirementClass, document)) {
+    return false;
+  }
+  if (requirementClass.tag && !endpoint.tags.some(tag => same(requirementClass.tag!, tag))) {
+    return false;
+  }
+  if (requirementClass.attribute) {
+    const { key, value } = requirementClass.attribute;
+    const entry = Object.entries(endpoint.attributes).find(([name]) => same(key, name));
+    const actual = entry?.[1];
+    if (actual === undefined || actual === null) {
+      return false;
+    }
+    const items = Array.isArray(actual) ? actual : [actual];
+    if (!items.some(item => same(value, String(item)))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function describeClass(requirementClass: RequirementClass): string {
+  const parts: string[] = [];
+  if (requirementClass.document) parts.push(`document ${requirementClass.document}`);
+  if (requirementClass.tag) parts.push(`tag "${requirementClass.tag}"`);
+  if (requirementClass.attribute) parts.push(`${requirementClass.attribute.key} = ${requirementClass.attribute.value}`);
+  return parts.length > 0 ? parts.join(", ") : "any requirement";
+}
+
+function linkTypeList(linkTypes: readonly string[]): string {
+  return linkTypes.join(" or ");
+}
+
+/** Problems that make a rule set unusable; empty when it is valid */
+export function validateTraceRules(definition: TraceRuleSetDefinition): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  for (const rule of definition.rules) {
+    if (!rule.id.trim()) {
+      errors.push("Every rule needs an ID");
+      continue;
+    }
+    if (ids.has(rule.id)) {
+      errors.push(`Duplicate rule "${rule.id}"`);
+    }
+    ids.add(rule.id);
+
+    if (rule.linkTypes.length === 0) {
+      errors.push(`Rule "${rule.id}" allows no link types`);
+    }
+    for (const type of rule.linkTypes) {
+      if (!TRACE_LINK_TYPES.includes(type)) {
+        errors.push(`Rule "${rule.id}" has unknown link type "${type}"`);
+      }
+    }
+    for (const end of ["Source", "Target"] as const) {
+      const min = rule[`minPer${end}`];
+      const max = rule[`maxPer${end}`];
+      if (min !== undefined && max !== undefined && min > max) {
+        errors.push(`Rule "${rule.id}" requires at least ${min} but at most ${max} links per ${end.toLowerCase()}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check one link against the rules. A link is allowed when some rule whose
+ * classes match both ends lists its type; every matching rule that does not
+ * is violated. Links no rule covers fall to the `unmatched` policy.
+ */
+export function checkTraceLink(
+  definition: TraceRuleSetDefinition,
+  source: TraceEndpoint,
+  target: TraceEndpoint,
+  linkType: string
+): TraceRuleViolation[] {
+  const matching = definition.rules.filter(rule => matchesClass(rule.source, source) && matchesClass(rule.target, target));
+  const subject = { requirementId: source.id, requirementRef: source.ref };
+
+  if (matching.length === 0) {
+    if (definition.unmatched === "allow") {
+      return [];
+    }
+    return [{
+      ruleId: null,
+      enforcement: definition.unmatched,
+      ...subject,
+      message: `No trace rule allows links from ${source.ref} to ${target.ref}`
+    }];
+  }
+
+  if (matching.some(rule => (rule.linkTypes as string[]).includes(linkType))) {
+    return [];
+  }
+
+  return matching.map(rule => ({
+    ruleId: rule.id,
+    enforcement: rule.enforcement,
+    ...subject,
+    message: `Rule "${rule.id}" only allows ${linkTypeList(rule.linkTypes)} links from ${source.ref} to ${target.ref}, not ${linkType}`
+  }));
+}
+
+/**
+ * Check a linkset between two documents. Only rules that name both documents
+ * can be judged without knowing the requirements involved, so the default
+ * link type is checked against those; the pair itself is unmatched only when
+ * no rule could apply to it at all.
+ */
+export function checkDocumentLink(
+  definition: TraceRuleSetDefinition,
+  source: DocumentEnd,
+  target: DocumentEnd,
+  defaultLinkType?: string
+): TraceRuleViolation[] {
+  const applicable = definition.rules.filter(rule => matchesDocument(rule.source, source) && matchesDocument(rule.target, target));
+
+  if (applicable.length === 0) {
+    if (definition.unmatched === "allow") {
+      return [];
+    }
+    return [{
+      ruleId: null,
+      enforcement: definition.unmatched,
+      message: `No trace rule allows links from document ${source.slug} to document ${target.slug}`
+    }];
+  }
+
+  if (!defaultLinkType || applicable.some(rule => (rule.linkTypes as string[]).includes(defaultLinkType))) {
+    return [];
+  }
+
+  return applicable
+    .filter(rule => rule.source.document && rule.target.document)
+    .map(rule => ({
+      ruleId: rule.id,
+      enforcement: rule.enforcement,
+      message: `Rule "${rule.id}" only allows ${linkTypeList(rule.linkTypes)} links from document ${source.slug} to document ${target.slug}, not ${defaultLinkType}`
+    }));
+}
+
+function checkCardinality(
+  rule: TraceRule,
+  end: "source" | "target",
+  requirements: TraceEndpoint[],
+  links: Array<{ link: TraceLinkEnds; source: TraceEndpoint; target: TraceEndpoint }>
+): TraceRuleViolation[] {
+  const min = end === "source" ? rule.minPerSource : rule.minPerTarget;
+  const max = end === "source" ? rule.maxPerSource : rule.maxPerTarget;
+  if (min === undefined && max === undefined) {
+    return [];
+  }
+
+  const counted = links.filter(({ link, source, target }) =>
+    (rule.linkTypes as string[]).includes(link.linkType) &&
+    matchesClass(rule.source, source) &&
+    matchesClass(rule.target, target)
+  );
+  const otherClass = describeClass(end === "source" ? rule.target : rule.source);
+  const direction = end === "source" ? "to" : "from";
+  const violations: TraceRuleViolation[] = [];
+
+  for (const requirement of requirements.filter(candidate => matchesClass(rule[end], candidate))) {
+    const count = counted.filter(({ source, target }) => (end === "source" ? source : target).id === requirement.id).length;
+    const described = `${requirement.ref} has ${count} ${linkTypeList(rule.linkTypes)} link${count === 1 ? "" : "s"} ${direction} ${otherClass}`;
+    if (min !== undefined && count < min) {
+      violations.push({
+        ruleId: rule.id,
+        enforcement: rule.enforcement,
+        requirementId: requirement.id,
+        requirementRef: requirement.ref,
+        message: `${described}; rule "${rule.id}" requires at least ${min}`
+      });
+    } else if (max !== undefined && count > max) {
+      violations.push({
+        ruleId: rule.id,
+        enforcement: rule.enforcement,
+        requirementId: requirement.id,
+        requirementRef: requirement.ref,
+        message: `${described}; rule "${rule.id}" allows at most ${max}`
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Every violation in a project: links the rules do not allow, and
+ * requirements with too few or too many links. Links to requirements not in
+ * `requirements` (e.g. deleted ones) are ignored.
+ */
+export function evaluateTraceRules(
+  definition: TraceRuleSetDefinition,
+  requirements: TraceEndpoint[],
+  links: TraceLinkEnds[]
+): TraceRuleViolation[] {
+  const byId = new Map(requirements.map(requirement => [requirement.id, requirement]));
+  const resolved = links.flatMap(link => {
+    const source = byId.get(link.sourceRequirementId);
+    const target = byId.get(link.targetRequirementId);
+    return source && target ? [{ link, source, target }] : [];
+  });
+
+  const violations = resolved.flatMap(({ link, source, target }) => checkTraceLink(definition, source, target, link.linkType));
+  for (const rule of definition.rules) {
+    violations.push(...checkCardinality(rule, "source", requirements, resolved));
+    violations.push(...checkCardinality(rule, "target", requirements, resolved));
+  }
+  return violations;
+}
@@ -0,0 +1,230 @@
+/**
+ * Minimal server-side WebSocket (RFC 6455) support
+ *
+ * Covers what the document collaboration channel needs on top of Node's
+ * HTTP "upgrade" event:
+ * - Opening handshake
+ * - Text messages, including fragmented ones
+ * - Ping/pong and the closing handshake
+ *
+ * Binary frames and extensions (e.g. permessage-deflate) are not supported;
+ * a client sending binary data is disconnected.
+ */
+
+import { createHash } from "node:crypto";
+import { EventEmitter } from "node:events";
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/** Largest message accepted from a client; collaboration messages are tiny */
+export const MAX_WEBSOCKET_MESSAGE_BYTES = 64 * 1024;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/**
+ * Compute the Sec-WebSocket-Accept header for a client key
+ */
+export function websocketAcceptKey(key: string): string {
+  return createHash("sha1").update(key + HANDSHAKE_GUID).digest("base64");
+}
+
+/**
+ * Encode an unmasked (server-to-client) frame
+ */
+export function encodeWebSocketFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * An accepted WebSocket connection.
+ *
+ * Emits "message" (string) for each complete text message and "close" once
+ * when the connection ends for any reason.
+ */
+export class WebSocketConnection extends EventEmitter {
+  private buffer: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentBytes = 0;
+  private closed = false;
+
+  constructor(private readonly socket: Duplex, head?: Buffer) {
+    super();
+    socket.on("data", (chunk: Buffer) => this.receive(chunk));
+    socket.on("close", () => this.finish());
+    socket.on("error", () => this.finish());
+
+    // Bytes that arrived with the upgrade request; parse once listeners are attached
+    if (head && head.length > 0) {
+      queueMicrotask(() => this.receive(head));
+    }
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  send(message: string): void {
+    if (this.closed) {
+      return;
+    }
+    this.socket.write(encodeWebSocketFrame(OPCODE_TEXT, Buffer.from(message, "utf8")));
+  }
+
+  close(code = 1000, reason = ""): void {
+    if (this.closed) {
+      return;
+    }
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    this.socket.end(encodeWebSocketFrame(OPCODE_CLOSE, payload));
+    this.finish();
+  }
+
+  private finish(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.emit("close");
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    while (!this.closed && this.buffer.length >= 2) {
+      const first = this.buffer[0];
+      const second = this.buffer[1];
+      const fin = (first & 0x80) !== 0;
+      const opcode = first & 0x0f;
+      const masked = (second & 0x80) !== 0;
+
+      let length = second & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) {return;}
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) {return;}
+        const longLength = this.buffer.readBigUInt64BE(2);
+        length = longLength > BigInt(MAX_WEBSOCKET_MESSAGE_BYTES) ? Infinity : Number(longLength);
+        offset = 10;
+      }
+
+      if (length > MAX_WEBSOCKET_MESSAGE_BYTES) {
+        this.close(1009, "Message too large");
+        return;
+      }
+      if (!masked) {
+        this.close(1002, "Client frames must be masked");
+        return;
+      }
+      if (this.buffer.length < offset + 4 + length) {
+        return;
+      }
+
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+      this.handleFrame(fin, opcode, payload);
+    }
+  }
+
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case OPCODE_CLOSE:
+        this.close(payload.length >= 2 ? payload.readUInt16BE(0) : 1000);
+        return;
+      case OPCODE_PING:
+        this.socket.write(encodeWebSocketFrame(OPCODE_PONG, payload));
+        return;
+      case OPCODE_PONG:
+        return;
+      case OPCODE_BINARY:
+        this.close(1003, "Binary messages are not supported");
+        return;
+      case OPCODE_TEXT:
+      case OPCODE_CONTINUATION: {
+        if (opcode === OPCODE_TEXT && this.fragments.length > 0) {
+          this.close(1002, "Expected continuation frame");
+          return;
+        }
+        if (opcode === OPCODE_CONTINUATION && this.fragments.length === 0) {
+          this.close(1002, "Unexpected continuation frame");
+          return;
+        }
+        this.fragmentBytes += payload.length;
+        if (this.fragmentBytes > MAX_WEBSOCKET_MESSAGE_BYTES) {
+          this.close(1009, "Message too large");
+          return;
+        }
+        this.fragments.push(payload);
+        if (fin) {
+          const message = Buffer.concat(this.fragments).toString("utf8");
+          this.fragments = [];
+          this.fragmentBytes = 0;
+          this.emit("message", message);
+        }
+        return;
+      }
+      default:
+        this.close(1002, "Unknown opcode");
+    }
+  }
+}
+
+/**
+ * Refuse an upgrade request with a plain HTTP response
+ */
+export function rejectWebSocketUpgrade(socket: Duplex, statusCode: number, message: string): void {
+  socket.end(`HTTP/1.1 ${statusCode} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+/**
+ * Complete the opening handshake for an HTTP upgrade request.
+ *
+ * @returns The connection, or null if the request was not a valid WebSocket upgrade (already rejected)
+ */
+export function acceptWebSocket(request: IncomingMessage, socket: Duplex, head?: Buffer): WebSocketConnection | null {
+  const key = request.headers["sec-websocket-key"];
+  if (request.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string" || !key) {
+    rejectWebSocketUpgrade(socket, 400, "Bad Request");
+    return null;
+  }
+
+  socket.write([
+    "HTTP/1.1 101 Switching Protocols",
+    "Upgrade: websocket",
+    "Connection: Upgrade",
+    `Sec-WebSocket-Accept: ${websocketAcceptKey(key)}`,
+    "",
+    ""
+  ].join("\r\n"));
+
+  return new WebSocketConnection(socket, head);
+}
@@ -0,0 +1,69 @@
+export type WordDiffOp = "equal" | "insert" | "delete";
+
+export type WordDiffSegment = {
+  op: WordDiffOp;
+  text: string;
+};
+
+/** Token count beyond which the LCS table gets too large and the texts are diffed whole */
+const MAX_TOKENS = 2000;
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function pushSegment(segments: WordDiffSegment[], op: WordDiffOp, text: string): void {
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    segments.push({ op, text });
+  }
+}
+
+/**
+ * Word-level diff of two texts for redlines. Whitespace is kept as its own
+ * token so joining the equal and delete segments reproduces `before`, and the
+ * equal and insert segments reproduce `after`.
+ */
+export function diffWords(before: string, after: string): WordDiffSegment[] {
+  if (before === after) {
+    return before ? [{ op: "equal", text: before }] : [];
+  }
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const segments: WordDiffSegment[] = [];
+
+  if (a.length > MAX_TOKENS || b.length > MAX_TOKENS) {
+    if (before) segments.push({ op: "delete", text: before });
+    if (after) segments.push({ op: "insert", text: after });
+    return segments;
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: Uint16Array[] = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, "equal", a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushSegment(segments, "delete", a[i++]);
+    } else {
+      pushSegment(segments, "insert", b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, "delete", a[i++]);
+  while (j < b.length) pushSegment(segments, "insert", b[j++]);
+
+  return segments;
+}
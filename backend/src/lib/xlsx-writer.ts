@@ -0,0 +1,204 @@
+import { createZip } from "./zip-writer.js";
+
+export type XlsxCell = string | number | null;
+
+export type XlsxSheet = {
+  /** Tab name; Excel allows at most 31 characters and no []:*?/\ */
+  name: string;
+  headers: string[];
+  rows: XlsxCell[][];
+  /** Column widths in characters */
+  widths?: number[];
+};
+
+export type XlsxWorkbook = {
+  title: string;
+  author?: string;
+  subject?: string;
+  /** Extra metadata written into docProps/custom.xml */
+  properties?: Record<string, string>;
+  sheets: XlsxSheet[];
+};
+
+// Cell style indexes into STYLES_XML's cellXfs
+const STYLE_WRAP = 1;
+const STYLE_HEADER = 2;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="10"/><name val="Calibri"/></font><font><b/><sz val="10"/><name val="Calibri"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>
+<fill><patternFill patternType="solid"><fgColor rgb="FFEDEFF4"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="2"><border><left/><right/><top/><bottom/><diagonal/></border>
+<border><left style="thin"><color rgb="FFCBD0D8"/></left><right style="thin"><color rgb="FFCBD0D8"/></right>
+<top style="thin"><color rgb="FFCBD0D8"/></top><bottom style="thin"><color rgb="FFCBD0D8"/></bottom><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="0" fillId="0" borderId="1" xfId="0" applyBorder="1" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="1" xfId="0" applyFont="1" applyFill="1" applyBorder="1" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf></cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+/** Column letters for a zero-based index: 0 → A, 26 → AA */
+export function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function sheetName(name: string, index: number, used: Set<string>): string {
+  let base = name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || `Sheet${index + 1}`;
+  for (let n = 2; used.has(base.toLowerCase()); n++) {
+    base = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+  }
+  used.add(base.toLowerCase());
+  return base;
+}
+
+function cell(value: XlsxCell, column: number, row: number, style: number): string {
+  const ref = `${columnName(column)}${row}`;
+  if (value === null || value === "") {
+    return `<c r="${ref}" s="${style}"/>`;
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${ref}" s="${style}"><v>${value}</v></c>`;
+  }
+  return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function worksheet(sheet: XlsxSheet): string {
+  const columns = sheet.headers.length;
+  const lastColumn = columnName(Math.max(columns, 1) - 1);
+  const cols = (sheet.widths ?? [])
+    .map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`)
+    .join("");
+  const rows = [
+    `<row r="1">${sheet.headers.map((header, i) => cell(header, i, 1, STYLE_HEADER)).join("")}</row>`,
+    ...sheet.rows.map((values, r) =>
+      `<row r="${r + 2}">${sheet.headers.map((_, i) => cell(values[i] ?? null, i, r + 2, STYLE_WRAP)).join("")}</row>`
+    )
+  ];
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    (cols ? `<cols>${cols}</cols>` : "") +
+    `<sheetData>${rows.join("")}</sheetData>` +
+    (columns > 0 ? `<autoFilter ref="A1:${lastColumn}${sheet.rows.length + 1}"/>` : "") +
+    "</worksheet>"
+  );
+}
+
+/**
+ * Render a workbook as a minimal SpreadsheetML (.xlsx) package: one
+ * worksheet per sheet with a bold, frozen, filterable header row and
+ * wrapped text cells. Strings are stored inline, so there is no shared
+ * string table.
+ */
+export function renderXlsx(workbook: XlsxWorkbook): Buffer {
+  const used = new Set<string>();
+  const names = workbook.sheets.map((sheet, i) => sheetName(sheet.name, i, used));
+
+  const customProperties = Object.entries(workbook.properties ?? {})
+    .map(([name, value], i) =>
+      `<property fmtid="{D5CDD505-2E9C-101B-9397-08002B2CF9AE}" pid="${i + 2}" name="${escapeXml(name)}">` +
+      `<vt:lpwstr>${escapeXml(value)}</vt:lpwstr></property>`
+    )
+    .join("");
+
+  // Autofilters need a hidden defined name per sheet for Excel to keep them
+  const definedNames = workbook.sheets
+    .map((sheet, i) => sheet.headers.length > 0
+      ? `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">` +
+        `'${escapeXml(names[i].replace(/'/g, "''"))}'!$A$1:$${columnName(sheet.headers.length - 1)}$${sheet.rows.length + 1}</definedName>`
+      : "")
+    .join("");
+
+  const entries = [
+    {
+      name: "[Content_Types].xml",
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        names.map((_, i) =>
+          `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        ).join("") +
+        '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+        '<Override PartName="/docProps/custom.xml" ContentType="application/vnd.openxmlformats-officedocument.custom-properties+xml"/>' +
+        "</Types>"
+    },
+    {
+      name: "_rels/.rels",
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+        '<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/custom-properties" Target="docProps/custom.xml"/>' +
+        "</Relationships>"
+    },
+    {
+      name: "xl/workbook.xml",
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rIdSheet${i + 1}"/>`).join("") +
+        "</sheets>" +
+        (definedNames ? `<definedNames>${definedNames}</definedNames>` : "") +
+        "</workbook>"
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        names.map((_, i) =>
+          `<Relationship Id="rIdSheet${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+        ).join("") +
+        '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        "</Relationships>"
+    },
+    { name: "xl/styles.xml", data: STYLES_XML },
+    ...workbook.sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: worksheet(sheet) })),
+    {
+      name: "docProps/core.xml",
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+        'xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+        `<dc:title>${escapeXml(workbook.title)}</dc:title>` +
+        (workbook.subject ? `<dc:subject>${escapeXml(workbook.subject)}</dc:subject>` : "") +
+        (workbook.author ? `<dc:creator>${escapeXml(workbook.author)}</dc:creator>` : "") +
+        "</cp:coreProperties>"
+    },
+    {
+      name: "docProps/custom.xml",
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/custom-properties" ' +
+        'xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes">' +
+        customProperties +
+        "</Properties>"
+    }
+  ];
+
+  return createZip(entries);
+}
@@ -0,0 +1,139 @@
+import { inflateRawSync } from "node:zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/** Default cap on one entry's uncompressed size */
+const MAX_ENTRY_SIZE = 32 * 1024 * 1024;
+/** Default cap on the uncompressed size of all entries read */
+const MAX_TOTAL_SIZE = 128 * 1024 * 1024;
+
+export type ReadZipOptions = {
+  /** Entries to read; others are skipped without being inflated (default: all) */
+  include?: (name: string) => boolean;
+  maxEntrySize?: number;
+  maxTotalSize?: number;
+};
+
+type CentralDirectoryEntry = {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+};
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is 22 bytes plus a comment of at most 64 KiB
+  const lowest = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= lowest; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+/**
+ * @throws Error if the buffer has no end of central directory record or a
+ * directory entry points outside the buffer
+ */
+function readCentralDirectory(buffer: Buffer): CentralDirectoryEntry[] {
+  const end = findEndOfCentralDirectory(buffer);
+  if (end === -1) {
+    throw new Error("Not a ZIP archive");
+  }
+
+  const entries: CentralDirectoryEntry[] = [];
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Malformed ZIP archive: bad central directory");
+    }
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    if (offset + 46 + nameLength > buffer.length) {
+      throw new Error("Malformed ZIP archive: bad central directory");
+    }
+    entries.push({
+      name: buffer.toString("utf8", offset + 46, offset + 46 + nameLength),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      localOffset: buffer.readUInt32LE(offset + 42)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Names of the files in a ZIP archive, without reading their contents.
+ * Directory entries are skipped.
+ *
+ * @throws Error if the buffer is not a readable ZIP archive
+ */
+export function listZip(buffer: Buffer): string[] {
+  return readCentralDirectory(buffer).map(entry => entry.name).filter(name => !name.endsWith("/"));
+}
+
+/**
+ * Read the files of a ZIP archive (stored or deflate, no encryption, no
+ * ZIP64) into memory, keyed by entry name. Directory entries are skipped.
+ * The counterpart of createZip, enough for OOXML packages such as DOCX
+ * and XLSX.
+ *
+ * Uploaded archives are untrusted, so inflation stops at `maxEntrySize` per
+ * entry and `maxTotalSize` overall rather than trusting the sizes the
+ * archive declares.
+ *
+ * @throws Error if the buffer is not a readable ZIP archive or an entry
+ * exceeds the size caps
+ */
+export function readZip(buffer: Buffer, options: ReadZipOptions = {}): Map<string, Buffer> {
+  const maxEntrySize = options.maxEntrySize ?? MAX_ENTRY_SIZE;
+  const maxTotalSize = options.maxTotalSize ?? MAX_TOTAL_SIZE;
+  const entries = new Map<string, Buffer>();
+  let totalSize = 0;
+
+  for (const { name, method, compressedSize, localOffset } of readCentralDirectory(buffer)) {
+    if (name.endsWith("/") || (options.include && !options.include(name))) {continue;}
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Malformed ZIP archive: bad local header for ${name}`);
+    }
+    // Local extra fields may differ from the central directory's
+    const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    if (start + compressedSize > buffer.length) {
+      throw new Error(`Malformed ZIP archive: truncated data for ${name}`);
+    }
+    const data = buffer.subarray(start, start + compressedSize);
+    const limit = Math.min(maxEntrySize, maxTotalSize - totalSize);
+
+    let content: Buffer;
+    if (method === 0) {
+      content = Buffer.from(data);
+    } else if (method === 8) {
+      try {
+        content = inflateRawSync(data, { maxOutputLength: Math.max(limit, 1) });
+      } catch (error) {
+        if (error instanceof RangeError) {
+          throw new Error(`ZIP entry ${name} is too large to read`);
+        }
+        throw new Error(`Malformed ZIP archive: cannot inflate ${name}`);
+      }
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    }
+    if (content.length > limit) {
+      throw new Error(`ZIP entry ${name} is too large to read`);
+    }
+
+    totalSize += content.length;
+    entries.set(name, content);
+  }
+
+  return entries;
+}
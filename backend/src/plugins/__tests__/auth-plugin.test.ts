@@ -101,3 +101,52 @@ describe("verifyAndAttachUser", () => {
     expect(request.currentUser).toBeNull();
   });
 });
+
+describe("verifyAndAttachUser with API tokens", () => {
+  const tokenUser = {
+    sub: "user-789",
+    roles: ["user"],
+    tenantSlugs: ["acme"],
+    apiToken: { id: "tok-1", kind: "personal" as const, scopes: ["read" as const] }
+  };
+
+  function tokenRequest(method: string, url: string) {
+    return {
+      currentUser: "placeholder",
+      method,
+      url,
+      ip: "127.0.0.1",
+      headers: { authorization: "Bearer airgen_pat_abc123" },
+      jwtVerify: vi.fn()
+    } as unknown as FastifyRequest;
+  }
+
+  it("resolves API tokens without JWT verification", async () => {
+    const resolveApiToken = vi.fn().mockResolvedValue(tokenUser);
+    const request = tokenRequest("GET", "/api/requirements/acme/rocket");
+
+    const user = await verifyAndAttachUser(request, { resolveApiToken });
+
+    expect(resolveApiToken).toHaveBeenCalledWith("airgen_pat_abc123", "127.0.0.1");
+    expect(request.jwtVerify).not.toHaveBeenCalled();
+    expect(user).toEqual(tokenUser);
+    expect(request.currentUser).toEqual(tokenUser);
+  });
+
+  it("rejects unknown tokens with 401 even when optional", async () => {
+    const request = tokenRequest("GET", "/api/requirements/acme/rocket");
+
+    await expect(
+      verifyAndAttachUser(request, { optional: true, resolveApiToken: vi.fn().mockResolvedValue(null) })
+    ).rejects.toMatchObject({ statusCode: 401 });
+    expect(request.currentUser).toBeNull();
+  });
+
+  it("rejects requests outside the token scopes with 403", async () => {
+    const request = tokenRequest("POST", "/api/requirements");
+
+    await expect(
+      verifyAndAttachUser(request, { resolveApiToken: vi.fn().mockResolvedValue(tokenUser) })
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+});
@@ -3,7 +3,13 @@ import { config } from "../config.js";
 import { createAuthPlugin } from "./auth/create-auth-plugin.js";
 import type { AuthenticatedUser, RegisterAuthOptions } from "./auth/types.js";
 
-export type { AuthenticatedUser, JwtPayload, CreateAuthPluginOptions } from "./auth/types.js";
+// Loaded on first use so the auth plugin does not need PostgreSQL at import time
+async function resolveApiTokenFromDatabase(token: string, ip?: string): Promise<AuthenticatedUser | null> {
+  const { resolveApiToken } = await import("../services/api-tokens.js");
+  return resolveApiToken(token, ip);
+}
+
+export type { AuthenticatedUser, JwtPayload, CreateAuthPluginOptions, ApiTokenResolver } from "./auth/types.js";
 export type { RegisterAuthOptions } from "./auth/types.js";
 export { MissingSubClaimError, normalizeUser } from "./auth/normalize-user.js";
 export { verifyAndAttachUser } from "./auth/verify-user.js";
@@ -26,7 +32,8 @@ export async function registerAuth(
 ): Promise<void> {
   const plugin = createAuthPlugin({
     jwtSecret: options.jwtSecret ?? config.jwtSecret,
-    logger: options.logger ?? app.log
+    logger: options.logger ?? app.log,
+    resolveApiToken: options.resolveApiToken ?? resolveApiTokenFromDatabase
   });
 
   await plugin(app);
@@ -1,11 +1,12 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import jwt from "@fastify/jwt";
 import type { CreateAuthPluginOptions } from "./types.js";
-import { verifyAndAttachUser } from "./verify-user.js";
+import { assertApiTokenAccess, verifyAndAttachUser } from "./verify-user.js";
 
 export function createAuthPlugin({
   jwtSecret,
-  logger
+  logger,
+  resolveApiToken
 }: CreateAuthPluginOptions): (app: FastifyInstance) => Promise<void> {
   return async function authPlugin(app: FastifyInstance): Promise<void> {
     await app.register(jwt, { secret: jwtSecret });
@@ -18,11 +19,18 @@ export function createAuthPlugin({
     };
 
     app.decorate("authenticate", async (request: FastifyRequest, _reply: FastifyReply) => {
-      await verifyAndAttachUser(request, { onError: onVerificationError });
+      await verifyAndAttachUser(request, { onError: onVerificationError, resolveApiToken });
     });
 
     app.decorate("optionalAuthenticate", async (request: FastifyRequest, _reply: FastifyReply) => {
-      await verifyAndAttachUser(request, { onError: onVerificationError, optional: true });
+      await verifyAndAttachUser(request, { onError: onVerificationError, optional: true, resolveApiToken });
+    });
+
+    // Re-check token restrictions against the parsed body (authenticate usually runs in onRequest)
+    app.addHook("preHandler", async (request: FastifyRequest) => {
+      if (request.currentUser?.apiToken) {
+        assertApiTokenAccess(request, request.currentUser);
+      }
     });
   };
 }
@@ -1,5 +1,6 @@
 import type { FastifyBaseLogger } from "fastify";
 import type { UserPermissions } from "../../types/permissions.js";
+import type { ApiTokenContext } from "../../lib/api-tokens.js";
 
 export type AuthenticatedUser = {
   sub: string;
@@ -9,6 +10,8 @@ export type AuthenticatedUser = {
   tenantSlugs?: string[];
   ownedTenantSlugs?: string[];
   permissions?: UserPermissions;
+  /** Set when the request authenticated with a personal access or service account token */
+  apiToken?: ApiTokenContext;
 };
 
 export type JwtPayload = {
@@ -22,9 +25,13 @@ export type JwtPayload = {
   permissions?: UserPermissions;
 };
 
+/** Resolves an opaque API token to the user it acts as, or null if it is not valid */
+export type ApiTokenResolver = (token: string, ip?: string) => Promise<AuthenticatedUser | null>;
+
 export interface CreateAuthPluginOptions {
   jwtSecret: string;
   logger?: FastifyBaseLogger;
+  resolveApiToken?: ApiTokenResolver;
 }
 
 export interface RegisterAuthOptions extends Partial<CreateAuthPluginOptions> {}
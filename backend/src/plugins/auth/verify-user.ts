@@ -1,21 +1,34 @@
 import type { FastifyRequest } from "fastify";
+import { ApiTokenError, checkApiTokenAccess, isApiToken } from "../../lib/api-tokens.js";
 import { normalizeUser } from "./normalize-user.js";
-import type { AuthenticatedUser, JwtPayload } from "./types.js";
+import type { ApiTokenResolver, AuthenticatedUser, JwtPayload } from "./types.js";
 
 const NO_AUTH_HEADER_CODE = "FST_JWT_NO_AUTHORIZATION_IN_HEADER";
 
 export interface VerifyAndAttachUserOptions {
   optional?: boolean;
   onError?: (error: unknown) => void;
+  resolveApiToken?: ApiTokenResolver;
 }
 
 export async function verifyAndAttachUser(
   request: FastifyRequest,
-  { optional = false, onError }: VerifyAndAttachUserOptions
+  { optional = false, onError, resolveApiToken }: VerifyAndAttachUserOptions
 ): Promise<AuthenticatedUser | null> {
   request.currentUser = null;
 
   try {
+    const bearer = extractBearerToken(request);
+    if (bearer && isApiToken(bearer)) {
+      const user = resolveApiToken ? await resolveApiToken(bearer, request.ip) : null;
+      if (!user) {
+        throw new ApiTokenError(401, "Invalid, expired or revoked API token");
+      }
+      assertApiTokenAccess(request, user);
+      request.currentUser = user;
+      return user;
+    }
+
     const payload = await request.jwtVerify<JwtPayload>();
     const user = normalizeUser(payload);
     request.currentUser = user;
@@ -30,6 +43,29 @@ export async function verifyAndAttachUser(
   }
 }
 
+/**
+ * Enforce token scopes and project limits. Runs during authentication and
+ * again once the body is parsed, since body fields can name a tenant or project.
+ */
+export function assertApiTokenAccess(request: FastifyRequest, user: AuthenticatedUser): void {
+  if (!user.apiToken) {
+    return;
+  }
+
+  const denial = checkApiTokenAccess(user.apiToken, request);
+  if (denial) {
+    throw new ApiTokenError(403, denial);
+  }
+}
+
+function extractBearerToken(request: FastifyRequest): string | null {
+  const header = request.headers?.authorization;
+  if (!header || !header.startsWith("Bearer ")) {
+    return null;
+  }
+  return header.slice("Bearer ".length).trim();
+}
+
 function isMissingAuthHeaderError(error: unknown): boolean {
   return (
     typeof error === "object" &&
@@ -0,0 +1,270 @@
+/**
+ * API Token Repository
+ *
+ * Database abstraction layer for personal access tokens and
+ * tenant-owned service accounts.
+ */
+
+import type { Pool } from "pg";
+import { getPool } from "../lib/postgres.js";
+import type { UserRole } from "../types/roles.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ServiceAccount {
+  id: string;
+  tenantSlug: string;
+  name: string;
+  description?: string;
+  role: UserRole;
+  createdBy?: string;
+  createdAt: Date;
+  disabledAt?: Date;
+}
+
+export interface CreateServiceAccountInput {
+  tenantSlug: string;
+  name: string;
+  description?: string;
+  role: UserRole;
+  createdBy?: string;
+}
+
+export interface ApiTokenRecord {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  userId?: string;
+  serviceAccountId?: string;
+  scopes: string[];
+  projects?: string[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+export interface CreateApiTokenInput {
+  name: string;
+  tokenPrefix: string;
+  hashedToken: string;
+  userId?: string;
+  serviceAccountId?: string;
+  scopes: string[];
+  projects?: string[];
+  expiresAt?: Date;
+  createdBy?: string;
+}
+
+/** Token joined with its owning service account, if any */
+export interface ApiTokenWithOwner extends ApiTokenRecord {
+  serviceAccount?: ServiceAccount;
+}
+
+// Skip last-used writes when the token was used this recently
+const LAST_USED_RESOLUTION_SECONDS = 60;
+
+// ============================================================================
+// API Token Repository
+// ============================================================================
+
+export class ApiTokenRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? getPool();
+  }
+
+  // ── Service accounts ──────────────────────────────────────────
+
+  async createServiceAccount(input: CreateServiceAccountInput): Promise<ServiceAccount> {
+    const result = await this.pool.query(
+      `INSERT INTO service_accounts (tenant_slug, name, description, role, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [input.tenantSlug, input.name, input.description ?? null, input.role, input.createdBy ?? null]
+    );
+    return this.mapRowToServiceAccount(result.rows[0]);
+  }
+
+  async listServiceAccounts(tenantSlug: string): Promise<ServiceAccount[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM service_accounts WHERE tenant_slug = $1 AND disabled_at IS NULL ORDER BY created_at`,
+      [tenantSlug]
+    );
+    return result.rows.map(row => this.mapRowToServiceAccount(row));
+  }
+
+  async getServiceAccount(tenantSlug: string, id: string): Promise<ServiceAccount | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM service_accounts WHERE tenant_slug = $1 AND id = $2 AND disabled_at IS NULL`,
+      [tenantSlug, id]
+    );
+    return result.rows[0] ? this.mapRowToServiceAccount(result.rows[0]) : null;
+  }
+
+  /**
+   * Disable a service account and revoke all of its tokens
+   */
+  async disableServiceAccount(tenantSlug: string, id: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE service_accounts SET disabled_at = NOW()
+       WHERE tenant_slug = $1 AND id = $2 AND disabled_at IS NULL`,
+      [tenantSlug, id]
+    );
+    if ((result.rowCount ?? 0) === 0) {
+      return false;
+    }
+
+    await this.pool.query(
+      `UPDATE api_tokens SET revoked_at = NOW() WHERE service_account_id = $1 AND revoked_at IS NULL`,
+      [id]
+    );
+    return true;
+  }
+
+  // ── Tokens ────────────────────────────────────────────────────
+
+  async createToken(input: CreateApiTokenInput): Promise<ApiTokenRecord> {
+    const result = await this.pool.query(
+      `INSERT INTO api_tokens (name, token_prefix, hashed_token, user_id, service_account_id, scopes, projects, expires_at, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [
+        input.name,
+        input.tokenPrefix,
+        input.hashedToken,
+        input.userId ?? null,
+        input.serviceAccountId ?? null,
+        input.scopes,
+        input.projects ?? null,
+        input.expiresAt ?? null,
+        input.createdBy ?? null
+      ]
+    );
+    return this.mapRowToToken(result.rows[0]);
+  }
+
+  async listTokensForUser(userId: string): Promise<ApiTokenRecord[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM api_tokens WHERE user_id = $1 ORDER BY created_at DESC`,
+      [userId]
+    );
+    return result.rows.map(row => this.mapRowToToken(row));
+  }
+
+  async listTokensForServiceAccount(serviceAccountId: string): Promise<ApiTokenRecord[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM api_tokens WHERE service_account_id = $1 ORDER BY created_at DESC`,
+      [serviceAccountId]
+    );
+    return result.rows.map(row => this.mapRowToToken(row));
+  }
+
+  /**
+   * Find a token by hash regardless of state; callers check revocation and expiry
+   */
+  async findByHash(hashedToken: string): Promise<ApiTokenWithOwner | null> {
+    const result = await this.pool.query(
+      `SELECT t.*,
+              sa.id AS sa_id, sa.tenant_slug AS sa_tenant_slug, sa.name AS sa_name,
+              sa.description AS sa_description, sa.role AS sa_role, sa.created_by AS sa_created_by,
+              sa.created_at AS sa_created_at, sa.disabled_at AS sa_disabled_at
+       FROM api_tokens t
+       LEFT JOIN service_accounts sa ON sa.id = t.service_account_id
+       WHERE t.hashed_token = $1`,
+      [hashedToken]
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      ...this.mapRowToToken(row),
+      serviceAccount: row.sa_id
+        ? this.mapRowToServiceAccount({
+          id: row.sa_id,
+          tenant_slug: row.sa_tenant_slug,
+          name: row.sa_name,
+          description: row.sa_description,
+          role: row.sa_role,
+          created_by: row.sa_created_by,
+          created_at: row.sa_created_at,
+          disabled_at: row.sa_disabled_at
+        })
+        : undefined
+    };
+  }
+
+  async revokeUserToken(userId: string, tokenId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE api_tokens SET revoked_at = NOW()
+       WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+      [tokenId, userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async revokeServiceAccountToken(serviceAccountId: string, tokenId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE api_tokens SET revoked_at = NOW()
+       WHERE id = $1 AND service_account_id = $2 AND revoked_at IS NULL`,
+      [tokenId, serviceAccountId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Record token use (throttled to one write per minute per token)
+   */
+  async touchLastUsed(tokenId: string, ip?: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE api_tokens SET last_used_at = NOW(), last_used_ip = $2
+       WHERE id = $1
+         AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL '${LAST_USED_RESOLUTION_SECONDS} seconds')`,
+      [tokenId, ip ?? null]
+    );
+  }
+
+  /**
+   * Map database row to ServiceAccount object
+   */
+  private mapRowToServiceAccount(row: any): ServiceAccount {
+    return {
+      id: row.id,
+      tenantSlug: row.tenant_slug,
+      name: row.name,
+      description: row.description ?? undefined,
+      role: row.role,
+      createdBy: row.created_by ?? undefined,
+      createdAt: new Date(row.created_at),
+      disabledAt: row.disabled_at ? new Date(row.disabled_at) : undefined
+    };
+  }
+
+  /**
+   * Map database row to ApiTokenRecord object (never includes the hash)
+   */
+  private mapRowToToken(row: any): ApiTokenRecord {
+    return {
+      id: row.id,
+      name: row.name,
+      tokenPrefix: row.token_prefix,
+      userId: row.user_id ?? undefined,
+      serviceAccountId: row.service_account_id ?? undefined,
+      scopes: row.scopes ?? [],
+      projects: row.projects ?? undefined,
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+      lastUsedIp: row.last_used_ip ?? undefined,
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+      createdBy: row.created_by ?? undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
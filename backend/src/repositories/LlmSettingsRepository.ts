@@ -0,0 +1,137 @@
+/**
+ * LLM Settings Repository
+ *
+ * Database abstraction layer for per-tenant LLM provider settings.
+ * API keys are stored encrypted; callers pass and receive plain text.
+ */
+
+import type { Pool } from "pg";
+import { getPool } from "../lib/postgres.js";
+import { decryptSecret, encryptSecret } from "../lib/mfa.js";
+import type { LlmProviderKind } from "../services/llm-providers/types.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TenantLlmSettings {
+  tenantSlug: string;
+  provider: LlmProviderKind;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+  apiVersion?: string;
+  embeddingProvider?: LlmProviderKind;
+  embeddingModel?: string;
+  embeddingBaseUrl?: string;
+  embeddingApiKey?: string;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Full replacement of a tenant's settings. An `undefined` API key keeps the
+ * stored one; `null` clears it.
+ */
+export interface SaveTenantLlmSettingsInput {
+  provider: LlmProviderKind;
+  model: string;
+  baseUrl?: string | null;
+  apiKey?: string | null;
+  apiVersion?: string | null;
+  embeddingProvider?: LlmProviderKind | null;
+  embeddingModel?: string | null;
+  embeddingBaseUrl?: string | null;
+  embeddingApiKey?: string | null;
+  updatedBy?: string;
+}
+
+// ============================================================================
+// LLM Settings Repository
+// ============================================================================
+
+export class LlmSettingsRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? getPool();
+  }
+
+  async getSettings(tenantSlug: string): Promise<TenantLlmSettings | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM tenant_llm_settings WHERE tenant_slug = $1`,
+      [tenantSlug]
+    );
+    return result.rows[0] ? this.mapRowToSettings(result.rows[0]) : null;
+  }
+
+  async saveSettings(tenantSlug: string, input: SaveTenantLlmSettingsInput): Promise<TenantLlmSettings> {
+    const encrypt = (key: string | null | undefined) => (key ? encryptSecret(key) : key);
+    const result = await this.pool.query(
+      `INSERT INTO tenant_llm_settings (
+         tenant_slug, provider, model, base_url, api_key_encrypted, api_version,
+         embedding_provider, embedding_model, embedding_base_url, embedding_api_key_encrypted, updated_by
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (tenant_slug) DO UPDATE SET
+         provider = EXCLUDED.provider,
+         model = EXCLUDED.model,
+         base_url = EXCLUDED.base_url,
+         api_key_encrypted = CASE WHEN $12 THEN tenant_llm_settings.api_key_encrypted ELSE EXCLUDED.api_key_encrypted END,
+         api_version = EXCLUDED.api_version,
+         embedding_provider = EXCLUDED.embedding_provider,
+         embedding_model = EXCLUDED.embedding_model,
+         embedding_base_url = EXCLUDED.embedding_base_url,
+         embedding_api_key_encrypted = CASE WHEN $13 THEN tenant_llm_settings.embedding_api_key_encrypted ELSE EXCLUDED.embedding_api_key_encrypted END,
+         updated_by = EXCLUDED.updated_by,
+         updated_at = NOW()
+       RETURNING *`,
+      [
+        tenantSlug,
+        input.provider,
+        input.model,
+        input.baseUrl ?? null,
+        encrypt(input.apiKey) ?? null,
+        input.apiVersion ?? null,
+        input.embeddingProvider ?? null,
+        input.embeddingModel ?? null,
+        input.embeddingBaseUrl ?? null,
+        encrypt(input.embeddingApiKey) ?? null,
+        input.updatedBy ?? null,
+        input.apiKey === undefined,
+        input.embeddingApiKey === undefined
+      ]
+    );
+    return this.mapRowToSettings(result.rows[0]);
+  }
+
+  async deleteSettings(tenantSlug: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `DELETE FROM tenant_llm_settings WHERE tenant_slug = $1`,
+      [tenantSlug]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Map database row to TenantLlmSettings object
+   */
+  private mapRowToSettings(row: any): TenantLlmSettings {
+    return {
+      tenantSlug: row.tenant_slug,
+      provider: row.provider,
+      model: row.model,
+      baseUrl: row.base_url ?? undefined,
+      apiKey: row.api_key_encrypted ? decryptSecret(row.api_key_encrypted) : undefined,
+      apiVersion: row.api_version ?? undefined,
+      embeddingProvider: row.embedding_provider ?? undefined,
+      embeddingModel: row.embedding_model ?? undefined,
+      embeddingBaseUrl: row.embedding_base_url ?? undefined,
+      embeddingApiKey: row.embedding_api_key_encrypted ? decryptSecret(row.embedding_api_key_encrypted) : undefined,
+      updatedBy: row.updated_by ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
@@ -0,0 +1,384 @@
+/**
+ * LLM Usage Repository
+ *
+ * Database abstraction layer for LLM usage metering, tenant quotas and the
+ * optional prompt/response audit log.
+ */
+
+import type { Pool } from "pg";
+import { getPool } from "../lib/postgres.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LlmUsageStatus = "success" | "error" | "blocked";
+
+export interface LlmUsageRecord {
+  id: string;
+  tenantSlug?: string;
+  projectSlug?: string;
+  userId?: string;
+  feature: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  tokensEstimated: boolean;
+  costUsd: number | null;
+  latencyMs: number;
+  status: LlmUsageStatus;
+  error?: string;
+  hasAudit: boolean;
+  createdAt: Date;
+}
+
+export interface RecordLlmUsageInput {
+  tenantSlug?: string;
+  projectSlug?: string;
+  userId?: string;
+  feature: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  tokensEstimated: boolean;
+  costUsd: number | null;
+  latencyMs: number;
+  status: LlmUsageStatus;
+  error?: string;
+}
+
+export interface LlmUsageAudit {
+  usageId: string;
+  request: unknown;
+  response: string | null;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  errors: number;
+  blocked: number;
+  avgLatencyMs: number;
+}
+
+export const LLM_USAGE_GROUP_BY = ["tenant", "project", "user", "feature", "model", "day"] as const;
+
+export type LlmUsageGroupBy = typeof LLM_USAGE_GROUP_BY[number];
+
+export interface LlmUsageSummaryRow extends LlmUsageTotals {
+  key: string | null;
+}
+
+export interface LlmUsageFilter {
+  from: Date;
+  to: Date;
+  tenantSlug?: string;
+}
+
+export interface TenantLlmQuota {
+  tenantSlug: string;
+  monthlyTokenSoftLimit: number | null;
+  monthlyTokenHardLimit: number | null;
+  monthlyCostSoftLimitUsd: number | null;
+  monthlyCostHardLimitUsd: number | null;
+  retainPrompts: boolean;
+  retentionDays: number | null;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SaveTenantLlmQuotaInput {
+  monthlyTokenSoftLimit: number | null;
+  monthlyTokenHardLimit: number | null;
+  monthlyCostSoftLimitUsd: number | null;
+  monthlyCostHardLimitUsd: number | null;
+  retainPrompts: boolean;
+  retentionDays: number | null;
+  updatedBy?: string;
+}
+
+// Grouping expressions are chosen from this map, never from user input
+const GROUP_EXPRESSIONS: Record<LlmUsageGroupBy, string> = {
+  tenant: "tenant_slug",
+  project: "tenant_slug || '/' || project_slug",
+  user: "user_id",
+  feature: "feature",
+  model: "provider || ':' || model",
+  day: "to_char(date_trunc('day', created_at), 'YYYY-MM-DD')"
+};
+
+const TOTALS_COLUMNS = `
+  COUNT(*)::int AS calls,
+  COALESCE(SUM(prompt_tokens), 0)::bigint AS prompt_tokens,
+  COALESCE(SUM(completion_tokens), 0)::bigint AS completion_tokens,
+  COALESCE(SUM(cost_usd), 0)::float8 AS cost_usd,
+  COUNT(*) FILTER (WHERE status = 'error')::int AS errors,
+  COUNT(*) FILTER (WHERE status = 'blocked')::int AS blocked,
+  COALESCE(AVG(latency_ms) FILTER (WHERE status = 'success'), 0)::float8 AS avg_latency_ms`;
+
+function numberOrNull(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+// ============================================================================
+// LLM Usage Repository
+// ============================================================================
+
+export class LlmUsageRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? getPool();
+  }
+
+  /**
+   * Record a call, with its prompt and response when the tenant retains them
+   */
+  async recordUsage(
+    input: RecordLlmUsageInput,
+    audit?: { request: unknown; response: string | null; expiresAt: Date }
+  ): Promise<string> {
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      const result = await client.query(
+        `INSERT INTO llm_usage (
+           tenant_slug, project_slug, user_id, feature, provider, model,
+           prompt_tokens, completion_tokens, tokens_estimated, cost_usd, latency_ms, status, error
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+         RETURNING id`,
+        [
+          input.tenantSlug ?? null,
+          input.projectSlug ?? null,
+          input.userId ?? null,
+          input.feature,
+          input.provider,
+          input.model,
+          input.promptTokens,
+          input.completionTokens,
+          input.tokensEstimated,
+          input.costUsd,
+          input.latencyMs,
+          input.status,
+          input.error ?? null
+        ]
+      );
+      const id = result.rows[0].id as string;
+      if (audit) {
+        await client.query(
+          `INSERT INTO llm_usage_audit (usage_id, request, response, expires_at) VALUES ($1, $2, $3, $4)`,
+          [id, JSON.stringify(audit.request), audit.response, audit.expiresAt]
+        );
+      }
+      await client.query("COMMIT");
+      return id;
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Totals for a tenant since the start of the current calendar month (UTC)
+   */
+  async getMonthToDate(tenantSlug: string): Promise<LlmUsageTotals> {
+    const result = await this.pool.query(
+      `SELECT ${TOTALS_COLUMNS}
+       FROM llm_usage
+       WHERE tenant_slug = $1 AND created_at >= date_trunc('month', NOW() AT TIME ZONE 'UTC')`,
+      [tenantSlug]
+    );
+    return this.mapRowToTotals(result.rows[0]);
+  }
+
+  async summarize(filter: LlmUsageFilter, groupBy: LlmUsageGroupBy): Promise<{ totals: LlmUsageTotals; rows: LlmUsageSummaryRow[] }> {
+    const params: unknown[] = [filter.from, filter.to];
+    let where = "created_at >= $1 AND created_at < $2";
+    if (filter.tenantSlug) {
+      params.push(filter.tenantSlug);
+      where += ` AND tenant_slug = $${params.length}`;
+    }
+
+    const [totals, rows] = await Promise.all([
+      this.pool.query(`SELECT ${TOTALS_COLUMNS} FROM llm_usage WHERE ${where}`, params),
+      this.pool.query(
+        `SELECT ${GROUP_EXPRESSIONS[groupBy]} AS key, ${TOTALS_COLUMNS}
+         FROM llm_usage
+         WHERE ${where}
+         GROUP BY 1
+         ORDER BY ${groupBy === "day" ? "1" : "cost_usd DESC, calls DESC"}`,
+        params
+      )
+    ]);
+
+    return {
+      totals: this.mapRowToTotals(totals.rows[0]),
+      rows: rows.rows.map(row => ({ key: row.key ?? null, ...this.mapRowToTotals(row) }))
+    };
+  }
+
+  async listRecords(filter: LlmUsageFilter, limit: number): Promise<LlmUsageRecord[]> {
+    const params: unknown[] = [filter.from, filter.to];
+    let where = "u.created_at >= $1 AND u.created_at < $2";
+    if (filter.tenantSlug) {
+      params.push(filter.tenantSlug);
+      where += ` AND u.tenant_slug = $${params.length}`;
+    }
+    params.push(limit);
+
+    const result = await this.pool.query(
+      `SELECT u.*, (a.usage_id IS NOT NULL) AS has_audit
+       FROM llm_usage u
+       LEFT JOIN llm_usage_audit a ON a.usage_id = u.id
+       WHERE ${where}
+       ORDER BY u.created_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+    return result.rows.map(row => this.mapRowToRecord(row));
+  }
+
+  async getAudit(usageId: string): Promise<LlmUsageAudit | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM llm_usage_audit WHERE usage_id = $1 AND expires_at > NOW()`,
+      [usageId]
+    );
+    const row = result.rows[0];
+    return row
+      ? {
+        usageId: row.usage_id,
+        request: row.request,
+        response: row.response ?? null,
+        createdAt: new Date(row.created_at),
+        expiresAt: new Date(row.expires_at)
+      }
+      : null;
+  }
+
+  /**
+   * Delete retained prompts and responses past their expiry
+   */
+  async purgeExpiredAudit(): Promise<number> {
+    const result = await this.pool.query(`DELETE FROM llm_usage_audit WHERE expires_at <= NOW()`);
+    return result.rowCount ?? 0;
+  }
+
+  async getQuota(tenantSlug: string): Promise<TenantLlmQuota | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM tenant_llm_quotas WHERE tenant_slug = $1`,
+      [tenantSlug]
+    );
+    return result.rows[0] ? this.mapRowToQuota(result.rows[0]) : null;
+  }
+
+  async listQuotas(): Promise<TenantLlmQuota[]> {
+    const result = await this.pool.query(`SELECT * FROM tenant_llm_quotas ORDER BY tenant_slug`);
+    return result.rows.map(row => this.mapRowToQuota(row));
+  }
+
+  async saveQuota(tenantSlug: string, input: SaveTenantLlmQuotaInput): Promise<TenantLlmQuota> {
+    const result = await this.pool.query(
+      `INSERT INTO tenant_llm_quotas (
+         tenant_slug, monthly_token_soft_limit, monthly_token_hard_limit,
+         monthly_cost_soft_limit_usd, monthly_cost_hard_limit_usd, retain_prompts, retention_days, updated_by
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (tenant_slug) DO UPDATE SET
+         monthly_token_soft_limit = EXCLUDED.monthly_token_soft_limit,
+         monthly_token_hard_limit = EXCLUDED.monthly_token_hard_limit,
+         monthly_cost_soft_limit_usd = EXCLUDED.monthly_cost_soft_limit_usd,
+         monthly_cost_hard_limit_usd = EXCLUDED.monthly_cost_hard_limit_usd,
+         retain_prompts = EXCLUDED.retain_prompts,
+         retention_days = EXCLUDED.retention_days,
+         updated_by = EXCLUDED.updated_by,
+         updated_at = NOW()
+       RETURNING *`,
+      [
+        tenantSlug,
+        input.monthlyTokenSoftLimit,
+        input.monthlyTokenHardLimit,
+        input.monthlyCostSoftLimitUsd,
+        input.monthlyCostHardLimitUsd,
+        input.retainPrompts,
+        input.retentionDays,
+        input.updatedBy ?? null
+      ]
+    );
+    return this.mapRowToQuota(result.rows[0]);
+  }
+
+  async deleteQuota(tenantSlug: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `DELETE FROM tenant_llm_quotas WHERE tenant_slug = $1`,
+      [tenantSlug]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Map an aggregate row to LlmUsageTotals
+   */
+  private mapRowToTotals(row: any): LlmUsageTotals {
+    return {
+      calls: Number(row?.calls ?? 0),
+      promptTokens: Number(row?.prompt_tokens ?? 0),
+      completionTokens: Number(row?.completion_tokens ?? 0),
+      costUsd: Number(row?.cost_usd ?? 0),
+      errors: Number(row?.errors ?? 0),
+      blocked: Number(row?.blocked ?? 0),
+      avgLatencyMs: Math.round(Number(row?.avg_latency_ms ?? 0))
+    };
+  }
+
+  /**
+   * Map database row to LlmUsageRecord object
+   */
+  private mapRowToRecord(row: any): LlmUsageRecord {
+    return {
+      id: row.id,
+      tenantSlug: row.tenant_slug ?? undefined,
+      projectSlug: row.project_slug ?? undefined,
+      userId: row.user_id ?? undefined,
+      feature: row.feature,
+      provider: row.provider,
+      model: row.model,
+      promptTokens: row.prompt_tokens,
+      completionTokens: row.completion_tokens,
+      tokensEstimated: row.tokens_estimated,
+      costUsd: numberOrNull(row.cost_usd),
+      latencyMs: row.latency_ms,
+      status: row.status,
+      error: row.error ?? undefined,
+      hasAudit: Boolean(row.has_audit),
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  /**
+   * Map database row to TenantLlmQuota object
+   */
+  private mapRowToQuota(row: any): TenantLlmQuota {
+    return {
+      tenantSlug: row.tenant_slug,
+      monthlyTokenSoftLimit: numberOrNull(row.monthly_token_soft_limit),
+      monthlyTokenHardLimit: numberOrNull(row.monthly_token_hard_limit),
+      monthlyCostSoftLimitUsd: numberOrNull(row.monthly_cost_soft_limit_usd),
+      monthlyCostHardLimitUsd: numberOrNull(row.monthly_cost_hard_limit_usd),
+      retainPrompts: row.retain_prompts,
+      retentionDays: row.retention_days ?? null,
+      updatedBy: row.updated_by ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Notification Repository
+ *
+ * Database abstraction layer for per-user in-app notifications.
+ */
+
+import type { Pool } from "pg";
+import { getPool } from "../lib/postgres.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NotificationType = "mention";
+
+export interface Notification {
+  id: string;
+  userId: string;
+  tenantSlug: string;
+  projectSlug?: string;
+  type: NotificationType;
+  title: string;
+  body?: string;
+  target?: Record<string, unknown>;
+  actorId?: string;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+export interface CreateNotificationInput {
+  userId: string;
+  tenantSlug: string;
+  projectSlug?: string;
+  type: NotificationType;
+  title: string;
+  body?: string;
+  target?: Record<string, unknown>;
+  actorId?: string;
+}
+
+// ============================================================================
+// Notification Repository
+// ============================================================================
+
+export class NotificationRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? getPool();
+  }
+
+  /**
+   * Create one notification per input row
+   */
+  async createNotifications(inputs: CreateNotificationInput[]): Promise<Notification[]> {
+    if (inputs.length === 0) {
+      return [];
+    }
+
+    const values: unknown[] = [];
+    const rows = inputs.map((input, index) => {
+      const offset = index * 8;
+      values.push(
+        input.userId,
+        input.tenantSlug,
+        input.projectSlug ?? null,
+        input.type,
+        input.title,
+        input.body ?? null,
+        input.target ? JSON.stringify(input.target) : null,
+        input.actorId ?? null
+      );
+      return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8})`;
+    });
+
+    const result = await this.pool.query(
+      `INSERT INTO notifications (user_id, tenant_slug, project_slug, type, title, body, target, actor_id)
+       VALUES ${rows.join(", ")}
+       RETURNING *`,
+      values
+    );
+    return result.rows.map(row => this.mapRowToNotification(row));
+  }
+
+  async listForUser(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<Notification[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM notifications
+       WHERE user_id = $1 AND ($2::boolean = false OR read_at IS NULL)
+       ORDER BY created_at DESC
+       LIMIT $3`,
+      [userId, options.unreadOnly ?? false, options.limit ?? 50]
+    );
+    return result.rows.map(row => this.mapRowToNotification(row));
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*)::int AS count FROM notifications WHERE user_id = $1 AND read_at IS NULL`,
+      [userId]
+    );
+    return result.rows[0]?.count ?? 0;
+  }
+
+  /**
+   * Mark notifications read. Without ids, marks all of the user's unread notifications.
+   *
+   * @returns Number of notifications updated
+   */
+  async markRead(userId: string, ids?: string[]): Promise<number> {
+    const result = await this.pool.query(
+      `UPDATE notifications SET read_at = NOW()
+       WHERE user_id = $1 AND read_at IS NULL
+         AND ($2::uuid[] IS NULL OR id = ANY($2::uuid[]))`,
+      [userId, ids ?? null]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Map database row to Notification object
+   */
+  private mapRowToNotification(row: any): Notification {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      tenantSlug: row.tenant_slug,
+      projectSlug: row.project_slug ?? undefined,
+      type: row.type,
+      title: row.title,
+      body: row.body ?? undefined,
+      target: row.target ?? undefined,
+      actorId: row.actor_id ?? undefined,
+      readAt: row.read_at ? new Date(row.read_at) : undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
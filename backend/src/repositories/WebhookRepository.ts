@@ -0,0 +1,313 @@
+/**
+ * Webhook Repository
+ *
+ * Database abstraction layer for webhook subscriptions and deliveries.
+ * The deliveries table is both the delivery log and the retry queue.
+ */
+
+import type { Pool } from "pg";
+import { getPool } from "../lib/postgres.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WebhookDeliveryStatus = "pending" | "sending" | "succeeded" | "failed";
+
+export interface WebhookSubscription {
+  id: string;
+  tenantSlug: string;
+  projectSlug?: string;
+  url: string;
+  secret: string;
+  events: string[];
+  description?: string;
+  active: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWebhookSubscriptionInput {
+  tenantSlug: string;
+  projectSlug?: string;
+  url: string;
+  secret: string;
+  events: string[];
+  description?: string;
+  createdBy?: string;
+}
+
+export interface UpdateWebhookSubscriptionInput {
+  url?: string;
+  secret?: string;
+  events?: string[];
+  description?: string | null;
+  active?: boolean;
+  projectSlug?: string | null;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastAttemptAt?: Date;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  redeliveryOf?: string;
+  createdAt: Date;
+  deliveredAt?: Date;
+}
+
+export interface RecordDeliveryAttemptInput {
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  responseStatus?: number | null;
+  responseBody?: string | null;
+  error?: string | null;
+}
+
+// Deliveries stuck in "sending" this long (e.g. after a crash) are picked up again
+const STALE_SENDING_MINUTES = 5;
+
+// ============================================================================
+// Webhook Repository
+// ============================================================================
+
+export class WebhookRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? getPool();
+  }
+
+  /**
+   * Create a subscription
+   */
+  async createSubscription(input: CreateWebhookSubscriptionInput): Promise<WebhookSubscription> {
+    const result = await this.pool.query(
+      `INSERT INTO webhook_subscriptions (tenant_slug, project_slug, url, secret, events, description, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        input.tenantSlug,
+        input.projectSlug ?? null,
+        input.url,
+        input.secret,
+        input.events,
+        input.description ?? null,
+        input.createdBy ?? null
+      ]
+    );
+    return this.mapRowToSubscription(result.rows[0]);
+  }
+
+  async listSubscriptions(tenantSlug: string): Promise<WebhookSubscription[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM webhook_subscriptions WHERE tenant_slug = $1 ORDER BY created_at`,
+      [tenantSlug]
+    );
+    return result.rows.map(row => this.mapRowToSubscription(row));
+  }
+
+  async getSubscription(tenantSlug: string, id: string): Promise<WebhookSubscription | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM webhook_subscriptions WHERE tenant_slug = $1 AND id = $2`,
+      [tenantSlug, id]
+    );
+    return result.rows[0] ? this.mapRowToSubscription(result.rows[0]) : null;
+  }
+
+  async getSubscriptionById(id: string): Promise<WebhookSubscription | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM webhook_subscriptions WHERE id = $1`,
+      [id]
+    );
+    return result.rows[0] ? this.mapRowToSubscription(result.rows[0]) : null;
+  }
+
+  /**
+   * Active subscriptions that may receive events for a project
+   * (tenant-wide subscriptions plus those scoped to the project)
+   */
+  async listActiveSubscriptionsForProject(tenantSlug: string, projectSlug: string | null): Promise<WebhookSubscription[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM webhook_subscriptions
+       WHERE tenant_slug = $1 AND active = true
+         AND (project_slug IS NULL OR project_slug = $2)`,
+      [tenantSlug, projectSlug]
+    );
+    return result.rows.map(row => this.mapRowToSubscription(row));
+  }
+
+  async updateSubscription(
+    tenantSlug: string,
+    id: string,
+    input: UpdateWebhookSubscriptionInput
+  ): Promise<WebhookSubscription | null> {
+    const columns: Record<string, unknown> = {
+      url: input.url,
+      secret: input.secret,
+      events: input.events,
+      description: input.description,
+      active: input.active,
+      project_slug: input.projectSlug
+    };
+    const entries = Object.entries(columns).filter(([, value]) => value !== undefined);
+    if (entries.length === 0) {
+      return this.getSubscription(tenantSlug, id);
+    }
+
+    const setClause = entries.map(([column], index) => `${column} = $${index + 3}`).join(", ");
+    const result = await this.pool.query(
+      `UPDATE webhook_subscriptions SET ${setClause}, updated_at = NOW()
+       WHERE tenant_slug = $1 AND id = $2
+       RETURNING *`,
+      [tenantSlug, id, ...entries.map(([, value]) => value)]
+    );
+    return result.rows[0] ? this.mapRowToSubscription(result.rows[0]) : null;
+  }
+
+  async deleteSubscription(tenantSlug: string, id: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `DELETE FROM webhook_subscriptions WHERE tenant_slug = $1 AND id = $2`,
+      [tenantSlug, id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Queue one delivery per subscription for an event. Redeliveries are
+   * queued the same way and sent by the dispatcher.
+   */
+  async enqueueDeliveries(
+    subscriptionIds: string[],
+    event: { id: string; type: string; payload: Record<string, unknown> },
+    redeliveryOf?: string
+  ): Promise<WebhookDelivery[]> {
+    if (subscriptionIds.length === 0) {
+      return [];
+    }
+
+    const result = await this.pool.query(
+      `INSERT INTO webhook_deliveries (subscription_id, event_id, event_type, payload, redelivery_of)
+       SELECT subscription_id, $2, $3, $4, $5
+       FROM unnest($1::uuid[]) AS subscription_id
+       RETURNING *`,
+      [subscriptionIds, event.id, event.type, JSON.stringify(event.payload), redeliveryOf ?? null]
+    );
+    return result.rows.map(row => this.mapRowToDelivery(row));
+  }
+
+  async listDeliveries(subscriptionId: string, limit = 50): Promise<WebhookDelivery[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM webhook_deliveries WHERE subscription_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [subscriptionId, limit]
+    );
+    return result.rows.map(row => this.mapRowToDelivery(row));
+  }
+
+  async getDelivery(subscriptionId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM webhook_deliveries WHERE subscription_id = $1 AND id = $2`,
+      [subscriptionId, deliveryId]
+    );
+    return result.rows[0] ? this.mapRowToDelivery(result.rows[0]) : null;
+  }
+
+  /**
+   * Claim due deliveries for sending. SKIP LOCKED lets several API
+   * instances drain the queue without sending the same delivery twice.
+   */
+  async claimDueDeliveries(limit: number): Promise<WebhookDelivery[]> {
+    const result = await this.pool.query(
+      `UPDATE webhook_deliveries SET status = 'sending', last_attempt_at = NOW()
+       WHERE id IN (
+         SELECT id FROM webhook_deliveries
+         WHERE (status = 'pending' AND next_attempt_at <= NOW())
+            OR (status = 'sending' AND last_attempt_at < NOW() - INTERVAL '${STALE_SENDING_MINUTES} minutes')
+         ORDER BY next_attempt_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit]
+    );
+    return result.rows.map(row => this.mapRowToDelivery(row));
+  }
+
+  async recordAttempt(deliveryId: string, input: RecordDeliveryAttemptInput): Promise<void> {
+    await this.pool.query(
+      `UPDATE webhook_deliveries
+       SET status = $2,
+           attempts = $3,
+           next_attempt_at = COALESCE($4, next_attempt_at),
+           last_attempt_at = NOW(),
+           response_status = $5,
+           response_body = $6,
+           error = $7,
+           delivered_at = CASE WHEN $2 = 'succeeded' THEN NOW() ELSE delivered_at END
+       WHERE id = $1`,
+      [
+        deliveryId,
+        input.status,
+        input.attempts,
+        input.nextAttemptAt ?? null,
+        input.responseStatus ?? null,
+        input.responseBody ?? null,
+        input.error ?? null
+      ]
+    );
+  }
+
+  /**
+   * Map database row to WebhookSubscription object
+   */
+  private mapRowToSubscription(row: any): WebhookSubscription {
+    return {
+      id: row.id,
+      tenantSlug: row.tenant_slug,
+      projectSlug: row.project_slug ?? undefined,
+      url: row.url,
+      secret: row.secret,
+      events: row.events ?? [],
+      description: row.description ?? undefined,
+      active: row.active,
+      createdBy: row.created_by ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  /**
+   * Map database row to WebhookDelivery object
+   */
+  private mapRowToDelivery(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      subscriptionId: row.subscription_id,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: new Date(row.next_attempt_at),
+      lastAttemptAt: row.last_attempt_at ? new Date(row.last_attempt_at) : undefined,
+      responseStatus: row.response_status ?? undefined,
+      responseBody: row.response_body ?? undefined,
+      error: row.error ?? undefined,
+      redeliveryOf: row.redelivery_of ?? undefined,
+      createdAt: new Date(row.created_at),
+      deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined
+    };
+  }
+}
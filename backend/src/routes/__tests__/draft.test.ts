@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createTestApp, createTestToken, authenticatedInject } from "../../__tests__/helpers/test-app.js";
+import { testUsers } from "../../__tests__/helpers/test-data.js";
+
+const settingsRepo = {
+  getSettings: vi.fn()
+};
+
+const usageRepo = {
+  getQuota: vi.fn(),
+  getMonthToDate: vi.fn(),
+  recordUsage: vi.fn()
+};
+
+vi.mock("../../repositories/LlmSettingsRepository.js", () => ({
+  LlmSettingsRepository: vi.fn(() => settingsRepo)
+}));
+
+vi.mock("../../repositories/LlmUsageRepository.js", () => ({
+  LlmUsageRepository: vi.fn(() => usageRepo)
+}));
+
+const { config } = await import("../../config.js");
+const { setFakeLlmResponder, __resetLlmProvidersForTests } = await import("../../services/llm-providers/index.js");
+const { default: draftRoutes } = await import("../draft.js");
+
+const mutableConfig = config as unknown as {
+  llm: Record<keyof typeof config.llm, string | number | null>;
+  databaseUrl: string | undefined;
+};
+const originalLlmConfig = { ...config.llm };
+const originalDatabaseUrl = config.databaseUrl;
+
+describe("Draft Routes", () => {
+  let app: Awaited<ReturnType<typeof createTestApp>>;
+  let authToken: string;
+
+  beforeEach(async () => {
+    // The platform default would fail: no request may reach it
+    Object.assign(mutableConfig.llm, originalLlmConfig, { provider: "openai", apiKey: "sk-platform", baseUrl: "http://127.0.0.1:9" });
+    mutableConfig.databaseUrl = "postgres://localhost/airgen";
+    __resetLlmProvidersForTests();
+    settingsRepo.getSettings.mockReset().mockImplementation(async (tenant: string) => tenant === "test-tenant"
+      ? { tenantSlug: "test-tenant", provider: "fake", model: "tenant-model", createdAt: new Date(), updatedAt: new Date() }
+      : null);
+    usageRepo.getQuota.mockReset().mockResolvedValue(null);
+    usageRepo.getMonthToDate.mockReset();
+    usageRepo.recordUsage.mockReset().mockResolvedValue("usage-1");
+    setFakeLlmResponder(() => JSON.stringify({ candidates: ["The rover shall stop within 2 m."] }));
+
+    app = await createTestApp();
+    app.addHook("preHandler", (request, _reply, done) => {
+      request.currentUser = {
+        sub: testUsers.regularUser.sub,
+        email: testUsers.regularUser.email,
+        name: testUsers.regularUser.name,
+        roles: testUsers.regularUser.roles,
+        tenantSlugs: testUsers.regularUser.tenantSlugs,
+        ownedTenantSlugs: testUsers.regularUser.ownedTenantSlugs
+      } as any;
+      done();
+    });
+    await app.register(draftRoutes, { prefix: "/api" });
+    await app.ready();
+    authToken = await createTestToken(app, testUsers.regularUser);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    Object.assign(mutableConfig.llm, originalLlmConfig);
+    mutableConfig.databaseUrl = originalDatabaseUrl;
+    setFakeLlmResponder();
+  });
+
+  describe("POST /api/draft/candidates", () => {
+    it("drafts with the tenant's provider and meters the call to the tenant and project", async () => {
+      const response = await authenticatedInject(app, {
+        method: "POST",
+        url: "/api/draft/candidates",
+        payload: { tenant: "test-tenant", project: "rover", user_input: "The rover needs to stop safely", n: 1 },
+        token: authToken
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).items[0].text).toBe("The rover shall stop within 2 m.");
+      expect(settingsRepo.getSettings).toHaveBeenCalledWith("test-tenant");
+      expect(usageRepo.recordUsage.mock.calls[0][0]).toMatchObject({
+        tenantSlug: "test-tenant",
+        projectSlug: "rover",
+        userId: testUsers.regularUser.sub,
+        feature: "drafting",
+        provider: "fake",
+        model: "tenant-model",
+        status: "success"
+      });
+    });
+
+    it("reports a used-up tenant quota as 429", async () => {
+      usageRepo.getQuota.mockResolvedValue({
+        tenantSlug: "test-tenant",
+        monthlyTokenSoftLimit: null,
+        monthlyTokenHardLimit: 1000,
+        monthlyCostSoftLimitUsd: null,
+        monthlyCostHardLimitUsd: null,
+        retainPrompts: false,
+        retentionDays: null,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+      usageRepo.getMonthToDate.mockResolvedValue({
+        calls: 1, promptTokens: 1000, completionTokens: 0, costUsd: 0, errors: 0, blocked: 0, avgLatencyMs: 0
+      });
+
+      const response = await authenticatedInject(app, {
+        method: "POST",
+        url: "/api/draft/candidates",
+        payload: { tenant: "test-tenant", project: "rover", user_input: "The rover needs to stop safely" },
+        token: authToken
+      });
+
+      expect(response.statusCode).toBe(429);
+      expect(JSON.parse(response.body).error).toBe("Too Many Requests");
+      expect(usageRepo.getQuota).toHaveBeenCalledWith("test-tenant");
+    });
+
+    it("refuses tenants the user cannot access", async () => {
+      const response = await authenticatedInject(app, {
+        method: "POST",
+        url: "/api/draft/candidates",
+        payload: { tenant: "other-tenant", project: "rover", user_input: "The rover needs to stop safely" },
+        token: authToken
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(usageRepo.recordUsage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createTestApp, createTestToken, authenticatedInject } from "../../__tests__/helpers/test-app.js";
+import { testUsers } from "../../__tests__/helpers/test-data.js";
+import llmSettingsRoutes from "../llm-settings-routes.js";
+
+const repo = {
+  getSettings: vi.fn(),
+  saveSettings: vi.fn(async (tenantSlug: string, input: Record<string, unknown>) => ({ tenantSlug, ...input })),
+  deleteSettings: vi.fn()
+};
+
+vi.mock("../../services/llm-providers/index.js", () => ({
+  getLlmSettingsRepository: () => repo,
+  invalidateTenantLlmSettings: vi.fn(),
+  llmChat: vi.fn(),
+  llmEmbed: vi.fn(),
+  resolveLlmSettings: vi.fn(async () => ({ source: "tenant", chat: null, embeddings: null })),
+  LLM_PROVIDER_KINDS: ["openai", "local", "azure", "anthropic", "fake"]
+}));
+
+vi.mock("../../workers/embedding-worker.js", () => ({
+  embeddingWorker: { resetTenantEmbeddings: vi.fn() }
+}));
+
+describe("LLM settings routes", () => {
+  let app: Awaited<ReturnType<typeof createTestApp>>;
+  let authToken: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    app = await createTestApp();
+    app.addHook("preHandler", (request, _reply, done) => {
+      request.currentUser = {
+        sub: testUsers.regularUser.sub,
+        email: testUsers.regularUser.email,
+        name: testUsers.regularUser.name,
+        roles: testUsers.regularUser.roles,
+        tenantSlugs: testUsers.regularUser.tenantSlugs,
+        ownedTenantSlugs: testUsers.regularUser.ownedTenantSlugs,
+        permissions: { tenantPermissions: { "test-tenant": { role: "tenant-admin" } } }
+      } as any;
+      done();
+    });
+    await app.register(llmSettingsRoutes, { prefix: "/api" });
+    await app.ready();
+    authToken = await createTestToken(app, testUsers.regularUser);
+    repo.getSettings.mockResolvedValue({
+      tenantSlug: "test-tenant",
+      provider: "azure",
+      model: "gpt-4o",
+      baseUrl: "https://acme.openai.azure.com",
+      apiKey: "azure-key-1234"
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe("PUT /api/llm/:tenant/settings", () => {
+    it("keeps the stored API key while the provider and base URL are unchanged", async () => {
+      const response = await authenticatedInject(app, {
+        method: "PUT",
+        url: "/api/llm/test-tenant/settings",
+        payload: { provider: "azure", model: "gpt-4o-mini", baseUrl: "https://acme.openai.azure.com" },
+        token: authToken
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(repo.saveSettings).toHaveBeenCalledWith("test-tenant", expect.objectContaining({ apiKey: undefined }));
+    });
+
+    it("does not send the stored API key to a new base URL", async () => {
+      const response = await authenticatedInject(app, {
+        method: "PUT",
+        url: "/api/llm/test-tenant/settings",
+        payload: { provider: "azure", model: "gpt-4o", baseUrl: "https://attacker.example.com" },
+        token: authToken
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toMatch(/requires an API key/);
+      expect(repo.saveSettings).not.toHaveBeenCalled();
+    });
+
+    it("clears the stored key of a keyless provider moved to a new base URL", async () => {
+      repo.getSettings.mockResolvedValue({
+        tenantSlug: "test-tenant",
+        provider: "local",
+        model: "llama3",
+        baseUrl: "http://gpu-1.internal:11434",
+        apiKey: "local-key-1234"
+      });
+
+      const response = await authenticatedInject(app, {
+        method: "PUT",
+        url: "/api/llm/test-tenant/settings",
+        payload: { provider: "local", model: "llama3", baseUrl: "http://gpu-2.internal:11434" },
+        token: authToken
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(repo.saveSettings).toHaveBeenCalledWith("test-tenant", expect.objectContaining({ apiKey: null }));
+    });
+  });
+});
@@ -6,6 +6,12 @@ import registerSysmlRoutes from "../sysml.js";
 
 const ISO_NOW = "2025-01-01T00:00:00.000Z";
 
+const exportedModel = {
+  text: "package Propulsion {\n  part def Engine;\n}\n",
+  counts: { packages: 1, elements: 1, relationships: 0 },
+  warnings: []
+};
+
 vi.mock("../../services/graph.js", () => ({
   getSysmlServiceStatus: vi.fn(() => ({
     ready: false,
@@ -199,7 +205,14 @@ vi.mock("../../services/graph.js", () => ({
     updatedAt: ISO_NOW
   })),
   deleteSysmlPackage: vi.fn(async () => undefined
-  )
+  ),
+  exportSysmlModel: vi.fn(),
+  importSysmlModel: vi.fn(),
+  SysmlTextError: class SysmlTextError extends Error {
+    constructor(public readonly statusCode: number, message: string, public readonly line?: number) {
+      super(message);
+    }
+  }
 }));
 
 const {
@@ -219,7 +232,10 @@ const {
   deleteSysmlDiagram,
   createSysmlPackage,
   updateSysmlPackage,
-  deleteSysmlPackage
+  deleteSysmlPackage,
+  exportSysmlModel,
+  importSysmlModel,
+  SysmlTextError
 } = await import("../../services/graph.js");
 
 describe("SysML routes", () => {
@@ -1075,4 +1091,75 @@ describe("SysML routes", () => {
 
     expect(response.statusCode).toBe(400);
   });
+
+  it("exports the model as SysML v2 text", async () => {
+    vi.mocked(exportSysmlModel).mockResolvedValue(exportedModel);
+
+    const response = await authenticatedInject(app, {
+      method: "GET",
+      url: "/api/sysml/test-tenant/test-project/export",
+      token: authToken
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.text).toContain("part def Engine;");
+    expect(body.counts).toEqual({ packages: 1, elements: 1, relationships: 0 });
+    expect(exportSysmlModel).toHaveBeenCalledWith({ tenant: "test-tenant", projectKey: "test-project" });
+  });
+
+  it("downloads the exported model as a .sysml file", async () => {
+    vi.mocked(exportSysmlModel).mockResolvedValue(exportedModel);
+
+    const response = await authenticatedInject(app, {
+      method: "GET",
+      url: "/api/sysml/test-tenant/test-project/export?download=true",
+      token: authToken
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers["content-disposition"]).toBe('attachment; filename="test-project.sysml"');
+    expect(response.body).toContain("package Propulsion {");
+  });
+
+  it("imports SysML v2 text as a dry run by default", async () => {
+    vi.mocked(importSysmlModel).mockResolvedValue({
+      dryRun: true,
+      summary: { create: 1, update: 0, unchanged: 0, skip: 0 },
+      changes: [{ entity: "element", action: "create", name: "Propulsion::Engine", elementType: "block", line: 1 }],
+      warnings: []
+    });
+
+    const response = await authenticatedInject(app, {
+      method: "POST",
+      url: "/api/sysml/test-tenant/test-project/import",
+      token: authToken,
+      payload: { text: "package Propulsion { part def Engine; }" }
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.dryRun).toBe(true);
+    expect(body.summary.create).toBe(1);
+    expect(importSysmlModel).toHaveBeenCalledWith({
+      tenant: "test-tenant",
+      projectKey: "test-project",
+      text: "package Propulsion { part def Engine; }",
+      dryRun: true
+    });
+  });
+
+  it("returns 400 with the line number for unparseable SysML text", async () => {
+    vi.mocked(importSysmlModel).mockRejectedValueOnce(new SysmlTextError(400, "Line 1: expected '}'", 1));
+
+    const response = await authenticatedInject(app, {
+      method: "POST",
+      url: "/api/sysml/test-tenant/test-project/import",
+      token: authToken,
+      payload: { text: "package Propulsion {", dryRun: false }
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body)).toEqual({ error: "Line 1: expected '}'", line: 1 });
+  });
 });
@@ -33,6 +33,7 @@ import {
   getArchitectureConnectors
 } from "../services/graph.js";
 import { slugify } from "../services/workspace.js";
+import { LlmQuotaExceededError } from "../services/llm-providers/index.js";
 import { extractDocumentContent } from "../services/document-content.js";
 import { extractDiagramContent } from "../services/diagram-content.js";
 
@@ -136,6 +137,7 @@ export default async function airgenRoutes(app: FastifyInstance) {
 
     const tenantSlug = slugify(body.tenant);
     const projectSlug = slugify(body.projectKey);
+    const caller = { tenant: tenantSlug, project: projectSlug, userId: req.currentUser?.sub };
 
     // Process document attachments
     if (body.attachedDocuments && body.attachedDocuments.length > 0) {
@@ -198,7 +200,8 @@ export default async function airgenRoutes(app: FastifyInstance) {
           mode: diagramAction,
           existingDiagramContext: documentContext || undefined,
           documentContext: documentContext || undefined,
-          imageAttachments: imageAttachments.length > 0 ? imageAttachments : undefined
+          imageAttachments: imageAttachments.length > 0 ? imageAttachments : undefined,
+          caller
         });
 
         // Create a diagram candidate record in the database
@@ -223,6 +226,9 @@ export default async function airgenRoutes(app: FastifyInstance) {
           candidate: diagramCandidate
         };
       } catch (error) {
+        if (error instanceof LlmQuotaExceededError) {
+          return reply.status(429).send({ error: "Too Many Requests", message: error.message });
+        }
         req.log.error({ err: error }, "Failed to generate diagram candidate");
         return reply.status(502).send({
           error: "Bad Gateway",
@@ -241,9 +247,13 @@ export default async function airgenRoutes(app: FastifyInstance) {
         constraints: body.constraints,
         n: body.n,
         documentContext: documentContext || undefined,
-        imageAttachments: imageAttachments.length > 0 ? imageAttachments : undefined
+        imageAttachments: imageAttachments.length > 0 ? imageAttachments : undefined,
+        caller
       });
     } catch (error) {
+      if (error instanceof LlmQuotaExceededError) {
+        return reply.status(429).send({ error: "Too Many Requests", message: error.message });
+      }
       req.log.error({ err: error }, "Failed to draft candidates");
       return reply.status(502).send({
         error: "Bad Gateway",
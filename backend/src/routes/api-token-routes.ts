@@ -0,0 +1,72 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { API_TOKEN_SCOPES, API_TOKEN_SCOPE_DESCRIPTIONS } from "../lib/api-tokens.js";
+import {
+  createPersonalAccessToken,
+  listPersonalAccessTokens,
+  revokePersonalAccessToken
+} from "../services/api-tokens.js";
+
+export const createApiTokenSchema = z.object({
+  name: z.string().min(1).max(255),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1),
+  projects: z.array(z.string().regex(/^[^/]+\/[^/]+$/, "Expected \"tenant/project\"")).optional(),
+  expiresInDays: z.number().int().min(1).max(366).optional()
+});
+
+/**
+ * Personal access token routes
+ *
+ * Users create tokens for the CLI, MCP server and scripts. The plain token
+ * is returned once on creation; listings only show its prefix.
+ */
+export default async function registerApiTokenRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/tokens/scopes", {
+    onRequest: [app.authenticate],
+    schema: { tags: ["tokens"], summary: "List API token scopes" }
+  }, async () => {
+    return {
+      scopes: API_TOKEN_SCOPES.map(scope => ({ scope, description: API_TOKEN_SCOPE_DESCRIPTIONS[scope] }))
+    };
+  });
+
+  app.get("/tokens", {
+    onRequest: [app.authenticate],
+    schema: { tags: ["tokens"], summary: "List my personal access tokens" }
+  }, async (req) => {
+    const tokens = await listPersonalAccessTokens(req.currentUser!.sub);
+    return { tokens };
+  });
+
+  app.post("/tokens", {
+    onRequest: [app.authenticate],
+    schema: {
+      tags: ["tokens"],
+      summary: "Create a personal access token",
+      description: "The token acts as the current user, limited by its scopes and projects. It is returned once."
+    }
+  }, async (req, reply) => {
+    const body = createApiTokenSchema.parse(req.body);
+    try {
+      const { token, record } = await createPersonalAccessToken(req.currentUser!.sub, body);
+      return reply.status(201).send({ token: record, secret: token });
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith("Invalid")) {
+        return reply.status(400).send({ error: error.message });
+      }
+      throw error;
+    }
+  });
+
+  app.delete("/tokens/:tokenId", {
+    onRequest: [app.authenticate],
+    schema: { tags: ["tokens"], summary: "Revoke a personal access token" }
+  }, async (req, reply) => {
+    const { tokenId } = z.object({ tokenId: z.string().uuid() }).parse(req.params);
+    const revoked = await revokePersonalAccessToken(req.currentUser!.sub, tokenId);
+    if (!revoked) {
+      return reply.status(404).send({ error: "Token not found" });
+    }
+    return { success: true };
+  });
+}
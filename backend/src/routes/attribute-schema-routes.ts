@@ -0,0 +1,71 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import {
+  ATTRIBUTE_FIELD_TYPES,
+  getAttributeSchema,
+  saveAttributeSchema
+} from "../services/graph.js";
+import { createRequireProjectAdminMiddleware, verifyTenantAccessHook } from "../lib/authorization.js";
+
+const attributeValueSchema = z.union([z.string(), z.number(), z.boolean(), z.array(z.string()), z.null()]);
+
+const attributeFieldSchema = z.object({
+  key: z.string().min(1).max(100),
+  label: z.string().max(200).default(""),
+  type: z.enum(ATTRIBUTE_FIELD_TYPES),
+  description: z.string().max(1000).optional(),
+  required: z.boolean().default(false),
+  options: z.array(z.string().min(1)).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  defaultValue: attributeValueSchema.optional()
+});
+
+/**
+ * Project attribute schema routes
+ *
+ * The schema types and constrains the custom attributes on a project's
+ * requirements; project admins maintain it.
+ */
+export default async function registerAttributeSchemaRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/attribute-schema/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["requirements"],
+      summary: "Get the project's attribute schema",
+      description: "Returns the custom attribute field definitions (null when the project has none)"
+    }
+  }, async (req) => {
+    const params = z.object({ tenant: z.string(), project: z.string() }).parse(req.params);
+    const schema = await getAttributeSchema(params.tenant, params.project);
+    return { schema };
+  });
+
+  app.put("/attribute-schema/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [createRequireProjectAdminMiddleware()],
+    schema: {
+      tags: ["requirements"],
+      summary: "Replace the project's attribute schema",
+      description: "Validates the field definitions and stores them as the project's attribute schema"
+    }
+  }, async (req, reply) => {
+    const params = z.object({ tenant: z.string(), project: z.string() }).parse(req.params);
+    const { fields } = z.object({ fields: z.array(attributeFieldSchema).max(200) }).parse(req.body);
+
+    try {
+      const schema = await saveAttributeSchema({
+        tenant: params.tenant,
+        projectKey: params.project,
+        fields,
+        userId: req.currentUser!.sub
+      });
+      return { schema };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes("not found")) return reply.status(404).send({ error: msg });
+      throw error;
+    }
+  });
+}
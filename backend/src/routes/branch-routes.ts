@@ -0,0 +1,163 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import {
+  BranchMergeConflictError,
+  compareBranch,
+  createBranch,
+  getBranch,
+  listBranches,
+  mergeBranch
+} from "../services/graph.js";
+import { verifyTenantAccessHook } from "../lib/authorization.js";
+
+const projectParamsSchema = z.object({
+  tenant: z.string().min(1),
+  project: z.string().min(1)
+});
+
+const branchParamsSchema = projectParamsSchema.extend({
+  branch: z.string().min(1)
+});
+
+const createBranchSchema = z.object({
+  slug: z.string().min(1).max(100),
+  name: z.string().max(200).optional(),
+  description: z.string().max(2000).optional(),
+  baselineRef: z.string().min(1).optional(),
+  documentSlugs: z.array(z.string().min(1)).optional()
+});
+
+const mergeBranchSchema = z.object({
+  requirementIds: z.array(z.string().min(1)).optional(),
+  resolveWithBranch: z.array(z.string().min(1)).optional(),
+  dryRun: z.boolean().default(true)
+});
+
+/**
+ * Branch routes
+ *
+ * A branch is a working copy of a project (or some of its documents) forked
+ * from a baseline. It is edited like any other project, compared with its
+ * source project, and requirement changes are merged back selectively.
+ */
+export default async function registerBranchRoutes(app: FastifyInstance): Promise<void> {
+  /** Resolve a branch and check that it was forked from the project in the URL */
+  async function loadBranch(params: z.infer<typeof branchParamsSchema>) {
+    const branch = await getBranch(params.tenant, params.branch);
+    if (branch.sourceProject !== params.project) {
+      return null;
+    }
+    return branch;
+  }
+
+  app.get("/branches/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["branches"],
+      summary: "List branches",
+      description: "Branches forked from the project, newest first",
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (req) => {
+    const params = projectParamsSchema.parse(req.params);
+    const branches = await listBranches(params.tenant, params.project);
+    return { branches };
+  });
+
+  app.post("/branches/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["branches"],
+      summary: "Create a branch",
+      description: "Forks the project, or the listed documents, from a baseline (default HEAD) into a new project that shares its history",
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: "object",
+        required: ["slug"],
+        properties: {
+          slug: { type: "string", description: "Project slug of the branch" },
+          name: { type: "string" },
+          description: { type: "string" },
+          baselineRef: { type: "string", description: "Baseline to fork from (default HEAD)" },
+          documentSlugs: { type: "array", items: { type: "string" }, description: "Fork only these documents" }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const params = projectParamsSchema.parse(req.params);
+    const body = createBranchSchema.parse(req.body);
+
+    try {
+      const result = await createBranch({
+        tenant: params.tenant,
+        projectKey: params.project,
+        ...body,
+        userId: req.currentUser?.email ?? "system"
+      });
+      return reply.status(201).send(result);
+    } catch (error: any) {
+      if (error.message?.includes("not found")) {
+        return reply.status(404).send({ error: error.message });
+      }
+      throw error;
+    }
+  });
+
+  app.get("/branches/:tenant/:project/:branch/compare", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["branches"],
+      summary: "Compare a branch with its project",
+      description: "Baseline comparison of the project's current state (from) against the branch (to) in project IDs, with the merge status of each branch requirement",
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (req, reply) => {
+    const params = branchParamsSchema.parse(req.params);
+    if (!(await loadBranch(params))) {
+      return reply.status(404).send({ error: `Branch not found: ${params.branch}` });
+    }
+    return compareBranch(params.tenant, params.branch);
+  });
+
+  app.post("/branches/:tenant/:project/:branch/merge", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["branches"],
+      summary: "Merge a branch into its project",
+      description: "Merges requirement changes from the branch. Conflicts are detected on contentHash; a merge with unresolved conflicts fails with 409 and lists them. With dryRun (the default) only the plan is returned.",
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: "object",
+        properties: {
+          requirementIds: { type: "array", items: { type: "string" }, description: "Branch requirement IDs to merge (default: all)" },
+          resolveWithBranch: { type: "array", items: { type: "string" }, description: "Conflicting branch requirement IDs where the branch wins" },
+          dryRun: { type: "boolean", default: true, description: "Only compute the plan" }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const params = branchParamsSchema.parse(req.params);
+    const body = mergeBranchSchema.parse(req.body ?? {});
+    if (!(await loadBranch(params))) {
+      return reply.status(404).send({ error: `Branch not found: ${params.branch}` });
+    }
+
+    try {
+      return await mergeBranch({
+        tenant: params.tenant,
+        branch: params.branch,
+        ...body,
+        userId: req.currentUser?.email ?? "system"
+      });
+    } catch (error) {
+      if (error instanceof BranchMergeConflictError) {
+        return reply.status(409).send({ error: error.message, conflicts: error.conflicts });
+      }
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,161 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import {
+  addChangeRequestComment,
+  createChangeRequest,
+  getChangeRequest,
+  listChangeRequests,
+  reviewChangeRequest,
+  withdrawChangeRequest
+} from "../services/graph.js";
+import { hasMinimumRoleInContext, verifyTenantAccessHook, type AuthUser } from "../lib/authorization.js";
+import { UserRole } from "../types/roles.js";
+import { requirementUpdateSchema } from "../schemas/requirements.js";
+
+const projectParamsSchema = z.object({
+  tenant: z.string().min(1),
+  project: z.string().min(1)
+});
+
+const changeRequestParamsSchema = projectParamsSchema.extend({
+  id: z.string().min(1)
+});
+
+const createChangeRequestSchema = z.object({
+  requirementId: z.string().min(1),
+  title: z.string().min(1).max(200),
+  description: z.string().max(5000).optional(),
+  changes: requirementUpdateSchema.omit({ sectionId: true })
+});
+
+/**
+ * Requirement change request routes
+ *
+ * Proposed edits are held as pending change requests until every named
+ * reviewer (or, without named reviewers, one project approver) approves.
+ */
+export default async function registerChangeRequestRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/change-requests/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["change-requests"],
+      summary: "List change requests",
+      description: "Filter by status, requirement, document or reviewer (use reviewer=me for your own queue)"
+    }
+  }, async (req) => {
+    const params = projectParamsSchema.parse(req.params);
+    const query = z.object({
+      status: z.enum(["pending", "approved", "rejected", "withdrawn"]).optional(),
+      requirementId: z.string().optional(),
+      documentSlug: z.string().optional(),
+      reviewer: z.string().optional()
+    }).parse(req.query);
+
+    const changeRequests = await listChangeRequests(params.tenant, params.project, {
+      ...query,
+      reviewer: query.reviewer === "me" ? req.currentUser!.sub : query.reviewer
+    });
+    return { changeRequests };
+  });
+
+  app.post("/change-requests/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["change-requests"],
+      summary: "Propose a requirement change",
+      description: "Opens a pending change request routed to the document's reviewers"
+    }
+  }, async (req, reply) => {
+    const params = projectParamsSchema.parse(req.params);
+    const body = createChangeRequestSchema.parse(req.body);
+
+    const changeRequest = await createChangeRequest(params.tenant, params.project, {
+      ...body,
+      proposedBy: req.currentUser!.sub
+    });
+    return reply.status(201).send({ changeRequest });
+  });
+
+  app.get("/change-requests/:tenant/:project/:id", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["change-requests"],
+      summary: "Get a change request with its reviews and comments"
+    }
+  }, async (req, reply) => {
+    const params = changeRequestParamsSchema.parse(req.params);
+
+    const changeRequest = await getChangeRequest(params.tenant, params.project, params.id);
+    if (!changeRequest) {
+      return reply.status(404).send({ error: "Change request not found" });
+    }
+    return { changeRequest };
+  });
+
+  app.post("/change-requests/:tenant/:project/:id/comments", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["change-requests"],
+      summary: "Comment on a change request"
+    }
+  }, async (req, reply) => {
+    const params = changeRequestParamsSchema.parse(req.params);
+    const body = z.object({ text: z.string().min(1).max(5000) }).parse(req.body);
+
+    const changeRequest = await addChangeRequestComment(
+      params.tenant,
+      params.project,
+      params.id,
+      req.currentUser!.sub,
+      body.text
+    );
+    return reply.status(201).send({ changeRequest });
+  });
+
+  app.post("/change-requests/:tenant/:project/:id/review", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["change-requests"],
+      summary: "Approve or reject a change request",
+      description: "The final required approval applies the change and records the approval on the new requirement version"
+    }
+  }, async (req) => {
+    const params = changeRequestParamsSchema.parse(req.params);
+    const body = z.object({
+      decision: z.enum(["approve", "reject"]),
+      comment: z.string().max(5000).optional()
+    }).parse(req.body);
+
+    const changeRequest = await reviewChangeRequest(params.tenant, params.project, params.id, {
+      reviewer: req.currentUser!.sub,
+      decision: body.decision,
+      comment: body.comment,
+      isProjectApprover: hasMinimumRoleInContext(
+        req.currentUser as AuthUser,
+        UserRole.APPROVER,
+        params.tenant,
+        params.project
+      )
+    });
+    return { changeRequest };
+  });
+
+  app.post("/change-requests/:tenant/:project/:id/withdraw", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["change-requests"],
+      summary: "Withdraw your own pending change request"
+    }
+  }, async (req) => {
+    const params = changeRequestParamsSchema.parse(req.params);
+
+    const changeRequest = await withdrawChangeRequest(params.tenant, params.project, params.id, req.currentUser!.sub);
+    return { changeRequest };
+  });
+}
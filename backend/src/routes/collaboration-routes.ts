@@ -0,0 +1,79 @@
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+import type { FastifyInstance } from "fastify";
+import { acceptWebSocket, rejectWebSocketUpgrade } from "../lib/websocket.js";
+import { hasTenantAccess, type AuthUser } from "../lib/authorization.js";
+import { normalizeUser } from "../plugins/auth/normalize-user.js";
+import type { JwtPayload } from "../plugins/auth/types.js";
+import { collaborationActor, collaborationHub, documentRoomKey } from "../services/collaboration.js";
+
+const DOCUMENT_CHANNEL_PATH = /^(?:\/api)?\/collab\/documents\/([^/]+)\/([^/]+)\/([^/]+)$/;
+const SWEEP_INTERVAL_MS = 30_000;
+
+/**
+ * Document collaboration channel
+ *
+ * WebSocket endpoint: /api/collab/documents/:tenant/:project/:documentSlug?token=<access token>
+ *
+ * Browsers cannot set headers on WebSocket requests, so the access token is
+ * passed as a query parameter. API tokens are not accepted.
+ */
+export default async function registerCollaborationRoutes(app: FastifyInstance): Promise<void> {
+  const sweep = setInterval(() => collaborationHub.sweep(), SWEEP_INTERVAL_MS);
+  sweep.unref();
+
+  app.addHook("onClose", async () => {
+    clearInterval(sweep);
+    collaborationHub.closeAll();
+  });
+
+  app.server.on("upgrade", (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    try {
+      handleUpgrade(app, request, socket, head);
+    } catch (error) {
+      app.log.error({ err: error }, "Collaboration upgrade failed");
+      rejectWebSocketUpgrade(socket, 500, "Internal Server Error");
+    }
+  });
+}
+
+function handleUpgrade(
+  app: FastifyInstance,
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer
+): void {
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const match = DOCUMENT_CHANNEL_PATH.exec(url.pathname);
+  if (!match) {
+    rejectWebSocketUpgrade(socket, 404, "Not Found");
+    return;
+  }
+  const [tenant, project, documentSlug] = match.slice(1).map(decodeURIComponent);
+
+  const token = url.searchParams.get("token");
+  let user;
+  try {
+    user = token ? normalizeUser(app.jwt.verify<JwtPayload>(token)) : null;
+  } catch {
+    user = null;
+  }
+  if (!user) {
+    rejectWebSocketUpgrade(socket, 401, "Unauthorized");
+    return;
+  }
+  if (!hasTenantAccess(user as AuthUser, tenant)) {
+    rejectWebSocketUpgrade(socket, 403, "Forbidden");
+    return;
+  }
+
+  const connection = acceptWebSocket(request, socket, head);
+  if (!connection) {
+    return;
+  }
+
+  const roomKey = documentRoomKey(tenant, project, documentSlug);
+  const connectionId = collaborationHub.join(roomKey, collaborationActor(user)!, connection);
+  connection.on("message", (message: string) => collaborationHub.handleMessage(roomKey, connectionId, message));
+  connection.on("close", () => collaborationHub.leave(roomKey, connectionId));
+}
@@ -0,0 +1,195 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import {
+  COMMENT_TARGET_TYPES,
+  createComment,
+  deleteComment,
+  getCommentCounts,
+  listCommentThreads,
+  setCommentThreadResolved,
+  updateComment
+} from "../services/graph.js";
+import { listMentionableUsers, notifyMentionedUsers, resolveMentions } from "../services/comment-mentions.js";
+import { hasMinimumRoleInContext, verifyTenantAccessHook, type AuthUser } from "../lib/authorization.js";
+import { UserRole } from "../types/roles.js";
+
+const projectParamsSchema = z.object({
+  tenant: z.string().min(1),
+  project: z.string().min(1)
+});
+
+const commentParamsSchema = projectParamsSchema.extend({
+  commentId: z.string().min(1)
+});
+
+const commentBodySchema = z.string().trim().min(1).max(10000);
+
+const createCommentSchema = z.object({
+  targetType: z.enum(COMMENT_TARGET_TYPES),
+  targetId: z.string().min(1),
+  parentId: z.string().min(1).optional(),
+  body: commentBodySchema
+});
+
+function actorOf(user: AuthUser): { id: string; name: string } {
+  return { id: user.sub, name: user.name || user.email };
+}
+
+/**
+ * Comment routes
+ *
+ * Threaded discussions on requirements, document sections and trace links.
+ * Mentioning a project member as @email notifies them in-app and by email.
+ */
+export default async function registerCommentRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/comments/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["comments"],
+      summary: "List comment threads",
+      description: "Filter by target (targetType + targetId) or by document to export a document's discussions"
+    }
+  }, async (req) => {
+    const params = projectParamsSchema.parse(req.params);
+    const query = z.object({
+      targetType: z.enum(COMMENT_TARGET_TYPES).optional(),
+      targetId: z.string().optional(),
+      documentSlug: z.string().optional(),
+      includeResolved: z.enum(["true", "false"]).optional()
+    }).parse(req.query);
+
+    const threads = await listCommentThreads(params.tenant, params.project, {
+      targetType: query.targetType,
+      targetId: query.targetId,
+      documentSlug: query.documentSlug,
+      includeResolved: query.includeResolved !== "false"
+    });
+    return { threads };
+  });
+
+  app.get("/comments/:tenant/:project/counts", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["comments"],
+      summary: "Comment counts per target",
+      description: "Total comments and open threads keyed by target id"
+    }
+  }, async (req) => {
+    const params = projectParamsSchema.parse(req.params);
+    const query = z.object({
+      targetType: z.enum(COMMENT_TARGET_TYPES).default("requirement"),
+      documentSlug: z.string().optional()
+    }).parse(req.query);
+
+    const counts = await getCommentCounts(params.tenant, params.project, query);
+    return { counts };
+  });
+
+  app.get("/comments/:tenant/:project/mentionable-users", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["comments"],
+      summary: "List users who can be @mentioned in the project"
+    }
+  }, async (req) => {
+    const params = projectParamsSchema.parse(req.params);
+    const users = await listMentionableUsers(params.tenant, params.project);
+    return { users };
+  });
+
+  app.post("/comments/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["comments"],
+      summary: "Start a thread or reply to one",
+      description: "Pass parentId to reply. Mentioned users are notified."
+    }
+  }, async (req, reply) => {
+    const params = projectParamsSchema.parse(req.params);
+    const body = createCommentSchema.parse(req.body);
+    const user = req.currentUser as AuthUser;
+
+    const mentioned = await resolveMentions(params.tenant, params.project, body.body);
+    const comment = await createComment(params.tenant, params.project, {
+      ...body,
+      authorId: user.sub,
+      mentions: mentioned.map(mentionedUser => mentionedUser.id)
+    });
+
+    void notifyMentionedUsers(comment, mentioned, actorOf(user));
+    return reply.status(201).send({ comment });
+  });
+
+  app.patch("/comments/:tenant/:project/:commentId", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["comments"],
+      summary: "Edit your own comment",
+      description: "Only users newly mentioned by the edit are notified"
+    }
+  }, async (req) => {
+    const params = commentParamsSchema.parse(req.params);
+    const body = z.object({ body: commentBodySchema }).parse(req.body);
+    const user = req.currentUser as AuthUser;
+
+    const mentioned = await resolveMentions(params.tenant, params.project, body.body);
+    const { comment, previousMentions } = await updateComment(params.tenant, params.project, params.commentId, {
+      authorId: user.sub,
+      body: body.body,
+      mentions: mentioned.map(mentionedUser => mentionedUser.id)
+    });
+
+    const alreadyNotified = new Set(previousMentions);
+    void notifyMentionedUsers(
+      comment,
+      mentioned.filter(mentionedUser => !alreadyNotified.has(mentionedUser.id)),
+      actorOf(user)
+    );
+    return { comment };
+  });
+
+  app.delete("/comments/:tenant/:project/:commentId", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["comments"],
+      summary: "Delete a comment",
+      description: "Authors can delete their own comments; project admins can delete any"
+    }
+  }, async (req, reply) => {
+    const params = commentParamsSchema.parse(req.params);
+    const user = req.currentUser as AuthUser;
+
+    await deleteComment(params.tenant, params.project, params.commentId, {
+      userId: user.sub,
+      canModerate: hasMinimumRoleInContext(user, UserRole.ADMIN, params.tenant, params.project)
+    });
+    return reply.status(204).send();
+  });
+
+  app.post("/comments/:tenant/:project/:commentId/resolve", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["comments"],
+      summary: "Resolve or reopen a comment thread",
+      description: "Allowed for the thread's author, the document's reviewers and project approvers"
+    }
+  }, async (req) => {
+    const params = commentParamsSchema.parse(req.params);
+    const body = z.object({ resolved: z.boolean() }).parse(req.body);
+    const user = req.currentUser as AuthUser;
+
+    const thread = await setCommentThreadResolved(params.tenant, params.project, params.commentId, {
+      resolved: body.resolved,
+      userId: user.sub,
+      canModerate: hasMinimumRoleInContext(user, UserRole.APPROVER, params.tenant, params.project)
+    });
+    return { thread };
+  });
+}
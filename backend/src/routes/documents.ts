@@ -3,6 +3,7 @@ import { registerDocumentRoutes as setupDocumentCrudRoutes } from "./documents/r
 import { registerFolderRoutes } from "./documents/routes/folder-routes.js";
 import { registerSectionRoutes } from "./documents/routes/section-routes.js";
 import { registerSectionContentRoutes } from "./documents/routes/section-content-routes.js";
+import { registerReqIFRoutes } from "./documents/routes/reqif-routes.js";
 
 export default async function registerDocumentRoutes(app: FastifyInstance): Promise<void> {
   // Register document CRUD routes
@@ -16,4 +17,7 @@ export default async function registerDocumentRoutes(app: FastifyInstance): Prom
 
   // Register section content routes (listings, creation, reordering)
   await registerSectionContentRoutes(app);
+
+  // Register ReqIF import/export routes
+  await registerReqIFRoutes(app);
 }
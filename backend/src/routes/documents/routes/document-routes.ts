@@ -9,15 +9,28 @@ import {
   getDocument,
   updateDocument,
   updateDocumentFolder,
-  softDeleteDocument
+  updateDocumentReview,
+  softDeleteDocument,
+  saveDocumentRefScheme,
+  renumberDocument,
+  RefSchemeError,
+  DOCUMENT_REVIEW_STATUSES
 } from "../../../services/graph.js";
+import { REF_COUNTER_SCOPES } from "../../../lib/ref-templates.js";
 import { config } from "../../../config.js";
 import { slugify } from "../../../services/workspace.js";
+import { collaborationActor, collaborationHub } from "../../../services/collaboration.js";
 import { tryGeneratePreviewPdf } from "../helpers/file-upload-helpers.js";
 import { parseMultipartFormData } from "../helpers/multipart-parser.js";
 import { buildDownloadUrl, buildPreviewUrl } from "../helpers/document-url-builders.js";
 import { ensureUniqueDocumentSlug } from "../helpers/slug-helpers.js";
-import { requireTenantAccess, verifyTenantAccessHook, verifyTenantAccessFromBodyHook, type AuthUser } from "../../../lib/authorization.js";
+import {
+  createRequireProjectAdminMiddleware,
+  requireTenantAccess,
+  verifyTenantAccessHook,
+  verifyTenantAccessFromBodyHook,
+  type AuthUser
+} from "../../../lib/authorization.js";
 
 const documentSchema = z.object({
   tenant: z.string().min(1),
@@ -28,6 +41,13 @@ const documentSchema = z.object({
   parentFolder: z.string().optional()
 });
 
+const refSchemeSchema = z.object({
+  template: z.string().min(1).max(100),
+  start: z.number().int().min(0).default(1),
+  step: z.number().int().min(1).default(1),
+  counter: z.enum(REF_COUNTER_SCOPES).default("document")
+});
+
 const surrogateUploadFieldsSchema = z.object({
   tenant: z.string().min(1),
   projectKey: z.string().min(1),
@@ -863,6 +883,14 @@ export async function registerDocumentRoutes(app: FastifyInstance): Promise<void
 
     if (!document) {return reply.status(404).send({ error: "Document not found" });}
 
+    collaborationHub.publish(
+      params.tenant,
+      params.project,
+      params.documentSlug,
+      { entity: "document", action: "updated" },
+      collaborationActor(req.currentUser)
+    );
+
     const documentWithDownload = {
       ...document,
       downloadUrl:
@@ -878,6 +906,129 @@ export async function registerDocumentRoutes(app: FastifyInstance): Promise<void
     return { document: documentWithDownload };
   });
 
+  // Update document review status and reviewers
+  app.put("/documents/:tenant/:project/:documentSlug/review", {
+    onRequest: [app.authenticate],
+    preHandler: [createRequireProjectAdminMiddleware()],
+    schema: {
+      tags: ["documents"],
+      summary: "Update document review status",
+      description: "Sets the review status and named reviewers. Approved documents are locked: requirement edits must go through change requests."
+    }
+  }, async (req, reply) => {
+    const params = z.object({
+      tenant: z.string().min(1),
+      project: z.string().min(1),
+      documentSlug: z.string().min(1)
+    }).parse(req.params);
+    const body = z.object({
+      reviewStatus: z.enum(DOCUMENT_REVIEW_STATUSES).optional(),
+      reviewers: z.array(z.string().min(1)).optional()
+    }).parse(req.body);
+
+    const document = await updateDocumentReview(
+      params.tenant,
+      params.project,
+      params.documentSlug,
+      body,
+      req.currentUser!.sub
+    );
+    if (!document) {return reply.status(404).send({ error: "Document not found" });}
+
+    return { document };
+  });
+
+  // Set or clear the document's requirement numbering scheme
+  app.put("/documents/:tenant/:project/:documentSlug/ref-scheme", {
+    onRequest: [app.authenticate],
+    preHandler: [createRequireProjectAdminMiddleware()],
+    schema: {
+      tags: ["documents"],
+      summary: "Set the requirement numbering scheme",
+      description: "Sets the ref template for new requirements in the document, with tokens {doc}, {section} and {n} or {n:width}. Send scheme null to go back to default refs. Existing refs change only when the document is renumbered."
+    }
+  }, async (req, reply) => {
+    const params = z.object({
+      tenant: z.string().min(1),
+      project: z.string().min(1),
+      documentSlug: z.string().min(1)
+    }).parse(req.params);
+    const body = z.object({ scheme: refSchemeSchema.nullable() }).parse(req.body);
+
+    try {
+      const scheme = await saveDocumentRefScheme({
+        tenant: params.tenant,
+        projectKey: params.project,
+        documentSlug: params.documentSlug,
+        scheme: body.scheme,
+        userId: req.currentUser!.sub
+      });
+      return { scheme };
+    } catch (error) {
+      if (error instanceof RefSchemeError) {
+        return reply.status(400).send({ error: error.message, details: error.details });
+      }
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes("not found")) {
+        return reply.status(404).send({ error: msg });
+      }
+      throw error;
+    }
+  });
+
+  // Renumber every requirement in the document
+  app.post("/documents/:tenant/:project/:documentSlug/renumber", {
+    onRequest: [app.authenticate],
+    preHandler: [createRequireProjectAdminMiddleware()],
+    schema: {
+      tags: ["documents"],
+      summary: "Renumber requirements",
+      description: "Assigns refs from the document's numbering scheme (or the one given, which is then saved) in document order. Old refs are kept as aliases so lookups by them still resolve. With dryRun (the default) only the plan is returned."
+    }
+  }, async (req, reply) => {
+    const params = z.object({
+      tenant: z.string().min(1),
+      project: z.string().min(1),
+      documentSlug: z.string().min(1)
+    }).parse(req.params);
+    const body = z.object({
+      scheme: refSchemeSchema.optional(),
+      dryRun: z.boolean().default(true)
+    }).parse(req.body ?? {});
+
+    try {
+      const result = await renumberDocument({
+        tenant: params.tenant,
+        projectKey: params.project,
+        documentSlug: params.documentSlug,
+        scheme: body.scheme,
+        dryRun: body.dryRun,
+        userId: req.currentUser!.sub
+      });
+
+      if (!body.dryRun && result.changes.length > 0) {
+        collaborationHub.publish(
+          params.tenant,
+          params.project,
+          params.documentSlug,
+          { entity: "document", action: "updated" },
+          collaborationActor(req.currentUser)
+        );
+      }
+
+      return result;
+    } catch (error) {
+      if (error instanceof RefSchemeError) {
+        return reply.status(400).send({ error: error.message, details: error.details });
+      }
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes("not found")) {
+        return reply.status(404).send({ error: msg });
+      }
+      throw error;
+    }
+  });
+
   // Delete document
   app.delete("/documents/:tenant/:project/:documentSlug", {
     onRequest: [app.authenticate],
@@ -0,0 +1,122 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { exportDocumentToReqIF, importReqIFIntoDocument } from "../../../services/reqif/reqif-service.js";
+import { verifyTenantAccessHook } from "../../../lib/authorization.js";
+
+const reqifParamsSchema = z.object({
+  tenant: z.string().min(1),
+  project: z.string().min(1),
+  documentSlug: z.string().min(1)
+});
+
+const reqifExportQuerySchema = z.object({
+  configuration: z.string().min(1).optional(),
+  features: z.string().optional()
+});
+
+const reqifImportSchema = z.object({
+  content: z.string().min(1),
+  dryRun: z.boolean().optional()
+});
+
+const reqifParamsJsonSchema = {
+  type: "object",
+  required: ["tenant", "project", "documentSlug"],
+  properties: {
+    tenant: { type: "string" },
+    project: { type: "string" },
+    documentSlug: { type: "string" }
+  }
+};
+
+function mapReqIFError(error: unknown): { status: number; message: string } {
+  const message = error instanceof Error ? error.message : "ReqIF operation failed";
+  if (message.includes("not found")) {
+    return { status: 404, message };
+  }
+  if (message.startsWith("Invalid ReqIF") || message.startsWith("Malformed XML")) {
+    return { status: 400, message };
+  }
+  return { status: 500, message };
+}
+
+/**
+ * Register ReqIF 1.2 import/export routes for structured documents
+ */
+export async function registerReqIFRoutes(app: FastifyInstance): Promise<void> {
+  // Export document as ReqIF
+  app.get("/documents/:tenant/:project/:documentSlug/reqif", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["documents"],
+      summary: "Export document as ReqIF",
+      description: "Exports sections, requirements and intra-document trace links as a ReqIF 1.2 file. Pass a saved variant configuration or comma-separated features to export a single product variant.",
+      params: reqifParamsJsonSchema,
+      querystring: {
+        type: "object",
+        properties: {
+          configuration: { type: "string", description: "Saved variant configuration name" },
+          features: { type: "string", description: "Comma-separated selected feature IDs" }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const params = reqifParamsSchema.parse(req.params);
+    const query = reqifExportQuerySchema.parse(req.query);
+    const variant = query.configuration || query.features
+      ? { configuration: query.configuration, features: query.features?.split(",").map(id => id.trim()).filter(Boolean) }
+      : undefined;
+
+    try {
+      const xml = await exportDocumentToReqIF(params.tenant, params.project, params.documentSlug, variant);
+      reply.type("application/xml; charset=utf-8");
+      reply.header("Content-Disposition", `attachment; filename="${params.documentSlug}.reqif"`);
+      return reply.send(xml);
+    } catch (error) {
+      const { status, message } = mapReqIFError(error);
+      if (status === 500) {throw error;}
+      return reply.status(status).send({ error: message });
+    }
+  });
+
+  // Import ReqIF into document
+  app.post("/documents/:tenant/:project/:documentSlug/reqif", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    bodyLimit: 20 * 1024 * 1024,
+    schema: {
+      tags: ["documents"],
+      summary: "Import ReqIF into document",
+      description: "Creates or updates requirements from a ReqIF 1.2 file, matching by AIRGen hashId or ReqIF identifier",
+      params: reqifParamsJsonSchema,
+      body: {
+        type: "object",
+        required: ["content"],
+        properties: {
+          content: { type: "string", description: "ReqIF XML content" },
+          dryRun: { type: "boolean", description: "Preview changes without writing" }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const params = reqifParamsSchema.parse(req.params);
+    const payload = reqifImportSchema.parse(req.body);
+
+    try {
+      const result = await importReqIFIntoDocument({
+        tenant: params.tenant,
+        projectKey: params.project,
+        documentSlug: params.documentSlug,
+        content: payload.content,
+        dryRun: payload.dryRun,
+        userId: req.currentUser!.sub
+      });
+      return { result };
+    } catch (error) {
+      const { status, message } = mapReqIFError(error);
+      if (status === 500) {throw error;}
+      return reply.status(status).send({ error: message });
+    }
+  });
+}
@@ -21,6 +21,7 @@ import {
   reorderSurrogateReferencesWithOrder
 } from "../../../services/graph/surrogates.js";
 import { requireTenantAccess, verifyTenantAccessFromBodyHook, type AuthUser } from "../../../lib/authorization.js";
+import { collaborationActor, collaborationHub } from "../../../services/collaboration.js";
 
 /**
  * Register all section content routes (requirements, infos, surrogates)
@@ -149,6 +150,13 @@ export async function registerSectionContentRoutes(app: FastifyInstance): Promis
       userId: req.currentUser!.sub
     });
 
+    collaborationHub.publish(
+      payload.tenant,
+      payload.projectKey,
+      payload.documentSlug,
+      { entity: "info", action: "created", id: record.id, ref: record.ref },
+      collaborationActor(req.currentUser)
+    );
     return { info: record };
   });
 
@@ -202,6 +210,13 @@ export async function registerSectionContentRoutes(app: FastifyInstance): Promis
       userId: req.currentUser!.sub
     });
 
+    collaborationHub.publish(
+      payload.tenant,
+      payload.projectKey,
+      payload.documentSlug,
+      { entity: "surrogate", action: "created", id: record.id },
+      collaborationActor(req.currentUser)
+    );
     return { surrogate: record };
   });
 
@@ -264,6 +279,13 @@ export async function registerSectionContentRoutes(app: FastifyInstance): Promis
 
     try {
       const info = await updateInfo(params.tenant, params.project, params.infoRef, body, req.currentUser!.sub);
+      collaborationHub.publish(
+        params.tenant,
+        params.project,
+        info.documentSlug,
+        { entity: "info", action: "updated", id: info.id, ref: info.ref },
+        collaborationActor(req.currentUser)
+      );
       return { info };
     } catch (err) {
       if (err instanceof Error && err.message === "Info not found") {
@@ -309,6 +331,13 @@ export async function registerSectionContentRoutes(app: FastifyInstance): Promis
     requireTenantAccess(req.currentUser as AuthUser, params.tenant, reply);
 
     await deleteInfo(params.tenant, params.project, params.infoRef, req.currentUser!.sub);
+    collaborationHub.publish(
+      params.tenant,
+      params.project,
+      null,
+      { entity: "info", action: "deleted", ref: params.infoRef },
+      collaborationActor(req.currentUser)
+    );
     return { success: true };
   });
 
@@ -348,6 +377,13 @@ export async function registerSectionContentRoutes(app: FastifyInstance): Promis
     requireTenantAccess(req.currentUser as AuthUser, params.tenant, reply);
 
     await deleteSurrogateReference(params.tenant, params.project, params.surrogateId, req.currentUser!.sub);
+    collaborationHub.publish(
+      params.tenant,
+      params.project,
+      null,
+      { entity: "surrogate", action: "deleted", id: params.surrogateId },
+      collaborationActor(req.currentUser)
+    );
     return { success: true };
   });
 
@@ -492,6 +528,8 @@ export async function registerSectionContentRoutes(app: FastifyInstance): Promis
         required: ["tenant"],
         properties: {
           tenant: { type: "string" },
+          projectKey: { type: "string", description: "Project key, used to notify other viewers of the document" },
+          documentSlug: { type: "string", description: "Document slug, used to notify other viewers of the document" },
           requirements: {
             type: "array",
             items: {
@@ -541,6 +579,8 @@ export async function registerSectionContentRoutes(app: FastifyInstance): Promis
 
     const bodySchema = z.object({
       tenant: z.string().min(1),
+      projectKey: z.string().min(1).optional(),
+      documentSlug: z.string().min(1).optional(),
       requirements: z.array(z.object({ id: z.string(), order: z.number() })).optional(),
       infos: z.array(z.object({ id: z.string(), order: z.number() })).optional(),
       surrogates: z.array(z.object({ id: z.string(), order: z.number() })).optional()
@@ -559,6 +599,15 @@ export async function registerSectionContentRoutes(app: FastifyInstance): Promis
         : Promise.resolve()
     ]);
 
+    if (payload.projectKey) {
+      collaborationHub.publish(
+        payload.tenant,
+        payload.projectKey,
+        payload.documentSlug,
+        { entity: "section", action: "reordered", id: sectionId },
+        collaborationActor(req.currentUser)
+      );
+    }
     return { success: true };
   });
 }
@@ -8,6 +8,7 @@ import {
   deleteDocumentSection
 } from "../../../services/graph.js";
 import { verifyTenantAccessHook, verifyTenantAccessFromBodyHook } from "../../../lib/authorization.js";
+import { collaborationActor, collaborationHub } from "../../../services/collaboration.js";
 
 const documentSectionSchema = z.object({
   tenant: z.string().min(1),
@@ -40,6 +41,13 @@ export async function registerSectionRoutes(app: FastifyInstance): Promise<void>
       order: payload.order,
       userId: req.currentUser!.sub
     });
+    collaborationHub.publish(
+      payload.tenant,
+      payload.projectKey,
+      payload.documentSlug,
+      { entity: "section", action: "created", id: section.id },
+      collaborationActor(req.currentUser)
+    );
     return { section };
   });
 
@@ -96,6 +104,13 @@ export async function registerSectionRoutes(app: FastifyInstance): Promise<void>
 
     try {
       const section = await updateDocumentSection(params.sectionId, body, req.currentUser!.sub);
+      collaborationHub.publish(
+        section.tenant,
+        section.projectKey,
+        section.documentSlug,
+        { entity: "section", action: "updated", id: section.id },
+        collaborationActor(req.currentUser)
+      );
       return { section };
     } catch (error) {
       if ((error as Error).message === "Section not found") {
@@ -2,19 +2,25 @@ import type { FastifyInstance } from "fastify";
 import { z } from "zod";
 import { analyzeRequirement } from "@airgen/req-qa";
 import { draftCandidates } from "../services/drafting.js";
+import { LlmQuotaExceededError } from "../services/llm-providers/index.js";
 import { INPUT_LIMITS } from "../lib/prompt-security.js";
+import { verifyTenantAccessFromBodyHook } from "../lib/authorization.js";
+import { slugify } from "../services/workspace.js";
 
 export default async function draftRoutes(app: FastifyInstance) {
   app.post("/draft/candidates", {
     onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessFromBodyHook],
     schema: {
       tags: ["draft"],
       summary: "Generate requirement draft candidates",
-      description: "Uses heuristics and LLM to generate draft requirements from natural language input",
+      description: "Uses heuristics and LLM to generate draft requirements from natural language input. The tenant's LLM provider serves the call, which counts toward the tenant's quota.",
       body: {
         type: "object",
-        required: ["user_input"],
+        required: ["tenant", "project", "user_input"],
         properties: {
+          tenant: { type: "string", minLength: 1, maxLength: 100, description: "Tenant slug" },
+          project: { type: "string", minLength: 1, maxLength: 100, description: "Project slug" },
           user_input: { type: "string", minLength: 1, maxLength: INPUT_LIMITS.USER_INPUT, description: "Natural language description of the requirement need" },
           glossary: { type: "string", maxLength: INPUT_LIMITS.GLOSSARY, description: "Optional glossary or domain terms to guide generation" },
           constraints: { type: "string", maxLength: INPUT_LIMITS.CONSTRAINTS, description: "Optional constraints or context" },
@@ -55,6 +61,14 @@ export default async function draftRoutes(app: FastifyInstance) {
             detail: { type: "string" }
           }
         },
+        429: {
+          type: "object",
+          description: "The tenant's monthly LLM quota is used up",
+          properties: {
+            error: { type: "string" },
+            message: { type: "string" }
+          }
+        },
         502: {
           type: "object",
           description: "Bad gateway - failed to draft requirement candidates",
@@ -68,18 +82,24 @@ export default async function draftRoutes(app: FastifyInstance) {
     }
   }, async (req, reply) => {
     const schema = z.object({
+      tenant: z.string().min(1).max(100),
+      project: z.string().min(1).max(100),
       user_input: z.string().min(1).max(INPUT_LIMITS.USER_INPUT),
       glossary: z.string().max(INPUT_LIMITS.GLOSSARY).optional(),
       constraints: z.string().max(INPUT_LIMITS.CONSTRAINTS).optional(),
       n: z.number().int().min(1).max(10).optional()
     });
 
-    const body = schema.parse(req.body);
+    const { tenant, project, ...body } = schema.parse(req.body);
+    const caller = { tenant: slugify(tenant), project: slugify(project), userId: req.currentUser?.sub };
 
     let candidates: string[];
     try {
-      candidates = await draftCandidates(body);
+      candidates = await draftCandidates({ ...body, caller });
     } catch (error) {
+      if (error instanceof LlmQuotaExceededError) {
+        return reply.status(429).send({ error: "Too Many Requests", message: error.message });
+      }
       req.log.error({ err: error }, "draftCandidates failed");
       return reply.status(502).send({
         error: "Bad Gateway",
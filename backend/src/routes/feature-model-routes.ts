@@ -0,0 +1,190 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import {
+  PRESENCE_CONDITION_TARGETS,
+  getFeatureModel,
+  listPresenceConditions,
+  resolveVariant,
+  saveFeatureModel,
+  setPresenceCondition
+} from "../services/graph.js";
+import { FEATURE_GROUP_KINDS, validateConfiguration } from "../lib/feature-model.js";
+import { createRequireProjectAdminMiddleware, verifyTenantAccessHook } from "../lib/authorization.js";
+
+const paramsSchema = z.object({ tenant: z.string().min(1), project: z.string().min(1) });
+
+const featureSchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().min(1).max(200),
+  description: z.string().max(1000).optional(),
+  parentId: z.string().min(1).nullable(),
+  optional: z.boolean().default(false),
+  group: z.enum(FEATURE_GROUP_KINDS).default("and")
+});
+
+const featureModelSchema = z.object({
+  features: z.array(featureSchema).max(500),
+  constraints: z.array(z.object({
+    expression: z.string().min(1).max(1000),
+    description: z.string().max(1000).optional()
+  })).max(200).default([]),
+  configurations: z.array(z.object({
+    name: z.string().min(1).max(100),
+    description: z.string().max(1000).optional(),
+    features: z.array(z.string().min(1))
+  })).max(100).default([])
+});
+
+const presenceConditionSchema = z.object({
+  entityType: z.enum(PRESENCE_CONDITION_TARGETS),
+  entityId: z.string().min(1),
+  condition: z.string().max(1000).nullable()
+});
+
+const variantQuerySchema = z.object({
+  configuration: z.string().min(1).optional(),
+  /** Comma-separated feature IDs */
+  features: z.string().optional()
+});
+
+function notFound(error: unknown): string | null {
+  const msg = error instanceof Error ? error.message : String(error);
+  return msg.includes("not found") ? msg : null;
+}
+
+/**
+ * Feature model and variant routes
+ *
+ * The feature model describes a project's product-line variability. Presence
+ * conditions tie requirements, sections, blocks and connectors to features,
+ * and a variant (a saved or ad-hoc feature selection) resolves to the
+ * entities it excludes so views and exports can filter them out.
+ */
+export default async function registerFeatureModelRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/feature-model/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["variants"],
+      summary: "Get the project's feature model",
+      description: "Returns features, constraints and saved configurations (null when the project has no feature model)"
+    }
+  }, async (req) => {
+    const params = paramsSchema.parse(req.params);
+    const model = await getFeatureModel(params.tenant, params.project);
+    return { model };
+  });
+
+  app.put("/feature-model/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [createRequireProjectAdminMiddleware()],
+    schema: {
+      tags: ["variants"],
+      summary: "Replace the project's feature model",
+      description: "Validates the feature tree, constraints and saved configurations. Features still used by presence conditions cannot be removed."
+    }
+  }, async (req, reply) => {
+    const params = paramsSchema.parse(req.params);
+    const body = featureModelSchema.parse(req.body);
+
+    try {
+      const model = await saveFeatureModel({
+        tenant: params.tenant,
+        projectKey: params.project,
+        ...body,
+        userId: req.currentUser!.sub
+      });
+      return { model };
+    } catch (error) {
+      const msg = notFound(error);
+      if (msg) return reply.status(404).send({ error: msg });
+      throw error;
+    }
+  });
+
+  app.post("/feature-model/:tenant/:project/validate", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["variants"],
+      summary: "Validate a configuration",
+      description: "Checks a feature selection against the group rules and constraints of the feature model"
+    }
+  }, async (req, reply) => {
+    const params = paramsSchema.parse(req.params);
+    const { features } = z.object({ features: z.array(z.string().min(1)) }).parse(req.body);
+    const model = await getFeatureModel(params.tenant, params.project);
+    if (!model) {
+      return reply.status(404).send({ error: "Feature model not found" });
+    }
+    const errors = validateConfiguration(model, features);
+    return { valid: errors.length === 0, errors };
+  });
+
+  app.get("/feature-model/:tenant/:project/presence-conditions", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["variants"],
+      summary: "List presence conditions",
+      description: "Every requirement, section, block and connector in the project that has a presence condition"
+    }
+  }, async (req) => {
+    const params = paramsSchema.parse(req.params);
+    const conditions = await listPresenceConditions(params.tenant, params.project);
+    return { conditions };
+  });
+
+  app.put("/feature-model/:tenant/:project/presence-conditions", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["variants"],
+      summary: "Set a presence condition",
+      description: "Sets the feature expression that decides which variants include a requirement, section, block or connector. A null condition includes it in every variant."
+    }
+  }, async (req, reply) => {
+    const params = paramsSchema.parse(req.params);
+    const body = presenceConditionSchema.parse(req.body);
+
+    try {
+      const condition = await setPresenceCondition({
+        tenant: params.tenant,
+        projectKey: params.project,
+        ...body,
+        userId: req.currentUser!.sub
+      });
+      return { condition };
+    } catch (error) {
+      const msg = notFound(error);
+      if (msg) return reply.status(404).send({ error: msg });
+      throw error;
+    }
+  });
+
+  app.get("/feature-model/:tenant/:project/variant", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["variants"],
+      summary: "Resolve a variant",
+      description: "Validates a saved configuration (?configuration=) or feature selection (?features=a,b) and returns the IDs of the requirements, sections, blocks and connectors it excludes"
+    }
+  }, async (req, reply) => {
+    const params = paramsSchema.parse(req.params);
+    const query = variantQuerySchema.parse(req.query);
+
+    try {
+      return await resolveVariant({
+        tenant: params.tenant,
+        projectKey: params.project,
+        configuration: query.configuration,
+        features: query.features?.split(",").map(id => id.trim()).filter(Boolean)
+      });
+    } catch (error) {
+      const msg = notFound(error);
+      if (msg) return reply.status(404).send({ error: msg });
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,140 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import {
+  createGlossaryTerm,
+  deleteGlossaryTerm,
+  getGlossaryUsage,
+  listGlossaryTerms,
+  updateGlossaryTerm
+} from "../services/graph.js";
+import { createRequireProjectAdminMiddleware, verifyTenantAccessHook } from "../lib/authorization.js";
+
+const paramsSchema = z.object({ tenant: z.string().min(1), project: z.string().min(1) });
+const termParamsSchema = paramsSchema.extend({ termId: z.string().min(1) });
+
+const formSchema = z.string().trim().min(1).max(200);
+
+const glossaryTermSchema = z.object({
+  term: formSchema,
+  definition: z.string().max(4000).default(""),
+  abbreviation: z.string().trim().max(50).nullable().optional().transform(value => value || null),
+  synonyms: z.array(formSchema).max(50).default([]),
+  deprecated: z.array(formSchema).max(50).default([])
+});
+
+/**
+ * Project glossary routes
+ *
+ * The glossary is the project's controlled vocabulary. Any project member
+ * can read it; project admins maintain it. Terms are highlighted in the
+ * document view, checked by the GlossaryTerms QA rule and listed in document
+ * exports.
+ */
+export default async function registerGlossaryRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/glossary/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["glossary"],
+      summary: "List the project's glossary terms"
+    }
+  }, async (req) => {
+    const params = paramsSchema.parse(req.params);
+    const terms = await listGlossaryTerms(params.tenant, params.project);
+    return { terms };
+  });
+
+  app.get("/glossary/:tenant/:project/usage", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["glossary"],
+      summary: "Glossary term usage",
+      description: "How many requirements use each term, and which still use deprecated forms"
+    }
+  }, async (req) => {
+    const params = paramsSchema.parse(req.params);
+    const usage = await getGlossaryUsage(params.tenant, params.project);
+    return { usage };
+  });
+
+  app.post("/glossary/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [createRequireProjectAdminMiddleware()],
+    schema: {
+      tags: ["glossary"],
+      summary: "Add a glossary term",
+      description: "Rejects terms whose term, abbreviation, synonyms or deprecated forms are already used by another term"
+    }
+  }, async (req, reply) => {
+    const params = paramsSchema.parse(req.params);
+    const input = glossaryTermSchema.parse(req.body);
+
+    try {
+      const term = await createGlossaryTerm({
+        tenant: params.tenant,
+        projectKey: params.project,
+        input,
+        userId: req.currentUser!.sub
+      });
+      return reply.status(201).send({ term });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes("not found")) {
+        return reply.status(404).send({ error: msg });
+      }
+      throw error;
+    }
+  });
+
+  app.put("/glossary/:tenant/:project/:termId", {
+    onRequest: [app.authenticate],
+    preHandler: [createRequireProjectAdminMiddleware()],
+    schema: {
+      tags: ["glossary"],
+      summary: "Update a glossary term"
+    }
+  }, async (req, reply) => {
+    const params = termParamsSchema.parse(req.params);
+    const input = glossaryTermSchema.parse(req.body);
+
+    try {
+      const term = await updateGlossaryTerm({
+        tenant: params.tenant,
+        projectKey: params.project,
+        termId: params.termId,
+        input,
+        userId: req.currentUser!.sub
+      });
+      return { term };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes("not found")) {
+        return reply.status(404).send({ error: msg });
+      }
+      throw error;
+    }
+  });
+
+  app.delete("/glossary/:tenant/:project/:termId", {
+    onRequest: [app.authenticate],
+    preHandler: [createRequireProjectAdminMiddleware()],
+    schema: {
+      tags: ["glossary"],
+      summary: "Delete a glossary term"
+    }
+  }, async (req, reply) => {
+    const params = termParamsSchema.parse(req.params);
+
+    try {
+      await deleteGlossaryTerm(params.tenant, params.project, params.termId);
+      return reply.status(204).send();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes("not found")) {
+        return reply.status(404).send({ error: msg });
+      }
+      throw error;
+    }
+  });
+}
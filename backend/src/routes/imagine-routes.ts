@@ -6,6 +6,7 @@ import type { FastifyPluginAsync } from 'fastify';
 import { ImagineService } from '../services/imagine/imagine-service.js';
 import type { ImagineRequest } from '../services/imagine/types.js';
 import { getSession } from '../services/graph/driver.js';
+import { LlmQuotaExceededError } from '../services/llm-providers/index.js';
 
 const imagineRoutes: FastifyPluginAsync = async (fastify) => {
   const imagineService = new ImagineService();
@@ -157,7 +158,7 @@ const imagineRoutes: FastifyPluginAsync = async (fastify) => {
       } catch (error: any) {
         fastify.log.error({ err: error, request: imagineRequest }, '[Imagine] Generation failed');
 
-        return reply.status(500).send({
+        return reply.status(error instanceof LlmQuotaExceededError ? 429 : 500).send({
           success: false,
           error: error.message || 'Failed to generate visualization',
         });
@@ -399,7 +400,7 @@ const imagineRoutes: FastifyPluginAsync = async (fastify) => {
       } catch (error: any) {
         fastify.log.error({ err: error, parentImageId }, '[Imagine] Re-imagination failed');
 
-        return reply.status(500).send({
+        return reply.status(error instanceof LlmQuotaExceededError ? 429 : 500).send({
           success: false,
           error: error.message || 'Failed to re-imagine image',
         });
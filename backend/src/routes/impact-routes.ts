@@ -0,0 +1,79 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { analyzeImpact, MAX_IMPACT_DEPTH } from "../services/graph.js";
+import { renderImpactReport } from "../services/impact-report.js";
+import { verifyTenantAccessHook } from "../lib/authorization.js";
+
+const projectParamsSchema = z.object({
+  tenant: z.string().min(1),
+  project: z.string().min(1)
+});
+
+const impactQuerySchema = z.object({
+  kind: z.enum(["requirement", "block", "connector", "verificationDocument"]),
+  id: z.string().min(1),
+  direction: z.enum(["upstream", "downstream", "both"]).optional(),
+  depth: z.coerce.number().int().min(1).max(MAX_IMPACT_DEPTH).optional()
+});
+
+/**
+ * Impact analysis routes
+ *
+ * Given a requirement, architecture block, interface connector or verification
+ * document, report everything upstream and downstream of it across trace
+ * links, architecture allocation and the verification chain.
+ */
+export default async function registerImpactRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/impact/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["impact"],
+      summary: "Analyze change impact",
+      description: "Walks trace links, block/interface allocation, verification activities and evidence from one item, with the path that explains each impacted item"
+    }
+  }, async (req) => {
+    const params = projectParamsSchema.parse(req.params);
+    const query = impactQuerySchema.parse(req.query);
+
+    const analysis = await analyzeImpact({
+      tenant: params.tenant,
+      projectKey: params.project,
+      kind: query.kind,
+      id: query.id,
+      direction: query.direction,
+      maxDepth: query.depth
+    });
+    return { analysis };
+  });
+
+  app.get("/impact/:tenant/:project/report", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["impact"],
+      summary: "Export an impact report",
+      description: "Impact analysis as a Markdown change-board pack or CSV"
+    }
+  }, async (req, reply) => {
+    const params = projectParamsSchema.parse(req.params);
+    const query = impactQuerySchema.extend({
+      format: z.enum(["markdown", "csv"]).default("markdown")
+    }).parse(req.query);
+
+    const analysis = await analyzeImpact({
+      tenant: params.tenant,
+      projectKey: params.project,
+      kind: query.kind,
+      id: query.id,
+      direction: query.direction,
+      maxDepth: query.depth
+    });
+    const report = renderImpactReport(analysis, query.format);
+    const filename = `impact-${analysis.root.label}`.replace(/[^A-Za-z0-9._-]+/g, "_");
+
+    reply.type(report.contentType);
+    reply.header("Content-Disposition", `attachment; filename="${filename}.${report.extension}"`);
+    return reply.send(report.content);
+  });
+}
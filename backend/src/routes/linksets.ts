@@ -14,6 +14,7 @@ import {
   migrateOrphanedTraceLinks,
   checkOrphanedTraceLinks
 } from "../services/graph/migrate-linksets.js";
+import { TraceRuleError } from "../services/graph/trace-rules.js";
 import { verifyTenantAccessHook } from "../lib/authorization.js";
 
 export async function linksetRoutes(fastify: FastifyInstance) {
@@ -175,6 +176,9 @@ export async function linksetRoutes(fastify: FastifyInstance) {
 
       return reply.status(201).send({ linkset });
     } catch (error) {
+      if (error instanceof TraceRuleError) {
+        return reply.status(400).send({ error: error.message });
+      }
       fastify.log.error(error);
       return reply.status(500).send({
         error: "Failed to create linkset",
@@ -340,6 +344,9 @@ export async function linksetRoutes(fastify: FastifyInstance) {
 
       return reply.send({ linkset });
     } catch (error) {
+      if (error instanceof TraceRuleError) {
+        return reply.status(400).send({ error: error.message });
+      }
       fastify.log.error(error);
       return reply.status(500).send({
         error: "Failed to add link to linkset",
@@ -0,0 +1,206 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { createRequireTenantAdminMiddleware } from "../lib/authorization.js";
+import type { TenantLlmSettings } from "../repositories/LlmSettingsRepository.js";
+import {
+  getLlmSettingsRepository,
+  invalidateTenantLlmSettings,
+  llmChat,
+  llmEmbed,
+  resolveLlmSettings,
+  LLM_PROVIDER_KINDS,
+  type LlmProviderSettings
+} from "../services/llm-providers/index.js";
+import { slugify } from "../services/workspace.js";
+import { embeddingWorker } from "../workers/embedding-worker.js";
+
+const endpointUrlSchema = z.string().url().refine(
+  url => /^https?:$/.test(new URL(url).protocol),
+  "Endpoint URL must use http or https"
+);
+
+const providerSchema = z.enum(LLM_PROVIDER_KINDS);
+
+const saveLlmSettingsSchema = z.object({
+  provider: providerSchema,
+  model: z.string().min(1).max(255),
+  baseUrl: endpointUrlSchema.nullable().optional(),
+  apiKey: z.string().min(1).nullable().optional(),
+  apiVersion: z.string().min(1).max(50).nullable().optional(),
+  embeddingProvider: providerSchema.nullable().optional(),
+  embeddingModel: z.string().min(1).max(255).nullable().optional(),
+  embeddingBaseUrl: endpointUrlSchema.nullable().optional(),
+  embeddingApiKey: z.string().min(1).nullable().optional()
+}).superRefine((body, ctx) => {
+  if ((body.provider === "local" || body.provider === "azure") && !body.baseUrl) {
+    ctx.addIssue({ code: "custom", path: ["baseUrl"], message: `Provider '${body.provider}' requires a base URL` });
+  }
+  if (body.embeddingProvider === "anthropic") {
+    ctx.addIssue({ code: "custom", path: ["embeddingProvider"], message: "Anthropic does not provide embeddings" });
+  }
+});
+
+const KEYED_PROVIDERS = ["openai", "azure", "anthropic"];
+
+/** Settings are returned without their API keys; a hint identifies which key is stored */
+function toSettingsResponse(settings: TenantLlmSettings) {
+  const { apiKey, embeddingApiKey, ...rest } = settings;
+  return {
+    ...rest,
+    apiKeyHint: apiKey ? `…${apiKey.slice(-4)}` : null,
+    embeddingApiKeyHint: embeddingApiKey ? `…${embeddingApiKey.slice(-4)}` : null
+  };
+}
+
+function describeProvider(settings: LlmProviderSettings | null) {
+  return settings ? { provider: settings.provider, model: settings.model } : null;
+}
+
+/**
+ * Re-embed the tenant's requirements when the embedding provider or model in
+ * effect changed, so the vector index never mixes vectors from two models.
+ */
+async function reembedIfChanged(tenantSlug: string, before: LlmProviderSettings | null): Promise<void> {
+  const after = (await resolveLlmSettings(tenantSlug)).embeddings;
+  if (before?.provider !== after?.provider || before?.model !== after?.model) {
+    await embeddingWorker.resetTenantEmbeddings(tenantSlug);
+  }
+}
+
+/**
+ * LLM provider settings routes
+ *
+ * Tenant admins choose the provider that serves their tenant's drafting,
+ * natural language query and embedding calls, and test the connection.
+ * Without settings the tenant uses the platform default.
+ */
+export default async function registerLlmSettingsRoutes(app: FastifyInstance): Promise<void> {
+  const requireTenantAdminAuth = createRequireTenantAdminMiddleware("tenant");
+
+  app.get("/llm/:tenant/settings", {
+    onRequest: [app.authenticate],
+    preHandler: [requireTenantAdminAuth],
+    schema: {
+      tags: ["llm"],
+      summary: "Get the tenant's LLM provider settings",
+      description: "Returns the tenant's own settings (null when using the platform default) and the provider in effect."
+    }
+  }, async (req) => {
+    const { tenant } = z.object({ tenant: z.string() }).parse(req.params);
+    const tenantSlug = slugify(tenant);
+
+    const settings = await getLlmSettingsRepository().getSettings(tenantSlug);
+    const effective = await resolveLlmSettings(tenantSlug);
+    return {
+      settings: settings ? toSettingsResponse(settings) : null,
+      effective: {
+        source: effective.source,
+        chat: describeProvider(effective.chat),
+        embeddings: describeProvider(effective.embeddings)
+      },
+      providers: LLM_PROVIDER_KINDS
+    };
+  });
+
+  app.put("/llm/:tenant/settings", {
+    onRequest: [app.authenticate],
+    preHandler: [requireTenantAdminAuth],
+    schema: {
+      tags: ["llm"],
+      summary: "Set the tenant's LLM provider",
+      description: "Replaces the tenant's settings. Omit an API key to keep the stored one; send null to clear it. A stored key is only kept while its provider and base URL stay the same. Changing the embedding provider or model re-embeds the tenant's requirements."
+    }
+  }, async (req, reply) => {
+    const { tenant } = z.object({ tenant: z.string() }).parse(req.params);
+    const body = saveLlmSettingsSchema.parse(req.body);
+    const tenantSlug = slugify(tenant);
+    const repo = getLlmSettingsRepository();
+
+    // A kept key must have been stored for the same provider and endpoint to be reusable
+    const existing = await repo.getSettings(tenantSlug);
+    const keepsKey = body.apiKey === undefined &&
+      existing?.provider === body.provider &&
+      (existing.baseUrl ?? null) === (body.baseUrl ?? null) &&
+      Boolean(existing.apiKey);
+    if (KEYED_PROVIDERS.includes(body.provider) && !body.apiKey && !keepsKey) {
+      return reply.status(400).send({ error: `Provider '${body.provider}' requires an API key` });
+    }
+    const keepsEmbeddingKey = body.embeddingApiKey === undefined &&
+      (existing?.embeddingProvider ?? null) === (body.embeddingProvider ?? null) &&
+      (existing?.embeddingBaseUrl ?? null) === (body.embeddingBaseUrl ?? null) &&
+      Boolean(existing?.embeddingApiKey);
+    const embeddingsBefore = (await resolveLlmSettings(tenantSlug)).embeddings;
+
+    const settings = await repo.saveSettings(tenantSlug, {
+      provider: body.provider,
+      model: body.model,
+      baseUrl: body.baseUrl,
+      apiKey: body.apiKey === undefined && !keepsKey ? null : body.apiKey,
+      apiVersion: body.apiVersion,
+      embeddingProvider: body.embeddingProvider,
+      embeddingModel: body.embeddingModel,
+      embeddingBaseUrl: body.embeddingBaseUrl,
+      embeddingApiKey: body.embeddingApiKey === undefined && !keepsEmbeddingKey ? null : body.embeddingApiKey,
+      updatedBy: req.currentUser?.sub
+    });
+    invalidateTenantLlmSettings(tenantSlug);
+    await reembedIfChanged(tenantSlug, embeddingsBefore);
+
+    return { settings: toSettingsResponse(settings) };
+  });
+
+  app.delete("/llm/:tenant/settings", {
+    onRequest: [app.authenticate],
+    preHandler: [requireTenantAdminAuth],
+    schema: { tags: ["llm"], summary: "Revert the tenant to the platform default LLM provider" }
+  }, async (req, reply) => {
+    const { tenant } = z.object({ tenant: z.string() }).parse(req.params);
+    const tenantSlug = slugify(tenant);
+
+    const embeddingsBefore = (await resolveLlmSettings(tenantSlug)).embeddings;
+    const deleted = await getLlmSettingsRepository().deleteSettings(tenantSlug);
+    invalidateTenantLlmSettings(tenantSlug);
+    if (!deleted) {
+      return reply.status(404).send({ error: "Tenant has no LLM settings" });
+    }
+    await reembedIfChanged(tenantSlug, embeddingsBefore);
+    return { deleted: true };
+  });
+
+  app.post("/llm/:tenant/settings/test", {
+    onRequest: [app.authenticate],
+    preHandler: [requireTenantAdminAuth],
+    schema: {
+      tags: ["llm"],
+      summary: "Test the tenant's LLM provider",
+      description: "Sends a short chat completion and a one-line embedding through the provider in effect and reports the outcome of each."
+    }
+  }, async (req) => {
+    const { tenant } = z.object({ tenant: z.string() }).parse(req.params);
+    const tenantSlug = slugify(tenant);
+    const context = { tenant: tenantSlug, feature: "connection-test" };
+
+    const probe = async <T>(call: () => Promise<T>) => {
+      try {
+        return { ok: true as const, ...(await call()) };
+      } catch (error) {
+        return { ok: false as const, error: error instanceof Error ? error.message : String(error) };
+      }
+    };
+
+    const chat = await probe(async () => {
+      const result = await llmChat({
+        messages: [{ role: "user", content: "Reply with the single word OK." }],
+        maxTokens: 5,
+        temperature: 0
+      }, context);
+      return { provider: result.provider, model: result.model, usage: result.usage, costUsd: result.costUsd, latencyMs: result.latencyMs };
+    });
+    const embeddings = await probe(async () => {
+      const result = await llmEmbed(["Connection test"], context);
+      return { provider: result.provider, model: result.model, dimensions: result.embeddings[0]?.length ?? 0, latencyMs: result.latencyMs };
+    });
+
+    return { chat, embeddings };
+  });
+}
@@ -8,6 +8,7 @@ import {
   type NLQueryRequest
 } from "../services/nl-query.js";
 import { INPUT_LIMITS } from "../lib/prompt-security.js";
+import { LlmQuotaExceededError } from "../services/llm-providers/index.js";
 
 export default async function nlQueryRoutes(app: FastifyInstance) {
   // Rate limiter for NL queries (per-user, hourly limit)
@@ -62,7 +63,8 @@ export default async function nlQueryRoutes(app: FastifyInstance) {
           tenant: body.tenant,
           projectKey: body.projectKey,
           query: body.query,
-          includeExplanation: body.includeExplanation
+          includeExplanation: body.includeExplanation,
+          userId: req.currentUser?.sub
         } as NLQueryRequest);
 
         return {
@@ -73,6 +75,9 @@ export default async function nlQueryRoutes(app: FastifyInstance) {
           explanation: result.explanation
         };
       } catch (error) {
+        if (error instanceof LlmQuotaExceededError) {
+          return reply.status(429).send({ error: "Too Many Requests", message: error.message });
+        }
         req.log.error({ err: error }, "Natural language query processing failed");
         return reply.status(502).send({
           error: "Bad Gateway",
@@ -0,0 +1,44 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import {
+  countUnreadNotifications,
+  listNotifications,
+  markNotificationsRead
+} from "../services/notifications.js";
+
+/**
+ * Notification routes
+ *
+ * The signed-in user's in-app notifications.
+ */
+export default async function registerNotificationRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/notifications", {
+    onRequest: [app.authenticate],
+    schema: { tags: ["notifications"], summary: "List my notifications" }
+  }, async (req) => {
+    const query = z.object({
+      unread: z.enum(["true", "false"]).optional(),
+      limit: z.coerce.number().int().min(1).max(200).optional()
+    }).parse(req.query);
+
+    const userId = req.currentUser!.sub;
+    const [notifications, unreadCount] = await Promise.all([
+      listNotifications(userId, { unreadOnly: query.unread === "true", limit: query.limit }),
+      countUnreadNotifications(userId)
+    ]);
+    return { notifications, unreadCount };
+  });
+
+  app.post("/notifications/read", {
+    onRequest: [app.authenticate],
+    schema: {
+      tags: ["notifications"],
+      summary: "Mark notifications read",
+      description: "Marks the given ids read, or every unread notification when ids is omitted"
+    }
+  }, async (req) => {
+    const body = z.object({ ids: z.array(z.string().uuid()).optional() }).parse(req.body ?? {});
+    const updated = await markNotificationsRead(req.currentUser!.sub, body.ids);
+    return { updated };
+  });
+}
@@ -0,0 +1,119 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { computeProjectMetrics, listMetricSnapshots, recordMetricSnapshot } from "../services/graph.js";
+import { computeBurnUp } from "../lib/project-metrics.js";
+import { verifyTenantAccessHook } from "../lib/authorization.js";
+
+const paramsSchema = z.object({ tenant: z.string().min(1), project: z.string().min(1) });
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD");
+
+const rangeQuerySchema = z.object({
+  from: dateSchema.optional(),
+  to: dateSchema.optional()
+});
+
+const burnUpQuerySchema = rangeQuerySchema.extend({
+  targetDate: dateSchema.optional(),
+  measure: z.enum(["verified", "traced"]).default("verified")
+});
+
+function isNotFound(error: unknown): error is Error {
+  return error instanceof Error && error.message.includes("not found");
+}
+
+/**
+ * Project metric routes
+ *
+ * Current coverage and quality metrics for a project, the daily snapshots
+ * they are recorded in, and a burn-up of verified or traced requirements
+ * towards a target date. Served under /project-metrics because /metrics is
+ * the Prometheus endpoint.
+ */
+export default async function registerProjectMetricsRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/project-metrics/:tenant/:project/current", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["metrics"],
+      summary: "Get the project's metrics as of now",
+      description: "Computes requirement counts, QA distribution, trace and verification coverage, implementation status, suspect links and per-document breakdowns without recording a snapshot"
+    }
+  }, async (req, reply) => {
+    const params = paramsSchema.parse(req.params);
+
+    try {
+      const metrics = await computeProjectMetrics(params.tenant, params.project);
+      return { metrics };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return reply.status(404).send({ error: error.message });
+      }
+      throw error;
+    }
+  });
+
+  app.get("/project-metrics/:tenant/:project/snapshots", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["metrics"],
+      summary: "List daily metric snapshots",
+      description: "Returns the project's snapshots in date order, optionally limited to an inclusive from/to range"
+    }
+  }, async (req) => {
+    const params = paramsSchema.parse(req.params);
+    const query = rangeQuerySchema.parse(req.query);
+    const snapshots = await listMetricSnapshots({ tenant: params.tenant, projectKey: params.project, ...query });
+    return { snapshots };
+  });
+
+  app.post("/project-metrics/:tenant/:project/snapshots", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["metrics"],
+      summary: "Record today's metric snapshot now",
+      description: "Snapshots are recorded daily by the server; this replaces today's snapshot with current values"
+    }
+  }, async (req, reply) => {
+    const params = paramsSchema.parse(req.params);
+
+    try {
+      const snapshot = await recordMetricSnapshot(params.tenant, params.project);
+      return reply.status(201).send({ snapshot });
+    } catch (error) {
+      if (isNotFound(error)) {
+        return reply.status(404).send({ error: error.message });
+      }
+      throw error;
+    }
+  });
+
+  app.get("/project-metrics/:tenant/:project/burnup", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["metrics"],
+      summary: "Burn-up towards a target date",
+      description: "Plots verified (default) or traced requirements against the requirement count from the daily snapshots, with the ideal line to the target date and a projected completion date"
+    }
+  }, async (req) => {
+    const params = paramsSchema.parse(req.params);
+    const query = burnUpQuerySchema.parse(req.query);
+    const snapshots = await listMetricSnapshots({
+      tenant: params.tenant,
+      projectKey: params.project,
+      from: query.from,
+      to: query.to
+    });
+
+    const points = snapshots.map(snapshot => ({
+      date: snapshot.date,
+      scope: snapshot.metrics.requirements,
+      done: query.measure === "verified" ? snapshot.metrics.verification.verified : snapshot.metrics.traced
+    }));
+
+    return { measure: query.measure, burnUp: computeBurnUp(points, query.targetDate) };
+  });
+}
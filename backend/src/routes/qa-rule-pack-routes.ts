@@ -0,0 +1,118 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { BUILTIN_RULE_PACKS, listRules } from "@airgen/req-qa";
+import {
+  activateQaRulePackVersion,
+  getActiveQaRulePack,
+  listQaRulePackVersions,
+  saveQaRulePack
+} from "../services/graph.js";
+import { createRequireProjectAdminMiddleware, verifyTenantAccessHook } from "../lib/authorization.js";
+
+const rulePackEntrySchema = z.object({
+  rule: z.string().min(1),
+  name: z.string().min(1).optional(),
+  enabled: z.boolean().optional(),
+  weight: z.number().min(0).optional(),
+  severity: z.enum(["error", "warning", "info"]).optional(),
+  options: z.record(z.unknown()).optional()
+});
+
+const rulePackSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  thresholds: z.object({
+    pass: z.number().min(0).max(100),
+    warn: z.number().min(0).max(100)
+  }),
+  rules: z.array(rulePackEntrySchema).min(1)
+});
+
+/**
+ * Project QA rule pack routes
+ *
+ * Packs are versioned per project; saving creates a new active version and
+ * older versions stay available for rollback.
+ */
+export default async function registerQaRulePackRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/qa/rule-packs/presets", {
+    onRequest: [app.authenticate],
+    schema: {
+      tags: ["quality"],
+      summary: "List built-in QA rule packs and registered rules"
+    }
+  }, async () => {
+    return {
+      presets: BUILTIN_RULE_PACKS,
+      rules: listRules().map(rule => ({ id: rule.id, description: rule.description ?? null }))
+    };
+  });
+
+  app.get("/qa/rule-packs/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["quality"],
+      summary: "Get the project's QA rule pack",
+      description: "Returns the active rule pack (null when the project uses the built-in default) and all saved versions"
+    }
+  }, async (req) => {
+    const params = z.object({ tenant: z.string(), project: z.string() }).parse(req.params);
+
+    const [active, versions] = await Promise.all([
+      getActiveQaRulePack(params.tenant, params.project),
+      listQaRulePackVersions(params.tenant, params.project)
+    ]);
+    return { active, versions };
+  });
+
+  app.put("/qa/rule-packs/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [createRequireProjectAdminMiddleware()],
+    schema: {
+      tags: ["quality"],
+      summary: "Save a new QA rule pack version",
+      description: "Validates the pack against the rule registry, stores it as the next version and activates it"
+    }
+  }, async (req, reply) => {
+    const params = z.object({ tenant: z.string(), project: z.string() }).parse(req.params);
+    const pack = rulePackSchema.parse(req.body);
+
+    try {
+      const saved = await saveQaRulePack({
+        tenant: params.tenant,
+        projectKey: params.project,
+        pack,
+        userId: req.currentUser!.sub
+      });
+      return { rulePack: saved };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.startsWith("Invalid rule pack")) return reply.status(400).send({ error: msg });
+      if (msg.includes("not found")) return reply.status(404).send({ error: msg });
+      throw error;
+    }
+  });
+
+  app.post("/qa/rule-packs/:tenant/:project/activate", {
+    onRequest: [app.authenticate],
+    preHandler: [createRequireProjectAdminMiddleware()],
+    schema: {
+      tags: ["quality"],
+      summary: "Activate a saved QA rule pack version"
+    }
+  }, async (req, reply) => {
+    const params = z.object({ tenant: z.string(), project: z.string() }).parse(req.params);
+    const { version } = z.object({ version: z.number().int().min(1) }).parse(req.body);
+
+    try {
+      const rulePack = await activateQaRulePackVersion(params.tenant, params.project, version);
+      return { rulePack };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes("not found")) return reply.status(404).send({ error: msg });
+      throw error;
+    }
+  });
+}
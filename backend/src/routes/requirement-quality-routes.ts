@@ -2,7 +2,9 @@ import type { FastifyInstance } from "fastify";
 import { analyzeRequirement, AMBIGUOUS } from "@airgen/req-qa";
 import { generateDrafts } from "../services/drafts.js";
 import { generateLlmDrafts, isLlmConfigured } from "../services/llm.js";
+import { listGlossaryTerms, resolveQaRulePack } from "../services/graph.js";
 import { getErrorMessage } from "../lib/type-guards.js";
+import { requireTenantAccess, type AuthUser } from "../lib/authorization.js";
 import {
   qaAnalysisSchema,
   draftGenerationSchema,
@@ -29,16 +31,25 @@ export default async function registerRequirementQualityRoutes(app: FastifyInsta
     schema: {
       tags: ["quality"],
       summary: "Analyze requirement quality",
-      description: "Performs quality analysis on requirement text using @airgen/req-qa",
+      description: "Performs quality analysis on requirement text using @airgen/req-qa. When tenant and projectKey are given, the project's active rule pack and glossary are applied.",
       security: [{ bearerAuth: [] }],
       body: qaAnalysisRequestSchema,
       response: {
         200: qaAnalysisResponseSchema
       }
     }
-  }, async (req) => {
+  }, async (req, reply) => {
     const body = qaAnalysisSchema.parse(req.body);
-    return analyzeRequirement(body.text);
+    if (!body.tenant || !body.projectKey) {
+      return analyzeRequirement(body.text, { tags: body.tags });
+    }
+
+    requireTenantAccess(req.currentUser as AuthUser, body.tenant, reply);
+    const [pack, glossary] = await Promise.all([
+      resolveQaRulePack(body.tenant, body.projectKey),
+      listGlossaryTerms(body.tenant, body.projectKey)
+    ]);
+    return analyzeRequirement(body.text, { pack, tags: body.tags, glossary });
   });
 
   // Generate requirement drafts
@@ -65,7 +76,7 @@ export default async function registerRequirementQualityRoutes(app: FastifyInsta
         llmError = "LLM provider not configured";
       } else {
         try {
-          llmDrafts = await generateLlmDrafts(body);
+          llmDrafts = await generateLlmDrafts(body, { userId: req.currentUser?.sub });
         } catch (error) {
           llmError = getErrorMessage(error);
           app.log.error({ err: error }, "LLM draft generation failed");
@@ -6,6 +6,8 @@
  * - List project baselines
  * - Get baseline details with version snapshots
  * - Compare two baselines
+ * - Signed change reports (PDF/DOCX) between two baselines or a baseline and HEAD
+ * - Restore a project, document or section to a baseline (with dry-run preview)
  */
 
 import type { FastifyInstance } from "fastify";
@@ -13,6 +15,11 @@ import { z } from "zod";
 import { verifyTenantAccessHook, verifyTenantAccessFromBodyHook } from "../lib/authorization.js";
 import { createBaseline, listBaselines } from "../services/graph.js";
 import { getBaselineDetails, compareBaselines, deleteBaseline } from "../services/graph/requirement-baselines.js";
+import {
+  generateBaselineChangeReport,
+  verifyBaselineChangeReport
+} from "../services/baseline-change-report.js";
+import { restoreBaseline, type RestoreScope } from "../services/graph/baseline-restore.js";
 import { baselineSchema, tenantProjectParamsSchema, tenantProjectParamsOpenApiSchema } from "../schemas/requirements.js";
 
 export async function registerBaselineRoutes(app: FastifyInstance): Promise<void> {
@@ -262,4 +269,230 @@ export async function registerBaselineRoutes(app: FastifyInstance): Promise<void
       throw error;
     }
   });
+
+  // Change report between two baselines
+  app.get("/baselines/:tenant/:project/change-report", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["baselines"],
+      summary: "Download a baseline change report",
+      description: "Renders the changes between two baselines (use HEAD for the current state) as a PDF or DOCX with word-level redlines, attribute deltas, trace link and architecture changes. The content hash and its signature are returned in the X-Report-Hash and X-Report-Signature headers and embedded in the document.",
+      security: [{ bearerAuth: [] }],
+      params: tenantProjectParamsOpenApiSchema,
+      querystring: {
+        type: "object",
+        required: ["from", "to"],
+        properties: {
+          from: { type: "string", description: "Source baseline reference or HEAD" },
+          to: { type: "string", description: "Target baseline reference or HEAD" },
+          format: { type: "string", enum: ["pdf", "docx"], description: "Document format (default pdf)" }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const querySchema = z.object({
+      from: z.string().min(1),
+      to: z.string().min(1),
+      format: z.enum(["pdf", "docx"]).default("pdf")
+    });
+
+    try {
+      const params = tenantProjectParamsSchema.parse(req.params);
+      const query = querySchema.parse(req.query);
+
+      if (query.from === query.to) {
+        return reply.status(400).send({ error: "Source and target baselines must be different" });
+      }
+
+      const report = await generateBaselineChangeReport(
+        params.tenant,
+        params.project,
+        query.from,
+        query.to,
+        query.format,
+        req.currentUser?.email
+      );
+
+      reply.type(report.contentType);
+      reply.header("Content-Disposition", `attachment; filename="${report.fileName.replace(/[^A-Za-z0-9._-]+/g, "_")}"`);
+      reply.header("X-Report-Hash", report.hash);
+      reply.header("X-Report-Signature", report.signature);
+      return reply.send(report.content);
+    } catch (error: any) {
+      if (error.message?.includes("not found")) {
+        return reply.status(404).send({ error: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // Verify a previously issued change report
+  app.post("/baselines/:tenant/:project/change-report/verify", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["baselines"],
+      summary: "Verify a baseline change report",
+      description: "Recomputes the change set for the report's baselines and checks it against the hash and signature printed in the report",
+      security: [{ bearerAuth: [] }],
+      params: tenantProjectParamsOpenApiSchema,
+      body: {
+        type: "object",
+        required: ["from", "to", "hash"],
+        properties: {
+          from: { type: "string", description: "Source baseline reference or HEAD" },
+          to: { type: "string", description: "Target baseline reference or HEAD" },
+          hash: { type: "string", description: "Content hash from the report" },
+          signature: { type: "string", description: "Signature from the report" }
+        }
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            valid: { type: "boolean" },
+            hashMatches: { type: "boolean" },
+            signatureValid: { type: ["boolean", "null"] },
+            currentHash: { type: "string" }
+          }
+        },
+        404: {
+          type: "object",
+          properties: {
+            error: { type: "string" }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const bodySchema = z.object({
+      from: z.string().min(1),
+      to: z.string().min(1),
+      hash: z.string().regex(/^[0-9a-fA-F]{64}$/, "hash must be a SHA-256 hex digest"),
+      signature: z.string().regex(/^[0-9a-fA-F]+$/).optional()
+    });
+
+    try {
+      const params = tenantProjectParamsSchema.parse(req.params);
+      const body = bodySchema.parse(req.body);
+
+      return await verifyBaselineChangeReport(
+        params.tenant,
+        params.project,
+        body.from,
+        body.to,
+        body.hash,
+        body.signature
+      );
+    } catch (error: any) {
+      if (error.message?.includes("not found")) {
+        return reply.status(404).send({ error: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // Restore a project, document or section to a baseline
+  app.post("/baselines/:tenant/:project/:baselineRef/restore", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["baselines"],
+      summary: "Restore to a baseline",
+      description: "Computes the changes needed to bring a project, document or section back to a baseline. With dryRun (the default) only the plan is returned; otherwise it is applied in one transaction and every affected entity gets a \"restored\" version.",
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: "object",
+        required: ["tenant", "project", "baselineRef"],
+        properties: {
+          tenant: { type: "string", description: "Tenant slug" },
+          project: { type: "string", description: "Project slug" },
+          baselineRef: { type: "string", description: "Baseline reference" }
+        }
+      },
+      body: {
+        type: "object",
+        required: ["scope"],
+        properties: {
+          scope: { type: "string", enum: ["project", "document", "section"], description: "What to restore" },
+          documentSlug: { type: "string", description: "Document to restore (scope=document)" },
+          sectionId: { type: "string", description: "Section to restore (scope=section)" },
+          dryRun: { type: "boolean", default: true, description: "Only compute the plan" }
+        }
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            baselineRef: { type: "string" },
+            scope: { type: "object", additionalProperties: true },
+            dryRun: { type: "boolean" },
+            actions: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  entityType: { type: "string" },
+                  entityId: { type: "string" },
+                  label: { type: "string" },
+                  action: { type: "string" },
+                  fields: { type: "array", items: { type: "string" } },
+                  reason: { type: "string" }
+                }
+              }
+            },
+            summary: { type: "object", additionalProperties: { type: "number" } }
+          }
+        },
+        404: {
+          type: "object",
+          properties: {
+            error: { type: "string" }
+          }
+        },
+        409: {
+          type: "object",
+          properties: {
+            error: { type: "string" }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const paramsSchema = z.object({
+      tenant: z.string().min(1),
+      project: z.string().min(1),
+      baselineRef: z.string().min(1)
+    });
+    const bodySchema = z.discriminatedUnion("scope", [
+      z.object({ scope: z.literal("project"), dryRun: z.boolean().default(true) }),
+      z.object({ scope: z.literal("document"), documentSlug: z.string().min(1), dryRun: z.boolean().default(true) }),
+      z.object({ scope: z.literal("section"), sectionId: z.string().min(1), dryRun: z.boolean().default(true) })
+    ]);
+
+    try {
+      const params = paramsSchema.parse(req.params);
+      const body = bodySchema.parse(req.body);
+      const scope: RestoreScope = body.scope === "document"
+        ? { type: "document", documentSlug: body.documentSlug }
+        : body.scope === "section"
+          ? { type: "section", sectionId: body.sectionId }
+          : { type: "project" };
+
+      return await restoreBaseline({
+        tenant: params.tenant,
+        projectKey: params.project,
+        baselineRef: params.baselineRef,
+        scope,
+        dryRun: body.dryRun,
+        userId: req.currentUser?.email ?? "system"
+      });
+    } catch (error: any) {
+      if (error.message?.includes("not found")) {
+        return reply.status(404).send({ error: error.message });
+      }
+      throw error;
+    }
+  });
 }
@@ -21,8 +21,11 @@ import {
   updateRequirement,
   softDeleteRequirement,
   archiveRequirements,
-  unarchiveRequirements
+  unarchiveRequirements,
+  RequirementConflictError,
+  type AttributeFilter
 } from "../services/graph.js";
+import { collaborationActor, collaborationHub } from "../services/collaboration.js";
 import { parsePaginationParams, createPaginatedResponse, getSkipLimit } from "../lib/pagination.js";
 import {
   requirementSchema,
@@ -63,9 +66,17 @@ export async function registerCrudRoutes(app: FastifyInstance): Promise<void> {
       qaScore: payload.qaScore,
       qaVerdict: payload.qaVerdict,
       suggestions: payload.suggestions,
-      tags: payload.tags
+      tags: payload.tags,
+      attributes: payload.attributes
     });
 
+    collaborationHub.publish(
+      payload.tenant,
+      payload.projectKey,
+      payload.documentSlug,
+      { entity: "requirement", action: "created", id: record.id, ref: record.ref },
+      collaborationActor(req.currentUser)
+    );
     return { requirement: record };
   });
 
@@ -106,13 +117,31 @@ export async function registerCrudRoutes(app: FastifyInstance): Promise<void> {
 
     const hasFilters = Object.keys(filters).length > 0;
 
+    // Custom attribute filters: attr.<key>=a,b  attrMin.<key>=n  attrMax.<key>=n
+    const attributeFilters = new Map<string, AttributeFilter>();
+    for (const [param, value] of Object.entries(query)) {
+      const match = /^(attr|attrMin|attrMax)\.(.+)$/.exec(param);
+      if (!match || value === undefined || value === "") continue;
+      const [, kind, key] = match;
+      const filter = attributeFilters.get(key) ?? { key };
+      if (kind === "attr") {
+        filter.values = value.split(",").map(v => v.trim()).filter(Boolean);
+      } else {
+        const bound = Number.isNaN(Number(value)) ? value : Number(value);
+        if (kind === "attrMin") filter.min = bound;
+        else filter.max = bound;
+      }
+      attributeFilters.set(key, filter);
+    }
+
     const [items, total] = await Promise.all([
       listRequirements(params.tenant, params.project, {
         limit,
         offset: skip,
         orderBy,
         orderDirection,
-        filters: hasFilters ? filters as any : undefined
+        filters: hasFilters ? filters as any : undefined,
+        attributeFilters: attributeFilters.size > 0 ? [...attributeFilters.values()] : undefined
       }),
       countRequirements(params.tenant, params.project)
     ]);
@@ -159,7 +188,7 @@ export async function registerCrudRoutes(app: FastifyInstance): Promise<void> {
     schema: {
       tags: ["requirements"],
       summary: "Update a requirement",
-      description: "Updates requirement text, pattern, or verification method",
+      description: "Updates requirement text, pattern, or verification method. Send expectedVersionNumber to reject the update (409) if someone else changed the requirement first.",
       security: [{ bearerAuth: [] }],
       params: {
         type: "object",
@@ -183,6 +212,13 @@ export async function registerCrudRoutes(app: FastifyInstance): Promise<void> {
           properties: {
             error: { type: "string" }
           }
+        },
+        409: {
+          type: "object",
+          properties: {
+            error: { type: "string" },
+            current: { type: "object", additionalProperties: true }
+          }
         }
       }
     }
@@ -190,10 +226,29 @@ export async function registerCrudRoutes(app: FastifyInstance): Promise<void> {
     const params = requirementIdParamsSchema.parse(req.params);
     const body = requirementUpdateSchema.parse(req.body);
 
-    const requirement = await updateRequirement(params.tenant, params.project, params.requirementId, body);
+    let requirement;
+    try {
+      requirement = await updateRequirement(params.tenant, params.project, params.requirementId, {
+        ...body,
+        userId: req.currentUser!.sub
+      });
+    } catch (error) {
+      if (error instanceof RequirementConflictError) {
+        return reply.status(409).send({ error: error.message, current: error.current });
+      }
+      throw error;
+    }
     if (!requirement) {
       return reply.status(404).send({ error: "Requirement not found" });
     }
+
+    collaborationHub.publish(
+      params.tenant,
+      params.project,
+      requirement.documentSlug,
+      { entity: "requirement", action: "updated", id: requirement.id, ref: requirement.ref },
+      collaborationActor(req.currentUser)
+    );
     return { requirement };
   });
 
@@ -240,6 +295,14 @@ export async function registerCrudRoutes(app: FastifyInstance): Promise<void> {
     if (!requirement) {
       return reply.status(404).send({ error: "Requirement not found" });
     }
+
+    collaborationHub.publish(
+      params.tenant,
+      params.project,
+      requirement.documentSlug,
+      { entity: "requirement", action: "deleted", id: requirement.id, ref: requirement.ref },
+      collaborationActor(req.currentUser)
+    );
     return { requirement };
   });
 
@@ -256,9 +256,11 @@ export async function registerVersionRoutes(app: FastifyInstance): Promise<void>
         restoredFrom: params.versionNumber
       };
     } catch (error: any) {
-      // Catch-all for unexpected errors
-      app.log.error(error);
-      return reply.status(500).send({ error: error.message || "Failed to restore version" });
+      // Locked documents carry their own status code; anything else is unexpected
+      if (!error.statusCode) {
+        app.log.error(error);
+      }
+      return reply.status(error.statusCode ?? 500).send({ error: error.message || "Failed to restore version" });
     }
   });
 }
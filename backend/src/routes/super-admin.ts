@@ -11,6 +11,12 @@ import {
   sendRoleChangedEmail
 } from "../lib/email.js";
 import { listTenants } from "../services/graph/requirements/index.js";
+import {
+  getLlmUsageRepository,
+  invalidateTenantLlmQuota
+} from "../services/llm-providers/index.js";
+import { LLM_USAGE_GROUP_BY } from "../repositories/LlmUsageRepository.js";
+import { slugify } from "../services/workspace.js";
 import type { UserPermissions } from "../types/permissions.js";
 import { buildUserResponse } from "./helpers/user-response.js";
 
@@ -66,6 +72,49 @@ const revokePermissionSchema = z.object({
   projectKey: z.string().optional()
 });
 
+const llmUsageQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  tenant: z.string().min(1).optional(),
+  groupBy: z.enum(LLM_USAGE_GROUP_BY).default("tenant")
+});
+
+const llmUsageRecordsQuerySchema = llmUsageQuerySchema.omit({ groupBy: true }).extend({
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+});
+
+// A null limit is unlimited
+const tokenLimitSchema = z.number().int().nonnegative().nullable().default(null);
+const costLimitSchema = z.number().nonnegative().nullable().default(null);
+
+const saveLlmQuotaSchema = z.object({
+  monthlyTokenSoftLimit: tokenLimitSchema,
+  monthlyTokenHardLimit: tokenLimitSchema,
+  monthlyCostSoftLimitUsd: costLimitSchema,
+  monthlyCostHardLimitUsd: costLimitSchema,
+  retainPrompts: z.boolean().default(false),
+  retentionDays: z.number().int().positive().nullable().default(null)
+}).superRefine((body, ctx) => {
+  const pairs = [
+    ["monthlyTokenSoftLimit", body.monthlyTokenSoftLimit, body.monthlyTokenHardLimit],
+    ["monthlyCostSoftLimitUsd", body.monthlyCostSoftLimitUsd, body.monthlyCostHardLimitUsd]
+  ] as const;
+  for (const [path, soft, hard] of pairs) {
+    if (soft !== null && hard !== null && soft > hard) {
+      ctx.addIssue({ code: "custom", path: [path], message: "Soft limit must not exceed the hard limit" });
+    }
+  }
+});
+
+/** Usage reports default to the current calendar month (UTC) */
+function usagePeriod(query: { from?: Date; to?: Date }): { from: Date; to: Date } {
+  const now = new Date();
+  return {
+    from: query.from ?? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    to: query.to ?? now
+  };
+}
+
 const permRepo = new PermissionRepository();
 
 async function applyPermissions(
@@ -368,4 +417,124 @@ export default async function registerSuperAdminRoutes(app: FastifyInstance): Pr
     }
     return { user: summary };
   });
+
+  app.get("/super-admin/llm-usage", {
+    preHandler,
+    schema: {
+      tags: ["super-admin"],
+      summary: "LLM usage report",
+      description: "Calls, tokens, estimated cost and latency for a period (default: month to date), grouped by tenant, project, user, feature, model or day. The end of the period is exclusive."
+    }
+  }, async (req) => {
+    const query = llmUsageQuerySchema.parse(req.query);
+    const period = usagePeriod(query);
+    const tenantSlug = query.tenant ? slugify(query.tenant) : undefined;
+
+    const { totals, rows } = await getLlmUsageRepository().summarize({ ...period, tenantSlug }, query.groupBy);
+
+    // User rows are keyed by id; label them with the account's email
+    const labels = new Map<string, string>();
+    if (query.groupBy === "user") {
+      await Promise.all(rows.map(async row => {
+        const user = row.key ? await userRepository.findById(row.key) : null;
+        if (user && row.key) {
+          labels.set(row.key, user.email);
+        }
+      }));
+    }
+
+    return {
+      from: period.from.toISOString(),
+      to: period.to.toISOString(),
+      groupBy: query.groupBy,
+      totals,
+      rows: rows.map(row => ({ ...row, label: (row.key && labels.get(row.key)) ?? row.key }))
+    };
+  });
+
+  app.get("/super-admin/llm-usage/records", {
+    preHandler,
+    schema: {
+      tags: ["super-admin"],
+      summary: "List LLM calls",
+      description: "Most recent metered calls in a period, newest first"
+    }
+  }, async (req) => {
+    const query = llmUsageRecordsQuerySchema.parse(req.query);
+    const period = usagePeriod(query);
+    const tenantSlug = query.tenant ? slugify(query.tenant) : undefined;
+
+    const records = await getLlmUsageRepository().listRecords({ ...period, tenantSlug }, query.limit);
+    return { records };
+  });
+
+  app.get("/super-admin/llm-usage/records/:id/audit", {
+    preHandler,
+    schema: {
+      tags: ["super-admin"],
+      summary: "Get a retained LLM prompt and response",
+      description: "Available only for tenants that retain prompts, until the record expires"
+    }
+  }, async (req, reply) => {
+    const { id } = z.object({ id: z.string().uuid() }).parse(req.params);
+    const audit = await getLlmUsageRepository().getAudit(id);
+    if (!audit) {
+      return reply.status(404).send({ error: "No retained prompt for this call" });
+    }
+    return { audit };
+  });
+
+  app.get("/super-admin/llm-quotas", {
+    preHandler,
+    schema: {
+      tags: ["super-admin"],
+      summary: "List LLM quotas",
+      description: "Tenant quotas and retention settings with month-to-date usage"
+    }
+  }, async () => {
+    const repo = getLlmUsageRepository();
+    const quotas = await repo.listQuotas();
+    const withUsage = await Promise.all(quotas.map(async quota => ({
+      ...quota,
+      monthToDate: await repo.getMonthToDate(quota.tenantSlug)
+    })));
+    return { quotas: withUsage };
+  });
+
+  app.put("/super-admin/llm-quotas/:tenant", {
+    preHandler,
+    schema: {
+      tags: ["super-admin"],
+      summary: "Set a tenant's LLM quota",
+      description: "Replaces the tenant's monthly limits and prompt retention. A null limit is unlimited; a null retention period uses LLM_AUDIT_RETENTION_DAYS."
+    }
+  }, async (req) => {
+    const { tenant } = z.object({ tenant: z.string().min(1) }).parse(req.params);
+    const body = saveLlmQuotaSchema.parse(req.body);
+    const tenantSlug = slugify(tenant);
+    const currentUser = req.currentUser as AuthUser | undefined;
+
+    const quota = await getLlmUsageRepository().saveQuota(tenantSlug, { ...body, updatedBy: currentUser?.sub });
+    invalidateTenantLlmQuota(tenantSlug);
+    return { quota };
+  });
+
+  app.delete("/super-admin/llm-quotas/:tenant", {
+    preHandler,
+    schema: {
+      tags: ["super-admin"],
+      summary: "Remove a tenant's LLM quota",
+      description: "The tenant becomes unlimited and stops retaining prompts; already retained prompts expire as recorded."
+    }
+  }, async (req, reply) => {
+    const { tenant } = z.object({ tenant: z.string().min(1) }).parse(req.params);
+    const tenantSlug = slugify(tenant);
+
+    const deleted = await getLlmUsageRepository().deleteQuota(tenantSlug);
+    invalidateTenantLlmQuota(tenantSlug);
+    if (!deleted) {
+      return reply.status(404).send({ error: "Tenant has no LLM quota" });
+    }
+    return { deleted: true };
+  });
 }
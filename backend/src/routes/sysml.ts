@@ -20,7 +20,10 @@ import {
   getSysmlDiagram,
   createSysmlDiagram,
   updateSysmlDiagram,
-  deleteSysmlDiagram
+  deleteSysmlDiagram,
+  exportSysmlModel,
+  importSysmlModel,
+  SysmlTextError
 } from "../services/graph.js";
 
 const tenantProjectParams = z.object({
@@ -203,6 +206,15 @@ const updateDiagramSchema = z.object({
   }
 });
 
+const exportQuerySchema = z.object({
+  download: z.enum(["true", "false"]).optional()
+});
+
+const importModelSchema = z.object({
+  text: z.string().min(1),
+  dryRun: z.boolean().default(true)
+});
+
 function isError(error: unknown): error is Error {
   return error instanceof Error;
 }
@@ -223,6 +235,15 @@ function handleSysmlPackageError(reply: FastifyReply, error: unknown): boolean {
   return false;
 }
 
+function handleSysmlTextError(reply: FastifyReply, error: unknown): boolean {
+  if (error instanceof SysmlTextError) {
+    reply.status(error.statusCode).send({ error: error.message, line: error.line ?? null });
+    return true;
+  }
+
+  return false;
+}
+
 function ensureSysmlEnabled(reply: FastifyReply): boolean {
   if (!config.features.sysmlBetaEnabled) {
     reply.status(404).send({ error: "SysML beta feature disabled." });
@@ -822,4 +843,57 @@ export default async function registerSysmlRoutes(app: FastifyInstance): Promise
       throw error;
     }
   });
+
+  app.get("/sysml/:tenant/:project/export", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    config: {
+      rateLimit: config.rateLimit.sysml
+    }
+  }, async (req, reply) => {
+    const params = tenantProjectParams.parse(req.params);
+    const query = exportQuerySchema.parse(req.query);
+
+    if (!ensureSysmlEnabled(reply)) return;
+
+    const result = await exportSysmlModel({
+      tenant: params.tenant,
+      projectKey: params.project
+    });
+
+    if (query.download === "true") {
+      reply.header("Content-Type", "text/plain; charset=utf-8");
+      reply.header("Content-Disposition", `attachment; filename="${params.project}.sysml"`);
+      return reply.send(result.text);
+    }
+
+    return result;
+  });
+
+  app.post("/sysml/:tenant/:project/import", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    config: {
+      rateLimit: config.rateLimit.sysml
+    }
+  }, async (req, reply) => {
+    const params = tenantProjectParams.parse(req.params);
+    const body = importModelSchema.parse(req.body);
+
+    if (!ensureSysmlEnabled(reply)) return;
+
+    try {
+      const result = await importSysmlModel({
+        tenant: params.tenant,
+        projectKey: params.project,
+        text: body.text,
+        dryRun: body.dryRun
+      });
+
+      return result;
+    } catch (error) {
+      if (handleSysmlTextError(reply, error)) return;
+      throw error;
+    }
+  });
 }
@@ -7,7 +7,15 @@ import {
 } from "../lib/authorization.js";
 import { PermissionRepository } from "../repositories/PermissionRepository.js";
 import { userRepository } from "../repositories/UserRepository.js";
+import {
+  createServiceAccount,
+  createServiceAccountToken,
+  disableServiceAccount,
+  listServiceAccounts,
+  revokeServiceAccountToken
+} from "../services/api-tokens.js";
 import { UserRole } from "../types/roles.js";
+import { createApiTokenSchema } from "./api-token-routes.js";
 import { buildUserResponse } from "./helpers/user-response.js";
 
 const permRepo = new PermissionRepository();
@@ -26,6 +34,17 @@ const projectRevokeSchema = z.object({
   userId: z.string().uuid()
 });
 
+const serviceAccountSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(500).optional(),
+  role: z.nativeEnum(UserRole).refine(role => role !== UserRole.SUPER_ADMIN, "Service accounts cannot be super-admins")
+});
+
+const serviceAccountParamsSchema = z.object({
+  tenant: z.string(),
+  id: z.string().uuid()
+});
+
 export default async function registerTenantAdminRoutes(app: FastifyInstance): Promise<void> {
   if (!config.features.adminRoutesEnabled) {
     app.log.debug("Tenant-Admin routes disabled via configuration");
@@ -217,4 +236,99 @@ export default async function registerTenantAdminRoutes(app: FastifyInstance): P
     const summary = await buildUserResponse(userId);
     return { user: summary };
   });
+
+  app.get("/tenant-admin/:tenant/service-accounts", {
+    preHandler: [app.authenticate, requireTenantAdminAuth],
+    schema: {
+      tags: ["tenant-admin"],
+      summary: "List service accounts",
+      description: "List active service accounts in the tenant with their tokens"
+    }
+  }, async (req) => {
+    const { tenant } = z.object({ tenant: z.string() }).parse(req.params);
+    const serviceAccounts = await listServiceAccounts(tenant);
+    return { serviceAccounts };
+  });
+
+  app.post("/tenant-admin/:tenant/service-accounts", {
+    preHandler: [app.authenticate, requireTenantAdminAuth],
+    schema: {
+      tags: ["tenant-admin"],
+      summary: "Create service account",
+      description: "Create a tenant-owned account for CI pipelines and integrations"
+    }
+  }, async (req, reply) => {
+    const { tenant } = z.object({ tenant: z.string() }).parse(req.params);
+    const body = serviceAccountSchema.parse(req.body);
+
+    const serviceAccount = await createServiceAccount({
+      tenant,
+      ...body,
+      createdBy: (req.currentUser as AuthUser | undefined)?.sub
+    });
+    return reply.status(201).send({ serviceAccount });
+  });
+
+  app.delete("/tenant-admin/:tenant/service-accounts/:id", {
+    preHandler: [app.authenticate, requireTenantAdminAuth],
+    schema: {
+      tags: ["tenant-admin"],
+      summary: "Disable service account",
+      description: "Disable a service account and revoke all of its tokens"
+    }
+  }, async (req, reply) => {
+    const { tenant, id } = serviceAccountParamsSchema.parse(req.params);
+
+    const disabled = await disableServiceAccount(tenant, id);
+    if (!disabled) {
+      return reply.status(404).send({ error: "Service account not found" });
+    }
+    return { success: true };
+  });
+
+  app.post("/tenant-admin/:tenant/service-accounts/:id/tokens", {
+    preHandler: [app.authenticate, requireTenantAdminAuth],
+    schema: {
+      tags: ["tenant-admin"],
+      summary: "Create service account token",
+      description: "Issue a token for the service account. The token is returned once."
+    }
+  }, async (req, reply) => {
+    const { tenant, id } = serviceAccountParamsSchema.parse(req.params);
+    const body = createApiTokenSchema.parse(req.body);
+
+    try {
+      const { token, record } = await createServiceAccountToken(tenant, id, {
+        ...body,
+        createdBy: (req.currentUser as AuthUser | undefined)?.sub
+      });
+      return reply.status(201).send({ token: record, secret: token });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("not found")) {
+        return reply.status(404).send({ error: error.message });
+      }
+      if (error instanceof Error && /Invalid|only be limited/.test(error.message)) {
+        return reply.status(400).send({ error: error.message });
+      }
+      throw error;
+    }
+  });
+
+  app.delete("/tenant-admin/:tenant/service-accounts/:id/tokens/:tokenId", {
+    preHandler: [app.authenticate, requireTenantAdminAuth],
+    schema: {
+      tags: ["tenant-admin"],
+      summary: "Revoke service account token"
+    }
+  }, async (req, reply) => {
+    const { tenant, id, tokenId } = serviceAccountParamsSchema
+      .extend({ tokenId: z.string().uuid() })
+      .parse(req.params);
+
+    const revoked = await revokeServiceAccountToken(tenant, id, tokenId);
+    if (!revoked) {
+      return reply.status(404).send({ error: "Token not found" });
+    }
+    return { success: true };
+  });
 }
@@ -0,0 +1,89 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { getTraceRules, saveTraceRules } from "../services/graph.js";
+import { TRACE_LINK_TYPES, TRACE_RULE_ENFORCEMENTS, UNMATCHED_LINK_POLICIES } from "../lib/trace-rules.js";
+import { createRequireProjectAdminMiddleware, verifyTenantAccessHook } from "../lib/authorization.js";
+
+const paramsSchema = z.object({ tenant: z.string().min(1), project: z.string().min(1) });
+
+const requirementClassSchema = z.object({
+  document: z.string().min(1).max(200).optional(),
+  tag: z.string().min(1).max(200).optional(),
+  attribute: z.object({
+    key: z.string().min(1).max(200),
+    value: z.string().min(1).max(500)
+  }).optional()
+});
+
+const countSchema = z.number().int().min(0).max(1000).optional();
+
+const traceRuleSchema = z.object({
+  id: z.string().min(1).max(100),
+  description: z.string().max(1000).optional(),
+  source: requirementClassSchema,
+  target: requirementClassSchema,
+  linkTypes: z.array(z.enum(TRACE_LINK_TYPES)).min(1),
+  enforcement: z.enum(TRACE_RULE_ENFORCEMENTS).default("warn"),
+  minPerSource: countSchema,
+  maxPerSource: countSchema,
+  minPerTarget: countSchema,
+  maxPerTarget: countSchema
+});
+
+const traceRuleSetSchema = z.object({
+  rules: z.array(traceRuleSchema).max(200),
+  unmatched: z.enum(UNMATCHED_LINK_POLICIES).default("allow")
+});
+
+/**
+ * Trace rule routes
+ *
+ * Trace rules are the project's traceability information model: which
+ * requirement classes (by document, tag or attribute) may link to which, with
+ * which link types and how many links. They are enforced when trace links and
+ * linksets are created and reported by the verification engine.
+ */
+export default async function registerTraceRuleRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/trace-rules/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["traceability"],
+      summary: "Get the project's trace rules",
+      description: "Returns the rules and unmatched-link policy (null when the project has no trace rules)"
+    }
+  }, async (req) => {
+    const params = paramsSchema.parse(req.params);
+    const ruleSet = await getTraceRules(params.tenant, params.project);
+    return { ruleSet };
+  });
+
+  app.put("/trace-rules/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [createRequireProjectAdminMiddleware()],
+    schema: {
+      tags: ["traceability"],
+      summary: "Replace the project's trace rules",
+      description: "Validates and stores the rules. Existing links are not re-checked; run the verification engine to see which ones the new rules disallow."
+    }
+  }, async (req, reply) => {
+    const params = paramsSchema.parse(req.params);
+    const body = traceRuleSetSchema.parse(req.body);
+
+    try {
+      const ruleSet = await saveTraceRules({
+        tenant: params.tenant,
+        projectKey: params.project,
+        ...body,
+        userId: req.currentUser!.sub
+      });
+      return { ruleSet };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes("not found")) {
+        return reply.status(404).send({ error: msg });
+      }
+      throw error;
+    }
+  });
+}
@@ -4,6 +4,8 @@ import {
   createTraceLink,
   listTraceLinks,
   listTraceLinksByRequirement,
+  listSuspectLinks,
+  clearLinkSuspicion,
   deleteTraceLink
 } from "../services/graph.js";
 import { verifyTenantAccessHook, verifyTenantAccessFromBodyHook } from "../lib/authorization.js";
@@ -94,6 +96,74 @@ export default async function registerTraceRoutes(app: FastifyInstance): Promise
     return { traceLinks };
   });
 
+  app.get("/trace-links/:tenant/:project/suspect", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["traceability"],
+      summary: "List suspect trace links",
+      description: "Retrieves trace links whose source or target requirement changed since the link was created or last reviewed",
+      params: {
+        type: "object",
+        required: ["tenant", "project"],
+        properties: {
+          tenant: { type: "string", description: "Tenant slug" },
+          project: { type: "string", description: "Project slug" }
+        }
+      }
+    }
+  }, async (req) => {
+    const paramsSchema = z.object({ tenant: z.string().min(1), project: z.string().min(1) });
+    const params = paramsSchema.parse(req.params);
+
+    const traceLinks = await listSuspectLinks({
+      tenant: params.tenant,
+      projectKey: params.project
+    });
+
+    return { traceLinks };
+  });
+
+  app.post("/trace-links/:tenant/:project/:linkId/clear-suspicion", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["traceability"],
+      summary: "Clear a suspect trace link",
+      description: "Records that the link was reviewed and is still valid for the current content of both requirements",
+      params: {
+        type: "object",
+        required: ["tenant", "project", "linkId"],
+        properties: {
+          tenant: { type: "string", description: "Tenant slug" },
+          project: { type: "string", description: "Project slug" },
+          linkId: { type: "string", description: "Trace link ID" }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const paramsSchema = z.object({
+      tenant: z.string().min(1),
+      project: z.string().min(1),
+      linkId: z.string().min(1)
+    });
+    const params = paramsSchema.parse(req.params);
+    const body = z.object({ comment: z.string().max(2000).optional() }).parse(req.body ?? {});
+
+    const traceLink = await clearLinkSuspicion({
+      tenant: params.tenant,
+      projectKey: params.project,
+      linkId: params.linkId,
+      userId: req.currentUser!.sub,
+      comment: body.comment
+    });
+    if (!traceLink) {
+      return reply.status(404).send({ error: "Trace link not found" });
+    }
+
+    return { traceLink };
+  });
+
   app.get("/trace-links/:tenant/:project/:requirementId", {
     onRequest: [app.authenticate],
     preHandler: [verifyTenantAccessHook],
@@ -14,7 +14,10 @@ import {
   createStableReference,
   runVerificationEngine,
   getVerificationMatrix,
+  ingestTestResults,
+  uploadDocumentRevision,
 } from "../services/graph.js";
+import { generateVcrm } from "../services/vcrm-report.js";
 import { verifyTenantAccessHook, verifyTenantAccessFromBodyHook } from "../lib/authorization.js";
 
 export default async function registerVerificationRoutes(app: FastifyInstance): Promise<void> {
@@ -121,6 +124,35 @@ export default async function registerVerificationRoutes(app: FastifyInstance):
     return { evidence };
   });
 
+  app.post("/verification/ingest", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessFromBodyHook],
+    bodyLimit: 20 * 1024 * 1024,
+    schema: {
+      tags: ["verification"],
+      summary: "Ingest test results",
+      description: "Maps JUnit XML, TAP or CTest results to requirements by ref, records test_result evidence on their Test activities and sets activity status",
+    },
+  }, async (req) => {
+    const body = z.object({
+      tenant: z.string().min(1),
+      projectKey: z.string().min(1),
+      content: z.string().min(1),
+      format: z.enum(["junit", "tap", "ctest"]).optional(),
+      mapping: z.record(z.union([z.string().min(1), z.array(z.string().min(1))])).optional(),
+      runName: z.string().max(200).optional(),
+      createActivities: z.boolean().optional(),
+      dryRun: z.boolean().optional(),
+      recordedBy: z.string().min(1).optional(),
+    }).parse(req.body);
+
+    const ingestion = await ingestTestResults({
+      ...body,
+      recordedBy: body.recordedBy ?? req.currentUser!.email ?? req.currentUser!.sub,
+    });
+    return { ingestion };
+  });
+
   // ── Verification Documents ─────────────────────────────────
 
   app.post("/verification/documents", {
@@ -172,17 +204,27 @@ export default async function registerVerificationRoutes(app: FastifyInstance):
 
   app.post("/verification/documents/:vdocId/revisions", {
     onRequest: [app.authenticate],
-    schema: { tags: ["verification"], summary: "Create a document revision" },
+    bodyLimit: 40 * 1024 * 1024,
+    schema: {
+      tags: ["verification"],
+      summary: "Create a document revision",
+      description: "With base64 `content` (PDF, DOCX or XLSX), re-locates the excerpts of stable references on earlier revisions and marks them unchanged, moved, changed or missing",
+    },
   }, async (req, reply) => {
     const { vdocId } = z.object({ vdocId: z.string() }).parse(req.params);
     const body = z.object({
       revisionNumber: z.string().min(1),
       changeDescription: z.string().min(1),
       createdBy: z.string().min(1),
+      content: z.string().min(1).optional(),
     }).parse(req.body);
 
     try {
-      const revision = await createDocumentRevision({ vdocId, ...body });
+      const { content, ...fields } = body;
+      if (content !== undefined) {
+        return await uploadDocumentRevision({ vdocId, ...fields, content: Buffer.from(content, "base64") });
+      }
+      const revision = await createDocumentRevision({ vdocId, ...fields });
       return { revision };
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
@@ -247,4 +289,40 @@ export default async function registerVerificationRoutes(app: FastifyInstance):
     const matrix = await getVerificationMatrix(params.tenant, params.project);
     return { matrix };
   });
+
+  app.get("/verification/vcrm/:tenant/:project", {
+    onRequest: [app.authenticate],
+    preHandler: [verifyTenantAccessHook],
+    schema: {
+      tags: ["verification"],
+      summary: "Download the verification cross-reference matrix",
+      description: "Renders the VCRM (requirement, method, level, activity, procedure revision, verdict and closure, grouped by document and section with totals) as XLSX or PDF. With a baseline, requirement text comes from the baseline and only activities and evidence recorded before it count. The content hash is returned in the X-Report-Hash header.",
+    },
+  }, async (req, reply) => {
+    const params = z.object({ tenant: z.string(), project: z.string() }).parse(req.params);
+    const query = z.object({
+      format: z.enum(["xlsx", "pdf"]).default("xlsx"),
+      document: z.string().min(1).optional(),
+      method: z.enum(["Test", "Analysis", "Inspection", "Demonstration"]).optional(),
+      status: z.enum(["closed", "open", "failed", "unverified"]).optional(),
+      baseline: z.string().min(1).optional(),
+    }).parse(req.query);
+
+    try {
+      const report = await generateVcrm(params.tenant, params.project, query.format, {
+        filters: { document: query.document, method: query.method, status: query.status },
+        baselineRef: query.baseline,
+        generatedBy: req.currentUser?.email,
+      });
+
+      reply.type(report.contentType);
+      reply.header("Content-Disposition", `attachment; filename="${report.fileName.replace(/[^A-Za-z0-9._-]+/g, "_")}"`);
+      reply.header("X-Report-Hash", report.hash);
+      return reply.send(report.content);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes("not found")) return reply.status(404).send({ error: msg });
+      throw error;
+    }
+  });
 }
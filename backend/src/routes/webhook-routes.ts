@@ -0,0 +1,192 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { createRequireTenantAdminMiddleware } from "../lib/authorization.js";
+import { assertPublicUrl } from "../lib/outbound-url.js";
+import type { WebhookSubscription } from "../repositories/WebhookRepository.js";
+import {
+  generateWebhookSecret,
+  getWebhookRepository,
+  isValidEventFilter,
+  WEBHOOK_EVENT_TYPES
+} from "../services/webhooks.js";
+import { slugify } from "../services/workspace.js";
+
+const webhookUrlSchema = z.string().url().refine(
+  url => /^https?:$/.test(new URL(url).protocol),
+  "Webhook URL must use http or https"
+);
+
+const eventFilterSchema = z.array(
+  z.string().refine(isValidEventFilter, filter => ({ message: `Unknown webhook event '${filter}'` }))
+).min(1);
+
+const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: eventFilterSchema,
+  secret: z.string().min(16).optional(),
+  project: z.string().min(1).optional(),
+  description: z.string().max(500).optional()
+});
+
+const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  events: eventFilterSchema.optional(),
+  project: z.string().min(1).nullable().optional(),
+  description: z.string().max(500).nullable().optional(),
+  active: z.boolean().optional(),
+  rotateSecret: z.boolean().optional()
+});
+
+/** Subscriptions are returned without their secret, which is only shown on create and rotate */
+function toWebhookResponse(subscription: WebhookSubscription) {
+  const { secret, ...rest } = subscription;
+  return { ...rest, secretHint: `…${secret.slice(-4)}` };
+}
+
+/**
+ * Outbound webhook routes
+ *
+ * Tenant admins register endpoints that receive HMAC-signed event payloads,
+ * inspect the delivery log, and trigger redelivery. Endpoints must resolve
+ * to public addresses.
+ */
+export default async function registerWebhookRoutes(app: FastifyInstance): Promise<void> {
+  const requireTenantAdminAuth = createRequireTenantAdminMiddleware("tenant");
+
+  app.get("/webhooks/events", {
+    onRequest: [app.authenticate],
+    schema: { tags: ["webhooks"], summary: "List webhook event types" }
+  }, async () => {
+    return { events: WEBHOOK_EVENT_TYPES };
+  });
+
+  app.get("/webhooks/:tenant", {
+    onRequest: [app.authenticate],
+    preHandler: [requireTenantAdminAuth],
+    schema: { tags: ["webhooks"], summary: "List webhook subscriptions" }
+  }, async (req) => {
+    const { tenant } = z.object({ tenant: z.string() }).parse(req.params);
+    const subscriptions = await getWebhookRepository().listSubscriptions(slugify(tenant));
+    return { webhooks: subscriptions.map(toWebhookResponse) };
+  });
+
+  app.post("/webhooks/:tenant", {
+    onRequest: [app.authenticate],
+    preHandler: [requireTenantAdminAuth],
+    schema: {
+      tags: ["webhooks"],
+      summary: "Create a webhook subscription",
+      description: "Registers an endpoint for the given event filter. The signing secret is returned once."
+    }
+  }, async (req, reply) => {
+    const { tenant } = z.object({ tenant: z.string() }).parse(req.params);
+    const body = createWebhookSchema.parse(req.body);
+    await assertPublicUrl(body.url);
+    const secret = body.secret ?? generateWebhookSecret();
+
+    const subscription = await getWebhookRepository().createSubscription({
+      tenantSlug: slugify(tenant),
+      projectSlug: body.project ? slugify(body.project) : undefined,
+      url: body.url,
+      secret,
+      events: body.events,
+      description: body.description,
+      createdBy: req.currentUser?.sub
+    });
+
+    return reply.status(201).send({ webhook: toWebhookResponse(subscription), secret });
+  });
+
+  app.patch("/webhooks/:tenant/:webhookId", {
+    onRequest: [app.authenticate],
+    preHandler: [requireTenantAdminAuth],
+    schema: { tags: ["webhooks"], summary: "Update a webhook subscription" }
+  }, async (req, reply) => {
+    const params = z.object({ tenant: z.string(), webhookId: z.string().uuid() }).parse(req.params);
+    const body = updateWebhookSchema.parse(req.body);
+    if (body.url) {
+      await assertPublicUrl(body.url);
+    }
+    const secret = body.rotateSecret ? generateWebhookSecret() : undefined;
+
+    const subscription = await getWebhookRepository().updateSubscription(slugify(params.tenant), params.webhookId, {
+      url: body.url,
+      events: body.events,
+      projectSlug: body.project === undefined ? undefined : body.project && slugify(body.project),
+      description: body.description,
+      active: body.active,
+      secret
+    });
+    if (!subscription) {
+      return reply.status(404).send({ error: "Webhook not found" });
+    }
+
+    return { webhook: toWebhookResponse(subscription), ...(secret && { secret }) };
+  });
+
+  app.delete("/webhooks/:tenant/:webhookId", {
+    onRequest: [app.authenticate],
+    preHandler: [requireTenantAdminAuth],
+    schema: { tags: ["webhooks"], summary: "Delete a webhook subscription" }
+  }, async (req, reply) => {
+    const params = z.object({ tenant: z.string(), webhookId: z.string().uuid() }).parse(req.params);
+
+    const deleted = await getWebhookRepository().deleteSubscription(slugify(params.tenant), params.webhookId);
+    if (!deleted) {
+      return reply.status(404).send({ error: "Webhook not found" });
+    }
+    return { deleted: true };
+  });
+
+  app.get("/webhooks/:tenant/:webhookId/deliveries", {
+    onRequest: [app.authenticate],
+    preHandler: [requireTenantAdminAuth],
+    schema: { tags: ["webhooks"], summary: "List recent webhook deliveries" }
+  }, async (req, reply) => {
+    const params = z.object({ tenant: z.string(), webhookId: z.string().uuid() }).parse(req.params);
+    const { limit } = z.object({ limit: z.coerce.number().int().min(1).max(200).default(50) }).parse(req.query);
+    const repo = getWebhookRepository();
+
+    const subscription = await repo.getSubscription(slugify(params.tenant), params.webhookId);
+    if (!subscription) {
+      return reply.status(404).send({ error: "Webhook not found" });
+    }
+
+    const deliveries = await repo.listDeliveries(subscription.id, limit);
+    return { deliveries };
+  });
+
+  app.post("/webhooks/:tenant/:webhookId/deliveries/:deliveryId/redeliver", {
+    onRequest: [app.authenticate],
+    preHandler: [requireTenantAdminAuth],
+    schema: {
+      tags: ["webhooks"],
+      summary: "Redeliver a webhook event",
+      description: "Queues the original payload again as a new delivery; the delivery log shows the outcome"
+    }
+  }, async (req, reply) => {
+    const params = z.object({
+      tenant: z.string(),
+      webhookId: z.string().uuid(),
+      deliveryId: z.string().uuid()
+    }).parse(req.params);
+    const repo = getWebhookRepository();
+
+    const subscription = await repo.getSubscription(slugify(params.tenant), params.webhookId);
+    if (!subscription) {
+      return reply.status(404).send({ error: "Webhook not found" });
+    }
+    const original = await repo.getDelivery(subscription.id, params.deliveryId);
+    if (!original) {
+      return reply.status(404).send({ error: "Delivery not found" });
+    }
+
+    const [delivery] = await repo.enqueueDeliveries(
+      [subscription.id],
+      { id: original.eventId, type: original.eventType, payload: original.payload },
+      original.id
+    );
+
+    return reply.status(202).send({ deliveryId: delivery.id, status: delivery.status });
+  });
+}
@@ -241,7 +241,10 @@ export const qaAnalysisRequestSchema = {
   type: "object",
   required: ["text"],
   properties: {
-    text: { type: "string", minLength: 1, description: "Requirement text to analyze" }
+    text: { type: "string", minLength: 1, description: "Requirement text to analyze" },
+    tenant: { type: "string", description: "Score with this tenant's project rule pack (requires projectKey)" },
+    projectKey: { type: "string", description: "Project whose active rule pack should be applied" },
+    tags: { type: "array", items: { type: "string" }, description: "Requirement tags for tag-scoped rules" }
   }
 } as const;
 
@@ -259,13 +262,23 @@ export const qaAnalysisResponseSchema = {
         properties: {
           rule: { type: "string" },
           ok: { type: "boolean" },
-          message: { type: "string" }
+          message: { type: "string" },
+          severity: { type: "string", enum: ["error", "warning", "info"] },
+          weight: { type: "number" }
         }
       }
     },
     suggestions: {
       type: "array",
       items: { type: "string" }
+    },
+    pack: {
+      type: "object",
+      description: "Rule pack that produced the score",
+      properties: {
+        id: { type: "string" },
+        version: { type: "number" }
+      }
     }
   }
 } as const;
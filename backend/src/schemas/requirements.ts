@@ -31,7 +31,7 @@ export const requirementSchema = z.object({
   qaVerdict: z.string().optional(),
   suggestions: z.array(z.string()).optional(),
   tags: z.array(z.string()).optional(),
-  attributes: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional()
+  attributes: z.record(z.union([z.string(), z.number(), z.boolean(), z.array(z.string()), z.null()])).optional()
 });
 
 /**
@@ -82,7 +82,8 @@ export const requirementUpdateSchema = z.object({
   complianceRationale: z.string().optional(),
   sectionId: z.string().optional(),
   tags: z.array(z.string()).optional(),
-  attributes: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional()
+  attributes: z.record(z.union([z.string(), z.number(), z.boolean(), z.array(z.string()), z.null()])).optional(),
+  expectedVersionNumber: z.number().int().min(0).optional()
 });
 
 /**
@@ -121,7 +122,12 @@ export const requirementBodySchema = {
     qaScore: { type: "integer" as const, minimum: 0, maximum: 100, description: "Quality score" },
     qaVerdict: { type: "string" as const, description: "Quality verdict" },
     suggestions: { type: "array" as const, items: { type: "string" as const }, description: "QA suggestions" },
-    tags: { type: "array" as const, items: { type: "string" as const }, description: "Requirement tags" }
+    tags: { type: "array" as const, items: { type: "string" as const }, description: "Requirement tags" },
+    attributes: {
+      type: "object" as const,
+      additionalProperties: true,
+      description: "Custom attributes, validated against the project's attribute schema"
+    }
   }
 };
 
@@ -150,7 +156,17 @@ export const requirementUpdateBodySchema = {
     },
     complianceRationale: { type: "string" as const, description: "Compliance rationale" },
     sectionId: { type: "string" as const, description: "Section ID to move the requirement to" },
-    tags: { type: "array" as const, items: { type: "string" as const }, description: "Requirement tags" }
+    tags: { type: "array" as const, items: { type: "string" as const }, description: "Requirement tags" },
+    attributes: {
+      type: "object" as const,
+      additionalProperties: true,
+      description: "Custom attributes, validated against the project's attribute schema"
+    },
+    expectedVersionNumber: {
+      type: "integer" as const,
+      minimum: 0,
+      description: "Version the edit is based on; the update is rejected with 409 if the requirement has changed since"
+    }
   }
 };
 
@@ -185,5 +201,9 @@ export const paginationQuerySchema = {
     complianceStatus: { type: "string" as const, description: "Filter by compliance status" },
     qaScoreMin: { type: "integer" as const, minimum: 0, maximum: 100, description: "Minimum QA score" },
     qaScoreMax: { type: "integer" as const, minimum: 0, maximum: 100, description: "Maximum QA score" }
+  },
+  patternProperties: {
+    "^attr\\.": { type: "string" as const, description: "Filter by custom attribute value (comma-separated for any of)" },
+    "^attr(Min|Max)\\.": { type: "string" as const, description: "Inclusive bound on a number or date attribute" }
   }
 };
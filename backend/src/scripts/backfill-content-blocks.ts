@@ -5,6 +5,7 @@ import { parseMarkdownDocument } from "../services/markdown-parser.js";
 import { syncParsedDocument } from "../services/markdown-sync.js";
 import { ensureWorkspace } from "../services/workspace.js";
 import type { DocumentRecord } from "../services/graph/documents/index.js";
+import { DocumentLockedError } from "../services/graph/documents/documents-lock.js";
 import { slugify } from "../services/workspace.js";
 import { generateMarkdownFromNeo4j as generateMarkdown } from "../routes/markdown-api.js";
 
@@ -108,15 +109,23 @@ async function main(): Promise<void> {
       previewMimeType: props.previewMimeType ? String(props.previewMimeType) : null
     };
 
-    await session.executeWrite(async tx => {
-      await syncParsedDocument(tx, {
-        tenant,
-        projectKey,
-        document: documentRecord,
-        documentSlug,
-        parsed
+    try {
+      await session.executeWrite(async tx => {
+        await syncParsedDocument(tx, {
+          tenant,
+          projectKey,
+          document: documentRecord,
+          documentSlug,
+          parsed
+        });
       });
-    });
+    } catch (error) {
+      if (error instanceof DocumentLockedError) {
+        console.log(`Skipped ${tenant}/${projectKey}/${documentSlug}: ${error.message}`);
+        continue;
+      }
+      throw error;
+    }
 
     processed += 1;
     console.log(`Backfilled content blocks for ${tenant}/${projectKey}/${documentSlug} (blocks=${parsed.blocks.length})`);
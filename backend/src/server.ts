@@ -27,6 +27,12 @@ import healthRoutes from "./routes/health-routes.js";
 import tenantRoutes from "./routes/tenant-routes.js";
 import projectRoutes from "./routes/project-routes.js";
 import requirementQualityRoutes from "./routes/requirement-quality-routes.js";
+import qaRulePackRoutes from "./routes/qa-rule-pack-routes.js";
+import attributeSchemaRoutes from "./routes/attribute-schema-routes.js";
+import featureModelRoutes from "./routes/feature-model-routes.js";
+import traceRuleRoutes from "./routes/trace-rules-routes.js";
+import projectMetricsRoutes from "./routes/project-metrics-routes.js";
+import glossaryRoutes from "./routes/glossary-routes.js";
 import requirementsRoutes from "./routes/requirements-api.js";
 import documentRoutes from "./routes/documents.js";
 import architectureRoutes from "./routes/architecture.js";
@@ -48,6 +54,18 @@ import semanticSearchRoutes from "./routes/semantic-search.js";
 import imagineRoutes from "./routes/imagine-routes.js";
 import activityRoutes from "./routes/activity-routes.js";
 import verificationRoutes from "./routes/verification-routes.js";
+import webhookRoutes from "./routes/webhook-routes.js";
+import llmSettingsRoutes from "./routes/llm-settings-routes.js";
+import apiTokenRoutes from "./routes/api-token-routes.js";
+import changeRequestRoutes from "./routes/change-request-routes.js";
+import commentRoutes from "./routes/comment-routes.js";
+import notificationRoutes from "./routes/notification-routes.js";
+import collaborationRoutes from "./routes/collaboration-routes.js";
+import impactRoutes from "./routes/impact-routes.js";
+import branchRoutes from "./routes/branch-routes.js";
+import { webhookDispatcher } from "./workers/webhook-dispatcher.js";
+import { metricSnapshotScheduler } from "./workers/metric-snapshots.js";
+import { llmAuditRetention } from "./workers/llm-audit-retention.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -279,10 +297,28 @@ app.setErrorHandler((error, request, reply) => {
 // Start refresh token cleanup
 startTokenCleanup();
 
+// Start webhook delivery queue
+webhookDispatcher.start();
+
+// Start daily project metric snapshots
+metricSnapshotScheduler.start();
+
+// Start purging expired LLM audit records
+llmAuditRetention.start();
+
 app.addHook("onClose", async () => {
   // Stop refresh token cleanup
   stopTokenCleanup();
 
+  // Stop webhook delivery queue
+  webhookDispatcher.stop();
+
+  // Stop daily project metric snapshots
+  metricSnapshotScheduler.stop();
+
+  // Stop purging expired LLM audit records
+  llmAuditRetention.stop();
+
   await closeRefreshTokenStore();
 
   // Flush Sentry events before closing
@@ -312,6 +348,12 @@ await app.register(healthRoutes, { prefix: "/api" });
 await app.register(tenantRoutes, { prefix: "/api" });
 await app.register(projectRoutes, { prefix: "/api" });
 await app.register(requirementQualityRoutes, { prefix: "/api" });
+await app.register(qaRulePackRoutes, { prefix: "/api" });
+await app.register(attributeSchemaRoutes, { prefix: "/api" });
+await app.register(featureModelRoutes, { prefix: "/api" });
+await app.register(traceRuleRoutes, { prefix: "/api" });
+await app.register(projectMetricsRoutes, { prefix: "/api" });
+await app.register(glossaryRoutes, { prefix: "/api" });
 await app.register(requirementsRoutes, { prefix: "/api" });
 await app.register(semanticSearchRoutes, { prefix: "/api" });
 await app.register(documentRoutes, { prefix: "/api" });
@@ -330,6 +372,15 @@ await app.register(workersRoutes, { prefix: "/api" });
 await app.register(imagineRoutes, { prefix: "/api" });
 await app.register(activityRoutes, { prefix: "/api" });
 await app.register(verificationRoutes, { prefix: "/api" });
+await app.register(webhookRoutes, { prefix: "/api" });
+await app.register(llmSettingsRoutes, { prefix: "/api" });
+await app.register(apiTokenRoutes, { prefix: "/api" });
+await app.register(changeRequestRoutes, { prefix: "/api" });
+await app.register(commentRoutes, { prefix: "/api" });
+await app.register(notificationRoutes, { prefix: "/api" });
+await app.register(collaborationRoutes, { prefix: "/api" });
+await app.register(impactRoutes, { prefix: "/api" });
+await app.register(branchRoutes, { prefix: "/api" });
 
 if (config.features.sysmlBetaEnabled) {
   const sysmlRoutes = await import("./routes/sysml.js");
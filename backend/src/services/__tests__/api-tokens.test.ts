@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { UserRole } from "../../types/roles.js";
+
+const tokenRepo = {
+  findByHash: vi.fn(),
+  touchLastUsed: vi.fn()
+};
+const userRepo = { findById: vi.fn() };
+const permissionRepo = { getUserPermissions: vi.fn() };
+
+vi.mock("../../repositories/ApiTokenRepository.js", () => ({
+  ApiTokenRepository: vi.fn(() => tokenRepo)
+}));
+vi.mock("../../repositories/UserRepository.js", () => ({ userRepository: userRepo }));
+vi.mock("../../repositories/PermissionRepository.js", () => ({ permissionRepository: permissionRepo }));
+
+const { buildApiTokenPermissions, resolveApiToken } = await import("../api-tokens.js");
+const { checkApiTokenAccess, generateApiToken, hashApiToken, isApiToken } = await import("../../lib/api-tokens.js");
+
+const basePermissions = {
+  globalRole: UserRole.SUPER_ADMIN,
+  tenantPermissions: { acme: { role: UserRole.TENANT_ADMIN, isOwner: true } },
+  projectPermissions: { other: { rocket: { role: UserRole.AUTHOR } } }
+};
+
+describe("api tokens", () => {
+  beforeEach(() => {
+    [...Object.values(tokenRepo), userRepo.findById, permissionRepo.getUserPermissions].forEach(fn => fn.mockReset());
+    tokenRepo.touchLastUsed.mockResolvedValue(undefined);
+  });
+
+  it("generates prefixed tokens and stores only the hash", () => {
+    const { token, tokenPrefix, hashedToken } = generateApiToken("service_account");
+
+    expect(token.startsWith("airgen_sat_")).toBe(true);
+    expect(isApiToken(token)).toBe(true);
+    expect(isApiToken("eyJhbGciOiJIUzI1NiJ9.e30.sig")).toBe(false);
+    expect(token.startsWith(tokenPrefix)).toBe(true);
+    expect(hashedToken).toBe(hashApiToken(token));
+    expect(hashedToken).not.toContain(token);
+  });
+
+  it("caps roles by scope and drops the global role", () => {
+    const permissions = buildApiTokenPermissions(basePermissions, { scopes: ["read"] });
+
+    expect(permissions.globalRole).toBeUndefined();
+    expect(permissions.tenantPermissions?.acme.role).toBe(UserRole.VIEWER);
+    expect(permissions.projectPermissions?.other.rocket.role).toBe(UserRole.VIEWER);
+  });
+
+  it("narrows project-limited tokens to the listed projects", () => {
+    const permissions = buildApiTokenPermissions(basePermissions, {
+      scopes: ["admin"],
+      projects: ["acme/brakes", "other/rocket", "nowhere/x"]
+    });
+
+    expect(permissions.tenantPermissions).toBeUndefined();
+    expect(permissions.projectPermissions).toEqual({
+      acme: { brakes: { role: UserRole.ADMIN } },
+      other: { rocket: { role: UserRole.AUTHOR } }
+    });
+  });
+
+  it("enforces write scopes, verification writes and project limits", () => {
+    const readOnly = { id: "t", kind: "personal" as const, scopes: ["read" as const] };
+    const verifier = { ...readOnly, scopes: ["verification:write" as const], projects: ["acme/rocket"] };
+
+    expect(checkApiTokenAccess(readOnly, { method: "GET", url: "/api/requirements/acme/rocket" })).toBeNull();
+    expect(checkApiTokenAccess(readOnly, { method: "POST", url: "/api/requirements" })).toMatch(/do not allow/);
+    expect(checkApiTokenAccess(readOnly, { method: "GET", url: "/api/tokens" })).toMatch(/cannot manage/);
+
+    expect(checkApiTokenAccess(verifier, {
+      method: "POST",
+      url: "/api/verification/activities",
+      body: { tenant: "acme", projectKey: "rocket" }
+    })).toBeNull();
+    expect(checkApiTokenAccess(verifier, {
+      method: "GET",
+      url: "/api/requirements/acme/brakes",
+      params: { tenant: "acme", project: "brakes" }
+    })).toMatch(/not valid for project/);
+  });
+
+  it("resolves service account tokens to a capped tenant identity", async () => {
+    tokenRepo.findByHash.mockResolvedValue({
+      id: "tok-1",
+      name: "ci",
+      tokenPrefix: "airgen_sat_abcde",
+      serviceAccountId: "sa-1",
+      scopes: ["verification:write"],
+      createdAt: new Date(),
+      serviceAccount: {
+        id: "sa-1",
+        tenantSlug: "acme",
+        name: "CI pipeline",
+        role: UserRole.ADMIN,
+        createdAt: new Date()
+      }
+    });
+
+    const user = await resolveApiToken("airgen_sat_secret", "10.0.0.1");
+
+    expect(tokenRepo.findByHash).toHaveBeenCalledWith(hashApiToken("airgen_sat_secret"));
+    expect(user).toMatchObject({
+      sub: "sa:sa-1",
+      tenantSlugs: ["acme"],
+      permissions: { tenantPermissions: { acme: { role: UserRole.AUTHOR } } },
+      apiToken: { id: "tok-1", kind: "service_account", scopes: ["verification:write"] }
+    });
+    expect(tokenRepo.touchLastUsed).toHaveBeenCalledWith("tok-1", "10.0.0.1");
+  });
+
+  it("rejects revoked and expired tokens", async () => {
+    const record = { id: "tok-2", name: "old", tokenPrefix: "airgen_pat_abcde", userId: "u-1", scopes: ["read"], createdAt: new Date() };
+
+    tokenRepo.findByHash.mockResolvedValueOnce({ ...record, revokedAt: new Date() });
+    expect(await resolveApiToken("airgen_pat_x")).toBeNull();
+
+    tokenRepo.findByHash.mockResolvedValueOnce({ ...record, expiresAt: new Date(Date.now() - 1000) });
+    expect(await resolveApiToken("airgen_pat_x")).toBeNull();
+
+    expect(userRepo.findById).not.toHaveBeenCalled();
+    expect(tokenRepo.touchLastUsed).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AttributeFieldDefinition } from "../graph/attribute-schema.js";
+import type { RequirementRecord } from "../workspace.js";
+
+type FakeRecord = { get: (key: string) => unknown };
+
+const runQueue: FakeRecord[][] = [];
+const tx = {
+  run: vi.fn(async (_query: string, _params?: Record<string, unknown>) => ({ records: runQueue.shift() ?? [] }))
+};
+
+vi.mock("../graph/driver.js", () => ({
+  getSession: vi.fn(() => ({
+    executeRead: async (work: (transaction: typeof tx) => unknown) => work(tx),
+    executeWrite: async (work: (transaction: typeof tx) => unknown) => work(tx),
+    close: vi.fn(async () => undefined)
+  }))
+}));
+
+const {
+  AttributeSchemaError,
+  enforceAttributeSchema,
+  saveAttributeSchema,
+  validateAttributeSchemaFields,
+  validateRequirementAttributes
+} = await import("../graph/attribute-schema.js");
+const { matchesAttributeFilters } = await import("../graph/requirements/requirements-search.js");
+
+const fields: AttributeFieldDefinition[] = [
+  { key: "Priority", label: "Priority", type: "enum", required: true, options: ["High", "Medium", "Low"], defaultValue: "Medium" },
+  { key: "Effort", label: "Effort (days)", type: "number", required: false, min: 0, max: 20 },
+  { key: "DueDate", label: "Due date", type: "date", required: false },
+  { key: "Platforms", label: "Platforms", type: "multi-select", required: false, options: ["Web", "iOS", "Android"] },
+  { key: "Owner", label: "Owner", type: "user", required: false }
+];
+
+function record(values: Record<string, unknown>): FakeRecord {
+  return { get: (key: string) => values[key] };
+}
+
+function requirement(attributes: RequirementRecord["attributes"]): RequirementRecord {
+  return {
+    id: "req-1",
+    hashId: "",
+    ref: "SRD-001",
+    tenant: "acme",
+    projectKey: "rocket",
+    title: "",
+    text: "The system shall log in.",
+    path: "",
+    createdAt: "",
+    updatedAt: "",
+    attributes
+  };
+}
+
+describe("attribute schema", () => {
+  it("canonicalizes keys, coerces values and applies defaults", () => {
+    const result = validateRequirementAttributes(
+      fields,
+      { effort: "3.5", "due date": "2026-03-01T12:00:00Z", platforms: "web; android", owner: "user-1", legacy: "x" },
+      { applyDefaults: true }
+    );
+
+    expect(result).toEqual({
+      Priority: "Medium",
+      Effort: 3.5,
+      DueDate: "2026-03-01",
+      Platforms: ["Web", "Android"],
+      Owner: "user-1",
+      legacy: "x"
+    });
+  });
+
+  it("reports every violation at once", () => {
+    let error: unknown;
+    try {
+      validateRequirementAttributes(fields, { priority: "Urgent", Effort: 25, DueDate: "soon", Platforms: ["Windows"] });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(AttributeSchemaError);
+    expect((error as InstanceType<typeof AttributeSchemaError>).statusCode).toBe(400);
+    expect((error as InstanceType<typeof AttributeSchemaError>).details).toEqual([
+      "Priority must be one of High, Medium, Low",
+      "Effort (days) must be at most 20",
+      "Due date must be a date (YYYY-MM-DD)",
+      "Platforms contains \"Windows\", expected any of Web, iOS, Android"
+    ]);
+  });
+
+  it("rejects missing required fields and case-variant duplicates on update", () => {
+    expect(() => validateRequirementAttributes(fields, { Effort: 1 }))
+      .toThrow("Priority is required");
+    expect(() => validateRequirementAttributes(fields, { Priority: "High", priority: "Low" }))
+      .toThrow("\"priority\" duplicates attribute \"Priority\"");
+  });
+
+  it("validates field definitions before saving", async () => {
+    expect(validateAttributeSchemaFields([
+      { key: "Priority", label: "Priority", type: "enum", required: false, options: [] },
+      { key: "priority", label: "Priority", type: "string", required: false },
+      { key: "Effort", label: "Effort", type: "number", required: false, min: 5, max: 1 }
+    ])).toEqual([
+      "Field \"Priority\" needs at least one option",
+      "Field \"priority\" clashes with \"Priority\"",
+      "Field \"Effort\" has min greater than max"
+    ]);
+
+    await expect(saveAttributeSchema({
+      tenant: "acme",
+      projectKey: "rocket",
+      fields: [{ key: "Effort", label: "Effort", type: "number", required: false, max: 10, defaultValue: 12 }],
+      userId: "alice"
+    })).rejects.toThrow("Default for \"Effort\" must be at most 10");
+    expect(tx.run).not.toHaveBeenCalled();
+  });
+
+  it("passes attributes through when the project has no schema", async () => {
+    runQueue.push([]);
+    const attributes = { anything: "goes", priority: 1 };
+
+    await expect(enforceAttributeSchema("acme", "rocket", attributes, { applyDefaults: true })).resolves.toBe(attributes);
+  });
+
+  it("enforces the stored schema", async () => {
+    runQueue.push([record({
+      schema: {
+        properties: {
+          tenant: "acme",
+          projectKey: "rocket",
+          version: 2,
+          definition: JSON.stringify(fields),
+          updatedAt: "2026-01-01T00:00:00.000Z",
+          updatedBy: "alice"
+        }
+      }
+    })]);
+
+    await expect(enforceAttributeSchema("acme", "rocket", undefined, { applyDefaults: true }))
+      .resolves.toEqual({ Priority: "Medium" });
+  });
+
+  it("filters requirements on attribute values and ranges", () => {
+    const req = requirement({ Priority: "High", Effort: 5, DueDate: "2026-03-01", Platforms: ["Web", "iOS"] });
+
+    expect(matchesAttributeFilters(req, [{ key: "priority", values: ["high", "medium"] }])).toBe(true);
+    expect(matchesAttributeFilters(req, [{ key: "Platforms", values: ["Android"] }])).toBe(false);
+    expect(matchesAttributeFilters(req, [{ key: "Platforms", values: ["ios"] }])).toBe(true);
+    expect(matchesAttributeFilters(req, [{ key: "Effort", min: 3, max: 5 }])).toBe(true);
+    expect(matchesAttributeFilters(req, [{ key: "Effort", min: 6 }])).toBe(false);
+    expect(matchesAttributeFilters(req, [{ key: "DueDate", max: "2026-02-28" }])).toBe(false);
+    expect(matchesAttributeFilters(req, [{ key: "Owner", values: ["user-1"] }])).toBe(false);
+  });
+});
@@ -0,0 +1,179 @@
+import { inflateRawSync } from "node:zlib";
+import { describe, expect, it, vi } from "vitest";
+import type { BaselineSnapshot } from "../graph/requirement-baselines.js";
+
+vi.mock("../graph/driver.js", () => ({
+  getSession: vi.fn()
+}));
+
+const {
+  buildBaselineChangeSet,
+  hashChangeSet,
+  renderBaselineChangeReport,
+  signReportHash
+} = await import("../baseline-change-report.js");
+
+function snapshot(ref: string, overrides: Partial<BaselineSnapshot>): BaselineSnapshot {
+  return {
+    baseline: {
+      id: `acme:rover:${ref}`,
+      ref,
+      tenant: "acme",
+      projectKey: "rover",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      author: null,
+      label: null,
+      requirementRefs: []
+    },
+    requirementVersions: [],
+    documentVersions: [],
+    documentSectionVersions: [],
+    infoVersions: [],
+    surrogateReferenceVersions: [],
+    traceLinkVersions: [],
+    linksetVersions: [],
+    diagramVersions: [],
+    blockVersions: [],
+    connectorVersions: [],
+    ...overrides
+  };
+}
+
+const version = { versionNumber: 1, timestamp: "2026-01-01T00:00:00.000Z", changedBy: "alice", changeType: "created" as const };
+
+function requirement(id: string, text: string, extra: Record<string, unknown> = {}) {
+  return { ...version, versionId: `${id}-v`, requirementId: id, text, contentHash: `${id}:${text}:${JSON.stringify(extra)}`, ...extra };
+}
+
+function block(id: string, name: string, positionX: number) {
+  return {
+    ...version, versionId: `${id}-v`, blockId: id, diagramId: "diag-1", name, kind: "subsystem" as const,
+    positionX, positionY: 0, sizeWidth: 100, sizeHeight: 50, contentHash: `${id}:${name}:${positionX}`
+  };
+}
+
+const diagram = { ...version, versionId: "diag-v", diagramId: "diag-1", name: "Power", view: "block" as const, contentHash: "diag" };
+
+const from = snapshot("BL-001", {
+  requirementVersions: [
+    requirement("acme:rover:SYS-1", "The rover shall drive at 2 m/s.", { verification: "Test" }),
+    requirement("acme:rover:SYS-2", "The rover shall carry a camera."),
+    requirement("acme:rover:SYS-3", "Unchanged requirement.")
+  ],
+  traceLinkVersions: [{
+    ...version, versionId: "link-v", traceLinkId: "link-1", sourceRequirementId: "acme:rover:SYS-1",
+    targetRequirementId: "acme:rover:SYS-2", linkType: "derives", contentHash: "link"
+  }],
+  diagramVersions: [diagram],
+  blockVersions: [block("blk-1", "Battery", 0), block("blk-2", "Motor", 200)]
+});
+
+const to = snapshot("BL-002", {
+  baseline: { ...from.baseline, id: "acme:rover:BL-002", ref: "BL-002", label: "CDR", createdAt: "2026-02-01T00:00:00.000Z" },
+  requirementVersions: [
+    requirement("acme:rover:SYS-1", "The rover shall drive at 3 m/s.", { verification: "Analysis", attributes: { asil: "B" } }),
+    requirement("acme:rover:SYS-3", "Unchanged requirement."),
+    requirement("acme:rover:SYS-4", "The rover shall report its position.")
+  ],
+  diagramVersions: [diagram],
+  blockVersions: [block("blk-1", "Battery pack", 40), block("blk-2", "Motor", 200)]
+});
+
+describe("buildBaselineChangeSet", () => {
+  const changeSet = buildBaselineChangeSet(from, to, new Map([["acme:rover:SYS-1", "SYS-001"]]));
+
+  it("reports requirement redlines and attribute deltas", () => {
+    expect(changeSet.requirements.map(r => [r.ref, r.change])).toEqual([
+      ["SYS-001", "modified"],
+      ["SYS-2", "removed"],
+      ["SYS-4", "added"]
+    ]);
+
+    const modified = changeSet.requirements[0];
+    expect(modified.text).toEqual([
+      { op: "equal", text: "The rover shall drive at " },
+      { op: "delete", text: "2" },
+      { op: "insert", text: "3" },
+      { op: "equal", text: " m/s." }
+    ]);
+    expect(modified.attributes).toEqual([
+      { field: "Verification", before: "Test", after: "Analysis" },
+      { field: "Attribute: asil", before: null, after: "B" }
+    ]);
+  });
+
+  it("reports trace link and architecture changes by name", () => {
+    expect(changeSet.traceLinks).toEqual([
+      { traceLinkId: "link-1", change: "removed", source: "SYS-001", target: "SYS-2", linkType: "derives", attributes: [] }
+    ]);
+    expect(changeSet.architecture).toEqual([
+      {
+        kind: "block",
+        id: "blk-1",
+        name: "Battery pack",
+        context: "Power",
+        change: "modified",
+        attributes: [
+          { field: "Name", before: "Battery", after: "Battery pack" },
+          { field: "Position and size", before: "0,0 100x50", after: "40,0 100x50" }
+        ]
+      }
+    ]);
+    expect(changeSet.summary[0]).toEqual({ category: "Requirements", added: 1, removed: 1, modified: 1 });
+  });
+});
+
+describe("hashChangeSet", () => {
+  it("is stable across baseline timestamps and changes with content", () => {
+    const base = buildBaselineChangeSet(from, to);
+    const regenerated = buildBaselineChangeSet(from, { ...to, baseline: { ...to.baseline, createdAt: "2026-03-01T00:00:00.000Z" } });
+    const edited = buildBaselineChangeSet(from, { ...to, requirementVersions: to.requirementVersions.slice(1) });
+
+    expect(hashChangeSet(regenerated)).toBe(hashChangeSet(base));
+    expect(hashChangeSet(edited)).not.toBe(hashChangeSet(base));
+    expect(hashChangeSet(base)).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe("renderBaselineChangeReport", () => {
+  const changeSet = buildBaselineChangeSet(from, to);
+
+  it("renders a PDF carrying the hash and signature", () => {
+    const report = renderBaselineChangeReport(changeSet, "pdf", { generatedBy: "alice@example.com" });
+    const text = report.content.toString("latin1");
+
+    expect(report.contentType).toBe("application/pdf");
+    expect(report.fileName).toBe("rover-BL-001-to-BL-002.pdf");
+    expect(report.signature).toBe(signReportHash(report.hash));
+    expect(text.startsWith("%PDF-")).toBe(true);
+    expect(text.trimEnd().endsWith("%%EOF")).toBe(true);
+    // Document information strings are UTF-16BE hex
+    const utf16 = [...report.hash].map(c => c.charCodeAt(0).toString(16).padStart(4, "0").toUpperCase()).join("");
+    expect(text).toContain(`/ContentHash <FEFF${utf16}>`);
+  });
+
+  it("renders a DOCX with redline formatting and custom properties", () => {
+    const report = renderBaselineChangeReport(changeSet, "docx");
+    const entries = readZip(report.content);
+
+    expect(Object.keys(entries)).toEqual(expect.arrayContaining(["[Content_Types].xml", "word/document.xml", "docProps/custom.xml"]));
+    expect(entries["word/document.xml"]).toContain("<w:strike/>");
+    expect(entries["word/document.xml"]).toContain("The rover shall drive at ");
+    expect(entries["docProps/custom.xml"]).toContain(report.hash);
+  });
+});
+
+/** Minimal reader for the archives written by createZip */
+function readZip(buffer: Buffer): Record<string, string> {
+  const entries: Record<string, string> = {};
+  let offset = 0;
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const name = buffer.toString("utf8", offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength;
+    entries[name] = inflateRawSync(buffer.subarray(start, start + compressedSize)).toString("utf8");
+    offset = start + compressedSize;
+  }
+  return entries;
+}
@@ -0,0 +1,232 @@
+import { describe, expect, it, vi } from "vitest";
+import type { BaselineSnapshot } from "../graph/requirement-baselines.js";
+import type { RequirementRecord, RequirementVersionRecord } from "../workspace.js";
+import type { RestoreState } from "../graph/baseline-restore.js";
+
+vi.mock("../graph/driver.js", () => ({
+  getSession: vi.fn()
+}));
+
+const { BaselineRestoreError, planRestoreActions } = await import("../graph/baseline-restore.js");
+
+const BASELINE_CREATED_AT = "2026-03-01T00:00:00.000Z";
+
+function snapshot(overrides: Partial<BaselineSnapshot>): BaselineSnapshot {
+  return {
+    baseline: {
+      id: "acme:rover:BL-1",
+      ref: "BL-1",
+      tenant: "acme",
+      projectKey: "rover",
+      createdAt: BASELINE_CREATED_AT,
+      author: null,
+      label: null,
+      requirementRefs: []
+    },
+    requirementVersions: [],
+    documentVersions: [],
+    documentSectionVersions: [],
+    infoVersions: [],
+    surrogateReferenceVersions: [],
+    traceLinkVersions: [],
+    linksetVersions: [],
+    diagramVersions: [],
+    blockVersions: [],
+    connectorVersions: [],
+    ...overrides
+  };
+}
+
+function requirementVersion(overrides: Partial<RequirementVersionRecord> & { requirementId: string }): RequirementVersionRecord {
+  return {
+    versionId: `${overrides.requirementId}-v1`,
+    versionNumber: 1,
+    timestamp: "2026-02-01T00:00:00.000Z",
+    changedBy: "ana@example.com",
+    changeType: "created",
+    text: "The rover shall stop.",
+    contentHash: "hash",
+    ...overrides
+  };
+}
+
+function requirement(overrides: Partial<RequirementRecord> & { id: string; ref: string }): RequirementRecord {
+  return {
+    hashId: "",
+    tenant: "acme",
+    projectKey: "rover",
+    title: "",
+    text: "The rover shall stop.",
+    tags: [],
+    path: "",
+    createdAt: "2026-02-01T00:00:00.000Z",
+    updatedAt: "2026-02-01T00:00:00.000Z",
+    ...overrides
+  };
+}
+
+function state(overrides: Partial<RestoreState>): RestoreState {
+  return {
+    documents: [],
+    sections: [],
+    requirements: [],
+    traceLinks: [],
+    projectRequirementRefs: new Map(),
+    ...overrides
+  };
+}
+
+describe("planRestoreActions", () => {
+  it("restores changed fields and leaves matching requirements out of the plan", () => {
+    const actions = planRestoreActions(
+      snapshot({
+        requirementVersions: [
+          requirementVersion({ requirementId: "req-1", text: "The rover shall stop within 2 s.", tags: ["safety"] }),
+          requirementVersion({ requirementId: "req-2", attributes: { priority: "high" } })
+        ]
+      }),
+      state({
+        requirements: [
+          requirement({ id: "req-1", ref: "SYS-001", text: "The rover shall stop within 5 s.", tags: ["safety"] }),
+          // Attribute key order and empty values do not count as a change
+          requirement({ id: "req-2", ref: "SYS-002", attributes: { priority: "high", owner: undefined } as any })
+        ]
+      }),
+      { type: "project" }
+    );
+
+    expect(actions).toEqual([
+      { entityType: "requirement", entityId: "req-1", label: "SYS-001", action: "update", fields: ["text"] }
+    ]);
+  });
+
+  it("undeletes requirements active at the baseline and removes ones created after it", () => {
+    const actions = planRestoreActions(
+      snapshot({
+        requirementVersions: [
+          requirementVersion({ requirementId: "req-1" }),
+          requirementVersion({ requirementId: "req-3", changeType: "deleted" })
+        ]
+      }),
+      state({
+        requirements: [
+          requirement({ id: "req-1", ref: "SYS-001", deleted: true }),
+          requirement({ id: "req-2", ref: "SYS-002", createdAt: "2026-03-05T00:00:00.000Z" }),
+          requirement({ id: "req-3", ref: "SYS-003" }),
+          requirement({ id: "req-4", ref: "SYS-004", createdAt: "2025-12-01T00:00:00.000Z" })
+        ]
+      }),
+      { type: "project" }
+    );
+
+    expect(actions.map(a => [a.label, a.action, a.reason])).toEqual([
+      ["SYS-001", "undelete", undefined],
+      ["SYS-002", "delete", "Created after the baseline"],
+      ["SYS-003", "delete", undefined],
+      ["SYS-004", "skip", "No version recorded in the baseline"]
+    ]);
+  });
+
+  it("treats entities removed by an earlier restore as deleted", () => {
+    const actions = planRestoreActions(
+      snapshot({
+        requirementVersions: [
+          requirementVersion({
+            requirementId: "req-1",
+            changeType: "restored",
+            changeDescription: "Removed by restore to baseline BL-0"
+          })
+        ]
+      }),
+      state({ requirements: [requirement({ id: "req-1", ref: "SYS-001", deleted: true })] }),
+      { type: "project" }
+    );
+
+    expect(actions).toEqual([]);
+  });
+
+  it("refuses a project restore when the baseline captured entities it cannot restore", () => {
+    const withDiagram = snapshot({
+      diagramVersions: [{ diagramId: "diag-1" } as BaselineSnapshot["diagramVersions"][number]]
+    });
+
+    expect(() => planRestoreActions(withDiagram, state({}), { type: "project" })).toThrow(BaselineRestoreError);
+    expect(() => planRestoreActions(withDiagram, state({}), { type: "project" })).toThrow(/architecture diagrams/);
+    expect(planRestoreActions(withDiagram, state({}), { type: "document", documentSlug: "srs" })).toEqual([]);
+  });
+
+  it("limits document scope to entities currently in the document", () => {
+    const actions = planRestoreActions(
+      snapshot({
+        documentVersions: [
+          {
+            versionId: "d1", documentId: "doc-1", versionNumber: 1, timestamp: "", changedBy: "", changeType: "created",
+            slug: "srd", name: "System Requirements", kind: "structured", shortCode: "SRD", contentHash: ""
+          }
+        ],
+        documentSectionVersions: [
+          { versionId: "s1", sectionId: "sec-1", versionNumber: 1, timestamp: "", changedBy: "", changeType: "created", name: "Braking", order: 0, contentHash: "" }
+        ],
+        requirementVersions: [
+          requirementVersion({ requirementId: "req-1", text: "Old text" }),
+          requirementVersion({ requirementId: "req-elsewhere", text: "Old text" })
+        ]
+      }),
+      state({
+        documents: [
+          { id: "doc-1", slug: "srd", name: "System Reqs", description: null, shortCode: "SRD", deleted: false, createdAt: null }
+        ],
+        sections: [
+          { id: "sec-1", name: "Braking", description: null, shortCode: null, order: 2 },
+          { id: "sec-2", name: "Steering", description: null, shortCode: null, order: 3 }
+        ],
+        requirements: [requirement({ id: "req-1", ref: "SRD-BRK-001" })]
+      }),
+      { type: "document", documentSlug: "srd" }
+    );
+
+    expect(actions.map(a => [a.entityType, a.label, a.action, a.fields])).toEqual([
+      ["document", "System Reqs", "update", ["name"]],
+      ["section", "Braking", "update", ["order"]],
+      ["section", "Steering", "skip", []],
+      ["requirement", "SRD-BRK-001", "update", ["text"]]
+    ]);
+  });
+
+  it("recreates deleted trace links only when both requirements still exist", () => {
+    const link = (traceLinkId: string, targetRequirementId: string) => ({
+      versionId: `${traceLinkId}-v1`,
+      traceLinkId,
+      versionNumber: 1,
+      timestamp: "",
+      changedBy: "",
+      changeType: "created" as const,
+      sourceRequirementId: "req-1",
+      targetRequirementId,
+      linkType: "satisfies" as const,
+      contentHash: ""
+    });
+
+    const actions = planRestoreActions(
+      snapshot({ traceLinkVersions: [link("link-1", "req-2"), link("link-2", "req-gone")] }),
+      state({
+        projectRequirementRefs: new Map([["req-1", "SYS-001"], ["req-2", "SUB-001"]]),
+        traceLinks: [{
+          id: "link-3",
+          sourceRequirementId: "req-2",
+          targetRequirementId: "req-1",
+          linkType: "derives",
+          description: null,
+          createdAt: "2026-04-01T00:00:00.000Z"
+        }]
+      }),
+      { type: "project" }
+    );
+
+    expect(actions.map(a => [a.entityId, a.label, a.action])).toEqual([
+      ["link-3", "SUB-001 derives SYS-001", "delete"],
+      ["link-2", "SYS-001 satisfies req-gone", "skip"],
+      ["link-1", "SYS-001 satisfies SUB-001", "recreate"]
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from "vitest";
+import type { BaselineSnapshot } from "../graph/requirement-baselines.js";
+import { generateTraceLinkContentHash } from "../graph/trace-versions.js";
+
+vi.mock("../graph/driver.js", () => ({
+  getSession: vi.fn()
+}));
+
+const { classifyMergeStatus, mapBranchSnapshot, requirementMergeHash } = await import("../graph/branches.js");
+const { compareSnapshots } = await import("../graph/requirement-baselines.js");
+
+function snapshot(projectKey: string, overrides: Partial<BaselineSnapshot>): BaselineSnapshot {
+  return {
+    baseline: {
+      id: `acme:${projectKey}:HEAD`,
+      ref: "HEAD",
+      tenant: "acme",
+      projectKey,
+      createdAt: "2026-03-01T00:00:00.000Z",
+      author: null,
+      label: null,
+      requirementRefs: []
+    },
+    requirementVersions: [],
+    documentVersions: [],
+    documentSectionVersions: [],
+    infoVersions: [],
+    surrogateReferenceVersions: [],
+    traceLinkVersions: [],
+    linksetVersions: [],
+    diagramVersions: [],
+    blockVersions: [],
+    connectorVersions: [],
+    ...overrides
+  };
+}
+
+function requirementVersion(requirementId: string, contentHash: string) {
+  return {
+    versionId: `${requirementId}-v1`,
+    requirementId,
+    versionNumber: 1,
+    timestamp: "2026-02-01T00:00:00.000Z",
+    changedBy: "ana@example.com",
+    changeType: "created" as const,
+    text: "The rover shall stop.",
+    contentHash
+  };
+}
+
+function traceLinkVersion(traceLinkId: string, sourceRequirementId: string, targetRequirementId: string) {
+  const state = { sourceRequirementId, targetRequirementId, linkType: "satisfies" as const, description: null };
+  return {
+    versionId: `${traceLinkId}-v1`,
+    traceLinkId,
+    versionNumber: 1,
+    timestamp: "",
+    changedBy: "",
+    changeType: "created" as const,
+    ...state,
+    contentHash: generateTraceLinkContentHash(state)
+  };
+}
+
+describe("classifyMergeStatus", () => {
+  const base = { hasOrigin: true, baseHash: "a", branchHash: "a", branchDeleted: false, mainlineHash: "a", mainlineDeleted: false };
+
+  it("detects one-sided and two-sided changes against the merge base", () => {
+    expect(classifyMergeStatus(base)).toBe("unchanged");
+    expect(classifyMergeStatus({ ...base, branchHash: "b" })).toBe("branch-changed");
+    expect(classifyMergeStatus({ ...base, mainlineHash: "b" })).toBe("mainline-changed");
+    expect(classifyMergeStatus({ ...base, branchHash: "b", mainlineHash: "b" })).toBe("both-changed-same");
+    expect(classifyMergeStatus({ ...base, branchHash: "b", mainlineHash: "c" })).toBe("conflict");
+  });
+
+  it("treats a deletion against a change on the other side as a conflict", () => {
+    expect(classifyMergeStatus({ ...base, branchDeleted: true })).toBe("branch-deleted");
+    expect(classifyMergeStatus({ ...base, branchDeleted: true, mainlineHash: "b" })).toBe("conflict");
+    expect(classifyMergeStatus({ ...base, mainlineDeleted: true, mainlineHash: null })).toBe("mainline-deleted");
+    expect(classifyMergeStatus({ ...base, mainlineDeleted: true, branchHash: "b" })).toBe("conflict");
+    expect(classifyMergeStatus({ ...base, mainlineDeleted: true, branchDeleted: true })).toBe("unchanged");
+  });
+
+  it("reports requirements created in the branch as added", () => {
+    expect(classifyMergeStatus({ ...base, hasOrigin: false, baseHash: null })).toBe("added");
+    expect(classifyMergeStatus({ ...base, hasOrigin: false, baseHash: null, branchDeleted: true })).toBe("unchanged");
+  });
+});
+
+describe("requirementMergeHash", () => {
+  const content = {
+    text: "The rover shall stop.",
+    pattern: null,
+    verification: null,
+    rationale: "Safety",
+    complianceStatus: null,
+    complianceRationale: null,
+    tags: ["safety"],
+    attributes: { asil: "B", owner: "ana" }
+  };
+
+  it("changes with every field a merge writes", () => {
+    const hash = requirementMergeHash(content);
+    expect(requirementMergeHash({ ...content, rationale: "Comfort" })).not.toBe(hash);
+    expect(requirementMergeHash({ ...content, complianceStatus: "compliant" })).not.toBe(hash);
+    expect(requirementMergeHash({ ...content, tags: ["safety", "brakes"] })).not.toBe(hash);
+    expect(requirementMergeHash({ ...content, attributes: { asil: "C", owner: "ana" } })).not.toBe(hash);
+  });
+
+  it("ignores attribute key order", () => {
+    expect(requirementMergeHash({ ...content, attributes: { owner: "ana", asil: "B" } })).toBe(requirementMergeHash(content));
+  });
+});
+
+describe("mapBranchSnapshot", () => {
+  it("maps branch entities onto mainline IDs so unchanged copies compare equal", () => {
+    const mainline = snapshot("rover", {
+      requirementVersions: [requirementVersion("acme:rover:SYS-001", "h1"), requirementVersion("acme:rover:SYS-002", "h2")],
+      traceLinkVersions: [traceLinkVersion("link-1", "acme:rover:SYS-001", "acme:rover:SYS-002")]
+    });
+    const branch = snapshot("rover-b2", {
+      requirementVersions: [
+        requirementVersion("acme:rover-b2:SYS-001", "h1"),
+        requirementVersion("acme:rover-b2:SYS-002", "h2-edited"),
+        requirementVersion("acme:rover-b2:SYS-003", "h3")
+      ],
+      traceLinkVersions: [traceLinkVersion("link-9", "acme:rover-b2:SYS-001", "acme:rover-b2:SYS-002")]
+    });
+
+    const mapped = mapBranchSnapshot(branch, new Map([
+      ["acme:rover-b2:SYS-001", "acme:rover:SYS-001"],
+      ["acme:rover-b2:SYS-002", "acme:rover:SYS-002"],
+      ["link-9", "link-1"]
+    ]));
+    const comparison = compareSnapshots(mainline, mapped);
+
+    expect(comparison.requirements.unchanged.map(v => v.requirementId)).toEqual(["acme:rover:SYS-001"]);
+    expect(comparison.requirements.modified.map(v => v.requirementId)).toEqual(["acme:rover:SYS-002"]);
+    expect(comparison.requirements.added.map(v => v.requirementId)).toEqual(["acme:rover-b2:SYS-003"]);
+    expect(comparison.traceLinks.unchanged.map(v => v.traceLinkId)).toEqual(["link-1"]);
+  });
+});
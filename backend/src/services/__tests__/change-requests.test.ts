@@ -0,0 +1,165 @@
+import { describe, expect, it, vi } from "vitest";
+
+type FakeRecord = { get: (key: string) => unknown };
+
+const runQueue: FakeRecord[][] = [];
+const tx = {
+  run: vi.fn(async () => ({ records: runQueue.shift() ?? [] }))
+};
+
+vi.mock("../graph/driver.js", () => ({
+  getSession: vi.fn(() => ({
+    executeRead: async (work: (transaction: typeof tx) => unknown) => work(tx),
+    executeWrite: async (work: (transaction: typeof tx) => unknown) => work(tx),
+    close: vi.fn(async () => undefined)
+  }))
+}));
+
+vi.mock("../webhooks.js", () => ({
+  emitWebhookEvent: vi.fn(),
+  executeWriteWithWebhookEvents: (session: { executeWrite: (work: unknown) => unknown }, work: unknown) => session.executeWrite(work)
+}));
+
+const { createChangeRequest, pendingApprovals, reviewChangeRequest, ChangeRequestError } = await import("../graph/change-requests.js");
+const { assertRequirementsUnlocked, DocumentLockedError } = await import("../graph/documents/documents-lock.js");
+
+function record(values: Record<string, unknown>): FakeRecord {
+  return { get: (key: string) => values[key] };
+}
+
+function changeRequestRecord(overrides: Record<string, unknown> = {}): FakeRecord {
+  return record({
+    cr: {
+      properties: {
+        id: "cr-1",
+        tenant: "acme",
+        projectKey: "rocket",
+        requirementId: "req-1",
+        requirementRef: "SYS-001",
+        documentSlug: "sys",
+        title: "Tighten timing",
+        status: "pending",
+        changes: JSON.stringify({ text: "The system shall respond within 100 ms." }),
+        base: JSON.stringify({ text: "The system shall respond within 200 ms." }),
+        reviewers: ["alice", "bob"],
+        proposedBy: "carol",
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+        ...overrides
+      }
+    },
+    reviews: [],
+    comments: []
+  });
+}
+
+const review = (reviewer: string, decision: "approve" | "reject") => ({
+  id: reviewer,
+  reviewer,
+  decision,
+  comment: null,
+  createdAt: "2026-01-02T00:00:00.000Z"
+});
+
+describe("change requests", () => {
+  it("requires every named reviewer to approve", () => {
+    expect(pendingApprovals({ reviewers: ["alice", "bob"], reviews: [review("alice", "approve")] })).toEqual(["bob"]);
+    expect(pendingApprovals({
+      reviewers: ["alice", "bob"],
+      reviews: [review("alice", "approve"), review("bob", "approve")]
+    })).toEqual([]);
+  });
+
+  it("needs a single approval when no reviewers are named", () => {
+    expect(pendingApprovals({ reviewers: [], reviews: [] })).toHaveLength(1);
+    expect(pendingApprovals({ reviewers: [], reviews: [review("dave", "approve")] })).toEqual([]);
+  });
+
+  it("routes new requests to the document's reviewers other than the proposer", async () => {
+    runQueue.push([record({
+      requirement: {
+        properties: {
+          id: "req-1",
+          ref: "SYS-001",
+          tenant: "acme",
+          projectKey: "rocket",
+          title: "SYS-001",
+          text: "The system shall respond within 200 ms.",
+          createdAt: "2026-01-01T00:00:00.000Z",
+          updatedAt: "2026-01-01T00:00:00.000Z"
+        }
+      }
+    })]);
+    runQueue.push([record({ slug: "sys", reviewStatus: "approved", reviewers: ["alice", "carol"] })]);
+    runQueue.push([changeRequestRecord({ reviewers: ["alice"] })]);
+    tx.run.mockClear();
+
+    await createChangeRequest("acme", "rocket", {
+      requirementId: "req-1",
+      title: "Tighten timing",
+      changes: { text: "The system shall respond within 100 ms." },
+      proposedBy: "carol"
+    });
+
+    const createCall = tx.run.mock.calls.find(([query]) => String(query).includes("CREATE (cr:ChangeRequest")) as unknown[];
+    expect((createCall[1] as { reviewers: string[] }).reviewers).toEqual(["alice"]);
+  });
+
+  it("rejects reviews by the proposer and by users who are not reviewers", async () => {
+    runQueue.push([changeRequestRecord()]);
+    await expect(reviewChangeRequest("acme", "rocket", "cr-1", {
+      reviewer: "carol",
+      decision: "approve",
+      isProjectApprover: true
+    })).rejects.toMatchObject({ statusCode: 403 });
+
+    runQueue.push([changeRequestRecord()]);
+    await expect(reviewChangeRequest("acme", "rocket", "cr-1", {
+      reviewer: "mallory",
+      decision: "approve",
+      isProjectApprover: true
+    })).rejects.toBeInstanceOf(ChangeRequestError);
+  });
+
+  it("refuses to review a closed change request", async () => {
+    runQueue.push([changeRequestRecord({ status: "approved" })]);
+
+    await expect(reviewChangeRequest("acme", "rocket", "cr-1", {
+      reviewer: "alice",
+      decision: "reject",
+      isProjectApprover: false
+    })).rejects.toMatchObject({ statusCode: 409, message: "Change request is already approved" });
+  });
+
+  it("refuses approval when the requirement changed since the request was opened", async () => {
+    runQueue.push([changeRequestRecord()]);
+    runQueue.push([record({
+      requirement: {
+        properties: {
+          id: "req-1",
+          ref: "SYS-001",
+          tenant: "acme",
+          projectKey: "rocket",
+          title: "SYS-001",
+          text: "The system shall respond within 150 ms.",
+          createdAt: "2026-01-01T00:00:00.000Z",
+          updatedAt: "2026-01-03T00:00:00.000Z"
+        }
+      }
+    })]);
+
+    await expect(reviewChangeRequest("acme", "rocket", "cr-1", {
+      reviewer: "alice",
+      decision: "approve",
+      isProjectApprover: false
+    })).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it("blocks direct edits to requirements in approved documents", async () => {
+    runQueue.push([record({ slug: "sys" })]);
+    await expect(assertRequirementsUnlocked(tx as never, ["req-1"])).rejects.toBeInstanceOf(DocumentLockedError);
+
+    runQueue.push([]);
+    await expect(assertRequirementsUnlocked(tx as never, ["req-2"])).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, expect, it, vi } from "vitest";
+import neo4j from "neo4j-driver";
+
+type FakeRecord = { get: (key: string) => unknown };
+
+const runQueue: FakeRecord[][] = [];
+const tx = {
+  run: vi.fn(async (_query: string, _params?: Record<string, unknown>) => ({ records: runQueue.shift() ?? [] }))
+};
+
+vi.mock("../graph/driver.js", () => ({
+  getSession: vi.fn(() => ({
+    executeRead: async (work: (transaction: typeof tx) => unknown) => work(tx),
+    executeWrite: async (work: (transaction: typeof tx) => unknown) => work(tx),
+    close: vi.fn(async () => undefined)
+  }))
+}));
+
+const { DocumentCollaborationHub, COLLABORATION_IDLE_TIMEOUT_MS, documentRoomKey } = await import("../collaboration.js");
+const { RequirementConflictError, updateRequirement } = await import("../graph/requirements/requirements-update.js");
+
+function fakeSocket() {
+  const messages: Array<Record<string, any>> = [];
+  return {
+    messages,
+    closed: false,
+    send(message: string) { messages.push(JSON.parse(message)); },
+    close() { this.closed = true; },
+    last(type: string) { return [...messages].reverse().find(message => message.type === type); }
+  };
+}
+
+const room = documentRoomKey("Acme", "Rocket", "srd");
+const alice = { userId: "alice", name: "Alice" };
+const bob = { userId: "bob", name: "Bob" };
+
+describe("document collaboration hub", () => {
+  it("tracks presence and what each participant is viewing", () => {
+    const hub = new DocumentCollaborationHub();
+    const aliceSocket = fakeSocket();
+    const bobSocket = fakeSocket();
+
+    const aliceId = hub.join(room, alice, aliceSocket);
+    hub.join(room, bob, bobSocket);
+    expect(bobSocket.messages[0]).toMatchObject({ type: "welcome", participants: [{ userId: "alice" }, { userId: "bob" }] });
+
+    hub.handleMessage(room, aliceId, JSON.stringify({ type: "view", requirementId: "req-1" }));
+    expect(bobSocket.last("presence").participants[0]).toMatchObject({ userId: "alice", viewingRequirementId: "req-1" });
+
+    hub.leave(room, aliceId);
+    expect(bobSocket.last("presence").participants.map((p: { userId: string }) => p.userId)).toEqual(["bob"]);
+  });
+
+  it("soft-locks a requirement for one editor until released or disconnected", () => {
+    const hub = new DocumentCollaborationHub();
+    const aliceSocket = fakeSocket();
+    const bobSocket = fakeSocket();
+    const aliceId = hub.join(room, alice, aliceSocket);
+    const bobId = hub.join(room, bob, bobSocket);
+
+    hub.handleMessage(room, aliceId, JSON.stringify({ type: "lock", requirementId: "req-1" }));
+    expect(bobSocket.last("locks").locks).toEqual([expect.objectContaining({ requirementId: "req-1", userId: "alice" })]);
+
+    hub.handleMessage(room, bobId, JSON.stringify({ type: "lock", requirementId: "req-1" }));
+    expect(bobSocket.last("lock-denied")).toMatchObject({ requirementId: "req-1", lock: { name: "Alice" } });
+
+    hub.handleMessage(room, bobId, JSON.stringify({ type: "unlock", requirementId: "req-1" }));
+    expect(aliceSocket.last("locks").locks).toHaveLength(1);
+
+    hub.leave(room, aliceId);
+    expect(bobSocket.last("locks").locks).toEqual([]);
+
+    hub.handleMessage(room, bobId, JSON.stringify({ type: "lock", requirementId: "req-1" }));
+    expect(bobSocket.last("locks").locks).toEqual([expect.objectContaining({ userId: "bob" })]);
+  });
+
+  it("lets an editor take over a lock explicitly", () => {
+    const hub = new DocumentCollaborationHub();
+    const aliceSocket = fakeSocket();
+    const aliceId = hub.join(room, alice, aliceSocket);
+    const bobId = hub.join(room, bob, fakeSocket());
+
+    hub.handleMessage(room, aliceId, JSON.stringify({ type: "lock", requirementId: "req-1" }));
+    hub.handleMessage(room, bobId, JSON.stringify({ type: "lock", requirementId: "req-1", force: true }));
+
+    expect(aliceSocket.last("locks").locks).toEqual([expect.objectContaining({ userId: "bob" })]);
+  });
+
+  it("relays changes to the document's viewers, or the whole project when the document is unknown", () => {
+    const hub = new DocumentCollaborationHub();
+    const srd = fakeSocket();
+    const icd = fakeSocket();
+    const other = fakeSocket();
+    hub.join(room, alice, srd);
+    hub.join(documentRoomKey("acme", "rocket", "icd"), alice, icd);
+    hub.join(documentRoomKey("acme", "lander", "srd"), alice, other);
+
+    hub.publish("acme", "rocket", "srd", { entity: "requirement", action: "updated", id: "req-1", ref: "SRD-001" }, bob);
+    expect(srd.last("change")).toMatchObject({ change: { entity: "requirement", ref: "SRD-001" }, actor: bob });
+    expect(icd.last("change")).toBeUndefined();
+
+    hub.publish("acme", "rocket", null, { entity: "section", action: "reordered", id: "sec-1" }, bob);
+    expect(icd.last("change")).toMatchObject({ change: { entity: "section" } });
+    expect(other.last("change")).toBeUndefined();
+  });
+
+  it("drops idle connections and rejects unknown messages", () => {
+    const hub = new DocumentCollaborationHub();
+    const aliceSocket = fakeSocket();
+    const bobSocket = fakeSocket();
+    const aliceId = hub.join(room, alice, aliceSocket);
+    hub.join(room, bob, bobSocket);
+
+    hub.handleMessage(room, aliceId, "not json");
+    expect(aliceSocket.last("error")).toBeDefined();
+
+    hub.sweep(Date.now() + COLLABORATION_IDLE_TIMEOUT_MS + 1);
+    expect(aliceSocket.closed).toBe(true);
+    expect(bobSocket.closed).toBe(true);
+  });
+});
+
+describe("requirement optimistic concurrency", () => {
+  it("rejects an update based on a stale version with the current requirement", async () => {
+    runQueue.push([{
+      get: (key: string) => key === "versionCount"
+        ? neo4j.int(3)
+        : {
+            properties: {
+              id: "req-1",
+              ref: "SRD-001",
+              tenant: "acme",
+              projectKey: "rocket",
+              text: "The rocket shall report its altitude every second.",
+              path: "",
+              createdAt: "2026-01-01T00:00:00.000Z",
+              updatedAt: "2026-01-02T00:00:00.000Z",
+              versionNumber: neo4j.int(3)
+            }
+          }
+    }]);
+
+    const error = await updateRequirement("acme", "rocket", "req-1", {
+      text: "The rocket shall report its altitude twice per second.",
+      expectedVersionNumber: 2
+    }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(RequirementConflictError);
+    expect((error as InstanceType<typeof RequirementConflictError>).statusCode).toBe(409);
+    expect((error as InstanceType<typeof RequirementConflictError>).current).toMatchObject({ ref: "SRD-001", versionNumber: 3 });
+    expect(tx.run).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects the second of two attribute edits based on the same version", async () => {
+    const stored = {
+      id: "req-1",
+      ref: "SRD-001",
+      tenant: "acme",
+      projectKey: "rocket",
+      text: "The rocket shall report its altitude every second.",
+      path: "",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-02T00:00:00.000Z"
+    };
+    let versions = 2;
+    tx.run.mockImplementation(async (query: string) => {
+      if (query.includes("CREATE (version:RequirementVersion")) {
+        versions++;
+        return { records: [] };
+      }
+      if (/count\(v\) as versionCount|AS versionCount/i.test(query)) {
+        return { records: [{ get: (key: string) => key === "versionCount" ? neo4j.int(versions) : { properties: stored } }] };
+      }
+      if (query.includes("RETURN requirement")) {
+        return { records: [{ get: () => ({ properties: stored }) }] };
+      }
+      return { records: [] };
+    });
+
+    try {
+      // The node lock serialises the two transactions; the fake runs them in turn
+      const first = await updateRequirement("acme", "rocket", "req-1", {
+        attributes: { owner: "GNC" }, expectedVersionNumber: 2, userId: "alice"
+      });
+      const second = updateRequirement("acme", "rocket", "req-1", {
+        attributes: { owner: "Avionics" }, expectedVersionNumber: 2, userId: "bob"
+      });
+
+      expect(first).toMatchObject({ versionNumber: 3 });
+      await expect(second).rejects.toBeInstanceOf(RequirementConflictError);
+      expect(versions).toBe(3);
+    } finally {
+      tx.run.mockReset();
+      tx.run.mockImplementation(async () => ({ records: runQueue.shift() ?? [] }));
+    }
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, it, vi } from "vitest";
+import neo4j from "neo4j-driver";
+
+type FakeRecord = { get: (key: string) => unknown };
+
+const runQueue: FakeRecord[][] = [];
+const tx = {
+  run: vi.fn(async (_query: string, _params?: Record<string, unknown>) => ({ records: runQueue.shift() ?? [] }))
+};
+
+vi.mock("../graph/driver.js", () => ({
+  getSession: vi.fn(() => ({
+    executeRead: async (work: (transaction: typeof tx) => unknown) => work(tx),
+    executeWrite: async (work: (transaction: typeof tx) => unknown) => work(tx),
+    close: vi.fn(async () => undefined)
+  }))
+}));
+
+const createNotifications = vi.fn(async () => []);
+vi.mock("../notifications.js", () => ({ createNotifications }));
+
+const sendCommentMentionEmail = vi.fn(async () => undefined);
+vi.mock("../../lib/email.js", () => ({ sendCommentMentionEmail }));
+
+const { createComment, deleteComment, getCommentCounts, listCommentThreads, setCommentThreadResolved, CommentError } = await import("../graph/comments.js");
+const { extractMentionEmails, notifyMentionedUsers } = await import("../comment-mentions.js");
+
+function record(values: Record<string, unknown>): FakeRecord {
+  return { get: (key: string) => values[key] };
+}
+
+function commentNode(overrides: Record<string, unknown> = {}) {
+  return {
+    properties: {
+      id: "c-1",
+      tenant: "acme",
+      projectKey: "rocket",
+      targetType: "requirement",
+      targetId: "req-1",
+      documentSlug: "sys",
+      authorId: "alice",
+      body: "Is 100 ms achievable? @bob@example.com",
+      mentions: ["bob"],
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+      ...overrides
+    }
+  };
+}
+
+describe("comments", () => {
+  it("extracts mentioned email addresses", () => {
+    expect(extractMentionEmails("Thoughts @Bob@Example.com and @carol@example.co.uk? cc @bob@example.com."))
+      .toEqual(["bob@example.com", "carol@example.co.uk"]);
+    expect(extractMentionEmails("Mail me at dave@example.com")).toEqual([]);
+  });
+
+  it("groups replies under their thread root", async () => {
+    runQueue.push([record({
+      root: commentNode({ resolved: true, resolvedBy: "bob", resolvedAt: "2026-01-03T00:00:00.000Z" }),
+      replies: [
+        commentNode({ id: "c-3", parentId: "c-1", authorId: "alice", body: "Agreed", createdAt: "2026-01-02T12:00:00.000Z" }),
+        commentNode({ id: "c-2", parentId: "c-1", authorId: "bob", body: "Yes", createdAt: "2026-01-02T00:00:00.000Z" })
+      ]
+    })]);
+
+    const [thread] = await listCommentThreads("acme", "rocket", { documentSlug: "sys" });
+
+    expect(thread).toMatchObject({ id: "c-1", threadId: "c-1", parentId: null, resolved: true, resolvedBy: "bob" });
+    expect(thread.replies.map(reply => [reply.id, reply.threadId])).toEqual([["c-2", "c-1"], ["c-3", "c-1"]]);
+  });
+
+  it("attaches replies to a reply to the same thread", async () => {
+    runQueue.push([record({ rootId: "c-1", targetType: "requirement", targetId: "req-1" })]);
+    runQueue.push([record({ comment: commentNode({ id: "c-4", parentId: "c-1", body: "Reply" }) })]);
+
+    const comment = await createComment("acme", "rocket", {
+      targetType: "requirement",
+      targetId: "req-1",
+      parentId: "c-2",
+      authorId: "carol",
+      body: "Reply"
+    });
+
+    expect(comment.threadId).toBe("c-1");
+    expect(tx.run).toHaveBeenLastCalledWith(expect.stringContaining("CREATE (comment)-[:COMMENTS_ON]->(target)"), expect.objectContaining({
+      rootId: "c-1",
+      targetId: "req-1"
+    }));
+  });
+
+  it("rejects comments on unknown targets and deletion by other users", async () => {
+    runQueue.push([]);
+    await expect(createComment("acme", "rocket", {
+      targetType: "trace-link",
+      targetId: "missing",
+      authorId: "alice",
+      body: "Hello"
+    })).rejects.toMatchObject({ statusCode: 404 });
+
+    runQueue.push([record({ authorId: "alice" })]);
+    await expect(deleteComment("acme", "rocket", "c-1", { userId: "mallory", canModerate: false }))
+      .rejects.toBeInstanceOf(CommentError);
+  });
+
+  it("lets only the author, document reviewers and moderators resolve a thread", async () => {
+    runQueue.push([record({ authorId: "alice", reviewers: ["bob"] })]);
+    await expect(setCommentThreadResolved("acme", "rocket", "c-1", { resolved: true, userId: "mallory", canModerate: false }))
+      .rejects.toMatchObject({ statusCode: 403 });
+
+    for (const actor of [{ userId: "alice", canModerate: false }, { userId: "bob", canModerate: false }, { userId: "dave", canModerate: true }]) {
+      runQueue.push([record({ authorId: "alice", reviewers: ["bob"] })], [record({ threadId: "c-1" })]);
+      tx.run.mockClear();
+      await setCommentThreadResolved("acme", "rocket", "c-1", { resolved: true, ...actor }).catch(() => undefined);
+      expect(tx.run.mock.calls[1]?.[0]).toContain("SET root.resolved = $resolved");
+    }
+  });
+
+  it("counts comments and open threads per target", async () => {
+    runQueue.push([record({ targetId: "req-1", total: neo4j.int(3), open: neo4j.int(1) })]);
+
+    await expect(getCommentCounts("acme", "rocket", { targetType: "requirement" }))
+      .resolves.toEqual({ "req-1": { total: 3, open: 1 } });
+  });
+
+  it("notifies mentioned users except the author", async () => {
+    runQueue.push([record({ root: commentNode(), replies: [] })]);
+    const [comment] = await listCommentThreads("acme", "rocket");
+
+    await notifyMentionedUsers(comment, [
+      { id: "alice", email: "alice@example.com", name: "Alice" },
+      { id: "bob", email: "bob@example.com", name: "Bob" }
+    ], { id: "alice", name: "Alice" });
+
+    expect(createNotifications).toHaveBeenCalledWith([
+      expect.objectContaining({ userId: "bob", type: "mention", title: "Alice mentioned you in a comment" })
+    ]);
+    expect(sendCommentMentionEmail).toHaveBeenCalledTimes(1);
+    expect(sendCommentMentionEmail).toHaveBeenCalledWith("bob@example.com", "Bob", expect.objectContaining({
+      mentionedBy: "Alice",
+      documentSlug: "sys"
+    }));
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+
+type FakeRecord = { get: (key: string) => unknown };
+
+const responses: Array<[RegExp, FakeRecord[]]> = [];
+const tx = {
+  run: vi.fn(async (query: string) => ({
+    records: responses.find(([pattern]) => pattern.test(query))?.[1] ?? []
+  }))
+};
+
+vi.mock("../graph/driver.js", () => ({
+  getSession: vi.fn(() => ({
+    executeRead: async (work: (transaction: typeof tx) => unknown) => work(tx),
+    executeWrite: async (work: (transaction: typeof tx) => unknown) => work(tx),
+    close: vi.fn(async () => undefined)
+  }))
+}));
+
+vi.mock("../webhooks.js", () => ({
+  emitWebhookEvent: vi.fn(),
+  executeWriteWithWebhookEvents: (session: { executeWrite: (work: unknown) => unknown }, work: unknown) => session.executeWrite(work)
+}));
+
+const { setPresenceCondition } = await import("../graph/feature-model.js");
+const { DocumentLockedError } = await import("../graph/documents/documents-lock.js");
+
+function record(values: Record<string, unknown>): FakeRecord {
+  return { get: (key: string) => values[key] };
+}
+
+const clearCondition = {
+  tenant: "acme",
+  projectKey: "rover",
+  entityType: "requirement" as const,
+  entityId: "acme:rover:SYS-001",
+  condition: null,
+  userId: "ana"
+};
+
+describe("setPresenceCondition", () => {
+  it("refuses requirements in approved documents", async () => {
+    responses.length = 0;
+    tx.run.mockClear();
+    responses.push([/reviewStatus = 'approved'/, [record({ slug: "sys" })]]);
+
+    await expect(setPresenceCondition(clearCondition)).rejects.toBeInstanceOf(DocumentLockedError);
+    expect(tx.run.mock.calls.some(([query]) => query.includes("SET entity.presenceCondition"))).toBe(false);
+  });
+
+  it("records a requirement version when the condition changes", async () => {
+    responses.length = 0;
+    tx.run.mockClear();
+    responses.push(
+      [/SET entity.presenceCondition/, [record({
+        label: "SYS-001",
+        previous: "wheels",
+        entity: { properties: { id: "acme:rover:SYS-001", ref: "SYS-001", text: "The rover shall stop.", contentHash: "hash" } }
+      })]],
+      [/count\(v\) as versionCount/, [record({ versionCount: { toNumber: () => 2 } })]]
+    );
+
+    await expect(setPresenceCondition(clearCondition)).resolves.toBeNull();
+
+    const versionCall = tx.run.mock.calls.find(([query]) => query.includes("CREATE (version:RequirementVersion"));
+    expect(versionCall?.[1]).toMatchObject({
+      requirementId: "acme:rover:SYS-001",
+      versionNumber: 3,
+      changedBy: "ana",
+      changeDescription: "Presence condition cleared",
+      text: "The rover shall stop."
+    });
+  });
+});
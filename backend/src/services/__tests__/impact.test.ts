@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ImpactEdge, ImpactGraph, ImpactNode, ImpactNodeKind } from "../graph/impact.js";
+
+vi.mock("../graph/driver.js", () => ({
+  getSession: vi.fn()
+}));
+
+const { analyzeImpactGraph, impactNodeKey, ImpactAnalysisError } = await import("../graph/impact.js");
+const { renderImpactCsv, renderImpactMarkdown } = await import("../impact-report.js");
+
+function node(kind: ImpactNodeKind, id: string, label = id): ImpactNode {
+  return { key: impactNodeKey(kind, id), kind, id, label, detail: null };
+}
+
+function edge(from: ImpactNode, to: ImpactNode, relation: ImpactEdge["relation"], label: string, suspect?: boolean): ImpactEdge {
+  return { from: from.key, to: to.key, relation, label, suspect };
+}
+
+// SYS-1 → SUB-1 → SUB-2, SUB-1 allocated to Pump, Pump → power bus → Controller,
+// SUB-1 verified by Bench test, evidenced by Run 1, recorded in Test report
+const sys1 = node("requirement", "sys-1", "SYS-1");
+const sub1 = node("requirement", "sub-1", "SUB-1");
+const sub2 = node("requirement", "sub-2", "SUB-2");
+const pump = node("block", "pump", "Pump");
+const bus = node("connector", "bus", "power bus");
+const controller = node("block", "controller", "Controller");
+const activity = node("verificationActivity", "act-1", "Bench test");
+const evidence = node("verificationEvidence", "ev-1", "Run 1");
+const report = node("verificationDocument", "vdoc-1", "Test report");
+
+const graph: ImpactGraph = {
+  nodes: new Map([sys1, sub1, sub2, pump, bus, controller, activity, evidence, report].map(n => [n.key, n])),
+  edges: [
+    edge(sys1, sub1, "trace", "derives"),
+    edge(sub1, sub2, "trace", "refines", true),
+    edge(sub1, pump, "allocated", "allocated to"),
+    edge(pump, bus, "connects", "connected through"),
+    edge(bus, controller, "connects", "connects to"),
+    edge(sub1, activity, "verifies", "verified by"),
+    edge(activity, evidence, "evidences", "evidenced by"),
+    edge(evidence, report, "documents", "recorded in (rev 2)")
+  ]
+};
+
+describe("analyzeImpactGraph", () => {
+  it("walks downstream across trace, architecture and verification relationships", () => {
+    const result = analyzeImpactGraph(graph, sub1.key, { direction: "downstream", maxDepth: 5 });
+
+    expect(result.upstream).toEqual([]);
+    expect(result.downstream.map(entry => [entry.key, entry.depth])).toEqual([
+      [sub2.key, 1],
+      [pump.key, 1],
+      [activity.key, 1],
+      [bus.key, 2],
+      [evidence.key, 2],
+      [controller.key, 3],
+      [report.key, 3]
+    ]);
+    const reportEntry = result.downstream.find(entry => entry.key === report.key)!;
+    expect(reportEntry.explanation).toBe("SUB-1 —verified by→ Bench test —evidenced by→ Run 1 —recorded in (rev 2)→ Test report");
+    expect(result.truncated).toBe(false);
+  });
+
+  it("walks upstream from a verification document back to the requirements it verifies", () => {
+    const result = analyzeImpactGraph(graph, report.key, { direction: "upstream", maxDepth: 5 });
+
+    expect(result.upstream.map(entry => entry.key)).toEqual([evidence.key, activity.key, sub1.key, sys1.key]);
+    expect(result.upstream.at(-1)!.explanation).toBe(
+      "Test report ←recorded in (rev 2)— Run 1 ←evidenced by— Bench test ←verified by— SUB-1 ←derives— SYS-1"
+    );
+  });
+
+  it("stops at the depth limit and reports truncation", () => {
+    const result = analyzeImpactGraph(graph, sys1.key, { direction: "downstream", maxDepth: 1 });
+
+    expect(result.downstream.map(entry => entry.key)).toEqual([sub1.key]);
+    expect(result.truncated).toBe(true);
+    expect(result.nodes.map(n => n.key)).toEqual([sys1.key, sub1.key]);
+    expect(result.edges).toEqual([graph.edges[0]]);
+  });
+
+  it("reports both directions from a block and keeps only edges between returned nodes", () => {
+    const result = analyzeImpactGraph(graph, pump.key, { direction: "both", maxDepth: 2 });
+
+    expect(result.upstream.map(entry => entry.key)).toEqual([sub1.key, sys1.key]);
+    expect(result.downstream.map(entry => entry.key)).toEqual([bus.key, controller.key]);
+    expect(result.edges.every(e => result.nodes.some(n => n.key === e.from) && result.nodes.some(n => n.key === e.to))).toBe(true);
+  });
+
+  it("rejects an unknown root with a 404", () => {
+    expect(() => analyzeImpactGraph(graph, impactNodeKey("requirement", "missing"), { direction: "both", maxDepth: 3 }))
+      .toThrow(ImpactAnalysisError);
+  });
+});
+
+describe("impact report", () => {
+  const analysis = {
+    tenant: "acme",
+    projectKey: "pump",
+    direction: "both" as const,
+    maxDepth: 3,
+    generatedAt: "2026-01-01T00:00:00.000Z",
+    ...analyzeImpactGraph(graph, sub1.key, { direction: "both", maxDepth: 3 })
+  };
+
+  it("renders a Markdown change-board pack with paths and suspect markers", () => {
+    const markdown = renderImpactMarkdown(analysis);
+
+    expect(markdown).toContain("# Impact Analysis: SUB-1");
+    expect(markdown).toContain("## Upstream (1)");
+    expect(markdown).toContain("## Downstream (7)");
+    expect(markdown).toContain("| 1 | Requirement | SUB-2 |  | SUB-1 —refines→ SUB-2 ⚠ suspect link |");
+  });
+
+  it("renders CSV rows with quoted fields", () => {
+    const lines = renderImpactCsv(analysis).trim().split("\r\n");
+
+    expect(lines[0]).toBe("direction,depth,type,id,item,details,suspect,path");
+    expect(lines[1]).toBe("upstream,1,Requirement,sys-1,SYS-1,,no,SUB-1 ←derives— SYS-1");
+    expect(lines).toHaveLength(9);
+  });
+});
@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const settingsRepo = {
+  getSettings: vi.fn()
+};
+
+const usageRepo = {
+  getQuota: vi.fn(),
+  getMonthToDate: vi.fn(),
+  recordUsage: vi.fn()
+};
+
+vi.mock("../../repositories/LlmSettingsRepository.js", () => ({
+  LlmSettingsRepository: vi.fn(() => settingsRepo)
+}));
+
+vi.mock("../../repositories/LlmUsageRepository.js", () => ({
+  LlmUsageRepository: vi.fn(() => usageRepo)
+}));
+
+const { config } = await import("../../config.js");
+const {
+  llmChat,
+  llmEmbed,
+  setFakeLlmResponder,
+  LlmQuotaExceededError,
+  __resetLlmProvidersForTests
+} = await import("../llm-providers/index.js");
+
+const mutableConfig = config as unknown as {
+  llm: Record<keyof typeof config.llm, string | number | null>;
+  databaseUrl: string | undefined;
+};
+const originalLlmConfig = { ...config.llm };
+
+const caller = { tenant: "acme", project: "rover", userId: "7d0f8c52-8f8e-4a43-9c1a-2f6f3f0d5e11", feature: "drafting" };
+
+function quota(overrides: Record<string, unknown> = {}) {
+  return {
+    tenantSlug: "acme",
+    monthlyTokenSoftLimit: null,
+    monthlyTokenHardLimit: null,
+    monthlyCostSoftLimitUsd: null,
+    monthlyCostHardLimitUsd: null,
+    retainPrompts: false,
+    retentionDays: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  };
+}
+
+function monthToDate(promptTokens: number, costUsd = 0) {
+  return { calls: 1, promptTokens, completionTokens: 0, costUsd, errors: 0, blocked: 0, avgLatencyMs: 0 };
+}
+
+beforeEach(() => {
+  Object.assign(mutableConfig.llm, originalLlmConfig, { provider: "fake", model: "fake-chat", embeddingModel: "fake-embed" });
+  mutableConfig.databaseUrl = "postgres://localhost/airgen";
+  __resetLlmProvidersForTests();
+  settingsRepo.getSettings.mockReset().mockResolvedValue(null);
+  usageRepo.getQuota.mockReset().mockResolvedValue(null);
+  usageRepo.getMonthToDate.mockReset();
+  usageRepo.recordUsage.mockReset().mockResolvedValue("usage-1");
+  setFakeLlmResponder();
+});
+
+describe("usage recording", () => {
+  it("records who made each call with its tokens and cost", async () => {
+    await llmChat({ messages: [{ role: "user", content: "Draft a braking requirement" }] }, caller);
+
+    expect(usageRepo.recordUsage).toHaveBeenCalledTimes(1);
+    const [entry, audit] = usageRepo.recordUsage.mock.calls[0];
+    expect(entry).toMatchObject({
+      tenantSlug: "acme",
+      projectSlug: "rover",
+      userId: caller.userId,
+      feature: "drafting",
+      provider: "fake",
+      model: "fake-chat",
+      costUsd: 0,
+      status: "success"
+    });
+    expect(entry.promptTokens).toBeGreaterThan(0);
+    expect(audit).toBeUndefined();
+    // No limits configured, so usage totals are never read
+    expect(usageRepo.getMonthToDate).not.toHaveBeenCalled();
+  });
+
+  it("retains prompts and responses with the tenant's retention period", async () => {
+    usageRepo.getQuota.mockResolvedValue(quota({ retainPrompts: true, retentionDays: 7 }));
+
+    await llmChat({
+      messages: [{ role: "user", content: [{ type: "text", text: "Describe" }, { type: "image", mimeType: "image/png", data: "aGVsbG8=" }] }]
+    }, caller);
+
+    const [, audit] = usageRepo.recordUsage.mock.calls[0];
+    expect(audit.response).toContain("Echo: Describe");
+    expect(audit.request.messages[0].content).toEqual([
+      { type: "text", text: "Describe" },
+      { type: "image", mimeType: "image/png", bytes: 6 }
+    ]);
+    const days = (audit.expiresAt.getTime() - Date.now()) / 86_400_000;
+    expect(days).toBeGreaterThan(6.9);
+    expect(days).toBeLessThanOrEqual(7);
+  });
+
+  it("records failed calls and rethrows the provider error", async () => {
+    setFakeLlmResponder(() => {
+      throw new Error("provider down");
+    });
+
+    await expect(llmChat({ messages: [{ role: "user", content: "hi" }] }, caller)).rejects.toThrow("provider down");
+    expect(usageRepo.recordUsage.mock.calls[0][0]).toMatchObject({ status: "error", error: "provider down", costUsd: null });
+  });
+
+  it("does not fail the call when usage cannot be written", async () => {
+    usageRepo.recordUsage.mockRejectedValue(new Error("connection refused"));
+
+    const { embeddings } = await llmEmbed(["Telemetry is stored for 30 days"], { ...caller, feature: "embeddings" });
+    expect(embeddings).toHaveLength(1);
+  });
+
+  it("meters nothing without PostgreSQL", async () => {
+    mutableConfig.databaseUrl = undefined;
+
+    await llmChat({ messages: [{ role: "user", content: "hi" }] }, caller);
+    expect(usageRepo.getQuota).not.toHaveBeenCalled();
+    expect(usageRepo.recordUsage).not.toHaveBeenCalled();
+  });
+});
+
+describe("quota enforcement", () => {
+  it("blocks calls once the hard token limit is reached", async () => {
+    const responder = vi.fn(() => "never");
+    setFakeLlmResponder(responder);
+    usageRepo.getQuota.mockResolvedValue(quota({ monthlyTokenHardLimit: 1000 }));
+    usageRepo.getMonthToDate.mockResolvedValue(monthToDate(1000));
+
+    const call = llmChat({ messages: [{ role: "user", content: "hi" }] }, caller);
+    await expect(call).rejects.toBeInstanceOf(LlmQuotaExceededError);
+    await expect(call).rejects.toMatchObject({ statusCode: 429, limit: "tokens" });
+
+    expect(responder).not.toHaveBeenCalled();
+    expect(usageRepo.recordUsage).toHaveBeenCalledTimes(1);
+    expect(usageRepo.recordUsage.mock.calls[0][0]).toMatchObject({ status: "blocked", promptTokens: 0, tenantSlug: "acme" });
+  });
+
+  it("blocks on the hard cost limit", async () => {
+    usageRepo.getQuota.mockResolvedValue(quota({ monthlyCostHardLimitUsd: 50 }));
+    usageRepo.getMonthToDate.mockResolvedValue(monthToDate(10, 50.01));
+
+    await expect(llmEmbed(["text"], { ...caller, feature: "embeddings" })).rejects.toMatchObject({ limit: "cost" });
+  });
+
+  it("reports a blocked embedding as the quota error, not a generic failure", async () => {
+    const { embeddingService } = await import("../embedding.js");
+    usageRepo.getQuota.mockResolvedValue(quota({ monthlyTokenHardLimit: 1000 }));
+    usageRepo.getMonthToDate.mockResolvedValue(monthToDate(1000));
+
+    const search = embeddingService.generateEmbedding("brake response time", { tenant: "acme", project: "rover" });
+    await expect(search).rejects.toBeInstanceOf(LlmQuotaExceededError);
+    await expect(search).rejects.toMatchObject({ statusCode: 429 });
+  });
+
+  it("lets calls through past a soft limit", async () => {
+    usageRepo.getQuota.mockResolvedValue(quota({ monthlyTokenSoftLimit: 500, monthlyTokenHardLimit: 1000 }));
+    usageRepo.getMonthToDate.mockResolvedValue(monthToDate(600));
+
+    const result = await llmChat({ messages: [{ role: "user", content: "hi" }] }, caller);
+    expect(result.content).toBe("Echo: hi");
+    expect(usageRepo.recordUsage.mock.calls[0][0]).toMatchObject({ status: "success" });
+  });
+
+  it("does not limit calls without a tenant", async () => {
+    await llmChat({ messages: [{ role: "user", content: "hi" }] }, { feature: "requirement-drafts" });
+
+    expect(usageRepo.getQuota).not.toHaveBeenCalled();
+    expect(usageRepo.recordUsage.mock.calls[0][0]).toMatchObject({ tenantSlug: undefined, status: "success" });
+  });
+});
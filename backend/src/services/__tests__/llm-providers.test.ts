@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const repo = {
+  getSettings: vi.fn()
+};
+
+vi.mock("../../repositories/LlmSettingsRepository.js", () => ({
+  LlmSettingsRepository: vi.fn(() => repo)
+}));
+
+const { config } = await import("../../config.js");
+const {
+  getLlmProvider,
+  isLlmConfigured,
+  llmChat,
+  llmEmbed,
+  resolveLlmSettings,
+  setFakeLlmResponder,
+  LlmNotConfiguredError,
+  __resetLlmProvidersForTests
+} = await import("../llm-providers/index.js");
+const { fakeEmbedding } = await import("../llm-providers/fake.js");
+const { estimateCostUsd, getModelPrice } = await import("../llm-providers/pricing.js");
+
+const mutableConfig = config as unknown as {
+  llm: Record<keyof typeof config.llm, string | number | null>;
+  databaseUrl: string | undefined;
+};
+const originalLlmConfig = { ...config.llm };
+const originalDatabaseUrl = config.databaseUrl;
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+beforeEach(() => {
+  Object.assign(mutableConfig.llm, originalLlmConfig, {
+    provider: null,
+    apiKey: null,
+    baseUrl: null,
+    embeddingProvider: null,
+    embeddingApiKey: null,
+    embeddingBaseUrl: null
+  });
+  mutableConfig.databaseUrl = originalDatabaseUrl;
+  __resetLlmProvidersForTests();
+  repo.getSettings.mockReset();
+  setFakeLlmResponder();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("provider resolution", () => {
+  it("treats an API key without a provider as OpenAI", async () => {
+    mutableConfig.llm.apiKey = "sk-test";
+
+    const resolved = await resolveLlmSettings();
+    expect(resolved.source).toBe("platform");
+    expect(resolved.chat).toMatchObject({ provider: "openai", model: config.llm.model, apiKey: "sk-test" });
+    expect(resolved.embeddings).toMatchObject({ provider: "openai", model: "text-embedding-3-small", apiKey: "sk-test" });
+    expect(isLlmConfigured()).toBe(true);
+  });
+
+  it("leaves Anthropic without embeddings unless an embedding provider is set", async () => {
+    mutableConfig.llm.provider = "anthropic";
+    mutableConfig.llm.apiKey = "sk-ant";
+    expect((await resolveLlmSettings()).embeddings).toBeNull();
+    await expect(getLlmProvider("embeddings")).rejects.toThrow(LlmNotConfiguredError);
+
+    mutableConfig.llm.embeddingProvider = "local";
+    mutableConfig.llm.embeddingBaseUrl = "http://localhost:11434/v1";
+    mutableConfig.llm.embeddingModel = "nomic-embed-text";
+    expect((await resolveLlmSettings()).embeddings).toMatchObject({
+      provider: "local",
+      model: "nomic-embed-text",
+      baseUrl: "http://localhost:11434/v1"
+    });
+  });
+
+  it("rejects unknown providers and incomplete settings", async () => {
+    mutableConfig.llm.provider = "watsonx";
+    await expect(resolveLlmSettings()).rejects.toThrow("Unsupported LLM provider 'watsonx'");
+    expect(isLlmConfigured()).toBe(false);
+
+    mutableConfig.llm.provider = "local";
+    await expect(getLlmProvider("chat")).rejects.toThrow("LLM provider 'local' is missing its API key or endpoint URL");
+  });
+
+  it("uses a tenant's own provider and caches the lookup", async () => {
+    mutableConfig.databaseUrl = "postgres://localhost/airgen";
+    mutableConfig.llm.apiKey = "sk-platform";
+    repo.getSettings.mockImplementation(async (tenant: string) => tenant === "acme"
+      ? { tenantSlug: "acme", provider: "anthropic", model: "claude-sonnet-4", apiKey: "sk-ant", createdAt: new Date(), updatedAt: new Date() }
+      : null);
+
+    const acme = await resolveLlmSettings("acme");
+    expect(acme.source).toBe("tenant");
+    expect(acme.chat).toMatchObject({ provider: "anthropic", model: "claude-sonnet-4", apiKey: "sk-ant" });
+    // Anthropic tenants embed with the platform default
+    expect(acme.embeddings).toMatchObject({ provider: "openai", apiKey: "sk-platform" });
+
+    expect((await resolveLlmSettings("globex")).source).toBe("platform");
+    await resolveLlmSettings("acme");
+    expect(repo.getSettings).toHaveBeenCalledTimes(2);
+  });
+
+  it("skips the tenant lookup when PostgreSQL is not configured", async () => {
+    mutableConfig.databaseUrl = undefined;
+    mutableConfig.llm.provider = "fake";
+
+    expect((await resolveLlmSettings("acme")).source).toBe("platform");
+    expect(repo.getSettings).not.toHaveBeenCalled();
+  });
+});
+
+describe("fake provider", () => {
+  beforeEach(() => {
+    mutableConfig.llm.provider = "fake";
+    mutableConfig.llm.model = "fake-chat";
+    mutableConfig.llm.embeddingModel = "fake-embed";
+  });
+
+  it("replies through the scripted responder with usage and zero cost", async () => {
+    setFakeLlmResponder(request => JSON.stringify({ json: request.json ?? false }));
+
+    const result = await llmChat({
+      messages: [{ role: "system", content: "Be brief." }, { role: "user", content: "Draft a requirement." }],
+      json: true
+    }, { feature: "test" });
+
+    expect(result).toMatchObject({ content: '{"json":true}', provider: "fake", model: "fake-chat", costUsd: 0 });
+    expect(result.usage.promptTokens).toBeGreaterThan(0);
+    expect(result.usage.completionTokens).toBe(4);
+    expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("echoes the last user message by default", async () => {
+    const result = await llmChat({ messages: [{ role: "user", content: "ping" }] }, { feature: "test" });
+    expect(result.content).toBe("Echo: ping");
+  });
+
+  it("embeds deterministically at the configured dimensions", async () => {
+    const { embeddings, model } = await llmEmbed(
+      ["The rover shall brake within 200 ms", "The rover shall brake within 200 ms", "Telemetry is stored for 30 days"],
+      { feature: "test" }
+    );
+
+    expect(model).toBe("fake-embed");
+    expect(embeddings[0]).toHaveLength(config.llm.embeddingDimensions);
+    expect(embeddings[0]).toEqual(embeddings[1]);
+    expect(cosine(embeddings[0], embeddings[0])).toBeCloseTo(1, 6);
+    expect(cosine(embeddings[0], embeddings[2])).toBeLessThan(0.5);
+    expect(cosine(fakeEmbedding("brake within 200 ms", 512), fakeEmbedding("the rover shall brake within 200 ms", 512))).toBeGreaterThan(0.7);
+  });
+});
+
+describe("anthropic provider", () => {
+  it("maps messages to the Messages API and reads usage", async () => {
+    mutableConfig.llm.provider = "anthropic";
+    mutableConfig.llm.apiKey = "sk-ant";
+    mutableConfig.llm.model = "claude-sonnet-4-20250514";
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      model: "claude-sonnet-4-20250514",
+      content: [{ type: "text", text: "{\"ok\":true}" }],
+      usage: { input_tokens: 1200, output_tokens: 300 }
+    }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await llmChat({
+      messages: [
+        { role: "system", content: "You draft requirements." },
+        { role: "user", content: [{ type: "text", text: "Describe this" }, { type: "image", mimeType: "image/png", data: "aGVsbG8=" }] }
+      ],
+      json: true,
+      temperature: 0.2
+    }, { feature: "test" });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const body = JSON.parse(String(init.body));
+    expect(url).toBe("https://api.anthropic.com/v1/messages");
+    expect((init.headers as Record<string, string>)["x-api-key"]).toBe("sk-ant");
+    expect(body).toMatchObject({ model: "claude-sonnet-4-20250514", max_tokens: 4096, temperature: 0.2 });
+    expect(body.system).toContain("You draft requirements.");
+    expect(body.system).toContain("JSON");
+    expect(body.messages).toEqual([{
+      role: "user",
+      content: [
+        { type: "text", text: "Describe this" },
+        { type: "image", source: { type: "base64", media_type: "image/png", data: "aGVsbG8=" } }
+      ]
+    }]);
+
+    expect(result.content).toBe("{\"ok\":true}");
+    expect(result.usage).toEqual({ promptTokens: 1200, completionTokens: 300, estimated: false });
+    expect(result.costUsd).toBeCloseTo(0.0081, 8);
+  });
+
+  it("surfaces API errors with their status", async () => {
+    mutableConfig.llm.provider = "anthropic";
+    mutableConfig.llm.apiKey = "sk-ant";
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(
+      JSON.stringify({ error: { type: "authentication_error", message: "invalid x-api-key" } }),
+      { status: 401, statusText: "Unauthorized" }
+    )));
+
+    await expect(llmChat({ messages: [{ role: "user", content: "hi" }] }, { feature: "test" }))
+      .rejects.toMatchObject({ name: "LlmProviderError", providerStatus: 401, message: expect.stringContaining("invalid x-api-key") });
+  });
+});
+
+describe("pricing", () => {
+  it("matches dated model names to the longest known prefix", () => {
+    expect(getModelPrice("openai", "gpt-4o-mini-2024-07-18")).toEqual({ prompt: 0.15, completion: 0.6 });
+    expect(getModelPrice("openai", "gpt-4o-2024-08-06")).toEqual({ prompt: 2.5, completion: 10 });
+    expect(getModelPrice("azure", "my-deployment")).toBeNull();
+  });
+
+  it("costs local and fake models nothing and unknown models null", () => {
+    const usage = { promptTokens: 1_000_000, completionTokens: 1_000_000, estimated: false };
+    expect(estimateCostUsd("local", "llama3.1:8b", usage)).toBe(0);
+    expect(estimateCostUsd("openai", "gpt-4.1-mini", usage)).toBe(2);
+    expect(estimateCostUsd("openai", "mystery-model", usage)).toBeNull();
+  });
+});
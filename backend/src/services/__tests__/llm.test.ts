@@ -70,13 +70,13 @@ describe("generateLlmDrafts", () => {
   });
 
   it("throws when configured with an unsupported provider", async () => {
-    mutableConfig.llm.provider = "anthropic";
+    mutableConfig.llm.provider = "watsonx";
     mutableConfig.llm.apiKey = "test-key";
 
     await expect(generateLlmDrafts({
       need: "Synchronize guidance software.",
       count: 2
-    })).rejects.toThrow("Unsupported LLM provider 'anthropic'");
+    })).rejects.toThrow("Unsupported LLM provider 'watsonx'");
 
     expect(openAiConstructorMock).not.toHaveBeenCalled();
   });
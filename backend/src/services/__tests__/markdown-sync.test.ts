@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ManagedTransaction } from "neo4j-driver";
+import type { ParsedDocument } from "../markdown-parser.js";
+import type { DocumentRecord } from "../graph/documents/index.js";
+import { DocumentLockedError } from "../graph/documents/documents-lock.js";
+import { syncParsedDocument } from "../markdown-sync.js";
+
+function record(values: Record<string, unknown>) {
+  return { get: (key: string) => values[key] };
+}
+
+describe("syncParsedDocument", () => {
+  it("refuses to write an approved document", async () => {
+    const tx = {
+      run: vi.fn(async (query: string) => ({
+        records: query.includes("document.reviewStatus = 'approved'") ? [record({ slug: "sys" })] : []
+      }))
+    };
+    const parsed = { sections: [], requirements: [], infos: [], surrogates: [], blocks: [] } as unknown as ParsedDocument;
+
+    await expect(syncParsedDocument(tx as unknown as ManagedTransaction, {
+      tenant: "acme",
+      projectKey: "rocket",
+      document: { slug: "sys" } as DocumentRecord,
+      documentSlug: "sys",
+      parsed
+    })).rejects.toBeInstanceOf(DocumentLockedError);
+
+    // Nothing is written after the lock check fails
+    expect(tx.run.mock.calls.some(([query]) => /\b(CREATE|SET|DELETE|MERGE)\b/.test(query))).toBe(false);
+  });
+});
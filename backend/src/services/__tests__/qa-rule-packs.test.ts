@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  analyzeRequirement,
+  DEFAULT_RULE_PACK,
+  INCOSE_GTWR_RULE_PACK,
+  type RulePack
+} from "@airgen/req-qa";
+
+vi.mock("../graph/driver.js", () => ({
+  getSession: vi.fn(() => {
+    throw new Error("session should not be opened for invalid packs");
+  })
+}));
+
+const { saveQaRulePack } = await import("../graph/qa-rule-packs.js");
+
+const GOOD = "When the pump starts, the controller shall raise the pressure to 2 bar within 500 ms.";
+
+describe("QA rule packs", () => {
+  it("scores with the default pack when none is given", () => {
+    const result = analyzeRequirement(GOOD);
+
+    expect(result.score).toBe(100);
+    expect(result.pack).toEqual({ id: DEFAULT_RULE_PACK.id, version: DEFAULT_RULE_PACK.version });
+    expect(result.hits.map(hit => hit.rule)).toEqual(DEFAULT_RULE_PACK.rules.map(entry => entry.rule));
+  });
+
+  it("applies weights, thresholds and severities from the pack", () => {
+    const pack: RulePack = {
+      id: "acme",
+      name: "Acme",
+      version: 2,
+      thresholds: { pass: 50, warn: 20 },
+      rules: [
+        { rule: "ShallVoice", weight: 3 },
+        { rule: "BannedWords", name: "NoTBD", severity: "error", options: { words: ["TBD"] } },
+        { rule: "RegexRequired", name: "EventTrigger", severity: "info", options: { pattern: "^When\\b" } }
+      ]
+    };
+
+    const result = analyzeRequirement("The system shall respond within TBD.", { pack });
+
+    expect(result.score).toBe(75);
+    expect(result.verdict).toBe("Usable with edits"); // error-severity failure caps the verdict
+    expect(result.hits.find(hit => hit.rule === "NoTBD")).toMatchObject({ ok: false, severity: "error" });
+    expect(result.hits.find(hit => hit.rule === "EventTrigger")).toMatchObject({ ok: false, severity: "info" });
+    expect(result.pack).toEqual({ id: "acme", version: 2 });
+  });
+
+  it("only enforces tag-scoped rules on tagged requirements", () => {
+    const pack: RulePack = {
+      ...DEFAULT_RULE_PACK,
+      rules: [{ rule: "UnitsPerTag", options: { tags: ["performance"], units: ["ms"] } }]
+    };
+    const text = "The system shall respond quickly.";
+
+    expect(analyzeRequirement(text, { pack }).score).toBe(100);
+    expect(analyzeRequirement(text, { pack, tags: ["Performance"] }).score).toBe(0);
+  });
+
+  it("flags INCOSE escape clauses", () => {
+    const result = analyzeRequirement(
+      "The controller shall log faults where possible within 10 ms.",
+      { pack: INCOSE_GTWR_RULE_PACK }
+    );
+
+    expect(result.hits.find(hit => hit.rule === "R8-EscapeClauses")).toMatchObject({ ok: false });
+  });
+
+  it("rejects packs that reference unknown rules before touching the graph", async () => {
+    await expect(saveQaRulePack({
+      tenant: "acme",
+      projectKey: "rocket",
+      userId: "user-1",
+      pack: {
+        id: "broken",
+        name: "Broken",
+        thresholds: { pass: 80, warn: 90 },
+        rules: [{ rule: "NoSuchRule" }]
+      }
+    })).rejects.toThrow(/Invalid rule pack: .*warn <= pass.*Unknown rule 'NoSuchRule'/);
+  });
+
+  it("rejects regex rules that could backtrack catastrophically", async () => {
+    await expect(saveQaRulePack({
+      tenant: "acme",
+      projectKey: "rocket",
+      userId: "user-1",
+      pack: {
+        id: "slow",
+        name: "Slow",
+        thresholds: { pass: 80, warn: 70 },
+        rules: [
+          { rule: "RegexForbidden", name: "Nested", options: { pattern: "^(a+)+$" } },
+          { rule: "RegexRequired", name: "Long", options: { pattern: "a".repeat(201) } }
+        ]
+      }
+    })).rejects.toThrow(/Nested' pattern is rejected: nested quantifiers.*Long' pattern is rejected: longer than 200/);
+  });
+
+  it("never runs an unsafe pattern stored before validation existed", () => {
+    const pack: RulePack = {
+      ...DEFAULT_RULE_PACK,
+      rules: [{ rule: "RegexForbidden", options: { pattern: "^(\\w+\\s?)*$" } }]
+    };
+
+    const result = analyzeRequirement(`${"word ".repeat(40)}!`, { pack });
+
+    expect(result.hits[0]).toMatchObject({ ok: true });
+  });
+});
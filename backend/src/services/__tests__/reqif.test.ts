@@ -0,0 +1,319 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type FakeRequirementRow = {
+  properties: Record<string, unknown>;
+  sectionId: string | null;
+  sectionOrder: number | null;
+};
+
+let requirementRows: FakeRequirementRow[] = [];
+
+const getDocumentMock = vi.fn();
+const listDocumentSectionsMock = vi.fn();
+const listTraceLinksMock = vi.fn();
+const createRequirementMock = vi.fn();
+const updateRequirementMock = vi.fn();
+const createDocumentSectionMock = vi.fn();
+const createTraceLinkMock = vi.fn();
+const reorderRequirementsMock = vi.fn();
+
+vi.mock("../graph.js", () => ({
+  getDocument: getDocumentMock,
+  listDocumentSections: listDocumentSectionsMock,
+  listTraceLinks: listTraceLinksMock,
+  createRequirement: createRequirementMock,
+  updateRequirement: updateRequirementMock,
+  createDocumentSection: createDocumentSectionMock,
+  createTraceLink: createTraceLinkMock,
+  reorderRequirements: reorderRequirementsMock,
+  getAttributeSchema: async () => null,
+  mapRequirement: (node: { properties: Record<string, unknown> }) => ({
+    tags: [],
+    ...node.properties,
+    attributes: node.properties.attributes ? JSON.parse(String(node.properties.attributes)) : undefined
+  })
+}));
+
+vi.mock("../graph/driver.js", () => ({
+  getSession: () => ({
+    executeRead: async (work: (tx: unknown) => unknown) => work({
+      run: async () => ({
+        records: requirementRows.map(row => ({
+          get: (key: string) => {
+            if (key === "requirement") {return { properties: row.properties };}
+            if (key === "sectionId") {return row.sectionId;}
+            return row.sectionOrder;
+          }
+        }))
+      })
+    }),
+    executeWrite: async () => undefined,
+    close: async () => undefined
+  })
+}));
+
+const { parseReqIF, serializeReqIF, xhtmlToText } = await import("../reqif/reqif-format.js");
+const { parseXml } = await import("../reqif/reqif-xml.js");
+const { exportDocumentToReqIF, importReqIFIntoDocument } = await import("../reqif/reqif-service.js");
+
+const section = {
+  id: "section-1",
+  name: "Braking",
+  description: "Brake behaviour",
+  shortCode: "BRK",
+  documentSlug: "srd",
+  tenant: "acme",
+  projectKey: "rover",
+  order: 0,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt: "2025-01-01T00:00:00.000Z"
+};
+
+function requirementRow(overrides: Record<string, unknown>, sectionId: string | null = "section-1", sectionOrder = 0): FakeRequirementRow {
+  return {
+    properties: {
+      id: "acme:rover:SRD-BRK-001",
+      hashId: "0a1b2c3d4e5f6a7b",
+      ref: "SRD-BRK-001",
+      tenant: "acme",
+      projectKey: "rover",
+      title: "Stop",
+      text: "The rover shall stop within 2 m.",
+      pattern: "ubiquitous",
+      verification: "Test",
+      tags: ["safety"],
+      path: "acme/rover/requirements/SRD-BRK-001.md",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      updatedAt: "2025-01-02T00:00:00.000Z",
+      ...overrides
+    },
+    sectionId,
+    sectionOrder
+  };
+}
+
+describe("ReqIF format", () => {
+  it("parses XML with entities, CDATA and namespaced elements", () => {
+    const root = parseXml(`<?xml version="1.0"?><!-- c --><a x="1 &amp; 2"><b:c>t &lt; u</b:c><![CDATA[<raw>]]></a>`);
+    expect(root.name).toBe("a");
+    expect(root.attributes.x).toBe("1 & 2");
+    expect(root.children).toEqual([{ name: "b:c", attributes: {}, children: ["t < u"] }, "<raw>"]);
+  });
+
+  it("keeps character references outside the Unicode range literally", () => {
+    const root = parseXml(`<a x="&#99999999;">&#x110000; &#x41;</a>`);
+    expect(root.attributes.x).toBe("&#99999999;");
+    expect(root.children).toEqual(["&#x110000; A"]);
+  });
+
+  it("rejects malformed XML", () => {
+    expect(() => parseXml("<a><b></a>")).toThrow(/Malformed XML/);
+  });
+
+  it("round-trips the model through XML", () => {
+    const doc = {
+      header: { identifier: "H", title: "Spec", creationTime: "2025-01-01T00:00:00.000Z", sourceToolId: "AIRGen" },
+      specObjectTypes: [{
+        identifier: "T",
+        longName: "Requirement",
+        attributes: [
+          { identifier: "A-TEXT", longName: "ReqIF.Text", dataType: "XHTML" as const },
+          { identifier: "A-MASS", longName: "mass", dataType: "REAL" as const },
+          { identifier: "A-FLAG", longName: "critical", dataType: "BOOLEAN" as const }
+        ]
+      }],
+      specRelationTypes: [{ identifier: "RT", longName: "derives" }],
+      specObjects: [
+        { identifier: "O1", typeRef: "T", values: { "A-TEXT": "Line one\nLine <two>", "A-MASS": 1.5, "A-FLAG": true } },
+        { identifier: "O2", typeRef: "T", values: { "A-TEXT": "Child" } }
+      ],
+      specRelations: [{ identifier: "R1", typeRef: "RT", sourceRef: "O2", targetRef: "O1" }],
+      specifications: [{
+        identifier: "S",
+        longName: "Spec",
+        children: [{ identifier: "H1", objectRef: "O1", children: [{ identifier: "H2", objectRef: "O2", children: [] }] }]
+      }]
+    };
+
+    const parsed = parseReqIF(serializeReqIF(doc));
+
+    expect(parsed.specObjects).toEqual([
+      { identifier: "O1", typeRef: "T", lastChange: doc.header.creationTime, values: { "A-TEXT": "Line one\nLine <two>", "A-MASS": 1.5, "A-FLAG": true } },
+      { identifier: "O2", typeRef: "T", lastChange: doc.header.creationTime, values: { "A-TEXT": "Child" } }
+    ]);
+    expect(parsed.specRelations[0]).toMatchObject({ sourceRef: "O2", targetRef: "O1", typeRef: "RT" });
+    expect(parsed.specifications[0].children[0].children[0].objectRef).toBe("O2");
+    expect(parsed.specObjectTypes[0].attributes.map(a => a.dataType)).toEqual(["XHTML", "REAL", "BOOLEAN"]);
+  });
+
+  it("flattens pretty-printed XHTML to text", () => {
+    const root = parseXml(`<THE-VALUE><xhtml:div>\n  <xhtml:p>First\n    paragraph</xhtml:p>\n  <xhtml:p>Second</xhtml:p>\n</xhtml:div></THE-VALUE>`);
+    expect(xhtmlToText(root)).toBe("First paragraph\n\nSecond");
+  });
+
+  it("rejects documents that are not ReqIF", () => {
+    expect(() => parseReqIF("<html/>")).toThrow(/Invalid ReqIF/);
+  });
+});
+
+describe("ReqIF service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getDocumentMock.mockResolvedValue({ slug: "srd", name: "System Requirements" });
+    listDocumentSectionsMock.mockResolvedValue([section]);
+    listTraceLinksMock.mockResolvedValue([]);
+    requirementRows = [
+      requirementRow({ attributes: JSON.stringify({ mass: 12, owner: "GNC" }) }),
+      requirementRow({
+        id: "acme:rover:SRD-BRK-002",
+        hashId: "ffeeddccbbaa9988",
+        ref: "SRD-BRK-002",
+        text: "The rover shall hold position on a 15 degree slope."
+      }, "section-1", 1)
+    ];
+    listTraceLinksMock.mockResolvedValue([{
+      id: "link-1",
+      sourceRequirementId: "acme:rover:SRD-BRK-002",
+      targetRequirementId: "acme:rover:SRD-BRK-001",
+      linkType: "refines",
+      updatedAt: "2025-01-03T00:00:00.000Z"
+    }]);
+  });
+
+  it("exports sections as hierarchy, requirements as objects and links as relations", async () => {
+    const parsed = parseReqIF(await exportDocumentToReqIF("acme", "rover", "srd"));
+
+    expect(parsed.header.sourceToolId).toBe("AIRGen");
+    const hierarchy = parsed.specifications[0].children;
+    expect(hierarchy.map(node => node.objectRef)).toEqual(["AIRGEN-SEC-section-1"]);
+    expect(hierarchy[0].children.map(node => node.objectRef)).toEqual([
+      "AIRGEN-REQ-0a1b2c3d4e5f6a7b",
+      "AIRGEN-REQ-ffeeddccbbaa9988"
+    ]);
+    expect(parsed.specRelations).toHaveLength(1);
+    expect(parsed.specRelationTypes).toEqual([{ identifier: "AIRGEN-RT-REFINES", longName: "refines" }]);
+
+    const massDefinition = parsed.specObjectTypes
+      .flatMap(type => type.attributes)
+      .find(definition => definition.longName === "mass");
+    expect(massDefinition?.dataType).toBe("INTEGER");
+  });
+
+  it("re-imports its own export without changes", async () => {
+    const xml = await exportDocumentToReqIF("acme", "rover", "srd");
+
+    const result = await importReqIFIntoDocument({
+      tenant: "acme", projectKey: "rover", documentSlug: "srd", content: xml, userId: "user-1"
+    });
+
+    expect(result.requirements).toEqual({ created: 0, updated: 0, unchanged: 2 });
+    expect(result.sections).toEqual({ created: 0, matched: 1 });
+    expect(result.traceLinks).toEqual({ created: 0, skipped: 1 });
+    expect(createRequirementMock).not.toHaveBeenCalled();
+    expect(updateRequirementMock).not.toHaveBeenCalled();
+  });
+
+  it("links a relation repeated within one file only once", async () => {
+    const exported = parseReqIF(await exportDocumentToReqIF("acme", "rover", "srd"));
+    const relation = exported.specRelations[0];
+    const xml = serializeReqIF({
+      ...exported,
+      specRelations: [relation, { ...relation, identifier: `${relation.identifier}-copy` }]
+    });
+    listTraceLinksMock.mockResolvedValue([]);
+
+    const planned = await importReqIFIntoDocument({
+      tenant: "acme", projectKey: "rover", documentSlug: "srd", content: xml, dryRun: true, userId: "user-1"
+    });
+    expect(planned.traceLinks).toEqual({ created: 1, skipped: 1 });
+
+    const result = await importReqIFIntoDocument({
+      tenant: "acme", projectKey: "rover", documentSlug: "srd", content: xml, userId: "user-1"
+    });
+    expect(result.traceLinks).toEqual({ created: 1, skipped: 1 });
+    expect(createTraceLinkMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("updates matched requirements instead of duplicating them", async () => {
+    const xml = (await exportDocumentToReqIF("acme", "rover", "srd"))
+      .replace("The rover shall stop within 2 m.", "The rover shall stop within 1.5 m.");
+
+    const result = await importReqIFIntoDocument({
+      tenant: "acme", projectKey: "rover", documentSlug: "srd", content: xml, userId: "user-1"
+    });
+
+    expect(result.requirements).toEqual({ created: 0, updated: 1, unchanged: 1 });
+    expect(updateRequirementMock).toHaveBeenCalledWith("acme", "rover", "acme:rover:SRD-BRK-001", {
+      text: "The rover shall stop within 1.5 m.",
+      userId: "user-1"
+    });
+    expect(createRequirementMock).not.toHaveBeenCalled();
+  });
+
+  it("plans creation of foreign objects and matches them by identifier once stored", async () => {
+    const foreign = `<?xml version="1.0" encoding="UTF-8"?>
+<REQ-IF xmlns="http://www.omg.org/spec/ReqIF/20110401/reqif.xsd">
+  <THE-HEADER><REQ-IF-HEADER IDENTIFIER="h"><SOURCE-TOOL-ID>DOORS</SOURCE-TOOL-ID><TITLE>Prime</TITLE></REQ-IF-HEADER></THE-HEADER>
+  <CORE-CONTENT><REQ-IF-CONTENT>
+    <SPEC-TYPES>
+      <SPEC-OBJECT-TYPE IDENTIFIER="t"><SPEC-ATTRIBUTES>
+        <ATTRIBUTE-DEFINITION-XHTML IDENTIFIER="d-text" LONG-NAME="ReqIF.Text"/>
+        <ATTRIBUTE-DEFINITION-STRING IDENTIFIER="d-head" LONG-NAME="ReqIF.ChapterName"/>
+        <ATTRIBUTE-DEFINITION-STRING IDENTIFIER="d-id" LONG-NAME="ReqIF.ForeignID"/>
+      </SPEC-ATTRIBUTES></SPEC-OBJECT-TYPE>
+    </SPEC-TYPES>
+    <SPEC-OBJECTS>
+      <SPEC-OBJECT IDENTIFIER="_h1"><TYPE><SPEC-OBJECT-TYPE-REF>t</SPEC-OBJECT-TYPE-REF></TYPE><VALUES>
+        <ATTRIBUTE-VALUE-STRING THE-VALUE="Power"><DEFINITION><ATTRIBUTE-DEFINITION-STRING-REF>d-head</ATTRIBUTE-DEFINITION-STRING-REF></DEFINITION></ATTRIBUTE-VALUE-STRING>
+      </VALUES></SPEC-OBJECT>
+      <SPEC-OBJECT IDENTIFIER="_r1"><TYPE><SPEC-OBJECT-TYPE-REF>t</SPEC-OBJECT-TYPE-REF></TYPE><VALUES>
+        <ATTRIBUTE-VALUE-XHTML><DEFINITION><ATTRIBUTE-DEFINITION-XHTML-REF>d-text</ATTRIBUTE-DEFINITION-XHTML-REF></DEFINITION>
+          <THE-VALUE><xhtml:div xmlns:xhtml="http://www.w3.org/1999/xhtml">The battery shall supply 28 V.</xhtml:div></THE-VALUE></ATTRIBUTE-VALUE-XHTML>
+        <ATTRIBUTE-VALUE-STRING THE-VALUE="42"><DEFINITION><ATTRIBUTE-DEFINITION-STRING-REF>d-id</ATTRIBUTE-DEFINITION-STRING-REF></DEFINITION></ATTRIBUTE-VALUE-STRING>
+      </VALUES></SPEC-OBJECT>
+    </SPEC-OBJECTS>
+    <SPECIFICATIONS><SPECIFICATION IDENTIFIER="s"><CHILDREN>
+      <SPEC-HIERARCHY IDENTIFIER="sh1"><OBJECT><SPEC-OBJECT-REF>_h1</SPEC-OBJECT-REF></OBJECT><CHILDREN>
+        <SPEC-HIERARCHY IDENTIFIER="sh2"><OBJECT><SPEC-OBJECT-REF>_r1</SPEC-OBJECT-REF></OBJECT></SPEC-HIERARCHY>
+      </CHILDREN></SPEC-HIERARCHY>
+    </CHILDREN></SPECIFICATION></SPECIFICATIONS>
+  </REQ-IF-CONTENT></CORE-CONTENT>
+</REQ-IF>`;
+
+    const planned = await importReqIFIntoDocument({
+      tenant: "acme", projectKey: "rover", documentSlug: "srd", content: foreign, dryRun: true, userId: "user-1"
+    });
+    expect(planned.sections).toEqual({ created: 1, matched: 0 });
+    expect(planned.items).toEqual([{ identifier: "_r1", action: "create", section: "Power" }]);
+    expect(createRequirementMock).not.toHaveBeenCalled();
+    expect(createDocumentSectionMock).not.toHaveBeenCalled();
+
+    requirementRows.push({
+      ...requirementRow({
+        id: "acme:rover:SRD-PWR-001",
+        hashId: "1111222233334444",
+        ref: "SRD-PWR-001",
+        text: "The battery shall supply 28 V.",
+        pattern: undefined,
+        verification: undefined,
+        tags: [],
+        attributes: JSON.stringify({ "ReqIF.ForeignID": "42" }),
+        reqifIdentifier: "_r1"
+      }, "section-2"),
+      sectionId: "section-2"
+    });
+    listDocumentSectionsMock.mockResolvedValue([section, { ...section, id: "section-2", name: "Power", order: 1 }]);
+
+    const reimported = await importReqIFIntoDocument({
+      tenant: "acme", projectKey: "rover", documentSlug: "srd", content: foreign, dryRun: true, userId: "user-1"
+    });
+    expect(reimported.sections).toEqual({ created: 0, matched: 1 });
+    expect(reimported.items).toEqual([{
+      identifier: "_r1",
+      action: "unchanged",
+      requirementId: "acme:rover:SRD-PWR-001",
+      ref: "SRD-PWR-001",
+      section: "Power"
+    }]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from "vitest";
+import neo4j from "neo4j-driver";
+
+type FakeRecord = { get: (key: string) => unknown };
+
+const runQueue: FakeRecord[][] = [];
+const tx = {
+  run: vi.fn(async (_query: string, _params?: Record<string, unknown>) => ({ records: runQueue.shift() ?? [] }))
+};
+
+vi.mock("../graph/driver.js", () => ({
+  getSession: vi.fn(() => ({
+    executeRead: async (work: (transaction: typeof tx) => unknown) => work(tx),
+    executeWrite: async (work: (transaction: typeof tx) => unknown) => work(tx),
+    close: vi.fn(async () => undefined)
+  }))
+}));
+
+const { flagSuspectLinks } = await import("../graph/trace-suspect.js");
+const { clearLinkSuspicion, listSuspectLinks } = await import("../graph/trace.js");
+
+function record(values: Record<string, unknown>): FakeRecord {
+  return { get: (key: string) => values[key] };
+}
+
+function requirementNode(id: string, ref: string) {
+  return {
+    properties: {
+      id,
+      ref,
+      tenant: "acme",
+      projectKey: "rocket",
+      title: ref,
+      text: `The ${ref} shall do something measurable.`,
+      contentHash: `hash-${id}`,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z"
+    }
+  };
+}
+
+function linkNode(overrides: Record<string, unknown> = {}) {
+  return {
+    properties: {
+      id: "link-1",
+      sourceRequirementId: "req-1",
+      targetRequirementId: "req-2",
+      linkType: "satisfies",
+      tenant: "acme",
+      projectKey: "rocket",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+      ...overrides
+    }
+  };
+}
+
+describe("suspect trace links", () => {
+  it("flags links of the changed requirement and reports how many", async () => {
+    runQueue.push([record({ flagged: neo4j.int(2) })]);
+
+    await expect(flagSuspectLinks(tx as never, "req-1", "2026-02-01T00:00:00.000Z")).resolves.toBe(2);
+    expect(tx.run).toHaveBeenLastCalledWith(expect.stringContaining("SET link.suspect = true"), {
+      requirementId: "req-1",
+      now: "2026-02-01T00:00:00.000Z"
+    });
+  });
+
+  it("exposes suspect status on listed links", async () => {
+    runQueue.push([record({
+      link: linkNode({ suspect: true, suspectEnds: ["source"], suspectSince: "2026-02-01T00:00:00.000Z" }),
+      sourceReq: requirementNode("req-1", "SYS-001"),
+      targetReq: requirementNode("req-2", "SUB-001"),
+      sourceDoc: null,
+      targetDoc: null
+    })]);
+
+    const [link] = await listSuspectLinks({ tenant: "acme", projectKey: "rocket" });
+
+    expect(link).toMatchObject({
+      id: "link-1",
+      suspect: true,
+      suspectEnds: ["source"],
+      suspectSince: "2026-02-01T00:00:00.000Z",
+      suspectClearedBy: null
+    });
+    expect(link.sourceRequirement?.ref).toBe("SYS-001");
+  });
+
+  it("records who cleared the suspicion", async () => {
+    runQueue.push([record({
+      link: linkNode({
+        suspect: false,
+        suspectEnds: [],
+        suspectClearedBy: "user-1",
+        suspectClearedAt: "2026-02-02T00:00:00.000Z",
+        suspectClearComment: "Still satisfied"
+      }),
+      sourceReq: requirementNode("req-1", "SYS-001"),
+      targetReq: requirementNode("req-2", "SUB-001"),
+      sourceDoc: null,
+      targetDoc: null
+    })]);
+
+    const link = await clearLinkSuspicion({
+      tenant: "acme",
+      projectKey: "rocket",
+      linkId: "link-1",
+      userId: "user-1",
+      comment: "Still satisfied"
+    });
+
+    expect(link).toMatchObject({ suspect: false, suspectClearedBy: "user-1", suspectClearComment: "Still satisfied" });
+    expect(tx.run).toHaveBeenLastCalledWith(expect.stringContaining("link.sourceContentHash = sourceReq.contentHash"), expect.objectContaining({
+      linkId: "link-1",
+      userId: "user-1",
+      comment: "Still satisfied"
+    }));
+  });
+
+  it("returns null when clearing an unknown link", async () => {
+    runQueue.push([]);
+
+    await expect(clearLinkSuspicion({ tenant: "acme", projectKey: "rocket", linkId: "missing", userId: "user-1" }))
+      .resolves.toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it, vi } from "vitest";
+import type { SysmlModel } from "../graph/sysml/textual.js";
+
+vi.mock("../graph/driver.js", () => ({
+  getSession: vi.fn()
+}));
+
+const {
+  parseSysmlText,
+  serializeSysmlText,
+  resolveSysmlReference,
+  SysmlTextError
+} = await import("../graph/sysml/textual.js");
+const { planSysmlImport } = await import("../graph/sysml/exchange.js");
+
+const model: SysmlModel = {
+  packages: [
+    { qualifiedName: "Propulsion", name: "Propulsion", parent: null, packageKind: "model" },
+    { qualifiedName: "Propulsion::Interfaces", name: "Interfaces", parent: "Propulsion", packageKind: "library" }
+  ],
+  elements: [
+    {
+      qualifiedName: "Propulsion::Engine",
+      name: "Engine",
+      packageName: "Propulsion",
+      elementType: "block",
+      stereotype: null,
+      documentation: "Main engine",
+      properties: { blockKind: "system", isAbstract: true }
+    },
+    {
+      qualifiedName: "Propulsion::'Engine Controller'",
+      name: "Engine Controller",
+      packageName: "Propulsion",
+      elementType: "block",
+      stereotype: "Hardware",
+      documentation: null,
+      properties: { blockKind: "component", isAbstract: false }
+    },
+    {
+      qualifiedName: "Propulsion::Interfaces::CanBus",
+      name: "CanBus",
+      packageName: "Propulsion::Interfaces",
+      elementType: "interface",
+      stereotype: null,
+      documentation: null,
+      properties: { protocol: "CAN", direction: "inout", rate: 500 }
+    },
+    {
+      qualifiedName: "Propulsion::Interfaces::CanPort",
+      name: "CanPort",
+      packageName: "Propulsion::Interfaces",
+      elementType: "port",
+      stereotype: null,
+      documentation: null,
+      properties: { direction: "out", portType: "flow", typeRef: null, protocol: null, rate: null, conjugated: true }
+    }
+  ],
+  relationships: [
+    { source: "Propulsion::Engine", target: "Propulsion::'Engine Controller'", type: "HAS_PART" },
+    { source: "Propulsion::'Engine Controller'", target: "Propulsion::Interfaces::CanPort", type: "HAS_PORT" },
+    { source: "Propulsion::'Engine Controller'", target: "Propulsion::Interfaces::CanBus", type: "DEPENDS_ON" }
+  ]
+};
+
+describe("SysML v2 textual notation", () => {
+  it("round-trips packages, elements and relationships", () => {
+    const text = serializeSysmlText(model, "Exported for test");
+    const parsed = parseSysmlText(text);
+
+    expect(parsed.warnings).toEqual([]);
+    expect(parsed.packages.map(({ line, ...pkg }) => pkg)).toEqual(model.packages);
+    expect(parsed.elements.map(({ line, properties, ...element }) => element)).toEqual(
+      model.elements.map(({ properties, ...element }) => element)
+    );
+    expect(parsed.elements[0].properties).toMatchObject({ blockKind: "system", isAbstract: true });
+    expect(parsed.elements[2].properties).toMatchObject({ protocol: "CAN", direction: "inout", rate: 500 });
+    expect(parsed.elements[3].properties).toMatchObject({ direction: "out", portType: "flow", conjugated: true });
+
+    const known = new Set(parsed.elements.map(element => element.qualifiedName));
+    const resolved = parsed.relationships.map(rel => ({
+      source: resolveSysmlReference(rel.source, rel.scope, known),
+      target: resolveSysmlReference(rel.target, rel.scope, known),
+      type: rel.type
+    }));
+    expect(resolved).toEqual(expect.arrayContaining(model.relationships));
+    expect(resolved).toHaveLength(model.relationships.length);
+  });
+
+  it("skips unsupported declarations with a warning", () => {
+    const parsed = parseSysmlText(`
+      package Demo {
+        import ScalarValues::*;
+        action def Start { }
+        part def Pump;
+      }
+    `);
+
+    expect(parsed.elements.map(element => element.qualifiedName)).toEqual(["Demo::Pump"]);
+    expect(parsed.warnings).toEqual([
+      "Line 3: skipped unsupported import declaration",
+      "Line 4: skipped unsupported declaration 'action def Start'"
+    ]);
+  });
+
+  it("reports syntax errors with a line number", () => {
+    expect(() => parseSysmlText("package Demo {\n  part def Pump\n")).toThrow(SysmlTextError);
+    expect(() => parseSysmlText("package Demo {\n  part def Pump;\n  part def Pump;\n}")).toThrow(/^Line 3:/);
+  });
+
+  it("resolves references through enclosing scopes before simple names", () => {
+    const known = new Set(["A::B::Pump", "A::Pump", "C::Valve"]);
+
+    expect(resolveSysmlReference("Pump", "A::B", known)).toBe("A::B::Pump");
+    expect(resolveSysmlReference("Pump", "A", known)).toBe("A::Pump");
+    expect(resolveSysmlReference("Valve", "A", known)).toBe("C::Valve");
+    expect(resolveSysmlReference("Pump", null, known)).toBeNull();
+  });
+});
+
+describe("planSysmlImport", () => {
+  it("diffs an imported model against the project without deleting", () => {
+    const incoming = parseSysmlText(`
+      package Propulsion {
+        abstract part def Engine {
+          doc /* Primary engine */
+          attribute blockKind = "system";
+          part controller : 'Engine Controller';
+          part pump : Pump;
+        }
+        part def Pump;
+        interface def 'Engine Controller';
+        part def Ghost :> Missing;
+      }
+    `);
+
+    const plan = planSysmlImport(model, incoming);
+
+    expect(plan.changes.find(change => change.name === "Propulsion")?.action).toBe("unchanged");
+    expect(plan.changes.find(change => change.name === "Propulsion::Engine")).toMatchObject({
+      action: "update",
+      fields: [{ field: "documentation", before: "Main engine", after: "Primary engine" }]
+    });
+    expect(plan.changes.find(change => change.name === "Propulsion::Pump")?.action).toBe("create");
+    expect(plan.changes.find(change => change.name === "Propulsion::'Engine Controller'")).toMatchObject({
+      action: "skip",
+      reason: "already exists as a block"
+    });
+
+    const relationships = plan.changes.filter(change => change.entity === "relationship");
+    expect(relationships.map(change => [change.action, change.relationship?.target])).toEqual([
+      ["unchanged", "Propulsion::'Engine Controller'"],
+      ["create", "Propulsion::Pump"]
+    ]);
+    expect(plan.warnings).toEqual([expect.stringContaining("Missing")]);
+    expect(plan.changes.some(change => change.name.includes("CanBus"))).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from "vitest";
+import neo4j from "neo4j-driver";
+
+type FakeRecord = { get: (key: string) => unknown };
+
+const responses: Array<[RegExp, FakeRecord[]]> = [];
+const tx = {
+  run: vi.fn(async (query: string) => ({
+    records: responses.find(([pattern]) => pattern.test(query))?.[1] ?? []
+  }))
+};
+
+vi.mock("../graph/driver.js", () => ({
+  getSession: vi.fn(() => ({
+    executeRead: async () => {
+      throw new Error("read outside the write transaction");
+    },
+    executeWrite: async (work: (transaction: typeof tx) => unknown) => work(tx),
+    close: vi.fn(async () => undefined)
+  }))
+}));
+
+const executeWriteWithWebhookEvents = vi.fn(
+  (session: { executeWrite: (work: unknown) => unknown }, work: unknown) => session.executeWrite(work)
+);
+vi.mock("../webhooks.js", () => ({
+  emitWebhookEvent: vi.fn(),
+  executeWriteWithWebhookEvents
+}));
+
+const { createTraceLink } = await import("../graph/trace.js");
+const { TraceRuleError } = await import("../graph/trace-rules.js");
+
+function record(values: Record<string, unknown>): FakeRecord {
+  return { get: (key: string) => values[key] };
+}
+
+function requirement(id: string) {
+  return { properties: { id, ref: id.toUpperCase(), tenant: "acme", projectKey: "rover", text: "The rover shall stop.", path: "" } };
+}
+
+function useRules(linkTypes: string[]) {
+  responses.length = 0;
+  tx.run.mockClear();
+  executeWriteWithWebhookEvents.mockClear();
+  responses.push(
+    [/AS sourceDocSlug/, [record({ sourceDocSlug: "sys", targetDocSlug: "sys" })]],
+    [/HAS_TRACE_RULES/, [record({ rules: { properties: {
+      tenant: "acme",
+      projectKey: "rover",
+      version: 1,
+      definition: JSON.stringify({
+        unmatched: "allow",
+        rules: [{ id: "sys-refines", source: { document: "SYS" }, target: { document: "SYS" }, linkTypes, enforcement: "reject" }]
+      }),
+      updatedAt: "2026-01-01T00:00:00.000Z"
+    } } })]],
+    [/AS documentShortCode/, ["sys-1", "sys-2"].map(id => record({
+      id, ref: id.toUpperCase(), tags: [], attributes: null, documentSlug: "sys", documentShortCode: "SYS"
+    }))],
+    [/CREATE \(link:TraceLink/, [record({
+      link: { properties: { id: "link-1", sourceRequirementId: "sys-1", targetRequirementId: "sys-2", linkType: "refines", createdAt: "now", updatedAt: "now" } },
+      source: requirement("sys-1"),
+      target: requirement("sys-2"),
+      sourceDoc: null,
+      targetDoc: null
+    })]],
+    [/count\(v\) as versionCount/, [record({ versionCount: neo4j.int(0) })]]
+  );
+}
+
+const link = {
+  tenant: "acme",
+  projectKey: "rover",
+  sourceRequirementId: "sys-1",
+  targetRequirementId: "sys-2",
+  linkType: "refines" as const,
+  userId: "ana"
+};
+
+describe("createTraceLink", () => {
+  it("checks the trace rules, creates the link and records its version in one transaction", async () => {
+    useRules(["refines"]);
+
+    await expect(createTraceLink(link)).resolves.toMatchObject({ id: "link-1" });
+
+    expect(executeWriteWithWebhookEvents).toHaveBeenCalledTimes(1);
+    const queries = tx.run.mock.calls.map(([query]) => query);
+    expect(queries.findIndex(query => query.includes("HAS_TRACE_RULES")))
+      .toBeLessThan(queries.findIndex(query => query.includes("CREATE (link:TraceLink")));
+    expect(queries.some(query => query.includes("CREATE (version:TraceLinkVersion"))).toBe(true);
+  });
+
+  it("creates nothing when a reject rule disallows the link", async () => {
+    useRules(["satisfies"]);
+
+    await expect(createTraceLink(link)).rejects.toBeInstanceOf(TraceRuleError);
+
+    expect(tx.run.mock.calls.some(([query]) => query.includes("CREATE"))).toBe(false);
+  });
+});
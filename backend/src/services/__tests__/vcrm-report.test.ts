@@ -0,0 +1,191 @@
+import { inflateRawSync } from "node:zlib";
+import { describe, expect, it, vi } from "vitest";
+import type { VerificationMatrixSource } from "../graph/verification.js";
+import type { BaselineRecord, RequirementVersionRecord } from "../workspace.js";
+
+vi.mock("../graph/driver.js", () => ({
+  getSession: vi.fn()
+}));
+
+const { buildVcrm, hashVcrm, renderVcrm } = await import("../vcrm-report.js");
+
+function requirement(ref: string, extra: Partial<VerificationMatrixSource["requirements"][number]> = {}) {
+  return {
+    id: `acme:rover:${ref}`,
+    ref,
+    text: `${ref} text`,
+    verification: "Test" as const,
+    attributes: {},
+    documentSlug: "srs",
+    documentName: "System Requirements",
+    sectionName: "Mobility",
+    sectionOrder: 1,
+    order: null,
+    deleted: false,
+    ...extra
+  };
+}
+
+function activity(id: string, ref: string, method: "Test" | "Analysis", createdAt = "2026-01-01T00:00:00.000Z") {
+  return {
+    activityId: id,
+    method,
+    status: "in_progress" as const,
+    title: `${method} ${ref}`,
+    requirementId: `acme:rover:${ref}`,
+    requirementRef: ref,
+    tenant: "acme",
+    projectKey: "rover",
+    createdAt,
+    updatedAt: createdAt
+  };
+}
+
+function evidence(id: string, activityId: string, verdict: "pass" | "fail", recordedAt: string, procedures: VerificationMatrixSource["evidence"][number]["procedures"] = []) {
+  return {
+    evidenceId: id,
+    type: "test_result" as const,
+    title: id,
+    verdict,
+    recordedAt,
+    recordedBy: "ci",
+    activityId,
+    tenant: "acme",
+    projectKey: "rover",
+    procedures
+  };
+}
+
+const source: VerificationMatrixSource = {
+  requirements: [
+    requirement("SRS-2", { attributes: { Level: "System" } }),
+    requirement("SRS-1"),
+    requirement("SRS-3", { sectionName: "Power", sectionOrder: 2, verification: "Analysis" }),
+    requirement("SRS-4", { documentSlug: null, documentName: null, sectionName: null, sectionOrder: null }),
+    requirement("SRS-5", { deleted: true })
+  ],
+  activities: [
+    activity("a1", "SRS-1", "Test"),
+    activity("a2", "SRS-2", "Test"),
+    activity("a3", "SRS-2", "Analysis", "2026-03-01T00:00:00.000Z"),
+    activity("a4", "SRS-3", "Analysis")
+  ],
+  evidence: [
+    evidence("e1", "a1", "fail", "2026-01-02T00:00:00.000Z"),
+    evidence("e2", "a1", "pass", "2026-01-05T00:00:00.000Z", [{ vdocId: "d1", name: "Drive test procedure", kind: "test_procedure", revisionNumber: "1.0" }]),
+    evidence("e3", "a2", "pass", "2026-01-03T00:00:00.000Z"),
+    evidence("e4", "a4", "fail", "2026-03-02T00:00:00.000Z")
+  ]
+};
+
+describe("buildVcrm", () => {
+  const vcrm = buildVcrm(source, { tenant: "acme", projectKey: "rover" });
+
+  it("groups requirements by document and section with unassigned last", () => {
+    expect(vcrm.groups.map(g => [g.document, g.section, g.requirements.map(r => r.ref)])).toEqual([
+      ["System Requirements", "Mobility", ["SRS-1", "SRS-2"]],
+      ["System Requirements", "Power", ["SRS-3"]],
+      [null, null, ["SRS-4"]]
+    ]);
+  });
+
+  it("derives closure from each activity's latest evidence", () => {
+    const byRef = Object.fromEntries(vcrm.groups.flatMap(g => g.requirements).map(r => [r.ref, r]));
+    expect(byRef["SRS-1"]).toMatchObject({ closure: "closed" });
+    expect(byRef["SRS-1"].activities[0]).toMatchObject({ verdict: "pass", evidenceCount: 2, procedures: ["Drive test procedure rev 1.0"] });
+    expect(byRef["SRS-2"]).toMatchObject({ closure: "open", level: "System" });
+    expect(byRef["SRS-3"].closure).toBe("failed");
+    expect(byRef["SRS-4"].closure).toBe("unverified");
+    expect(vcrm.totals).toEqual({ requirements: 4, closed: 1, open: 1, failed: 1, unverified: 1 });
+  });
+
+  it("filters by document, method and closure", () => {
+    const byMethod = buildVcrm(source, { tenant: "acme", projectKey: "rover", filters: { method: "Analysis" } });
+    expect(byMethod.groups.flatMap(g => g.requirements).map(r => [r.ref, r.activities.map(a => a.activityId)])).toEqual([
+      ["SRS-2", ["a3"]],
+      ["SRS-3", ["a4"]]
+    ]);
+
+    const open = buildVcrm(source, { tenant: "acme", projectKey: "rover", filters: { document: "srs", status: "open" } });
+    expect(open.groups.flatMap(g => g.requirements).map(r => r.ref)).toEqual(["SRS-2"]);
+  });
+
+  it("reproduces the matrix as of a baseline", () => {
+    const baseline: BaselineRecord = {
+      id: "acme:rover:BL-1",
+      ref: "BL-1",
+      tenant: "acme",
+      projectKey: "rover",
+      createdAt: "2026-02-01T00:00:00.000Z",
+      author: null,
+      label: "PDR",
+      requirementRefs: []
+    };
+    const version = (ref: string, text: string): RequirementVersionRecord => ({
+      versionId: `${ref}-v1`,
+      requirementId: `acme:rover:${ref}`,
+      versionNumber: 1,
+      timestamp: "2026-01-01T00:00:00.000Z",
+      changedBy: "alice",
+      changeType: "created",
+      text,
+      verification: "Test",
+      contentHash: text
+    });
+    const requirementVersions = [version("SRS-2", "Old SRS-2 text"), version("SRS-3", "Old SRS-3 text")];
+
+    const atBaseline = buildVcrm(source, { tenant: "acme", projectKey: "rover", baseline: { record: baseline, requirementVersions } });
+    const rows = atBaseline.groups.flatMap(g => g.requirements);
+    expect(rows.map(r => [r.ref, r.text, r.closure])).toEqual([
+      ["SRS-2", "Old SRS-2 text", "closed"],
+      ["SRS-3", "Old SRS-3 text", "open"]
+    ]);
+    // Activity a3 was created after the baseline; a4's failure was recorded after it
+    expect(rows[0].activities.map(a => [a.activityId, a.status])).toEqual([["a2", "passed"]]);
+    expect(rows[1].activities.map(a => [a.activityId, a.status, a.verdict])).toEqual([["a4", "planned", null]]);
+
+    const later = { ...source, evidence: [...source.evidence, evidence("e5", "a2", "fail", "2026-04-01T00:00:00.000Z")] };
+    expect(hashVcrm(buildVcrm(later, { tenant: "acme", projectKey: "rover", baseline: { record: baseline, requirementVersions } })))
+      .toBe(hashVcrm(atBaseline));
+  });
+});
+
+describe("renderVcrm", () => {
+  const vcrm = buildVcrm(source, { tenant: "acme", projectKey: "rover" });
+
+  it("renders an XLSX workbook with matrix, summary and report sheets", () => {
+    const file = renderVcrm(vcrm, "xlsx", { generatedBy: "alice@example.com" });
+    const entries = readZip(file.content);
+
+    expect(file.fileName).toBe("rover-vcrm.xlsx");
+    expect(file.contentType).toBe("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    expect(entries["xl/workbook.xml"]).toContain('<sheet name="VCRM" sheetId="1" r:id="rIdSheet1"/>');
+    expect(entries["xl/worksheets/sheet1.xml"]).toContain("Drive test procedure rev 1.0");
+    expect(entries["xl/worksheets/sheet1.xml"]).toContain('<autoFilter ref="A1:K6"/>');
+    expect(entries["xl/worksheets/sheet2.xml"]).toContain('<c r="C5" s="1"><v>4</v></c>');
+    expect(entries["docProps/custom.xml"]).toContain(file.hash);
+  });
+
+  it("renders a landscape PDF", () => {
+    const file = renderVcrm(vcrm, "pdf");
+    const text = file.content.toString("latin1");
+
+    expect(text.startsWith("%PDF-")).toBe(true);
+    expect(text).toContain("/MediaBox [0 0 841.89 595.28]");
+  });
+});
+
+/** Minimal reader for the archives written by createZip */
+function readZip(buffer: Buffer): Record<string, string> {
+  const entries: Record<string, string> = {};
+  let offset = 0;
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const name = buffer.toString("utf8", offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength;
+    entries[name] = inflateRawSync(buffer.subarray(start, start + compressedSize)).toString("utf8");
+    offset = start + compressedSize;
+  }
+  return entries;
+}
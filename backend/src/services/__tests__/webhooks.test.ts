@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const repo = {
+  listActiveSubscriptionsForProject: vi.fn(),
+  enqueueDeliveries: vi.fn(),
+  getSubscriptionById: vi.fn(),
+  recordAttempt: vi.fn()
+};
+
+const dnsLookup = vi.fn();
+
+vi.mock("../../repositories/WebhookRepository.js", () => ({
+  WebhookRepository: vi.fn(() => repo)
+}));
+
+vi.mock("node:dns/promises", () => ({
+  lookup: dnsLookup
+}));
+
+const {
+  emitWebhookEvent,
+  enqueueWebhookEvent,
+  executeWriteWithWebhookEvents,
+  isValidEventFilter,
+  matchesEventFilter,
+  signWebhookPayload,
+  verifyWebhookSignature
+} = await import("../webhooks.js");
+const { computeRetryDelay, webhookDispatcher, WEBHOOK_MAX_ATTEMPTS } = await import("../../workers/webhook-dispatcher.js");
+
+const subscription = {
+  id: "sub-1",
+  tenantSlug: "acme",
+  url: "https://hooks.example.com/airgen",
+  secret: "whsec_test",
+  events: ["requirement.*"],
+  active: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+const delivery = {
+  id: "del-1",
+  subscriptionId: "sub-1",
+  eventId: "evt-1",
+  eventType: "requirement.updated",
+  payload: { id: "evt-1", type: "requirement.updated" },
+  status: "sending" as const,
+  attempts: 0,
+  nextAttemptAt: new Date(),
+  createdAt: new Date()
+};
+
+describe("webhooks", () => {
+  beforeEach(() => {
+    Object.values(repo).forEach(fn => fn.mockReset());
+    dnsLookup.mockReset().mockResolvedValue([{ address: "93.184.215.14", family: 4 }]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("matches exact, prefix and catch-all filters", () => {
+    expect(matchesEventFilter("requirement.updated", ["requirement.updated"])).toBe(true);
+    expect(matchesEventFilter("requirement.updated", ["requirement.*"])).toBe(true);
+    expect(matchesEventFilter("trace-link.deleted", ["requirement.*"])).toBe(false);
+    expect(matchesEventFilter("baseline.created", ["*"])).toBe(true);
+    expect(isValidEventFilter("verification.*")).toBe(true);
+    expect(isValidEventFilter("requirement.renamed")).toBe(false);
+  });
+
+  it("signs payloads with the timestamp so they can be verified", () => {
+    const body = JSON.stringify({ hello: "world" });
+    const signature = signWebhookPayload("secret", 1700000000, body);
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature("secret", 1700000000, body, signature)).toBe(true);
+    expect(verifyWebhookSignature("secret", 1700000001, body, signature)).toBe(false);
+    expect(verifyWebhookSignature("other", 1700000000, body, signature)).toBe(false);
+  });
+
+  it("queues deliveries only for subscriptions whose filter matches", async () => {
+    repo.listActiveSubscriptionsForProject.mockResolvedValue([
+      subscription,
+      { ...subscription, id: "sub-2", events: ["baseline.created"] }
+    ]);
+    repo.enqueueDeliveries.mockResolvedValue([delivery]);
+
+    const queued = await enqueueWebhookEvent({
+      id: "evt-1",
+      type: "requirement.updated",
+      occurredAt: new Date().toISOString(),
+      tenant: "acme",
+      project: "rocket",
+      actor: "user-1",
+      data: { requirementId: "req-1" }
+    });
+
+    expect(queued).toBe(1);
+    expect(repo.listActiveSubscriptionsForProject).toHaveBeenCalledWith("acme", "rocket");
+    expect(repo.enqueueDeliveries.mock.calls[0][0]).toEqual(["sub-1"]);
+  });
+
+  it("queues events raised in a transaction only after it commits", async () => {
+    repo.listActiveSubscriptionsForProject.mockResolvedValue([subscription]);
+    repo.enqueueDeliveries.mockResolvedValue([delivery]);
+    const event = (requirementId: string) => ({ type: "requirement.updated" as const, tenant: "acme", project: "rocket", data: { requirementId } });
+
+    // The first attempt fails and is retried with a new transaction, as executeWrite does
+    let attempts = 0;
+    const session = {
+      executeWrite: async (work: (tx: object) => Promise<unknown>) => {
+        await work({}).catch(() => undefined);
+        return work({});
+      }
+    };
+
+    const result = await executeWriteWithWebhookEvents(session as never, async tx => {
+      attempts += 1;
+      emitWebhookEvent(event(`attempt-${attempts}`), tx);
+      expect(repo.listActiveSubscriptionsForProject).not.toHaveBeenCalled();
+      if (attempts === 1) throw new Error("transient");
+      return "done";
+    });
+    await vi.waitFor(() => expect(repo.enqueueDeliveries).toHaveBeenCalledTimes(1));
+
+    expect(result).toBe("done");
+    expect(repo.enqueueDeliveries.mock.calls[0][1].payload.data).toEqual({ requirementId: "attempt-2" });
+
+    // Rolled back: nothing is queued
+    await expect(executeWriteWithWebhookEvents({ executeWrite: (work: (tx: object) => Promise<unknown>) => work({}) } as never, async tx => {
+      emitWebhookEvent(event("rolled-back"), tx);
+      throw new Error("constraint violation");
+    })).rejects.toThrow("constraint violation");
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(repo.enqueueDeliveries).toHaveBeenCalledTimes(1);
+  });
+
+  it("backs off exponentially up to an hour", () => {
+    expect(computeRetryDelay(1)).toBe(30_000);
+    expect(computeRetryDelay(2)).toBe(60_000);
+    expect(computeRetryDelay(4)).toBe(240_000);
+    expect(computeRetryDelay(20)).toBe(60 * 60 * 1000);
+  });
+
+  it("sends signed requests and schedules a retry on failure", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response("unavailable", { status: 503 }));
+    vi.stubGlobal("fetch", fetchMock);
+    repo.getSubscriptionById.mockResolvedValue(subscription);
+
+    const result = await webhookDispatcher.deliver(delivery);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe(subscription.url);
+    expect(verifyWebhookSignature(
+      subscription.secret,
+      Number(headers["X-AirGen-Timestamp"]),
+      init.body as string,
+      headers["X-AirGen-Signature"]
+    )).toBe(true);
+    expect(result).toMatchObject({ ok: false, status: "pending", responseStatus: 503 });
+    expect(repo.recordAttempt).toHaveBeenCalledWith("del-1", expect.objectContaining({
+      status: "pending",
+      attempts: 1,
+      nextAttemptAt: expect.any(Date)
+    }));
+  });
+
+  it("marks the delivery failed once retries are exhausted", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("ECONNREFUSED")));
+    repo.getSubscriptionById.mockResolvedValue(subscription);
+
+    const result = await webhookDispatcher.deliver({ ...delivery, attempts: WEBHOOK_MAX_ATTEMPTS - 1 });
+
+    expect(result).toMatchObject({ ok: false, status: "failed", error: "ECONNREFUSED" });
+    expect(repo.recordAttempt).toHaveBeenCalledWith("del-1", expect.objectContaining({
+      status: "failed",
+      attempts: WEBHOOK_MAX_ATTEMPTS
+    }));
+  });
+
+  it("never contacts endpoints that resolve to internal addresses", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response("{\"secret\":\"value\"}"));
+    vi.stubGlobal("fetch", fetchMock);
+    repo.getSubscriptionById.mockResolvedValue(subscription);
+    dnsLookup.mockResolvedValue([{ address: "169.254.169.254", family: 4 }]);
+
+    const result = await webhookDispatcher.deliver(delivery);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ ok: false, error: "Host 'hooks.example.com' resolves to a private or reserved address" });
+    expect(repo.recordAttempt.mock.calls[0][1].responseBody).toBeUndefined();
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * API Token Service
+ *
+ * Personal access tokens and tenant service accounts for non-interactive
+ * clients (CI pipelines, the CLI and the MCP server).
+ *
+ * A token never grants more than its owner has: permissions are loaded
+ * fresh on every request, super-admin rights are dropped, roles are capped
+ * by the token's scopes and, for project-limited tokens, narrowed to the
+ * listed projects.
+ */
+
+import {
+  API_TOKEN_SCOPES,
+  generateApiToken,
+  hashApiToken,
+  type ApiTokenContext,
+  type ApiTokenKind,
+  type ApiTokenScope
+} from "../lib/api-tokens.js";
+import { logger } from "../lib/logger.js";
+import {
+  ApiTokenRepository,
+  type ApiTokenRecord,
+  type ServiceAccount
+} from "../repositories/ApiTokenRepository.js";
+import { permissionRepository } from "../repositories/PermissionRepository.js";
+import { userRepository } from "../repositories/UserRepository.js";
+import type { AuthenticatedUser } from "../plugins/auth/types.js";
+import type { UserPermissions } from "../types/permissions.js";
+import { ROLE_HIERARCHY, UserRole, getHigherRole } from "../types/roles.js";
+import { slugify } from "./workspace.js";
+
+const MAX_EXPIRY_DAYS = 366;
+
+/** Highest role each scope can exercise */
+const SCOPE_ROLE_CAP: Record<ApiTokenScope, UserRole> = {
+  read: UserRole.VIEWER,
+  "verification:write": UserRole.AUTHOR,
+  write: UserRole.APPROVER,
+  admin: UserRole.TENANT_ADMIN
+};
+
+let repository: ApiTokenRepository | null = null;
+
+function getRepository(): ApiTokenRepository {
+  if (!repository) {
+    repository = new ApiTokenRepository();
+  }
+  return repository;
+}
+
+export type CreatedApiToken = {
+  token: string;
+  record: ApiTokenRecord;
+};
+
+export type CreateTokenOptions = {
+  name: string;
+  scopes: ApiTokenScope[];
+  /** "tenant/project" entries; omit for no project restriction */
+  projects?: string[];
+  expiresInDays?: number;
+  createdBy?: string;
+};
+
+function normalizeProjects(projects: string[] | undefined): string[] | undefined {
+  if (!projects || projects.length === 0) {
+    return undefined;
+  }
+  return [...new Set(projects.map(entry => {
+    const [tenant, project] = entry.split("/");
+    if (!tenant || !project) {
+      throw new Error(`Invalid project restriction '${entry}'; expected "tenant/project"`);
+    }
+    return `${slugify(tenant)}/${slugify(project)}`;
+  }))];
+}
+
+function expiryDate(expiresInDays: number | undefined): Date | undefined {
+  if (expiresInDays === undefined) {
+    return undefined;
+  }
+  if (expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS) {
+    throw new Error(`Token expiry must be between 1 and ${MAX_EXPIRY_DAYS} days`);
+  }
+  return new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+}
+
+async function createToken(
+  kind: ApiTokenKind,
+  owner: { userId?: string; serviceAccountId?: string },
+  options: CreateTokenOptions
+): Promise<CreatedApiToken> {
+  const scopes = [...new Set(options.scopes)];
+  if (scopes.length === 0 || scopes.some(scope => !API_TOKEN_SCOPES.includes(scope))) {
+    throw new Error(`Invalid token scopes; allowed: ${API_TOKEN_SCOPES.join(", ")}`);
+  }
+
+  const { token, tokenPrefix, hashedToken } = generateApiToken(kind);
+  const record = await getRepository().createToken({
+    name: options.name,
+    tokenPrefix,
+    hashedToken,
+    ...owner,
+    scopes,
+    projects: normalizeProjects(options.projects),
+    expiresAt: expiryDate(options.expiresInDays),
+    createdBy: options.createdBy
+  });
+
+  return { token, record };
+}
+
+// ── Personal access tokens ──────────────────────────────────────
+
+export async function createPersonalAccessToken(userId: string, options: CreateTokenOptions): Promise<CreatedApiToken> {
+  return createToken("personal", { userId }, { ...options, createdBy: userId });
+}
+
+export async function listPersonalAccessTokens(userId: string): Promise<ApiTokenRecord[]> {
+  return getRepository().listTokensForUser(userId);
+}
+
+export async function revokePersonalAccessToken(userId: string, tokenId: string): Promise<boolean> {
+  return getRepository().revokeUserToken(userId, tokenId);
+}
+
+// ── Service accounts ────────────────────────────────────────────
+
+export async function createServiceAccount(input: {
+  tenant: string;
+  name: string;
+  description?: string;
+  role: UserRole;
+  createdBy?: string;
+}): Promise<ServiceAccount> {
+  if (input.role === UserRole.SUPER_ADMIN) {
+    throw new Error("Service accounts cannot be super-admins");
+  }
+  return getRepository().createServiceAccount({ ...input, tenantSlug: slugify(input.tenant) });
+}
+
+export async function listServiceAccounts(tenant: string): Promise<Array<ServiceAccount & { tokens: ApiTokenRecord[] }>> {
+  const repo = getRepository();
+  const accounts = await repo.listServiceAccounts(slugify(tenant));
+  return Promise.all(accounts.map(async account => ({
+    ...account,
+    tokens: await repo.listTokensForServiceAccount(account.id)
+  })));
+}
+
+export async function disableServiceAccount(tenant: string, serviceAccountId: string): Promise<boolean> {
+  return getRepository().disableServiceAccount(slugify(tenant), serviceAccountId);
+}
+
+/**
+ * @throws Error if the service account does not exist in the tenant
+ * @throws Error if a project restriction points outside the tenant
+ */
+export async function createServiceAccountToken(
+  tenant: string,
+  serviceAccountId: string,
+  options: CreateTokenOptions
+): Promise<CreatedApiToken> {
+  const tenantSlug = slugify(tenant);
+  const account = await getRepository().getServiceAccount(tenantSlug, serviceAccountId);
+  if (!account) {
+    throw new Error("Service account not found");
+  }
+
+  const projects = normalizeProjects(options.projects);
+  if (projects?.some(entry => !entry.startsWith(`${tenantSlug}/`))) {
+    throw new Error("Service account tokens can only be limited to projects in the account's tenant");
+  }
+
+  return createToken("service_account", { serviceAccountId: account.id }, { ...options, projects });
+}
+
+export async function revokeServiceAccountToken(
+  tenant: string,
+  serviceAccountId: string,
+  tokenId: string
+): Promise<boolean> {
+  const account = await getRepository().getServiceAccount(slugify(tenant), serviceAccountId);
+  if (!account) {
+    return false;
+  }
+  return getRepository().revokeServiceAccountToken(account.id, tokenId);
+}
+
+// ── Authentication ──────────────────────────────────────────────
+
+function capRole(role: UserRole, cap: UserRole): UserRole {
+  return ROLE_HIERARCHY[role] > ROLE_HIERARCHY[cap] ? cap : role;
+}
+
+/**
+ * Reduce the owner's permissions to what a token may exercise.
+ * Exported for tests.
+ */
+export function buildApiTokenPermissions(
+  base: UserPermissions,
+  token: Pick<ApiTokenContext, "scopes" | "projects">
+): UserPermissions {
+  const cap = token.scopes
+    .map(scope => SCOPE_ROLE_CAP[scope])
+    .reduce<UserRole>((highest, role) => getHigherRole(highest, role), UserRole.VIEWER);
+
+  if (token.projects) {
+    const projectPermissions: NonNullable<UserPermissions["projectPermissions"]> = {};
+    for (const entry of token.projects) {
+      const [tenant, project] = entry.split("/");
+      const tenantRole = base.tenantPermissions?.[tenant]?.role;
+      const projectRole = base.projectPermissions?.[tenant]?.[project]?.role;
+      const role = tenantRole && projectRole
+        ? getHigherRole(tenantRole, projectRole)
+        : tenantRole ?? projectRole;
+      if (!role) continue;
+
+      // Tenant-wide roles do not apply inside a single-project token
+      const scopedRole = role === UserRole.TENANT_ADMIN ? UserRole.ADMIN : role;
+      projectPermissions[tenant] = {
+        ...projectPermissions[tenant],
+        [project]: { role: capRole(scopedRole, cap) }
+      };
+    }
+    return { projectPermissions };
+  }
+
+  const capped: UserPermissions = {};
+  if (base.tenantPermissions) {
+    capped.tenantPermissions = Object.fromEntries(
+      Object.entries(base.tenantPermissions).map(([tenant, permission]) => [
+        tenant,
+        { role: capRole(permission.role, cap) }
+      ])
+    );
+  }
+  if (base.projectPermissions) {
+    capped.projectPermissions = Object.fromEntries(
+      Object.entries(base.projectPermissions).map(([tenant, projects]) => [
+        tenant,
+        Object.fromEntries(Object.entries(projects).map(([project, permission]) => [
+          project,
+          { role: capRole(permission.role, cap) }
+        ]))
+      ])
+    );
+  }
+  return capped;
+}
+
+function legacyRoles(permissions: UserPermissions): string[] {
+  const roles = [
+    ...Object.values(permissions.tenantPermissions ?? {}),
+    ...Object.values(permissions.projectPermissions ?? {}).flatMap(projects => Object.values(projects))
+  ].map(permission => permission.role);
+  const highest = roles.reduce((max, role) => Math.max(max, ROLE_HIERARCHY[role]), 0);
+
+  if (highest >= ROLE_HIERARCHY[UserRole.ADMIN]) return ["admin", "author", "user"];
+  if (highest >= ROLE_HIERARCHY[UserRole.AUTHOR]) return ["author", "user"];
+  return ["user"];
+}
+
+/**
+ * Resolve a bearer API token to the user it acts as.
+ *
+ * @returns null when the token is unknown, revoked, expired or its owner is disabled
+ */
+export async function resolveApiToken(token: string, ip?: string): Promise<AuthenticatedUser | null> {
+  const repo = getRepository();
+  const record = await repo.findByHash(hashApiToken(token));
+  if (!record || record.revokedAt || (record.expiresAt && record.expiresAt.getTime() <= Date.now())) {
+    return null;
+  }
+
+  const context: ApiTokenContext = {
+    id: record.id,
+    kind: record.serviceAccountId ? "service_account" : "personal",
+    scopes: record.scopes as ApiTokenScope[],
+    projects: record.projects,
+    serviceAccountId: record.serviceAccountId
+  };
+
+  let sub: string;
+  let email: string | undefined;
+  let name: string | undefined;
+  let basePermissions: UserPermissions;
+
+  if (record.serviceAccount) {
+    if (record.serviceAccount.disabledAt) {
+      return null;
+    }
+    sub = `sa:${record.serviceAccount.id}`;
+    name = record.serviceAccount.name;
+    basePermissions = {
+      tenantPermissions: { [record.serviceAccount.tenantSlug]: { role: record.serviceAccount.role } }
+    };
+  } else if (record.userId) {
+    const user = await userRepository.findById(record.userId);
+    if (!user) {
+      return null;
+    }
+    sub = user.id;
+    email = user.email;
+    name = user.name;
+    basePermissions = await permissionRepository.getUserPermissions(user.id);
+  } else {
+    return null;
+  }
+
+  const permissions = buildApiTokenPermissions(basePermissions, context);
+  const tenantSlugs = [
+    ...new Set([
+      ...Object.keys(permissions.tenantPermissions ?? {}),
+      ...Object.keys(permissions.projectPermissions ?? {})
+    ])
+  ];
+
+  repo.touchLastUsed(record.id, ip).catch((err: unknown) => {
+    logger.warn({ err, tokenId: record.id }, "[ApiTokens] Failed to record token use");
+  });
+
+  return {
+    sub,
+    email,
+    name,
+    roles: legacyRoles(permissions),
+    tenantSlugs,
+    ownedTenantSlugs: [],
+    permissions,
+    apiToken: context
+  };
+}
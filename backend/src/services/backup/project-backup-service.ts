@@ -63,6 +63,7 @@ export interface ProjectBackupMetadata {
     baselines: number;
     candidates: number;
     folders: number;
+    comments: number;
     totalNodes: number;
     totalRelationships: number;
   };
@@ -197,6 +198,8 @@ async function exportProjectNodes(
     "TraceLink",
     "DocumentLinkset",
     "Folder",
+    "Comment",
+    "AttributeSchema",
   ];
 
   // Conditionally include additional node types
@@ -509,6 +512,7 @@ function calculateStats(
     baselines: 0,
     candidates: 0,
     folders: 0,
+    comments: 0,
     totalNodes: nodes.length,
     totalRelationships: relationships.length
   };
@@ -540,6 +544,7 @@ function calculateStats(
       stats.candidates++;
     }
     if (node.labels.includes("Folder")) stats.folders++;
+    if (node.labels.includes("Comment")) stats.comments++;
   }
 
   return stats;
@@ -0,0 +1,670 @@
+/**
+ * Baseline Change Report
+ *
+ * Builds the change set between two baselines (or a baseline and HEAD) and
+ * renders it as a PDF or DOCX deliverable for change boards: word-level
+ * redlines, attribute deltas, trace link and architecture changes, and a
+ * summary table. The change set is hashed so a delivered report can later be
+ * checked against the baselines it claims to describe, and the hash is signed
+ * with the server's report key so the report can be attributed to AIRGen.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { config } from "../config.js";
+import { diffWords, type WordDiffSegment } from "../lib/word-diff.js";
+import { renderDocx } from "../lib/docx-writer.js";
+import { renderPdf } from "../lib/pdf-writer.js";
+import type { ReportBlock, ReportDocument, ReportRun } from "../lib/report-document.js";
+import {
+  getBaselineOrHeadSnapshot,
+  getRequirementRefs,
+  type BaselineSnapshot
+} from "./graph/requirement-baselines.js";
+import type { RequirementVersionRecord } from "./workspace.js";
+import type { ArchitectureBlockVersionRecord } from "./graph/architecture/blocks-versions.js";
+
+export type ChangeReportFormat = "pdf" | "docx";
+
+export type ChangeKind = "added" | "removed" | "modified";
+
+export type AttributeDelta = {
+  field: string;
+  before: string | null;
+  after: string | null;
+};
+
+export type RequirementChange = {
+  requirementId: string;
+  ref: string;
+  change: ChangeKind;
+  /** Redline of the requirement text; all-insert for added, all-delete for removed */
+  text: WordDiffSegment[];
+  attributes: AttributeDelta[];
+};
+
+export type TraceLinkChange = {
+  traceLinkId: string;
+  change: ChangeKind;
+  source: string;
+  target: string;
+  linkType: string;
+  attributes: AttributeDelta[];
+};
+
+export type ItemChange = {
+  kind: "diagram" | "block" | "connector" | "document" | "section";
+  id: string;
+  name: string;
+  /** Owning diagram for blocks and connectors */
+  context?: string;
+  change: ChangeKind;
+  attributes: AttributeDelta[];
+};
+
+export type ChangeSummaryRow = {
+  category: string;
+  added: number;
+  removed: number;
+  modified: number;
+};
+
+export type BaselineChangeSet = {
+  tenant: string;
+  projectKey: string;
+  from: { ref: string; label: string | null; createdAt: string };
+  to: { ref: string; label: string | null; createdAt: string };
+  summary: ChangeSummaryRow[];
+  requirements: RequirementChange[];
+  traceLinks: TraceLinkChange[];
+  architecture: ItemChange[];
+  documents: ItemChange[];
+};
+
+export type ChangeReportFile = {
+  content: Buffer;
+  contentType: string;
+  fileName: string;
+  hash: string;
+  signature: string;
+};
+
+const CONTENT_TYPES: Record<ChangeReportFormat, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+};
+
+// ============================================================================
+// Change set
+// ============================================================================
+
+function formatValue(value: unknown): string | null {
+  if (value === undefined || value === null || value === "") {return null;}
+  if (Array.isArray(value)) {return value.length > 0 ? value.map(String).join(", ") : null;}
+  if (typeof value === "object") {return JSON.stringify(value);}
+  return String(value);
+}
+
+/** Deltas for every field whose formatted value differs between the two records */
+function diffFields(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined,
+  fields: Record<string, string>
+): AttributeDelta[] {
+  const deltas: AttributeDelta[] = [];
+  for (const [key, label] of Object.entries(fields)) {
+    const a = formatValue(before?.[key]);
+    const b = formatValue(after?.[key]);
+    if (a !== b) {
+      deltas.push({ field: label, before: a, after: b });
+    }
+  }
+  return deltas;
+}
+
+function indexBy<T>(items: T[], key: (item: T) => string): Map<string, T> {
+  return new Map(items.map(item => [key(item), item]));
+}
+
+/**
+ * Pair up entities by ID, sorted by ID so the change set (and its hash) does
+ * not depend on query order
+ */
+function pairEntities<T>(
+  fromItems: T[],
+  toItems: T[],
+  key: (item: T) => string
+): Array<{ id: string; before?: T; after?: T }> {
+  const fromMap = indexBy(fromItems, key);
+  const toMap = indexBy(toItems, key);
+  const pairs: Array<{ id: string; before?: T; after?: T }> = [];
+  for (const item of toItems) {
+    pairs.push({ id: key(item), before: fromMap.get(key(item)), after: item });
+  }
+  for (const item of fromItems) {
+    if (!toMap.has(key(item))) {
+      pairs.push({ id: key(item), before: item });
+    }
+  }
+  return pairs.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+function changeKind(before: unknown, after: unknown): ChangeKind {
+  if (!before) {return "added";}
+  if (!after) {return "removed";}
+  return "modified";
+}
+
+const REQUIREMENT_FIELDS: Record<string, string> = {
+  pattern: "Pattern",
+  verification: "Verification",
+  rationale: "Rationale",
+  complianceStatus: "Compliance status",
+  complianceRationale: "Compliance rationale",
+  tags: "Tags"
+};
+
+function requirementDeltas(before?: RequirementVersionRecord, after?: RequirementVersionRecord): AttributeDelta[] {
+  const deltas = diffFields(
+    before as Record<string, unknown> | undefined,
+    after as Record<string, unknown> | undefined,
+    REQUIREMENT_FIELDS
+  );
+  const attributeKeys = new Set([
+    ...Object.keys(before?.attributes ?? {}),
+    ...Object.keys(after?.attributes ?? {})
+  ]);
+  for (const key of [...attributeKeys].sort()) {
+    const a = formatValue(before?.attributes?.[key]);
+    const b = formatValue(after?.attributes?.[key]);
+    if (a !== b) {
+      deltas.push({ field: `Attribute: ${key}`, before: a, after: b });
+    }
+  }
+  return deltas;
+}
+
+function blockLayout(block: ArchitectureBlockVersionRecord | undefined): Record<string, unknown> | undefined {
+  if (!block) {return undefined;}
+  return {
+    layout: `${block.positionX},${block.positionY} ${block.sizeWidth}x${block.sizeHeight}`,
+    ports: (block.ports ?? []).map(port => `${port.name} (${port.direction})`)
+  };
+}
+
+/** Fallback ref for requirements no longer in the graph: IDs are tenant:project:ref */
+function refFromId(requirementId: string): string {
+  return requirementId.split(":").pop() ?? requirementId;
+}
+
+/**
+ * Compute the reportable changes between two snapshots. Entities whose
+ * content hash changed without any reportable field changing are left out.
+ */
+export function buildBaselineChangeSet(
+  fromSnapshot: BaselineSnapshot,
+  toSnapshot: BaselineSnapshot,
+  requirementRefs: Map<string, string> = new Map()
+): BaselineChangeSet {
+  const refFor = (id: string) => requirementRefs.get(id) ?? refFromId(id);
+
+  const requirements: RequirementChange[] = [];
+  for (const { id, before, after } of pairEntities(
+    fromSnapshot.requirementVersions,
+    toSnapshot.requirementVersions,
+    r => r.requirementId
+  )) {
+    const change = changeKind(before, after);
+    const attributes = requirementDeltas(before, after);
+    if (change === "modified" && before?.text === after?.text && attributes.length === 0) {continue;}
+    requirements.push({
+      requirementId: id,
+      ref: refFor(id),
+      change,
+      text: diffWords(before?.text ?? "", after?.text ?? ""),
+      attributes
+    });
+  }
+  requirements.sort((a, b) => a.ref.localeCompare(b.ref, "en", { numeric: true }));
+
+  const traceLinks: TraceLinkChange[] = [];
+  for (const { id, before, after } of pairEntities(
+    fromSnapshot.traceLinkVersions,
+    toSnapshot.traceLinkVersions,
+    l => l.traceLinkId
+  )) {
+    const change = changeKind(before, after);
+    // Endpoints and type already have their own columns unless they changed
+    const fields: Record<string, string> = change === "modified"
+      ? { sourceRequirementId: "Source", targetRequirementId: "Target", linkType: "Link type", description: "Description" }
+      : { description: "Description" };
+    const attributes = diffFields(
+      before as Record<string, unknown> | undefined,
+      after as Record<string, unknown> | undefined,
+      fields
+    ).map(delta =>
+      delta.field === "Source" || delta.field === "Target"
+        ? { ...delta, before: delta.before && refFor(delta.before), after: delta.after && refFor(delta.after) }
+        : delta
+    );
+    if (change === "modified" && attributes.length === 0) {continue;}
+    const link = (after ?? before)!;
+    traceLinks.push({
+      traceLinkId: id,
+      change,
+      source: refFor(link.sourceRequirementId),
+      target: refFor(link.targetRequirementId),
+      linkType: link.linkType,
+      attributes
+    });
+  }
+
+  const diagramNames = new Map<string, string>();
+  const blockNames = new Map<string, string>();
+  for (const snapshot of [fromSnapshot, toSnapshot]) {
+    snapshot.diagramVersions.forEach(d => diagramNames.set(d.diagramId, d.name));
+    snapshot.blockVersions.forEach(b => blockNames.set(b.blockId, b.name));
+  }
+
+  const architecture: ItemChange[] = [];
+  const documents: ItemChange[] = [];
+  const collect = <T>(
+    target: ItemChange[],
+    kind: ItemChange["kind"],
+    fromItems: T[],
+    toItems: T[],
+    key: (item: T) => string,
+    describe: (item: T) => { name: string; context?: string; fields: Record<string, unknown> },
+    labels: Record<string, string>
+  ) => {
+    for (const { id, before, after } of pairEntities(fromItems, toItems, key)) {
+      const change = changeKind(before, after);
+      const beforeView = before ? describe(before) : undefined;
+      const afterView = after ? describe(after) : undefined;
+      const attributes = diffFields(beforeView?.fields, afterView?.fields, labels);
+      if (change === "modified" && attributes.length === 0) {continue;}
+      const view = (afterView ?? beforeView)!;
+      target.push({ kind, id, name: view.name, context: view.context, change, attributes });
+    }
+  };
+
+  collect(
+    architecture, "diagram",
+    fromSnapshot.diagramVersions, toSnapshot.diagramVersions, d => d.diagramId,
+    d => ({ name: d.name, fields: { name: d.name, description: d.description, view: d.view } }),
+    { name: "Name", description: "Description", view: "View" }
+  );
+  collect(
+    architecture, "block",
+    fromSnapshot.blockVersions, toSnapshot.blockVersions, b => b.blockId,
+    b => ({
+      name: b.name,
+      context: diagramNames.get(b.diagramId),
+      fields: { name: b.name, kind: b.kind, stereotype: b.stereotype, description: b.description, ...blockLayout(b) }
+    }),
+    { name: "Name", kind: "Kind", stereotype: "Stereotype", description: "Description", ports: "Ports", layout: "Position and size" }
+  );
+  collect(
+    architecture, "connector",
+    fromSnapshot.connectorVersions, toSnapshot.connectorVersions, c => c.connectorId,
+    c => {
+      const source = blockNames.get(c.source) ?? c.source;
+      const target = blockNames.get(c.target) ?? c.target;
+      return {
+        name: c.label ? `${c.label} (${source} to ${target})` : `${source} to ${target}`,
+        context: diagramNames.get(c.diagramId),
+        fields: { source, target, kind: c.kind, label: c.label, sourcePortId: c.sourcePortId, targetPortId: c.targetPortId }
+      };
+    },
+    { source: "Source", target: "Target", kind: "Kind", label: "Label", sourcePortId: "Source port", targetPortId: "Target port" }
+  );
+  collect(
+    documents, "document",
+    fromSnapshot.documentVersions, toSnapshot.documentVersions, d => d.documentId,
+    d => ({
+      name: d.name,
+      fields: { name: d.name, description: d.description, shortCode: d.shortCode, kind: d.kind, originalFileName: d.originalFileName }
+    }),
+    { name: "Name", description: "Description", shortCode: "Short code", kind: "Kind", originalFileName: "File" }
+  );
+  collect(
+    documents, "section",
+    fromSnapshot.documentSectionVersions, toSnapshot.documentSectionVersions, s => s.sectionId,
+    s => ({ name: s.name, fields: { name: s.name, description: s.description, shortCode: s.shortCode, order: s.order } }),
+    { name: "Name", description: "Description", shortCode: "Short code", order: "Order" }
+  );
+
+  const countRow = (category: string, items: Array<{ change: ChangeKind }>): ChangeSummaryRow => ({
+    category,
+    added: items.filter(i => i.change === "added").length,
+    removed: items.filter(i => i.change === "removed").length,
+    modified: items.filter(i => i.change === "modified").length
+  });
+
+  const baselineInfo = (snapshot: BaselineSnapshot) => ({
+    ref: snapshot.baseline.ref,
+    label: snapshot.baseline.label ?? null,
+    createdAt: snapshot.baseline.createdAt
+  });
+
+  return {
+    tenant: toSnapshot.baseline.tenant,
+    projectKey: toSnapshot.baseline.projectKey,
+    from: baselineInfo(fromSnapshot),
+    to: baselineInfo(toSnapshot),
+    summary: [
+      countRow("Requirements", requirements),
+      countRow("Trace links", traceLinks),
+      countRow("Diagrams", architecture.filter(i => i.kind === "diagram")),
+      countRow("Blocks", architecture.filter(i => i.kind === "block")),
+      countRow("Connectors", architecture.filter(i => i.kind === "connector")),
+      countRow("Documents", documents.filter(i => i.kind === "document")),
+      countRow("Sections", documents.filter(i => i.kind === "section"))
+    ],
+    requirements,
+    traceLinks,
+    architecture,
+    documents
+  };
+}
+
+// ============================================================================
+// Hashing and signing
+// ============================================================================
+
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 over the canonical JSON of the change set. The HEAD pseudo
+ * baseline's timestamp is the time of the request, so creation times are
+ * left out to keep the hash reproducible.
+ */
+export function hashChangeSet(changeSet: BaselineChangeSet): string {
+  const { from, to, ...rest } = changeSet;
+  const payload = { ...rest, from: { ref: from.ref, label: from.label }, to: { ref: to.ref, label: to.label } };
+  return createHash("sha256").update(canonicalJson(payload)).digest("hex");
+}
+
+export function signReportHash(hash: string): string {
+  return createHmac("sha256", config.reports.signingKey).update(hash).digest("hex");
+}
+
+function isValidSignature(hash: string, signature: string): boolean {
+  const expected = Buffer.from(signReportHash(hash), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+const CHANGE_LABELS: Record<ChangeKind, string> = {
+  added: "Added",
+  removed: "Removed",
+  modified: "Modified"
+};
+
+const ITEM_LABELS: Record<ItemChange["kind"], string> = {
+  diagram: "Diagram",
+  block: "Block",
+  connector: "Connector",
+  document: "Document",
+  section: "Section"
+};
+
+function describeBaseline(info: BaselineChangeSet["from"]): string {
+  return info.label ? `${info.ref} (${info.label})` : info.ref;
+}
+
+function describeDeltas(deltas: AttributeDelta[]): string {
+  return deltas.map(d => `${d.field}: ${d.before ?? "(none)"} -> ${d.after ?? "(none)"}`).join("\n");
+}
+
+function redlineRuns(segments: WordDiffSegment[]): ReportRun[] {
+  if (segments.length === 0) {
+    return [{ text: "(no text)", style: "muted" }];
+  }
+  return segments.map(segment => ({
+    text: segment.text,
+    style: segment.op === "equal" ? "normal" : segment.op
+  }));
+}
+
+function itemTable(items: ItemChange[]): ReportBlock {
+  return {
+    type: "table",
+    headers: ["Change", "Type", "Name", "Location", "Details"],
+    widths: [1.1, 1.1, 2.2, 1.6, 4],
+    rows: items.map(item => [
+      CHANGE_LABELS[item.change],
+      ITEM_LABELS[item.kind],
+      item.name,
+      item.context ?? "",
+      describeDeltas(item.attributes)
+    ])
+  };
+}
+
+function buildReportDocument(
+  changeSet: BaselineChangeSet,
+  hash: string,
+  signature: string,
+  generatedBy: string | undefined,
+  generatedAt: string
+): ReportDocument {
+  const none: ReportBlock = { type: "paragraph", runs: [{ text: "No changes.", style: "muted" }] };
+  const title = `Baseline change report: ${changeSet.from.ref} to ${changeSet.to.ref}`;
+
+  const blocks: ReportBlock[] = [
+    { type: "heading", level: 1, text: title },
+    {
+      type: "table",
+      headers: ["Property", "Value"],
+      widths: [1, 3],
+      rows: [
+        ["Project", `${changeSet.tenant}/${changeSet.projectKey}`],
+        ["From", `${describeBaseline(changeSet.from)}, ${changeSet.from.createdAt}`],
+        ["To", `${describeBaseline(changeSet.to)}, ${changeSet.to.createdAt}`],
+        ["Generated", generatedBy ? `${generatedAt} by ${generatedBy}` : generatedAt]
+      ]
+    },
+    { type: "heading", level: 2, text: "Summary" },
+    {
+      type: "table",
+      headers: ["Category", "Added", "Removed", "Modified"],
+      widths: [3, 1, 1, 1],
+      rows: changeSet.summary.map(row => [row.category, String(row.added), String(row.removed), String(row.modified)])
+    },
+    {
+      type: "paragraph",
+      runs: [
+        { text: "Redline key: ", style: "muted" },
+        { text: "inserted text", style: "insert" },
+        { text: ", ", style: "muted" },
+        { text: "deleted text", style: "delete" }
+      ]
+    },
+    { type: "heading", level: 2, text: "Requirements" }
+  ];
+
+  if (changeSet.requirements.length === 0) {blocks.push(none);}
+  for (const requirement of changeSet.requirements) {
+    blocks.push(
+      { type: "heading", level: 3, text: `${requirement.ref} (${CHANGE_LABELS[requirement.change].toLowerCase()})` },
+      { type: "paragraph", runs: redlineRuns(requirement.text) }
+    );
+    if (requirement.attributes.length > 0) {
+      blocks.push({
+        type: "table",
+        headers: ["Attribute", "Before", "After"],
+        widths: [1.2, 2, 2],
+        rows: requirement.attributes.map(d => [d.field, d.before ?? "", d.after ?? ""])
+      });
+    }
+  }
+
+  blocks.push({ type: "heading", level: 2, text: "Trace links" });
+  blocks.push(
+    changeSet.traceLinks.length === 0
+      ? none
+      : {
+          type: "table",
+          headers: ["Change", "Source", "Link type", "Target", "Details"],
+          widths: [1.1, 1.4, 1.2, 1.4, 3.5],
+          rows: changeSet.traceLinks.map(link => [
+            CHANGE_LABELS[link.change],
+            link.source,
+            link.linkType,
+            link.target,
+            describeDeltas(link.attributes)
+          ])
+        }
+  );
+
+  blocks.push({ type: "heading", level: 2, text: "Architecture" });
+  blocks.push(changeSet.architecture.length === 0 ? none : itemTable(changeSet.architecture));
+
+  blocks.push({ type: "heading", level: 2, text: "Documents" });
+  blocks.push(changeSet.documents.length === 0 ? none : itemTable(changeSet.documents));
+
+  blocks.push(
+    { type: "heading", level: 2, text: "Verification" },
+    {
+      type: "paragraph",
+      runs: [{
+        text:
+          "The content hash is the SHA-256 of the change set between the two baselines. " +
+          "To check this report, submit the baselines, hash and signature to " +
+          `POST /baselines/${changeSet.tenant}/${changeSet.projectKey}/change-report/verify. ` +
+          "A matching hash confirms the baselines still produce these changes; a valid signature " +
+          "confirms the report was issued by this AIRGen instance."
+      }]
+    },
+    {
+      type: "table",
+      headers: ["Field", "Value"],
+      widths: [1, 4],
+      rows: [
+        ["Content hash (SHA-256)", hash],
+        ["Signature (HMAC-SHA256)", signature]
+      ]
+    }
+  );
+
+  return {
+    title,
+    author: generatedBy,
+    subject: `${changeSet.tenant}/${changeSet.projectKey}`,
+    footer: `${changeSet.projectKey} ${changeSet.from.ref}..${changeSet.to.ref} | sha256 ${hash.slice(0, 16)}`,
+    properties: {
+      FromBaseline: changeSet.from.ref,
+      ToBaseline: changeSet.to.ref,
+      ContentHash: hash,
+      Signature: signature
+    },
+    blocks
+  };
+}
+
+export function renderBaselineChangeReport(
+  changeSet: BaselineChangeSet,
+  format: ChangeReportFormat,
+  options: { generatedBy?: string; generatedAt?: string } = {}
+): ChangeReportFile {
+  const hash = hashChangeSet(changeSet);
+  const signature = signReportHash(hash);
+  const document = buildReportDocument(
+    changeSet,
+    hash,
+    signature,
+    options.generatedBy,
+    options.generatedAt ?? new Date().toISOString()
+  );
+
+  return {
+    content: format === "pdf" ? renderPdf(document) : renderDocx(document),
+    contentType: CONTENT_TYPES[format],
+    fileName: `${changeSet.projectKey}-${changeSet.from.ref}-to-${changeSet.to.ref}.${format}`,
+    hash,
+    signature
+  };
+}
+
+// ============================================================================
+// Entry points
+// ============================================================================
+
+export async function getBaselineChangeSet(
+  tenant: string,
+  projectKey: string,
+  fromRef: string,
+  toRef: string
+): Promise<BaselineChangeSet> {
+  const fromSnapshot = await getBaselineOrHeadSnapshot(tenant, projectKey, fromRef);
+  const toSnapshot = await getBaselineOrHeadSnapshot(tenant, projectKey, toRef);
+
+  const requirementIds = new Set<string>();
+  for (const snapshot of [fromSnapshot, toSnapshot]) {
+    snapshot.requirementVersions.forEach(r => requirementIds.add(r.requirementId));
+    snapshot.traceLinkVersions.forEach(l => {
+      requirementIds.add(l.sourceRequirementId);
+      requirementIds.add(l.targetRequirementId);
+    });
+  }
+  const refs = await getRequirementRefs(tenant, projectKey, [...requirementIds]);
+
+  return buildBaselineChangeSet(fromSnapshot, toSnapshot, refs);
+}
+
+export async function generateBaselineChangeReport(
+  tenant: string,
+  projectKey: string,
+  fromRef: string,
+  toRef: string,
+  format: ChangeReportFormat,
+  generatedBy?: string
+): Promise<ChangeReportFile> {
+  const changeSet = await getBaselineChangeSet(tenant, projectKey, fromRef, toRef);
+  return renderBaselineChangeReport(changeSet, format, { generatedBy });
+}
+
+export type ChangeReportVerification = {
+  /** The baselines still produce the hash printed in the report */
+  hashMatches: boolean;
+  /** The signature was issued for the hash with this server's key; null when no signature was supplied */
+  signatureValid: boolean | null;
+  valid: boolean;
+  currentHash: string;
+};
+
+export async function verifyBaselineChangeReport(
+  tenant: string,
+  projectKey: string,
+  fromRef: string,
+  toRef: string,
+  hash: string,
+  signature?: string
+): Promise<ChangeReportVerification> {
+  const changeSet = await getBaselineChangeSet(tenant, projectKey, fromRef, toRef);
+  const currentHash = hashChangeSet(changeSet);
+  const hashMatches = currentHash === hash.toLowerCase();
+  const signatureValid = signature ? isValidSignature(hash.toLowerCase(), signature) : null;
+
+  return {
+    hashMatches,
+    signatureValid,
+    valid: hashMatches && signatureValid !== false,
+    currentHash
+  };
+}
@@ -0,0 +1,314 @@
+import { randomUUID } from "node:crypto";
+import { slugify } from "./workspace.js";
+
+/**
+ * Live collaboration for the document view.
+ *
+ * Every open document has an in-memory room of WebSocket connections. The
+ * room tracks who is viewing which requirement and the soft locks held while
+ * a requirement is open for editing, and relays change notifications that
+ * the REST routes publish after successful writes.
+ *
+ * State lives in this process only. Locks are advisory: stale writes are
+ * rejected by the versionNumber check in updateRequirement, not here.
+ */
+
+export type CollaborationUser = {
+  userId: string;
+  name: string;
+};
+
+export type DocumentParticipant = CollaborationUser & {
+  connectionId: string;
+  viewingRequirementId: string | null;
+  joinedAt: string;
+};
+
+export type RequirementSoftLock = CollaborationUser & {
+  requirementId: string;
+  connectionId: string;
+  acquiredAt: string;
+};
+
+export type DocumentChange = {
+  entity: "requirement" | "section" | "info" | "surrogate" | "document";
+  action: "created" | "updated" | "deleted" | "reordered";
+  id?: string;
+  ref?: string;
+};
+
+export type CollaborationServerMessage =
+  | { type: "welcome"; connectionId: string; participants: DocumentParticipant[]; locks: RequirementSoftLock[] }
+  | { type: "presence"; participants: DocumentParticipant[] }
+  | { type: "locks"; locks: RequirementSoftLock[] }
+  | { type: "lock-denied"; requirementId: string; lock: RequirementSoftLock }
+  | { type: "change"; change: DocumentChange; actor: CollaborationUser | null; at: string }
+  | { type: "pong" }
+  | { type: "error"; message: string };
+
+export type CollaborationClientMessage =
+  | { type: "view"; requirementId: string | null }
+  | { type: "lock"; requirementId: string; force?: boolean }
+  | { type: "unlock"; requirementId: string }
+  | { type: "ping" };
+
+/** The part of a WebSocket connection the hub needs */
+export interface CollaborationSocket {
+  send(message: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+/** Connections that have not sent anything for this long are dropped */
+export const COLLABORATION_IDLE_TIMEOUT_MS = 90_000;
+
+type Connection = {
+  participant: DocumentParticipant;
+  socket: CollaborationSocket;
+  lastSeen: number;
+};
+
+type Room = {
+  connections: Map<string, Connection>;
+  locks: Map<string, RequirementSoftLock>;
+};
+
+export function documentRoomKey(tenant: string, projectKey: string, documentSlug: string): string {
+  return `${slugify(tenant)}/${slugify(projectKey)}/${documentSlug}`;
+}
+
+function parseClientMessage(raw: string): CollaborationClientMessage | null {
+  try {
+    const message = JSON.parse(raw) as Partial<CollaborationClientMessage>;
+    switch (message.type) {
+      case "ping":
+        return { type: "ping" };
+      case "view":
+        return {
+          type: "view",
+          requirementId: typeof message.requirementId === "string" ? message.requirementId : null
+        };
+      case "lock":
+      case "unlock":
+        if (typeof message.requirementId !== "string" || !message.requirementId) {
+          return null;
+        }
+        return message.type === "lock"
+          ? { type: "lock", requirementId: message.requirementId, force: message.force === true }
+          : { type: "unlock", requirementId: message.requirementId };
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+export class DocumentCollaborationHub {
+  private rooms = new Map<string, Room>();
+
+  /**
+   * Add a connection to a document room and send it the current state.
+   *
+   * @returns The connection id used for subsequent calls
+   */
+  join(roomKey: string, user: CollaborationUser, socket: CollaborationSocket): string {
+    const room = this.rooms.get(roomKey) ?? { connections: new Map(), locks: new Map() };
+    this.rooms.set(roomKey, room);
+
+    const connectionId = randomUUID();
+    room.connections.set(connectionId, {
+      participant: {
+        connectionId,
+        userId: user.userId,
+        name: user.name,
+        viewingRequirementId: null,
+        joinedAt: new Date().toISOString()
+      },
+      socket,
+      lastSeen: Date.now()
+    });
+
+    this.sendTo(socket, {
+      type: "welcome",
+      connectionId,
+      participants: this.participants(room),
+      locks: [...room.locks.values()]
+    });
+    this.broadcast(room, { type: "presence", participants: this.participants(room) }, connectionId);
+    return connectionId;
+  }
+
+  /**
+   * Remove a connection, releasing any locks it held
+   */
+  leave(roomKey: string, connectionId: string): void {
+    const room = this.rooms.get(roomKey);
+    if (!room || !room.connections.delete(connectionId)) {
+      return;
+    }
+
+    const released = this.releaseLocksOf(room, connectionId);
+    if (room.connections.size === 0) {
+      this.rooms.delete(roomKey);
+      return;
+    }
+    this.broadcast(room, { type: "presence", participants: this.participants(room) });
+    if (released) {
+      this.broadcast(room, { type: "locks", locks: [...room.locks.values()] });
+    }
+  }
+
+  /**
+   * Apply a message received from a client
+   */
+  handleMessage(roomKey: string, connectionId: string, raw: string): void {
+    const room = this.rooms.get(roomKey);
+    const connection = room?.connections.get(connectionId);
+    if (!room || !connection) {
+      return;
+    }
+    connection.lastSeen = Date.now();
+
+    const message = parseClientMessage(raw);
+    if (!message) {
+      this.sendTo(connection.socket, { type: "error", message: "Unrecognised message" });
+      return;
+    }
+
+    switch (message.type) {
+      case "ping":
+        this.sendTo(connection.socket, { type: "pong" });
+        return;
+
+      case "view":
+        if (connection.participant.viewingRequirementId !== message.requirementId) {
+          connection.participant.viewingRequirementId = message.requirementId;
+          this.broadcast(room, { type: "presence", participants: this.participants(room) });
+        }
+        return;
+
+      case "lock": {
+        const existing = room.locks.get(message.requirementId);
+        if (existing && existing.connectionId === connectionId) {
+          return;
+        }
+        if (existing && existing.userId !== connection.participant.userId && !message.force) {
+          this.sendTo(connection.socket, { type: "lock-denied", requirementId: message.requirementId, lock: existing });
+          return;
+        }
+        room.locks.set(message.requirementId, {
+          requirementId: message.requirementId,
+          connectionId,
+          userId: connection.participant.userId,
+          name: connection.participant.name,
+          acquiredAt: new Date().toISOString()
+        });
+        this.broadcast(room, { type: "locks", locks: [...room.locks.values()] });
+        return;
+      }
+
+      case "unlock": {
+        const existing = room.locks.get(message.requirementId);
+        if (existing?.connectionId === connectionId) {
+          room.locks.delete(message.requirementId);
+          this.broadcast(room, { type: "locks", locks: [...room.locks.values()] });
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * Notify viewers of a document about a change. Without a document slug
+   * (e.g. a section addressed only by id) every open document in the
+   * project is notified.
+   */
+  publish(
+    tenant: string,
+    projectKey: string,
+    documentSlug: string | null | undefined,
+    change: DocumentChange,
+    actor: CollaborationUser | null
+  ): void {
+    const keys = documentSlug
+      ? [documentRoomKey(tenant, projectKey, documentSlug)]
+      : [...this.rooms.keys()].filter(key => key.startsWith(`${slugify(tenant)}/${slugify(projectKey)}/`));
+
+    for (const key of keys) {
+      const room = this.rooms.get(key);
+      if (!room) {
+        continue;
+      }
+      if (change.entity === "requirement" && change.action === "deleted" && change.id && room.locks.delete(change.id)) {
+        this.broadcast(room, { type: "locks", locks: [...room.locks.values()] });
+      }
+      this.broadcast(room, { type: "change", change, actor, at: new Date().toISOString() });
+    }
+  }
+
+  /**
+   * Drop connections that have gone quiet (clients ping periodically)
+   */
+  sweep(now = Date.now()): void {
+    for (const [roomKey, room] of [...this.rooms.entries()]) {
+      for (const [connectionId, connection] of [...room.connections.entries()]) {
+        if (now - connection.lastSeen > COLLABORATION_IDLE_TIMEOUT_MS) {
+          connection.socket.close(1001, "Idle timeout");
+          this.leave(roomKey, connectionId);
+        }
+      }
+    }
+  }
+
+  /**
+   * Close every connection (server shutdown)
+   */
+  closeAll(): void {
+    for (const room of this.rooms.values()) {
+      for (const connection of room.connections.values()) {
+        connection.socket.close(1001, "Server shutting down");
+      }
+    }
+    this.rooms.clear();
+  }
+
+  private participants(room: Room): DocumentParticipant[] {
+    return [...room.connections.values()].map(connection => connection.participant);
+  }
+
+  private releaseLocksOf(room: Room, connectionId: string): boolean {
+    let released = false;
+    for (const [requirementId, lock] of [...room.locks.entries()]) {
+      if (lock.connectionId === connectionId) {
+        room.locks.delete(requirementId);
+        released = true;
+      }
+    }
+    return released;
+  }
+
+  private sendTo(socket: CollaborationSocket, message: CollaborationServerMessage): void {
+    socket.send(JSON.stringify(message));
+  }
+
+  private broadcast(room: Room, message: CollaborationServerMessage, exceptConnectionId?: string): void {
+    const payload = JSON.stringify(message);
+    for (const [connectionId, connection] of room.connections) {
+      if (connectionId !== exceptConnectionId) {
+        connection.socket.send(payload);
+      }
+    }
+  }
+}
+
+export const collaborationHub = new DocumentCollaborationHub();
+
+/**
+ * Display identity for a change made by an authenticated request
+ */
+export function collaborationActor(user: { sub: string; name?: string; email?: string } | null | undefined): CollaborationUser | null {
+  if (!user) {
+    return null;
+  }
+  return { userId: user.sub, name: user.name || user.email || user.sub };
+}
@@ -0,0 +1,125 @@
+import type { CommentRecord } from "./graph/comments.js";
+import { slugify } from "./workspace.js";
+import { createNotifications } from "./notifications.js";
+import { sendCommentMentionEmail } from "../lib/email.js";
+import { logger } from "../lib/logger.js";
+
+/**
+ * @mentions in comments.
+ *
+ * Users are mentioned by email address (`@jane@example.com`). Only users with
+ * access to the comment's tenant or project can be mentioned; each mention
+ * creates an in-app notification and sends an email.
+ */
+
+export type MentionableUser = {
+  id: string;
+  email: string;
+  name: string | null;
+};
+
+const MENTION_PATTERN = /(^|[^\w.+-])@([\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[A-Za-z]{2,})/g;
+
+const EXCERPT_LENGTH = 280;
+
+/**
+ * Email addresses mentioned in a comment body, lower-cased and de-duplicated.
+ */
+export function extractMentionEmails(body: string): string[] {
+  const emails = new Set<string>();
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    emails.add(match[2].replace(/\.+$/, "").toLowerCase());
+  }
+  return [...emails];
+}
+
+/**
+ * Users who can be mentioned in a project: everyone with tenant-wide access
+ * plus everyone granted access to the project.
+ */
+export async function listMentionableUsers(tenant: string, projectKey: string): Promise<MentionableUser[]> {
+  // Imported lazily: the repository connects to PostgreSQL on load
+  const { permissionRepository } = await import("../repositories/PermissionRepository.js");
+  const tenantSlug = slugify(tenant);
+  const [tenantUsers, projectUsers] = await Promise.all([
+    permissionRepository.listUsersInTenant(tenantSlug),
+    permissionRepository.listUsersInProject(tenantSlug, slugify(projectKey))
+  ]);
+
+  const users = new Map<string, MentionableUser>();
+  for (const user of [...tenantUsers, ...projectUsers]) {
+    users.set(user.id, { id: user.id, email: user.email, name: user.name ?? null });
+  }
+  return [...users.values()].sort((a, b) => a.email.localeCompare(b.email));
+}
+
+/**
+ * Resolve the mentions in a comment body to users of the project.
+ * Unknown addresses are ignored.
+ */
+export async function resolveMentions(
+  tenant: string,
+  projectKey: string,
+  body: string
+): Promise<MentionableUser[]> {
+  const emails = new Set(extractMentionEmails(body));
+  if (emails.size === 0) {
+    return [];
+  }
+  const users = await listMentionableUsers(tenant, projectKey);
+  return users.filter(user => emails.has(user.email.toLowerCase()));
+}
+
+function excerpt(body: string): string {
+  return body.length > EXCERPT_LENGTH ? `${body.slice(0, EXCERPT_LENGTH - 1)}…` : body;
+}
+
+/**
+ * Notify mentioned users in-app and by email. Never notifies the author and
+ * never throws; failures are logged so they cannot fail the comment request.
+ */
+export async function notifyMentionedUsers(
+  comment: CommentRecord,
+  mentioned: MentionableUser[],
+  actor: { id: string; name: string }
+): Promise<void> {
+  const recipients = mentioned.filter(user => user.id !== actor.id);
+  if (recipients.length === 0) {
+    return;
+  }
+
+  try {
+    await createNotifications(recipients.map(user => ({
+      userId: user.id,
+      tenantSlug: comment.tenant,
+      projectSlug: comment.projectKey,
+      type: "mention" as const,
+      title: `${actor.name} mentioned you in a comment`,
+      body: excerpt(comment.body),
+      target: {
+        kind: "comment",
+        commentId: comment.id,
+        threadId: comment.threadId,
+        targetType: comment.targetType,
+        targetId: comment.targetId,
+        documentSlug: comment.documentSlug
+      },
+      actorId: actor.id
+    })));
+  } catch (err) {
+    logger.warn({ err, commentId: comment.id }, "[Comments] Failed to create mention notifications");
+  }
+
+  await Promise.all(recipients.map(async user => {
+    try {
+      await sendCommentMentionEmail(user.email, user.name ?? undefined, {
+        mentionedBy: actor.name,
+        projectSlug: comment.projectKey,
+        documentSlug: comment.documentSlug,
+        excerpt: excerpt(comment.body)
+      });
+    } catch (err) {
+      logger.warn({ err, commentId: comment.id, userId: user.id }, "[Comments] Failed to send mention email");
+    }
+  }));
+}
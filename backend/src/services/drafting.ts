@@ -1,5 +1,5 @@
 import { promises as fs } from "node:fs";
-import { openai, model } from "../lib/openai.js";
+import { llmChat, type LlmCaller, type LlmContentPart } from "./llm-providers/index.js";
 import {
   sanitizeDraftingInputs,
   wrapUserInput,
@@ -14,13 +14,10 @@ export type DraftRequest = {
   n?: number; // number of candidates (default 5, max 10)
   documentContext?: string; // additional context from attached documents
   imageAttachments?: Array<{ documentName: string; filePath: string; mimeType: string }>; // attached images for vision analysis
+  caller?: LlmCaller; // selects the tenant's LLM provider and is metered
 };
 
 export async function draftCandidates(req: DraftRequest): Promise<string[]> {
-  if (!openai) {
-    throw new Error("OpenAI client not configured. Please set LLM_API_KEY environment variable.");
-  }
-
   // Sanitize and validate all inputs
   const sanitized = sanitizeDraftingInputs(req);
   const n = sanitized.n;
@@ -54,46 +51,31 @@ export async function draftCandidates(req: DraftRequest): Promise<string[]> {
   const textContent = contentParts.filter(Boolean).join("\n\n");
 
   // Build multimodal message content if images are present
-  type ContentPart =
-    | { type: "text"; text: string }
-    | { type: "image_url"; image_url: { url: string; detail: "high" } };
-
-  let userContent: string | ContentPart[];
+  let userContent: string | LlmContentPart[];
 
   if (req.imageAttachments && req.imageAttachments.length > 0) {
-    // Read images and convert to base64 data URLs
-    const imagePromises = req.imageAttachments.map(async (img) => {
+    const imageParts = await Promise.all(req.imageAttachments.map(async (img): Promise<LlmContentPart> => {
       const imageBuffer = await fs.readFile(img.filePath);
-      const base64 = imageBuffer.toString('base64');
-      return {
-        type: "image_url" as const,
-        image_url: {
-          url: `data:${img.mimeType};base64,${base64}`,
-          detail: "high" as const
-        }
-      };
-    });
-
-    const imageParts = await Promise.all(imagePromises);
+      return { type: "image", mimeType: img.mimeType, data: imageBuffer.toString("base64") };
+    }));
 
     userContent = [
-      { type: "text" as const, text: textContent },
+      { type: "text", text: textContent },
       ...imageParts
     ];
   } else {
     userContent = textContent;
   }
 
-  const completion = await openai.chat.completions.create({
-    model,
+  const completion = await llmChat({
     messages: [
       { role: "system", content: sys },
       { role: "user", content: userContent }
     ],
     temperature: 0.2
-  });
+  }, { ...req.caller, feature: "drafting" });
 
-  const text = completion.choices[0]?.message?.content ?? "{}";
+  const text = completion.content || "{}";
 
   // Detect suspicious output that may indicate successful prompt injection
   if (detectSuspiciousOutput(text)) {
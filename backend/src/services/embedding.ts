@@ -1,6 +1,5 @@
-import OpenAI from "openai";
 import { config } from "../config.js";
-import { getOpenAiClient } from "./llm.js";
+import { llmEmbed, resolveLlmSettings, LlmNotConfiguredError, LlmQuotaExceededError, type LlmCaller, type LlmProviderSettings } from "./llm-providers/index.js";
 import { logger } from "../lib/logger.js";
 import crypto from "crypto";
 
@@ -14,10 +13,17 @@ export interface EmbeddingMetadata {
   dimensions: number;
 }
 
-// Configuration
-const EMBEDDING_MODEL = "text-embedding-3-small"; // 1536 dimensions, $0.02/1M tokens
-const EMBEDDING_DIMENSIONS = 1536;
-const CACHE_TTL_SECONDS = 3600; // 1 hour
+/**
+ * Who the embedding is for. A tenant's own embedding provider is used
+ * instead of the platform default, and the call is metered to the caller.
+ */
+export type EmbeddingOptions = LlmCaller;
+
+export interface EmbeddingResult {
+  embedding: Embedding;
+  /** Model that produced the embedding, stored as embeddingModel */
+  model: string;
+}
 
 /**
  * Hash text for cache key generation
@@ -33,31 +39,45 @@ function hashText(text: string): string {
  * 3. Neo4j (permanent storage with requirement)
  */
 class EmbeddingService {
-  private memoryCache = new Map<string, Embedding>();
+  private memoryCache = new Map<string, EmbeddingResult>();
   private maxMemoryCacheSize = 1000;
-  private client: OpenAI | null = null;
 
-  private getClient(): OpenAI {
-    if (!this.client) {
-      this.client = getOpenAiClient();
+  private async getSettings(tenant?: string): Promise<LlmProviderSettings> {
+    const { embeddings } = await resolveLlmSettings(tenant);
+    if (!embeddings) {
+      throw new LlmNotConfiguredError("LLM embedding provider is not configured");
+    }
+    return embeddings;
+  }
+
+  // Embeddings from different models are not comparable, so the model is part of the key
+  private cacheKey(settings: LlmProviderSettings, text: string): string {
+    return hashText(`${settings.provider}:${settings.model}:${text.trim()}`);
+  }
+
+  private validateDimensions(embedding: Embedding): void {
+    if (embedding.length !== config.llm.embeddingDimensions) {
+      throw new Error(
+        `Unexpected embedding dimensions: got ${embedding.length}, expected ${config.llm.embeddingDimensions}`
+      );
     }
-    return this.client;
   }
 
   /**
-   * Generate embedding for text
+   * Generate embedding for text, together with the model that produced it
    */
-  async generateEmbedding(text: string): Promise<Embedding> {
+  async embed(text: string, options: EmbeddingOptions = {}): Promise<EmbeddingResult> {
     if (!text || text.trim().length === 0) {
       throw new Error("Cannot generate embedding for empty text");
     }
 
-    const hash = hashText(text);
+    const settings = await this.getSettings(options.tenant);
+    const key = this.cacheKey(settings, text);
 
     // Level 1: Check memory cache
-    const cached = this.memoryCache.get(hash);
+    const cached = this.memoryCache.get(key);
     if (cached) {
-      logger.info(`[Embedding] Memory cache hit for ${hash.substring(0, 8)}`);
+      logger.info(`[Embedding] Memory cache hit for ${key.substring(0, 8)}`);
       return cached;
     }
 
@@ -68,32 +88,32 @@ class EmbeddingService {
     logger.info(`[Embedding] Generating fresh embedding for text (${text.length} chars)`);
 
     try {
-      const client = this.getClient();
-      const response = await client.embeddings.create({
-        model: EMBEDDING_MODEL,
-        input: text.trim(),
-        encoding_format: "float"
-      });
+      const response = await llmEmbed([text.trim()], { ...options, feature: "embeddings" });
+      const result = { embedding: response.embeddings[0], model: response.model };
 
-      const embedding = response.data[0].embedding;
-
-      // Validate dimensions
-      if (embedding.length !== EMBEDDING_DIMENSIONS) {
-        throw new Error(
-          `Unexpected embedding dimensions: got ${embedding.length}, expected ${EMBEDDING_DIMENSIONS}`
-        );
-      }
+      this.validateDimensions(result.embedding);
 
       // Cache in memory
-      this.cacheInMemory(hash, embedding);
+      this.cacheInMemory(key, result);
 
-      return embedding;
+      return result;
     } catch (error) {
+      // Keep the quota error (and its 429) for callers to report
+      if (error instanceof LlmQuotaExceededError) {
+        throw error;
+      }
       logger.error({ err: error }, `[Embedding] Generation failed`);
       throw new Error(`Failed to generate embedding: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Generate embedding for text
+   */
+  async generateEmbedding(text: string, options: EmbeddingOptions = {}): Promise<Embedding> {
+    return (await this.embed(text, options)).embedding;
+  }
+
   /**
    * Generate embedding only if text changed
    * Optimizes for updates where text didn't change
@@ -101,7 +121,8 @@ class EmbeddingService {
   async generateIfChanged(
     currentText: string,
     previousText?: string,
-    existingEmbedding?: Embedding
+    existingEmbedding?: Embedding,
+    options: EmbeddingOptions = {}
   ): Promise<Embedding> {
     // If text unchanged and we have an embedding, reuse it
     if (previousText === currentText && existingEmbedding && existingEmbedding.length > 0) {
@@ -109,40 +130,35 @@ class EmbeddingService {
       return existingEmbedding;
     }
 
-    return this.generateEmbedding(currentText);
+    return this.generateEmbedding(currentText, options);
   }
 
   /**
    * Batch generate embeddings for multiple texts
    * More efficient than individual calls
    */
-  async generateBatch(texts: string[]): Promise<Embedding[]> {
+  async generateBatch(texts: string[], options: EmbeddingOptions = {}): Promise<Embedding[]> {
     if (texts.length === 0) {
       return [];
     }
 
     // For small batches or when most are cached, process individually
     if (texts.length <= 5) {
-      return Promise.all(texts.map(t => this.generateEmbedding(t)));
+      return Promise.all(texts.map(t => this.generateEmbedding(t, options)));
     }
 
-    // For larger batches, use OpenAI batch API
+    // For larger batches, send all texts in one request
     logger.info(`[Embedding] Batch generating ${texts.length} embeddings`);
 
     try {
-      const client = this.getClient();
-      const response = await client.embeddings.create({
-        model: EMBEDDING_MODEL,
-        input: texts.map(t => t.trim()),
-        encoding_format: "float"
-      });
-
-      const embeddings = response.data.map(d => d.embedding);
+      const settings = await this.getSettings(options.tenant);
+      const response = await llmEmbed(texts.map(t => t.trim()), { ...options, feature: "embeddings" });
+      const embeddings = response.embeddings;
+      embeddings.forEach(embedding => this.validateDimensions(embedding));
 
       // Cache all results
       texts.forEach((text, i) => {
-        const hash = hashText(text);
-        this.cacheInMemory(hash, embeddings[i]);
+        this.cacheInMemory(this.cacheKey(settings, text), { embedding: embeddings[i], model: response.model });
       });
 
       return embeddings;
@@ -183,7 +199,7 @@ class EmbeddingService {
   /**
    * Cache embedding in memory with LRU eviction
    */
-  private cacheInMemory(hash: string, embedding: Embedding): void {
+  private cacheInMemory(hash: string, result: EmbeddingResult): void {
     // Simple LRU: if cache full, remove oldest entry
     if (this.memoryCache.size >= this.maxMemoryCacheSize) {
       const firstKey = this.memoryCache.keys().next().value as string | undefined;
@@ -192,7 +208,7 @@ class EmbeddingService {
       }
     }
 
-    this.memoryCache.set(hash, embedding);
+    this.memoryCache.set(hash, result);
   }
 
   /**
@@ -202,8 +218,8 @@ class EmbeddingService {
     return {
       memoryCacheSize: this.memoryCache.size,
       maxMemoryCacheSize: this.maxMemoryCacheSize,
-      model: EMBEDDING_MODEL,
-      dimensions: EMBEDDING_DIMENSIONS
+      model: config.llm.embeddingModel,
+      dimensions: config.llm.embeddingDimensions
     };
   }
 
@@ -221,7 +237,5 @@ export const embeddingService = new EmbeddingService();
 
 // Export for testing
 export const __testOnly = {
-  hashText,
-  EMBEDDING_MODEL,
-  EMBEDDING_DIMENSIONS
+  hashText
 };
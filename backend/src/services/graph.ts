@@ -9,3 +9,15 @@ export * from "./graph/trace.js";
 export * from "./graph/infos.js";
 export * from "./graph/surrogates.js";
 export * from "./graph/verification.js";
+export * from "./graph/qa-rule-packs.js";
+export * from "./graph/attribute-schema.js";
+export * from "./graph/change-requests.js";
+export * from "./graph/comments.js";
+export * from "./graph/impact.js";
+export * from "./graph/branches.js";
+export * from "./graph/feature-model.js";
+export * from "./graph/trace-rules.js";
+export * from "./graph/metric-snapshots.js";
+export * from "./graph/glossary.js";
+export * from "./graph/test-results.js";
+export * from "./graph/verification-drift.js";
@@ -184,7 +184,7 @@ export async function listActivity(filters: ActivityFilters): Promise<ActivityRe
         null as entityRef,
         docVer.changedBy as userId,
         docVer.changeDescription as description,
-        {versionNumber: docVer.versionNumber} as metadata,
+        {versionNumber: docVer.versionNumber, slug: doc.slug} as metadata,
         $tenantSlug as tenantSlug,
         $projectSlug as projectSlug
       WHERE docVer IS NOT NULL
@@ -85,6 +85,7 @@ export function mapBlockDefinition(node: Neo4jNode, documentIds: string[] = [],
     packageId,
     ports: parseJsonArray<BlockPortRecord>(props.ports),
     documentIds: resolvedDocumentIds,
+    presenceCondition: props.presenceCondition ? String(props.presenceCondition) : null,
     createdAt: String(props.createdAt ?? new Date().toISOString()),
     updatedAt: String(props.updatedAt ?? new Date().toISOString())
   };
@@ -222,6 +223,7 @@ export function mapArchitectureConnector(node: Neo4jNode): ArchitectureConnector
     projectKey: String(props.projectKey),
     diagramId: String(props.diagramId ?? ""),
     documentIds: parseJsonArray<string>(props.documentIds),
+    presenceCondition: props.presenceCondition ? String(props.presenceCondition) : null,
     createdAt: String(props.createdAt),
     updatedAt: String(props.updatedAt),
     // Styling properties - preserve explicit values including "none"
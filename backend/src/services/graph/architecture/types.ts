@@ -118,6 +118,7 @@ export type ArchitectureBlockDefinitionRecord = {
   packageId?: string | null;
   ports: BlockPortRecord[];
   documentIds: string[];
+  presenceCondition?: string | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -161,6 +162,7 @@ export type ArchitectureConnectorRecord = {
   projectKey: string;
   diagramId: string;
   documentIds: string[];
+  presenceCondition?: string | null;
   createdAt: string;
   updatedAt: string;
   // Styling properties
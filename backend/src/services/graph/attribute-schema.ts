@@ -0,0 +1,346 @@
+import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
+import { slugify } from "../workspace.js";
+import type { RequirementAttributes, RequirementAttributeValue } from "../workspace.js";
+import { getSession } from "./driver.js";
+import { toNumber } from "../../lib/neo4j-utils.js";
+
+/**
+ * Per-project custom attribute schema.
+ *
+ * A project has at most one AttributeSchema node holding its field
+ * definitions as JSON. Requirement attributes are validated against it on
+ * create/update; keys not covered by the schema pass through untouched so
+ * tool-written attributes (e.g. implementation artifacts) keep working.
+ */
+
+export const ATTRIBUTE_FIELD_TYPES = ["string", "enum", "number", "date", "user", "multi-select", "boolean"] as const;
+export type AttributeFieldType = typeof ATTRIBUTE_FIELD_TYPES[number];
+
+export type AttributeFieldDefinition = {
+  /** Canonical attribute key stored on requirements */
+  key: string;
+  label: string;
+  type: AttributeFieldType;
+  description?: string;
+  required: boolean;
+  /** Allowed values for enum and multi-select fields */
+  options?: string[];
+  /** Inclusive range for number fields */
+  min?: number;
+  max?: number;
+  defaultValue?: RequirementAttributeValue;
+};
+
+export type AttributeSchemaRecord = {
+  tenant: string;
+  projectKey: string;
+  version: number;
+  fields: AttributeFieldDefinition[];
+  updatedAt: string;
+  updatedBy: string | null;
+};
+
+export class AttributeSchemaError extends Error {
+  readonly statusCode = 400;
+
+  constructor(message: string, public readonly details: string[] = []) {
+    super(details.length > 0 ? `${message}: ${details.join("; ")}` : message);
+    this.name = "AttributeSchemaError";
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Attribute keys are compared ignoring case, spaces, dashes and underscores */
+export function normalizeAttributeKey(key: string): string {
+  return key.toLowerCase().replace(/[\s_-]+/g, "");
+}
+
+function mapAttributeSchema(node: Neo4jNode): AttributeSchemaRecord {
+  const props = node.properties as Record<string, unknown>;
+  return {
+    tenant: String(props.tenant),
+    projectKey: String(props.projectKey),
+    version: toNumber(props.version),
+    fields: JSON.parse(String(props.definition)) as AttributeFieldDefinition[],
+    updatedAt: String(props.updatedAt),
+    updatedBy: props.updatedBy ? String(props.updatedBy) : null
+  };
+}
+
+export async function getAttributeSchema(
+  tenant: string,
+  projectKey: string
+): Promise<AttributeSchemaRecord | null> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    const result = await session.executeRead(async (tx: ManagedTransaction) => tx.run(
+      `
+        MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_ATTRIBUTE_SCHEMA]->(schema:AttributeSchema)
+        RETURN schema
+        LIMIT 1
+      `,
+      { tenantSlug, projectSlug }
+    ));
+
+    if (result.records.length === 0) {
+      return null;
+    }
+    return mapAttributeSchema(result.records[0].get("schema") as Neo4jNode);
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Check field definitions for duplicate keys, missing options, inverted
+ * ranges and defaults that would themselves fail validation.
+ */
+export function validateAttributeSchemaFields(fields: AttributeFieldDefinition[]): string[] {
+  const errors: string[] = [];
+  const seen = new Map<string, string>();
+
+  for (const field of fields) {
+    const key = field.key.trim();
+    if (!key) {
+      errors.push("Every field needs a key");
+      continue;
+    }
+    const normalized = normalizeAttributeKey(key);
+    const clash = seen.get(normalized);
+    if (clash) {
+      errors.push(`Field "${key}" clashes with "${clash}"`);
+    }
+    seen.set(normalized, key);
+
+    if ((field.type === "enum" || field.type === "multi-select") && (!field.options || field.options.length === 0)) {
+      errors.push(`Field "${key}" needs at least one option`);
+    }
+    if (field.options && new Set(field.options).size !== field.options.length) {
+      errors.push(`Field "${key}" has duplicate options`);
+    }
+    if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+      errors.push(`Field "${key}" has min greater than max`);
+    }
+    if (field.defaultValue !== undefined && field.defaultValue !== null) {
+      const result = coerceValue(field, field.defaultValue);
+      if ("error" in result) {
+        errors.push(`Default for "${key}" ${result.error}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Replace the project's attribute schema.
+ *
+ * @throws AttributeSchemaError if the field definitions are inconsistent
+ * @throws Error if the project does not exist
+ */
+export async function saveAttributeSchema(params: {
+  tenant: string;
+  projectKey: string;
+  fields: AttributeFieldDefinition[];
+  userId: string;
+}): Promise<AttributeSchemaRecord> {
+  const fields = params.fields.map(field => ({ ...field, key: field.key.trim(), label: field.label.trim() || field.key.trim() }));
+  const errors = validateAttributeSchemaFields(fields);
+  if (errors.length > 0) {
+    throw new AttributeSchemaError("Invalid attribute schema", errors);
+  }
+
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+  const now = new Date().toISOString();
+  const session = getSession();
+
+  try {
+    const node = await session.executeWrite(async (tx: ManagedTransaction) => {
+      const result = await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+          MERGE (project)-[:HAS_ATTRIBUTE_SCHEMA]->(schema:AttributeSchema)
+            ON CREATE SET schema.tenant = $tenantSlug,
+                          schema.projectKey = $projectSlug,
+                          schema.version = 0
+          SET schema.definition = $definition,
+              schema.version = schema.version + 1,
+              schema.updatedAt = $now,
+              schema.updatedBy = $userId
+          RETURN schema
+        `,
+        { tenantSlug, projectSlug, definition: JSON.stringify(fields), now, userId: params.userId }
+      );
+
+      if (result.records.length === 0) {
+        throw new Error("Project not found");
+      }
+      return result.records[0].get("schema") as Neo4jNode;
+    });
+
+    return mapAttributeSchema(node);
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Coerce a raw value to the field's type. String forms (as produced by CSV
+ * and ReqIF imports) are accepted for numbers, booleans, dates and
+ * multi-selects.
+ */
+function coerceValue(
+  field: AttributeFieldDefinition,
+  value: RequirementAttributeValue
+): { value: RequirementAttributeValue } | { error: string } {
+  switch (field.type) {
+    case "number": {
+      const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      if (typeof number !== "number" || !Number.isFinite(number)) {
+        return { error: "must be a number" };
+      }
+      if (field.min !== undefined && number < field.min) {
+        return { error: `must be at least ${field.min}` };
+      }
+      if (field.max !== undefined && number > field.max) {
+        return { error: `must be at most ${field.max}` };
+      }
+      return { value: number };
+    }
+    case "boolean": {
+      if (typeof value === "boolean") {return { value };}
+      if (value === "true" || value === "false") {return { value: value === "true" };}
+      return { error: "must be true or false" };
+    }
+    case "date": {
+      const text = typeof value === "string" ? value.trim().slice(0, 10) : "";
+      if (!DATE_PATTERN.test(text) || Number.isNaN(Date.parse(text))) {
+        return { error: "must be a date (YYYY-MM-DD)" };
+      }
+      return { value: text };
+    }
+    case "enum": {
+      const option = field.options?.find(candidate => candidate.toLowerCase() === String(value).toLowerCase());
+      if (typeof value === "object" || option === undefined) {
+        return { error: `must be one of ${(field.options ?? []).join(", ")}` };
+      }
+      return { value: option };
+    }
+    case "multi-select": {
+      const items = Array.isArray(value)
+        ? value
+        : typeof value === "string" ? value.split(/[,;]/).map(item => item.trim()).filter(Boolean) : null;
+      if (!items) {
+        return { error: "must be a list of options" };
+      }
+      const selected: string[] = [];
+      for (const item of items) {
+        const option = field.options?.find(candidate => candidate.toLowerCase() === item.toLowerCase());
+        if (option === undefined) {
+          return { error: `contains "${item}", expected any of ${(field.options ?? []).join(", ")}` };
+        }
+        if (!selected.includes(option)) {selected.push(option);}
+      }
+      return { value: selected };
+    }
+    case "user":
+    case "string": {
+      if (typeof value !== "string") {
+        return { error: field.type === "user" ? "must be a user id" : "must be text" };
+      }
+      return { value };
+    }
+  }
+}
+
+function isEmpty(value: RequirementAttributeValue | undefined): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Validate requirement attributes against a schema.
+ *
+ * Keys matching a field loosely (e.g. "priority" for "Priority") are
+ * rewritten to the field's canonical key, values are coerced to the field
+ * type and, when `applyDefaults` is set, missing fields get their default.
+ * Keys not in the schema are kept as-is.
+ *
+ * @throws AttributeSchemaError listing every invalid or missing attribute
+ */
+export function validateRequirementAttributes(
+  fields: AttributeFieldDefinition[],
+  attributes: RequirementAttributes | undefined,
+  options: { applyDefaults?: boolean } = {}
+): RequirementAttributes {
+  const byKey = new Map(fields.map(field => [normalizeAttributeKey(field.key), field]));
+  const labels = new Map(fields.map(field => [normalizeAttributeKey(field.label), field]));
+  const result: RequirementAttributes = {};
+  const errors: string[] = [];
+  const invalid = new Set<string>();
+
+  for (const [key, value] of Object.entries(attributes ?? {})) {
+    const field = byKey.get(normalizeAttributeKey(key)) ?? labels.get(normalizeAttributeKey(key));
+    if (!field) {
+      result[key] = value;
+      continue;
+    }
+    if (Object.prototype.hasOwnProperty.call(result, field.key)) {
+      errors.push(`"${key}" duplicates attribute "${field.key}"`);
+      continue;
+    }
+    if (isEmpty(value)) {
+      result[field.key] = null;
+      continue;
+    }
+    const coerced = coerceValue(field, value);
+    if ("error" in coerced) {
+      invalid.add(field.key);
+      errors.push(`${field.label} ${coerced.error}`);
+    } else {
+      result[field.key] = coerced.value;
+    }
+  }
+
+  for (const field of fields) {
+    if (!isEmpty(result[field.key]) || invalid.has(field.key)) {continue;}
+    if (options.applyDefaults && !isEmpty(field.defaultValue)) {
+      const coerced = coerceValue(field, field.defaultValue!);
+      if ("value" in coerced) {
+        result[field.key] = coerced.value;
+        continue;
+      }
+    }
+    if (field.required) {
+      errors.push(`${field.label} is required`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new AttributeSchemaError("Invalid requirement attributes", errors);
+  }
+  return result;
+}
+
+/**
+ * Load the project's schema and validate attributes against it. Projects
+ * without a schema accept any attributes.
+ *
+ * @throws AttributeSchemaError if the attributes do not satisfy the schema
+ */
+export async function enforceAttributeSchema(
+  tenant: string,
+  projectKey: string,
+  attributes: RequirementAttributes | undefined,
+  options: { applyDefaults?: boolean } = {}
+): Promise<RequirementAttributes | undefined> {
+  const schema = await getAttributeSchema(tenant, projectKey);
+  if (!schema || schema.fields.length === 0) {
+    return attributes;
+  }
+  return validateRequirementAttributes(schema.fields, attributes, options);
+}
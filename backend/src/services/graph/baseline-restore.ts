@@ -0,0 +1,1025 @@
+import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
+import { slugify } from "../workspace.js";
+import type { RequirementRecord, RequirementVersionRecord } from "../workspace.js";
+import { getSession } from "./driver.js";
+import { getBaselineDetails, type BaselineSnapshot } from "./requirement-baselines.js";
+import { mapRequirement } from "./requirements/requirements-mapper.js";
+import { createRequirementVersion } from "./requirements/requirements-versions.js";
+import { updateRequirementRefsForDocument, updateRequirementRefsForSection } from "./requirements/requirements-refs.js";
+import { createDocumentVersion, generateDocumentContentHash } from "./documents/documents-versions.js";
+import { createDocumentSectionVersion, generateDocumentSectionContentHash } from "./documents/sections-versions.js";
+import { assertDocumentUnlocked, assertRequirementsUnlocked } from "./documents/documents-lock.js";
+import type { DocumentKind } from "./documents/documents-crud.js";
+import { createTraceLinkVersion, generateTraceLinkContentHash, type TraceLinkVersionRecord } from "./trace-versions.js";
+import { flagSuspectLinks } from "./trace-suspect.js";
+import { computeRequirementHash } from "../../lib/requirement-hash.js";
+import { toNumber } from "../../lib/neo4j-utils.js";
+import { CacheInvalidation } from "../../lib/cache.js";
+import { emitWebhookEvent, executeWriteWithWebhookEvents } from "../webhooks.js";
+
+/**
+ * Restore a project, document or section to the state captured by a baseline.
+ *
+ * The baseline's version records are compared with the live graph to build a
+ * plan of per-entity actions, which is either returned as a preview (dry run)
+ * or applied in a single transaction. Every entity the restore writes gets a
+ * new version with change type "restored".
+ *
+ * Documents, sections, requirements and trace links are restored. Sections
+ * deleted since the baseline cannot be recreated (their contents are gone).
+ * A project-scope restore is refused when the baseline also captured
+ * entities it cannot restore (info notes, surrogates, linksets and
+ * architecture), rather than leaving the project half restored. For document
+ * and section scopes only entities that are currently inside the scope are
+ * considered, because version records do not capture where a requirement lived.
+ */
+
+export type RestoreScope =
+  | { type: "project" }
+  | { type: "document"; documentSlug: string }
+  | { type: "section"; sectionId: string };
+
+export type RestoreEntityType = "document" | "section" | "requirement" | "traceLink";
+
+/**
+ * - update: write the baseline's field values
+ * - undelete: bring back a soft-deleted entity (and its baseline values)
+ * - recreate: rebuild a trace link deleted since the baseline
+ * - delete: remove an entity that did not exist at the baseline
+ * - skip: differs from the baseline but cannot be restored (see reason)
+ */
+export type RestoreActionKind = "update" | "undelete" | "recreate" | "delete" | "skip";
+
+export type RestoreAction = {
+  entityType: RestoreEntityType;
+  entityId: string;
+  label: string;
+  action: RestoreActionKind;
+  /** Fields whose current value differs from the baseline */
+  fields: string[];
+  reason?: string;
+};
+
+export type RestorePlan = {
+  baselineRef: string;
+  scope: RestoreScope;
+  dryRun: boolean;
+  actions: RestoreAction[];
+  summary: Record<RestoreActionKind, number>;
+};
+
+export type RestoreCurrentDocument = {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  shortCode: string | null;
+  deleted: boolean;
+  createdAt: string | null;
+};
+
+export type RestoreCurrentSection = {
+  id: string;
+  name: string;
+  description: string | null;
+  shortCode: string | null;
+  order: number;
+};
+
+export type RestoreCurrentTraceLink = {
+  id: string;
+  sourceRequirementId: string;
+  targetRequirementId: string;
+  linkType: string;
+  description: string | null;
+  createdAt: string | null;
+};
+
+/** Live state of the entities inside a restore scope */
+export type RestoreState = {
+  documents: RestoreCurrentDocument[];
+  sections: RestoreCurrentSection[];
+  /** Includes soft-deleted requirements */
+  requirements: RequirementRecord[];
+  traceLinks: RestoreCurrentTraceLink[];
+  /** Refs of every requirement in the project, to label links and check the ends of links to recreate */
+  projectRequirementRefs: Map<string, string>;
+};
+
+/** Error with an HTTP status for the global error handler */
+export class BaselineRestoreError extends Error {
+  constructor(public readonly statusCode: 400 | 404 | 409, message: string) {
+    super(message);
+    this.name = "BaselineRestoreError";
+  }
+}
+
+const REQUIREMENT_FIELDS = [
+  "text",
+  "pattern",
+  "verification",
+  "rationale",
+  "complianceStatus",
+  "complianceRationale",
+  "tags",
+  "attributes"
+] as const;
+
+const DOCUMENT_FIELDS = ["name", "description", "shortCode"] as const;
+
+const SECTION_FIELDS = ["name", "description", "shortCode", "order"] as const;
+
+const TRACE_LINK_FIELDS = ["linkType", "description"] as const;
+
+// Removals are recorded as "restored" versions; this prefix lets a later
+// restore recognise the entity as deleted at that point
+const REMOVAL_DESCRIPTION_PREFIX = "Removed by restore to baseline";
+
+const ACTION_ORDER: Record<RestoreEntityType, number> = {
+  document: 0,
+  section: 1,
+  requirement: 2,
+  traceLink: 3
+};
+
+/** Stable representation in which missing, empty and absent values are equal */
+function canonicalValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0 ? "null" : JSON.stringify(value);
+  }
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== null && v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return entries.length === 0 ? "null" : JSON.stringify(Object.fromEntries(entries));
+  }
+  return JSON.stringify(value);
+}
+
+function changedFields<F extends string>(
+  fields: readonly F[],
+  current: Partial<Record<F, unknown>>,
+  baseline: Partial<Record<F, unknown>>
+): F[] {
+  return fields.filter(field => canonicalValue(current[field]) !== canonicalValue(baseline[field]));
+}
+
+/** Whether a version record marks its entity as deleted at that point */
+export function deletedAtBaseline(version: { changeType: string; changeDescription?: string }): boolean {
+  return version.changeType === "deleted" ||
+    (version.changeType === "restored" && (version.changeDescription ?? "").startsWith(REMOVAL_DESCRIPTION_PREFIX));
+}
+
+function createdAfter(createdAt: string | null | undefined, baselineCreatedAt: string): boolean {
+  return Boolean(createdAt) && String(createdAt) > baselineCreatedAt;
+}
+
+/** Kinds of entity the snapshot captured that a restore cannot bring back */
+function unrestorableContents(snapshot: BaselineSnapshot): string[] {
+  return [
+    ["info notes", snapshot.infoVersions],
+    ["surrogate references", snapshot.surrogateReferenceVersions],
+    ["document linksets", snapshot.linksetVersions],
+    ["architecture diagrams", snapshot.diagramVersions],
+    ["architecture blocks", snapshot.blockVersions],
+    ["architecture connectors", snapshot.connectorVersions]
+  ]
+    .filter(([, versions]) => versions.length > 0)
+    .map(([kind]) => kind as string);
+}
+
+/**
+ * Work out what it takes to bring the entities in `state` back to the
+ * baseline. Entities that already match are left out of the plan.
+ *
+ * @throws BaselineRestoreError (409) for a project scope when the baseline
+ *   captured entities that cannot be restored
+ */
+export function planRestoreActions(
+  snapshot: BaselineSnapshot,
+  state: RestoreState,
+  scope: RestoreScope
+): RestoreAction[] {
+  const actions: RestoreAction[] = [];
+  const baselineCreatedAt = snapshot.baseline.createdAt;
+  const projectScope = scope.type === "project";
+
+  const unrestorable = projectScope ? unrestorableContents(snapshot) : [];
+  if (unrestorable.length > 0) {
+    throw new BaselineRestoreError(
+      409,
+      `Baseline ${snapshot.baseline.ref} also captures ${unrestorable.join(", ")}, which cannot be restored; restore its documents individually instead`
+    );
+  }
+
+  // Documents
+  const currentDocuments = new Map(state.documents.map(d => [d.id, d]));
+  const baselineDocuments = new Map(
+    snapshot.documentVersions
+      .filter(v => projectScope || currentDocuments.has(v.documentId))
+      .map(v => [v.documentId, v])
+  );
+  for (const [id, version] of baselineDocuments) {
+    const current = currentDocuments.get(id);
+    const label = current?.name ?? version.name;
+    if (!current) {
+      actions.push({ entityType: "document", entityId: id, label, action: "skip", fields: [], reason: "Document no longer exists" });
+      continue;
+    }
+    const fields = changedFields(DOCUMENT_FIELDS, current, version);
+    if (deletedAtBaseline(version)) {
+      if (!current.deleted) {
+        actions.push({ entityType: "document", entityId: id, label, action: "delete", fields: [] });
+      }
+    } else if (current.deleted) {
+      actions.push({ entityType: "document", entityId: id, label, action: "undelete", fields });
+    } else if (fields.length > 0) {
+      actions.push({ entityType: "document", entityId: id, label, action: "update", fields });
+    }
+  }
+  for (const current of state.documents) {
+    if (baselineDocuments.has(current.id) || current.deleted) {
+      continue;
+    }
+    actions.push(createdAfter(current.createdAt, baselineCreatedAt)
+      ? { entityType: "document", entityId: current.id, label: current.name, action: "delete", fields: [], reason: "Created after the baseline" }
+      : { entityType: "document", entityId: current.id, label: current.name, action: "skip", fields: [], reason: "No version recorded in the baseline" });
+  }
+
+  // Sections
+  const currentSections = new Map(state.sections.map(s => [s.id, s]));
+  const baselineSections = new Map(
+    snapshot.documentSectionVersions
+      .filter(v => projectScope || currentSections.has(v.sectionId))
+      .map(v => [v.sectionId, v])
+  );
+  for (const [id, version] of baselineSections) {
+    const current = currentSections.get(id);
+    if (!current) {
+      actions.push({
+        entityType: "section",
+        entityId: id,
+        label: version.name,
+        action: "skip",
+        fields: [],
+        reason: "Section was deleted and cannot be recreated"
+      });
+      continue;
+    }
+    const fields = changedFields(SECTION_FIELDS, current, version);
+    if (fields.length > 0) {
+      actions.push({ entityType: "section", entityId: id, label: current.name, action: "update", fields });
+    }
+  }
+  for (const current of state.sections) {
+    if (!baselineSections.has(current.id)) {
+      actions.push({
+        entityType: "section",
+        entityId: current.id,
+        label: current.name,
+        action: "skip",
+        fields: [],
+        reason: "Not in the baseline; sections are not removed by a restore"
+      });
+    }
+  }
+
+  // Requirements
+  const currentRequirements = new Map(state.requirements.map(r => [r.id, r]));
+  const baselineRequirements = new Map(
+    snapshot.requirementVersions
+      .filter(v => projectScope || currentRequirements.has(v.requirementId))
+      .map(v => [v.requirementId, v])
+  );
+  for (const [id, version] of baselineRequirements) {
+    const current = currentRequirements.get(id);
+    const label = current?.ref ?? state.projectRequirementRefs.get(id) ?? id;
+    if (!current) {
+      actions.push({ entityType: "requirement", entityId: id, label, action: "skip", fields: [], reason: "Requirement no longer exists" });
+      continue;
+    }
+    const fields = changedFields(REQUIREMENT_FIELDS, current, version);
+    if (deletedAtBaseline(version)) {
+      if (!current.deleted) {
+        actions.push({ entityType: "requirement", entityId: id, label, action: "delete", fields: [] });
+      }
+    } else if (current.deleted) {
+      actions.push({ entityType: "requirement", entityId: id, label, action: "undelete", fields });
+    } else if (fields.length > 0) {
+      actions.push({ entityType: "requirement", entityId: id, label, action: "update", fields });
+    }
+  }
+  for (const current of state.requirements) {
+    if (baselineRequirements.has(current.id) || current.deleted) {
+      continue;
+    }
+    actions.push(createdAfter(current.createdAt, baselineCreatedAt)
+      ? { entityType: "requirement", entityId: current.id, label: current.ref, action: "delete", fields: [], reason: "Created after the baseline" }
+      : { entityType: "requirement", entityId: current.id, label: current.ref, action: "skip", fields: [], reason: "No version recorded in the baseline" });
+  }
+
+  // Trace links touching the scope's requirements
+  const refOf = (id: string) => state.projectRequirementRefs.get(id) ?? id;
+  const linkLabel = (link: { sourceRequirementId: string; targetRequirementId: string; linkType: string }) =>
+    `${refOf(link.sourceRequirementId)} ${link.linkType} ${refOf(link.targetRequirementId)}`;
+  const inScope = (link: { sourceRequirementId: string; targetRequirementId: string }) =>
+    projectScope || currentRequirements.has(link.sourceRequirementId) || currentRequirements.has(link.targetRequirementId);
+  const currentLinks = new Map(state.traceLinks.map(l => [l.id, l]));
+  const baselineLinks = new Map(
+    snapshot.traceLinkVersions
+      .filter(v => inScope(v) && !deletedAtBaseline(v))
+      .map(v => [v.traceLinkId, v])
+  );
+  for (const [id, version] of baselineLinks) {
+    const current = currentLinks.get(id);
+    if (!current) {
+      const endsExist = state.projectRequirementRefs.has(version.sourceRequirementId) &&
+        state.projectRequirementRefs.has(version.targetRequirementId);
+      actions.push(endsExist
+        ? { entityType: "traceLink", entityId: id, label: linkLabel(version), action: "recreate", fields: [...TRACE_LINK_FIELDS] }
+        : { entityType: "traceLink", entityId: id, label: linkLabel(version), action: "skip", fields: [], reason: "A linked requirement no longer exists" });
+      continue;
+    }
+    const fields = changedFields(TRACE_LINK_FIELDS, current, version);
+    if (fields.length > 0) {
+      actions.push({ entityType: "traceLink", entityId: id, label: linkLabel(current), action: "update", fields });
+    }
+  }
+  for (const current of state.traceLinks) {
+    if (baselineLinks.has(current.id)) {
+      continue;
+    }
+    actions.push(createdAfter(current.createdAt, baselineCreatedAt)
+      ? { entityType: "traceLink", entityId: current.id, label: linkLabel(current), action: "delete", fields: [], reason: "Created after the baseline" }
+      : { entityType: "traceLink", entityId: current.id, label: linkLabel(current), action: "skip", fields: [], reason: "No version recorded in the baseline" });
+  }
+
+  return actions.sort((a, b) =>
+    ACTION_ORDER[a.entityType] - ACTION_ORDER[b.entityType] ||
+    a.label.localeCompare(b.label) ||
+    a.entityId.localeCompare(b.entityId)
+  );
+}
+
+function summarize(actions: RestoreAction[]): Record<RestoreActionKind, number> {
+  const summary: Record<RestoreActionKind, number> = { update: 0, undelete: 0, recreate: 0, delete: 0, skip: 0 };
+  for (const action of actions) {
+    summary[action.action] += 1;
+  }
+  return summary;
+}
+
+function optionalString(value: unknown): string | null {
+  return value === null || value === undefined || value === "" ? null : String(value);
+}
+
+function mapCurrentDocument(node: Neo4jNode): RestoreCurrentDocument {
+  const props = node.properties as Record<string, unknown>;
+  return {
+    id: String(props.id),
+    slug: String(props.slug),
+    name: String(props.name),
+    description: optionalString(props.description),
+    shortCode: optionalString(props.shortCode),
+    deleted: props.deletedAt !== null && props.deletedAt !== undefined,
+    createdAt: optionalString(props.createdAt)
+  };
+}
+
+function mapCurrentSection(node: Neo4jNode): RestoreCurrentSection {
+  const props = node.properties as Record<string, unknown>;
+  return {
+    id: String(props.id),
+    name: String(props.name),
+    description: optionalString(props.description),
+    shortCode: optionalString(props.shortCode),
+    order: toNumber(props.order, 0)
+  };
+}
+
+function mapCurrentTraceLink(node: Neo4jNode): RestoreCurrentTraceLink {
+  const props = node.properties as Record<string, unknown>;
+  return {
+    id: String(props.id),
+    sourceRequirementId: String(props.sourceRequirementId),
+    targetRequirementId: String(props.targetRequirementId),
+    linkType: String(props.linkType),
+    description: optionalString(props.description),
+    createdAt: optionalString(props.createdAt)
+  };
+}
+
+/**
+ * Load the live state of a restore scope.
+ *
+ * @throws BaselineRestoreError (404) if the scope's document or section does not exist
+ */
+async function loadRestoreState(
+  tx: ManagedTransaction,
+  tenantSlug: string,
+  projectSlug: string,
+  scope: RestoreScope
+): Promise<RestoreState> {
+  const params = {
+    tenantSlug,
+    projectSlug,
+    documentSlug: scope.type === "document" ? scope.documentSlug : null,
+    sectionId: scope.type === "section" ? scope.sectionId : null
+  };
+
+  let documents: RestoreCurrentDocument[] = [];
+  let sections: RestoreCurrentSection[] = [];
+  let requirementNodes: Neo4jNode[];
+
+  if (scope.type === "project") {
+    const documentResult = await tx.run(
+      `
+        MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_DOCUMENT]->(document:Document)
+        OPTIONAL MATCH (document)-[:HAS_SECTION]->(section:DocumentSection)
+        RETURN document, collect(section) AS sections
+      `,
+      params
+    );
+    documents = documentResult.records.map(record => mapCurrentDocument(record.get("document") as Neo4jNode));
+    sections = documentResult.records.flatMap(record =>
+      (record.get("sections") as Neo4jNode[]).map(mapCurrentSection)
+    );
+
+    const requirementResult = await tx.run(
+      `
+        MATCH (requirement:Requirement {tenant: $tenantSlug, projectKey: $projectSlug})
+        RETURN requirement
+      `,
+      params
+    );
+    requirementNodes = requirementResult.records.map(record => record.get("requirement") as Neo4jNode);
+  } else if (scope.type === "document") {
+    const documentResult = await tx.run(
+      `
+        MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_DOCUMENT]->(document:Document {slug: $documentSlug})
+        OPTIONAL MATCH (document)-[:HAS_SECTION]->(section:DocumentSection)
+        WITH document, collect(section) AS sections
+        OPTIONAL MATCH (document)-[:CONTAINS]->(direct:Requirement)
+        OPTIONAL MATCH (document)-[:HAS_SECTION]->(:DocumentSection)-[:CONTAINS]->(nested:Requirement)
+        RETURN document, sections, collect(DISTINCT direct) + collect(DISTINCT nested) AS requirements
+      `,
+      params
+    );
+    const record = documentResult.records[0];
+    if (!record) {
+      throw new BaselineRestoreError(404, `Document not found: ${scope.documentSlug}`);
+    }
+    documents = [mapCurrentDocument(record.get("document") as Neo4jNode)];
+    sections = (record.get("sections") as Neo4jNode[]).map(mapCurrentSection);
+    requirementNodes = record.get("requirements") as Neo4jNode[];
+  } else {
+    const sectionResult = await tx.run(
+      `
+        MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_DOCUMENT]->(:Document)-[:HAS_SECTION]->(section:DocumentSection {id: $sectionId})
+        OPTIONAL MATCH (section)-[:CONTAINS]->(requirement:Requirement)
+        RETURN section, collect(requirement) AS requirements
+      `,
+      params
+    );
+    const record = sectionResult.records[0];
+    if (!record) {
+      throw new BaselineRestoreError(404, `Section not found: ${scope.sectionId}`);
+    }
+    sections = [mapCurrentSection(record.get("section") as Neo4jNode)];
+    requirementNodes = record.get("requirements") as Neo4jNode[];
+  }
+
+  const requirements = new Map<string, RequirementRecord>();
+  for (const node of requirementNodes) {
+    const requirement = mapRequirement(node);
+    requirements.set(requirement.id, requirement);
+  }
+
+  const refResult = await tx.run(
+    `
+      MATCH (requirement:Requirement {tenant: $tenantSlug, projectKey: $projectSlug})
+      RETURN requirement.id AS id, requirement.ref AS ref
+    `,
+    params
+  );
+  const projectRequirementRefs = new Map<string, string>(
+    refResult.records.map(record => [String(record.get("id")), String(record.get("ref"))])
+  );
+
+  const linkResult = await tx.run(
+    `
+      MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_TRACE_LINK]->(link:TraceLink)
+      WHERE $requirementIds IS NULL
+        OR link.sourceRequirementId IN $requirementIds
+        OR link.targetRequirementId IN $requirementIds
+      RETURN link
+    `,
+    { ...params, requirementIds: scope.type === "project" ? null : [...requirements.keys()] }
+  );
+  const traceLinks = linkResult.records.map(record => mapCurrentTraceLink(record.get("link") as Neo4jNode));
+
+  return {
+    documents,
+    sections,
+    requirements: [...requirements.values()],
+    traceLinks,
+    projectRequirementRefs
+  };
+}
+
+type ApplyContext = {
+  tx: ManagedTransaction;
+  tenantSlug: string;
+  projectSlug: string;
+  userId: string;
+  now: string;
+  restoreDescription: string;
+  removalDescription: string;
+};
+
+async function applyDocumentAction(
+  ctx: ApplyContext,
+  action: RestoreAction,
+  version: BaselineSnapshot["documentVersions"][number] | undefined
+): Promise<void> {
+  const { tx, tenantSlug, projectSlug } = ctx;
+  const removing = action.action === "delete";
+
+  const result = await tx.run(
+    `
+      MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_DOCUMENT]->(document:Document {id: $documentId})
+      SET document.updatedAt = $now
+      FOREACH (_ IN CASE WHEN $removing THEN [1] ELSE [] END |
+        SET document.deletedAt = $now
+      )
+      FOREACH (_ IN CASE WHEN $removing THEN [] ELSE [1] END |
+        SET document.name = $name,
+            document.description = $description,
+            document.shortCode = $shortCode,
+            document.deletedAt = null
+      )
+      RETURN document
+    `,
+    {
+      tenantSlug,
+      projectSlug,
+      documentId: action.entityId,
+      now: ctx.now,
+      removing,
+      name: version?.name ?? null,
+      description: version?.description ?? null,
+      shortCode: version?.shortCode ?? null
+    }
+  );
+  const props = (result.records[0].get("document") as Neo4jNode).properties as Record<string, any>;
+  const slug = String(props.slug);
+
+  if (action.fields.includes("shortCode")) {
+    await updateRequirementRefsForDocument(tx, tenantSlug, projectSlug, slug);
+  }
+
+  const kind = String(props.kind) as DocumentKind;
+  const state = {
+    name: String(props.name),
+    description: optionalString(props.description),
+    shortCode: optionalString(props.shortCode),
+    kind
+  };
+  await createDocumentVersion(tx, {
+    documentId: action.entityId,
+    tenantSlug,
+    projectSlug,
+    changedBy: ctx.userId,
+    changeType: "restored",
+    changeDescription: removing ? ctx.removalDescription : ctx.restoreDescription,
+    slug,
+    ...state,
+    originalFileName: optionalString(props.originalFileName),
+    storedFileName: optionalString(props.storedFileName),
+    mimeType: optionalString(props.mimeType),
+    fileSize: props.fileSize !== undefined && props.fileSize !== null ? toNumber(props.fileSize) : null,
+    storagePath: optionalString(props.storagePath),
+    previewPath: optionalString(props.previewPath),
+    previewMimeType: optionalString(props.previewMimeType),
+    contentHash: generateDocumentContentHash(state)
+  });
+}
+
+async function applySectionAction(
+  ctx: ApplyContext,
+  action: RestoreAction,
+  version: BaselineSnapshot["documentSectionVersions"][number]
+): Promise<void> {
+  const { tx } = ctx;
+  await tx.run(
+    `
+      MATCH (section:DocumentSection {id: $sectionId})
+      SET section.name = $name,
+          section.description = $description,
+          section.shortCode = $shortCode,
+          section.order = $order,
+          section.updatedAt = $now
+    `,
+    {
+      sectionId: action.entityId,
+      name: version.name,
+      description: version.description ?? null,
+      shortCode: version.shortCode ?? null,
+      order: version.order,
+      now: ctx.now
+    }
+  );
+
+  if (action.fields.includes("name") || action.fields.includes("shortCode")) {
+    await updateRequirementRefsForSection(tx, action.entityId);
+  }
+
+  const state = {
+    name: version.name,
+    description: version.description ?? null,
+    shortCode: version.shortCode ?? null,
+    order: version.order
+  };
+  await createDocumentSectionVersion(tx, {
+    sectionId: action.entityId,
+    tenantSlug: ctx.tenantSlug,
+    projectSlug: ctx.projectSlug,
+    changedBy: ctx.userId,
+    changeType: "restored",
+    changeDescription: ctx.restoreDescription,
+    ...state,
+    contentHash: generateDocumentSectionContentHash(state)
+  });
+}
+
+async function applyRequirementAction(
+  ctx: ApplyContext,
+  action: RestoreAction,
+  version: RequirementVersionRecord | undefined
+): Promise<void> {
+  const { tx, tenantSlug, projectSlug } = ctx;
+  const currentResult = await tx.run(
+    `
+      MATCH (requirement:Requirement {id: $requirementId})
+      WHERE requirement.tenant = $tenantSlug AND requirement.projectKey = $projectSlug
+      RETURN requirement
+    `,
+    { tenantSlug, projectSlug, requirementId: action.entityId }
+  );
+  const current = mapRequirement(currentResult.records[0].get("requirement") as Neo4jNode);
+
+  if (action.action === "delete") {
+    await tx.run(
+      `
+        MATCH (requirement:Requirement {id: $requirementId})
+        SET requirement.deleted = true,
+            requirement.deletedAt = $now,
+            requirement.deletedBy = $userId,
+            requirement.updatedAt = $now
+      `,
+      { requirementId: action.entityId, now: ctx.now, userId: ctx.userId }
+    );
+    await createRequirementVersion(tx, {
+      requirementId: action.entityId,
+      tenantSlug,
+      projectSlug,
+      changedBy: ctx.userId,
+      changeType: "restored",
+      changeDescription: ctx.removalDescription,
+      text: current.text,
+      pattern: current.pattern ?? null,
+      verification: current.verification ?? null,
+      rationale: current.rationale ?? null,
+      complianceStatus: current.complianceStatus ?? null,
+      complianceRationale: current.complianceRationale ?? null,
+      qaScore: current.qaScore ?? null,
+      qaVerdict: current.qaVerdict ?? null,
+      suggestions: current.suggestions ?? null,
+      tags: current.tags ?? null,
+      attributes: current.attributes ?? null,
+      contentHash: current.contentHash || computeRequirementHash(current)
+    });
+    return;
+  }
+
+  const restored = {
+    text: version!.text,
+    pattern: version!.pattern ?? null,
+    verification: version!.verification ?? null,
+    rationale: version!.rationale ?? null,
+    complianceStatus: version!.complianceStatus ?? null,
+    complianceRationale: version!.complianceRationale ?? null,
+    tags: version!.tags ?? null,
+    attributes: version!.attributes ?? null
+  };
+  const contentHash = computeRequirementHash(restored);
+
+  await tx.run(
+    `
+      MATCH (requirement:Requirement {id: $requirementId})
+      SET requirement.text = $text,
+          requirement.pattern = $pattern,
+          requirement.verification = $verification,
+          requirement.rationale = $rationale,
+          requirement.complianceStatus = $complianceStatus,
+          requirement.complianceRationale = $complianceRationale,
+          requirement.tags = $tags,
+          requirement.attributes = $attributes,
+          requirement.contentHash = $contentHash,
+          requirement.updatedAt = $now
+      FOREACH (_ IN CASE WHEN $undelete THEN [1] ELSE [] END |
+        SET requirement.deleted = false, requirement.restoredAt = $now
+      )
+      // Stale embeddings are regenerated by the embedding worker's backfill
+      FOREACH (_ IN CASE WHEN $textChanged THEN [1] ELSE [] END |
+        SET requirement.embedding = null,
+            requirement.embeddingModel = null,
+            requirement.embeddingGeneratedAt = null
+      )
+    `,
+    {
+      requirementId: action.entityId,
+      ...restored,
+      tags: restored.tags ? JSON.stringify(restored.tags) : null,
+      attributes: restored.attributes ? JSON.stringify(restored.attributes) : null,
+      contentHash,
+      now: ctx.now,
+      undelete: action.action === "undelete",
+      textChanged: action.fields.includes("text")
+    }
+  );
+
+  await createRequirementVersion(tx, {
+    requirementId: action.entityId,
+    tenantSlug,
+    projectSlug,
+    changedBy: ctx.userId,
+    changeType: "restored",
+    changeDescription: ctx.restoreDescription,
+    ...restored,
+    qaScore: current.qaScore ?? null,
+    qaVerdict: current.qaVerdict ?? null,
+    suggestions: current.suggestions ?? null,
+    contentHash
+  });
+
+  if (contentHash !== current.contentHash) {
+    await flagSuspectLinks(tx, action.entityId, ctx.now);
+  }
+}
+
+async function applyTraceLinkAction(
+  ctx: ApplyContext,
+  action: RestoreAction,
+  version: TraceLinkVersionRecord | undefined
+): Promise<void> {
+  const { tx, tenantSlug, projectSlug } = ctx;
+  const linkParams = { tenantSlug, projectSlug, linkId: action.entityId, now: ctx.now };
+
+  if (action.action === "delete") {
+    const currentResult = await tx.run(
+      `
+        MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_TRACE_LINK]->(link:TraceLink {id: $linkId})
+        RETURN link
+      `,
+      linkParams
+    );
+    const current = mapCurrentTraceLink(currentResult.records[0].get("link") as Neo4jNode);
+    await createTraceLinkVersion(tx, {
+      traceLinkId: current.id,
+      tenantSlug,
+      projectSlug,
+      changedBy: ctx.userId,
+      changeType: "restored",
+      changeDescription: ctx.removalDescription,
+      sourceRequirementId: current.sourceRequirementId,
+      targetRequirementId: current.targetRequirementId,
+      linkType: current.linkType as TraceLinkVersionRecord["linkType"],
+      description: current.description,
+      contentHash: generateTraceLinkContentHash(current)
+    });
+    await tx.run(
+      `
+        MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_TRACE_LINK]->(link:TraceLink {id: $linkId})
+        OPTIONAL MATCH (:Requirement)-[rel:LINKS_TO {linkId: $linkId}]->(:Requirement)
+        DELETE rel
+        DETACH DELETE link
+      `,
+      linkParams
+    );
+    return;
+  }
+
+  const restored = {
+    sourceRequirementId: version!.sourceRequirementId,
+    targetRequirementId: version!.targetRequirementId,
+    linkType: version!.linkType,
+    description: version!.description ?? null
+  };
+
+  if (action.action === "recreate") {
+    // The link keeps its ID, so its earlier versions (detached when it was
+    // deleted) are attached again and numbering continues from them
+    await tx.run(
+      `
+        MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+        MATCH (source:Requirement {id: $sourceRequirementId})
+        MATCH (target:Requirement {id: $targetRequirementId})
+        OPTIONAL MATCH (sourceSectionDoc:Document)-[:HAS_SECTION]->(:DocumentSection)-[:CONTAINS]->(source)
+        OPTIONAL MATCH (sourceDirectDoc:Document)-[:CONTAINS]->(source)
+        OPTIONAL MATCH (targetSectionDoc:Document)-[:HAS_SECTION]->(:DocumentSection)-[:CONTAINS]->(target)
+        OPTIONAL MATCH (targetDirectDoc:Document)-[:CONTAINS]->(target)
+        WITH project, source, target,
+          head(collect(coalesce(sourceSectionDoc, sourceDirectDoc))) AS sourceDoc,
+          head(collect(coalesce(targetSectionDoc, targetDirectDoc))) AS targetDoc
+        OPTIONAL MATCH (project)-[:HAS_LINKSET]->(candidate:DocumentLinkset)-[:FROM_DOCUMENT]->(sourceDoc)
+        WHERE sourceDoc <> targetDoc AND (candidate)-[:TO_DOCUMENT]->(targetDoc)
+        WITH project, source, target, head(collect(candidate)) AS linkset
+        CREATE (link:TraceLink {
+          id: $linkId,
+          sourceRequirementId: $sourceRequirementId,
+          targetRequirementId: $targetRequirementId,
+          linkType: $linkType,
+          description: $description,
+          tenant: $tenantSlug,
+          projectKey: $projectSlug,
+          sourceContentHash: source.contentHash,
+          targetContentHash: target.contentHash,
+          suspect: false,
+          createdAt: $now,
+          updatedAt: $now
+        })
+        MERGE (project)-[:HAS_TRACE_LINK]->(link)
+        MERGE (link)-[:FROM_REQUIREMENT]->(source)
+        MERGE (link)-[:TO_REQUIREMENT]->(target)
+        MERGE (source)-[:LINKS_TO {linkId: link.id, linkType: $linkType}]->(target)
+        FOREACH (_ IN CASE WHEN linkset IS NULL THEN [] ELSE [1] END |
+          MERGE (linkset)-[:CONTAINS_LINK]->(link)
+        )
+        WITH link
+        OPTIONAL MATCH (version:TraceLinkVersion {traceLinkId: $linkId})
+        FOREACH (_ IN CASE WHEN version IS NULL THEN [] ELSE [1] END |
+          MERGE (link)-[:HAS_VERSION]->(version)
+        )
+      `,
+      { ...linkParams, ...restored }
+    );
+  } else {
+    await tx.run(
+      `
+        MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_TRACE_LINK]->(link:TraceLink {id: $linkId})
+        SET link.linkType = $linkType,
+            link.description = $description,
+            link.updatedAt = $now
+        WITH link
+        OPTIONAL MATCH (:Requirement)-[rel:LINKS_TO {linkId: $linkId}]->(:Requirement)
+        SET rel.linkType = $linkType
+      `,
+      { ...linkParams, ...restored }
+    );
+  }
+
+  await createTraceLinkVersion(tx, {
+    traceLinkId: action.entityId,
+    tenantSlug,
+    projectSlug,
+    changedBy: ctx.userId,
+    changeType: "restored",
+    changeDescription: ctx.restoreDescription,
+    ...restored,
+    contentHash: generateTraceLinkContentHash(restored)
+  });
+}
+
+async function applyRestoreActions(
+  ctx: ApplyContext,
+  snapshot: BaselineSnapshot,
+  scope: RestoreScope,
+  actions: RestoreAction[]
+): Promise<void> {
+  const applicable = actions.filter(action => action.action !== "skip");
+
+  await assertDocumentUnlocked(ctx.tx, {
+    tenantSlug: ctx.tenantSlug,
+    projectSlug: ctx.projectSlug,
+    documentSlug: scope.type === "document" ? scope.documentSlug : null,
+    sectionId: scope.type === "section" ? scope.sectionId : null
+  });
+  await assertRequirementsUnlocked(
+    ctx.tx,
+    applicable.filter(action => action.entityType === "requirement").map(action => action.entityId)
+  );
+
+  const documentVersions = new Map(snapshot.documentVersions.map(v => [v.documentId, v]));
+  const sectionVersions = new Map(snapshot.documentSectionVersions.map(v => [v.sectionId, v]));
+  const requirementVersions = new Map(snapshot.requirementVersions.map(v => [v.requirementId, v]));
+  const traceLinkVersions = new Map(snapshot.traceLinkVersions.map(v => [v.traceLinkId, v]));
+
+  // Actions are ordered documents → sections → requirements → links, so
+  // section refs are settled before requirements and link ends exist before links
+  for (const action of applicable) {
+    switch (action.entityType) {
+      case "document":
+        await applyDocumentAction(ctx, action, documentVersions.get(action.entityId));
+        break;
+      case "section":
+        await applySectionAction(ctx, action, sectionVersions.get(action.entityId)!);
+        break;
+      case "requirement":
+        await applyRequirementAction(ctx, action, requirementVersions.get(action.entityId));
+        break;
+      case "traceLink":
+        await applyTraceLinkAction(ctx, action, traceLinkVersions.get(action.entityId));
+        break;
+    }
+  }
+}
+
+/**
+ * Preview or apply a restore of a project, document or section to a baseline.
+ *
+ * With `dryRun` the plan is computed in a read transaction and nothing is
+ * written. Otherwise the plan is recomputed and applied in one write
+ * transaction, so it reflects the state at the moment of the restore.
+ *
+ * @throws Error "Baseline not found" if the baseline does not exist
+ * @throws BaselineRestoreError (404) if the scope's document or section does not exist
+ * @throws BaselineRestoreError (409) for a project scope when the baseline captured unrestorable entities
+ * @throws DocumentLockedError if an affected requirement or the scope's document is locked
+ */
+export async function restoreBaseline(params: {
+  tenant: string;
+  projectKey: string;
+  baselineRef: string;
+  scope: RestoreScope;
+  dryRun: boolean;
+  userId: string;
+}): Promise<RestorePlan> {
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+  const snapshot = await getBaselineDetails(params.tenant, params.projectKey, params.baselineRef);
+
+  const session = getSession();
+  let actions: RestoreAction[];
+  try {
+    const work = async (tx: ManagedTransaction) => {
+      const state = await loadRestoreState(tx, tenantSlug, projectSlug, params.scope);
+      const planned = planRestoreActions(snapshot, state, params.scope);
+      if (!params.dryRun) {
+        await applyRestoreActions(
+          {
+            tx,
+            tenantSlug,
+            projectSlug,
+            userId: params.userId,
+            now: new Date().toISOString(),
+            restoreDescription: `Restored to baseline ${snapshot.baseline.ref}`,
+            removalDescription: `${REMOVAL_DESCRIPTION_PREFIX} ${snapshot.baseline.ref}`
+          },
+          snapshot,
+          params.scope,
+          planned
+        );
+      }
+      return planned;
+    };
+
+    actions = params.dryRun
+      ? await session.executeRead(work)
+      : await executeWriteWithWebhookEvents(session, work);
+  } finally {
+    await session.close();
+  }
+
+  const plan: RestorePlan = {
+    baselineRef: snapshot.baseline.ref,
+    scope: params.scope,
+    dryRun: params.dryRun,
+    actions,
+    summary: summarize(actions)
+  };
+
+  if (!params.dryRun && actions.some(action => action.action !== "skip")) {
+    await CacheInvalidation.invalidateRequirements(tenantSlug, projectSlug);
+    await CacheInvalidation.invalidateDocuments(tenantSlug, projectSlug);
+    await CacheInvalidation.invalidateTraceLinks(tenantSlug, projectSlug);
+
+    emitWebhookEvent({
+      type: "baseline.restored",
+      tenant: tenantSlug,
+      project: projectSlug,
+      actor: params.userId,
+      data: {
+        baselineId: snapshot.baseline.id,
+        baselineRef: snapshot.baseline.ref,
+        scope: params.scope,
+        summary: plan.summary
+      }
+    });
+  }
+
+  return plan;
+}
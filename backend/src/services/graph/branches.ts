@@ -0,0 +1,1539 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
+import { slugify } from "../workspace.js";
+import type { RequirementRecord, RequirementVersionRecord } from "../workspace.js";
+import { getSession } from "./driver.js";
+import {
+  compareSnapshots,
+  getBaselineOrHeadSnapshot,
+  getHeadSnapshot,
+  HEAD_BASELINE_REF,
+  type BaselineComparison,
+  type BaselineSnapshot
+} from "./requirement-baselines.js";
+import { deletedAtBaseline } from "./baseline-restore.js";
+import { mapRequirement } from "./requirements/requirements-mapper.js";
+import { createRequirementVersion } from "./requirements/requirements-versions.js";
+import { createDocumentVersion, generateDocumentContentHash } from "./documents/documents-versions.js";
+import { createDocumentSectionVersion, generateDocumentSectionContentHash } from "./documents/sections-versions.js";
+import { assertDocumentUnlocked, assertRequirementsUnlocked } from "./documents/documents-lock.js";
+import type { DocumentKind } from "./documents/documents-crud.js";
+import { createTraceLinkVersion, generateTraceLinkContentHash, type TraceLinkVersionRecord } from "./trace-versions.js";
+import { createDocumentLinksetVersion, generateDocumentLinksetContentHash } from "./linksets-versions.js";
+import { flagSuspectLinks } from "./trace-suspect.js";
+import { computeRequirementHash } from "../../lib/requirement-hash.js";
+import { toNumber } from "../../lib/neo4j-utils.js";
+import { CacheInvalidation } from "../../lib/cache.js";
+import { emitWebhookEvent, executeWriteWithWebhookEvents } from "../webhooks.js";
+
+/**
+ * Branches: working copies of a project forked from a baseline.
+ *
+ * A branch is a project of its own whose documents, sections, requirements,
+ * trace links and linksets are copies of the source project's entities as
+ * captured by a baseline (or HEAD). Every copy keeps an `originId` and a
+ * FORKED_FROM relationship to the entity it was copied from, and its first
+ * version points at the source version it was forked from, so the branch
+ * shares the mainline's history up to the fork.
+ *
+ * Branches are edited with the normal project APIs. Comparison maps the
+ * branch onto the mainline's IDs and reuses the baseline comparison. Merging
+ * brings selected requirement changes back to the mainline; conflicts are
+ * detected by hashing every field a merge writes (see requirementMergeHash)
+ * and comparing with the hash recorded at the fork or the last merge. Documents, sections, trace
+ * links and architecture are not merged.
+ */
+
+export type BranchRecord = {
+  tenant: string;
+  slug: string;
+  name: string | null;
+  description: string | null;
+  sourceProject: string;
+  baselineRef: string;
+  /** Forked documents, or null when the whole project was forked */
+  documentSlugs: string[] | null;
+  createdAt: string;
+  createdBy: string | null;
+};
+
+export type BranchCounts = {
+  documents: number;
+  sections: number;
+  requirements: number;
+  traceLinks: number;
+  linksets: number;
+};
+
+/**
+ * Merge status of a branch requirement, relative to the hash at the fork
+ * (or last merge):
+ * - unchanged: neither side changed
+ * - branch-changed / mainline-changed: only one side changed
+ * - both-changed-same: both sides made the same change
+ * - conflict: both sides changed differently, or one side deleted what the other changed
+ * - added: created in the branch
+ * - branch-deleted / mainline-deleted: deleted on one side only
+ */
+export type BranchMergeStatus =
+  | "unchanged"
+  | "branch-changed"
+  | "mainline-changed"
+  | "both-changed-same"
+  | "conflict"
+  | "added"
+  | "branch-deleted"
+  | "mainline-deleted";
+
+export type BranchRequirementStatus = {
+  /** ID of the requirement in the branch */
+  requirementId: string;
+  /** ID of the mainline requirement it was forked from, if any */
+  originId: string | null;
+  ref: string;
+  status: BranchMergeStatus;
+};
+
+export type BranchComparison = {
+  branch: BranchRecord;
+  /** Mainline HEAD (from) against branch HEAD (to), in mainline IDs */
+  comparison: BaselineComparison;
+  requirements: BranchRequirementStatus[];
+};
+
+/**
+ * - update: write the branch's content to the mainline requirement
+ * - create: add the requirement to the mainline
+ * - delete: soft-delete the mainline requirement
+ * - undelete: bring back a mainline requirement deleted after the fork
+ * - sync: nothing to write; record the mainline hash as the new merge base
+ * - skip: not merged (see reason)
+ */
+export type BranchMergeActionKind = "update" | "create" | "delete" | "undelete" | "sync" | "skip";
+
+export type BranchMergeAction = BranchRequirementStatus & {
+  action: BranchMergeActionKind;
+  reason?: string;
+};
+
+export type BranchMergeResult = {
+  branch: string;
+  targetProject: string;
+  dryRun: boolean;
+  actions: BranchMergeAction[];
+  summary: Record<BranchMergeActionKind, number>;
+};
+
+/** Error with an HTTP status for the global error handler */
+export class BranchError extends Error {
+  constructor(public readonly statusCode: 400 | 404 | 409, message: string) {
+    super(message);
+    this.name = "BranchError";
+  }
+}
+
+/** Thrown when selected requirements conflict and are not resolved in favour of the branch */
+export class BranchMergeConflictError extends Error {
+  readonly statusCode = 409;
+
+  constructor(public readonly conflicts: BranchRequirementStatus[]) {
+    super(`${conflicts.length} requirement(s) changed on both the branch and the mainline: ${conflicts.map(c => c.ref).join(", ")}`);
+    this.name = "BranchMergeConflictError";
+  }
+}
+
+/**
+ * Classify a branch requirement by comparing the branch and mainline hashes
+ * with the merge base. `mainlineDeleted` also covers an origin that no
+ * longer exists.
+ */
+export function classifyMergeStatus(params: {
+  hasOrigin: boolean;
+  baseHash: string | null;
+  branchHash: string;
+  branchDeleted: boolean;
+  mainlineHash: string | null;
+  mainlineDeleted: boolean;
+}): BranchMergeStatus {
+  if (!params.hasOrigin) {
+    // Added and then deleted in the branch: nothing to merge
+    return params.branchDeleted ? "unchanged" : "added";
+  }
+
+  const branchChanged = params.branchHash !== params.baseHash;
+  const mainlineChanged = params.mainlineHash !== params.baseHash;
+
+  if (params.mainlineDeleted) {
+    if (params.branchDeleted) {
+      return "unchanged";
+    }
+    return branchChanged ? "conflict" : "mainline-deleted";
+  }
+  if (params.branchDeleted) {
+    return mainlineChanged ? "conflict" : "branch-deleted";
+  }
+  if (branchChanged && mainlineChanged) {
+    return params.branchHash === params.mainlineHash ? "both-changed-same" : "conflict";
+  }
+  if (branchChanged) {
+    return "branch-changed";
+  }
+  return mainlineChanged ? "mainline-changed" : "unchanged";
+}
+
+/** Branch entity IDs mapped to the mainline IDs they were forked from */
+export type BranchIdMap = Map<string, string>;
+
+/**
+ * Rewrite a branch snapshot into mainline IDs so it can be compared with a
+ * mainline snapshot. Entities created in the branch keep their own IDs and
+ * show up as added. Trace link hashes cover the requirement IDs, so they are
+ * recomputed after the ends are mapped.
+ */
+export function mapBranchSnapshot(snapshot: BaselineSnapshot, idMap: BranchIdMap): BaselineSnapshot {
+  const mapId = (id: string) => idMap.get(id) ?? id;
+
+  return {
+    ...snapshot,
+    requirementVersions: snapshot.requirementVersions.map(v => ({ ...v, requirementId: mapId(v.requirementId) })),
+    documentVersions: snapshot.documentVersions.map(v => ({ ...v, documentId: mapId(v.documentId) })),
+    documentSectionVersions: snapshot.documentSectionVersions.map(v => ({ ...v, sectionId: mapId(v.sectionId) })),
+    traceLinkVersions: snapshot.traceLinkVersions.map(v => {
+      const mapped = {
+        ...v,
+        traceLinkId: mapId(v.traceLinkId),
+        sourceRequirementId: mapId(v.sourceRequirementId),
+        targetRequirementId: mapId(v.targetRequirementId)
+      };
+      return { ...mapped, contentHash: generateTraceLinkContentHash(mapped) };
+    }),
+    linksetVersions: snapshot.linksetVersions.map(v => ({ ...v, linksetId: mapId(v.linksetId) }))
+  };
+}
+
+function optionalString(value: unknown): string | null {
+  return value === null || value === undefined || value === "" ? null : String(value);
+}
+
+function mapBranch(node: Neo4jNode): BranchRecord {
+  const props = node.properties as Record<string, unknown>;
+  const documentSlugs = props.branchDocumentSlugs as string[] | null | undefined;
+  return {
+    tenant: String(props.tenantSlug),
+    slug: String(props.slug),
+    name: optionalString(props.name),
+    description: optionalString(props.description),
+    sourceProject: String(props.branchOf),
+    baselineRef: String(props.branchBaselineRef),
+    documentSlugs: documentSlugs && documentSlugs.length > 0 ? documentSlugs : null,
+    createdAt: String(props.branchedAt ?? props.createdAt),
+    createdBy: optionalString(props.branchedBy)
+  };
+}
+
+type ForkSource = {
+  documents: Neo4jNode[];
+  sections: Array<{ node: Neo4jNode; documentId: string }>;
+  /** Requirement nodes with their current container, including soft-deleted ones */
+  requirements: Array<{ node: Neo4jNode; documentId: string | null; sectionId: string | null }>;
+  traceLinks: Neo4jNode[];
+  linksets: Array<{ node: Neo4jNode; sourceDocumentId: string; targetDocumentId: string }>;
+};
+
+async function loadForkSource(
+  tx: ManagedTransaction,
+  tenantSlug: string,
+  projectSlug: string,
+  documentSlugs: string[] | null
+): Promise<ForkSource> {
+  const params = { tenantSlug, projectSlug, documentSlugs };
+
+  const documentResult = await tx.run(
+    `
+      MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_DOCUMENT]->(document:Document)
+      WHERE $documentSlugs IS NULL OR document.slug IN $documentSlugs
+      OPTIONAL MATCH (document)-[:HAS_SECTION]->(section:DocumentSection)
+      RETURN document, collect(section) AS sections
+    `,
+    params
+  );
+  const documents = documentResult.records.map(record => record.get("document") as Neo4jNode);
+  if (documentSlugs) {
+    const found = new Set(documents.map(d => String(d.properties.slug)));
+    const missing = documentSlugs.filter(slug => !found.has(slug));
+    if (missing.length > 0) {
+      throw new BranchError(404, `Document not found: ${missing.join(", ")}`);
+    }
+  }
+  const sections = documentResult.records.flatMap(record =>
+    (record.get("sections") as Neo4jNode[]).map(node => ({
+      node,
+      documentId: String((record.get("document") as Neo4jNode).properties.id)
+    }))
+  );
+
+  const requirementResult = await tx.run(
+    `
+      MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+      CALL {
+        WITH project
+        MATCH (project)-[:HAS_DOCUMENT]->(document:Document)-[:HAS_SECTION]->(section:DocumentSection)-[:CONTAINS]->(requirement:Requirement)
+        WHERE $documentSlugs IS NULL OR document.slug IN $documentSlugs
+        RETURN requirement, document.id AS documentId, section.id AS sectionId
+        UNION
+        WITH project
+        MATCH (project)-[:HAS_DOCUMENT]->(document:Document)-[:CONTAINS]->(requirement:Requirement)
+        WHERE ($documentSlugs IS NULL OR document.slug IN $documentSlugs)
+          AND NOT (document)-[:HAS_SECTION]->(:DocumentSection)-[:CONTAINS]->(requirement)
+        RETURN requirement, document.id AS documentId, null AS sectionId
+        UNION
+        WITH project
+        MATCH (project)-[:CONTAINS]->(requirement:Requirement)
+        WHERE $documentSlugs IS NULL
+          AND NOT (:Document)-[:CONTAINS]->(requirement)
+        RETURN requirement, null AS documentId, null AS sectionId
+      }
+      RETURN requirement, documentId, sectionId
+    `,
+    params
+  );
+  const seen = new Set<string>();
+  const requirements: ForkSource["requirements"] = [];
+  for (const record of requirementResult.records) {
+    const node = record.get("requirement") as Neo4jNode;
+    const id = String(node.properties.id);
+    if (seen.has(id)) {
+      continue;
+    }
+    seen.add(id);
+    requirements.push({
+      node,
+      documentId: optionalString(record.get("documentId")),
+      sectionId: optionalString(record.get("sectionId"))
+    });
+  }
+
+  const linkResult = await tx.run(
+    `
+      MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_TRACE_LINK]->(link:TraceLink)
+      RETURN link
+    `,
+    params
+  );
+  const traceLinks = linkResult.records.map(record => record.get("link") as Neo4jNode);
+
+  const linksetResult = await tx.run(
+    `
+      MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_LINKSET]->(linkset:DocumentLinkset)
+      MATCH (linkset)-[:FROM_DOCUMENT]->(source:Document)
+      MATCH (linkset)-[:TO_DOCUMENT]->(target:Document)
+      RETURN linkset, source.id AS sourceDocumentId, target.id AS targetDocumentId
+    `,
+    params
+  );
+  const linksets = linksetResult.records.map(record => ({
+    node: record.get("linkset") as Neo4jNode,
+    sourceDocumentId: String(record.get("sourceDocumentId")),
+    targetDocumentId: String(record.get("targetDocumentId"))
+  }));
+
+  return { documents, sections, requirements, traceLinks, linksets };
+}
+
+/**
+ * Pick the state to fork for each entity: the baseline's version when it has
+ * one, otherwise (HEAD only) the live node. Entities deleted at the baseline,
+ * or without a version in a named baseline, are left out.
+ */
+function selectForked<V extends { changeType: string; changeDescription?: string }>(
+  nodes: Array<{ id: string; deleted: boolean }>,
+  versions: Map<string, V>,
+  fromHead: boolean
+): Map<string, V | null> {
+  const selected = new Map<string, V | null>();
+  for (const node of nodes) {
+    const version = versions.get(node.id);
+    if (version) {
+      if (!deletedAtBaseline(version)) {
+        selected.set(node.id, version);
+      }
+    } else if (fromHead && !node.deleted) {
+      selected.set(node.id, null);
+    }
+  }
+  return selected;
+}
+
+/** Link each copy's first version to the source version it was forked from */
+async function linkForkedVersions(
+  tx: ManagedTransaction,
+  label: "Requirement" | "Document" | "DocumentSection" | "TraceLink",
+  versionLabel: string,
+  rows: Array<{ id: string; originVersionId: string | null }>
+): Promise<void> {
+  const linked = rows.filter(row => row.originVersionId);
+  if (linked.length === 0) {
+    return;
+  }
+  await tx.run(
+    `
+      UNWIND $rows AS row
+      MATCH (copy:${label} {id: row.id})-[:HAS_VERSION]->(first:${versionLabel} {versionNumber: 1})
+      MATCH (origin:${versionLabel} {versionId: row.originVersionId})
+      MERGE (first)-[:FORKED_FROM]->(origin)
+    `,
+    { rows: linked }
+  );
+}
+
+/**
+ * Fork a project, or some of its documents, into a new branch project.
+ *
+ * Content comes from the baseline's version records (or the live graph for
+ * HEAD); containment comes from the live graph, so requirements moved out of
+ * a forked document since the baseline are not copied. Document review state
+ * is reset so the branch can be edited freely.
+ *
+ * @throws Error "Baseline not found" if the baseline does not exist
+ * @throws BranchError (404) if the source project or a document does not exist
+ * @throws BranchError (409) if a project with the branch slug already exists
+ */
+export async function createBranch(params: {
+  tenant: string;
+  projectKey: string;
+  slug: string;
+  name?: string;
+  description?: string;
+  baselineRef?: string;
+  documentSlugs?: string[];
+  userId: string;
+}): Promise<{ branch: BranchRecord; counts: BranchCounts }> {
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+  const branchSlug = slugify(params.slug);
+  const baselineRef = params.baselineRef ?? HEAD_BASELINE_REF;
+  const fromHead = baselineRef === HEAD_BASELINE_REF;
+  const documentSlugs = params.documentSlugs && params.documentSlugs.length > 0
+    ? [...new Set(params.documentSlugs)]
+    : null;
+
+  if (!branchSlug) {
+    throw new BranchError(400, "Branch slug is required");
+  }
+  if (branchSlug === projectSlug) {
+    throw new BranchError(400, "Branch slug must differ from the source project");
+  }
+
+  const snapshot = await getBaselineOrHeadSnapshot(params.tenant, params.projectKey, baselineRef);
+  const now = new Date().toISOString();
+  const changeDescription = `Branched from ${projectSlug} at ${snapshot.baseline.ref}`;
+
+  const session = getSession();
+  let result: { branch: BranchRecord; counts: BranchCounts };
+  try {
+    result = await executeWriteWithWebhookEvents(session, async (tx: ManagedTransaction) => {
+      const projectResult = await tx.run(
+        `
+          MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+          OPTIONAL MATCH (existing:Project {tenantSlug: $tenantSlug, slug: $branchSlug})
+          RETURN project, existing IS NOT NULL AS taken
+        `,
+        { tenantSlug, projectSlug, branchSlug }
+      );
+      const projectRecord = projectResult.records[0];
+      if (!projectRecord) {
+        throw new BranchError(404, `Project not found: ${projectSlug}`);
+      }
+      if (projectRecord.get("taken")) {
+        throw new BranchError(409, `Project '${branchSlug}' already exists`);
+      }
+      const source = (projectRecord.get("project") as Neo4jNode).properties as Record<string, unknown>;
+
+      const branchResult = await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(source:Project {slug: $projectSlug})
+          CREATE (tenant)-[:OWNS]->(branch:Project {
+            slug: $branchSlug,
+            tenantSlug: $tenantSlug,
+            key: $branchSlug,
+            name: $name,
+            description: $description,
+            code: $code,
+            requirementCounter: source.requirementCounter,
+            branchOf: $projectSlug,
+            branchBaselineRef: $baselineRef,
+            branchDocumentSlugs: $documentSlugs,
+            branchedAt: $now,
+            branchedBy: $userId,
+            createdAt: $now
+          })
+          CREATE (branch)-[:BRANCHED_FROM {baselineRef: $baselineRef, baselineId: $baselineId, createdAt: $now, createdBy: $userId}]->(source)
+          RETURN branch
+        `,
+        {
+          tenantSlug,
+          projectSlug,
+          branchSlug,
+          name: params.name ?? null,
+          description: params.description ?? null,
+          code: source.code ?? null,
+          baselineRef: snapshot.baseline.ref,
+          baselineId: fromHead ? null : snapshot.baseline.id,
+          documentSlugs: documentSlugs ?? [],
+          now,
+          userId: params.userId
+        }
+      );
+      const branch = mapBranch(branchResult.records[0].get("branch") as Neo4jNode);
+
+      const forkSource = await loadForkSource(tx, tenantSlug, projectSlug, documentSlugs);
+      const base = { tenantSlug, projectSlug: branchSlug, changedBy: params.userId, changeDescription };
+
+      // Documents
+      const documentVersions = new Map(snapshot.documentVersions.map(v => [v.documentId, v]));
+      const forkedDocuments = selectForked(
+        forkSource.documents.map(node => ({ id: String(node.properties.id), deleted: node.properties.deletedAt != null })),
+        documentVersions,
+        fromHead
+      );
+      const documentCopies = new Map<string, string>();
+      const documentRows = forkSource.documents
+        .filter(node => forkedDocuments.has(String(node.properties.id)))
+        .map(node => {
+          const props = node.properties as Record<string, any>;
+          const version = forkedDocuments.get(String(props.id));
+          const copyId = `${tenantSlug}:${branchSlug}:${props.slug}`;
+          documentCopies.set(String(props.id), copyId);
+          return {
+            originId: String(props.id),
+            originVersionId: version?.versionId ?? null,
+            props: {
+              id: copyId,
+              projectKey: branchSlug,
+              name: version?.name ?? props.name,
+              description: version ? version.description ?? null : props.description ?? null,
+              shortCode: version ? version.shortCode ?? null : props.shortCode ?? null,
+              originId: String(props.id),
+              parentFolder: null,
+              reviewStatus: "draft",
+              reviewers: [],
+              approvedAt: null,
+              approvedBy: null,
+              deletedAt: null,
+              createdAt: now,
+              updatedAt: now
+            }
+          };
+        });
+      await tx.run(
+        `
+          MATCH (branch:Project {tenantSlug: $tenantSlug, slug: $branchSlug})
+          UNWIND $rows AS row
+          MATCH (original:Document {id: row.originId})
+          CREATE (copy:Document)
+          SET copy = properties(original)
+          SET copy += row.props
+          CREATE (branch)-[:HAS_DOCUMENT]->(copy)
+          CREATE (copy)-[:FORKED_FROM]->(original)
+        `,
+        { tenantSlug, branchSlug, rows: documentRows }
+      );
+      for (const row of documentRows) {
+        const original = forkSource.documents.find(d => d.properties.id === row.originId)!.properties as Record<string, any>;
+        const state = {
+          name: String(row.props.name),
+          description: optionalString(row.props.description),
+          shortCode: optionalString(row.props.shortCode),
+          kind: String(original.kind) as DocumentKind
+        };
+        await createDocumentVersion(tx, {
+          ...base,
+          documentId: row.props.id,
+          changeType: "created",
+          slug: String(original.slug),
+          ...state,
+          originalFileName: optionalString(original.originalFileName),
+          storedFileName: optionalString(original.storedFileName),
+          mimeType: optionalString(original.mimeType),
+          fileSize: original.fileSize !== undefined && original.fileSize !== null ? toNumber(original.fileSize) : null,
+          storagePath: optionalString(original.storagePath),
+          previewPath: optionalString(original.previewPath),
+          previewMimeType: optionalString(original.previewMimeType),
+          contentHash: generateDocumentContentHash(state)
+        });
+      }
+      await linkForkedVersions(tx, "Document", "DocumentVersion", documentRows.map(row => ({ id: row.props.id, originVersionId: row.originVersionId })));
+
+      // Sections of forked documents
+      const sectionVersions = new Map(snapshot.documentSectionVersions.map(v => [v.sectionId, v]));
+      const sourceSections = forkSource.sections.filter(s => documentCopies.has(s.documentId));
+      const forkedSections = selectForked(
+        sourceSections.map(s => ({ id: String(s.node.properties.id), deleted: false })),
+        sectionVersions,
+        fromHead
+      );
+      const sectionCopies = new Map<string, string>();
+      const sectionRows = sourceSections
+        .filter(s => forkedSections.has(String(s.node.properties.id)))
+        .map(s => {
+          const props = s.node.properties as Record<string, any>;
+          const version = forkedSections.get(String(props.id));
+          const copyId = `section-${randomUUID()}`;
+          sectionCopies.set(String(props.id), copyId);
+          return {
+            originId: String(props.id),
+            originVersionId: version?.versionId ?? null,
+            documentId: documentCopies.get(s.documentId)!,
+            props: {
+              id: copyId,
+              projectKey: branchSlug,
+              name: version?.name ?? props.name,
+              description: version ? version.description ?? null : props.description ?? null,
+              shortCode: version ? version.shortCode ?? null : props.shortCode ?? null,
+              order: version ? version.order : toNumber(props.order, 0),
+              originId: String(props.id),
+              createdAt: now,
+              updatedAt: now
+            }
+          };
+        });
+      await tx.run(
+        `
+          UNWIND $rows AS row
+          MATCH (original:DocumentSection {id: row.originId})
+          MATCH (document:Document {id: row.documentId})
+          CREATE (copy:DocumentSection)
+          SET copy = properties(original)
+          SET copy += row.props
+          CREATE (document)-[:HAS_SECTION]->(copy)
+          CREATE (copy)-[:FORKED_FROM]->(original)
+        `,
+        { rows: sectionRows }
+      );
+      for (const row of sectionRows) {
+        const state = {
+          name: String(row.props.name),
+          description: optionalString(row.props.description),
+          shortCode: optionalString(row.props.shortCode),
+          order: row.props.order
+        };
+        await createDocumentSectionVersion(tx, {
+          ...base,
+          sectionId: row.props.id,
+          changeType: "created",
+          ...state,
+          contentHash: generateDocumentSectionContentHash(state)
+        });
+      }
+      await linkForkedVersions(tx, "DocumentSection", "DocumentSectionVersion", sectionRows.map(row => ({ id: row.props.id, originVersionId: row.originVersionId })));
+
+      // Requirements: a requirement follows its document, so one in a
+      // document that was not forked is not copied either
+      const requirementVersions = new Map(snapshot.requirementVersions.map(v => [v.requirementId, v]));
+      const sourceRequirements = forkSource.requirements.filter(r => !r.documentId || documentCopies.has(r.documentId));
+      const forkedRequirements = selectForked(
+        sourceRequirements.map(r => ({ id: String(r.node.properties.id), deleted: Boolean(r.node.properties.deleted) })),
+        requirementVersions,
+        fromHead
+      );
+      const requirementCopies = new Map<string, string>();
+      const requirementRows = sourceRequirements
+        .filter(r => forkedRequirements.has(String(r.node.properties.id)))
+        .map(r => {
+          const current = mapRequirement(r.node);
+          const version = forkedRequirements.get(current.id) as RequirementVersionRecord | null;
+          const content = version
+            ? {
+                text: version.text,
+                pattern: version.pattern ?? null,
+                verification: version.verification ?? null,
+                rationale: version.rationale ?? null,
+                complianceStatus: version.complianceStatus ?? null,
+                complianceRationale: version.complianceRationale ?? null,
+                tags: version.tags ?? [],
+                attributes: version.attributes ?? null
+              }
+            : {
+                text: current.text,
+                pattern: current.pattern ?? null,
+                verification: current.verification ?? null,
+                rationale: current.rationale ?? null,
+                complianceStatus: current.complianceStatus ?? null,
+                complianceRationale: current.complianceRationale ?? null,
+                tags: current.tags ?? [],
+                attributes: current.attributes ?? null
+              };
+          const contentHash = computeRequirementHash(content);
+          const copyId = `${tenantSlug}:${branchSlug}:${current.ref}`;
+          requirementCopies.set(current.id, copyId);
+          return {
+            originId: current.id,
+            originVersionId: version?.versionId ?? null,
+            documentId: r.documentId ? documentCopies.get(r.documentId)! : null,
+            sectionId: r.sectionId ? sectionCopies.get(r.sectionId) ?? null : null,
+            textChanged: content.text !== current.text,
+            current,
+            content,
+            props: {
+              id: copyId,
+              hashId: randomBytes(8).toString("hex"),
+              projectKey: branchSlug,
+              path: `${tenantSlug}/${branchSlug}/requirements/${current.ref}.md`,
+              ...content,
+              attributes: content.attributes ? JSON.stringify(content.attributes) : null,
+              contentHash,
+              originId: current.id,
+              forkBaseHash: requirementMergeHash(content),
+              deleted: false,
+              deletedAt: null,
+              deletedBy: null,
+              archived: false,
+              createdAt: now,
+              updatedAt: now
+            }
+          };
+        });
+      await tx.run(
+        `
+          MATCH (branch:Project {tenantSlug: $tenantSlug, slug: $branchSlug})
+          UNWIND $rows AS row
+          MATCH (original:Requirement {id: row.originId})
+          OPTIONAL MATCH (document:Document {id: row.documentId})
+          OPTIONAL MATCH (section:DocumentSection {id: row.sectionId})
+          CREATE (copy:Requirement)
+          SET copy = properties(original)
+          SET copy += row.props
+          FOREACH (_ IN CASE WHEN row.textChanged THEN [1] ELSE [] END |
+            SET copy.embedding = null, copy.embeddingModel = null, copy.embeddingGeneratedAt = null
+          )
+          CREATE (copy)-[:FORKED_FROM]->(original)
+          FOREACH (doc IN CASE WHEN document IS NOT NULL THEN [document] ELSE [] END |
+            CREATE (doc)-[:CONTAINS]->(copy)
+          )
+          FOREACH (proj IN CASE WHEN document IS NULL THEN [branch] ELSE [] END |
+            CREATE (proj)-[:CONTAINS]->(copy)
+          )
+          FOREACH (sec IN CASE WHEN section IS NOT NULL THEN [section] ELSE [] END |
+            CREATE (sec)-[:CONTAINS]->(copy)
+          )
+        `,
+        {
+          tenantSlug,
+          branchSlug,
+          rows: requirementRows.map(row => ({
+            originId: row.originId,
+            documentId: row.documentId,
+            sectionId: row.sectionId,
+            textChanged: row.textChanged,
+            props: row.props
+          }))
+        }
+      );
+      for (const row of requirementRows) {
+        await createRequirementVersion(tx, {
+          ...base,
+          requirementId: row.props.id,
+          changeType: "created",
+          ...row.content,
+          qaScore: row.current.qaScore ?? null,
+          qaVerdict: row.current.qaVerdict ?? null,
+          suggestions: row.current.suggestions ?? null,
+          contentHash: row.props.contentHash
+        });
+      }
+      await linkForkedVersions(tx, "Requirement", "RequirementVersion", requirementRows.map(row => ({ id: row.props.id, originVersionId: row.originVersionId })));
+
+      // Linksets between forked documents
+      const linksetCopies = new Map<string, string>();
+      const linksetRows = forkSource.linksets
+        .filter(l => documentCopies.has(l.sourceDocumentId) && documentCopies.has(l.targetDocumentId))
+        .map(l => {
+          const props = l.node.properties as Record<string, any>;
+          const copyId = `linkset-${randomUUID()}`;
+          linksetCopies.set(`${l.sourceDocumentId}|${l.targetDocumentId}`, copyId);
+          return {
+            originId: String(props.id),
+            sourceDocumentId: documentCopies.get(l.sourceDocumentId)!,
+            targetDocumentId: documentCopies.get(l.targetDocumentId)!,
+            sourceDocumentSlug: String(props.sourceDocumentSlug),
+            targetDocumentSlug: String(props.targetDocumentSlug),
+            defaultLinkType: optionalString(props.defaultLinkType),
+            props: {
+              id: copyId,
+              projectKey: branchSlug,
+              // Links are copied as trace link nodes below
+              links: [],
+              linkCount: 0,
+              originId: String(props.id),
+              createdAt: now,
+              updatedAt: now
+            }
+          };
+        });
+      await tx.run(
+        `
+          MATCH (branch:Project {tenantSlug: $tenantSlug, slug: $branchSlug})
+          UNWIND $rows AS row
+          MATCH (original:DocumentLinkset {id: row.originId})
+          MATCH (sourceDoc:Document {id: row.sourceDocumentId})
+          MATCH (targetDoc:Document {id: row.targetDocumentId})
+          CREATE (copy:DocumentLinkset)
+          SET copy = properties(original)
+          SET copy += row.props
+          CREATE (branch)-[:HAS_LINKSET]->(copy)
+          CREATE (copy)-[:FROM_DOCUMENT]->(sourceDoc)
+          CREATE (copy)-[:TO_DOCUMENT]->(targetDoc)
+          MERGE (sourceDoc)-[:LINKED_TO {linksetId: copy.id}]->(targetDoc)
+          CREATE (copy)-[:FORKED_FROM]->(original)
+        `,
+        { tenantSlug, branchSlug, rows: linksetRows }
+      );
+      for (const row of linksetRows) {
+        await createDocumentLinksetVersion(tx, {
+          ...base,
+          linksetId: row.props.id,
+          changeType: "created",
+          sourceDocumentSlug: row.sourceDocumentSlug,
+          targetDocumentSlug: row.targetDocumentSlug,
+          defaultLinkType: row.defaultLinkType ?? undefined,
+          contentHash: generateDocumentLinksetContentHash({
+            sourceDocumentSlug: row.sourceDocumentSlug,
+            targetDocumentSlug: row.targetDocumentSlug,
+            defaultLinkType: row.defaultLinkType ?? undefined
+          })
+        });
+      }
+
+      // Trace links whose ends were both forked
+      const documentOf = new Map(sourceRequirements.map(r => [String(r.node.properties.id), r.documentId]));
+      const traceLinkVersions = new Map(snapshot.traceLinkVersions.map(v => [v.traceLinkId, v]));
+      const forkedLinks = selectForked(
+        forkSource.traceLinks.map(node => ({ id: String(node.properties.id), deleted: false })),
+        traceLinkVersions,
+        fromHead
+      );
+      const linkRows = forkSource.traceLinks
+        .filter(node => forkedLinks.has(String(node.properties.id)))
+        .flatMap(node => {
+          const props = node.properties as Record<string, any>;
+          const version = forkedLinks.get(String(props.id)) as TraceLinkVersionRecord | null;
+          const sourceId = version?.sourceRequirementId ?? String(props.sourceRequirementId);
+          const targetId = version?.targetRequirementId ?? String(props.targetRequirementId);
+          const sourceCopy = requirementCopies.get(sourceId);
+          const targetCopy = requirementCopies.get(targetId);
+          if (!sourceCopy || !targetCopy) {
+            return [];
+          }
+          const sourceDoc = documentOf.get(sourceId) ?? null;
+          const targetDoc = documentOf.get(targetId) ?? null;
+          const linksetId = sourceDoc && targetDoc && sourceDoc !== targetDoc
+            ? linksetCopies.get(`${sourceDoc}|${targetDoc}`) ?? null
+            : null;
+          return [{
+            originId: String(props.id),
+            originVersionId: version?.versionId ?? null,
+            linksetId,
+            state: {
+              sourceRequirementId: sourceCopy,
+              targetRequirementId: targetCopy,
+              linkType: (version?.linkType ?? props.linkType) as TraceLinkVersionRecord["linkType"],
+              description: version ? version.description ?? null : optionalString(props.description)
+            },
+            id: `link-${Date.now()}-${randomBytes(5).toString("hex")}`
+          }];
+        });
+      await tx.run(
+        `
+          MATCH (branch:Project {tenantSlug: $tenantSlug, slug: $branchSlug})
+          UNWIND $rows AS row
+          MATCH (original:TraceLink {id: row.originId})
+          MATCH (source:Requirement {id: row.state.sourceRequirementId})
+          MATCH (target:Requirement {id: row.state.targetRequirementId})
+          OPTIONAL MATCH (linkset:DocumentLinkset {id: row.linksetId})
+          CREATE (link:TraceLink {
+            id: row.id,
+            sourceRequirementId: row.state.sourceRequirementId,
+            targetRequirementId: row.state.targetRequirementId,
+            linkType: row.state.linkType,
+            description: row.state.description,
+            tenant: $tenantSlug,
+            projectKey: $branchSlug,
+            sourceContentHash: source.contentHash,
+            targetContentHash: target.contentHash,
+            suspect: false,
+            originId: row.originId,
+            createdAt: $now,
+            updatedAt: $now
+          })
+          CREATE (branch)-[:HAS_TRACE_LINK]->(link)
+          CREATE (link)-[:FROM_REQUIREMENT]->(source)
+          CREATE (link)-[:TO_REQUIREMENT]->(target)
+          CREATE (source)-[:LINKS_TO {linkId: link.id, linkType: row.state.linkType}]->(target)
+          CREATE (link)-[:FORKED_FROM]->(original)
+          FOREACH (_ IN CASE WHEN linkset IS NULL THEN [] ELSE [1] END |
+            CREATE (linkset)-[:CONTAINS_LINK]->(link)
+            SET linkset.linkCount = coalesce(linkset.linkCount, 0) + 1
+          )
+        `,
+        { tenantSlug, branchSlug, now, rows: linkRows }
+      );
+      for (const row of linkRows) {
+        await createTraceLinkVersion(tx, {
+          ...base,
+          traceLinkId: row.id,
+          changeType: "created",
+          ...row.state,
+          contentHash: generateTraceLinkContentHash(row.state)
+        });
+      }
+      await linkForkedVersions(tx, "TraceLink", "TraceLinkVersion", linkRows.map(row => ({ id: row.id, originVersionId: row.originVersionId })));
+
+      return {
+        branch,
+        counts: {
+          documents: documentRows.length,
+          sections: sectionRows.length,
+          requirements: requirementRows.length,
+          traceLinks: linkRows.length,
+          linksets: linksetRows.length
+        }
+      };
+    });
+  } finally {
+    await session.close();
+  }
+
+  await CacheInvalidation.invalidateRequirements(tenantSlug, branchSlug);
+  await CacheInvalidation.invalidateDocuments(tenantSlug, branchSlug);
+  await CacheInvalidation.invalidateTraceLinks(tenantSlug, branchSlug);
+
+  emitWebhookEvent({
+    type: "branch.created",
+    tenant: tenantSlug,
+    project: projectSlug,
+    actor: params.userId,
+    data: {
+      branch: branchSlug,
+      baselineRef: result.branch.baselineRef,
+      documentSlugs: result.branch.documentSlugs,
+      counts: result.counts
+    }
+  });
+
+  return result;
+}
+
+/**
+ * List the branches forked from a project
+ */
+export async function listBranches(tenant: string, projectKey: string): Promise<BranchRecord[]> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    const result = await session.run(
+      `
+        MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(branch:Project)-[:BRANCHED_FROM]->(:Project {slug: $projectSlug, tenantSlug: $tenantSlug})
+        RETURN branch
+        ORDER BY branch.branchedAt DESC
+      `,
+      { tenantSlug, projectSlug }
+    );
+    return result.records.map(record => mapBranch(record.get("branch") as Neo4jNode));
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * @throws BranchError (404) if the project does not exist or is not a branch
+ */
+export async function getBranch(tenant: string, branchKey: string): Promise<BranchRecord> {
+  const tenantSlug = slugify(tenant);
+  const branchSlug = slugify(branchKey);
+  const session = getSession();
+
+  try {
+    const result = await session.run(
+      `
+        MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(branch:Project {slug: $branchSlug})-[:BRANCHED_FROM]->(:Project)
+        RETURN branch
+      `,
+      { tenantSlug, branchSlug }
+    );
+    const record = result.records[0];
+    if (!record) {
+      throw new BranchError(404, `Branch not found: ${branchSlug}`);
+    }
+    return mapBranch(record.get("branch") as Neo4jNode);
+  } finally {
+    await session.close();
+  }
+}
+
+const FORKED_LABELS = ["Document", "DocumentSection", "Requirement", "TraceLink", "DocumentLinkset"] as const;
+
+type BranchRequirementPair = {
+  branch: RequirementRecord & { originId?: string; forkBaseHash?: string };
+  origin: RequirementRecord | null;
+};
+
+/** Branch requirements (including deleted ones) with the mainline requirement each was forked from */
+async function loadRequirementPairs(
+  tx: ManagedTransaction,
+  tenantSlug: string,
+  branchSlug: string
+): Promise<BranchRequirementPair[]> {
+  const result = await tx.run(
+    `
+      MATCH (requirement:Requirement {tenant: $tenantSlug, projectKey: $branchSlug})
+      OPTIONAL MATCH (origin:Requirement {id: requirement.originId})
+      RETURN requirement, origin
+      ORDER BY requirement.ref
+    `,
+    { tenantSlug, branchSlug }
+  );
+  return result.records.map(record => {
+    const node = record.get("requirement") as Neo4jNode;
+    const originNode = record.get("origin") as Neo4jNode | null;
+    return {
+      branch: {
+        ...mapRequirement(node),
+        originId: optionalString(node.properties.originId) ?? undefined,
+        forkBaseHash: optionalString(node.properties.forkBaseHash) ?? undefined
+      },
+      origin: originNode ? mapRequirement(originNode) : null
+    };
+  });
+}
+
+function requirementStatus(pair: BranchRequirementPair): BranchRequirementStatus {
+  const { branch, origin } = pair;
+  const hash = (r: RequirementRecord) => requirementMergeHash(requirementContent(r));
+  return {
+    requirementId: branch.id,
+    originId: branch.originId ?? null,
+    ref: branch.ref,
+    status: classifyMergeStatus({
+      hasOrigin: Boolean(branch.originId),
+      baseHash: branch.forkBaseHash ?? null,
+      branchHash: hash(branch),
+      branchDeleted: Boolean(branch.deleted),
+      mainlineHash: origin ? hash(origin) : null,
+      mainlineDeleted: !origin || Boolean(origin.deleted)
+    })
+  };
+}
+
+/**
+ * Compare a branch with its mainline.
+ *
+ * Both HEAD snapshots go through the baseline comparison, with the branch
+ * mapped onto mainline IDs: "added" entities exist only in the branch,
+ * "removed" ones only in the mainline. For a branch of selected documents the
+ * mainline side is limited to those documents. Per-requirement merge statuses
+ * are included so the caller can see what a merge would do.
+ *
+ * @throws BranchError (404) if the branch does not exist
+ */
+export async function compareBranch(tenant: string, branchKey: string): Promise<BranchComparison> {
+  const branch = await getBranch(tenant, branchKey);
+  const tenantSlug = slugify(tenant);
+
+  const session = getSession();
+  let idMap: BranchIdMap;
+  let mainlineScope: Set<string> | null = null;
+  let pairs: BranchRequirementPair[];
+  try {
+    ({ idMap, mainlineScope, pairs } = await session.executeRead(async (tx: ManagedTransaction) => {
+      const mapResult = await tx.run(
+        FORKED_LABELS.map(label => `
+          MATCH (copy:${label} {tenant: $tenantSlug, projectKey: $branchSlug})
+          WHERE copy.originId IS NOT NULL
+          RETURN copy.id AS id, copy.originId AS originId
+        `).join("UNION ALL"),
+        { tenantSlug, branchSlug: branch.slug }
+      );
+      const map: BranchIdMap = new Map(
+        mapResult.records.map(record => [String(record.get("id")), String(record.get("originId"))])
+      );
+
+      let scope: Set<string> | null = null;
+      if (branch.documentSlugs) {
+        const scopeResult = await tx.run(
+          `
+            MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_DOCUMENT]->(document:Document)
+            WHERE document.slug IN $documentSlugs
+            OPTIONAL MATCH (document)-[:HAS_SECTION]->(section:DocumentSection)
+            OPTIONAL MATCH (document)-[:HAS_SECTION|CONTAINS*1..2]->(requirement:Requirement)
+            RETURN document.id AS documentId, collect(DISTINCT section.id) + collect(DISTINCT requirement.id) AS ids
+          `,
+          { tenantSlug, projectSlug: branch.sourceProject, documentSlugs: branch.documentSlugs }
+        );
+        scope = new Set([...map.values()]);
+        for (const record of scopeResult.records) {
+          scope.add(String(record.get("documentId")));
+          for (const id of record.get("ids") as string[]) {
+            scope.add(id);
+          }
+        }
+      }
+
+      return { idMap: map, mainlineScope: scope, pairs: await loadRequirementPairs(tx, tenantSlug, branch.slug) };
+    }));
+  } finally {
+    await session.close();
+  }
+
+  const mainline = await getHeadSnapshot(tenant, branch.sourceProject);
+  const branchSnapshot = mapBranchSnapshot(await getHeadSnapshot(tenant, branch.slug), idMap);
+  const inScope = (id: string) => !mainlineScope || mainlineScope.has(id);
+
+  // Branches carry no architecture, infos or surrogates, so those are left
+  // out of both sides rather than reported as removed
+  const comparison = compareSnapshots(
+    {
+      ...mainline,
+      requirementVersions: mainline.requirementVersions.filter(v => inScope(v.requirementId)),
+      documentVersions: mainline.documentVersions.filter(v => inScope(v.documentId)),
+      documentSectionVersions: mainline.documentSectionVersions.filter(v => inScope(v.sectionId)),
+      traceLinkVersions: mainline.traceLinkVersions.filter(v => inScope(v.sourceRequirementId) && inScope(v.targetRequirementId)),
+      linksetVersions: mainline.linksetVersions.filter(v => inScope(v.linksetId)),
+      infoVersions: [],
+      surrogateReferenceVersions: [],
+      diagramVersions: [],
+      blockVersions: [],
+      connectorVersions: []
+    },
+    { ...branchSnapshot, infoVersions: [], surrogateReferenceVersions: [], diagramVersions: [], blockVersions: [], connectorVersions: [] }
+  );
+
+  return {
+    branch,
+    comparison,
+    requirements: pairs.map(requirementStatus)
+  };
+}
+
+function planMergeAction(
+  status: BranchRequirementStatus,
+  pair: BranchRequirementPair,
+  resolveWithBranch: Set<string>
+): BranchMergeAction {
+  switch (status.status) {
+    case "branch-changed":
+      return { ...status, action: "update" };
+    case "added":
+      return { ...status, action: "create" };
+    case "branch-deleted":
+      return { ...status, action: "delete" };
+    case "both-changed-same":
+      return { ...status, action: "sync" };
+    case "conflict":
+      if (!resolveWithBranch.has(status.requirementId)) {
+        return { ...status, action: "skip", reason: "Changed on both sides" };
+      }
+      if (pair.branch.deleted) {
+        return { ...status, action: "delete" };
+      }
+      return { ...status, action: pair.origin && !pair.origin.deleted ? "update" : "undelete" };
+    case "mainline-changed":
+      return { ...status, action: "skip", reason: "Only changed in the mainline" };
+    case "mainline-deleted":
+      return { ...status, action: "skip", reason: "Deleted in the mainline" };
+    default:
+      return { ...status, action: "skip", reason: "No changes" };
+  }
+}
+
+function summarize(actions: BranchMergeAction[]): Record<BranchMergeActionKind, number> {
+  const summary: Record<BranchMergeActionKind, number> = { update: 0, create: 0, delete: 0, undelete: 0, sync: 0, skip: 0 };
+  for (const action of actions) {
+    summary[action.action] += 1;
+  }
+  return summary;
+}
+
+type MergeContext = {
+  tx: ManagedTransaction;
+  tenantSlug: string;
+  projectSlug: string;
+  userId: string;
+  now: string;
+  changeDescription: string;
+};
+
+function requirementContent(requirement: RequirementRecord) {
+  return {
+    text: requirement.text,
+    pattern: requirement.pattern ?? null,
+    verification: requirement.verification ?? null,
+    rationale: requirement.rationale ?? null,
+    complianceStatus: requirement.complianceStatus ?? null,
+    complianceRationale: requirement.complianceRationale ?? null,
+    tags: requirement.tags ?? [],
+    attributes: requirement.attributes ?? null
+  };
+}
+
+/**
+ * Hash of every requirement field a merge writes, so a change to any of them
+ * counts as a change for conflict detection (`contentHash` only covers text,
+ * pattern and verification).
+ */
+export function requirementMergeHash(content: ReturnType<typeof requirementContent>): string {
+  const attributes = content.attributes
+    ? Object.fromEntries(Object.entries(content.attributes).sort(([a], [b]) => a.localeCompare(b)))
+    : null;
+  const canonical = JSON.stringify({
+    text: content.text.trim(),
+    pattern: content.pattern || null,
+    verification: content.verification || null,
+    rationale: content.rationale || null,
+    complianceStatus: content.complianceStatus || null,
+    complianceRationale: content.complianceRationale || null,
+    tags: content.tags,
+    attributes
+  });
+  return createHash("sha256").update(canonical, "utf8").digest("hex");
+}
+
+/** Record the mainline merge hash as the branch requirement's new merge base */
+async function setMergeBase(ctx: MergeContext, requirementId: string, originId: string, hash: string): Promise<void> {
+  await ctx.tx.run(
+    `
+      MATCH (copy:Requirement {id: $requirementId})
+      MATCH (origin:Requirement {id: $originId})
+      SET copy.originId = $originId, copy.forkBaseHash = $hash
+      MERGE (copy)-[:FORKED_FROM]->(origin)
+    `,
+    { requirementId, originId, hash }
+  );
+}
+
+async function applyMergeUpdate(ctx: MergeContext, pair: BranchRequirementPair, undelete: boolean): Promise<void> {
+  const { tx } = ctx;
+  const origin = pair.origin!;
+  const content = requirementContent(pair.branch);
+  const contentHash = computeRequirementHash(content);
+
+  await tx.run(
+    `
+      MATCH (requirement:Requirement {id: $requirementId})
+      SET requirement.text = $text,
+          requirement.pattern = $pattern,
+          requirement.verification = $verification,
+          requirement.rationale = $rationale,
+          requirement.complianceStatus = $complianceStatus,
+          requirement.complianceRationale = $complianceRationale,
+          requirement.tags = $tags,
+          requirement.attributes = $attributes,
+          requirement.contentHash = $contentHash,
+          requirement.updatedAt = $now
+      FOREACH (_ IN CASE WHEN $undelete THEN [1] ELSE [] END |
+        SET requirement.deleted = false, requirement.restoredAt = $now
+      )
+      // Stale embeddings are regenerated by the embedding worker's backfill
+      FOREACH (_ IN CASE WHEN $textChanged THEN [1] ELSE [] END |
+        SET requirement.embedding = null,
+            requirement.embeddingModel = null,
+            requirement.embeddingGeneratedAt = null
+      )
+    `,
+    {
+      requirementId: origin.id,
+      ...content,
+      attributes: content.attributes ? JSON.stringify(content.attributes) : null,
+      contentHash,
+      now: ctx.now,
+      undelete,
+      textChanged: content.text !== origin.text
+    }
+  );
+
+  await createRequirementVersion(tx, {
+    requirementId: origin.id,
+    tenantSlug: ctx.tenantSlug,
+    projectSlug: ctx.projectSlug,
+    changedBy: ctx.userId,
+    changeType: undelete ? "restored" : "updated",
+    changeDescription: ctx.changeDescription,
+    ...content,
+    qaScore: origin.qaScore ?? null,
+    qaVerdict: origin.qaVerdict ?? null,
+    suggestions: origin.suggestions ?? null,
+    contentHash
+  });
+
+  if (contentHash !== origin.contentHash) {
+    await flagSuspectLinks(tx, origin.id, ctx.now);
+  }
+  await setMergeBase(ctx, pair.branch.id, origin.id, requirementMergeHash(content));
+}
+
+async function applyMergeDelete(ctx: MergeContext, pair: BranchRequirementPair): Promise<void> {
+  const origin = pair.origin!;
+  await ctx.tx.run(
+    `
+      MATCH (requirement:Requirement {id: $requirementId})
+      SET requirement.deleted = true,
+          requirement.deletedAt = $now,
+          requirement.deletedBy = $userId,
+          requirement.updatedAt = $now
+    `,
+    { requirementId: origin.id, now: ctx.now, userId: ctx.userId }
+  );
+  const contentHash = origin.contentHash || computeRequirementHash(origin);
+  await createRequirementVersion(ctx.tx, {
+    requirementId: origin.id,
+    tenantSlug: ctx.tenantSlug,
+    projectSlug: ctx.projectSlug,
+    changedBy: ctx.userId,
+    changeType: "deleted",
+    changeDescription: ctx.changeDescription,
+    ...requirementContent(origin),
+    qaScore: origin.qaScore ?? null,
+    qaVerdict: origin.qaVerdict ?? null,
+    suggestions: origin.suggestions ?? null,
+    contentHash
+  });
+  await setMergeBase(ctx, pair.branch.id, origin.id, requirementMergeHash(requirementContent(origin)));
+}
+
+/**
+ * Create a requirement added in the branch in the mainline document (and
+ * section) its branch container was forked from. The branch ref is kept when
+ * it is free in the mainline; otherwise the next number for its prefix is used.
+ *
+ * @returns false when the container does not exist in the mainline
+ */
+async function applyMergeCreate(ctx: MergeContext, pair: BranchRequirementPair): Promise<boolean> {
+  const { tx, tenantSlug, projectSlug } = ctx;
+  const containerResult = await tx.run(
+    `
+      MATCH (copy:Requirement {id: $requirementId})
+      OPTIONAL MATCH (branchSection:DocumentSection)-[:CONTAINS]->(copy)
+      OPTIONAL MATCH (branchDoc:Document)-[:CONTAINS]->(copy)
+      OPTIONAL MATCH (branchSectionDoc:Document)-[:HAS_SECTION]->(branchSection)
+      WITH copy, branchSection, coalesce(branchDoc, branchSectionDoc) AS branchDocument
+      OPTIONAL MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_DOCUMENT]->(document:Document {id: branchDocument.originId})
+      WHERE document.deletedAt IS NULL
+      OPTIONAL MATCH (document)-[:HAS_SECTION]->(section:DocumentSection {id: branchSection.originId})
+      RETURN branchDocument IS NOT NULL AS inDocument, document.slug AS documentSlug, document.id AS documentId, section.id AS sectionId
+    `,
+    { requirementId: pair.branch.id, tenantSlug, projectSlug }
+  );
+  const container = containerResult.records[0];
+  const inDocument = Boolean(container?.get("inDocument"));
+  const documentSlug = optionalString(container?.get("documentSlug"));
+  if (inDocument && !documentSlug) {
+    return false;
+  }
+  const sectionId = optionalString(container?.get("sectionId"));
+
+  await assertDocumentUnlocked(tx, { tenantSlug, projectSlug, documentSlug, sectionId });
+
+  const refResult = await tx.run(
+    `
+      MATCH (requirement:Requirement {tenant: $tenantSlug, projectKey: $projectSlug})
+      WHERE requirement.ref STARTS WITH $prefix
+      RETURN requirement.ref AS ref
+    `,
+    { tenantSlug, projectSlug, prefix: pair.branch.ref.replace(/\d+$/, "") }
+  );
+  const takenRefs = refResult.records.map(record => String(record.get("ref")));
+  let ref = pair.branch.ref;
+  if (takenRefs.includes(ref)) {
+    const prefix = ref.replace(/\d+$/, "");
+    const highest = Math.max(0, ...takenRefs.map(r => Number(r.slice(prefix.length))).filter(Number.isFinite));
+    ref = `${prefix}${String(highest + 1).padStart(3, "0")}`;
+  }
+  const counter = Number(ref.match(/(\d+)$/)?.[1] ?? 0);
+  const requirementId = `${tenantSlug}:${projectSlug}:${ref}`;
+  const content = requirementContent(pair.branch);
+  const contentHash = computeRequirementHash(content);
+
+  await tx.run(
+    `
+      MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+      MATCH (copy:Requirement {id: $copyId})
+      OPTIONAL MATCH (project)-[:HAS_DOCUMENT]->(document:Document {slug: $documentSlug})
+      OPTIONAL MATCH (section:DocumentSection {id: $sectionId})
+      CREATE (requirement:Requirement)
+      SET requirement = properties(copy)
+      REMOVE requirement.originId, requirement.forkBaseHash
+      SET requirement.id = $requirementId,
+          requirement.hashId = $hashId,
+          requirement.ref = $ref,
+          requirement.projectKey = $projectSlug,
+          requirement.path = $tenantSlug + '/' + $projectSlug + '/requirements/' + $ref + '.md',
+          requirement.contentHash = $contentHash,
+          requirement.createdAt = $now,
+          requirement.updatedAt = $now
+      FOREACH (doc IN CASE WHEN document IS NOT NULL THEN [document] ELSE [] END |
+        SET doc.requirementCounter = CASE WHEN coalesce(doc.requirementCounter, 0) < $counter THEN $counter ELSE doc.requirementCounter END
+        MERGE (doc)-[:CONTAINS]->(requirement)
+      )
+      FOREACH (proj IN CASE WHEN document IS NULL THEN [project] ELSE [] END |
+        MERGE (proj)-[:CONTAINS]->(requirement)
+      )
+      FOREACH (sec IN CASE WHEN section IS NOT NULL THEN [section] ELSE [] END |
+        MERGE (sec)-[:CONTAINS]->(requirement)
+      )
+    `,
+    {
+      tenantSlug,
+      projectSlug,
+      copyId: pair.branch.id,
+      documentSlug,
+      sectionId,
+      requirementId,
+      hashId: randomBytes(8).toString("hex"),
+      ref,
+      counter,
+      contentHash,
+      now: ctx.now
+    }
+  );
+
+  await createRequirementVersion(tx, {
+    requirementId,
+    tenantSlug,
+    projectSlug,
+    changedBy: ctx.userId,
+    changeType: "created",
+    changeDescription: ctx.changeDescription,
+    ...content,
+    qaScore: pair.branch.qaScore ?? null,
+    qaVerdict: pair.branch.qaVerdict ?? null,
+    suggestions: pair.branch.suggestions ?? null,
+    contentHash
+  });
+  await setMergeBase(ctx, pair.branch.id, requirementId, requirementMergeHash(content));
+  return true;
+}
+
+/**
+ * Preview or apply a merge of branch requirements into the mainline.
+ *
+ * Requirements are selected by their branch ID (default: every requirement
+ * with something to merge). A selected requirement in conflict fails the
+ * merge with BranchMergeConflictError unless it is listed in
+ * `resolveWithBranch`, in which case the branch version wins. Changes made
+ * only in the mainline are never pulled into the branch.
+ *
+ * With `dryRun` the plan is computed in a read transaction and nothing is
+ * written; unresolved conflicts are reported as skipped actions instead of
+ * failing.
+ *
+ * @throws BranchError (404) if the branch does not exist
+ * @throws BranchMergeConflictError if selected requirements conflict
+ * @throws DocumentLockedError if a mainline requirement to change is in a locked document
+ */
+export async function mergeBranch(params: {
+  tenant: string;
+  branch: string;
+  requirementIds?: string[];
+  resolveWithBranch?: string[];
+  dryRun: boolean;
+  userId: string;
+}): Promise<BranchMergeResult> {
+  const branch = await getBranch(params.tenant, params.branch);
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = branch.sourceProject;
+  const selected = params.requirementIds ? new Set(params.requirementIds) : null;
+  const resolveWithBranch = new Set(params.resolveWithBranch ?? []);
+
+  const session = getSession();
+  let actions: BranchMergeAction[];
+  try {
+    const work = async (tx: ManagedTransaction) => {
+      const pairs = (await loadRequirementPairs(tx, tenantSlug, branch.slug))
+        .filter(pair => !selected || selected.has(pair.branch.id));
+      const planned = pairs.map(pair => ({ pair, action: planMergeAction(requirementStatus(pair), pair, resolveWithBranch) }));
+
+      if (params.dryRun) {
+        return planned.map(p => p.action);
+      }
+
+      const conflicts = planned.filter(p => p.action.status === "conflict" && p.action.action === "skip");
+      if (conflicts.length > 0) {
+        throw new BranchMergeConflictError(conflicts.map(p => requirementStatus(p.pair)));
+      }
+
+      await assertRequirementsUnlocked(
+        tx,
+        planned
+          .filter(p => p.action.action === "update" || p.action.action === "delete" || p.action.action === "undelete")
+          .map(p => p.pair.origin!.id)
+      );
+
+      const ctx: MergeContext = {
+        tx,
+        tenantSlug,
+        projectSlug,
+        userId: params.userId,
+        now: new Date().toISOString(),
+        changeDescription: `Merged from branch ${branch.slug}`
+      };
+      const applied: BranchMergeAction[] = [];
+      for (const { pair, action } of planned) {
+        switch (action.action) {
+          case "update":
+          case "undelete":
+            await applyMergeUpdate(ctx, pair, action.action === "undelete");
+            break;
+          case "delete":
+            await applyMergeDelete(ctx, pair);
+            break;
+          case "create":
+            if (!(await applyMergeCreate(ctx, pair))) {
+              applied.push({ ...action, action: "skip", reason: "Its document does not exist in the mainline" });
+              continue;
+            }
+            break;
+          case "sync":
+            await setMergeBase(ctx, pair.branch.id, pair.origin!.id, requirementMergeHash(requirementContent(pair.origin!)));
+            break;
+        }
+        applied.push(action);
+      }
+      return applied;
+    };
+
+    actions = params.dryRun
+      ? await session.executeRead(work)
+      : await executeWriteWithWebhookEvents(session, work);
+  } finally {
+    await session.close();
+  }
+
+  const result: BranchMergeResult = {
+    branch: branch.slug,
+    targetProject: projectSlug,
+    dryRun: params.dryRun,
+    actions,
+    summary: summarize(actions)
+  };
+
+  const written = actions.filter(action => action.action !== "skip" && action.action !== "sync");
+  if (!params.dryRun && written.length > 0) {
+    await CacheInvalidation.invalidateRequirements(tenantSlug, projectSlug);
+    await CacheInvalidation.invalidateRequirements(tenantSlug, branch.slug);
+
+    emitWebhookEvent({
+      type: "branch.merged",
+      tenant: tenantSlug,
+      project: projectSlug,
+      actor: params.userId,
+      data: {
+        branch: branch.slug,
+        summary: result.summary,
+        requirementIds: written.map(action => action.originId ?? action.requirementId)
+      }
+    });
+  }
+
+  return result;
+}
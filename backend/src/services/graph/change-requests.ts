@@ -0,0 +1,651 @@
+import { randomUUID } from "node:crypto";
+import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
+import { slugify } from "../workspace.js";
+import type { RequirementRecord } from "../workspace.js";
+import { getSession } from "./driver.js";
+import { findRequirementDocument } from "./documents/documents-lock.js";
+import { mapRequirement } from "./requirements/requirements-mapper.js";
+import { applyRequirementUpdate, type RequirementUpdates } from "./requirements/requirements-update.js";
+import { enforceAttributeSchema } from "./attribute-schema.js";
+import { CacheInvalidation } from "../../lib/cache.js";
+import { emitWebhookEvent, executeWriteWithWebhookEvents } from "../webhooks.js";
+
+/**
+ * Requirement change requests.
+ *
+ * A change request holds proposed edits to one requirement. It is routed to
+ * the reviewers of the requirement's document, other than the proposer,
+ * collects comments and decisions, and is applied only once approved. Any
+ * rejection closes it. Projects without named reviewers fall back to a
+ * single approval from a project approver.
+ */
+
+export const CHANGE_REQUEST_FIELDS = [
+  "text",
+  "pattern",
+  "verification",
+  "rationale",
+  "complianceStatus",
+  "complianceRationale",
+  "tags",
+  "attributes"
+] as const;
+
+export type ChangeRequestField = typeof CHANGE_REQUEST_FIELDS[number];
+
+export type ProposedRequirementChanges = Partial<Pick<RequirementRecord, ChangeRequestField>>;
+
+export type ChangeRequestStatus = "pending" | "approved" | "rejected" | "withdrawn";
+
+export type ChangeRequestReview = {
+  id: string;
+  reviewer: string;
+  decision: "approve" | "reject";
+  comment: string | null;
+  createdAt: string;
+};
+
+export type ChangeRequestComment = {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: string;
+};
+
+export type ChangeRequestRecord = {
+  id: string;
+  tenant: string;
+  projectKey: string;
+  requirementId: string;
+  requirementRef: string;
+  documentSlug: string | null;
+  title: string;
+  description: string | null;
+  status: ChangeRequestStatus;
+  changes: ProposedRequirementChanges;
+  /** Values of the changed fields when the request was opened */
+  base: ProposedRequirementChanges;
+  reviewers: string[];
+  proposedBy: string;
+  createdAt: string;
+  updatedAt: string;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  /** Requirement version created when the request was applied */
+  appliedVersion: number | null;
+  reviews: ChangeRequestReview[];
+  comments: ChangeRequestComment[];
+};
+
+/** Error with an HTTP status for the global error handler */
+export class ChangeRequestError extends Error {
+  constructor(public readonly statusCode: 400 | 403 | 404 | 409, message: string) {
+    super(message);
+    this.name = "ChangeRequestError";
+  }
+}
+
+function mapChangeRequest(
+  node: Neo4jNode,
+  reviews: Neo4jNode[] = [],
+  comments: Neo4jNode[] = []
+): ChangeRequestRecord {
+  const props = node.properties as Record<string, unknown>;
+  return {
+    id: String(props.id),
+    tenant: String(props.tenant),
+    projectKey: String(props.projectKey),
+    requirementId: String(props.requirementId),
+    requirementRef: String(props.requirementRef),
+    documentSlug: props.documentSlug ? String(props.documentSlug) : null,
+    title: String(props.title),
+    description: props.description ? String(props.description) : null,
+    status: String(props.status) as ChangeRequestStatus,
+    changes: JSON.parse(String(props.changes)) as ProposedRequirementChanges,
+    base: JSON.parse(String(props.base)) as ProposedRequirementChanges,
+    reviewers: Array.isArray(props.reviewers) ? (props.reviewers as unknown[]).map(String) : [],
+    proposedBy: String(props.proposedBy),
+    createdAt: String(props.createdAt),
+    updatedAt: String(props.updatedAt),
+    resolvedAt: props.resolvedAt ? String(props.resolvedAt) : null,
+    resolvedBy: props.resolvedBy ? String(props.resolvedBy) : null,
+    appliedVersion: props.appliedVersion !== undefined && props.appliedVersion !== null
+      ? Number(props.appliedVersion)
+      : null,
+    reviews: reviews
+      .map(review => review.properties as Record<string, unknown>)
+      .map(review => ({
+        id: String(review.id),
+        reviewer: String(review.reviewer),
+        decision: String(review.decision) as ChangeRequestReview["decision"],
+        comment: review.comment ? String(review.comment) : null,
+        createdAt: String(review.createdAt)
+      }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    comments: comments
+      .map(comment => comment.properties as Record<string, unknown>)
+      .map(comment => ({
+        id: String(comment.id),
+        author: String(comment.author),
+        text: String(comment.text),
+        createdAt: String(comment.createdAt)
+      }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  };
+}
+
+function pickChangedFields(current: RequirementRecord, changes: ProposedRequirementChanges): {
+  changes: ProposedRequirementChanges;
+  base: ProposedRequirementChanges;
+} {
+  const changed: Record<string, unknown> = {};
+  const base: Record<string, unknown> = {};
+
+  for (const field of CHANGE_REQUEST_FIELDS) {
+    const proposed = changes[field];
+    if (proposed === undefined) continue;
+    const existing = current[field];
+    if (JSON.stringify(proposed) === JSON.stringify(existing ?? null)) continue;
+    changed[field] = proposed;
+    base[field] = existing ?? null;
+  }
+
+  return { changes: changed as ProposedRequirementChanges, base: base as ProposedRequirementChanges };
+}
+
+/**
+ * Which approvals are still missing. With named reviewers every reviewer
+ * must approve; without, one approval is enough.
+ */
+export function pendingApprovals(changeRequest: Pick<ChangeRequestRecord, "reviewers" | "reviews">): string[] {
+  const approvedBy = new Set(
+    changeRequest.reviews.filter(review => review.decision === "approve").map(review => review.reviewer)
+  );
+  if (changeRequest.reviewers.length === 0) {
+    return approvedBy.size > 0 ? [] : ["any project approver"];
+  }
+  return changeRequest.reviewers.filter(reviewer => !approvedBy.has(reviewer));
+}
+
+const CHANGE_REQUEST_RETURN = `
+  OPTIONAL MATCH (cr)-[:HAS_REVIEW]->(review:ChangeRequestReview)
+  WITH cr, collect(DISTINCT review) AS reviews
+  OPTIONAL MATCH (cr)-[:HAS_COMMENT]->(comment:ChangeRequestComment)
+  RETURN cr, reviews, collect(DISTINCT comment) AS comments
+`;
+
+function mapChangeRequestRecord(record: { get: (key: string) => unknown } | undefined): ChangeRequestRecord | null {
+  return record
+    ? mapChangeRequest(record.get("cr") as Neo4jNode, record.get("reviews") as Neo4jNode[], record.get("comments") as Neo4jNode[])
+    : null;
+}
+
+async function readChangeRequest(
+  tx: ManagedTransaction,
+  tenantSlug: string,
+  projectSlug: string,
+  changeRequestId: string
+): Promise<ChangeRequestRecord | null> {
+  const result = await tx.run(
+    `
+      MATCH (cr:ChangeRequest {id: $changeRequestId, tenant: $tenantSlug, projectKey: $projectSlug})
+      ${CHANGE_REQUEST_RETURN}
+    `,
+    { tenantSlug, projectSlug, changeRequestId }
+  );
+  return mapChangeRequestRecord(result.records[0]);
+}
+
+/**
+ * Read a change request for a state change. Writing to the node first takes
+ * its lock, so concurrent reviews and withdrawals see each other's outcome.
+ */
+async function requirePendingChangeRequest(
+  tx: ManagedTransaction,
+  tenantSlug: string,
+  projectSlug: string,
+  changeRequestId: string
+): Promise<ChangeRequestRecord> {
+  const result = await tx.run(
+    `
+      MATCH (cr:ChangeRequest {id: $changeRequestId, tenant: $tenantSlug, projectKey: $projectSlug})
+      SET cr.updatedAt = cr.updatedAt
+      WITH cr
+      ${CHANGE_REQUEST_RETURN}
+    `,
+    { tenantSlug, projectSlug, changeRequestId }
+  );
+  const changeRequest = mapChangeRequestRecord(result.records[0]);
+  if (!changeRequest) {
+    throw new ChangeRequestError(404, "Change request not found");
+  }
+  if (changeRequest.status !== "pending") {
+    throw new ChangeRequestError(409, `Change request is already ${changeRequest.status}`);
+  }
+  return changeRequest;
+}
+
+/**
+ * Open a change request against a requirement.
+ *
+ * @throws ChangeRequestError 404 if the requirement does not exist
+ * @throws ChangeRequestError 400 if nothing would change
+ */
+export async function createChangeRequest(
+  tenant: string,
+  projectKey: string,
+  input: {
+    requirementId: string;
+    title: string;
+    description?: string;
+    changes: ProposedRequirementChanges;
+    proposedBy: string;
+  }
+): Promise<ChangeRequestRecord> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    const changeRequest = await session.executeWrite(async (tx: ManagedTransaction) => {
+      const requirementResult = await tx.run(
+        `
+          MATCH (requirement:Requirement {id: $requirementId, tenant: $tenantSlug, projectKey: $projectSlug})
+          WHERE requirement.deleted IS NULL OR requirement.deleted = false
+          RETURN requirement
+        `,
+        { tenantSlug, projectSlug, requirementId: input.requirementId }
+      );
+      if (requirementResult.records.length === 0) {
+        throw new ChangeRequestError(404, "Requirement not found");
+      }
+
+      const requirement = mapRequirement(requirementResult.records[0].get("requirement") as Neo4jNode);
+      const { changes, base } = pickChangedFields(requirement, input.changes);
+      if (Object.keys(changes).length === 0) {
+        throw new ChangeRequestError(400, "Change request does not change the requirement");
+      }
+
+      const document = await findRequirementDocument(tx, requirement.id);
+      const reviewers = [...new Set(document?.reviewers ?? [])].filter(reviewer => reviewer !== input.proposedBy);
+      const now = new Date().toISOString();
+
+      const result = await tx.run(
+        `
+          MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+          MATCH (requirement:Requirement {id: $requirementId})
+          CREATE (cr:ChangeRequest {
+            id: $id,
+            tenant: $tenantSlug,
+            projectKey: $projectSlug,
+            requirementId: $requirementId,
+            requirementRef: $requirementRef,
+            documentSlug: $documentSlug,
+            title: $title,
+            description: $description,
+            status: 'pending',
+            changes: $changes,
+            base: $base,
+            reviewers: $reviewers,
+            proposedBy: $proposedBy,
+            createdAt: $now,
+            updatedAt: $now
+          })
+          CREATE (project)-[:HAS_CHANGE_REQUEST]->(cr)
+          CREATE (cr)-[:PROPOSES_CHANGE_TO]->(requirement)
+          RETURN cr
+        `,
+        {
+          tenantSlug,
+          projectSlug,
+          id: randomUUID(),
+          requirementId: requirement.id,
+          requirementRef: requirement.ref,
+          documentSlug: document?.slug ?? null,
+          title: input.title,
+          description: input.description ?? null,
+          changes: JSON.stringify(changes),
+          base: JSON.stringify(base),
+          reviewers,
+          proposedBy: input.proposedBy,
+          now
+        }
+      );
+
+      return mapChangeRequest(result.records[0].get("cr") as Neo4jNode);
+    });
+
+    emitWebhookEvent({
+      type: "change-request.submitted",
+      tenant: tenantSlug,
+      project: projectSlug,
+      actor: input.proposedBy,
+      data: {
+        changeRequestId: changeRequest.id,
+        requirementId: changeRequest.requirementId,
+        requirementRef: changeRequest.requirementRef,
+        title: changeRequest.title,
+        reviewers: changeRequest.reviewers
+      }
+    });
+
+    return changeRequest;
+  } finally {
+    await session.close();
+  }
+}
+
+export async function listChangeRequests(
+  tenant: string,
+  projectKey: string,
+  filters: {
+    status?: ChangeRequestStatus;
+    requirementId?: string;
+    documentSlug?: string;
+    reviewer?: string;
+  } = {}
+): Promise<ChangeRequestRecord[]> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    const result = await session.executeRead(async (tx: ManagedTransaction) => tx.run(
+      `
+        MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_CHANGE_REQUEST]->(cr:ChangeRequest)
+        WHERE ($status IS NULL OR cr.status = $status)
+          AND ($requirementId IS NULL OR cr.requirementId = $requirementId)
+          AND ($documentSlug IS NULL OR cr.documentSlug = $documentSlug)
+          AND ($reviewer IS NULL OR $reviewer IN cr.reviewers)
+        ${CHANGE_REQUEST_RETURN}
+        ORDER BY cr.createdAt DESC
+      `,
+      {
+        tenantSlug,
+        projectSlug,
+        status: filters.status ?? null,
+        requirementId: filters.requirementId ?? null,
+        documentSlug: filters.documentSlug ?? null,
+        reviewer: filters.reviewer ?? null
+      }
+    ));
+
+    return result.records.map(record => mapChangeRequest(
+      record.get("cr") as Neo4jNode,
+      record.get("reviews") as Neo4jNode[],
+      record.get("comments") as Neo4jNode[]
+    ));
+  } finally {
+    await session.close();
+  }
+}
+
+export async function getChangeRequest(
+  tenant: string,
+  projectKey: string,
+  changeRequestId: string
+): Promise<ChangeRequestRecord | null> {
+  const session = getSession();
+  try {
+    return await session.executeRead(async (tx: ManagedTransaction) =>
+      readChangeRequest(tx, slugify(tenant), slugify(projectKey), changeRequestId)
+    );
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * @throws ChangeRequestError 404 if the change request does not exist
+ */
+export async function addChangeRequestComment(
+  tenant: string,
+  projectKey: string,
+  changeRequestId: string,
+  author: string,
+  text: string
+): Promise<ChangeRequestRecord> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    return await session.executeWrite(async (tx: ManagedTransaction) => {
+      const result = await tx.run(
+        `
+          MATCH (cr:ChangeRequest {id: $changeRequestId, tenant: $tenantSlug, projectKey: $projectSlug})
+          CREATE (cr)-[:HAS_COMMENT]->(:ChangeRequestComment {id: $id, author: $author, text: $text, createdAt: $now})
+          SET cr.updatedAt = $now
+          RETURN cr.id AS id
+        `,
+        { tenantSlug, projectSlug, changeRequestId, id: randomUUID(), author, text, now: new Date().toISOString() }
+      );
+      if (result.records.length === 0) {
+        throw new ChangeRequestError(404, "Change request not found");
+      }
+      return (await readChangeRequest(tx, tenantSlug, projectSlug, changeRequestId))!;
+    });
+  } finally {
+    await session.close();
+  }
+}
+
+function hasDrifted(current: RequirementRecord, base: ProposedRequirementChanges): boolean {
+  return Object.entries(base).some(([field, value]) =>
+    JSON.stringify(current[field as ChangeRequestField] ?? null) !== JSON.stringify(value ?? null)
+  );
+}
+
+/**
+ * Record a reviewer's decision. A rejection closes the request; the final
+ * required approval applies the proposed changes to the requirement and
+ * records the approval on the new requirement version.
+ *
+ * @throws ChangeRequestError 403 if the user may not review this request
+ * @throws ChangeRequestError 409 if the request is closed or the requirement changed since it was opened
+ */
+export async function reviewChangeRequest(
+  tenant: string,
+  projectKey: string,
+  changeRequestId: string,
+  input: {
+    reviewer: string;
+    decision: "approve" | "reject";
+    comment?: string;
+    /** Whether the reviewer holds the approver role in the project (used when no reviewers are named) */
+    isProjectApprover: boolean;
+  }
+): Promise<ChangeRequestRecord> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    const { changeRequest, approvedBy } = await executeWriteWithWebhookEvents(session, async (tx: ManagedTransaction) => {
+      const pending = await requirePendingChangeRequest(tx, tenantSlug, projectSlug, changeRequestId);
+
+      if (pending.proposedBy === input.reviewer) {
+        throw new ChangeRequestError(403, "You cannot review your own change request");
+      }
+      const allowed = pending.reviewers.length > 0
+        ? pending.reviewers.includes(input.reviewer)
+        : input.isProjectApprover;
+      if (!allowed) {
+        throw new ChangeRequestError(403, "You are not a reviewer of this change request");
+      }
+
+      const requirementResult = await tx.run(
+        `MATCH (requirement:Requirement {id: $requirementId}) RETURN requirement`,
+        { requirementId: pending.requirementId }
+      );
+      const current = requirementResult.records[0]
+        ? mapRequirement(requirementResult.records[0].get("requirement") as Neo4jNode)
+        : null;
+      if (input.decision === "approve" && (!current || hasDrifted(current, pending.base))) {
+        throw new ChangeRequestError(409, "The requirement has changed since this change request was opened");
+      }
+
+      const now = new Date().toISOString();
+      await tx.run(
+        `
+          MATCH (cr:ChangeRequest {id: $changeRequestId})
+          OPTIONAL MATCH (cr)-[:HAS_REVIEW]->(previous:ChangeRequestReview {reviewer: $reviewer})
+          DETACH DELETE previous
+          WITH DISTINCT cr
+          CREATE (cr)-[:HAS_REVIEW]->(:ChangeRequestReview {
+            id: $id, reviewer: $reviewer, decision: $decision, comment: $comment, createdAt: $now
+          })
+          SET cr.updatedAt = $now
+        `,
+        {
+          changeRequestId,
+          id: randomUUID(),
+          reviewer: input.reviewer,
+          decision: input.decision,
+          comment: input.comment ?? null,
+          now
+        }
+      );
+
+      const reviewed = (await readChangeRequest(tx, tenantSlug, projectSlug, changeRequestId))!;
+      if (input.decision === "reject") {
+        await tx.run(
+          `
+            MATCH (cr:ChangeRequest {id: $changeRequestId})
+            SET cr.status = 'rejected', cr.resolvedAt = $now, cr.resolvedBy = $reviewer
+          `,
+          { changeRequestId, reviewer: input.reviewer, now }
+        );
+        return { changeRequest: { ...reviewed, status: "rejected" as const, resolvedAt: now, resolvedBy: input.reviewer }, approvedBy: null };
+      }
+
+      if (pendingApprovals(reviewed).length > 0) {
+        return { changeRequest: reviewed, approvedBy: null };
+      }
+
+      return await applyChangeRequest(tx, reviewed, input.reviewer, now);
+    });
+
+    if (changeRequest.status === "rejected") {
+      emitWebhookEvent({
+        type: "change-request.rejected",
+        tenant: tenantSlug,
+        project: projectSlug,
+        actor: input.reviewer,
+        data: { changeRequestId, requirementId: changeRequest.requirementId, comment: input.comment ?? null }
+      });
+    } else if (changeRequest.status === "approved") {
+      await CacheInvalidation.invalidateRequirements(tenantSlug, projectSlug);
+      emitWebhookEvent({
+        type: "change-request.approved",
+        tenant: tenantSlug,
+        project: projectSlug,
+        actor: input.reviewer,
+        data: {
+          changeRequestId,
+          requirementId: changeRequest.requirementId,
+          approvedBy,
+          appliedVersion: changeRequest.appliedVersion
+        }
+      });
+    }
+
+    return changeRequest;
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Apply an approved change request to its requirement and close it, in the
+ * review's transaction so the change is applied exactly once.
+ */
+async function applyChangeRequest(
+  tx: ManagedTransaction,
+  changeRequest: ChangeRequestRecord,
+  approver: string,
+  approvedAt: string
+): Promise<{ changeRequest: ChangeRequestRecord; approvedBy: string[] }> {
+  const approvedBy = [
+    ...new Set(changeRequest.reviews.filter(review => review.decision === "approve").map(review => review.reviewer))
+  ];
+  const changes = changeRequest.changes as RequirementUpdates;
+
+  const updated = await applyRequirementUpdate(tx, changeRequest.tenant, changeRequest.projectKey, changeRequest.requirementId, {
+    ...changes,
+    ...(changes.attributes !== undefined && {
+      attributes: await enforceAttributeSchema(changeRequest.tenant, changeRequest.projectKey, changes.attributes)
+    }),
+    userId: changeRequest.proposedBy,
+    approval: {
+      changeRequestId: changeRequest.id,
+      approvedBy,
+      approvedAt,
+      changeDescription: `Change request approved: ${changeRequest.title}`
+    }
+  });
+  if (!updated) {
+    throw new ChangeRequestError(404, "Requirement not found");
+  }
+
+  const appliedVersion = updated.versionNumber ?? null;
+  const result = await tx.run(
+    `
+      MATCH (cr:ChangeRequest {id: $changeRequestId})
+      WHERE cr.status = 'pending'
+      SET cr.status = 'approved', cr.resolvedAt = $approvedAt, cr.resolvedBy = $approver,
+          cr.appliedVersion = $appliedVersion, cr.updatedAt = $approvedAt
+      RETURN cr.id AS id
+    `,
+    { changeRequestId: changeRequest.id, approvedAt, approver, appliedVersion }
+  );
+  if (result.records.length === 0) {
+    throw new ChangeRequestError(409, "Change request is no longer pending");
+  }
+
+  return {
+    changeRequest: {
+      ...changeRequest,
+      status: "approved",
+      resolvedAt: approvedAt,
+      resolvedBy: approver,
+      appliedVersion
+    },
+    approvedBy
+  };
+}
+
+/**
+ * Withdraw a pending change request. Only the proposer may withdraw it.
+ */
+export async function withdrawChangeRequest(
+  tenant: string,
+  projectKey: string,
+  changeRequestId: string,
+  userId: string
+): Promise<ChangeRequestRecord> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    return await session.executeWrite(async (tx: ManagedTransaction) => {
+      const pending = await requirePendingChangeRequest(tx, tenantSlug, projectSlug, changeRequestId);
+      if (pending.proposedBy !== userId) {
+        throw new ChangeRequestError(403, "Only the author can withdraw a change request");
+      }
+
+      const now = new Date().toISOString();
+      await tx.run(
+        `
+          MATCH (cr:ChangeRequest {id: $changeRequestId})
+          SET cr.status = 'withdrawn', cr.resolvedAt = $now, cr.resolvedBy = $userId, cr.updatedAt = $now
+        `,
+        { changeRequestId, userId, now }
+      );
+      return { ...pending, status: "withdrawn" as const, resolvedAt: now, resolvedBy: userId, updatedAt: now };
+    });
+  } finally {
+    await session.close();
+  }
+}
@@ -0,0 +1,487 @@
+import { randomUUID } from "node:crypto";
+import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
+import { slugify } from "../workspace.js";
+import { getSession } from "./driver.js";
+import { toNumber } from "../../lib/neo4j-utils.js";
+
+/**
+ * Threaded comments on requirements, document sections and trace links.
+ *
+ * A thread is a root comment plus a flat list of replies. Resolution is
+ * tracked on the root. Deleted comments keep their place in the thread with
+ * the body removed so replies stay readable.
+ */
+
+export const COMMENT_TARGET_TYPES = ["requirement", "section", "trace-link"] as const;
+
+export type CommentTargetType = typeof COMMENT_TARGET_TYPES[number];
+
+export type CommentRecord = {
+  id: string;
+  tenant: string;
+  projectKey: string;
+  targetType: CommentTargetType;
+  targetId: string;
+  /** Document containing the target, used to export a document's comments */
+  documentSlug: string | null;
+  /** Root comment of the thread (equal to id for roots) */
+  threadId: string;
+  parentId: string | null;
+  authorId: string;
+  body: string;
+  /** User ids mentioned in the body */
+  mentions: string[];
+  createdAt: string;
+  updatedAt: string;
+  editedAt: string | null;
+  deletedAt: string | null;
+};
+
+export type CommentThread = CommentRecord & {
+  resolved: boolean;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  replies: CommentRecord[];
+};
+
+/** Comment totals per target id; open counts unresolved threads */
+export type CommentCounts = Record<string, { total: number; open: number }>;
+
+/** Error with an HTTP status for the global error handler */
+export class CommentError extends Error {
+  constructor(public readonly statusCode: 400 | 403 | 404, message: string) {
+    super(message);
+    this.name = "CommentError";
+  }
+}
+
+// Matches the commented entity within the project and the document it belongs to
+const TARGET_MATCH: Record<CommentTargetType, string> = {
+  requirement: `
+    MATCH (target:Requirement {id: $targetId, tenant: $tenantSlug, projectKey: $projectSlug})
+    OPTIONAL MATCH (sectionDoc:Document)-[:HAS_SECTION]->(:DocumentSection)-[:CONTAINS]->(target)
+    OPTIONAL MATCH (directDoc:Document)-[:CONTAINS]->(target)
+    WITH target, coalesce(sectionDoc, directDoc) AS document
+  `,
+  section: `
+    MATCH (target:DocumentSection {id: $targetId, tenant: $tenantSlug, projectKey: $projectSlug})
+    OPTIONAL MATCH (document:Document)-[:HAS_SECTION]->(target)
+    WITH target, document
+  `,
+  "trace-link": `
+    MATCH (target:TraceLink {id: $targetId, tenant: $tenantSlug, projectKey: $projectSlug})
+    OPTIONAL MATCH (target)-[:FROM_REQUIREMENT]->(:Requirement)<-[:CONTAINS]-(:DocumentSection)<-[:HAS_SECTION]-(document:Document)
+    WITH target, document
+  `
+};
+
+function optionalString(value: unknown): string | null {
+  return value === undefined || value === null ? null : String(value);
+}
+
+function mapComment(node: Neo4jNode): CommentRecord {
+  const props = node.properties as Record<string, unknown>;
+  const id = String(props.id);
+  return {
+    id,
+    tenant: String(props.tenant),
+    projectKey: String(props.projectKey),
+    targetType: String(props.targetType) as CommentTargetType,
+    targetId: String(props.targetId),
+    documentSlug: optionalString(props.documentSlug),
+    threadId: props.parentId ? String(props.parentId) : id,
+    parentId: optionalString(props.parentId),
+    authorId: String(props.authorId),
+    body: props.deletedAt ? "" : String(props.body ?? ""),
+    mentions: Array.isArray(props.mentions) ? (props.mentions as unknown[]).map(String) : [],
+    createdAt: String(props.createdAt),
+    updatedAt: String(props.updatedAt),
+    editedAt: optionalString(props.editedAt),
+    deletedAt: optionalString(props.deletedAt)
+  };
+}
+
+function mapThread(root: Neo4jNode, replies: Neo4jNode[]): CommentThread {
+  const props = root.properties as Record<string, unknown>;
+  return {
+    ...mapComment(root),
+    resolved: Boolean(props.resolved),
+    resolvedBy: optionalString(props.resolvedBy),
+    resolvedAt: optionalString(props.resolvedAt),
+    replies: replies.map(mapComment).sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  };
+}
+
+async function readThread(
+  tx: ManagedTransaction,
+  tenantSlug: string,
+  projectSlug: string,
+  threadId: string
+): Promise<CommentThread | null> {
+  const result = await tx.run(
+    `
+      MATCH (root:Comment {id: $threadId, tenant: $tenantSlug, projectKey: $projectSlug})
+      WHERE root.parentId IS NULL
+      OPTIONAL MATCH (reply:Comment)-[:REPLY_TO]->(root)
+      RETURN root, collect(reply) AS replies
+    `,
+    { tenantSlug, projectSlug, threadId }
+  );
+  const record = result.records[0];
+  return record ? mapThread(record.get("root") as Neo4jNode, record.get("replies") as Neo4jNode[]) : null;
+}
+
+/**
+ * Start a thread on a target, or reply to an existing thread.
+ * Replies to a reply are attached to the same thread.
+ *
+ * @throws CommentError 404 if the target or parent comment does not exist
+ */
+export async function createComment(
+  tenant: string,
+  projectKey: string,
+  input: {
+    targetType: CommentTargetType;
+    targetId: string;
+    parentId?: string;
+    authorId: string;
+    body: string;
+    mentions?: string[];
+  }
+): Promise<CommentRecord> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    return await session.executeWrite(async (tx: ManagedTransaction) => {
+      let rootId: string | null = null;
+      if (input.parentId) {
+        const parentResult = await tx.run(
+          `
+            MATCH (parent:Comment {id: $parentId, tenant: $tenantSlug, projectKey: $projectSlug})
+            RETURN coalesce(parent.parentId, parent.id) AS rootId, parent.targetType AS targetType, parent.targetId AS targetId
+          `,
+          { tenantSlug, projectSlug, parentId: input.parentId }
+        );
+        const parent = parentResult.records[0];
+        if (!parent || parent.get("targetType") !== input.targetType || parent.get("targetId") !== input.targetId) {
+          throw new CommentError(404, "Parent comment not found");
+        }
+        rootId = String(parent.get("rootId"));
+      }
+
+      const now = new Date().toISOString();
+      const result = await tx.run(
+        `
+          ${TARGET_MATCH[input.targetType]}
+          MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+          CREATE (comment:Comment {
+            id: $id,
+            tenant: $tenantSlug,
+            projectKey: $projectSlug,
+            targetType: $targetType,
+            targetId: $targetId,
+            documentSlug: document.slug,
+            parentId: $rootId,
+            authorId: $authorId,
+            body: $body,
+            mentions: $mentions,
+            resolved: false,
+            createdAt: $now,
+            updatedAt: $now
+          })
+          CREATE (project)-[:HAS_COMMENT]->(comment)
+          CREATE (comment)-[:COMMENTS_ON]->(target)
+          WITH comment
+          OPTIONAL MATCH (root:Comment {id: $rootId})
+          FOREACH (_ IN CASE WHEN root IS NULL THEN [] ELSE [1] END |
+            CREATE (comment)-[:REPLY_TO]->(root)
+            SET root.updatedAt = $now
+          )
+          RETURN comment
+        `,
+        {
+          tenantSlug,
+          projectSlug,
+          id: randomUUID(),
+          targetType: input.targetType,
+          targetId: input.targetId,
+          rootId,
+          authorId: input.authorId,
+          body: input.body,
+          mentions: [...new Set(input.mentions ?? [])],
+          now
+        }
+      );
+
+      if (result.records.length === 0) {
+        throw new CommentError(404, "Comment target not found");
+      }
+      return mapComment(result.records[0].get("comment") as Neo4jNode);
+    });
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * List threads in a project, filtered by target or by document.
+ */
+export async function listCommentThreads(
+  tenant: string,
+  projectKey: string,
+  filters: {
+    targetType?: CommentTargetType;
+    targetId?: string;
+    documentSlug?: string;
+    includeResolved?: boolean;
+  } = {}
+): Promise<CommentThread[]> {
+  const session = getSession();
+
+  try {
+    const result = await session.executeRead(async (tx: ManagedTransaction) => tx.run(
+      `
+        MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_COMMENT]->(root:Comment)
+        WHERE root.parentId IS NULL
+          AND ($targetType IS NULL OR root.targetType = $targetType)
+          AND ($targetId IS NULL OR root.targetId = $targetId)
+          AND ($documentSlug IS NULL OR root.documentSlug = $documentSlug)
+          AND ($includeResolved OR NOT coalesce(root.resolved, false))
+        OPTIONAL MATCH (reply:Comment)-[:REPLY_TO]->(root)
+        WITH root, collect(reply) AS replies
+        WHERE root.deletedAt IS NULL OR any(reply IN replies WHERE reply.deletedAt IS NULL)
+        RETURN root, replies
+        ORDER BY root.createdAt ASC
+      `,
+      {
+        tenantSlug: slugify(tenant),
+        projectSlug: slugify(projectKey),
+        targetType: filters.targetType ?? null,
+        targetId: filters.targetId ?? null,
+        documentSlug: filters.documentSlug ?? null,
+        includeResolved: filters.includeResolved ?? true
+      }
+    ));
+
+    return result.records.map(record =>
+      mapThread(record.get("root") as Neo4jNode, record.get("replies") as Neo4jNode[])
+    );
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Comment totals and open thread counts per target, for table badges.
+ */
+export async function getCommentCounts(
+  tenant: string,
+  projectKey: string,
+  filters: { targetType: CommentTargetType; documentSlug?: string }
+): Promise<CommentCounts> {
+  const session = getSession();
+
+  try {
+    const result = await session.executeRead(async (tx: ManagedTransaction) => tx.run(
+      `
+        MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_COMMENT]->(comment:Comment)
+        WHERE comment.targetType = $targetType
+          AND comment.deletedAt IS NULL
+          AND ($documentSlug IS NULL OR comment.documentSlug = $documentSlug)
+        RETURN comment.targetId AS targetId,
+               count(comment) AS total,
+               count(CASE WHEN comment.parentId IS NULL AND NOT coalesce(comment.resolved, false) THEN 1 END) AS open
+      `,
+      {
+        tenantSlug: slugify(tenant),
+        projectSlug: slugify(projectKey),
+        targetType: filters.targetType,
+        documentSlug: filters.documentSlug ?? null
+      }
+    ));
+
+    const counts: CommentCounts = {};
+    for (const record of result.records) {
+      counts[String(record.get("targetId"))] = {
+        total: toNumber(record.get("total")),
+        open: toNumber(record.get("open"))
+      };
+    }
+    return counts;
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Edit the body of your own comment.
+ *
+ * @returns The updated comment and the mentions it had before the edit
+ * @throws CommentError 404 if the comment does not exist, 403 if it is not yours
+ */
+export async function updateComment(
+  tenant: string,
+  projectKey: string,
+  commentId: string,
+  input: { authorId: string; body: string; mentions?: string[] }
+): Promise<{ comment: CommentRecord; previousMentions: string[] }> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    return await session.executeWrite(async (tx: ManagedTransaction) => {
+      const existingResult = await tx.run(
+        `
+          MATCH (comment:Comment {id: $commentId, tenant: $tenantSlug, projectKey: $projectSlug})
+          WHERE comment.deletedAt IS NULL
+          RETURN comment
+        `,
+        { tenantSlug, projectSlug, commentId }
+      );
+      const existing = existingResult.records[0];
+      if (!existing) {
+        throw new CommentError(404, "Comment not found");
+      }
+      const previous = mapComment(existing.get("comment") as Neo4jNode);
+      if (previous.authorId !== input.authorId) {
+        throw new CommentError(403, "Only the author can edit a comment");
+      }
+
+      const now = new Date().toISOString();
+      const result = await tx.run(
+        `
+          MATCH (comment:Comment {id: $commentId})
+          SET comment.body = $body,
+              comment.mentions = $mentions,
+              comment.editedAt = $now,
+              comment.updatedAt = $now
+          RETURN comment
+        `,
+        { commentId, body: input.body, mentions: [...new Set(input.mentions ?? [])], now }
+      );
+
+      return {
+        comment: mapComment(result.records[0].get("comment") as Neo4jNode),
+        previousMentions: previous.mentions
+      };
+    });
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Soft-delete a comment. Authors can delete their own comments; moderators
+ * (project admins) can delete any.
+ *
+ * @throws CommentError 404 if the comment does not exist, 403 if not allowed
+ */
+export async function deleteComment(
+  tenant: string,
+  projectKey: string,
+  commentId: string,
+  actor: { userId: string; canModerate: boolean }
+): Promise<void> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    await session.executeWrite(async (tx: ManagedTransaction) => {
+      const existingResult = await tx.run(
+        `
+          MATCH (comment:Comment {id: $commentId, tenant: $tenantSlug, projectKey: $projectSlug})
+          WHERE comment.deletedAt IS NULL
+          RETURN comment.authorId AS authorId
+        `,
+        { tenantSlug, projectSlug, commentId }
+      );
+      const existing = existingResult.records[0];
+      if (!existing) {
+        throw new CommentError(404, "Comment not found");
+      }
+      if (existing.get("authorId") !== actor.userId && !actor.canModerate) {
+        throw new CommentError(403, "Only the author or a project admin can delete a comment");
+      }
+
+      const now = new Date().toISOString();
+      await tx.run(
+        `
+          MATCH (comment:Comment {id: $commentId})
+          SET comment.body = '',
+              comment.mentions = [],
+              comment.deletedAt = $now,
+              comment.deletedBy = $userId,
+              comment.updatedAt = $now
+        `,
+        { commentId, userId: actor.userId, now }
+      );
+    });
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Resolve or reopen the thread a comment belongs to. Allowed for the
+ * thread's author, the reviewers of its document and project moderators.
+ *
+ * @throws CommentError 404 if the comment does not exist
+ * @throws CommentError 403 if the user may not resolve the thread
+ */
+export async function setCommentThreadResolved(
+  tenant: string,
+  projectKey: string,
+  commentId: string,
+  input: { resolved: boolean; userId: string; canModerate: boolean }
+): Promise<CommentThread> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    return await session.executeWrite(async (tx: ManagedTransaction) => {
+      const threadResult = await tx.run(
+        `
+          MATCH (comment:Comment {id: $commentId, tenant: $tenantSlug, projectKey: $projectSlug})
+          MATCH (root:Comment {id: coalesce(comment.parentId, comment.id)})
+          OPTIONAL MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_DOCUMENT]->(document:Document {slug: root.documentSlug})
+          RETURN root.authorId AS authorId, coalesce(document.reviewers, []) AS reviewers
+        `,
+        { tenantSlug, projectSlug, commentId }
+      );
+      const thread = threadResult.records[0];
+      if (!thread) {
+        throw new CommentError(404, "Comment not found");
+      }
+      const allowed = input.canModerate ||
+        thread.get("authorId") === input.userId ||
+        (thread.get("reviewers") as string[]).includes(input.userId);
+      if (!allowed) {
+        throw new CommentError(403, "Only the thread's author, a document reviewer or a project approver can resolve it");
+      }
+
+      const result = await tx.run(
+        `
+          MATCH (comment:Comment {id: $commentId, tenant: $tenantSlug, projectKey: $projectSlug})
+          MATCH (root:Comment {id: coalesce(comment.parentId, comment.id)})
+          SET root.resolved = $resolved,
+              root.resolvedBy = CASE WHEN $resolved THEN $userId ELSE null END,
+              root.resolvedAt = CASE WHEN $resolved THEN $now ELSE null END,
+              root.updatedAt = $now
+          RETURN root.id AS threadId
+        `,
+        { tenantSlug, projectSlug, commentId, resolved: input.resolved, userId: input.userId, now: new Date().toISOString() }
+      );
+      if (result.records.length === 0) {
+        throw new CommentError(404, "Comment not found");
+      }
+      return (await readThread(tx, tenantSlug, projectSlug, String(result.records[0].get("threadId"))))!;
+    });
+  } finally {
+    await session.close();
+  }
+}
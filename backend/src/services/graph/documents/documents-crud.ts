@@ -5,6 +5,9 @@ import { getSession } from "../driver.js";
 import { updateRequirementRefsForDocument } from "../requirements/index.js";
 import { getCached, CacheKeys, CacheInvalidation } from "../../../lib/cache.js";
 import { createDocumentVersion, generateDocumentContentHash } from "./documents-versions.js";
+import type { DocumentReviewStatus } from "./documents-lock.js";
+import { parseRefScheme } from "./documents-numbering.js";
+import type { RefScheme } from "../../../lib/ref-templates.js";
 
 export type DocumentKind = "structured" | "surrogate";
 
@@ -28,6 +31,13 @@ export type DocumentRecord = {
   storagePath?: string | null;
   previewPath?: string | null;
   previewMimeType?: string | null;
+  reviewStatus?: DocumentReviewStatus;
+  /** User ids that review change requests for requirements in this document */
+  reviewers?: string[];
+  approvedAt?: string | null;
+  approvedBy?: string | null;
+  /** Numbering scheme for new requirement refs; null uses the default `DOC-SECTION-001` refs */
+  refScheme?: RefScheme | null;
 };
 
 export type FolderRecord = {
@@ -68,7 +78,12 @@ export function mapDocument(node: Neo4jNode, requirementCount?: number): Documen
         : null,
     storagePath: props.storagePath ? String(props.storagePath) : null,
     previewPath: props.previewPath ? String(props.previewPath) : null,
-    previewMimeType: props.previewMimeType ? String(props.previewMimeType) : null
+    previewMimeType: props.previewMimeType ? String(props.previewMimeType) : null,
+    reviewStatus: (props.reviewStatus ? String(props.reviewStatus) : "draft") as DocumentReviewStatus,
+    reviewers: Array.isArray(props.reviewers) ? (props.reviewers as unknown[]).map(String) : [],
+    approvedAt: props.approvedAt ? String(props.approvedAt) : null,
+    approvedBy: props.approvedBy ? String(props.approvedBy) : null,
+    refScheme: parseRefScheme(props.refScheme)
   };
 }
 
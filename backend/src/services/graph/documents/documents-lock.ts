@@ -0,0 +1,117 @@
+import type { ManagedTransaction } from "neo4j-driver";
+
+/**
+ * Document review status and locking.
+ *
+ * A document moves draft → in-review → approved. Once approved it is locked:
+ * requirements inside it can only change through an approved change request.
+ */
+
+export const DOCUMENT_REVIEW_STATUSES = ["draft", "in-review", "approved"] as const;
+
+export type DocumentReviewStatus = typeof DOCUMENT_REVIEW_STATUSES[number];
+
+/** Thrown when a direct edit targets a locked document (mapped to 409 by the error handler) */
+export class DocumentLockedError extends Error {
+  readonly statusCode = 409;
+
+  constructor(public readonly documentSlug: string) {
+    super(`Document '${documentSlug}' is approved and locked; submit a change request instead`);
+    this.name = "DocumentLockedError";
+  }
+}
+
+/**
+ * Find the document containing a requirement, either directly or via a section.
+ */
+export async function findRequirementDocument(
+  tx: ManagedTransaction,
+  requirementId: string
+): Promise<{ slug: string; reviewStatus: DocumentReviewStatus; reviewers: string[] } | null> {
+  const result = await tx.run(
+    `
+      MATCH (requirement:Requirement {id: $requirementId})
+      OPTIONAL MATCH (sectionDoc:Document)-[:HAS_SECTION]->(:DocumentSection)-[:CONTAINS]->(requirement)
+      OPTIONAL MATCH (directDoc:Document)-[:CONTAINS]->(requirement)
+      WITH coalesce(sectionDoc, directDoc) AS document
+      WHERE document IS NOT NULL
+      RETURN document.slug AS slug, document.reviewStatus AS reviewStatus, document.reviewers AS reviewers
+      LIMIT 1
+    `,
+    { requirementId }
+  );
+
+  const record = result.records[0];
+  if (!record) {
+    return null;
+  }
+
+  return {
+    slug: String(record.get("slug")),
+    reviewStatus: (record.get("reviewStatus") ?? "draft") as DocumentReviewStatus,
+    reviewers: (record.get("reviewers") as string[] | null) ?? []
+  };
+}
+
+/**
+ * @throws DocumentLockedError if any of the requirements is in an approved document
+ */
+export async function assertRequirementsUnlocked(
+  tx: ManagedTransaction,
+  requirementIds: string[]
+): Promise<void> {
+  if (requirementIds.length === 0) {
+    return;
+  }
+
+  const result = await tx.run(
+    `
+      MATCH (requirement:Requirement)
+      WHERE requirement.id IN $requirementIds
+      OPTIONAL MATCH (sectionDoc:Document)-[:HAS_SECTION]->(:DocumentSection)-[:CONTAINS]->(requirement)
+      OPTIONAL MATCH (directDoc:Document)-[:CONTAINS]->(requirement)
+      WITH coalesce(sectionDoc, directDoc) AS document
+      WHERE document.reviewStatus = 'approved'
+      RETURN document.slug AS slug
+      LIMIT 1
+    `,
+    { requirementIds }
+  );
+
+  if (result.records.length > 0) {
+    throw new DocumentLockedError(String(result.records[0].get("slug")));
+  }
+}
+
+/**
+ * @throws DocumentLockedError if the target document (by slug or section) is approved
+ */
+export async function assertDocumentUnlocked(
+  tx: ManagedTransaction,
+  target: { tenantSlug: string; projectSlug: string; documentSlug?: string | null; sectionId?: string | null }
+): Promise<void> {
+  if (!target.documentSlug && !target.sectionId) {
+    return;
+  }
+
+  const result = await tx.run(
+    `
+      OPTIONAL MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_DOCUMENT]->(bySlug:Document {slug: $documentSlug})
+      OPTIONAL MATCH (bySection:Document)-[:HAS_SECTION]->(:DocumentSection {id: $sectionId})
+      WITH [document IN [bySlug, bySection] WHERE document IS NOT NULL AND document.reviewStatus = 'approved'] AS locked
+      UNWIND locked AS document
+      RETURN document.slug AS slug
+      LIMIT 1
+    `,
+    {
+      tenantSlug: target.tenantSlug,
+      projectSlug: target.projectSlug,
+      documentSlug: target.documentSlug ?? null,
+      sectionId: target.sectionId ?? null
+    }
+  );
+
+  if (result.records.length > 0) {
+    throw new DocumentLockedError(String(result.records[0].get("slug")));
+  }
+}
@@ -0,0 +1,253 @@
+import type { ManagedTransaction } from "neo4j-driver";
+import { slugify } from "../../workspace.js";
+import { getSession } from "../driver.js";
+import { CacheInvalidation } from "../../../lib/cache.js";
+import { assertDocumentUnlocked } from "./documents-lock.js";
+import {
+  documentRefCode,
+  planRenumber,
+  sectionRefCode,
+  validateRefScheme,
+  type RefScheme,
+  type RenumberItem,
+  type RenumberPlan
+} from "../../../lib/ref-templates.js";
+
+/**
+ * Per-document requirement numbering.
+ *
+ * A document may carry a ref scheme (stored as JSON on the Document node).
+ * New requirements in the document get refs from it, and renumbering
+ * rewrites every ref in document order. Requirement IDs never change, so
+ * trace links are unaffected; replaced refs are kept in the requirement's
+ * `refAliases` so lookups by an old ref still find it.
+ */
+
+export type DocumentRenumberResult = RenumberPlan & {
+  documentSlug: string;
+  scheme: RefScheme;
+  dryRun: boolean;
+};
+
+export class RefSchemeError extends Error {
+  readonly statusCode = 400;
+
+  constructor(message: string, public readonly details: string[] = []) {
+    super(details.length > 0 ? `${message}: ${details.join("; ")}` : message);
+    this.name = "RefSchemeError";
+  }
+}
+
+export function parseRefScheme(value: unknown): RefScheme | null {
+  return typeof value === "string" && value.length > 0 ? JSON.parse(value) as RefScheme : null;
+}
+
+/**
+ * Set or clear a document's ref scheme. Existing refs are left alone until
+ * the document is renumbered.
+ *
+ * @throws RefSchemeError if the scheme is invalid
+ * @throws Error if the document does not exist
+ */
+export async function saveDocumentRefScheme(params: {
+  tenant: string;
+  projectKey: string;
+  documentSlug: string;
+  scheme: RefScheme | null;
+  userId: string;
+}): Promise<RefScheme | null> {
+  if (params.scheme) {
+    const errors = validateRefScheme(params.scheme);
+    if (errors.length > 0) {
+      throw new RefSchemeError("Invalid ref scheme", errors);
+    }
+  }
+
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+  const session = getSession();
+
+  try {
+    const result = await session.executeWrite(async (tx: ManagedTransaction) => tx.run(
+      `
+        MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_DOCUMENT]->(document:Document {slug: $documentSlug})
+        WHERE document.deletedAt IS NULL
+        SET document.refScheme = $scheme,
+            document.updatedAt = $now,
+            document.updatedBy = $userId
+        RETURN document.refScheme AS scheme
+      `,
+      {
+        tenantSlug,
+        projectSlug,
+        documentSlug: params.documentSlug,
+        scheme: params.scheme ? JSON.stringify(params.scheme) : null,
+        now: new Date().toISOString(),
+        userId: params.userId
+      }
+    ));
+
+    if (result.records.length === 0) {
+      throw new Error("Document not found");
+    }
+  } finally {
+    await session.close();
+  }
+
+  await CacheInvalidation.invalidateDocuments(tenantSlug, projectSlug);
+  return params.scheme;
+}
+
+async function loadRenumberInput(
+  tx: ManagedTransaction,
+  tenantSlug: string,
+  projectSlug: string,
+  documentSlug: string
+): Promise<{ savedScheme: RefScheme | null; documentCode: string; items: RenumberItem[]; takenRefs: Set<string> }> {
+  const documentResult = await tx.run(
+    `
+      MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_DOCUMENT]->(document:Document {slug: $documentSlug})
+      WHERE document.deletedAt IS NULL
+      RETURN document.slug AS slug, document.shortCode AS shortCode, document.refScheme AS refScheme
+    `,
+    { tenantSlug, projectSlug, documentSlug }
+  );
+  if (documentResult.records.length === 0) {
+    throw new Error("Document not found");
+  }
+  const document = documentResult.records[0];
+
+  // Unsectioned requirements first, then sections in order; deleted
+  // requirements last so they do not hold on to numbers live ones need
+  const itemResult = await tx.run(
+    `
+      MATCH (project:Project {slug: $projectSlug, tenantSlug: $tenantSlug})-[:HAS_DOCUMENT]->(document:Document {slug: $documentSlug})-[:CONTAINS]->(requirement:Requirement)
+      OPTIONAL MATCH (document)-[:HAS_SECTION]->(section:DocumentSection)-[rel:CONTAINS]->(requirement)
+      RETURN requirement.id AS id, requirement.ref AS ref,
+             section.id AS sectionId, section.shortCode AS sectionShortCode, section.name AS sectionName
+      ORDER BY coalesce(requirement.deleted, false),
+               CASE WHEN section IS NULL THEN -1 ELSE section.order END,
+               coalesce(rel.order, requirement.order, 2147483647),
+               requirement.createdAt
+    `,
+    { tenantSlug, projectSlug, documentSlug }
+  );
+
+  const ids = itemResult.records.map(record => String(record.get("id")));
+  const takenResult = await tx.run(
+    `
+      MATCH (requirement:Requirement {tenant: $tenantSlug, projectKey: $projectSlug})
+      WHERE NOT requirement.id IN $ids
+      RETURN collect(requirement.ref) AS refs
+    `,
+    { tenantSlug, projectSlug, ids }
+  );
+
+  const seen = new Set<string>();
+  const items: RenumberItem[] = [];
+  for (const record of itemResult.records) {
+    const id = String(record.get("id"));
+    if (seen.has(id)) {
+      continue;
+    }
+    seen.add(id);
+    const sectionId = record.get("sectionId") ? String(record.get("sectionId")) : null;
+    items.push({
+      requirementId: id,
+      ref: String(record.get("ref")),
+      sectionId,
+      sectionCode: sectionId
+        ? sectionRefCode({ shortCode: record.get("sectionShortCode"), name: String(record.get("sectionName") ?? "") })
+        : null
+    });
+  }
+
+  return {
+    savedScheme: parseRefScheme(document.get("refScheme")),
+    documentCode: documentRefCode({ shortCode: document.get("shortCode"), slug: String(document.get("slug")) }),
+    items,
+    takenRefs: new Set((takenResult.records[0].get("refs") as unknown[]).map(String))
+  };
+}
+
+/**
+ * Renumber every requirement in a document with its scheme (or the given
+ * one, which is saved when the renumber is applied). With `dryRun` only the
+ * plan is returned.
+ *
+ * @throws RefSchemeError if the scheme is missing or invalid, or the plan has conflicts
+ * @throws DocumentLockedError if the document is approved
+ * @throws Error if the document does not exist
+ */
+export async function renumberDocument(params: {
+  tenant: string;
+  projectKey: string;
+  documentSlug: string;
+  scheme?: RefScheme;
+  dryRun: boolean;
+  userId: string;
+}): Promise<DocumentRenumberResult> {
+  if (params.scheme) {
+    const errors = validateRefScheme(params.scheme);
+    if (errors.length > 0) {
+      throw new RefSchemeError("Invalid ref scheme", errors);
+    }
+  }
+
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+  const session = getSession();
+
+  try {
+    const result = await session.executeWrite(async (tx: ManagedTransaction) => {
+      const input = await loadRenumberInput(tx, tenantSlug, projectSlug, params.documentSlug);
+      const scheme = params.scheme ?? input.savedScheme;
+      if (!scheme) {
+        throw new RefSchemeError("Document has no ref scheme; provide one to renumber");
+      }
+
+      const plan = planRenumber(scheme, input.documentCode, input.items, input.takenRefs);
+      const outcome: DocumentRenumberResult = { ...plan, documentSlug: params.documentSlug, scheme, dryRun: params.dryRun };
+      if (params.dryRun) {
+        return outcome;
+      }
+      if (plan.conflicts.length > 0) {
+        throw new RefSchemeError("Renumbering would create duplicate refs", plan.conflicts);
+      }
+
+      await assertDocumentUnlocked(tx, { tenantSlug, projectSlug, documentSlug: params.documentSlug });
+
+      const now = new Date().toISOString();
+      await tx.run(
+        `
+          UNWIND $changes AS change
+          MATCH (requirement:Requirement {id: change.requirementId})
+          WITH requirement, change, coalesce(requirement.refAliases, []) + change.oldRef AS aliases
+          SET requirement.ref = change.newRef,
+              requirement.refAliases = reduce(kept = [], alias IN aliases |
+                CASE WHEN alias = change.newRef OR alias IN kept THEN kept ELSE kept + alias END),
+              requirement.updatedAt = $now,
+              requirement.updatedBy = $userId
+        `,
+        { changes: plan.changes, now, userId: params.userId }
+      );
+      await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_DOCUMENT]->(document:Document {slug: $documentSlug})
+          SET document.refScheme = $scheme, document.updatedAt = $now
+        `,
+        { tenantSlug, projectSlug, documentSlug: params.documentSlug, scheme: JSON.stringify(scheme), now }
+      );
+
+      return outcome;
+    });
+
+    if (!params.dryRun) {
+      await CacheInvalidation.invalidateRequirements(tenantSlug, projectSlug);
+      await CacheInvalidation.invalidateDocuments(tenantSlug, projectSlug);
+    }
+    return result;
+  } finally {
+    await session.close();
+  }
+}
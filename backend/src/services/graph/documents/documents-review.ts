@@ -0,0 +1,69 @@
+import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
+import { slugify } from "../../workspace.js";
+import { getSession } from "../driver.js";
+import { CacheInvalidation } from "../../../lib/cache.js";
+import { mapDocument, type DocumentRecord } from "./documents-crud.js";
+import type { DocumentReviewStatus } from "./documents-lock.js";
+
+/**
+ * Update a document's review status and reviewer list.
+ *
+ * Moving to "approved" records who approved it and locks the document;
+ * moving back to draft or in-review unlocks it.
+ *
+ * @returns Updated document or null if not found
+ */
+export async function updateDocumentReview(
+  tenant: string,
+  projectKey: string,
+  documentSlug: string,
+  updates: {
+    reviewStatus?: DocumentReviewStatus;
+    reviewers?: string[];
+  },
+  userId: string
+): Promise<DocumentRecord | null> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    const node = await session.executeWrite(async (tx: ManagedTransaction) => {
+      const result = await tx.run(
+        `
+          MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(:Project {slug: $projectSlug})-[:HAS_DOCUMENT]->(document:Document {slug: $documentSlug})
+          WHERE document.deletedAt IS NULL
+          SET document.reviewStatus = coalesce($reviewStatus, document.reviewStatus, 'draft'),
+              document.reviewers = coalesce($reviewers, document.reviewers, []),
+              document.updatedAt = $now
+          FOREACH (_ IN CASE WHEN $reviewStatus = 'approved' THEN [1] ELSE [] END |
+            SET document.approvedAt = $now, document.approvedBy = $userId
+          )
+          FOREACH (_ IN CASE WHEN $reviewStatus IS NOT NULL AND $reviewStatus <> 'approved' THEN [1] ELSE [] END |
+            SET document.approvedAt = null, document.approvedBy = null
+          )
+          RETURN document
+        `,
+        {
+          tenantSlug,
+          projectSlug,
+          documentSlug,
+          reviewStatus: updates.reviewStatus ?? null,
+          reviewers: updates.reviewers ? [...new Set(updates.reviewers)] : null,
+          userId,
+          now: new Date().toISOString()
+        }
+      );
+      return result.records[0]?.get("document") as Neo4jNode | undefined;
+    });
+
+    if (!node) {
+      return null;
+    }
+
+    await CacheInvalidation.invalidateDocuments(tenantSlug, projectSlug);
+    return mapDocument(node);
+  } finally {
+    await session.close();
+  }
+}
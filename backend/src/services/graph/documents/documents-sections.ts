@@ -20,6 +20,7 @@ export type DocumentSectionRecord = {
   tenant: string;
   projectKey: string;
   order: number;
+  presenceCondition?: string | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -35,6 +36,7 @@ export function mapDocumentSection(node: Neo4jNode): DocumentSectionRecord {
     tenant: String(props.tenant),
     projectKey: String(props.projectKey),
     order: Number(props.order),
+    presenceCondition: props.presenceCondition ? String(props.presenceCondition) : null,
     createdAt: String(props.createdAt),
     updatedAt: String(props.updatedAt)
   };
@@ -10,7 +10,7 @@ export type DocumentVersionRecord = {
   versionNumber: number;
   timestamp: string;
   changedBy: string;
-  changeType: "created" | "updated" | "deleted";
+  changeType: "created" | "updated" | "restored" | "deleted";
   changeDescription?: string;
   // Snapshot of document state
   slug: string;
@@ -56,7 +56,7 @@ export async function createDocumentVersion(
     tenantSlug: string;
     projectSlug: string;
     changedBy: string;
-    changeType: "created" | "updated" | "deleted";
+    changeType: "created" | "updated" | "restored" | "deleted";
     changeDescription?: string;
     // Current document state
     slug: string;
@@ -34,3 +34,23 @@ export {
   updateFolder,
   softDeleteFolder
 } from "./documents-folders.js";
+
+// Review status and locking
+export {
+  DOCUMENT_REVIEW_STATUSES,
+  DocumentLockedError,
+  assertDocumentUnlocked,
+  assertRequirementsUnlocked,
+  findRequirementDocument,
+  type DocumentReviewStatus
+} from "./documents-lock.js";
+export { updateDocumentReview } from "./documents-review.js";
+
+// Requirement numbering schemes
+export {
+  RefSchemeError,
+  parseRefScheme,
+  saveDocumentRefScheme,
+  renumberDocument,
+  type DocumentRenumberResult
+} from "./documents-numbering.js";
@@ -9,7 +9,7 @@ export type DocumentSectionVersionRecord = {
   versionNumber: number;
   timestamp: string;
   changedBy: string;
-  changeType: "created" | "updated" | "deleted";
+  changeType: "created" | "updated" | "restored" | "deleted";
   changeDescription?: string;
   // Snapshot of section state
   name: string;
@@ -47,7 +47,7 @@ export async function createDocumentSectionVersion(
     tenantSlug: string;
     projectSlug: string;
     changedBy: string;
-    changeType: "created" | "updated" | "deleted";
+    changeType: "created" | "updated" | "restored" | "deleted";
     changeDescription?: string;
     // Current section state
     name: string;
@@ -0,0 +1,441 @@
+import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
+import { slugify } from "../workspace.js";
+import { getSession } from "./driver.js";
+import { toNumber } from "../../lib/neo4j-utils.js";
+import { CacheInvalidation } from "../../lib/cache.js";
+import { mapRequirement } from "./requirements/requirements-mapper.js";
+import { createRequirementVersion } from "./requirements/requirements-versions.js";
+import { assertDocumentUnlocked, assertRequirementsUnlocked } from "./documents/documents-lock.js";
+import { executeWriteWithWebhookEvents } from "../webhooks.js";
+import {
+  conditionFeatures,
+  isPresent,
+  parseCondition,
+  validateCondition,
+  validateConfiguration,
+  validateFeatureModel,
+  type FeatureConstraint,
+  type FeatureDefinition
+} from "../../lib/feature-model.js";
+
+/**
+ * Per-project feature model for product-line variability.
+ *
+ * A project has at most one FeatureModel node holding its feature tree,
+ * cross-tree constraints and named configurations as JSON. Requirements,
+ * document sections, architecture blocks and connectors carry an optional
+ * `presenceCondition` over the model's feature IDs; resolving a variant
+ * evaluates those conditions against a configuration and returns what the
+ * variant leaves out.
+ */
+
+export type VariantConfiguration = {
+  name: string;
+  description?: string;
+  /** Selected feature IDs; the root feature is implied */
+  features: string[];
+};
+
+export type FeatureModelRecord = {
+  tenant: string;
+  projectKey: string;
+  version: number;
+  features: FeatureDefinition[];
+  constraints: FeatureConstraint[];
+  configurations: VariantConfiguration[];
+  updatedAt: string;
+  updatedBy: string | null;
+};
+
+export const PRESENCE_CONDITION_TARGETS = ["requirement", "section", "block", "connector"] as const;
+export type PresenceConditionTarget = typeof PRESENCE_CONDITION_TARGETS[number];
+
+export type PresenceConditionRecord = {
+  entityType: PresenceConditionTarget;
+  entityId: string;
+  /** Requirement ref, section/block name or connector label */
+  label: string;
+  condition: string;
+};
+
+export type VariantExclusions = {
+  requirements: string[];
+  sections: string[];
+  blocks: string[];
+  connectors: string[];
+};
+
+export type VariantResolution = {
+  configuration: string | null;
+  /** Selected feature IDs including the root */
+  features: string[];
+  excluded: VariantExclusions;
+};
+
+export class FeatureModelError extends Error {
+  readonly statusCode = 400;
+
+  constructor(message: string, public readonly details: string[] = []) {
+    super(details.length > 0 ? `${message}: ${details.join("; ")}` : message);
+    this.name = "FeatureModelError";
+  }
+}
+
+/** How each conditioned entity hangs off its project, and what to call it */
+const TARGET_PATTERNS: Record<PresenceConditionTarget, { match: string; label: string }> = {
+  requirement: {
+    match: "(project)-[:CONTAINS]->(entity:Requirement)",
+    label: "entity.ref"
+  },
+  section: {
+    match: "(project)-[:HAS_DOCUMENT]->(:Document)-[:HAS_SECTION]->(entity:DocumentSection)",
+    label: "entity.name"
+  },
+  block: {
+    match: "(project)-[:HAS_ARCHITECTURE_BLOCK]->(entity:ArchitectureBlock)",
+    label: "entity.name"
+  },
+  connector: {
+    match: "(project)-[:HAS_ARCHITECTURE_DIAGRAM]->(:ArchitectureDiagram)-[:HAS_CONNECTOR]->(entity:ArchitectureConnector)",
+    label: "coalesce(entity.label, entity.id)"
+  }
+};
+
+const EXCLUSION_KEYS: Record<PresenceConditionTarget, keyof VariantExclusions> = {
+  requirement: "requirements",
+  section: "sections",
+  block: "blocks",
+  connector: "connectors"
+};
+
+function mapFeatureModel(node: Neo4jNode): FeatureModelRecord {
+  const props = node.properties as Record<string, unknown>;
+  const definition = JSON.parse(String(props.definition)) as Pick<FeatureModelRecord, "features" | "constraints" | "configurations">;
+  return {
+    tenant: String(props.tenant),
+    projectKey: String(props.projectKey),
+    version: toNumber(props.version),
+    features: definition.features ?? [],
+    constraints: definition.constraints ?? [],
+    configurations: definition.configurations ?? [],
+    updatedAt: String(props.updatedAt),
+    updatedBy: props.updatedBy ? String(props.updatedBy) : null
+  };
+}
+
+export async function getFeatureModel(
+  tenant: string,
+  projectKey: string
+): Promise<FeatureModelRecord | null> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    const result = await session.executeRead(async (tx: ManagedTransaction) => tx.run(
+      `
+        MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_FEATURE_MODEL]->(model:FeatureModel)
+        RETURN model
+        LIMIT 1
+      `,
+      { tenantSlug, projectSlug }
+    ));
+
+    if (result.records.length === 0) {
+      return null;
+    }
+    return mapFeatureModel(result.records[0].get("model") as Neo4jNode);
+  } finally {
+    await session.close();
+  }
+}
+
+/** Every presence condition set in the project */
+export async function listPresenceConditions(
+  tenant: string,
+  projectKey: string
+): Promise<PresenceConditionRecord[]> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    return await session.executeRead(async (tx: ManagedTransaction) => {
+      const conditions: PresenceConditionRecord[] = [];
+      for (const entityType of PRESENCE_CONDITION_TARGETS) {
+        const pattern = TARGET_PATTERNS[entityType];
+        const result = await tx.run(
+          `
+            MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+            MATCH ${pattern.match}
+            WHERE entity.presenceCondition IS NOT NULL
+            RETURN DISTINCT entity.id AS entityId, ${pattern.label} AS label, entity.presenceCondition AS condition
+            ORDER BY label
+          `,
+          { tenantSlug, projectSlug }
+        );
+        for (const record of result.records) {
+          conditions.push({
+            entityType,
+            entityId: String(record.get("entityId")),
+            label: String(record.get("label") ?? ""),
+            condition: String(record.get("condition"))
+          });
+        }
+      }
+      return conditions;
+    });
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Replace the project's feature model and named configurations.
+ *
+ * @throws FeatureModelError if the model or a configuration is invalid, or
+ * if a removed feature is still used by a presence condition
+ * @throws Error if the project does not exist
+ */
+export async function saveFeatureModel(params: {
+  tenant: string;
+  projectKey: string;
+  features: FeatureDefinition[];
+  constraints: FeatureConstraint[];
+  configurations: VariantConfiguration[];
+  userId: string;
+}): Promise<FeatureModelRecord> {
+  const model = { features: params.features, constraints: params.constraints };
+  const errors = validateFeatureModel(model);
+  if (errors.length > 0) {
+    throw new FeatureModelError("Invalid feature model", errors);
+  }
+
+  const names = new Set<string>();
+  for (const configuration of params.configurations) {
+    if (names.has(configuration.name)) {
+      errors.push(`Duplicate configuration "${configuration.name}"`);
+    }
+    names.add(configuration.name);
+    errors.push(...validateConfiguration(model, configuration.features).map(error => `Configuration "${configuration.name}": ${error}`));
+  }
+
+  const known = new Set(params.features.map(feature => feature.id));
+  for (const presence of await listPresenceConditions(params.tenant, params.projectKey)) {
+    let used: string[];
+    try {
+      used = conditionFeatures(parseCondition(presence.condition));
+    } catch {
+      continue;
+    }
+    for (const id of used.filter(featureId => !known.has(featureId))) {
+      errors.push(`Feature "${id}" is used by the presence condition of ${presence.entityType} ${presence.label}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new FeatureModelError("Invalid feature model", errors);
+  }
+
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+  const now = new Date().toISOString();
+  const definition = JSON.stringify({
+    features: params.features,
+    constraints: params.constraints,
+    configurations: params.configurations
+  });
+  const session = getSession();
+
+  try {
+    const node = await session.executeWrite(async (tx: ManagedTransaction) => {
+      const result = await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+          MERGE (project)-[:HAS_FEATURE_MODEL]->(model:FeatureModel)
+            ON CREATE SET model.tenant = $tenantSlug,
+                          model.projectKey = $projectSlug,
+                          model.version = 0
+          SET model.definition = $definition,
+              model.version = model.version + 1,
+              model.updatedAt = $now,
+              model.updatedBy = $userId
+          RETURN model
+        `,
+        { tenantSlug, projectSlug, definition, now, userId: params.userId }
+      );
+
+      if (result.records.length === 0) {
+        throw new Error("Project not found");
+      }
+      return result.records[0].get("model") as Neo4jNode;
+    });
+
+    return mapFeatureModel(node);
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Set or clear (condition null or blank) the presence condition of an entity.
+ * Requirements and sections in approved documents are locked, and a changed
+ * condition on a requirement is recorded as a new requirement version.
+ *
+ * @throws FeatureModelError if the condition does not parse or names features
+ * outside the project's feature model
+ * @throws DocumentLockedError if the requirement or section is in an approved document
+ * @throws Error if the entity does not exist in the project
+ */
+export async function setPresenceCondition(params: {
+  tenant: string;
+  projectKey: string;
+  entityType: PresenceConditionTarget;
+  entityId: string;
+  condition: string | null;
+  userId: string;
+}): Promise<PresenceConditionRecord | null> {
+  const condition = params.condition?.trim() || null;
+  if (condition) {
+    const model = await getFeatureModel(params.tenant, params.projectKey);
+    if (!model) {
+      throw new FeatureModelError("Define a feature model before adding presence conditions");
+    }
+    const errors = validateCondition(condition, model);
+    if (errors.length > 0) {
+      throw new FeatureModelError("Invalid presence condition", errors);
+    }
+  }
+
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+  const pattern = TARGET_PATTERNS[params.entityType];
+  const session = getSession();
+
+  try {
+    const label = await executeWriteWithWebhookEvents(session, async (tx: ManagedTransaction) => {
+      if (params.entityType === "requirement") {
+        await assertRequirementsUnlocked(tx, [params.entityId]);
+      } else if (params.entityType === "section") {
+        await assertDocumentUnlocked(tx, { tenantSlug, projectSlug, sectionId: params.entityId });
+      }
+
+      const result = await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+          MATCH ${pattern.match}
+          WHERE entity.id = $entityId
+          WITH DISTINCT entity, entity.presenceCondition AS previous
+          SET entity.presenceCondition = $condition
+          RETURN ${pattern.label} AS label, previous, entity
+        `,
+        { tenantSlug, projectSlug, entityId: params.entityId, condition }
+      );
+
+      if (result.records.length === 0) {
+        throw new Error(`${params.entityType} not found: ${params.entityId}`);
+      }
+      const record = result.records[0];
+
+      const previous = (record.get("previous") as string | null) ?? null;
+      if (params.entityType === "requirement" && previous !== condition) {
+        const current = mapRequirement(record.get("entity") as Neo4jNode);
+        await createRequirementVersion(tx, {
+          requirementId: current.id,
+          tenantSlug,
+          projectSlug,
+          changedBy: params.userId,
+          changeType: "updated",
+          changeDescription: condition ? `Presence condition set to: ${condition}` : "Presence condition cleared",
+          text: current.text,
+          pattern: current.pattern ?? null,
+          verification: current.verification ?? null,
+          rationale: current.rationale ?? null,
+          complianceStatus: current.complianceStatus ?? null,
+          complianceRationale: current.complianceRationale ?? null,
+          qaScore: current.qaScore ?? null,
+          qaVerdict: current.qaVerdict ?? null,
+          suggestions: current.suggestions ?? null,
+          tags: current.tags ?? null,
+          attributes: current.attributes ?? null,
+          contentHash: current.contentHash || ""
+        });
+      }
+
+      return String(record.get("label") ?? "");
+    });
+
+    if (params.entityType === "requirement") {
+      await CacheInvalidation.invalidateRequirements(tenantSlug, projectSlug);
+    } else if (params.entityType === "section") {
+      await CacheInvalidation.invalidateDocuments(tenantSlug, projectSlug);
+    } else {
+      await CacheInvalidation.invalidateArchitecture(tenantSlug, projectSlug);
+    }
+
+    return condition
+      ? { entityType: params.entityType, entityId: params.entityId, label, condition }
+      : null;
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Work out which conditioned entities a variant leaves out. The variant is
+ * either a saved configuration (by name) or an ad-hoc feature selection.
+ *
+ * @throws FeatureModelError if the selection violates the feature model
+ * @throws Error if the project has no feature model or the configuration is unknown
+ */
+export async function resolveVariant(params: {
+  tenant: string;
+  projectKey: string;
+  configuration?: string;
+  features?: string[];
+}): Promise<VariantResolution> {
+  const model = await getFeatureModel(params.tenant, params.projectKey);
+  if (!model) {
+    throw new Error("Feature model not found");
+  }
+
+  let selection = params.features ?? [];
+  if (params.configuration) {
+    const saved = model.configurations.find(configuration => configuration.name === params.configuration);
+    if (!saved) {
+      throw new Error(`Configuration not found: ${params.configuration}`);
+    }
+    selection = saved.features;
+  }
+
+  const errors = validateConfiguration(model, selection);
+  if (errors.length > 0) {
+    throw new FeatureModelError("Invalid configuration", errors);
+  }
+
+  const selected = new Set(selection);
+  const root = model.features.find(feature => feature.parentId === null);
+  if (root) {
+    selected.add(root.id);
+  }
+
+  const excluded: VariantExclusions = { requirements: [], sections: [], blocks: [], connectors: [] };
+  for (const presence of await listPresenceConditions(params.tenant, params.projectKey)) {
+    let present: boolean;
+    try {
+      present = isPresent(presence.condition, selected);
+    } catch {
+      // Conditions are validated when set; a malformed legacy value keeps the entity visible
+      present = true;
+    }
+    if (!present) {
+      excluded[EXCLUSION_KEYS[presence.entityType]].push(presence.entityId);
+    }
+  }
+
+  return {
+    configuration: params.configuration ?? null,
+    features: [...selected].sort(),
+    excluded
+  };
+}
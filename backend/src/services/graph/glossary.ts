@@ -0,0 +1,281 @@
+import { randomUUID } from "node:crypto";
+import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
+import { slugify } from "../workspace.js";
+import { getSession } from "./driver.js";
+import { toStringList } from "../../lib/neo4j-utils.js";
+import {
+  glossaryConflicts,
+  summarizeGlossaryUsage,
+  type GlossaryTermInput,
+  type GlossaryTermUsage
+} from "../../lib/glossary.js";
+
+/**
+ * Per-project glossary (controlled vocabulary).
+ *
+ * Each term is a GlossaryTerm node under the project with its definition,
+ * optional abbreviation, accepted synonyms and deprecated forms. The QA
+ * scorer passes the glossary to the GlossaryTerms rule, and the document
+ * view and exports use it to highlight and define terms.
+ */
+
+export type GlossaryTermRecord = GlossaryTermInput & {
+  id: string;
+  tenant: string;
+  projectKey: string;
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string | null;
+};
+
+export class GlossaryError extends Error {
+  readonly statusCode = 400;
+
+  constructor(message: string, public readonly details: string[] = []) {
+    super(details.length > 0 ? `${message}: ${details.join("; ")}` : message);
+    this.name = "GlossaryError";
+  }
+}
+
+function mapGlossaryTerm(node: Neo4jNode): GlossaryTermRecord {
+  const props = node.properties as Record<string, unknown>;
+  return {
+    id: String(props.id),
+    tenant: String(props.tenant),
+    projectKey: String(props.projectKey),
+    term: String(props.term),
+    definition: String(props.definition ?? ""),
+    abbreviation: props.abbreviation ? String(props.abbreviation) : null,
+    synonyms: toStringList(props.synonyms),
+    deprecated: toStringList(props.deprecated),
+    createdAt: String(props.createdAt),
+    updatedAt: String(props.updatedAt),
+    updatedBy: props.updatedBy ? String(props.updatedBy) : null
+  };
+}
+
+function normalizeInput(input: GlossaryTermInput): GlossaryTermInput {
+  const list = (values: string[]) => [...new Set(values.map(value => value.trim()).filter(Boolean))];
+  return {
+    term: input.term.trim(),
+    definition: input.definition.trim(),
+    abbreviation: input.abbreviation?.trim() || null,
+    synonyms: list(input.synonyms),
+    deprecated: list(input.deprecated)
+  };
+}
+
+/**
+ * Load the project's other terms and reject the input if it reuses one of
+ * their forms.
+ */
+async function assertNoConflicts(
+  tx: ManagedTransaction,
+  tenantSlug: string,
+  projectSlug: string,
+  input: GlossaryTermInput,
+  excludeId: string | null
+): Promise<void> {
+  const result = await tx.run(
+    `
+      MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+      OPTIONAL MATCH (project)-[:HAS_GLOSSARY_TERM]->(term:GlossaryTerm)
+      WHERE $excludeId IS NULL OR term.id <> $excludeId
+      RETURN project.slug AS project, collect(term) AS terms
+    `,
+    { tenantSlug, projectSlug, excludeId }
+  );
+
+  if (result.records.length === 0) {
+    throw new Error("Project not found");
+  }
+  const others = (result.records[0].get("terms") as Neo4jNode[]).map(mapGlossaryTerm);
+  const errors = glossaryConflicts(input, others);
+  if (errors.length > 0) {
+    throw new GlossaryError("Glossary term conflicts with existing terms", errors);
+  }
+}
+
+export async function listGlossaryTerms(tenant: string, projectKey: string): Promise<GlossaryTermRecord[]> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    const result = await session.executeRead(async (tx: ManagedTransaction) => tx.run(
+      `
+        MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_GLOSSARY_TERM]->(term:GlossaryTerm)
+        RETURN term
+        ORDER BY toLower(term.term)
+      `,
+      { tenantSlug, projectSlug }
+    ));
+
+    return result.records.map(record => mapGlossaryTerm(record.get("term") as Neo4jNode));
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * @throws GlossaryError if a form of the term is already used by another term
+ * @throws Error if the project does not exist
+ */
+export async function createGlossaryTerm(params: {
+  tenant: string;
+  projectKey: string;
+  input: GlossaryTermInput;
+  userId: string;
+}): Promise<GlossaryTermRecord> {
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+  const input = normalizeInput(params.input);
+  const session = getSession();
+
+  try {
+    const node = await session.executeWrite(async (tx: ManagedTransaction) => {
+      await assertNoConflicts(tx, tenantSlug, projectSlug, input, null);
+
+      const now = new Date().toISOString();
+      const result = await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+          CREATE (project)-[:HAS_GLOSSARY_TERM]->(term:GlossaryTerm {
+            id: $id,
+            tenant: $tenantSlug,
+            projectKey: $projectSlug,
+            term: $term,
+            definition: $definition,
+            abbreviation: $abbreviation,
+            synonyms: $synonyms,
+            deprecated: $deprecated,
+            createdAt: $now,
+            createdBy: $userId,
+            updatedAt: $now,
+            updatedBy: $userId
+          })
+          RETURN term
+        `,
+        { tenantSlug, projectSlug, id: randomUUID(), ...input, now, userId: params.userId }
+      );
+      return result.records[0].get("term") as Neo4jNode;
+    });
+
+    return mapGlossaryTerm(node);
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Replace a term's fields.
+ *
+ * @throws GlossaryError if a form of the term is already used by another term
+ * @throws Error if the term does not exist
+ */
+export async function updateGlossaryTerm(params: {
+  tenant: string;
+  projectKey: string;
+  termId: string;
+  input: GlossaryTermInput;
+  userId: string;
+}): Promise<GlossaryTermRecord> {
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+  const input = normalizeInput(params.input);
+  const session = getSession();
+
+  try {
+    const node = await session.executeWrite(async (tx: ManagedTransaction) => {
+      await assertNoConflicts(tx, tenantSlug, projectSlug, input, params.termId);
+
+      const result = await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_GLOSSARY_TERM]->(term:GlossaryTerm {id: $termId})
+          SET term.term = $term,
+              term.definition = $definition,
+              term.abbreviation = $abbreviation,
+              term.synonyms = $synonyms,
+              term.deprecated = $deprecated,
+              term.updatedAt = $now,
+              term.updatedBy = $userId
+          RETURN term
+        `,
+        { tenantSlug, projectSlug, termId: params.termId, ...input, now: new Date().toISOString(), userId: params.userId }
+      );
+
+      if (result.records.length === 0) {
+        throw new Error("Glossary term not found");
+      }
+      return result.records[0].get("term") as Neo4jNode;
+    });
+
+    return mapGlossaryTerm(node);
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * @throws Error if the term does not exist
+ */
+export async function deleteGlossaryTerm(tenant: string, projectKey: string, termId: string): Promise<void> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    await session.executeWrite(async (tx: ManagedTransaction) => {
+      const result = await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_GLOSSARY_TERM]->(term:GlossaryTerm {id: $termId})
+          WITH term, term.id AS id
+          DETACH DELETE term
+          RETURN id
+        `,
+        { tenantSlug, projectSlug, termId }
+      );
+
+      if (result.records.length === 0) {
+        throw new Error("Glossary term not found");
+      }
+    });
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Per-term usage across the project's live requirements, including which
+ * requirements still use deprecated forms.
+ */
+export async function getGlossaryUsage(tenant: string, projectKey: string): Promise<GlossaryTermUsage[]> {
+  const terms = await listGlossaryTerms(tenant, projectKey);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    const result = await session.executeRead(async (tx: ManagedTransaction) => tx.run(
+      `
+        MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:CONTAINS]->(req:Requirement)
+        WHERE NOT coalesce(req.deleted, false) AND NOT coalesce(req.archived, false)
+        RETURN req.ref AS ref, req.text AS text
+        ORDER BY ref
+      `,
+      { tenantSlug, projectSlug }
+    ));
+
+    const requirements = result.records.map(record => ({
+      ref: String(record.get("ref")),
+      text: String(record.get("text") ?? "")
+    }));
+    return summarizeGlossaryUsage(terms, requirements);
+  } finally {
+    await session.close();
+  }
+}
@@ -0,0 +1,441 @@
+import type { ManagedTransaction } from "neo4j-driver";
+import { slugify } from "../workspace.js";
+import { getSession } from "./driver.js";
+import { listTraceLinks } from "./trace.js";
+
+// ── Types ──────────────────────────────────────────────────────
+
+export type ImpactNodeKind =
+  | "requirement"
+  | "block"
+  | "connector"
+  | "verificationActivity"
+  | "verificationEvidence"
+  | "verificationDocument";
+
+/** Entities an impact analysis can start from */
+export type ImpactRootKind = "requirement" | "block" | "connector" | "verificationDocument";
+
+export type ImpactDirection = "upstream" | "downstream" | "both";
+
+export type ImpactRelation =
+  | "trace"
+  | "allocated"
+  | "connects"
+  | "verifies"
+  | "evidences"
+  | "documents";
+
+export type ImpactNode = {
+  /** Unique within an analysis: `${kind}:${id}` */
+  key: string;
+  kind: ImpactNodeKind;
+  id: string;
+  label: string;
+  detail: string | null;
+  /** Owning document for requirements */
+  documentSlug?: string | null;
+};
+
+/**
+ * A relationship between two nodes, always stored in the downstream sense:
+ * a change to `from` may invalidate `to`.
+ */
+export type ImpactEdge = {
+  from: string;
+  to: string;
+  relation: ImpactRelation;
+  /** Human-readable verb, e.g. "satisfies", "allocated to", "verified by" */
+  label: string;
+  suspect?: boolean;
+};
+
+export type ImpactEntry = {
+  key: string;
+  depth: number;
+  /** Edges walked from the root to reach this node */
+  path: ImpactEdge[];
+  explanation: string;
+};
+
+export type ImpactAnalysis = {
+  tenant: string;
+  projectKey: string;
+  root: ImpactNode;
+  direction: ImpactDirection;
+  maxDepth: number;
+  generatedAt: string;
+  /** Root plus every impacted node */
+  nodes: ImpactNode[];
+  /** Relationships between the returned nodes */
+  edges: ImpactEdge[];
+  upstream: ImpactEntry[];
+  downstream: ImpactEntry[];
+  /** True when the depth limit stopped the walk before it ran out of relationships */
+  truncated: boolean;
+};
+
+export type ImpactGraph = {
+  nodes: Map<string, ImpactNode>;
+  edges: ImpactEdge[];
+};
+
+export const DEFAULT_IMPACT_DEPTH = 3;
+export const MAX_IMPACT_DEPTH = 10;
+
+/** Error with an HTTP status for the global error handler */
+export class ImpactAnalysisError extends Error {
+  constructor(public readonly statusCode: 400 | 404, message: string) {
+    super(message);
+    this.name = "ImpactAnalysisError";
+  }
+}
+
+export function impactNodeKey(kind: ImpactNodeKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+// ── Graph loading ──────────────────────────────────────────────
+
+const TRACE_LINK_LABELS: Record<string, string> = {
+  satisfies: "satisfies",
+  derives: "derives",
+  verifies: "verifies",
+  implements: "implements",
+  refines: "refines",
+  conflicts: "conflicts with"
+};
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/**
+ * Load every relationship impact analysis can walk for a project:
+ * trace links, requirement allocation to blocks and connectors (through
+ * linked documents), connector endpoints, and the verification chain
+ * requirement → activity → evidence → verification document.
+ */
+export async function loadImpactGraph(tenant: string, projectKey: string): Promise<ImpactGraph> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const nodes = new Map<string, ImpactNode>();
+  const edges: ImpactEdge[] = [];
+
+  const addNode = (node: Omit<ImpactNode, "key">) => {
+    const key = impactNodeKey(node.kind, node.id);
+    nodes.set(key, { key, ...node });
+    return key;
+  };
+
+  const traceLinks = await listTraceLinks({ tenant, projectKey });
+
+  const session = getSession();
+  try {
+    await session.executeRead(async (tx: ManagedTransaction) => {
+      const params = { tenantSlug, projectSlug };
+
+      const requirementResult = await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_DOCUMENT]->(document:Document)
+          WHERE document.deletedAt IS NULL
+          MATCH (document)-[:HAS_SECTION*0..1]->()-[:CONTAINS]->(requirement:Requirement)
+          WHERE (requirement.deleted IS NULL OR requirement.deleted = false)
+            AND (requirement.archived IS NULL OR requirement.archived = false)
+          RETURN DISTINCT requirement.id AS id, requirement.ref AS ref, requirement.text AS text,
+                 document.id AS documentId, document.slug AS documentSlug, document.name AS documentName
+        `,
+        params
+      );
+
+      const requirementsByDocument = new Map<string, string[]>();
+      const documentNames = new Map<string, string>();
+      for (const record of requirementResult.records) {
+        const key = addNode({
+          kind: "requirement",
+          id: String(record.get("id")),
+          label: String(record.get("ref")),
+          detail: truncate(String(record.get("text") ?? ""), 160),
+          documentSlug: String(record.get("documentSlug"))
+        });
+        const documentId = String(record.get("documentId"));
+        documentNames.set(documentId, String(record.get("documentName") ?? record.get("documentSlug")));
+        requirementsByDocument.set(documentId, [...(requirementsByDocument.get(documentId) ?? []), key]);
+      }
+
+      for (const link of traceLinks) {
+        const from = impactNodeKey("requirement", link.sourceRequirementId);
+        const to = impactNodeKey("requirement", link.targetRequirementId);
+        if (nodes.has(from) && nodes.has(to)) {
+          edges.push({
+            from,
+            to,
+            relation: "trace",
+            label: TRACE_LINK_LABELS[link.linkType] ?? link.linkType,
+            suspect: link.suspect || undefined
+          });
+        }
+      }
+
+      // Requirements in a document linked to a block or connector are allocated to it
+      const allocate = (elementKey: string, documentIds: string[]) => {
+        for (const documentId of documentIds) {
+          for (const requirementKey of requirementsByDocument.get(documentId) ?? []) {
+            edges.push({
+              from: requirementKey,
+              to: elementKey,
+              relation: "allocated",
+              label: `allocated to (via ${documentNames.get(documentId)})`
+            });
+          }
+        }
+      };
+
+      const blockResult = await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_ARCHITECTURE_BLOCK]->(block:ArchitectureBlock)
+          OPTIONAL MATCH (block)-[:LINKED_DOCUMENT]->(document:Document)
+          RETURN block.id AS id, block.name AS name, block.kind AS kind, collect(DISTINCT document.id) AS documentIds
+        `,
+        params
+      );
+      for (const record of blockResult.records) {
+        const key = addNode({
+          kind: "block",
+          id: String(record.get("id")),
+          label: String(record.get("name")),
+          detail: record.get("kind") ? String(record.get("kind")) : null
+        });
+        allocate(key, (record.get("documentIds") as unknown[]).map(String));
+      }
+
+      const connectorResult = await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_ARCHITECTURE_DIAGRAM]->(:ArchitectureDiagram)-[:HAS_CONNECTOR]->(connector:ArchitectureConnector)
+          OPTIONAL MATCH (connector)-[:FROM_BLOCK]->(source:ArchitectureBlock)
+          OPTIONAL MATCH (connector)-[:TO_BLOCK]->(target:ArchitectureBlock)
+          RETURN DISTINCT connector.id AS id, connector.label AS label, connector.kind AS kind,
+                 connector.documentIds AS documentIds, source.id AS sourceId, source.name AS sourceName,
+                 target.id AS targetId, target.name AS targetName
+        `,
+        params
+      );
+      for (const record of connectorResult.records) {
+        const sourceName = record.get("sourceName") ? String(record.get("sourceName")) : "?";
+        const targetName = record.get("targetName") ? String(record.get("targetName")) : "?";
+        const key = addNode({
+          kind: "connector",
+          id: String(record.get("id")),
+          label: record.get("label") ? String(record.get("label")) : `${sourceName} → ${targetName}`,
+          detail: record.get("kind") ? String(record.get("kind")) : null
+        });
+        // Interfaces propagate along the connector: source block → connector → target block
+        if (record.get("sourceId")) {
+          edges.push({ from: impactNodeKey("block", String(record.get("sourceId"))), to: key, relation: "connects", label: "connected through" });
+        }
+        if (record.get("targetId")) {
+          edges.push({ from: key, to: impactNodeKey("block", String(record.get("targetId"))), relation: "connects", label: "connects to" });
+        }
+        const documentIds = record.get("documentIds");
+        allocate(key, Array.isArray(documentIds) ? documentIds.map(String) : []);
+      }
+
+      const activityResult = await tx.run(
+        `
+          MATCH (activity:VerificationActivity {tenant: $tenantSlug, projectKey: $projectSlug})-[:VERIFIES]->(requirement:Requirement)
+          RETURN activity.activityId AS id, activity.title AS title, activity.method AS method,
+                 activity.status AS status, requirement.id AS requirementId
+        `,
+        params
+      );
+      for (const record of activityResult.records) {
+        const key = addNode({
+          kind: "verificationActivity",
+          id: String(record.get("id")),
+          label: String(record.get("title")),
+          detail: `${record.get("method")} · ${record.get("status")}`
+        });
+        edges.push({
+          from: impactNodeKey("requirement", String(record.get("requirementId"))),
+          to: key,
+          relation: "verifies",
+          label: "verified by"
+        });
+      }
+
+      const documentResult = await tx.run(
+        `
+          MATCH (vdoc:VerificationDocument {tenant: $tenantSlug, projectKey: $projectSlug})
+          RETURN vdoc.vdocId AS id, vdoc.name AS name, vdoc.kind AS kind, vdoc.status AS status,
+                 vdoc.currentRevision AS currentRevision
+        `,
+        params
+      );
+      for (const record of documentResult.records) {
+        addNode({
+          kind: "verificationDocument",
+          id: String(record.get("id")),
+          label: String(record.get("name")),
+          detail: `${record.get("kind")} · ${record.get("status")} · rev ${record.get("currentRevision")}`
+        });
+      }
+
+      const evidenceResult = await tx.run(
+        `
+          MATCH (evidence:VerificationEvidence {tenant: $tenantSlug, projectKey: $projectSlug})-[:SUPPORTS]->(activity:VerificationActivity)
+          OPTIONAL MATCH (evidence)-[:HAS_REFERENCE]->(:StableReference)-[:REFERENCES]->(revision:DocumentRevision)<-[:HAS_REVISION]-(vdoc:VerificationDocument)
+          RETURN evidence.evidenceId AS id, evidence.title AS title, evidence.verdict AS verdict,
+                 activity.activityId AS activityId,
+                 collect(DISTINCT {vdocId: vdoc.vdocId, revisionNumber: revision.revisionNumber}) AS documents
+        `,
+        params
+      );
+      for (const record of evidenceResult.records) {
+        const key = addNode({
+          kind: "verificationEvidence",
+          id: String(record.get("id")),
+          label: String(record.get("title")),
+          detail: `verdict: ${record.get("verdict")}`
+        });
+        edges.push({
+          from: impactNodeKey("verificationActivity", String(record.get("activityId"))),
+          to: key,
+          relation: "evidences",
+          label: "evidenced by"
+        });
+        for (const document of record.get("documents") as Array<{ vdocId: unknown; revisionNumber: unknown }>) {
+          if (document.vdocId) {
+            edges.push({
+              from: key,
+              to: impactNodeKey("verificationDocument", String(document.vdocId)),
+              relation: "documents",
+              label: `recorded in (rev ${document.revisionNumber})`
+            });
+          }
+        }
+      }
+    });
+  } finally {
+    await session.close();
+  }
+
+  // Drop relationships whose other end is outside the project (e.g. deleted requirements)
+  return { nodes, edges: edges.filter(edge => nodes.has(edge.from) && nodes.has(edge.to)) };
+}
+
+// ── Traversal ──────────────────────────────────────────────────
+
+function explain(graph: ImpactGraph, rootKey: string, path: ImpactEdge[], direction: "upstream" | "downstream"): string {
+  const name = (key: string) => graph.nodes.get(key)?.label ?? key;
+  let text = name(rootKey);
+  for (const edge of path) {
+    text += direction === "downstream"
+      ? ` —${edge.label}→ ${name(edge.to)}`
+      : ` ←${edge.label}— ${name(edge.from)}`;
+  }
+  return text;
+}
+
+function walk(
+  graph: ImpactGraph,
+  rootKey: string,
+  direction: "upstream" | "downstream",
+  maxDepth: number
+): { entries: ImpactEntry[]; truncated: boolean } {
+  const adjacency = new Map<string, ImpactEdge[]>();
+  for (const edge of graph.edges) {
+    const key = direction === "downstream" ? edge.from : edge.to;
+    adjacency.set(key, [...(adjacency.get(key) ?? []), edge]);
+  }
+
+  const entries: ImpactEntry[] = [];
+  const visited = new Set([rootKey]);
+  const queue: Array<{ key: string; path: ImpactEdge[] }> = [{ key: rootKey, path: [] }];
+  let truncated = false;
+
+  while (queue.length > 0) {
+    const { key, path } = queue.shift()!;
+    for (const edge of adjacency.get(key) ?? []) {
+      const next = direction === "downstream" ? edge.to : edge.from;
+      if (visited.has(next)) {
+        continue;
+      }
+      if (path.length >= maxDepth) {
+        truncated = true;
+        continue;
+      }
+      visited.add(next);
+      const nextPath = [...path, edge];
+      entries.push({
+        key: next,
+        depth: nextPath.length,
+        path: nextPath,
+        explanation: explain(graph, rootKey, nextPath, direction)
+      });
+      queue.push({ key: next, path: nextPath });
+    }
+  }
+
+  return { entries, truncated };
+}
+
+/**
+ * Walk the impact graph from one node. Breadth-first, so each impacted node
+ * is reported once per direction with its shortest path from the root.
+ */
+export function analyzeImpactGraph(
+  graph: ImpactGraph,
+  rootKey: string,
+  options: { direction: ImpactDirection; maxDepth: number }
+): Pick<ImpactAnalysis, "root" | "nodes" | "edges" | "upstream" | "downstream" | "truncated"> {
+  const root = graph.nodes.get(rootKey);
+  if (!root) {
+    throw new ImpactAnalysisError(404, `Impact analysis root not found: ${rootKey}`);
+  }
+
+  const upstream = options.direction === "downstream"
+    ? { entries: [], truncated: false }
+    : walk(graph, rootKey, "upstream", options.maxDepth);
+  const downstream = options.direction === "upstream"
+    ? { entries: [], truncated: false }
+    : walk(graph, rootKey, "downstream", options.maxDepth);
+
+  const included = new Set([rootKey, ...upstream.entries.map(entry => entry.key), ...downstream.entries.map(entry => entry.key)]);
+
+  return {
+    root,
+    nodes: [...included].map(key => graph.nodes.get(key)!),
+    edges: graph.edges.filter(edge => included.has(edge.from) && included.has(edge.to)),
+    upstream: upstream.entries,
+    downstream: downstream.entries,
+    truncated: upstream.truncated || downstream.truncated
+  };
+}
+
+/**
+ * Upstream/downstream impact of changing a requirement, block, connector or
+ * verification document.
+ */
+export async function analyzeImpact(params: {
+  tenant: string;
+  projectKey: string;
+  kind: ImpactRootKind;
+  id: string;
+  direction?: ImpactDirection;
+  maxDepth?: number;
+}): Promise<ImpactAnalysis> {
+  const direction = params.direction ?? "both";
+  const maxDepth = Math.min(Math.max(params.maxDepth ?? DEFAULT_IMPACT_DEPTH, 1), MAX_IMPACT_DEPTH);
+
+  const graph = await loadImpactGraph(params.tenant, params.projectKey);
+  const result = analyzeImpactGraph(graph, impactNodeKey(params.kind, params.id), { direction, maxDepth });
+
+  return {
+    tenant: slugify(params.tenant),
+    projectKey: slugify(params.projectKey),
+    direction,
+    maxDepth,
+    generatedAt: new Date().toISOString(),
+    ...result
+  };
+}
@@ -3,6 +3,7 @@ import { slugify } from "../workspace.js";
 import { getSession } from "./driver.js";
 import { mapDocument } from "./documents/index.js";
 import { createDocumentLinksetVersion, generateDocumentLinksetContentHash } from "./linksets-versions.js";
+import { enforceLinksetRules, enforceTraceLinkRules } from "./trace-rules.js";
 
 export type TraceLinkItem = {
   id: string;
@@ -10,6 +11,8 @@ export type TraceLinkItem = {
   targetRequirementId: string;
   linkType: "satisfies" | "derives" | "verifies" | "implements" | "refines" | "conflicts";
   description?: string | null;
+  /** Either end changed since the link was created or last reviewed */
+  suspect?: boolean;
   createdAt: string;
   updatedAt: string;
 };
@@ -27,6 +30,8 @@ export type DocumentLinksetRecord = {
   defaultLinkType?: string;
   createdAt: string;
   updatedAt: string;
+  /** Trace rule warnings raised by the request that returned this linkset */
+  ruleWarnings?: string[];
 };
 
 function mapLinkset(
@@ -51,6 +56,7 @@ function mapLinkset(
       targetRequirementId: String(link.targetRequirementId),
       linkType: String(link.linkType) as TraceLinkItem["linkType"],
       description: link.description ? String(link.description) : null,
+      suspect: link.suspect === true,
       createdAt: String(link.createdAt),
       updatedAt: String(link.updatedAt)
     })) : [],
@@ -73,12 +79,19 @@ export async function createLinkset(params: {
   const projectSlug = slugify(params.projectKey);
   const now = new Date().toISOString();
   const links = params.links || [];
+  const linksetWarnings = await enforceLinksetRules(params);
+  let ruleWarnings: string[] = [];
   const session = getSession();
 
   try {
     const linksetId = `linkset-${Date.now()}`;
 
     const result = await session.executeWrite(async (tx: ManagedTransaction) => {
+      ruleWarnings = [...linksetWarnings];
+      for (const link of links) {
+        ruleWarnings.push(...await enforceTraceLinkRules(tx, { ...params, ...link }));
+      }
+
       const query = `
         MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
         MATCH (sourceDoc:Document {slug: $sourceDocumentSlug, tenant: $tenantSlug, projectKey: $projectSlug})
@@ -155,7 +168,7 @@ export async function createLinkset(params: {
       });
     });
 
-    return result;
+    return ruleWarnings.length > 0 ? { ...result, ruleWarnings } : result;
   } finally {
     await session.close();
   }
@@ -197,6 +210,7 @@ export async function listLinksets(params: {
           targetRequirementId: String(link.properties.targetRequirementId),
           linkType: String(link.properties.linkType),
           description: link.properties.description ? String(link.properties.description) : null,
+          suspect: link.properties.suspect === true,
           createdAt: String(link.properties.createdAt),
           updatedAt: String(link.properties.updatedAt)
         }));
@@ -271,6 +285,7 @@ export async function getLinkset(params: {
         targetRequirementId: String(link.properties.targetRequirementId),
         linkType: String(link.properties.linkType),
         description: link.properties.description ? String(link.properties.description) : null,
+        suspect: link.properties.suspect === true,
         createdAt: String(link.properties.createdAt),
         updatedAt: String(link.properties.updatedAt)
       }));
@@ -307,10 +322,12 @@ export async function addLinkToLinkset(params: {
   const tenantSlug = slugify(params.tenant);
   const projectSlug = slugify(params.projectKey);
   const now = new Date().toISOString();
+  let ruleWarnings: string[] = [];
   const session = getSession();
 
   try {
     const result = await session.executeWrite(async (tx: ManagedTransaction) => {
+      ruleWarnings = await enforceTraceLinkRules(tx, params);
       const linkId = `link-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
       // First, fetch the existing linkset to get current links
@@ -394,7 +411,7 @@ export async function addLinkToLinkset(params: {
       );
     });
 
-    return result;
+    return ruleWarnings.length > 0 ? { ...result, ruleWarnings } : result;
   } finally {
     await session.close();
   }
@@ -0,0 +1,226 @@
+import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
+import { slugify } from "../workspace.js";
+import { getSession } from "./driver.js";
+import { toNumber, toStringList } from "../../lib/neo4j-utils.js";
+import { listTraceLinks } from "./trace.js";
+import { listLinksets } from "./linksets.js";
+import { runVerificationEngine } from "./verification.js";
+import {
+  summarizeProjectMetrics,
+  type MetricDocument,
+  type MetricRequirement,
+  type ProjectMetricValues
+} from "../../lib/project-metrics.js";
+
+/**
+ * Daily project metric snapshots.
+ *
+ * Each project gets at most one MetricSnapshot node per day holding the
+ * metrics as JSON; recording again on the same day replaces that day's
+ * values. Snapshots are recorded by the metric snapshot scheduler and on
+ * demand; past days are never rewritten, so trends stay reproducible.
+ */
+
+export type MetricSnapshotRecord = {
+  tenant: string;
+  projectKey: string;
+  /** YYYY-MM-DD (UTC) */
+  date: string;
+  capturedAt: string;
+  metrics: ProjectMetricValues;
+};
+
+/** Today's snapshot date (UTC) */
+export function snapshotDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function mapSnapshot(node: Neo4jNode): MetricSnapshotRecord {
+  const props = node.properties as Record<string, unknown>;
+  return {
+    tenant: String(props.tenant),
+    projectKey: String(props.projectKey),
+    date: String(props.date),
+    capturedAt: String(props.capturedAt),
+    metrics: JSON.parse(String(props.metrics)) as ProjectMetricValues
+  };
+}
+
+/**
+ * The project's metrics as of now.
+ *
+ * @throws Error if the project does not exist
+ */
+export async function computeProjectMetrics(tenant: string, projectKey: string): Promise<ProjectMetricValues> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  let documents: MetricDocument[];
+  let requirements: MetricRequirement[];
+  try {
+    ({ documents, requirements } = await session.executeRead(async (tx: ManagedTransaction) => {
+      const documentResult = await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+          OPTIONAL MATCH (project)-[:HAS_DOCUMENT]->(document:Document)
+          WHERE document.deletedAt IS NULL
+          RETURN project.slug AS project, document.slug AS slug, document.name AS name
+          ORDER BY name
+        `,
+        { tenantSlug, projectSlug }
+      );
+      if (documentResult.records.length === 0) {
+        throw new Error("Project not found");
+      }
+
+      const requirementResult = await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:CONTAINS]->(req:Requirement)
+          WHERE NOT coalesce(req.deleted, false) AND NOT coalesce(req.archived, false)
+          OPTIONAL MATCH (sectionDoc:Document)-[:HAS_SECTION]->(:DocumentSection)-[:CONTAINS]->(req)
+          OPTIONAL MATCH (directDoc:Document)-[:CONTAINS]->(req)
+          WITH req, head(collect(DISTINCT coalesce(sectionDoc, directDoc).slug)) AS documentSlug
+          RETURN req.id AS id, req.qaScore AS qaScore, req.tags AS tags, documentSlug,
+                 size([(req)<-[:VERIFIES]-(activity:VerificationActivity {status: 'passed'}) | activity]) > 0 AS verified
+        `,
+        { tenantSlug, projectSlug }
+      );
+
+      return {
+        documents: documentResult.records
+          .filter(record => record.get("slug"))
+          .map(record => ({ slug: String(record.get("slug")), name: String(record.get("name") ?? record.get("slug")) })),
+        requirements: requirementResult.records.map(record => {
+          const qaScore = record.get("qaScore");
+          return {
+            id: String(record.get("id")),
+            qaScore: qaScore === null || qaScore === undefined ? null : toNumber(qaScore),
+            tags: toStringList(record.get("tags")),
+            documentSlug: record.get("documentSlug") ? String(record.get("documentSlug")) : null,
+            verified: record.get("verified") === true
+          };
+        })
+      };
+    }));
+  } finally {
+    await session.close();
+  }
+
+  const links = await listTraceLinks({ tenant, projectKey });
+  const linksets = await listLinksets({ tenant, projectKey });
+  const report = await runVerificationEngine(tenant, projectKey);
+
+  return summarizeProjectMetrics({
+    requirements,
+    documents,
+    links,
+    linksets,
+    verification: {
+      verified: report.summary.verified,
+      unverified: report.summary.unverified,
+      incomplete: report.summary.incomplete,
+      coveragePercent: report.summary.coveragePercent,
+      errorFindings: report.findings.filter(finding => finding.severity === "error").length,
+      warningFindings: report.findings.filter(finding => finding.severity === "warning").length
+    }
+  });
+}
+
+/**
+ * Compute the project's metrics and store them as today's snapshot.
+ *
+ * @throws Error if the project does not exist
+ */
+export async function recordMetricSnapshot(tenant: string, projectKey: string): Promise<MetricSnapshotRecord> {
+  const metrics = await computeProjectMetrics(tenant, projectKey);
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const now = new Date();
+  const session = getSession();
+
+  try {
+    const node = await session.executeWrite(async (tx: ManagedTransaction) => {
+      const result = await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+          MERGE (project)-[:HAS_METRIC_SNAPSHOT]->(snapshot:MetricSnapshot {date: $date})
+            ON CREATE SET snapshot.tenant = $tenantSlug,
+                          snapshot.projectKey = $projectSlug
+          SET snapshot.capturedAt = $capturedAt,
+              snapshot.metrics = $metrics
+          RETURN snapshot
+        `,
+        {
+          tenantSlug,
+          projectSlug,
+          date: snapshotDate(now),
+          capturedAt: now.toISOString(),
+          metrics: JSON.stringify(metrics)
+        }
+      );
+
+      if (result.records.length === 0) {
+        throw new Error("Project not found");
+      }
+      return result.records[0].get("snapshot") as Neo4jNode;
+    });
+
+    return mapSnapshot(node);
+  } finally {
+    await session.close();
+  }
+}
+
+/** Snapshots in date order, optionally limited to an inclusive date range */
+export async function listMetricSnapshots(params: {
+  tenant: string;
+  projectKey: string;
+  from?: string;
+  to?: string;
+}): Promise<MetricSnapshotRecord[]> {
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+  const session = getSession();
+
+  try {
+    const result = await session.executeRead(async (tx: ManagedTransaction) => tx.run(
+      `
+        MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_METRIC_SNAPSHOT]->(snapshot:MetricSnapshot)
+        WHERE ($from IS NULL OR snapshot.date >= $from)
+          AND ($to IS NULL OR snapshot.date <= $to)
+        RETURN snapshot
+        ORDER BY snapshot.date
+      `,
+      { tenantSlug, projectSlug, from: params.from ?? null, to: params.to ?? null }
+    ));
+
+    return result.records.map(record => mapSnapshot(record.get("snapshot") as Neo4jNode));
+  } finally {
+    await session.close();
+  }
+}
+
+/** Projects without a snapshot for the given date */
+export async function listProjectsDueForSnapshot(date: string): Promise<Array<{ tenant: string; projectKey: string }>> {
+  const session = getSession();
+
+  try {
+    const result = await session.executeRead(async (tx: ManagedTransaction) => tx.run(
+      `
+        MATCH (tenant:Tenant)-[:OWNS]->(project:Project)
+        WHERE NOT (project)-[:HAS_METRIC_SNAPSHOT]->(:MetricSnapshot {date: $date})
+        RETURN tenant.slug AS tenant, project.slug AS projectKey
+        ORDER BY tenant, projectKey
+      `,
+      { date }
+    ));
+
+    return result.records.map(record => ({
+      tenant: String(record.get("tenant")),
+      projectKey: String(record.get("projectKey"))
+    }));
+  } finally {
+    await session.close();
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Migration 006: Backfill Requirement Version Numbers
+ *
+ * Requirement.versionNumber is written whenever a version is recorded, and
+ * clients send it back as expectedVersionNumber for conflict detection.
+ * Requirements last edited before the property existed have no value, so
+ * their first concurrent edits went undetected. This migration sets it to
+ * the number of versions each requirement has, the same count the update
+ * path compares against.
+ */
+
+import neo4j from "neo4j-driver";
+import { getSession } from "../driver.js";
+import { toNumber } from "../../../lib/neo4j-utils.js";
+
+const BATCH_SIZE = 1000;
+
+export async function migrate006Up(): Promise<void> {
+  const session = getSession();
+
+  try {
+    console.log("[Migration 006] Starting: Backfill Requirement.versionNumber from version history");
+
+    let total = 0;
+    let updated: number;
+    do {
+      const result = await session.executeWrite(tx => tx.run(
+        `
+          MATCH (requirement:Requirement)
+          WHERE requirement.versionNumber IS NULL
+          WITH requirement LIMIT $batchSize
+          OPTIONAL MATCH (requirement)-[:HAS_VERSION]->(version:RequirementVersion)
+          WITH requirement, count(version) AS versionCount
+          SET requirement.versionNumber = versionCount
+          RETURN count(requirement) AS updated
+        `,
+        { batchSize: neo4j.int(BATCH_SIZE) }
+      ));
+      updated = toNumber(result.records[0]?.get("updated"));
+      total += updated;
+    } while (updated === BATCH_SIZE);
+
+    console.log("[Migration 006] Migration completed successfully");
+    console.log(`[Migration 006] Set versionNumber on ${total} requirement(s)`);
+  } catch (error) {
+    console.error("[Migration 006] Migration failed:", error);
+    throw error;
+  } finally {
+    await session.close();
+  }
+}
+
+export async function migrate006Down(): Promise<void> {
+  // Backfilled values cannot be told apart from ones written by later edits, and both are correct
+  console.log("[Migration 006] Nothing to roll back: versionNumber is kept");
+}
+
+export const migration006 = {
+  id: "006-backfill-requirement-version-numbers",
+  description: "Set Requirement.versionNumber from the version history of requirements that predate it",
+  up: migrate006Up,
+  down: migrate006Down
+};
@@ -10,6 +10,7 @@ import { migration002 } from "./002-remove-redundant-denormalization.js";
 import { migration003 } from "./003-simplify-document-hierarchy.js";
 import { migration004 } from "./004-version-history-indexes.js";
 import { migration005 } from "./005-upgrade-existing-baselines.js";
+import { migration006 } from "./006-backfill-requirement-version-numbers.js";
 
 export interface Migration {
   id: string;
@@ -24,7 +25,8 @@ const migrations: Migration[] = [
   migration002,
   migration003,
   migration004,
-  migration005
+  migration005,
+  migration006
 ];
 
 /**
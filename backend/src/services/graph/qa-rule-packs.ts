@@ -0,0 +1,219 @@
+import { randomUUID } from "node:crypto";
+import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
+import {
+  DEFAULT_RULE_PACK,
+  getRule,
+  rulePackVersionTag,
+  validateRulePack,
+  type RulePack
+} from "@airgen/req-qa";
+import { slugify } from "../workspace.js";
+import { getSession } from "./driver.js";
+import { toNumber } from "../../lib/neo4j-utils.js";
+
+/**
+ * Per-project QA rule packs.
+ *
+ * Every save creates a new immutable QaRulePack version node under the
+ * project; exactly one version is active at a time. Projects without an
+ * active pack are scored with the built-in AIRGen default pack.
+ */
+
+export type QaRulePackRecord = {
+  tenant: string;
+  projectKey: string;
+  version: number;
+  /** "<packId>@<version>", the value recorded in Requirement.qaRulePack */
+  versionTag: string;
+  active: boolean;
+  pack: RulePack;
+  createdAt: string;
+  createdBy: string | null;
+};
+
+function mapQaRulePack(node: Neo4jNode): QaRulePackRecord {
+  const props = node.properties as Record<string, unknown>;
+  const version = toNumber(props.version);
+  const pack = { ...(JSON.parse(String(props.definition)) as RulePack), version };
+
+  return {
+    tenant: String(props.tenant),
+    projectKey: String(props.projectKey),
+    version,
+    versionTag: rulePackVersionTag(pack),
+    active: Boolean(props.active),
+    pack,
+    createdAt: String(props.createdAt),
+    createdBy: props.createdBy ? String(props.createdBy) : null
+  };
+}
+
+export async function getActiveQaRulePack(
+  tenant: string,
+  projectKey: string
+): Promise<QaRulePackRecord | null> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    const result = await session.executeRead(async (tx: ManagedTransaction) => tx.run(
+      `
+        MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_QA_RULE_PACK]->(pack:QaRulePack {active: true})
+        RETURN pack
+        ORDER BY pack.version DESC
+        LIMIT 1
+      `,
+      { tenantSlug, projectSlug }
+    ));
+
+    if (result.records.length === 0) {
+      return null;
+    }
+    return mapQaRulePack(result.records[0].get("pack") as Neo4jNode);
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Resolve the pack used to score a project's requirements, falling back to
+ * the built-in default when the project has not configured one.
+ */
+export async function resolveQaRulePack(tenant: string, projectKey: string): Promise<RulePack> {
+  const active = await getActiveQaRulePack(tenant, projectKey);
+  return active?.pack ?? DEFAULT_RULE_PACK;
+}
+
+export async function listQaRulePackVersions(
+  tenant: string,
+  projectKey: string
+): Promise<QaRulePackRecord[]> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    const result = await session.executeRead(async (tx: ManagedTransaction) => tx.run(
+      `
+        MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_QA_RULE_PACK]->(pack:QaRulePack)
+        RETURN pack
+        ORDER BY pack.version DESC
+      `,
+      { tenantSlug, projectSlug }
+    ));
+
+    return result.records.map(record => mapQaRulePack(record.get("pack") as Neo4jNode));
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Save a rule pack as the project's next version and make it active.
+ *
+ * @throws Error if the pack references unknown rules or has invalid thresholds
+ * @throws Error if the project does not exist
+ */
+export async function saveQaRulePack(params: {
+  tenant: string;
+  projectKey: string;
+  pack: Omit<RulePack, "version">;
+  userId: string;
+}): Promise<QaRulePackRecord> {
+  const errors = validateRulePack({ ...params.pack, version: 0 }, id => getRule(id) !== undefined);
+  if (errors.length > 0) {
+    throw new Error(`Invalid rule pack: ${errors.join(" ")}`);
+  }
+
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+  const now = new Date().toISOString();
+  const session = getSession();
+
+  try {
+    const node = await session.executeWrite(async (tx: ManagedTransaction) => {
+      const result = await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+          OPTIONAL MATCH (project)-[:HAS_QA_RULE_PACK]->(existing:QaRulePack)
+          WITH project, collect(existing) AS existingPacks, coalesce(max(existing.version), 0) AS latestVersion
+          FOREACH (existing IN existingPacks | SET existing.active = false)
+          CREATE (pack:QaRulePack {
+            id: $id,
+            tenant: $tenantSlug,
+            projectKey: $projectSlug,
+            packId: $packId,
+            name: $name,
+            version: latestVersion + 1,
+            definition: $definition,
+            active: true,
+            createdAt: $now,
+            createdBy: $userId
+          })
+          MERGE (project)-[:HAS_QA_RULE_PACK]->(pack)
+          RETURN pack
+        `,
+        {
+          tenantSlug,
+          projectSlug,
+          id: randomUUID(),
+          packId: params.pack.id,
+          name: params.pack.name,
+          definition: JSON.stringify(params.pack),
+          now,
+          userId: params.userId
+        }
+      );
+
+      if (result.records.length === 0) {
+        throw new Error("Project not found");
+      }
+      return result.records[0].get("pack") as Neo4jNode;
+    });
+
+    return mapQaRulePack(node);
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Re-activate a previously saved version (e.g. to roll back a pack change).
+ *
+ * @throws Error if the version does not exist for the project
+ */
+export async function activateQaRulePackVersion(
+  tenant: string,
+  projectKey: string,
+  version: number
+): Promise<QaRulePackRecord> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    const node = await session.executeWrite(async (tx: ManagedTransaction) => {
+      const result = await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_QA_RULE_PACK]->(target:QaRulePack)
+          WHERE target.version = $version
+          MATCH (project)-[:HAS_QA_RULE_PACK]->(other:QaRulePack)
+          SET other.active = (other.id = target.id)
+          WITH DISTINCT target
+          RETURN target AS pack
+        `,
+        { tenantSlug, projectSlug, version }
+      );
+
+      if (result.records.length === 0) {
+        throw new Error(`Rule pack version ${version} not found`);
+      }
+      return result.records[0].get("pack") as Neo4jNode;
+    });
+
+    return mapQaRulePack(node);
+  } finally {
+    await session.close();
+  }
+}
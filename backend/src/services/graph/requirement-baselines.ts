@@ -12,6 +12,7 @@ import type { ArchitectureDiagramVersionRecord } from "./architecture/diagrams-v
 import type { ArchitectureBlockVersionRecord } from "./architecture/blocks-versions.js";
 import type { ArchitectureConnectorVersionRecord } from "./architecture/connectors-versions.js";
 import { toNumber } from "../../lib/neo4j-utils.js";
+import { emitWebhookEvent } from "../webhooks.js";
 
 function mapBaseline(node: Neo4jNode): BaselineRecord {
   const props = node.properties as Record<string, unknown>;
@@ -55,6 +56,13 @@ export type BaselineSnapshot = {
   connectorVersions: ArchitectureConnectorVersionRecord[];
 };
 
+function parseJsonProperty<T>(value: unknown): T | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  return (typeof value === "string" ? JSON.parse(value) : value) as T;
+}
+
 // Helper functions to map version nodes to records
 function mapRequirementVersion(node: Neo4jNode): RequirementVersionRecord {
   const v = node.properties;
@@ -74,10 +82,14 @@ function mapRequirementVersion(node: Neo4jNode): RequirementVersionRecord {
     complianceRationale: v.complianceRationale ? String(v.complianceRationale) : undefined,
     qaScore: v.qaScore !== null && v.qaScore !== undefined ? toNumber(v.qaScore, 0) : undefined,
     qaVerdict: v.qaVerdict ? String(v.qaVerdict) : undefined,
-    suggestions: Array.isArray(v.suggestions) ? v.suggestions.map(String) : undefined,
-    tags: Array.isArray(v.tags) ? v.tags.map(String) : undefined,
-    attributes: v.attributes ? (v.attributes as Record<string, any>) : undefined,
-    contentHash: String(v.contentHash)
+    // Version nodes store these as JSON strings (see createRequirementVersion)
+    suggestions: parseJsonProperty<string[]>(v.suggestions),
+    tags: parseJsonProperty<string[]>(v.tags),
+    attributes: parseJsonProperty<Record<string, any>>(v.attributes),
+    contentHash: String(v.contentHash),
+    changeRequestId: v.changeRequestId ? String(v.changeRequestId) : undefined,
+    approvedBy: Array.isArray(v.approvedBy) ? v.approvedBy.map(String) : undefined,
+    approvedAt: v.approvedAt ? String(v.approvedAt) : undefined
   };
 }
 
@@ -89,11 +101,12 @@ function mapDocumentVersion(node: Neo4jNode): DocumentVersionRecord {
     versionNumber: toNumber(v.versionNumber, 0),
     timestamp: String(v.timestamp),
     changedBy: String(v.changedBy),
-    changeType: String(v.changeType) as "created" | "updated" | "deleted",
+    changeType: String(v.changeType) as "created" | "updated" | "restored" | "deleted",
     changeDescription: v.changeDescription ? String(v.changeDescription) : undefined,
     slug: String(v.slug),
     name: String(v.name),
     description: v.description ? String(v.description) : undefined,
+    shortCode: v.shortCode ? String(v.shortCode) : undefined,
     kind: (v.kind ? String(v.kind) : "structured") as import("./documents/documents-crud.js").DocumentKind,
     contentHash: String(v.contentHash)
   };
@@ -107,10 +120,11 @@ function mapDocumentSectionVersion(node: Neo4jNode): DocumentSectionVersionRecor
     versionNumber: toNumber(v.versionNumber, 0),
     timestamp: String(v.timestamp),
     changedBy: String(v.changedBy),
-    changeType: String(v.changeType) as "created" | "updated" | "deleted",
+    changeType: String(v.changeType) as "created" | "updated" | "restored" | "deleted",
     changeDescription: v.changeDescription ? String(v.changeDescription) : undefined,
     name: String(v.name),
     description: v.description ? String(v.description) : undefined,
+    shortCode: v.shortCode ? String(v.shortCode) : undefined,
     order: toNumber(v.order, 0),
     contentHash: String(v.contentHash)
   };
@@ -161,7 +175,7 @@ function mapTraceLinkVersion(node: Neo4jNode): TraceLinkVersionRecord {
     versionNumber: toNumber(v.versionNumber, 0),
     timestamp: String(v.timestamp),
     changedBy: String(v.changedBy),
-    changeType: String(v.changeType) as "created" | "updated" | "deleted",
+    changeType: String(v.changeType) as "created" | "updated" | "restored" | "deleted",
     changeDescription: v.changeDescription ? String(v.changeDescription) : undefined,
     sourceRequirementId: String(v.sourceRequirementId),
     targetRequirementId: String(v.targetRequirementId),
@@ -246,54 +260,25 @@ function mapArchitectureConnectorVersion(node: Neo4jNode): ArchitectureConnector
   };
 }
 
-export async function createBaseline(params: {
-  tenant: string;
-  projectKey: string;
-  label?: string;
-  author?: string;
-}): Promise<BaselineRecord> {
-  const tenantSlug = slugify(params.tenant);
-  const projectSlug = slugify(params.projectKey);
-  const now = new Date().toISOString();
-
-  // Step 1: Generate baseline ref (needs write transaction to increment counter)
-  let ref: string;
-  {
-    const refSession = getSession();
-    try {
-      ref = await refSession.executeWrite(async (tx: ManagedTransaction) => {
-        const refQuery = `
-          MERGE (tenant:Tenant {slug: $tenantSlug})
-            ON CREATE SET tenant.createdAt = $now
-          MERGE (project:Project {slug: $projectSlug, tenantSlug: $tenantSlug})
-            ON CREATE SET project.key = $projectKey, project.createdAt = $now
-          SET project.baselineCounter = coalesce(project.baselineCounter, 0) + 1
-          WITH project, project.baselineCounter AS counter
-          WITH counter,
-               right('000' + toString(counter), 3) AS padded,
-               toUpper(replace($projectSlug, '-', '')) AS upper
-          RETURN 'BL-' + upper + '-' + padded AS ref
-        `;
-
-        const refRes = await tx.run(refQuery, {
-          tenantSlug,
-          projectSlug,
-          projectKey: params.projectKey,
-          now
-        });
-
-        if (refRes.records.length === 0) {
-          throw new Error("Failed to generate baseline ref");
-        }
-
-        return refRes.records[0].get("ref");
-      });
-    } finally {
-      await refSession.close();
-    }
-  }
+type LatestVersionNodes = {
+  requirements: any[];
+  reqVers: any[];
+  docVers: any[];
+  secVers: any[];
+  infoVers: any[];
+  surVers: any[];
+  linkVers: any[];
+  linksetVers: any[];
+  diagVers: any[];
+  blockVers: any[];
+  connVers: any[];
+};
 
-  // Step 2: Collect all version data (read-only queries - NO transaction needed)
+/**
+ * Collect the latest version node of every versioned entity in a project
+ * (read-only queries - NO transaction needed)
+ */
+async function collectLatestVersionNodes(tenantSlug: string, projectSlug: string): Promise<LatestVersionNodes> {
   // Helper function to run a query with its own session
   async function runQueryWithOwnSession(query: string, params: any): Promise<any> {
     const session = getSession();
@@ -314,7 +299,6 @@ export async function createBaseline(params: {
     RETURN [req IN reqs WHERE req IS NOT NULL] AS requirements
   `;
 
-  // Declare variables outside so they're accessible in write transaction
   let requirements: any[];
   let reqVers: any[], docVers: any[], secVers: any[], infoVers: any[];
   let surVers: any[], linkVers: any[], linksetVers: any[];
@@ -471,6 +455,83 @@ export async function createBaseline(params: {
   blockVers = blockVersRes.records[0]?.get("versions") || [];
   connVers = connVersRes.records[0]?.get("versions") || [];
 
+  return {
+    requirements,
+    reqVers,
+    docVers,
+    secVers,
+    infoVers,
+    surVers,
+    linkVers,
+    linksetVers,
+    diagVers,
+    blockVers,
+    connVers
+  };
+}
+
+export async function createBaseline(params: {
+  tenant: string;
+  projectKey: string;
+  label?: string;
+  author?: string;
+}): Promise<BaselineRecord> {
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+  const now = new Date().toISOString();
+
+  // Step 1: Generate baseline ref (needs write transaction to increment counter)
+  let ref: string;
+  {
+    const refSession = getSession();
+    try {
+      ref = await refSession.executeWrite(async (tx: ManagedTransaction) => {
+        const refQuery = `
+          MERGE (tenant:Tenant {slug: $tenantSlug})
+            ON CREATE SET tenant.createdAt = $now
+          MERGE (project:Project {slug: $projectSlug, tenantSlug: $tenantSlug})
+            ON CREATE SET project.key = $projectKey, project.createdAt = $now
+          SET project.baselineCounter = coalesce(project.baselineCounter, 0) + 1
+          WITH project, project.baselineCounter AS counter
+          WITH counter,
+               right('000' + toString(counter), 3) AS padded,
+               toUpper(replace($projectSlug, '-', '')) AS upper
+          RETURN 'BL-' + upper + '-' + padded AS ref
+        `;
+
+        const refRes = await tx.run(refQuery, {
+          tenantSlug,
+          projectSlug,
+          projectKey: params.projectKey,
+          now
+        });
+
+        if (refRes.records.length === 0) {
+          throw new Error("Failed to generate baseline ref");
+        }
+
+        return refRes.records[0].get("ref");
+      });
+    } finally {
+      await refSession.close();
+    }
+  }
+
+  // Step 2: Collect all version data
+  const {
+    requirements,
+    reqVers,
+    docVers,
+    secVers,
+    infoVers,
+    surVers,
+    linkVers,
+    linksetVers,
+    diagVers,
+    blockVers,
+    connVers
+  } = await collectLatestVersionNodes(tenantSlug, projectSlug);
+
   // Step 3: Create baseline node (without version links yet)
   const writeSession = getSession();
   try {
@@ -571,6 +632,21 @@ export async function createBaseline(params: {
       return mapBaseline(node);
     });
 
+    emitWebhookEvent({
+      type: "baseline.created",
+      tenant: tenantSlug,
+      project: projectSlug,
+      actor: params.author ?? null,
+      data: {
+        baselineId: result.id,
+        ref: result.ref,
+        label: result.label ?? null,
+        createdAt: result.createdAt,
+        requirementVersionCount: result.requirementVersionCount ?? 0,
+        traceLinkVersionCount: result.traceLinkVersionCount ?? 0
+      }
+    });
+
     return result;
   } finally {
     await writeSession.close();
@@ -672,6 +748,88 @@ export async function getBaselineDetails(
   }
 }
 
+/** Pseudo baseline ref for the project's current state */
+export const HEAD_BASELINE_REF = "HEAD";
+
+/**
+ * Snapshot of the latest version of every entity, shaped like a baseline so
+ * it can be compared against one
+ */
+export async function getHeadSnapshot(tenant: string, projectKey: string): Promise<BaselineSnapshot> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const nodes = await collectLatestVersionNodes(tenantSlug, projectSlug);
+
+  return {
+    baseline: {
+      id: `${tenantSlug}:${projectSlug}:${HEAD_BASELINE_REF}`,
+      ref: HEAD_BASELINE_REF,
+      tenant: tenantSlug,
+      projectKey: projectSlug,
+      createdAt: new Date().toISOString(),
+      author: null,
+      label: "Current working state",
+      requirementRefs: nodes.requirements.map((r: Neo4jNode) => String(r.properties.ref))
+    },
+    requirementVersions: nodes.reqVers.map(mapRequirementVersion),
+    documentVersions: nodes.docVers.map(mapDocumentVersion),
+    documentSectionVersions: nodes.secVers.map(mapDocumentSectionVersion),
+    infoVersions: nodes.infoVers.map(mapInfoVersion),
+    surrogateReferenceVersions: nodes.surVers.map(mapSurrogateReferenceVersion),
+    traceLinkVersions: nodes.linkVers.map(mapTraceLinkVersion),
+    linksetVersions: nodes.linksetVers.map(mapDocumentLinksetVersion),
+    diagramVersions: nodes.diagVers.map(mapArchitectureDiagramVersion),
+    blockVersions: nodes.blockVers.map(mapArchitectureBlockVersion),
+    connectorVersions: nodes.connVers.map(mapArchitectureConnectorVersion)
+  };
+}
+
+/**
+ * Get a baseline snapshot, or the current state when ref is HEAD
+ */
+export async function getBaselineOrHeadSnapshot(
+  tenant: string,
+  projectKey: string,
+  baselineRef: string
+): Promise<BaselineSnapshot> {
+  return baselineRef === HEAD_BASELINE_REF
+    ? getHeadSnapshot(tenant, projectKey)
+    : getBaselineDetails(tenant, projectKey, baselineRef);
+}
+
+/**
+ * Resolve requirement IDs to their current refs. Version records only carry
+ * the ID; IDs missing from the result no longer exist in the graph.
+ */
+export async function getRequirementRefs(
+  tenant: string,
+  projectKey: string,
+  requirementIds: string[]
+): Promise<Map<string, string>> {
+  const refs = new Map<string, string>();
+  if (requirementIds.length === 0) {
+    return refs;
+  }
+
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `
+        MATCH (req:Requirement {tenant: $tenantSlug, projectKey: $projectSlug})
+        WHERE req.id IN $requirementIds
+        RETURN req.id AS id, req.ref AS ref
+      `,
+      { tenantSlug: slugify(tenant), projectSlug: slugify(projectKey), requirementIds }
+    );
+    for (const record of result.records) {
+      refs.set(String(record.get("id")), String(record.get("ref")));
+    }
+    return refs;
+  } finally {
+    await session.close();
+  }
+}
+
 /**
  * Comparison result for a single entity type
  */
@@ -754,9 +912,17 @@ export async function compareBaselines(
   toBaselineRef: string
 ): Promise<BaselineComparison> {
   // Get both baseline snapshots
-  const fromSnapshot = await getBaselineDetails(tenant, projectKey, fromBaselineRef);
-  const toSnapshot = await getBaselineDetails(tenant, projectKey, toBaselineRef);
+  const fromSnapshot = await getBaselineOrHeadSnapshot(tenant, projectKey, fromBaselineRef);
+  const toSnapshot = await getBaselineOrHeadSnapshot(tenant, projectKey, toBaselineRef);
+
+  return compareSnapshots(fromSnapshot, toSnapshot);
+}
 
+/**
+ * Diff two snapshots entity by entity. Entities are matched by ID, so
+ * snapshots from different projects must be mapped onto common IDs first.
+ */
+export function compareSnapshots(fromSnapshot: BaselineSnapshot, toSnapshot: BaselineSnapshot): BaselineComparison {
   // Compare each entity type
   const requirements = compareEntities(
     fromSnapshot.requirementVersions,
@@ -868,6 +1034,13 @@ export async function deleteBaseline(
       throw new Error(`Baseline ${baselineRef} not found in project ${tenant}/${projectKey}`);
     }
 
+    emitWebhookEvent({
+      type: "baseline.deleted",
+      tenant: tenantSlug,
+      project: projectSlug,
+      data: { ref: baselineRef }
+    });
+
     return { deleted: true };
   } finally {
     await session.close();
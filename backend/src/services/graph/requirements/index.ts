@@ -7,6 +7,7 @@ export {
   getRequirement,
   updateRequirement,
   updateRequirementTimestamp,
+  RequirementConflictError,
   softDeleteRequirement,
   restoreRequirement,
   archiveRequirements,
@@ -27,7 +28,8 @@ export {
   listSectionRequirements,
   suggestLinks,
   findDuplicateRequirementRefs,
-  fixDuplicateRequirementRefs
+  fixDuplicateRequirementRefs,
+  type AttributeFilter
 } from "./requirements-search.js";
 
 // Tenant and project operations
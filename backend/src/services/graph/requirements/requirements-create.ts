@@ -8,8 +8,12 @@ import type { RequirementRecord } from "../../workspace.js";
 import { getSession } from "../driver.js";
 import { CacheInvalidation } from "../../../lib/cache.js";
 import { createRequirementVersion } from "./requirements-versions.js";
+import { executeWriteWithWebhookEvents } from "../../webhooks.js";
+import { assertDocumentUnlocked } from "../documents/documents-lock.js";
+import { enforceAttributeSchema } from "../attribute-schema.js";
 import { embeddingService } from "../../embedding.js";
 import { mapRequirement, type RequirementInput } from "./requirements-mapper.js";
+import { generateSchemeRef } from "./requirements-refs.js";
 
 /**
  * Creates a new requirement with automatic ref generation, embedding, and version tracking
@@ -17,11 +21,14 @@ import { mapRequirement, type RequirementInput } from "./requirements-mapper.js"
  * @param input - Requirement data
  * @returns Created requirement record
  * @throws Error if ref already exists
+ * @throws AttributeSchemaError if attributes violate the project's attribute schema
+ * @throws DocumentLockedError if the target document is approved and locked
  */
 export async function createRequirement(input: RequirementInput): Promise<RequirementRecord> {
   const tenantSlug = slugify(input.tenant || config.defaultTenant);
   const projectSlug = slugify(input.projectKey);
   const now = new Date().toISOString();
+  const attributes = await enforceAttributeSchema(tenantSlug, projectSlug, input.attributes, { applyDefaults: true });
 
   const hashId = randomBytes(8).toString("hex");
   const contentHash = computeRequirementHash({
@@ -32,8 +39,13 @@ export async function createRequirement(input: RequirementInput): Promise<Requir
 
   // Generate embedding for the requirement text
   let embedding: number[] | null = null;
+  let embeddingModel: string | null = null;
   try {
-    embedding = await embeddingService.generateEmbedding(input.text);
+    ({ embedding, model: embeddingModel } = await embeddingService.embed(input.text, {
+      tenant: tenantSlug,
+      project: projectSlug,
+      userId: input.userId
+    }));
     logger.info(`[Requirement] Generated embedding for new requirement (${embedding.length} dimensions)`);
   } catch (error) {
     logger.warn({ err: error }, `[Requirement] Failed to generate embedding`);
@@ -42,12 +54,20 @@ export async function createRequirement(input: RequirementInput): Promise<Requir
 
   const session = getSession();
   try {
-    const result = await session.executeWrite(async (tx: ManagedTransaction) => {
-      // If ref is provided, check if it already exists
+    const result = await executeWriteWithWebhookEvents(session, async (tx: ManagedTransaction) => {
+      await assertDocumentUnlocked(tx, {
+        tenantSlug,
+        projectSlug,
+        documentSlug: input.documentSlug,
+        sectionId: input.sectionId
+      });
+
+      // If ref is provided, check it is not already a ref or an old ref of another requirement
       if (input.ref) {
         const existingCheck = await tx.run(
           `
-          MATCH (existing:Requirement {tenant: $tenantSlug, projectKey: $projectSlug, ref: $ref})
+          MATCH (existing:Requirement {tenant: $tenantSlug, projectKey: $projectSlug})
+          WHERE existing.ref = $ref OR $ref IN coalesce(existing.refAliases, [])
           RETURN existing.id AS id
           `,
           { tenantSlug, projectSlug, ref: input.ref }
@@ -58,6 +78,14 @@ export async function createRequirement(input: RequirementInput): Promise<Requir
         }
       }
 
+      // Documents with a numbering scheme generate the ref here; otherwise the query below does
+      const providedRef = input.ref ?? await generateSchemeRef(tx, {
+        tenantSlug,
+        projectSlug,
+        documentSlug: input.documentSlug,
+        sectionId: input.sectionId
+      });
+
       const query = `
         MERGE (tenant:Tenant {slug: $tenantSlug})
           ON CREATE SET tenant.name = $tenantName, tenant.createdAt = $now
@@ -180,13 +208,13 @@ export async function createRequirement(input: RequirementInput): Promise<Requir
         qaVerdict: input.qaVerdict ?? null,
         suggestions: input.suggestions ?? [],
         tags: input.tags ?? [],
-        attributes: input.attributes ? JSON.stringify(input.attributes) : null,
+        attributes: attributes ? JSON.stringify(attributes) : null,
         embedding: embedding,
-        embeddingModel: embedding ? 'text-embedding-3-small' : null,
+        embeddingModel,
         embeddingGeneratedAt: embedding ? now : null,
         documentSlug: input.documentSlug ?? null,
         sectionId: input.sectionId ?? null,
-        providedRef: input.ref ?? null,
+        providedRef,
         now
       });
 
@@ -214,7 +242,7 @@ export async function createRequirement(input: RequirementInput): Promise<Requir
         qaVerdict: input.qaVerdict ?? null,
         suggestions: input.suggestions ?? null,
         tags: input.tags ?? null,
-        attributes: input.attributes ?? null,
+        attributes: attributes ?? null,
         contentHash
       });
 
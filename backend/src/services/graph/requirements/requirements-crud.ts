@@ -42,7 +42,7 @@ export { createRequirement } from "./requirements-create.js";
 // Update Operations
 // ============================================================================
 
-export { updateRequirement, updateRequirementTimestamp } from "./requirements-update.js";
+export { updateRequirement, updateRequirementTimestamp, RequirementConflictError } from "./requirements-update.js";
 
 // ============================================================================
 // Lifecycle Operations (Delete, Restore, Archive, Unarchive)
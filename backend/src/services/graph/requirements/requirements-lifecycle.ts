@@ -4,6 +4,8 @@ import type { RequirementRecord } from "../../workspace.js";
 import { getSession } from "../driver.js";
 import { CacheInvalidation } from "../../../lib/cache.js";
 import { createRequirementVersion } from "./requirements-versions.js";
+import { executeWriteWithWebhookEvents } from "../../webhooks.js";
+import { assertRequirementsUnlocked } from "../documents/documents-lock.js";
 import { mapRequirement } from "./requirements-mapper.js";
 
 /**
@@ -15,6 +17,7 @@ import { mapRequirement } from "./requirements-mapper.js";
  * @param requirementId - Requirement ID
  * @param deletedBy - User performing the deletion
  * @returns Deleted requirement record or null if not found
+ * @throws DocumentLockedError if a requirement is in an approved document
  */
 export async function softDeleteRequirement(
   tenant: string,
@@ -27,7 +30,9 @@ export async function softDeleteRequirement(
   const now = new Date().toISOString();
   const session = getSession();
   try {
-    const result = await session.executeWrite(async (tx: ManagedTransaction) => {
+    const result = await executeWriteWithWebhookEvents(session, async (tx: ManagedTransaction) => {
+      await assertRequirementsUnlocked(tx, [requirementId]);
+
       // Fetch current state BEFORE deletion to create version snapshot
       const currentReq = await tx.run(
         `
@@ -116,6 +121,7 @@ export async function softDeleteRequirement(
  * @param requirementId - Requirement ID
  * @param restoredBy - User performing the restoration
  * @returns Restored requirement record or null if not found
+ * @throws DocumentLockedError if a requirement is in an approved document
  */
 export async function restoreRequirement(
   tenant: string,
@@ -128,7 +134,9 @@ export async function restoreRequirement(
   const now = new Date().toISOString();
   const session = getSession();
   try {
-    const result = await session.executeWrite(async (tx: ManagedTransaction) => {
+    const result = await executeWriteWithWebhookEvents(session, async (tx: ManagedTransaction) => {
+      await assertRequirementsUnlocked(tx, [requirementId]);
+
       // Fetch current state BEFORE restoration to create version snapshot
       const currentReq = await tx.run(
         `
@@ -218,6 +226,7 @@ export async function restoreRequirement(
  * @param requirementIds - List of requirement IDs to archive
  * @param archivedBy - User performing the archiving
  * @returns List of archived requirement records
+ * @throws DocumentLockedError if a requirement is in an approved document
  */
 export async function archiveRequirements(
   tenant: string,
@@ -229,7 +238,9 @@ export async function archiveRequirements(
   const projectSlug = slugify(projectKey);
   const session = getSession();
   try {
-    const result = await session.executeWrite(async (tx: ManagedTransaction) => {
+    const result = await executeWriteWithWebhookEvents(session, async (tx: ManagedTransaction) => {
+      await assertRequirementsUnlocked(tx, requirementIds);
+
       // Fetch current state of each requirement BEFORE archiving
       const fetchQuery = `
         MATCH (requirement:Requirement)
@@ -315,6 +326,7 @@ export async function archiveRequirements(
  * @param requirementIds - List of requirement IDs to unarchive
  * @param unarchivedBy - User performing the unarchiving
  * @returns List of unarchived requirement records
+ * @throws DocumentLockedError if a requirement is in an approved document
  */
 export async function unarchiveRequirements(
   tenant: string,
@@ -326,7 +338,9 @@ export async function unarchiveRequirements(
   const projectSlug = slugify(projectKey);
   const session = getSession();
   try {
-    const result = await session.executeWrite(async (tx: ManagedTransaction) => {
+    const result = await executeWriteWithWebhookEvents(session, async (tx: ManagedTransaction) => {
+      await assertRequirementsUnlocked(tx, requirementIds);
+
       // Fetch current state of each requirement BEFORE unarchiving
       const fetchQuery = `
         MATCH (requirement:Requirement)
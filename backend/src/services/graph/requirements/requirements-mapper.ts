@@ -1,6 +1,7 @@
 import type { Node as Neo4jNode } from "neo4j-driver";
 import { toNumber } from "../../../lib/neo4j-utils.js";
 import type {
+  RequirementAttributes,
   RequirementRecord,
   RequirementPattern,
   VerificationMethod
@@ -30,7 +31,7 @@ export type RequirementInput = {
   qaVerdict?: string;
   suggestions?: string[];
   tags?: string[];
-  attributes?: Record<string, string | number | boolean | null>;
+  attributes?: RequirementAttributes;
   userId?: string; // User making the change (for version tracking)
 };
 
@@ -67,6 +68,7 @@ export function mapRequirement(node: Neo4jNode, documentSlug?: string): Requirem
         ? toNumber(props.qaScore)
         : undefined,
     qaVerdict: props.qaVerdict ? String(props.qaVerdict) : undefined,
+    qaRulePack: props.qaRulePack ? String(props.qaRulePack) : undefined,
     suggestions: Array.isArray(props.suggestions)
       ? (props.suggestions as string[])
       : typeof props.suggestions === "string"
@@ -77,6 +79,7 @@ export function mapRequirement(node: Neo4jNode, documentSlug?: string): Requirem
       : typeof props.tags === "string"
         ? (JSON.parse(props.tags as string) as string[])
         : [],
+    refAliases: Array.isArray(props.refAliases) ? (props.refAliases as unknown[]).map(String) : undefined,
     path: String(props.path),
     documentSlug,
     order: props.order !== undefined && props.order !== null ? toNumber(props.order) : undefined,
@@ -85,12 +88,16 @@ export function mapRequirement(node: Neo4jNode, documentSlug?: string): Requirem
     deleted: props.deleted ? Boolean(props.deleted) : undefined,
     archived: props.archived ? Boolean(props.archived) : undefined,
     attributes: props.attributes && typeof props.attributes === 'string'
-      ? JSON.parse(props.attributes as string) as Record<string, string | number | boolean | null>
+      ? JSON.parse(props.attributes as string) as RequirementAttributes
       : undefined,
+    presenceCondition: props.presenceCondition ? String(props.presenceCondition) : undefined,
     // Data integrity fields
     contentHash: props.contentHash ? String(props.contentHash) : undefined,
     deletedAt: props.deletedAt ? String(props.deletedAt) : undefined,
     deletedBy: props.deletedBy ? String(props.deletedBy) : undefined,
-    restoredAt: props.restoredAt ? String(props.restoredAt) : undefined
+    restoredAt: props.restoredAt ? String(props.restoredAt) : undefined,
+    versionNumber: props.versionNumber !== undefined && props.versionNumber !== null
+      ? toNumber(props.versionNumber)
+      : undefined
   };
 }
@@ -5,7 +5,8 @@ import { mapRequirement } from "./requirements-mapper.js";
 import type { RequirementRecord } from "../../workspace.js";
 
 /**
- * Fetches a single requirement by ref
+ * Fetches a single requirement by ref. A ref replaced by renumbering still
+ * finds the requirement unless another requirement now has it.
  *
  * @param tenant - Tenant slug
  * @param projectKey - Project key/slug
@@ -27,7 +28,9 @@ export async function getRequirement(
         MATCH (project:Project {slug: $projectSlug, tenantSlug: $tenantSlug})
         OPTIONAL MATCH (project)-[:CONTAINS]->(direct:Requirement {ref: $ref})
         OPTIONAL MATCH (project)-[:HAS_DOCUMENT]->(:Document)-[:CONTAINS]->(docReq:Requirement {ref: $ref})
-        WITH coalesce(direct, docReq) AS requirement
+        OPTIONAL MATCH (aliased:Requirement {tenant: $tenantSlug, projectKey: $projectSlug})
+        WHERE direct IS NULL AND docReq IS NULL AND $ref IN coalesce(aliased.refAliases, [])
+        WITH coalesce(direct, docReq, aliased) AS requirement
         WHERE requirement IS NOT NULL
         RETURN requirement
         LIMIT 1
@@ -1,8 +1,81 @@
 import type { ManagedTransaction } from "neo4j-driver";
+import { documentRefCode, nextRef, sectionRefCode } from "../../../lib/ref-templates.js";
+import { parseRefScheme } from "../documents/documents-numbering.js";
+
+/**
+ * Generates the ref for a new requirement from its document's numbering
+ * scheme. Refs that are, or were, used in the project are skipped, since the
+ * requirement ID is derived from the ref it was created with.
+ *
+ * @param tx - Active transaction
+ * @returns The ref, or null if the document has no scheme (or there is no document)
+ */
+export async function generateSchemeRef(
+  tx: ManagedTransaction,
+  params: { tenantSlug: string; projectSlug: string; documentSlug?: string | null; sectionId?: string | null }
+): Promise<string | null> {
+  if (!params.documentSlug) {
+    return null;
+  }
+
+  const result = await tx.run(
+    `
+      MATCH (project:Project {slug: $projectSlug, tenantSlug: $tenantSlug})-[:HAS_DOCUMENT]->(document:Document {slug: $documentSlug})
+      WHERE document.refScheme IS NOT NULL
+      OPTIONAL MATCH (document)-[:HAS_SECTION]->(section:DocumentSection {id: $sectionId})
+      OPTIONAL MATCH (document)-[:CONTAINS]->(requirement:Requirement)
+      OPTIONAL MATCH (requirementSection:DocumentSection)-[:CONTAINS]->(requirement)
+      WITH document, section, requirement, requirementSection
+      WITH document, section,
+           collect(CASE WHEN requirement IS NOT NULL THEN {
+             refs: [requirement.ref] + coalesce(requirement.refAliases, []),
+             sectionId: requirementSection.id
+           } END) AS existing
+      OPTIONAL MATCH (taken:Requirement {tenant: $tenantSlug, projectKey: $projectSlug})
+      WITH document, section, existing,
+           [taken.ref, substring(taken.id, size($tenantSlug) + size($projectSlug) + 2)] + coalesce(taken.refAliases, []) AS takenRefs
+      UNWIND takenRefs AS takenRef
+      RETURN document.slug AS slug, document.shortCode AS shortCode, document.refScheme AS refScheme,
+             section.id AS sectionId, section.shortCode AS sectionShortCode, section.name AS sectionName,
+             existing, collect(DISTINCT takenRef) AS takenRefs
+    `,
+    {
+      tenantSlug: params.tenantSlug,
+      projectSlug: params.projectSlug,
+      documentSlug: params.documentSlug,
+      sectionId: params.sectionId ?? null
+    }
+  );
+
+  const record = result.records[0];
+  const scheme = record ? parseRefScheme(record.get("refScheme")) : null;
+  if (!record || !scheme) {
+    return null;
+  }
+
+  const sectionId = record.get("sectionId") ? String(record.get("sectionId")) : null;
+  const existing = record.get("existing") as Array<{ refs: string[]; sectionId: string | null }>;
+  const scopeRefs = existing
+    .filter(entry => scheme.counter === "document" || (entry.sectionId ?? null) === sectionId)
+    .flatMap(entry => entry.refs);
+
+  return nextRef(
+    scheme,
+    {
+      documentCode: documentRefCode({ shortCode: record.get("shortCode"), slug: String(record.get("slug")) }),
+      sectionCode: sectionId
+        ? sectionRefCode({ shortCode: record.get("sectionShortCode"), name: String(record.get("sectionName")) })
+        : null
+    },
+    scopeRefs,
+    new Set((record.get("takenRefs") as unknown[]).map(String))
+  );
+}
 
 /**
  * Updates requirement refs for all requirements in a document
- * Regenerates refs based on document and section short codes
+ * Regenerates refs based on document and section short codes. Documents with
+ * a numbering scheme are skipped; their refs only change on renumbering.
  *
  * Called when:
  * - Document short code changes
@@ -22,6 +95,7 @@ export async function updateRequirementRefsForDocument(
 ): Promise<void> {
   const updateQuery = `
     MATCH (project:Project {slug: $projectSlug, tenantSlug: $tenantSlug})-[:HAS_DOCUMENT]->(document:Document {slug: $documentSlug})
+    WHERE document.refScheme IS NULL
     MATCH (document)-[:CONTAINS]->(requirement:Requirement)
     OPTIONAL MATCH (requirement)<-[:CONTAINS]-(section:DocumentSection)
     WITH requirement, document, section,
@@ -52,7 +126,8 @@ export async function updateRequirementRefsForDocument(
 
 /**
  * Updates requirement refs for all requirements in a section
- * Regenerates refs based on document and section short codes
+ * Regenerates refs based on document and section short codes, unless the
+ * document has a numbering scheme
  *
  * Called when:
  * - Section short code changes
@@ -68,6 +143,7 @@ export async function updateRequirementRefsForSection(
 ): Promise<void> {
   const updateQuery = `
     MATCH (section:DocumentSection {id: $sectionId})<-[:HAS_SECTION]-(document:Document)<-[:HAS_DOCUMENT]-(project:Project)
+    WHERE document.refScheme IS NULL
     MATCH (section)-[:CONTAINS]->(requirement:Requirement)
     WITH requirement, document, section,
          coalesce(document.shortCode, toUpper(document.slug)) + '-' +
@@ -7,6 +7,19 @@ import type { RequirementRecord } from "../../workspace.js";
 import { getCached, CacheKeys, CacheInvalidation } from "../../../lib/cache.js";
 import { logger } from "../../../lib/logger.js";
 import { buildListRequirementsQuery, buildSuggestLinksQuery, executeCypherQuery, type ListRequirementsFilters } from "../../../lib/neo4j-query-builder.js";
+import { normalizeAttributeKey } from "../attribute-schema.js";
+
+/**
+ * Filter on a custom attribute. `values` matches any of the listed values
+ * (or any selected option of a multi-select); `min`/`max` bound numbers and
+ * ISO dates inclusively.
+ */
+export interface AttributeFilter {
+  key: string;
+  values?: string[];
+  min?: number | string;
+  max?: number | string;
+}
 
 export interface ListOptions {
   limit?: number;              // Default 100, max 1000
@@ -14,6 +27,47 @@ export interface ListOptions {
   orderBy?: "ref" | "createdAt" | "qaScore";
   orderDirection?: "ASC" | "DESC";
   filters?: ListRequirementsFilters;
+  attributeFilters?: AttributeFilter[];
+}
+
+// Upper bound on requirements scanned when filtering on attributes in memory
+const ATTRIBUTE_FILTER_SCAN_LIMIT = 10000;
+
+function compareBound(value: string | number, bound: number | string): number {
+  if (typeof bound === "number") {
+    return Number(value) - bound;
+  }
+  return String(value).localeCompare(bound);
+}
+
+/**
+ * Attributes are stored as a JSON string on the node, so attribute filters
+ * are applied after the Cypher query rather than in it.
+ */
+export function matchesAttributeFilters(requirement: RequirementRecord, filters: AttributeFilter[]): boolean {
+  const attributes = requirement.attributes ?? {};
+  const byKey = new Map(Object.entries(attributes).map(([key, value]) => [normalizeAttributeKey(key), value]));
+
+  return filters.every(filter => {
+    const value = byKey.get(normalizeAttributeKey(filter.key));
+    if (value === undefined || value === null) {
+      return false;
+    }
+    const items = (Array.isArray(value) ? value : [value]).map(item => String(item).toLowerCase());
+    if (filter.values?.length && !filter.values.some(wanted => items.includes(wanted.toLowerCase()))) {
+      return false;
+    }
+    if (Array.isArray(value) || typeof value === "boolean") {
+      return filter.min === undefined && filter.max === undefined;
+    }
+    if (filter.min !== undefined && compareBound(value, filter.min) < 0) {
+      return false;
+    }
+    if (filter.max !== undefined && compareBound(value, filter.max) > 0) {
+      return false;
+    }
+    return true;
+  });
 }
 
 export async function listRequirements(
@@ -28,7 +82,9 @@ export async function listRequirements(
   const orderBy = options?.orderBy ?? "ref";
   const orderDirection = options?.orderDirection === "DESC" ? "DESC" : "ASC";
   const filters = options?.filters;
-  const hasFilters = filters && Object.values(filters).some(v => v !== undefined && v !== null && (!Array.isArray(v) || v.length > 0));
+  const attributeFilters = options?.attributeFilters ?? [];
+  const hasFilters = attributeFilters.length > 0 ||
+    (filters && Object.values(filters).some(v => v !== undefined && v !== null && (!Array.isArray(v) || v.length > 0)));
 
   // Cache for 1 minute (60 seconds) - skip cache when filters are active
   const cacheKey = CacheKeys.requirements(
@@ -41,24 +97,33 @@ export async function listRequirements(
   const fetcher = async () => {
     const session = getSession();
     try {
+      // Attribute filters run in memory, so page after filtering
+      const filterInMemory = attributeFilters.length > 0;
       const query = buildListRequirementsQuery({
         tenantSlug,
         projectSlug,
         orderBy,
         orderDirection,
-        offset,
-        limit,
+        offset: filterInMemory ? 0 : offset,
+        limit: filterInMemory ? ATTRIBUTE_FILTER_SCAN_LIMIT : limit,
         filters
       });
 
       const result = await executeCypherQuery(session, query);
 
-      return result.records.map(record => {
+      const requirements = result.records.map(record => {
         const node = record.get("requirement") as Neo4jNode;
         const docSlug = record.get("documentSlug");
         const secId = record.get("sectionId");
         return mapRequirement(node, docSlug ? String(docSlug) : undefined);
       });
+
+      if (!filterInMemory) {
+        return requirements;
+      }
+      return requirements
+        .filter(requirement => matchesAttributeFilters(requirement, attributeFilters))
+        .slice(offset, offset + limit);
     } finally {
       await session.close();
     }
@@ -1,14 +1,35 @@
 import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
 import { computeRequirementHash } from "../../../lib/requirement-hash.js";
 import { logger } from "../../../lib/logger.js";
+import { toNumber } from "../../../lib/neo4j-utils.js";
 import { slugify } from "../../workspace.js";
-import type { RequirementRecord, RequirementPattern, VerificationMethod } from "../../workspace.js";
+import type { RequirementAttributes, RequirementRecord, RequirementPattern, VerificationMethod } from "../../workspace.js";
 import { getSession } from "../driver.js";
 import { CacheInvalidation } from "../../../lib/cache.js";
-import { createRequirementVersion } from "./requirements-versions.js";
+import { createRequirementVersion, type RequirementApproval } from "./requirements-versions.js";
+import { executeWriteWithWebhookEvents } from "../../webhooks.js";
+import { flagSuspectLinks } from "../trace-suspect.js";
+import { assertRequirementsUnlocked } from "../documents/documents-lock.js";
+import { enforceAttributeSchema } from "../attribute-schema.js";
 import { embeddingService } from "../../embedding.js";
 import { mapRequirement, type ComplianceStatus } from "./requirements-mapper.js";
 
+/**
+ * Thrown when an update was based on an older version of the requirement
+ * than the one currently stored (optimistic concurrency).
+ */
+export class RequirementConflictError extends Error {
+  readonly statusCode = 409;
+
+  constructor(public readonly current: RequirementRecord, public readonly expectedVersionNumber: number) {
+    super(
+      `Requirement ${current.ref} was changed by someone else (version ${current.versionNumber ?? 0}, ` +
+      `you edited version ${expectedVersionNumber})`
+    );
+    this.name = "RequirementConflictError";
+  }
+}
+
 /**
  * Updates only the timestamp of a requirement
  *
@@ -32,7 +53,9 @@ export async function updateRequirementTimestamp(
         MATCH (project:Project {slug: $projectSlug, tenantSlug: $tenantSlug})
         OPTIONAL MATCH (project)-[:CONTAINS]->(direct:Requirement {ref: $ref})
         OPTIONAL MATCH (project)-[:HAS_DOCUMENT]->(:Document)-[:CONTAINS]->(docReq:Requirement {ref: $ref})
-        WITH coalesce(direct, docReq) AS requirement
+        OPTIONAL MATCH (aliased:Requirement {tenant: $tenantSlug, projectKey: $projectSlug})
+        WHERE direct IS NULL AND docReq IS NULL AND $ref IN coalesce(aliased.refAliases, [])
+        WITH coalesce(direct, docReq, aliased) AS requirement
         WHERE requirement IS NOT NULL
         SET requirement.updatedAt = $now
       `,
@@ -43,270 +66,352 @@ export async function updateRequirementTimestamp(
   }
 }
 
+export type RequirementUpdates = {
+  text?: string;
+  pattern?: RequirementPattern;
+  verification?: VerificationMethod;
+  rationale?: string;
+  complianceStatus?: ComplianceStatus;
+  complianceRationale?: string;
+  sectionId?: string | null;
+  attributes?: RequirementAttributes;
+  qaScore?: number;
+  qaVerdict?: string;
+  qaRulePack?: string;
+  suggestions?: string[];
+  tags?: string[];
+  userId?: string; // User making the change
+  expectedVersionNumber?: number; // Version the caller's edit is based on
+  approval?: RequirementApproval & { changeDescription?: string };
+};
+
 /**
  * Updates a requirement with version tracking, embedding updates, and cache invalidation
  *
+ * Content edits to requirements in an approved (locked) document are rejected
+ * unless they carry the approval of a change request. Each content edit
+ * records a version, so when `expectedVersionNumber` is given the update is
+ * rejected if anyone has edited the requirement since the caller read it.
+ *
  * @param tenant - Tenant slug
  * @param projectKey - Project key/slug
  * @param requirementId - Requirement ID
  * @param updates - Fields to update
  * @returns Updated requirement record or null if not found
+ * @throws AttributeSchemaError if attributes violate the project's attribute schema
+ * @throws DocumentLockedError if the requirement's document is locked
+ * @throws RequirementConflictError if `expectedVersionNumber` is stale
  */
 export async function updateRequirement(
   tenant: string,
   projectKey: string,
   requirementId: string,
-  updates: {
-    text?: string;
-    pattern?: RequirementPattern;
-    verification?: VerificationMethod;
-    rationale?: string;
-    complianceStatus?: ComplianceStatus;
-    complianceRationale?: string;
-    sectionId?: string | null;
-    attributes?: Record<string, string | number | boolean | null>;
-    qaScore?: number;
-    qaVerdict?: string;
-    suggestions?: string[];
-    tags?: string[];
-    userId?: string; // User making the change
-  }
+  updates: RequirementUpdates
 ): Promise<RequirementRecord | null> {
   const tenantSlug = slugify(tenant);
   const projectSlug = slugify(projectKey);
+  if (updates.attributes !== undefined) {
+    updates = { ...updates, attributes: await enforceAttributeSchema(tenantSlug, projectSlug, updates.attributes) };
+  }
   const session = getSession();
   try {
-    const result = await session.executeWrite(async (tx: ManagedTransaction) => {
-      const { sectionId, userId, ...rest } = updates;
-      const propertyUpdates: Record<string, unknown> = { ...rest };
-      const hasSectionUpdate = Object.prototype.hasOwnProperty.call(updates, "sectionId");
+    const requirement = await executeWriteWithWebhookEvents(session, (tx: ManagedTransaction) =>
+      applyRequirementUpdate(tx, tenantSlug, projectSlug, requirementId, updates)
+    );
+    if (!requirement) {
+      return null;
+    }
+
+    // Invalidate requirement cache
+    await CacheInvalidation.invalidateRequirements(tenantSlug, projectSlug);
+
+    return requirement;
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Apply an update within the caller's write transaction, with the same
+ * locking, conflict and version rules as updateRequirement. Attributes must
+ * already have been checked against the attribute schema, and the caller
+ * invalidates caches after the commit.
+ *
+ * @returns The updated requirement, with its new version number when a
+ *   version was recorded, or null if it does not exist
+ */
+export async function applyRequirementUpdate(
+  tx: ManagedTransaction,
+  tenantSlug: string,
+  projectSlug: string,
+  requirementId: string,
+  updates: RequirementUpdates
+): Promise<RequirementRecord | null> {
+  const { sectionId, userId, approval, expectedVersionNumber, ...rest } = updates;
+  const propertyUpdates: Record<string, unknown> = { ...rest };
+
+  if (expectedVersionNumber !== undefined) {
+    // Writing to the node first takes its lock, so concurrent updates serialise on this check
+    const versionResult = await tx.run(
+      `
+        MATCH (requirement:Requirement {id: $requirementId})
+        WHERE requirement.tenant = $tenantSlug AND requirement.projectKey = $projectSlug
+        SET requirement.updatedAt = requirement.updatedAt
+        WITH requirement
+        OPTIONAL MATCH (requirement)-[:HAS_VERSION]->(version:RequirementVersion)
+        RETURN requirement, count(version) AS versionCount
+      `,
+      { tenantSlug, projectSlug, requirementId }
+    );
+    const record = versionResult.records[0];
+    if (record) {
+      const versionCount = toNumber(record.get("versionCount"));
+      if (versionCount !== expectedVersionNumber) {
+        const current = mapRequirement(record.get("requirement") as Neo4jNode);
+        throw new RequirementConflictError({ ...current, versionNumber: versionCount }, expectedVersionNumber);
+      }
+    }
+  }
+  const hasSectionUpdate = Object.prototype.hasOwnProperty.call(updates, "sectionId");
+
+  // Every content change is versioned, since the version count is what
+  // expectedVersionNumber is checked against. QA metadata is not content:
+  // it may still be written to locked documents and records no version.
+  const needsVersion = updates.text !== undefined ||
+                       updates.pattern !== undefined ||
+                       updates.verification !== undefined ||
+                       updates.complianceStatus !== undefined ||
+                       updates.complianceRationale !== undefined ||
+                       updates.rationale !== undefined ||
+                       updates.tags !== undefined ||
+                       updates.attributes !== undefined ||
+                       hasSectionUpdate ||
+                       approval !== undefined;
+  if (needsVersion && !approval) {
+    await assertRequirementsUnlocked(tx, [requirementId]);
+  }
 
-      // Check if this is a meaningful change (not just metadata)
-      const needsVersion = updates.text !== undefined ||
+  // If content fields are being updated, we need to fetch current values to compute hash
+  const needsHashUpdate = updates.text !== undefined ||
                            updates.pattern !== undefined ||
-                           updates.verification !== undefined ||
-                           updates.complianceStatus !== undefined ||
-                           updates.rationale !== undefined;
-
-      // If content fields are being updated, we need to fetch current values to compute hash
-      const needsHashUpdate = updates.text !== undefined ||
-                               updates.pattern !== undefined ||
-                               updates.verification !== undefined;
-
-      let contentHash: string | undefined;
-      let currentRequirement: RequirementRecord | null = null;
-
-      // Fetch current state if we need hash update
-      if (needsHashUpdate) {
-        const currentReq = await tx.run(
-          `
-            MATCH (requirement:Requirement {id: $requirementId})
-            WHERE requirement.tenant = $tenantSlug AND requirement.projectKey = $projectSlug
-            RETURN requirement
-          `,
-          { tenantSlug, projectSlug, requirementId }
-        );
-
-        if (currentReq.records.length > 0) {
-          const node = currentReq.records[0].get("requirement") as Neo4jNode;
-          currentRequirement = mapRequirement(node);
-
-          // Compute new content hash
-          const finalText = updates.text ?? currentRequirement.text;
-          const finalPattern = updates.pattern !== undefined
-            ? updates.pattern
-            : currentRequirement.pattern ?? null;
-          const finalVerification = updates.verification !== undefined
-            ? updates.verification
-            : currentRequirement.verification ?? null;
-
-          contentHash = computeRequirementHash({
-            text: finalText,
-            pattern: finalPattern,
-            verification: finalVerification
-          });
+                           updates.verification !== undefined;
+
+  let contentHash: string | undefined;
+  let currentRequirement: RequirementRecord | null = null;
+
+  // Fetch current state if we need hash update
+  if (needsHashUpdate) {
+    const currentReq = await tx.run(
+      `
+        MATCH (requirement:Requirement {id: $requirementId})
+        WHERE requirement.tenant = $tenantSlug AND requirement.projectKey = $projectSlug
+        RETURN requirement
+      `,
+      { tenantSlug, projectSlug, requirementId }
+    );
 
-          // Generate new embedding if text changed
-          if (updates.text && updates.text !== currentRequirement.text) {
-            try {
-              const newEmbedding = await embeddingService.generateEmbedding(updates.text);
-              logger.info(`[Requirement] Generated new embedding for updated requirement (${newEmbedding.length} dimensions)`);
-              propertyUpdates.embedding = newEmbedding;
-              propertyUpdates.embeddingModel = 'text-embedding-3-small';
-              propertyUpdates.embeddingGeneratedAt = new Date().toISOString();
-            } catch (error) {
-              logger.warn({ err: error }, `[Requirement] Failed to generate embedding`);
-              // Continue without embedding update
-            }
-          }
+    if (currentReq.records.length > 0) {
+      const node = currentReq.records[0].get("requirement") as Neo4jNode;
+      currentRequirement = mapRequirement(node);
+
+      // Compute new content hash
+      const finalText = updates.text ?? currentRequirement.text;
+      const finalPattern = updates.pattern !== undefined
+        ? updates.pattern
+        : currentRequirement.pattern ?? null;
+      const finalVerification = updates.verification !== undefined
+        ? updates.verification
+        : currentRequirement.verification ?? null;
+
+      contentHash = computeRequirementHash({
+        text: finalText,
+        pattern: finalPattern,
+        verification: finalVerification
+      });
+
+      // Generate new embedding if text changed
+      if (updates.text && updates.text !== currentRequirement.text) {
+        try {
+          const { embedding: newEmbedding, model } = await embeddingService.embed(updates.text, {
+            tenant: tenantSlug,
+            project: projectSlug,
+            userId
+          });
+          logger.info(`[Requirement] Generated new embedding for updated requirement (${newEmbedding.length} dimensions)`);
+          propertyUpdates.embedding = newEmbedding;
+          propertyUpdates.embeddingModel = model;
+          propertyUpdates.embeddingGeneratedAt = new Date().toISOString();
+        } catch (error) {
+          logger.warn({ err: error }, `[Requirement] Failed to generate embedding`);
+          // Continue without embedding update
         }
       }
+    }
+  }
 
-      const allUpdates = contentHash ? { ...propertyUpdates, contentHash } : propertyUpdates;
-
-      const now = new Date().toISOString();
-      const baseParams: Record<string, unknown> = {
-        tenantSlug,
-        projectSlug,
-        requirementId
-      };
-
-      // JSON-stringify attributes, suggestions, and tags BEFORE building setClause
-      const serializedUpdates: Record<string, unknown> = { ...allUpdates };
-      if (serializedUpdates.attributes !== undefined) {
-        serializedUpdates.attributes = (serializedUpdates.attributes as Record<string, string | number | boolean | null> | undefined)
-          ? JSON.stringify(serializedUpdates.attributes)
-          : null;
-      }
-      if (serializedUpdates.suggestions !== undefined) {
-        serializedUpdates.suggestions = (serializedUpdates.suggestions as string[] | undefined)
-          ? JSON.stringify(serializedUpdates.suggestions)
-          : null;
-      }
-      if (serializedUpdates.tags !== undefined) {
-        serializedUpdates.tags = (serializedUpdates.tags as string[] | undefined)
-          ? JSON.stringify(serializedUpdates.tags)
-          : null;
-      }
+  const allUpdates = contentHash ? { ...propertyUpdates, contentHash } : propertyUpdates;
 
-      // Build setClause from serialized updates
-      const setClause = Object.entries(serializedUpdates)
-        .filter(([_, value]) => value !== undefined)
-        .map(([key]) => `requirement.${key} = $${key}`)
-        .join(', ');
+  const now = new Date().toISOString();
+  const baseParams: Record<string, unknown> = {
+    tenantSlug,
+    projectSlug,
+    requirementId
+  };
+
+  // JSON-stringify attributes, suggestions, and tags BEFORE building setClause
+  const serializedUpdates: Record<string, unknown> = { ...allUpdates };
+  if (serializedUpdates.attributes !== undefined) {
+    serializedUpdates.attributes = (serializedUpdates.attributes as RequirementAttributes | undefined)
+      ? JSON.stringify(serializedUpdates.attributes)
+      : null;
+  }
+  if (serializedUpdates.suggestions !== undefined) {
+    serializedUpdates.suggestions = (serializedUpdates.suggestions as string[] | undefined)
+      ? JSON.stringify(serializedUpdates.suggestions)
+      : null;
+  }
+  if (serializedUpdates.tags !== undefined) {
+    serializedUpdates.tags = (serializedUpdates.tags as string[] | undefined)
+      ? JSON.stringify(serializedUpdates.tags)
+      : null;
+  }
 
-      if (!setClause && !hasSectionUpdate) {
-        throw new Error("No valid updates provided");
-      }
+  // Build setClause from serialized updates
+  const setClause = Object.entries(serializedUpdates)
+    .filter(([_, value]) => value !== undefined)
+    .map(([key]) => `requirement.${key} = $${key}`)
+    .join(', ');
 
-      const writeParams: Record<string, unknown> = {
-        ...baseParams,
-        now,
-        ...serializedUpdates
-      };
-
-      if (setClause) {
-        await tx.run(
-          `
-            MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
-            MATCH (requirement:Requirement {id: $requirementId})
-            SET ${setClause}, requirement.updatedAt = $now
-          `,
-          writeParams
-        );
-      } else {
-        await tx.run(
-          `
-            MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
-            MATCH (requirement:Requirement {id: $requirementId})
-            SET requirement.updatedAt = $now
-          `,
-          writeParams
-        );
-      }
+  if (!setClause && !hasSectionUpdate) {
+    throw new Error("No valid updates provided");
+  }
 
-      let documentSlug: string | null = null;
-
-      if (hasSectionUpdate) {
-        const sectionParams: Record<string, unknown> = {
-          ...baseParams,
-          sectionId: sectionId ?? null
-        };
-
-        const docResult = await tx.run(
-          `
-            MATCH (requirement:Requirement {id: $requirementId})
-            OPTIONAL MATCH (document:Document)-[:CONTAINS]->(requirement)
-            RETURN document.slug AS documentSlug
-          `,
-          baseParams
-        );
-
-        const docRecord = docResult.records[0];
-        if (docRecord) {
-          const slug = docRecord.get("documentSlug");
-          documentSlug = slug ? String(slug) : null;
-        }
+  const writeParams: Record<string, unknown> = {
+    ...baseParams,
+    now,
+    ...serializedUpdates
+  };
 
-        await tx.run(
-          `
-            MATCH (requirement:Requirement {id: $requirementId})
-            OPTIONAL MATCH (requirement)<-[existingRel:CONTAINS]-(:DocumentSection)
-            WITH requirement, collect(existingRel) AS rels
-            FOREACH (rel IN rels | DELETE rel)
-          `,
-          baseParams
-        );
-
-        if (sectionId) {
-          await tx.run(
-            `
-              MATCH (requirement:Requirement {id: $requirementId})
-              WHERE requirement.tenant = $tenantSlug AND requirement.projectKey = $projectSlug
-              MATCH (newSection:DocumentSection {id: $sectionId})
-              MERGE (newSection)-[:CONTAINS]->(requirement)
-            `,
-            sectionParams
-          );
-
-          // Import these functions from requirements-refs.ts when we create it
-          const { updateRequirementRefsForSection } = await import("./requirements-refs.js");
-          await updateRequirementRefsForSection(tx, sectionId);
-        } else if (documentSlug) {
-          // Import these functions from requirements-refs.ts when we create it
-          const { updateRequirementRefsForDocument } = await import("./requirements-refs.js");
-          await updateRequirementRefsForDocument(tx, tenantSlug, projectSlug, documentSlug);
-        }
-      }
+  if (setClause) {
+    await tx.run(
+      `
+        MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+        MATCH (requirement:Requirement {id: $requirementId})
+        SET ${setClause}, requirement.updatedAt = $now
+      `,
+      writeParams
+    );
+  } else {
+    await tx.run(
+      `
+        MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+        MATCH (requirement:Requirement {id: $requirementId})
+        SET requirement.updatedAt = $now
+      `,
+      writeParams
+    );
+  }
+
+  let documentSlug: string | null = null;
+
+  if (hasSectionUpdate) {
+    const sectionParams: Record<string, unknown> = {
+      ...baseParams,
+      sectionId: sectionId ?? null
+    };
 
-      const finalResult = await tx.run(
+    const docResult = await tx.run(
+      `
+        MATCH (requirement:Requirement {id: $requirementId})
+        OPTIONAL MATCH (document:Document)-[:CONTAINS]->(requirement)
+        RETURN document.slug AS documentSlug
+      `,
+      baseParams
+    );
+
+    const docRecord = docResult.records[0];
+    if (docRecord) {
+      const slug = docRecord.get("documentSlug");
+      documentSlug = slug ? String(slug) : null;
+    }
+
+    await tx.run(
+      `
+        MATCH (requirement:Requirement {id: $requirementId})
+        OPTIONAL MATCH (requirement)<-[existingRel:CONTAINS]-(:DocumentSection)
+        WITH requirement, collect(existingRel) AS rels
+        FOREACH (rel IN rels | DELETE rel)
+      `,
+      baseParams
+    );
+
+    if (sectionId) {
+      await tx.run(
         `
           MATCH (requirement:Requirement {id: $requirementId})
-          RETURN requirement
+          WHERE requirement.tenant = $tenantSlug AND requirement.projectKey = $projectSlug
+          MATCH (newSection:DocumentSection {id: $sectionId})
+          MERGE (newSection)-[:CONTAINS]->(requirement)
         `,
-        baseParams
+        sectionParams
       );
 
-      // Create version snapshot AFTER applying update (if meaningful change)
-      if (needsVersion && finalResult.records.length > 0) {
-        const updatedNode = finalResult.records[0].get("requirement") as Neo4jNode;
-        const updatedReq = mapRequirement(updatedNode);
-
-        await createRequirementVersion(tx, {
-          requirementId,
-          tenantSlug,
-          projectSlug,
-          changedBy: userId || "system",
-          changeType: "updated",
-          text: updatedReq.text,
-          pattern: updatedReq.pattern ?? null,
-          verification: updatedReq.verification ?? null,
-          rationale: updatedReq.rationale ?? null,
-          complianceStatus: updatedReq.complianceStatus ?? null,
-          complianceRationale: updatedReq.complianceRationale ?? null,
-          qaScore: updatedReq.qaScore ?? null,
-          qaVerdict: updatedReq.qaVerdict ?? null,
-          suggestions: updatedReq.suggestions ?? null,
-          tags: updatedReq.tags ?? null,
-          attributes: updatedReq.attributes ?? null,
-          contentHash: updatedReq.contentHash || ""
-        });
-      }
-
-      return finalResult.records[0]?.get("requirement") as Neo4jNode | undefined;
-    });
-
-    if (!result) {
-      return null;
+      // Import these functions from requirements-refs.ts when we create it
+      const { updateRequirementRefsForSection } = await import("./requirements-refs.js");
+      await updateRequirementRefsForSection(tx, sectionId);
+    } else if (documentSlug) {
+      // Import these functions from requirements-refs.ts when we create it
+      const { updateRequirementRefsForDocument } = await import("./requirements-refs.js");
+      await updateRequirementRefsForDocument(tx, tenantSlug, projectSlug, documentSlug);
     }
+  }
 
-    const requirement = mapRequirement(result);
-
-    // Invalidate requirement cache
-    await CacheInvalidation.invalidateRequirements(tenantSlug, projectSlug);
+  const finalResult = await tx.run(
+    `
+      MATCH (requirement:Requirement {id: $requirementId})
+      RETURN requirement
+    `,
+    baseParams
+  );
+
+  // Links to this requirement need review once its content changes
+  if (contentHash && contentHash !== currentRequirement?.contentHash) {
+    await flagSuspectLinks(tx, requirementId, now);
+  }
 
-    return requirement;
-  } finally {
-    await session.close();
+  // Create version snapshot AFTER applying update (if meaningful change)
+  if (needsVersion && finalResult.records.length > 0) {
+    const updatedNode = finalResult.records[0].get("requirement") as Neo4jNode;
+    const updatedReq = mapRequirement(updatedNode);
+
+    const versionNumber = await createRequirementVersion(tx, {
+      requirementId,
+      tenantSlug,
+      projectSlug,
+      changedBy: userId || "system",
+      changeType: "updated",
+      changeDescription: approval?.changeDescription,
+      text: updatedReq.text,
+      pattern: updatedReq.pattern ?? null,
+      verification: updatedReq.verification ?? null,
+      rationale: updatedReq.rationale ?? null,
+      complianceStatus: updatedReq.complianceStatus ?? null,
+      complianceRationale: updatedReq.complianceRationale ?? null,
+      qaScore: updatedReq.qaScore ?? null,
+      qaVerdict: updatedReq.qaVerdict ?? null,
+      suggestions: updatedReq.suggestions ?? null,
+      tags: updatedReq.tags ?? null,
+      attributes: updatedReq.attributes ?? null,
+      contentHash: updatedReq.contentHash || "",
+      approval: approval && {
+        changeRequestId: approval.changeRequestId,
+        approvedBy: approval.approvedBy,
+        approvedAt: approval.approvedAt
+      }
+    });
+    return { ...updatedReq, versionNumber };
   }
+
+  const node = finalResult.records[0]?.get("requirement") as Neo4jNode | undefined;
+  return node ? mapRequirement(node) : null;
 }
@@ -2,6 +2,7 @@ import type { ManagedTransaction } from "neo4j-driver";
 import { randomUUID, createHash } from "crypto";
 import { getSession } from "../driver.js";
 import type { RequirementVersionRecord, RequirementPattern, VerificationMethod } from "../../workspace.js";
+import { emitWebhookEvent } from "../../webhooks.js";
 
 /**
  * Generate content hash for Requirement to detect changes
@@ -35,6 +36,13 @@ export function generateRequirementContentHash(params: {
   return createHash("sha256").update(content).digest("hex");
 }
 
+/** Approval details recorded on versions created by an approved change request */
+export type RequirementApproval = {
+  changeRequestId: string;
+  approvedBy: string[];
+  approvedAt: string;
+};
+
 export async function createRequirementVersion(
   tx: ManagedTransaction,
   params: {
@@ -57,8 +65,9 @@ export async function createRequirementVersion(
     tags?: string[] | null;
     attributes?: Record<string, any> | null;
     contentHash: string;
+    approval?: RequirementApproval;
   }
-): Promise<void> {
+): Promise<number> {
   const versionId = randomUUID();
   const now = new Date().toISOString();
 
@@ -97,9 +106,13 @@ export async function createRequirementVersion(
         suggestions: $suggestions,
         tags: $tags,
         attributes: $attributes,
-        contentHash: $contentHash
+        contentHash: $contentHash,
+        changeRequestId: $changeRequestId,
+        approvedBy: $approvedBy,
+        approvedAt: $approvedAt
       })
       CREATE (req)-[:HAS_VERSION]->(version)
+      SET req.versionNumber = $versionNumber
 
       // Link to previous version if exists
       WITH version, req
@@ -128,9 +141,33 @@ export async function createRequirementVersion(
       suggestions: params.suggestions ? JSON.stringify(params.suggestions) : null,
       tags: params.tags ? JSON.stringify(params.tags) : null,
       attributes: params.attributes ? JSON.stringify(params.attributes) : null,
-      contentHash: params.contentHash
+      contentHash: params.contentHash,
+      changeRequestId: params.approval?.changeRequestId ?? null,
+      approvedBy: params.approval?.approvedBy ?? null,
+      approvedAt: params.approval?.approvedAt ?? null
     }
   );
+
+  emitWebhookEvent({
+    type: `requirement.${params.changeType}`,
+    tenant: params.tenantSlug,
+    project: params.projectSlug,
+    actor: params.changedBy,
+    data: {
+      requirementId: params.requirementId,
+      versionId,
+      versionNumber,
+      changeDescription: params.changeDescription ?? null,
+      changeRequestId: params.approval?.changeRequestId ?? null,
+      text: params.text,
+      pattern: params.pattern ?? null,
+      verification: params.verification ?? null,
+      tags: params.tags ?? [],
+      contentHash: params.contentHash
+    }
+  }, tx);
+
+  return versionNumber;
 }
 
 export async function getRequirementHistory(
@@ -171,7 +208,10 @@ export async function getRequirementHistory(
         suggestions: v.suggestions ? JSON.parse(v.suggestions) : undefined,
         tags: v.tags ? JSON.parse(v.tags) : undefined,
         attributes: v.attributes ? JSON.parse(v.attributes) : undefined,
-        contentHash: String(v.contentHash)
+        contentHash: String(v.contentHash),
+        changeRequestId: v.changeRequestId ? String(v.changeRequestId) : undefined,
+        approvedBy: Array.isArray(v.approvedBy) ? v.approvedBy.map(String) : undefined,
+        approvedAt: v.approvedAt ? String(v.approvedAt) : undefined
       };
     });
   } finally {
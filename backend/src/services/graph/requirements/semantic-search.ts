@@ -142,7 +142,7 @@ export async function searchRequirementsByQuery(
   const safeLimit = Math.max(1, Math.min(100, Math.floor(limit)));
 
   // Generate embedding for the search query
-  const queryEmbedding = await embeddingService.generateEmbedding(query);
+  const queryEmbedding = await embeddingService.generateEmbedding(query, { tenant, project: projectKey });
 
   const session = getSession();
 
@@ -1,4 +1,5 @@
 import { getSession } from "../driver.js";
+import { config } from "../../../config.js";
 import { logger } from "../../../lib/logger.js";
 
 /**
@@ -11,14 +12,14 @@ export async function createVectorIndexes(): Promise<void> {
   try {
     logger.info('[Schema] Creating vector indexes...');
 
-    // Create vector index for requirements
+    // Create vector index for requirements (dimensions follow the embedding model)
     await session.run(`
       CREATE VECTOR INDEX requirement_embeddings IF NOT EXISTS
       FOR (r:Requirement)
       ON r.embedding
       OPTIONS {
         indexConfig: {
-          \`vector.dimensions\`: 1536,
+          \`vector.dimensions\`: ${config.llm.embeddingDimensions},
           \`vector.similarity_function\`: 'cosine'
         }
       }
@@ -25,7 +25,7 @@ type GetParams = {
   elementId: string;
 };
 
-function mapSysmlElement(node: Neo4jNode): SysmlElement {
+export function mapSysmlElement(node: Neo4jNode): SysmlElement {
   const props = node.properties;
   let blockData: SysmlBlockData | null = null;
   let interfaceData: SysmlInterfaceData | null = null;
@@ -0,0 +1,400 @@
+import type { Node as Neo4jNode } from "neo4j-driver";
+import { getSession } from "../driver.js";
+import { mapSysmlElement, createSysmlElement, updateSysmlElement, createSysmlElementRelationship } from "./elements.js";
+import { listSysmlPackages, createSysmlPackage, updateSysmlPackage } from "./packages.js";
+import {
+  joinQualifiedName,
+  parseSysmlText,
+  resolveSysmlReference,
+  serializeSysmlText,
+  SYSML_ELEMENT_ATTRIBUTES,
+  type SysmlModel,
+  type SysmlModelElement,
+  type SysmlModelPackage,
+  type SysmlModelProperties,
+  type SysmlTextElementType
+} from "./textual.js";
+import type { SysmlElement } from "./types.js";
+
+type ProjectParams = {
+  tenant: string;
+  projectKey: string;
+};
+
+export type SysmlImportAction = "create" | "update" | "unchanged" | "skip";
+
+export type SysmlImportFieldChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type SysmlImportChange = {
+  entity: "package" | "element" | "relationship";
+  action: SysmlImportAction;
+  /** Qualified name, or `source TYPE target` for relationships */
+  name: string;
+  elementType?: SysmlTextElementType;
+  fields?: SysmlImportFieldChange[];
+  /** Resolved endpoints, for relationship changes */
+  relationship?: { source: string; target: string; type: string };
+  reason?: string;
+  line?: number;
+};
+
+export type SysmlImportPlan = {
+  changes: SysmlImportChange[];
+  warnings: string[];
+};
+
+export type SysmlImportResult = SysmlImportPlan & {
+  dryRun: boolean;
+  summary: Record<SysmlImportAction, number>;
+};
+
+export type SysmlExportResult = {
+  text: string;
+  counts: { packages: number; elements: number; relationships: number };
+  warnings: string[];
+};
+
+const TEXTUAL_ELEMENT_TYPES = new Set<string>(["block", "interface", "port"]);
+
+function toModelProperties(element: SysmlElement): SysmlModelProperties {
+  switch (element.elementType) {
+    case "block":
+      return { blockKind: element.block?.blockKind ?? null, isAbstract: element.block?.isAbstract ?? null };
+    case "interface":
+      return {
+        protocol: element.interface?.protocol ?? null,
+        direction: element.interface?.direction ?? null,
+        rate: element.interface?.rate ?? null
+      };
+    default:
+      return {
+        direction: element.port?.direction ?? null,
+        portType: element.port?.portType ?? null,
+        typeRef: element.port?.typeRef ?? null,
+        protocol: element.port?.protocol ?? null,
+        rate: element.port?.rate ?? null,
+        conjugated: element.port?.conjugated ?? null
+      };
+  }
+}
+
+/**
+ * Load the project's packages, block/interface/port elements and the
+ * relationships between them as a model keyed by qualified name.
+ */
+export async function loadSysmlModel(params: ProjectParams): Promise<SysmlModel & { warnings: string[] }> {
+  const warnings: string[] = [];
+  const packages = await listSysmlPackages(params);
+
+  const packagesById = new Map(packages.map(pkg => [pkg.id, pkg]));
+  const qualifiedPackageNames = new Map<string, string>();
+  const qualifiedPackageName = (id: string, seen = new Set<string>()): string => {
+    const cached = qualifiedPackageNames.get(id);
+    if (cached) {
+      return cached;
+    }
+    const pkg = packagesById.get(id)!;
+    const parent = pkg.parentId && packagesById.has(pkg.parentId) && !seen.has(pkg.parentId)
+      ? qualifiedPackageName(pkg.parentId, new Set([...seen, id]))
+      : null;
+    const name = joinQualifiedName(parent, pkg.name);
+    qualifiedPackageNames.set(id, name);
+    return name;
+  };
+
+  const modelPackages: SysmlModelPackage[] = packages.map(pkg => {
+    const qualifiedName = qualifiedPackageName(pkg.id);
+    const parent = pkg.parentId && packagesById.has(pkg.parentId) ? qualifiedPackageName(pkg.parentId) : null;
+    return { id: pkg.id, qualifiedName, name: pkg.name, parent, packageKind: pkg.packageKind };
+  });
+
+  const session = getSession();
+  try {
+    const elementResult = await session.run(
+      `
+        MATCH (elem:SYSML_ELEMENT {tenant: $tenant, projectKey: $projectKey})
+        WHERE elem.lifecycleState IS NULL OR elem.lifecycleState <> 'retired'
+        RETURN elem
+        ORDER BY elem.name ASC
+      `,
+      params
+    );
+
+    const elements: SysmlModelElement[] = [];
+    const qualifiedById = new Map<string, string>();
+    for (const record of elementResult.records) {
+      const element = mapSysmlElement(record.get("elem") as Neo4jNode);
+      if (!TEXTUAL_ELEMENT_TYPES.has(element.elementType)) {
+        warnings.push(`Skipped ${element.elementType} element ${element.name}: not supported in textual exchange`);
+        continue;
+      }
+      const packageName = element.packageId ? qualifiedPackageNames.get(element.packageId) ?? null : null;
+      const qualifiedName = joinQualifiedName(packageName, element.name);
+      if (elements.some(existing => existing.qualifiedName === qualifiedName)) {
+        warnings.push(`Skipped duplicate element name ${qualifiedName}`);
+        continue;
+      }
+      qualifiedById.set(element.id, qualifiedName);
+      elements.push({
+        id: element.id,
+        qualifiedName,
+        name: element.name,
+        packageName,
+        elementType: element.elementType as SysmlTextElementType,
+        stereotype: element.stereotype ?? null,
+        documentation: element.documentation ?? null,
+        properties: toModelProperties(element)
+      });
+    }
+
+    const relationshipResult = await session.run(
+      `
+        MATCH (source:SYSML_ELEMENT {tenant: $tenant, projectKey: $projectKey})-[rel]->(target:SYSML_ELEMENT {tenant: $tenant, projectKey: $projectKey})
+        RETURN source.id AS sourceId, type(rel) AS type, target.id AS targetId
+        ORDER BY type, sourceId, targetId
+      `,
+      params
+    );
+
+    const relationships = relationshipResult.records
+      .map(record => ({
+        source: qualifiedById.get(String(record.get("sourceId"))),
+        target: qualifiedById.get(String(record.get("targetId"))),
+        type: String(record.get("type"))
+      }))
+      .filter((rel): rel is { source: string; target: string; type: string } => Boolean(rel.source && rel.target));
+
+    return { packages: modelPackages, elements, relationships, warnings };
+  } finally {
+    await session.close();
+  }
+}
+
+/** Export the project's SysML model as SysML v2 textual notation */
+export async function exportSysmlModel(params: ProjectParams): Promise<SysmlExportResult> {
+  const model = await loadSysmlModel(params);
+  const text = serializeSysmlText(model, `SysML v2 model exported from AirGen\n${params.tenant}/${params.projectKey} at ${new Date().toISOString()}`);
+
+  return {
+    text,
+    counts: {
+      packages: model.packages.length,
+      elements: model.elements.length,
+      relationships: model.relationships.length
+    },
+    warnings: model.warnings
+  };
+}
+
+function normalized(value: unknown): unknown {
+  return value === undefined || value === "" ? null : value;
+}
+
+function diffElement(existing: SysmlModelElement, incoming: SysmlModelElement): SysmlImportFieldChange[] {
+  const fields: SysmlImportFieldChange[] = [];
+  const compare = (field: string, before: unknown, after: unknown) => {
+    if (normalized(before) !== normalized(after)) {
+      fields.push({ field, before: normalized(before), after: normalized(after) });
+    }
+  };
+
+  compare("stereotype", existing.stereotype, incoming.stereotype);
+  compare("documentation", existing.documentation, incoming.documentation);
+  const keys: Array<keyof SysmlModelProperties> = incoming.elementType === "block"
+    ? [...SYSML_ELEMENT_ATTRIBUTES.block, "isAbstract"]
+    : SYSML_ELEMENT_ATTRIBUTES[incoming.elementType];
+  for (const key of keys) {
+    // A missing abstract keyword means concrete, so compare false against unset as equal
+    const before = key === "isAbstract" ? Boolean(existing.properties[key]) : existing.properties[key];
+    const after = key === "isAbstract" ? Boolean(incoming.properties[key]) : incoming.properties[key];
+    compare(key, before, after);
+  }
+  return fields;
+}
+
+/**
+ * Compare an imported model against the project's current model. The text is
+ * authoritative for what it declares; nothing missing from it is deleted.
+ */
+export function planSysmlImport(existing: SysmlModel, incoming: SysmlModel): SysmlImportPlan {
+  const changes: SysmlImportChange[] = [];
+  const warnings: string[] = [];
+
+  const existingPackages = new Map(existing.packages.map(pkg => [pkg.qualifiedName, pkg]));
+  for (const pkg of incoming.packages) {
+    const current = existingPackages.get(pkg.qualifiedName);
+    if (!current) {
+      changes.push({ entity: "package", action: "create", name: pkg.qualifiedName, line: pkg.line });
+    } else if (current.packageKind !== pkg.packageKind) {
+      changes.push({
+        entity: "package",
+        action: "update",
+        name: pkg.qualifiedName,
+        fields: [{ field: "packageKind", before: current.packageKind, after: pkg.packageKind }],
+        line: pkg.line
+      });
+    } else {
+      changes.push({ entity: "package", action: "unchanged", name: pkg.qualifiedName, line: pkg.line });
+    }
+  }
+
+  const existingElements = new Map(existing.elements.map(element => [element.qualifiedName, element]));
+  const importable = new Set<string>(existing.elements.map(element => element.qualifiedName));
+  for (const element of incoming.elements) {
+    const current = existingElements.get(element.qualifiedName);
+    if (!current) {
+      changes.push({ entity: "element", action: "create", name: element.qualifiedName, elementType: element.elementType, line: element.line });
+      importable.add(element.qualifiedName);
+    } else if (current.elementType !== element.elementType) {
+      changes.push({
+        entity: "element",
+        action: "skip",
+        name: element.qualifiedName,
+        elementType: element.elementType,
+        reason: `already exists as a ${current.elementType}`,
+        line: element.line
+      });
+    } else {
+      const fields = diffElement(current, element);
+      changes.push({
+        entity: "element",
+        action: fields.length > 0 ? "update" : "unchanged",
+        name: element.qualifiedName,
+        elementType: element.elementType,
+        fields: fields.length > 0 ? fields : undefined,
+        line: element.line
+      });
+    }
+  }
+
+  const existingRelationships = new Set(existing.relationships.map(rel => `${rel.source} ${rel.type} ${rel.target}`));
+  const planned = new Set<string>();
+  for (const rel of incoming.relationships) {
+    const source = resolveSysmlReference(rel.source, rel.scope, importable);
+    const target = resolveSysmlReference(rel.target, rel.scope, importable);
+    if (!source || !target) {
+      warnings.push(`Line ${rel.line}: could not resolve ${!source ? rel.source : rel.target} for ${rel.type}`);
+      continue;
+    }
+    const key = `${source} ${rel.type} ${target}`;
+    if (planned.has(key)) {
+      continue;
+    }
+    planned.add(key);
+    changes.push({
+      entity: "relationship",
+      action: existingRelationships.has(key) ? "unchanged" : "create",
+      name: key,
+      relationship: { source, target, type: rel.type },
+      line: rel.line
+    });
+  }
+
+  return { changes, warnings };
+}
+
+function elementPayload(element: SysmlModelElement) {
+  const props = element.properties;
+  switch (element.elementType) {
+    case "block":
+      return { block: { blockKind: props.blockKind ?? null, isAbstract: Boolean(props.isAbstract) } };
+    case "interface":
+      return { interface: { protocol: props.protocol ?? null, direction: props.direction ?? null, rate: props.rate ?? null } };
+    case "port":
+      return {
+        port: {
+          direction: props.direction ?? null,
+          portType: props.portType ?? null,
+          isConjugated: props.conjugated ?? null,
+          typeRef: props.typeRef ?? null,
+          protocol: props.protocol ?? null,
+          rate: props.rate ?? null
+        }
+      };
+  }
+}
+
+/**
+ * Import SysML v2 textual notation into the project. With `dryRun` the plan
+ * is returned without writing anything.
+ */
+export async function importSysmlModel(params: ProjectParams & { text: string; dryRun?: boolean }): Promise<SysmlImportResult> {
+  const parsed = parseSysmlText(params.text);
+  const existing = await loadSysmlModel(params);
+  const plan = planSysmlImport(existing, parsed);
+  const dryRun = Boolean(params.dryRun);
+
+  if (!dryRun) {
+    const packageIds = new Map(existing.packages.map(pkg => [pkg.qualifiedName, pkg.id!]));
+    const elementIds = new Map(existing.elements.map(element => [element.qualifiedName, element.id!]));
+    const incomingPackages = new Map(parsed.packages.map(pkg => [pkg.qualifiedName, pkg]));
+    const incomingElements = new Map(parsed.elements.map(element => [element.qualifiedName, element]));
+
+    // Plan order follows the text, so parents are created before their children
+    for (const change of plan.changes) {
+      if (change.action !== "create" && change.action !== "update") {
+        continue;
+      }
+
+      if (change.entity === "package") {
+        const pkg = incomingPackages.get(change.name)!;
+        if (change.action === "create") {
+          const created = await createSysmlPackage({
+            ...params,
+            name: pkg.name,
+            packageKind: pkg.packageKind,
+            parentId: pkg.parent ? packageIds.get(pkg.parent) ?? null : null
+          });
+          packageIds.set(pkg.qualifiedName, created.id);
+        } else {
+          await updateSysmlPackage({ ...params, packageId: packageIds.get(pkg.qualifiedName)!, packageKind: pkg.packageKind });
+        }
+      } else if (change.entity === "element") {
+        const element = incomingElements.get(change.name)!;
+        const common = {
+          tenant: params.tenant,
+          projectKey: params.projectKey,
+          stereotype: element.stereotype,
+          documentation: element.documentation
+        };
+        if (change.action === "create") {
+          const packageId = element.packageName ? packageIds.get(element.packageName) : undefined;
+          const created = await createSysmlElement({
+            ...common,
+            name: element.name,
+            packageId,
+            elementType: element.elementType,
+            ...elementPayload(element)
+          } as Parameters<typeof createSysmlElement>[0]);
+          elementIds.set(element.qualifiedName, created.id);
+        } else {
+          await updateSysmlElement({ ...common, elementId: elementIds.get(element.qualifiedName)!, ...elementPayload(element) });
+        }
+      } else if (change.relationship) {
+        await createSysmlElementRelationship({
+          tenant: params.tenant,
+          projectKey: params.projectKey,
+          sourceElementId: elementIds.get(change.relationship.source)!,
+          targetElementId: elementIds.get(change.relationship.target)!,
+          type: change.relationship.type
+        });
+      }
+    }
+  }
+
+  const summary: Record<SysmlImportAction, number> = { create: 0, update: 0, unchanged: 0, skip: 0 };
+  for (const change of plan.changes) {
+    summary[change.action]++;
+  }
+
+  return {
+    dryRun,
+    summary,
+    changes: plan.changes,
+    warnings: [...parsed.warnings, ...plan.warnings]
+  };
+}
@@ -22,3 +22,28 @@ export {
   updateSysmlDiagram,
   deleteSysmlDiagram
 } from "./diagrams.js";
+export {
+  SysmlTextError,
+  parseSysmlText,
+  serializeSysmlText,
+  resolveSysmlReference
+} from "./textual.js";
+export type {
+  SysmlModel,
+  SysmlModelPackage,
+  SysmlModelElement,
+  SysmlModelRelationship,
+  ParsedSysmlText
+} from "./textual.js";
+export {
+  loadSysmlModel,
+  exportSysmlModel,
+  planSysmlImport,
+  importSysmlModel
+} from "./exchange.js";
+export type {
+  SysmlImportChange,
+  SysmlImportPlan,
+  SysmlImportResult,
+  SysmlExportResult
+} from "./exchange.js";
@@ -1,7 +1,7 @@
 import { config } from "../../../config.js";
 import type { SysmlServiceStatus } from "./types.js";
 
-const STATUS_VERSION = "phase0-sysml-scaffold";
+const STATUS_VERSION = "mvp-sysml-textual";
 
 /**
  * Provide a simple status payload so front-end clients can detect
@@ -9,13 +9,13 @@ const STATUS_VERSION = "phase0-sysml-scaffold";
  */
 export function getSysmlServiceStatus(): SysmlServiceStatus {
   const betaEnabled = Boolean(config.features.sysmlBetaEnabled);
-  const ready = false; // Phase 0 scaffold; flip once MVP endpoints are functional
+  const ready = betaEnabled;
 
   return {
     ready,
-    phase: "architecture",
+    phase: "mvp",
     message: betaEnabled
-      ? "SysML services are undergoing Phase 0 architecture setup."
+      ? "SysML model CRUD and v2 textual import/export are available."
       : "SysML beta feature flag is disabled.",
     version: STATUS_VERSION
   };
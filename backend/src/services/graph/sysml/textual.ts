@@ -0,0 +1,692 @@
+import type { SysmlPackageKind } from "./types.js";
+
+/**
+ * SysML v2 textual notation for the subset of the model AirGen stores:
+ * packages, block/interface/port definitions and the relationships between
+ * them. Serializing and parsing are pure so both directions can be tested
+ * without a database.
+ *
+ * Mapping:
+ *   package / library package / #view package  ↔ SysmlPackage
+ *   part def / interface def / port def         ↔ block / interface / port
+ *   abstract, #Stereotype, doc, attribute x = v  ↔ element fields
+ *   :> Target                                    ↔ SPECIALIZES relationship
+ *   part p : Target; / port p : Target;          ↔ HAS_PART / HAS_PORT relationships
+ *   dependency TYPE from A to B;                 ↔ any other relationship type
+ */
+
+export type SysmlTextElementType = "block" | "interface" | "port";
+
+/** Element fields carried as attributes, per element type */
+export type SysmlModelProperties = {
+  blockKind?: string | null;
+  isAbstract?: boolean | null;
+  protocol?: string | null;
+  direction?: string | null;
+  rate?: number | null;
+  portType?: string | null;
+  typeRef?: string | null;
+  conjugated?: boolean | null;
+};
+
+export type SysmlModelPackage = {
+  id?: string;
+  qualifiedName: string;
+  name: string;
+  parent: string | null;
+  packageKind: SysmlPackageKind;
+  line?: number;
+};
+
+export type SysmlModelElement = {
+  id?: string;
+  qualifiedName: string;
+  name: string;
+  packageName: string | null;
+  elementType: SysmlTextElementType;
+  stereotype: string | null;
+  documentation: string | null;
+  properties: SysmlModelProperties;
+  line?: number;
+};
+
+export type SysmlModelRelationship = {
+  /** Qualified name of the source element */
+  source: string;
+  /** Qualified name of the target, or the reference as written when parsed */
+  target: string;
+  type: string;
+  /** Package the reference was written in, for resolving relative names */
+  scope?: string | null;
+  line?: number;
+};
+
+export type SysmlModel = {
+  packages: SysmlModelPackage[];
+  elements: SysmlModelElement[];
+  relationships: SysmlModelRelationship[];
+};
+
+export type ParsedSysmlText = SysmlModel & {
+  warnings: string[];
+};
+
+export const SYSML_SPECIALIZATION = "SPECIALIZES";
+export const SYSML_PART = "HAS_PART";
+export const SYSML_PORT = "HAS_PORT";
+
+const DEFINITION_KEYWORDS: Record<SysmlTextElementType, string> = {
+  block: "part",
+  interface: "interface",
+  port: "port"
+};
+
+/** Attributes exported for each element type, in output order */
+export const SYSML_ELEMENT_ATTRIBUTES: Record<SysmlTextElementType, Array<keyof SysmlModelProperties>> = {
+  block: ["blockKind"],
+  interface: ["protocol", "direction", "rate"],
+  port: ["direction", "portType", "typeRef", "protocol", "rate", "conjugated"]
+};
+
+const RESERVED_WORDS = new Set([
+  "abstract", "attribute", "def", "dependency", "doc", "from", "import", "interface", "library",
+  "package", "part", "port", "private", "protected", "public", "specializes", "standard", "to"
+]);
+
+/** Error with an HTTP status for the global error handler */
+export class SysmlTextError extends Error {
+  constructor(public readonly statusCode: 400, message: string, public readonly line?: number) {
+    super(line ? `Line ${line}: ${message}` : message);
+    this.name = "SysmlTextError";
+  }
+}
+
+export function isSysmlRelationshipType(type: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(type);
+}
+
+export function joinQualifiedName(parent: string | null, name: string): string {
+  return parent ? `${parent}::${formatName(name)}` : formatName(name);
+}
+
+// ── Serializer ─────────────────────────────────────────────────
+
+function formatName(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !RESERVED_WORDS.has(name)
+    ? name
+    : `'${name.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+function formatValue(value: string | number | boolean): string {
+  return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
+
+function formatDoc(documentation: string, indent: string): string {
+  const lines = documentation.replace(/\*\//g, "* /").split(/\r?\n/);
+  return `${indent}doc /* ${lines.join(`\n${indent}     * `)} */`;
+}
+
+function usageName(targetQualifiedName: string, used: Set<string>): string {
+  const simple = targetQualifiedName.split("::").pop()!.replace(/^'|'$/g, "");
+  const words = simple.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  let base = words.map((word, index) => index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1)).join("") || "usage";
+  if (!/^[A-Za-z_]/.test(base)) {
+    base = `_${base}`;
+  }
+  let name = base;
+  for (let suffix = 2; used.has(name) || RESERVED_WORDS.has(name); suffix++) {
+    name = `${base}${suffix}`;
+  }
+  used.add(name);
+  return name;
+}
+
+/**
+ * Serialize a model as SysML v2 textual notation. Relationships must use
+ * qualified names for both ends.
+ */
+export function serializeSysmlText(model: SysmlModel, header?: string): string {
+  const childPackages = new Map<string | null, SysmlModelPackage[]>();
+  for (const pkg of model.packages) {
+    childPackages.set(pkg.parent, [...(childPackages.get(pkg.parent) ?? []), pkg]);
+  }
+  const elementsByPackage = new Map<string | null, SysmlModelElement[]>();
+  for (const element of model.elements) {
+    elementsByPackage.set(element.packageName, [...(elementsByPackage.get(element.packageName) ?? []), element]);
+  }
+  const relationshipsBySource = new Map<string, SysmlModelRelationship[]>();
+  for (const relationship of model.relationships) {
+    relationshipsBySource.set(relationship.source, [...(relationshipsBySource.get(relationship.source) ?? []), relationship]);
+  }
+
+  const lines: string[] = [];
+  if (header) {
+    lines.push(...header.split("\n").map(line => `// ${line}`), "");
+  }
+
+  const writeElement = (element: SysmlModelElement, indent: string, dependencies: SysmlModelRelationship[]) => {
+    const relationships = relationshipsBySource.get(element.qualifiedName) ?? [];
+    const specializations = relationships.filter(rel => rel.type === SYSML_SPECIALIZATION);
+    const usages = relationships.filter(rel => rel.type === SYSML_PART || rel.type === SYSML_PORT);
+    dependencies.push(...relationships.filter(rel => !specializations.includes(rel) && !usages.includes(rel)));
+
+    const prefix = [
+      element.stereotype ? `#${formatName(element.stereotype)}` : null,
+      element.properties.isAbstract ? "abstract" : null,
+      `${DEFINITION_KEYWORDS[element.elementType]} def`,
+      formatName(element.name)
+    ].filter(Boolean).join(" ");
+    const specializes = specializations.length > 0 ? ` :> ${specializations.map(rel => rel.target).join(", ")}` : "";
+
+    const body: string[] = [];
+    if (element.documentation) {
+      body.push(formatDoc(element.documentation, `${indent}    `));
+    }
+    for (const key of SYSML_ELEMENT_ATTRIBUTES[element.elementType]) {
+      const value = element.properties[key];
+      if (value !== null && value !== undefined && value !== "") {
+        body.push(`${indent}    attribute ${key} = ${formatValue(value)};`);
+      }
+    }
+    const used = new Set<string>();
+    for (const usage of usages) {
+      body.push(`${indent}    ${usage.type === SYSML_PORT ? "port" : "part"} ${usageName(usage.target, used)} : ${usage.target};`);
+    }
+
+    if (body.length === 0) {
+      lines.push(`${indent}${prefix}${specializes};`);
+    } else {
+      lines.push(`${indent}${prefix}${specializes} {`, ...body, `${indent}}`);
+    }
+  };
+
+  const writeMembers = (packageName: string | null, indent: string) => {
+    const dependencies: SysmlModelRelationship[] = [];
+    for (const element of elementsByPackage.get(packageName) ?? []) {
+      writeElement(element, indent, dependencies);
+    }
+    for (const pkg of childPackages.get(packageName) ?? []) {
+      const keyword = pkg.packageKind === "library" ? "library package" : pkg.packageKind === "view" ? "#view package" : "package";
+      lines.push(`${indent}${keyword} ${formatName(pkg.name)} {`);
+      writeMembers(pkg.qualifiedName, `${indent}    `);
+      lines.push(`${indent}}`);
+    }
+    for (const dependency of dependencies) {
+      lines.push(`${indent}dependency ${formatName(dependency.type)} from ${dependency.source} to ${dependency.target};`);
+    }
+  };
+
+  writeMembers(null, "");
+  return `${lines.join("\n")}\n`;
+}
+
+// ── Tokenizer ──────────────────────────────────────────────────
+
+type Token =
+  | { kind: "word"; value: string; line: number }
+  | { kind: "name"; value: string; line: number }
+  | { kind: "string"; value: string; line: number }
+  | { kind: "number"; value: number; line: number }
+  | { kind: "comment"; value: string; line: number }
+  | { kind: "symbol"; value: string; line: number };
+
+const SYMBOLS = ["::", ":>", ":", "{", "}", ";", "=", ",", "#", "~", "[", "]", "*", ".", "(", ")"];
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let index = 0;
+
+  const readQuoted = (quote: string): string => {
+    let value = "";
+    const startLine = line;
+    index++;
+    while (index < text.length && text[index] !== quote) {
+      if (text[index] === "\n") {
+        line++;
+      }
+      if (text[index] === "\\" && index + 1 < text.length) {
+        const next = text[index + 1];
+        value += next === "n" ? "\n" : next === "t" ? "\t" : next;
+        index += 2;
+        continue;
+      }
+      value += text[index++];
+    }
+    if (index >= text.length) {
+      throw new SysmlTextError(400, `Unterminated ${quote === "'" ? "name" : "string"}`, startLine);
+    }
+    index++;
+    return value;
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === "\n") {
+      line++;
+      index++;
+    } else if (/\s/.test(char)) {
+      index++;
+    } else if (text.startsWith("//", index)) {
+      while (index < text.length && text[index] !== "\n") {
+        index++;
+      }
+    } else if (text.startsWith("/*", index)) {
+      const end = text.indexOf("*/", index + 2);
+      if (end === -1) {
+        throw new SysmlTextError(400, "Unterminated comment", line);
+      }
+      const value = text.slice(index + 2, end);
+      tokens.push({ kind: "comment", value, line });
+      line += value.split("\n").length - 1;
+      index = end + 2;
+    } else if (char === "'") {
+      const startLine = line;
+      tokens.push({ kind: "name", value: readQuoted("'"), line: startLine });
+    } else if (char === "\"") {
+      const startLine = line;
+      tokens.push({ kind: "string", value: readQuoted("\""), line: startLine });
+    } else if (/[0-9]/.test(char) || (char === "-" && /[0-9]/.test(text[index + 1] ?? ""))) {
+      const match = /^-?\d+(\.\d+)?([eE][-+]?\d+)?/.exec(text.slice(index))!;
+      tokens.push({ kind: "number", value: Number(match[0]), line });
+      index += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(index))!;
+      tokens.push({ kind: "word", value: match[0], line });
+      index += match[0].length;
+    } else {
+      const symbol = SYMBOLS.find(candidate => text.startsWith(candidate, index));
+      if (!symbol) {
+        throw new SysmlTextError(400, `Unexpected character '${char}'`, line);
+      }
+      tokens.push({ kind: "symbol", value: symbol, line });
+      index += symbol.length;
+    }
+  }
+
+  return tokens;
+}
+
+// ── Parser ─────────────────────────────────────────────────────
+
+const ELEMENT_TYPES_BY_KEYWORD: Record<string, SysmlTextElementType> = {
+  part: "block",
+  interface: "interface",
+  port: "port"
+};
+
+function parseDocComment(comment: string): string {
+  return comment
+    .split(/\r?\n/)
+    .map((line, index) => index === 0 ? line.trim() : line.replace(/^\s*\*\s?/, "").trimEnd())
+    .join("\n")
+    .trim();
+}
+
+class SysmlParser {
+  private position = 0;
+  private readonly model: ParsedSysmlText = { packages: [], elements: [], relationships: [], warnings: [] };
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ParsedSysmlText {
+    this.parseMembers(null);
+    if (this.peek()) {
+      throw new SysmlTextError(400, "Unexpected '}'", this.peek()!.line);
+    }
+    return this.model;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private lastLine(): number {
+    return this.peek()?.line ?? this.tokens[this.tokens.length - 1]?.line ?? 1;
+  }
+
+  private isWord(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === "word" && token.value === value;
+  }
+
+  private isSymbol(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === "symbol" && token.value === value;
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new SysmlTextError(400, "Unexpected end of input", this.lastLine());
+    }
+    return token;
+  }
+
+  private expectSymbol(value: string): void {
+    const token = this.next();
+    if (token.kind !== "symbol" || token.value !== value) {
+      throw new SysmlTextError(400, `Expected '${value}'`, token.line);
+    }
+  }
+
+  private expectWord(value: string): void {
+    const token = this.next();
+    if (token.kind !== "word" || token.value !== value) {
+      throw new SysmlTextError(400, `Expected '${value}'`, token.line);
+    }
+  }
+
+  private parseName(): string {
+    const token = this.next();
+    if (token.kind === "name" || (token.kind === "word" && !RESERVED_WORDS.has(token.value))) {
+      return token.value;
+    }
+    throw new SysmlTextError(400, "Expected a name", token.line);
+  }
+
+  /** A possibly qualified reference, normalized to `A::'B c'` form */
+  private parseReference(): string {
+    const parts = [formatName(this.parseName())];
+    while (this.isSymbol("::")) {
+      this.next();
+      parts.push(formatName(this.parseName()));
+    }
+    return parts.join("::");
+  }
+
+  /** Skip one declaration we do not model: up to the next `;` or balanced `{}` block */
+  private skipDeclaration(description: string): void {
+    const line = this.peek()?.line;
+    let depth = 0;
+    while (this.peek()) {
+      // Never consume the brace closing the enclosing block
+      if (depth === 0 && this.isSymbol("}")) {
+        break;
+      }
+      const token = this.next();
+      if (token.kind !== "symbol") {
+        continue;
+      }
+      if (token.value === "{") {
+        depth++;
+      } else if (token.value === "}") {
+        depth--;
+        if (depth === 0) {
+          break;
+        }
+      } else if (token.value === ";" && depth === 0) {
+        break;
+      }
+    }
+    this.model.warnings.push(`Line ${line}: skipped unsupported ${description}`);
+  }
+
+  private describeAt(): string {
+    const words: string[] = [];
+    for (let offset = 0; offset < 3; offset++) {
+      const token = this.peek(offset);
+      if (!token || token.kind === "symbol") break;
+      words.push(String(token.value));
+    }
+    return `'${words.join(" ")}'`;
+  }
+
+  private parseMembers(scope: string | null): void {
+    while (this.peek() && !this.isSymbol("}")) {
+      const token = this.peek()!;
+
+      if (token.kind === "comment") {
+        this.next();
+        continue;
+      }
+      if (token.kind === "word" && ["public", "private", "protected"].includes(token.value)) {
+        this.next();
+        continue;
+      }
+      if (this.isWord("import") || this.isWord("alias")) {
+        this.skipDeclaration(`${token.value} declaration`);
+        continue;
+      }
+      if (this.isWord("doc")) {
+        this.next();
+        if (this.peek()?.kind === "comment") {
+          this.next();
+        }
+        continue;
+      }
+
+      const metadata: string[] = [];
+      while (this.isSymbol("#")) {
+        this.next();
+        metadata.push(this.parseName());
+      }
+      let isAbstract = false;
+      if (this.isWord("abstract")) {
+        this.next();
+        isAbstract = true;
+      }
+
+      if (this.isWord("package") || this.isWord("library") || (this.isWord("standard") && this.isWord("library", 1))) {
+        this.parsePackage(scope, metadata);
+      } else if (this.peek()?.kind === "word" && ELEMENT_TYPES_BY_KEYWORD[String(this.peek()!.value)] && this.isWord("def", 1)) {
+        this.parseDefinition(scope, metadata, isAbstract);
+      } else if (this.isWord("dependency")) {
+        this.parseDependency(scope);
+      } else {
+        this.skipDeclaration(`declaration ${this.describeAt()}`);
+      }
+    }
+  }
+
+  private parsePackage(scope: string | null, metadata: string[]): void {
+    const line = this.peek()!.line;
+    let packageKind: SysmlPackageKind = metadata.includes("view") ? "view" : "model";
+    if (this.isWord("standard")) {
+      this.next();
+    }
+    if (this.isWord("library")) {
+      this.next();
+      packageKind = "library";
+    }
+    this.expectWord("package");
+    const name = this.parseName();
+    const qualifiedName = joinQualifiedName(scope, name);
+
+    if (!this.model.packages.some(pkg => pkg.qualifiedName === qualifiedName)) {
+      this.model.packages.push({ qualifiedName, name, parent: scope, packageKind, line });
+    }
+
+    if (this.isSymbol(";")) {
+      this.next();
+      return;
+    }
+    this.expectSymbol("{");
+    this.parseMembers(qualifiedName);
+    this.expectSymbol("}");
+  }
+
+  private parseDefinition(scope: string | null, metadata: string[], isAbstract: boolean): void {
+    const line = this.peek()!.line;
+    const elementType = ELEMENT_TYPES_BY_KEYWORD[String(this.next().value)];
+    this.expectWord("def");
+    const name = this.parseName();
+    const qualifiedName = joinQualifiedName(scope, name);
+
+    if (this.model.elements.some(element => element.qualifiedName === qualifiedName)) {
+      throw new SysmlTextError(400, `Duplicate definition of ${qualifiedName}`, line);
+    }
+
+    const element: SysmlModelElement = {
+      qualifiedName,
+      name,
+      packageName: scope,
+      elementType,
+      stereotype: metadata[0] ?? null,
+      documentation: null,
+      properties: elementType === "block" ? { isAbstract } : {},
+      line
+    };
+    this.model.elements.push(element);
+
+    if (this.isSymbol(":>") || this.isWord("specializes")) {
+      this.next();
+      do {
+        if (this.isSymbol(",")) {
+          this.next();
+        }
+        const refLine = this.peek()?.line;
+        this.model.relationships.push({ source: qualifiedName, target: this.parseReference(), type: SYSML_SPECIALIZATION, scope, line: refLine });
+      } while (this.isSymbol(","));
+    }
+
+    if (this.isSymbol(";")) {
+      this.next();
+      return;
+    }
+    this.expectSymbol("{");
+    this.parseDefinitionBody(element, scope);
+    this.expectSymbol("}");
+  }
+
+  private parseDefinitionBody(element: SysmlModelElement, scope: string | null): void {
+    const allowed = SYSML_ELEMENT_ATTRIBUTES[element.elementType];
+
+    while (this.peek() && !this.isSymbol("}")) {
+      const token = this.peek()!;
+
+      if (token.kind === "comment") {
+        this.next();
+      } else if (this.isWord("doc")) {
+        this.next();
+        const comment = this.next();
+        if (comment.kind !== "comment") {
+          throw new SysmlTextError(400, "Expected a /* comment */ after doc", comment.line);
+        }
+        element.documentation = parseDocComment(comment.value);
+      } else if (this.isWord("attribute") && !this.isWord("def", 1)) {
+        this.parseAttribute(element, allowed);
+      } else if ((this.isWord("part") || this.isWord("port")) && !this.isWord("def", 1)) {
+        const type = this.next().value === "port" ? SYSML_PORT : SYSML_PART;
+        this.parseName();
+        if (!this.isSymbol(":")) {
+          this.skipDeclaration(`untyped ${type === SYSML_PORT ? "port" : "part"} usage in ${element.qualifiedName}`);
+          continue;
+        }
+        this.next();
+        if (this.isSymbol("~")) {
+          this.next();
+        }
+        const line = this.peek()?.line;
+        const target = this.parseReference();
+        this.skipMultiplicity();
+        this.expectSymbol(";");
+        this.model.relationships.push({ source: element.qualifiedName, target, type, scope, line });
+      } else {
+        this.skipDeclaration(`declaration ${this.describeAt()} in ${element.qualifiedName}`);
+      }
+    }
+  }
+
+  private skipMultiplicity(): void {
+    if (!this.isSymbol("[")) {
+      return;
+    }
+    while (this.peek() && !this.isSymbol("]")) {
+      this.next();
+    }
+    this.expectSymbol("]");
+  }
+
+  private parseAttribute(element: SysmlModelElement, allowed: Array<keyof SysmlModelProperties>): void {
+    const line = this.next().line;
+    const name = this.parseName();
+    if (this.isSymbol(":")) {
+      this.next();
+      this.parseReference();
+    }
+    this.skipMultiplicity();
+
+    let value: string | number | boolean | null = null;
+    if (this.isSymbol("=")) {
+      this.next();
+      const token = this.next();
+      if (token.kind === "string" || token.kind === "number") {
+        value = token.value;
+      } else if (token.kind === "word" && (token.value === "true" || token.value === "false")) {
+        value = token.value === "true";
+      } else {
+        throw new SysmlTextError(400, `Unsupported value for attribute ${name}`, token.line);
+      }
+    }
+    this.expectSymbol(";");
+
+    if (!allowed.includes(name as keyof SysmlModelProperties)) {
+      this.model.warnings.push(`Line ${line}: ignored attribute ${name} on ${element.qualifiedName}`);
+      return;
+    }
+    const key = name as keyof SysmlModelProperties;
+    const expected = key === "rate" ? "number" : key === "conjugated" || key === "isAbstract" ? "boolean" : "string";
+    if (value !== null && typeof value !== expected) {
+      throw new SysmlTextError(400, `Attribute ${name} must be a ${expected}`, line);
+    }
+    (element.properties as Record<string, unknown>)[key] = value;
+  }
+
+  private parseDependency(scope: string | null): void {
+    const line = this.next().line;
+    let type = "DEPENDS_ON";
+    if (!this.isWord("from")) {
+      type = this.parseName();
+    }
+    this.expectWord("from");
+    const sourceRef = this.parseReference();
+    this.expectWord("to");
+    const target = this.parseReference();
+    this.expectSymbol(";");
+
+    if (!isSysmlRelationshipType(type)) {
+      this.model.warnings.push(`Line ${line}: skipped dependency with unsupported name '${type}'`);
+      return;
+    }
+    // Sources are resolved like targets; the planner rewrites them to qualified names
+    this.model.relationships.push({ source: sourceRef, target, type, scope, line });
+  }
+}
+
+/**
+ * Parse SysML v2 textual notation. Declarations outside the supported subset
+ * are skipped with a warning; malformed syntax throws SysmlTextError.
+ */
+export function parseSysmlText(text: string): ParsedSysmlText {
+  return new SysmlParser(tokenize(text)).parse();
+}
+
+/**
+ * Resolve a reference written in `scope` against known qualified names:
+ * relative to the scope and each enclosing package, then as an absolute name,
+ * then by unique simple name.
+ */
+export function resolveSysmlReference(reference: string, scope: string | null | undefined, known: Set<string>): string | null {
+  const scopes: string[] = [];
+  for (let current = scope ?? null; current; current = current.includes("::") ? current.slice(0, current.lastIndexOf("::")) : null) {
+    scopes.push(current);
+  }
+  for (const candidateScope of scopes) {
+    const candidate = `${candidateScope}::${reference}`;
+    if (known.has(candidate)) {
+      return candidate;
+    }
+  }
+  if (known.has(reference)) {
+    return reference;
+  }
+  if (!reference.includes("::")) {
+    const matches = [...known].filter(name => name === reference || name.endsWith(`::${reference}`));
+    if (matches.length === 1) {
+      return matches[0];
+    }
+  }
+  return null;
+}
@@ -0,0 +1,253 @@
+import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
+import { randomBytes } from "node:crypto";
+import { slugify } from "../workspace.js";
+import { getSession } from "./driver.js";
+import { emitWebhookEvent } from "../webhooks.js";
+import { toStringList } from "../../lib/neo4j-utils.js";
+import {
+  describeTestCases,
+  detectTestResultFormat,
+  mapTestResults,
+  parseTestResults,
+  type TestRefMapping,
+  type TestResultFormat,
+  type TestRunVerdict
+} from "../../lib/test-results.js";
+import type { ActivityStatus, EvidenceVerdict, VerificationEvidenceRecord } from "./verification.js";
+
+/**
+ * Test result ingestion into verification evidence.
+ *
+ * A CI report is parsed and mapped to requirements (see lib/test-results).
+ * Every Test activity verifying a matched requirement gets one test_result
+ * evidence item for the run, and its status is set from the run's verdict.
+ * Requirements without a Test activity are reported, or given one when
+ * `createActivities` is set.
+ */
+
+export class TestResultError extends Error {
+  readonly statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "TestResultError";
+  }
+}
+
+export type TestResultIngestionRow = {
+  requirementId: string;
+  ref: string;
+  verdict: TestRunVerdict;
+  cases: number;
+  /** Activities that received evidence (or would, in a dry run) */
+  activities: Array<{ activityId: string | null; title: string; created: boolean; status: ActivityStatus }>;
+};
+
+export type TestResultIngestion = {
+  format: TestResultFormat;
+  dryRun: boolean;
+  totals: { cases: number; passed: number; failed: number; skipped: number };
+  requirements: TestResultIngestionRow[];
+  /** Requirements with results but no Test activity to attach them to */
+  withoutActivity: string[];
+  unmatched: string[];
+  unknownRefs: string[];
+  evidence: VerificationEvidenceRecord[];
+};
+
+const ACTIVITY_STATUS_BY_VERDICT: Record<TestRunVerdict, ActivityStatus> = {
+  pass: "passed",
+  fail: "failed",
+  inconclusive: "executed"
+};
+
+function genId(): string {
+  return `v-${Date.now()}-${randomBytes(4).toString("hex")}`;
+}
+
+function mapEvidence(node: Neo4jNode): VerificationEvidenceRecord {
+  const p = node.properties as Record<string, unknown>;
+  return {
+    evidenceId: String(p.evidenceId),
+    type: "test_result",
+    title: String(p.title),
+    summary: p.summary ? String(p.summary) : null,
+    verdict: String(p.verdict) as EvidenceVerdict,
+    recordedAt: String(p.recordedAt),
+    recordedBy: String(p.recordedBy),
+    activityId: String(p.activityId),
+    tenant: String(p.tenant),
+    projectKey: String(p.projectKey)
+  };
+}
+
+export async function ingestTestResults(params: {
+  tenant: string;
+  projectKey: string;
+  content: string;
+  format?: TestResultFormat;
+  mapping?: TestRefMapping;
+  /** Used in evidence titles, e.g. a CI job name and build number */
+  runName?: string;
+  createActivities?: boolean;
+  dryRun?: boolean;
+  recordedBy: string;
+}): Promise<TestResultIngestion> {
+  const format = params.format ?? detectTestResultFormat(params.content);
+  if (!format) {
+    throw new TestResultError("Could not detect the test result format; pass junit, tap or ctest");
+  }
+
+  let cases;
+  try {
+    cases = parseTestResults(params.content, format);
+  } catch (error) {
+    throw new TestResultError(error instanceof Error ? error.message : String(error));
+  }
+
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+  const dryRun = params.dryRun ?? false;
+  const runName = params.runName?.trim() || "Test run";
+  const now = new Date().toISOString();
+
+  const session = getSession();
+  try {
+    const ingestion = await session.executeWrite(async (tx: ManagedTransaction) => {
+      const requirementsResult = await tx.run(`
+        MATCH (req:Requirement {tenant: $tenant, projectKey: $projectKey})
+        WHERE NOT coalesce(req.deleted, false)
+        OPTIONAL MATCH (va:VerificationActivity {method: 'Test'})-[:VERIFIES]->(req)
+        WITH req, va ORDER BY va.createdAt
+        RETURN req.id AS id, req.ref AS ref, req.refAliases AS aliases,
+               [a IN collect(va) | {activityId: a.activityId, title: a.title}] AS activities
+      `, { tenant: tenantSlug, projectKey: projectSlug });
+
+      const requirements = requirementsResult.records.map(record => ({
+        id: String(record.get("id")),
+        ref: String(record.get("ref")),
+        aliases: toStringList(record.get("aliases")),
+        activities: (record.get("activities") as Array<Record<string, unknown>>).map(activity => ({
+          activityId: String(activity.activityId),
+          title: String(activity.title)
+        }))
+      }));
+      const activitiesByRequirement = new Map(requirements.map(requirement => [requirement.id, requirement.activities]));
+      const mapped = mapTestResults(cases, requirements, params.mapping);
+
+      const rows: TestResultIngestionRow[] = [];
+      const withoutActivity: string[] = [];
+      const evidence: VerificationEvidenceRecord[] = [];
+
+      for (const result of mapped.requirements) {
+        const status = ACTIVITY_STATUS_BY_VERDICT[result.verdict];
+        const existing = activitiesByRequirement.get(result.requirementId) ?? [];
+        const targets: TestResultIngestionRow["activities"] = existing.map(activity => ({ ...activity, created: false, status }));
+        if (targets.length === 0) {
+          if (!params.createActivities) {
+            withoutActivity.push(result.ref);
+            continue;
+          }
+          targets.push({ activityId: null, title: `Automated tests for ${result.ref}`, created: true, status });
+        }
+        rows.push({ requirementId: result.requirementId, ref: result.ref, verdict: result.verdict, cases: result.cases.length, activities: targets });
+
+        if (dryRun) {
+          continue;
+        }
+
+        for (const target of targets) {
+          if (target.created) {
+            target.activityId = genId();
+            await tx.run(`
+              MATCH (req:Requirement {id: $requirementId})
+              CREATE (va:VerificationActivity {
+                activityId: $activityId,
+                method: 'Test',
+                status: $status,
+                title: $title,
+                description: null,
+                requirementId: $requirementId,
+                requirementRef: req.ref,
+                tenant: $tenant,
+                projectKey: $projectKey,
+                createdAt: $now,
+                updatedAt: $now
+              })
+              CREATE (va)-[:VERIFIES]->(req)
+            `, {
+              activityId: target.activityId,
+              requirementId: result.requirementId,
+              status,
+              title: target.title,
+              tenant: tenantSlug,
+              projectKey: projectSlug,
+              now
+            });
+          }
+
+          const evidenceResult = await tx.run(`
+            MATCH (va:VerificationActivity {activityId: $activityId})
+            SET va.status = $status, va.updatedAt = $now
+            CREATE (ve:VerificationEvidence {
+              evidenceId: $evidenceId,
+              type: 'test_result',
+              title: $title,
+              summary: $summary,
+              verdict: $verdict,
+              recordedAt: $now,
+              recordedBy: $recordedBy,
+              activityId: $activityId,
+              tenant: $tenant,
+              projectKey: $projectKey
+            })
+            CREATE (ve)-[:SUPPORTS]->(va)
+            RETURN ve
+          `, {
+            activityId: target.activityId,
+            evidenceId: genId(),
+            status,
+            title: `${runName}: ${result.cases.length} test case${result.cases.length === 1 ? "" : "s"}`,
+            summary: describeTestCases(result.cases),
+            verdict: result.verdict,
+            recordedBy: params.recordedBy,
+            tenant: tenantSlug,
+            projectKey: projectSlug,
+            now
+          });
+          evidence.push(mapEvidence(evidenceResult.records[0].get("ve") as Neo4jNode));
+        }
+      }
+
+      return {
+        format,
+        dryRun,
+        totals: {
+          cases: cases.length,
+          passed: cases.filter(testCase => testCase.outcome === "passed").length,
+          failed: cases.filter(testCase => testCase.outcome === "failed" || testCase.outcome === "error").length,
+          skipped: cases.filter(testCase => testCase.outcome === "skipped").length
+        },
+        requirements: rows,
+        withoutActivity,
+        unmatched: mapped.unmatched.map(testCase => (testCase.suite ? `${testCase.suite}.${testCase.name}` : testCase.name)),
+        unknownRefs: mapped.unknownRefs,
+        evidence
+      };
+    });
+
+    for (const item of ingestion.evidence) {
+      emitWebhookEvent({
+        type: "verification.evidence.recorded",
+        tenant: tenantSlug,
+        project: projectSlug,
+        actor: params.recordedBy,
+        data: { ...item }
+      });
+    }
+
+    return ingestion;
+  } finally {
+    await session.close();
+  }
+}
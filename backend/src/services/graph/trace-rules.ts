@@ -0,0 +1,292 @@
+import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
+import { slugify } from "../workspace.js";
+import { getSession } from "./driver.js";
+import { toNumber, toStringList } from "../../lib/neo4j-utils.js";
+import {
+  checkDocumentLink,
+  checkTraceLink,
+  validateTraceRules,
+  type TraceEndpoint,
+  type TraceRule,
+  type TraceRuleSetDefinition,
+  type TraceRuleViolation,
+  type UnmatchedLinkPolicy
+} from "../../lib/trace-rules.js";
+
+/**
+ * Per-project trace rules (traceability information model).
+ *
+ * A project has at most one TraceRuleSet node holding its rules as JSON.
+ * Trace links and linksets are checked against it when they are created:
+ * violations of "reject" rules fail the request, violations of "warn" rules
+ * are returned with the created link. The verification engine reports every
+ * violation, including cardinality, as findings.
+ */
+
+export type TraceRuleSetRecord = {
+  tenant: string;
+  projectKey: string;
+  version: number;
+  rules: TraceRule[];
+  unmatched: UnmatchedLinkPolicy;
+  updatedAt: string;
+  updatedBy: string | null;
+};
+
+export class TraceRuleError extends Error {
+  readonly statusCode = 400;
+
+  constructor(message: string, public readonly details: string[] = []) {
+    super(details.length > 0 ? `${message}: ${details.join("; ")}` : message);
+    this.name = "TraceRuleError";
+  }
+}
+
+function mapTraceRuleSet(node: Neo4jNode): TraceRuleSetRecord {
+  const props = node.properties as Record<string, unknown>;
+  const definition = JSON.parse(String(props.definition)) as Partial<TraceRuleSetDefinition>;
+  return {
+    tenant: String(props.tenant),
+    projectKey: String(props.projectKey),
+    version: toNumber(props.version),
+    rules: definition.rules ?? [],
+    unmatched: definition.unmatched ?? "allow",
+    updatedAt: String(props.updatedAt),
+    updatedBy: props.updatedBy ? String(props.updatedBy) : null
+  };
+}
+
+async function readTraceRules(
+  tx: ManagedTransaction,
+  tenantSlug: string,
+  projectSlug: string
+): Promise<TraceRuleSetRecord | null> {
+  const result = await tx.run(
+    `
+      MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_TRACE_RULES]->(rules:TraceRuleSet)
+      RETURN rules
+      LIMIT 1
+    `,
+    { tenantSlug, projectSlug }
+  );
+
+  if (result.records.length === 0) {
+    return null;
+  }
+  return mapTraceRuleSet(result.records[0].get("rules") as Neo4jNode);
+}
+
+export async function getTraceRules(
+  tenant: string,
+  projectKey: string
+): Promise<TraceRuleSetRecord | null> {
+  const session = getSession();
+
+  try {
+    return await session.executeRead(async (tx: ManagedTransaction) =>
+      readTraceRules(tx, slugify(tenant), slugify(projectKey))
+    );
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Replace the project's trace rules. Existing links are not re-checked; the
+ * verification engine reports the ones the new rules disallow.
+ *
+ * @throws TraceRuleError if the rules are inconsistent
+ * @throws Error if the project does not exist
+ */
+export async function saveTraceRules(params: {
+  tenant: string;
+  projectKey: string;
+  rules: TraceRule[];
+  unmatched: UnmatchedLinkPolicy;
+  userId: string;
+}): Promise<TraceRuleSetRecord> {
+  const definition: TraceRuleSetDefinition = { rules: params.rules, unmatched: params.unmatched };
+  const errors = validateTraceRules(definition);
+  if (errors.length > 0) {
+    throw new TraceRuleError("Invalid trace rules", errors);
+  }
+
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+  const now = new Date().toISOString();
+  const session = getSession();
+
+  try {
+    const node = await session.executeWrite(async (tx: ManagedTransaction) => {
+      const result = await tx.run(
+        `
+          MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})
+          MERGE (project)-[:HAS_TRACE_RULES]->(rules:TraceRuleSet)
+            ON CREATE SET rules.tenant = $tenantSlug,
+                          rules.projectKey = $projectSlug,
+                          rules.version = 0
+          SET rules.definition = $definition,
+              rules.version = rules.version + 1,
+              rules.updatedAt = $now,
+              rules.updatedBy = $userId
+          RETURN rules
+        `,
+        { tenantSlug, projectSlug, definition: JSON.stringify(definition), now, userId: params.userId }
+      );
+
+      if (result.records.length === 0) {
+        throw new Error("Project not found");
+      }
+      return result.records[0].get("rules") as Neo4jNode;
+    });
+
+    return mapTraceRuleSet(node);
+  } finally {
+    await session.close();
+  }
+}
+
+async function readTraceEndpoints(
+  tx: ManagedTransaction,
+  tenantSlug: string,
+  projectSlug: string,
+  requirementIds?: string[]
+): Promise<TraceEndpoint[]> {
+  const result = await tx.run(
+    `
+      MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:CONTAINS]->(req:Requirement)
+      WHERE ($ids IS NULL OR req.id IN $ids)
+        AND NOT coalesce(req.deleted, false)
+        AND NOT coalesce(req.archived, false)
+      OPTIONAL MATCH (sectionDoc:Document)-[:HAS_SECTION]->(:DocumentSection)-[:CONTAINS]->(req)
+      OPTIONAL MATCH (directDoc:Document)-[:CONTAINS]->(req)
+      WITH req, head(collect(DISTINCT coalesce(sectionDoc, directDoc))) AS doc
+      RETURN req.id AS id, req.ref AS ref, req.tags AS tags, req.attributes AS attributes,
+             doc.slug AS documentSlug, doc.shortCode AS documentShortCode
+    `,
+    { tenantSlug, projectSlug, ids: requirementIds ?? null }
+  );
+
+  return result.records.map(record => {
+    const attributes = record.get("attributes");
+    return {
+      id: String(record.get("id")),
+      ref: String(record.get("ref") ?? record.get("id")),
+      documentSlug: record.get("documentSlug") ? String(record.get("documentSlug")) : null,
+      documentShortCode: record.get("documentShortCode") ? String(record.get("documentShortCode")) : null,
+      tags: toStringList(record.get("tags")),
+      attributes: typeof attributes === "string" ? JSON.parse(attributes) as Record<string, unknown> : {}
+    };
+  });
+}
+
+/**
+ * The project's live requirements as rule endpoints, optionally limited to
+ * the given IDs.
+ */
+export async function listTraceEndpoints(
+  tenant: string,
+  projectKey: string,
+  requirementIds?: string[]
+): Promise<TraceEndpoint[]> {
+  const session = getSession();
+
+  try {
+    return await session.executeRead(async (tx: ManagedTransaction) =>
+      readTraceEndpoints(tx, slugify(tenant), slugify(projectKey), requirementIds)
+    );
+  } finally {
+    await session.close();
+  }
+}
+
+function enforce(violations: TraceRuleViolation[], message: string): string[] {
+  const rejected = violations.filter(violation => violation.enforcement === "reject");
+  if (rejected.length > 0) {
+    throw new TraceRuleError(message, rejected.map(violation => violation.message));
+  }
+  return violations.map(violation => violation.message);
+}
+
+/**
+ * Check a proposed trace link against the project's trace rules, within the
+ * transaction that creates it so the rules and endpoints cannot change in
+ * between.
+ *
+ * @returns warnings from "warn" rules and the unmatched policy
+ * @throws TraceRuleError if a "reject" rule is violated
+ */
+export async function enforceTraceLinkRules(tx: ManagedTransaction, params: {
+  tenant: string;
+  projectKey: string;
+  sourceRequirementId: string;
+  targetRequirementId: string;
+  linkType: string;
+}): Promise<string[]> {
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+  const ruleSet = await readTraceRules(tx, tenantSlug, projectSlug);
+  if (!ruleSet) {
+    return [];
+  }
+
+  const endpoints = await readTraceEndpoints(tx, tenantSlug, projectSlug, [params.sourceRequirementId, params.targetRequirementId]);
+  const source = endpoints.find(endpoint => endpoint.id === params.sourceRequirementId);
+  const target = endpoints.find(endpoint => endpoint.id === params.targetRequirementId);
+  if (!source || !target) {
+    // Missing requirements are reported by the caller
+    return [];
+  }
+
+  return enforce(checkTraceLink(ruleSet, source, target, params.linkType), "Trace link violates the project's trace rules");
+}
+
+/**
+ * Check a proposed linkset between two documents against the project's trace
+ * rules.
+ *
+ * @returns warnings from "warn" rules and the unmatched policy
+ * @throws TraceRuleError if a "reject" rule is violated
+ */
+export async function enforceLinksetRules(params: {
+  tenant: string;
+  projectKey: string;
+  sourceDocumentSlug: string;
+  targetDocumentSlug: string;
+  defaultLinkType?: string;
+}): Promise<string[]> {
+  const ruleSet = await getTraceRules(params.tenant, params.projectKey);
+  if (!ruleSet) {
+    return [];
+  }
+
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+  const session = getSession();
+  let shortCodes: Map<string, string | null>;
+
+  try {
+    const result = await session.executeRead(async (tx: ManagedTransaction) => tx.run(
+      `
+        MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_DOCUMENT]->(doc:Document)
+        WHERE doc.slug IN $slugs
+        RETURN doc.slug AS slug, doc.shortCode AS shortCode
+      `,
+      { tenantSlug, projectSlug, slugs: [params.sourceDocumentSlug, params.targetDocumentSlug] }
+    ));
+    shortCodes = new Map(result.records.map(record => [
+      String(record.get("slug")),
+      record.get("shortCode") ? String(record.get("shortCode")) : null
+    ]));
+  } finally {
+    await session.close();
+  }
+
+  const violations = checkDocumentLink(
+    ruleSet,
+    { slug: params.sourceDocumentSlug, shortCode: shortCodes.get(params.sourceDocumentSlug) ?? null },
+    { slug: params.targetDocumentSlug, shortCode: shortCodes.get(params.targetDocumentSlug) ?? null },
+    params.defaultLinkType
+  );
+  return enforce(violations, "Linkset violates the project's trace rules");
+}
@@ -0,0 +1,60 @@
+import type { ManagedTransaction } from "neo4j-driver";
+import { toNumber } from "../../lib/neo4j-utils.js";
+
+/**
+ * Suspect-link detection.
+ *
+ * Each TraceLink stores the contentHash of both ends as they were when the
+ * link was created (or last reviewed). When a requirement's contentHash
+ * changes, its links whose stored hash no longer matches are flagged
+ * suspect until someone reviews them and clears the suspicion.
+ */
+
+export type SuspectLinkEnd = "source" | "target";
+
+/**
+ * Flag the trace links of a requirement whose content just changed.
+ *
+ * Call inside the transaction that wrote the new contentHash. Links created
+ * before hashes were recorded on the link are flagged on the changed end.
+ *
+ * @returns Number of links newly flagged or with a newly changed end
+ */
+export async function flagSuspectLinks(
+  tx: ManagedTransaction,
+  requirementId: string,
+  now: string = new Date().toISOString()
+): Promise<number> {
+  const result = await tx.run(
+    `
+      MATCH (changed:Requirement {id: $requirementId})
+      MATCH (link:TraceLink)-[:FROM_REQUIREMENT|TO_REQUIREMENT]->(changed)
+      MATCH (link)-[:FROM_REQUIREMENT]->(source:Requirement)
+      MATCH (link)-[:TO_REQUIREMENT]->(target:Requirement)
+      WITH DISTINCT link, source, target,
+        CASE
+          WHEN link.sourceContentHash IS NULL THEN source.id = $requirementId
+          ELSE link.sourceContentHash <> coalesce(source.contentHash, '')
+        END AS sourceChanged,
+        CASE
+          WHEN link.targetContentHash IS NULL THEN target.id = $requirementId
+          ELSE link.targetContentHash <> coalesce(target.contentHash, '')
+        END AS targetChanged
+      WHERE sourceChanged OR targetChanged
+      WITH link,
+        [side IN ['source', 'target'] WHERE
+          (side = 'source' AND sourceChanged) OR
+          (side = 'target' AND targetChanged) OR
+          (coalesce(link.suspect, false) AND side IN coalesce(link.suspectEnds, []))
+        ] AS ends
+      WHERE NOT coalesce(link.suspect, false) OR size(ends) > size(coalesce(link.suspectEnds, []))
+      SET link.suspect = true,
+          link.suspectEnds = ends,
+          link.suspectSince = CASE WHEN coalesce(link.suspect, false) THEN link.suspectSince ELSE $now END
+      RETURN count(link) AS flagged
+    `,
+    { requirementId, now }
+  );
+
+  return toNumber(result.records[0]?.get("flagged"));
+}
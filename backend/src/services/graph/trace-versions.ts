@@ -2,6 +2,7 @@ import type { ManagedTransaction } from "neo4j-driver";
 import { randomUUID } from "crypto";
 import { createHash } from "crypto";
 import { getSession } from "./driver.js";
+import { emitWebhookEvent } from "../webhooks.js";
 
 export type TraceLinkVersionRecord = {
   versionId: string;
@@ -9,7 +10,7 @@ export type TraceLinkVersionRecord = {
   versionNumber: number;
   timestamp: string;
   changedBy: string;
-  changeType: "created" | "updated" | "deleted";
+  changeType: "created" | "updated" | "restored" | "deleted";
   changeDescription?: string;
   // Snapshot of trace link state
   sourceRequirementId: string;
@@ -47,7 +48,7 @@ export async function createTraceLinkVersion(
     tenantSlug: string;
     projectSlug: string;
     changedBy: string;
-    changeType: "created" | "updated" | "deleted";
+    changeType: "created" | "updated" | "restored" | "deleted";
     changeDescription?: string;
     // Current trace link state
     sourceRequirementId: string;
@@ -115,6 +116,23 @@ export async function createTraceLinkVersion(
       contentHash: params.contentHash
     }
   );
+
+  emitWebhookEvent({
+    type: `trace-link.${params.changeType}`,
+    tenant: params.tenantSlug,
+    project: params.projectSlug,
+    actor: params.changedBy,
+    data: {
+      traceLinkId: params.traceLinkId,
+      versionId,
+      versionNumber,
+      changeDescription: params.changeDescription ?? null,
+      sourceRequirementId: params.sourceRequirementId,
+      targetRequirementId: params.targetRequirementId,
+      linkType: params.linkType,
+      description: params.description ?? null
+    }
+  }, tx);
 }
 
 /**
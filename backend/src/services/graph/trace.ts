@@ -2,8 +2,13 @@ import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
 import { slugify } from "../workspace.js";
 import { getSession } from "./driver.js";
 import { mapRequirement } from "./requirements/index.js";
-import { getLinkset, addLinkToLinkset } from "./linksets.js";
+import { addLinkToLinkset } from "./linksets.js";
 import { createTraceLinkVersion, generateTraceLinkContentHash, type TraceLinkVersionRecord } from "./trace-versions.js";
+import { executeWriteWithWebhookEvents } from "../webhooks.js";
+import type { SuspectLinkEnd } from "./trace-suspect.js";
+import { enforceTraceLinkRules } from "./trace-rules.js";
+
+export type { SuspectLinkEnd };
 
 export type TraceLinkRecord = {
   id: string;
@@ -15,10 +20,28 @@ export type TraceLinkRecord = {
   description?: string | null;
   tenant: string;
   projectKey: string;
+  /** True when either end's content changed since the link was created or last reviewed */
+  suspect: boolean;
+  suspectEnds: SuspectLinkEnd[];
+  suspectSince: string | null;
+  suspectClearedBy: string | null;
+  suspectClearedAt: string | null;
+  suspectClearComment: string | null;
   createdAt: string;
   updatedAt: string;
+  /** Trace rule warnings raised when the link was created */
+  ruleWarnings?: string[];
 };
 
+const NOT_SUSPECT = {
+  suspect: false,
+  suspectEnds: [],
+  suspectSince: null,
+  suspectClearedBy: null,
+  suspectClearedAt: null,
+  suspectClearComment: null
+} satisfies Partial<TraceLinkRecord>;
+
 function mapTraceLink(
   node: Neo4jNode,
   sourceRequirement: ReturnType<typeof mapRequirement> | null,
@@ -49,6 +72,12 @@ function mapTraceLink(
     description: props.description ? String(props.description) : null,
     tenant: String(props.tenant),
     projectKey: String(props.projectKey),
+    suspect: props.suspect === true,
+    suspectEnds: Array.isArray(props.suspectEnds) ? props.suspectEnds.map(end => String(end) as SuspectLinkEnd) : [],
+    suspectSince: props.suspectSince ? String(props.suspectSince) : null,
+    suspectClearedBy: props.suspectClearedBy ? String(props.suspectClearedBy) : null,
+    suspectClearedAt: props.suspectClearedAt ? String(props.suspectClearedAt) : null,
+    suspectClearComment: props.suspectClearComment ? String(props.suspectClearComment) : null,
     createdAt: String(props.createdAt),
     updatedAt: String(props.updatedAt)
   };
@@ -63,67 +92,71 @@ export async function createTraceLink(params: {
   description?: string;
   userId: string;
 }): Promise<TraceLinkRecord> {
-  // First, look up the requirements to find their document slugs
   const tenantSlug = slugify(params.tenant);
   const projectSlug = slugify(params.projectKey);
 
   const session = getSession();
 
-  // Get document slugs from requirements
-  // Check both paths: section-based (Document->Section->Requirement) and direct (Document->Requirement)
-  const docResult = await session.executeRead(async (tx: ManagedTransaction) => {
-    const query = `
-      MATCH (source:Requirement {id: $sourceRequirementId})
-      MATCH (target:Requirement {id: $targetRequirementId})
-      OPTIONAL MATCH (sourceDocViaSection:Document)-[:HAS_SECTION]->(sourceSection:DocumentSection)-[:CONTAINS]->(source)
-      OPTIONAL MATCH (targetDocViaSection:Document)-[:HAS_SECTION]->(targetSection:DocumentSection)-[:CONTAINS]->(target)
-      OPTIONAL MATCH (sourceDocDirect:Document)-[:CONTAINS]->(source)
-      OPTIONAL MATCH (targetDocDirect:Document)-[:CONTAINS]->(target)
-      RETURN coalesce(sourceDocViaSection.slug, sourceDocDirect.slug) AS sourceDocSlug,
-             coalesce(targetDocViaSection.slug, targetDocDirect.slug) AS targetDocSlug
-    `;
-
-    return tx.run(query, {
-      sourceRequirementId: params.sourceRequirementId,
-      targetRequirementId: params.targetRequirementId
-    });
-  });
-
-  if (docResult.records.length === 0) {
-    await session.close();
-    throw new Error("Requirements not found");
-  }
+  try {
+    return await executeWriteWithWebhookEvents(session, async (tx: ManagedTransaction) => {
+      // Get document slugs from requirements
+      // Check both paths: section-based (Document->Section->Requirement) and direct (Document->Requirement)
+      const docResult = await tx.run(
+        `
+          MATCH (source:Requirement {id: $sourceRequirementId})
+          MATCH (target:Requirement {id: $targetRequirementId})
+          OPTIONAL MATCH (sourceDocViaSection:Document)-[:HAS_SECTION]->(sourceSection:DocumentSection)-[:CONTAINS]->(source)
+          OPTIONAL MATCH (targetDocViaSection:Document)-[:HAS_SECTION]->(targetSection:DocumentSection)-[:CONTAINS]->(target)
+          OPTIONAL MATCH (sourceDocDirect:Document)-[:CONTAINS]->(source)
+          OPTIONAL MATCH (targetDocDirect:Document)-[:CONTAINS]->(target)
+          RETURN coalesce(sourceDocViaSection.slug, sourceDocDirect.slug) AS sourceDocSlug,
+                 coalesce(targetDocViaSection.slug, targetDocDirect.slug) AS targetDocSlug
+        `,
+        {
+          sourceRequirementId: params.sourceRequirementId,
+          targetRequirementId: params.targetRequirementId
+        }
+      );
 
-  const sourceDocSlug = docResult.records[0].get("sourceDocSlug");
-  const targetDocSlug = docResult.records[0].get("targetDocSlug");
+      if (docResult.records.length === 0) {
+        throw new Error("Requirements not found");
+      }
 
-  if (!sourceDocSlug || !targetDocSlug) {
-    await session.close();
-    throw new Error("Requirements must be contained in documents");
-  }
+      const sourceDocSlug = docResult.records[0].get("sourceDocSlug");
+      const targetDocSlug = docResult.records[0].get("targetDocSlug");
 
-  // Only require a linkset for inter-document links
-  let linksetId: string | null = null;
-  if (sourceDocSlug !== targetDocSlug) {
-    const linkset = await getLinkset({
-      tenant: params.tenant,
-      projectKey: params.projectKey,
-      sourceDocumentSlug: sourceDocSlug,
-      targetDocumentSlug: targetDocSlug
-    });
+      if (!sourceDocSlug || !targetDocSlug) {
+        throw new Error("Requirements must be contained in documents");
+      }
 
-    if (!linkset) {
-      await session.close();
-      throw new Error(`No linkset exists between ${sourceDocSlug} and ${targetDocSlug}. Please create a linkset first.`);
-    }
-    linksetId = linkset.id;
-  }
+      const ruleWarnings = await enforceTraceLinkRules(tx, params);
+
+      // Only require a linkset for inter-document links
+      let linksetId: string | null = null;
+      if (sourceDocSlug !== targetDocSlug) {
+        // Linksets can exist in either direction
+        const linksetResult = await tx.run(
+          `
+            MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_LINKSET]->(linkset:DocumentLinkset)
+            MATCH (linkset)-[:FROM_DOCUMENT]->(sourceDoc:Document)
+            MATCH (linkset)-[:TO_DOCUMENT]->(targetDoc:Document)
+            WHERE (sourceDoc.slug = $sourceDocSlug AND targetDoc.slug = $targetDocSlug) OR
+                  (sourceDoc.slug = $targetDocSlug AND targetDoc.slug = $sourceDocSlug)
+            RETURN linkset.id AS id
+            LIMIT 1
+          `,
+          { tenantSlug, projectSlug, sourceDocSlug, targetDocSlug }
+        );
+
+        if (linksetResult.records.length === 0) {
+          throw new Error(`No linkset exists between ${sourceDocSlug} and ${targetDocSlug}. Please create a linkset first.`);
+        }
+        linksetId = String(linksetResult.records[0].get("id"));
+      }
 
-  const now = new Date().toISOString();
-  const linkId = `link-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const now = new Date().toISOString();
+      const linkId = `link-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-  try {
-    const result = await session.executeWrite(async (tx: ManagedTransaction) => {
       // For inter-document links, link to the linkset. For intra-document links, skip linkset.
       const query = linksetId
         ? `
@@ -141,6 +174,9 @@ export async function createTraceLink(params: {
             description: $description,
             tenant: $tenantSlug,
             projectKey: $projectSlug,
+            sourceContentHash: source.contentHash,
+            targetContentHash: target.contentHash,
+            suspect: false,
             createdAt: $now,
             updatedAt: $now
           })
@@ -165,6 +201,9 @@ export async function createTraceLink(params: {
             description: $description,
             tenant: $tenantSlug,
             projectKey: $projectSlug,
+            sourceContentHash: source.contentHash,
+            targetContentHash: target.contentHash,
+            suspect: false,
             createdAt: $now,
             updatedAt: $now
           })
@@ -175,7 +214,7 @@ export async function createTraceLink(params: {
           RETURN link, source, target, sourceDoc, targetDoc
         `;
 
-      return tx.run(query, {
+      const result = await tx.run(query, {
         tenantSlug,
         projectSlug,
         linksetId,
@@ -186,17 +225,14 @@ export async function createTraceLink(params: {
         description: params.description || null,
         now
       });
-    });
 
-    if (result.records.length === 0) {
-      throw new Error("Failed to create trace link");
-    }
+      if (result.records.length === 0) {
+        throw new Error("Failed to create trace link");
+      }
 
-    const record = result.records[0];
-    const link = record.get("link");
+      const record = result.records[0];
 
-    // Create version 1 for the new trace link
-    await session.executeWrite(async (tx: ManagedTransaction) => {
+      // Create version 1 for the new trace link
       const contentHash = generateTraceLinkContentHash({
         sourceRequirementId: params.sourceRequirementId,
         targetRequirementId: params.targetRequirementId,
@@ -216,17 +252,17 @@ export async function createTraceLink(params: {
         description: params.description,
         contentHash
       });
-    });
 
-    const mappedLink = mapTraceLink(
-      link,
-      mapRequirement(record.get("source")),
-      mapRequirement(record.get("target")),
-      record.get("sourceDoc"),
-      record.get("targetDoc")
-    );
+      const mappedLink = mapTraceLink(
+        record.get("link"),
+        mapRequirement(record.get("source")),
+        mapRequirement(record.get("target")),
+        record.get("sourceDoc"),
+        record.get("targetDoc")
+      );
 
-    return mappedLink;
+      return ruleWarnings.length > 0 ? { ...mappedLink, ruleWarnings } : mappedLink;
+    });
   } finally {
     await session.close();
   }
@@ -304,6 +340,7 @@ export async function listTraceLinks(params: {
           description: link.description ? String(link.description) : null,
           tenant: tenantSlug,
           projectKey: projectSlug,
+          ...NOT_SUSPECT,
           createdAt: String(link.createdAt ?? ""),
           updatedAt: String(link.updatedAt ?? ""),
         });
@@ -396,6 +433,7 @@ export async function listTraceLinksByRequirement(params: {
           description: link.description ? String(link.description) : null,
           tenant: tenantSlug,
           projectKey: projectSlug,
+          ...NOT_SUSPECT,
           createdAt: String(link.createdAt ?? ""),
           updatedAt: String(link.updatedAt ?? ""),
         });
@@ -419,7 +457,7 @@ export async function deleteTraceLink(params: {
   const session = getSession();
 
   try {
-    await session.executeWrite(async (tx: ManagedTransaction) => {
+    await executeWriteWithWebhookEvents(session, async (tx: ManagedTransaction) => {
       // First, get the current state to create a deletion version
       const getCurrentQuery = `
         MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_TRACE_LINK]->(link:TraceLink {id: $linkId})
@@ -477,3 +515,109 @@ export async function deleteTraceLink(params: {
     await session.close();
   }
 }
+
+/**
+ * Suspect links for a project, oldest suspicion first.
+ */
+export async function listSuspectLinks(params: {
+  tenant: string;
+  projectKey: string;
+}): Promise<TraceLinkRecord[]> {
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+
+  const session = getSession();
+  try {
+    const result = await session.executeRead(async (tx: ManagedTransaction) => {
+      const query = `
+        MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_TRACE_LINK]->(link:TraceLink {suspect: true})
+        OPTIONAL MATCH (link)-[:FROM_REQUIREMENT]->(sourceReq:Requirement)
+        OPTIONAL MATCH (link)-[:TO_REQUIREMENT]->(targetReq:Requirement)
+        OPTIONAL MATCH (sourceDoc:Document)-[:HAS_SECTION]->(sourceSection:DocumentSection)-[:CONTAINS]->(sourceReq)
+        OPTIONAL MATCH (targetDoc:Document)-[:HAS_SECTION]->(targetSection:DocumentSection)-[:CONTAINS]->(targetReq)
+        RETURN link, sourceReq, targetReq, sourceDoc, targetDoc
+        ORDER BY link.suspectSince ASC
+      `;
+
+      return tx.run(query, { tenantSlug, projectSlug });
+    });
+
+    return result.records.map(record => {
+      const sourceReq = record.get("sourceReq");
+      const targetReq = record.get("targetReq");
+      return mapTraceLink(
+        record.get("link"),
+        sourceReq ? mapRequirement(sourceReq) : null,
+        targetReq ? mapRequirement(targetReq) : null,
+        record.get("sourceDoc"),
+        record.get("targetDoc")
+      );
+    });
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Mark a suspect link as reviewed. The current content of both ends becomes
+ * the new baseline, so only later changes flag the link again.
+ *
+ * @returns The updated link, or null if it does not exist
+ */
+export async function clearLinkSuspicion(params: {
+  tenant: string;
+  projectKey: string;
+  linkId: string;
+  userId: string;
+  comment?: string;
+}): Promise<TraceLinkRecord | null> {
+  const tenantSlug = slugify(params.tenant);
+  const projectSlug = slugify(params.projectKey);
+
+  const session = getSession();
+  try {
+    const result = await session.executeWrite(async (tx: ManagedTransaction) => {
+      const query = `
+        MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_TRACE_LINK]->(link:TraceLink {id: $linkId})
+        MATCH (link)-[:FROM_REQUIREMENT]->(sourceReq:Requirement)
+        MATCH (link)-[:TO_REQUIREMENT]->(targetReq:Requirement)
+        SET link.suspect = false,
+            link.suspectEnds = [],
+            link.suspectSince = null,
+            link.sourceContentHash = sourceReq.contentHash,
+            link.targetContentHash = targetReq.contentHash,
+            link.suspectClearedBy = $userId,
+            link.suspectClearedAt = $now,
+            link.suspectClearComment = $comment
+        WITH link, sourceReq, targetReq
+        OPTIONAL MATCH (sourceDoc:Document)-[:HAS_SECTION]->(sourceSection:DocumentSection)-[:CONTAINS]->(sourceReq)
+        OPTIONAL MATCH (targetDoc:Document)-[:HAS_SECTION]->(targetSection:DocumentSection)-[:CONTAINS]->(targetReq)
+        RETURN link, sourceReq, targetReq, sourceDoc, targetDoc
+      `;
+
+      return tx.run(query, {
+        tenantSlug,
+        projectSlug,
+        linkId: params.linkId,
+        userId: params.userId,
+        comment: params.comment ?? null,
+        now: new Date().toISOString()
+      });
+    });
+
+    const record = result.records[0];
+    if (!record) {
+      return null;
+    }
+
+    return mapTraceLink(
+      record.get("link"),
+      mapRequirement(record.get("sourceReq")),
+      mapRequirement(record.get("targetReq")),
+      record.get("sourceDoc"),
+      record.get("targetDoc")
+    );
+  } finally {
+    await session.close();
+  }
+}
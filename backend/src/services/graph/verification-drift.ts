@@ -0,0 +1,163 @@
+import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
+import { createHash } from "node:crypto";
+import { getSession } from "./driver.js";
+import { extractTextUnits, type DocumentFormat, type ExtractedDocument, type TextUnit } from "../../lib/document-text.js";
+import { locateExcerpt, type DriftStatus } from "../../lib/excerpt-locator.js";
+import {
+  createDocumentRevision,
+  mapStableRef,
+  type DocumentRevisionRecord,
+  type LocatorType,
+  type StableReferenceRecord
+} from "./verification.js";
+
+/**
+ * Evidence drift detection for uploaded verification document revisions.
+ *
+ * When a revision is uploaded with its file, the file is split into text
+ * units (PDF pages, DOCX paragraphs, XLSX cells) and every stable reference
+ * captured against an earlier revision of the same document is re-located
+ * in it (see lib/excerpt-locator). The outcome is stored on the reference;
+ * changed and missing excerpts set `driftDetected`, which the verification
+ * engine reports together with the old and new excerpt.
+ */
+
+export class RevisionContentError extends Error {
+  readonly statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "RevisionContentError";
+  }
+}
+
+/** Locator types that point into file content and can be re-located */
+const EXTRACTABLE_LOCATORS: LocatorType[] = ["pdf_page", "docx_paragraph", "xlsx_cell"];
+
+export type ReferenceDriftRow = {
+  refId: string;
+  evidenceId: string;
+  status: DriftStatus;
+  similarity: number;
+  before: { locatorType: LocatorType; locator: Record<string, unknown>; excerptText: string };
+  after: { locatorType: LocatorType; locator: Record<string, unknown>; excerptText: string } | null;
+};
+
+export type ReferenceDriftCheck = {
+  revisionId: string;
+  format: DocumentFormat;
+  totals: Record<DriftStatus, number> & { checked: number };
+  references: ReferenceDriftRow[];
+};
+
+export type RevisionUpload = {
+  revision: DocumentRevisionRecord;
+  drift: ReferenceDriftCheck;
+};
+
+function sha256(text: string | Buffer): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Re-locate the excerpts of all stable references on earlier revisions of a
+ * document in the text of `revision`, and record the outcome on each.
+ */
+export async function checkReferenceDrift(
+  revision: DocumentRevisionRecord,
+  format: DocumentFormat,
+  units: TextUnit[]
+): Promise<ReferenceDriftCheck> {
+  const now = new Date().toISOString();
+  const session = getSession();
+  try {
+    const res = await session.executeRead(async (tx: ManagedTransaction) => {
+      return tx.run(`
+        MATCH (:VerificationDocument {vdocId: $vdocId})-[:HAS_REVISION]->(rev:DocumentRevision)<-[:REFERENCES]-(sr:StableReference)
+        WHERE rev.revisionId <> $revisionId AND sr.locatorType IN $locatorTypes
+        RETURN sr ORDER BY sr.capturedAt, sr.refId
+      `, { vdocId: revision.vdocId, revisionId: revision.revisionId, locatorTypes: EXTRACTABLE_LOCATORS });
+    });
+    const references: StableReferenceRecord[] = res.records.map(r => mapStableRef(r.get("sr") as Neo4jNode));
+
+    const totals: ReferenceDriftCheck["totals"] = { checked: references.length, unchanged: 0, moved: 0, changed: 0, missing: 0 };
+    const rows: ReferenceDriftRow[] = [];
+    const updates = references.map(reference => {
+      const location = locateExcerpt(reference, units);
+      totals[location.status]++;
+      rows.push({
+        refId: reference.refId,
+        evidenceId: reference.evidenceId,
+        status: location.status,
+        similarity: location.similarity,
+        before: { locatorType: reference.locatorType, locator: reference.locator, excerptText: reference.excerptText },
+        after: location.locatorType && location.locator && location.excerptText !== null
+          ? { locatorType: location.locatorType, locator: location.locator, excerptText: location.excerptText }
+          : null
+      });
+      return {
+        refId: reference.refId,
+        status: location.status,
+        driftDetected: location.status === "changed" || location.status === "missing",
+        locatorType: location.locatorType,
+        locator: location.locator ? JSON.stringify(location.locator) : null,
+        excerptText: location.excerptText,
+        excerptHash: location.excerptText !== null ? sha256(location.excerptText) : null,
+        similarity: location.similarity
+      };
+    });
+
+    if (updates.length > 0) {
+      await session.executeWrite(async (tx: ManagedTransaction) => {
+        await tx.run(`
+          UNWIND $updates AS u
+          MATCH (sr:StableReference {refId: u.refId})
+          SET sr.driftStatus = u.status,
+              sr.driftDetected = u.driftDetected,
+              sr.driftCheckedAt = $now,
+              sr.driftRevisionId = $revisionId,
+              sr.driftRevisionNumber = $revisionNumber,
+              sr.driftSimilarity = u.similarity,
+              sr.currentLocatorType = u.locatorType,
+              sr.currentLocator = u.locator,
+              sr.currentExcerptText = u.excerptText,
+              sr.currentExcerptHash = u.excerptHash
+        `, { updates, now, revisionId: revision.revisionId, revisionNumber: revision.revisionNumber });
+      });
+    }
+
+    return { revisionId: revision.revisionId, format, totals, references: rows };
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Create a revision from an uploaded PDF, DOCX or XLSX file and check the
+ * document's existing stable references against it. The file is read
+ * before anything is written, so an unreadable upload creates no revision.
+ */
+export async function uploadDocumentRevision(params: {
+  vdocId: string;
+  revisionNumber: string;
+  changeDescription: string;
+  createdBy: string;
+  content: Buffer;
+}): Promise<RevisionUpload> {
+  let extracted: ExtractedDocument;
+  try {
+    extracted = await extractTextUnits(params.content);
+  } catch (error) {
+    throw new RevisionContentError(error instanceof Error ? error.message : String(error));
+  }
+
+  const revision = await createDocumentRevision({
+    vdocId: params.vdocId,
+    revisionNumber: params.revisionNumber,
+    changeDescription: params.changeDescription,
+    createdBy: params.createdBy,
+    content: { hash: sha256(params.content), format: extracted.format }
+  });
+  const drift = await checkReferenceDrift(revision, extracted.format, extracted.units);
+  return { revision, drift };
+}
@@ -2,6 +2,13 @@ import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
 import { createHash, randomBytes } from "node:crypto";
 import { slugify } from "../workspace.js";
 import { getSession } from "./driver.js";
+import { emitWebhookEvent } from "../webhooks.js";
+import { listTraceLinks } from "./trace.js";
+import { getTraceRules, listTraceEndpoints } from "./trace-rules.js";
+import { evaluateTraceRules } from "../../lib/trace-rules.js";
+import { toNumber } from "../../lib/neo4j-utils.js";
+import type { DocumentFormat } from "../../lib/document-text.js";
+import { describeLocator, type DriftStatus } from "../../lib/excerpt-locator.js";
 
 // ── Types ──────────────────────────────────────────────────────
 
@@ -57,11 +64,26 @@ export type DocumentRevisionRecord = {
   revisionNumber: string;
   changeDescription: string;
   contentHash: string;
+  /** Format of the uploaded file; null when the revision was recorded without content */
+  format: DocumentFormat | null;
   vdocId: string;
   createdAt: string;
   createdBy: string;
 };
 
+/** Result of re-locating a reference's excerpt in the latest uploaded revision */
+export type ReferenceDrift = {
+  status: DriftStatus;
+  checkedAt: string;
+  revisionId: string;
+  revisionNumber: string;
+  locatorType: LocatorType | null;
+  locator: Record<string, unknown> | null;
+  excerptText: string | null;
+  excerptHash: string | null;
+  similarity: number;
+};
+
 export type StableReferenceRecord = {
   refId: string;
   locatorType: LocatorType;
@@ -70,6 +92,7 @@ export type StableReferenceRecord = {
   excerptHash: string;
   capturedAt: string;
   driftDetected: boolean;
+  drift: ReferenceDrift | null;
   evidenceId: string;
   revisionId: string;
 };
@@ -131,22 +154,43 @@ function mapRevision(node: Neo4jNode): DocumentRevisionRecord {
     revisionNumber: String(p.revisionNumber),
     changeDescription: String(p.changeDescription),
     contentHash: String(p.contentHash),
+    format: p.format ? String(p.format) as DocumentFormat : null,
     vdocId: String(p.vdocId),
     createdAt: String(p.createdAt),
     createdBy: String(p.createdBy),
   };
 }
 
-function mapStableRef(node: Neo4jNode): StableReferenceRecord {
+function parseLocator(value: unknown): Record<string, unknown> {
+  return typeof value === "string" ? JSON.parse(value) : (value as Record<string, unknown>) ?? {};
+}
+
+function mapDrift(p: Record<string, unknown>): ReferenceDrift | null {
+  if (!p.driftStatus) {return null;}
+  return {
+    status: String(p.driftStatus) as DriftStatus,
+    checkedAt: String(p.driftCheckedAt),
+    revisionId: String(p.driftRevisionId),
+    revisionNumber: String(p.driftRevisionNumber),
+    locatorType: p.currentLocatorType ? String(p.currentLocatorType) as LocatorType : null,
+    locator: p.currentLocator ? parseLocator(p.currentLocator) : null,
+    excerptText: p.currentExcerptText ? String(p.currentExcerptText) : null,
+    excerptHash: p.currentExcerptHash ? String(p.currentExcerptHash) : null,
+    similarity: toNumber(p.driftSimilarity),
+  };
+}
+
+export function mapStableRef(node: Neo4jNode): StableReferenceRecord {
   const p = node.properties as Record<string, unknown>;
   return {
     refId: String(p.refId),
     locatorType: String(p.locatorType) as LocatorType,
-    locator: typeof p.locator === "string" ? JSON.parse(p.locator as string) : (p.locator as Record<string, unknown>) ?? {},
+    locator: parseLocator(p.locator),
     excerptText: String(p.excerptText),
     excerptHash: String(p.excerptHash),
     capturedAt: String(p.capturedAt),
     driftDetected: Boolean(p.driftDetected),
+    drift: mapDrift(p),
     evidenceId: String(p.evidenceId),
     revisionId: String(p.revisionId),
   };
@@ -307,7 +351,7 @@ export async function addVerificationEvidence(params: {
 
   const session = getSession();
   try {
-    return await session.executeWrite(async (tx: ManagedTransaction) => {
+    const evidence = await session.executeWrite(async (tx: ManagedTransaction) => {
       const res = await tx.run(`
         MATCH (va:VerificationActivity {activityId: $activityId})
         CREATE (ve:VerificationEvidence {
@@ -339,6 +383,16 @@ export async function addVerificationEvidence(params: {
       if (res.records.length === 0) throw new Error(`Activity not found: ${params.activityId}`);
       return mapEvidence(res.records[0].get("ve") as Neo4jNode);
     });
+
+    emitWebhookEvent({
+      type: "verification.evidence.recorded",
+      tenant: tenantSlug,
+      project: projectSlug,
+      actor: params.recordedBy,
+      data: { ...evidence }
+    });
+
+    return evidence;
   } finally {
     await session.close();
   }
@@ -405,6 +459,7 @@ export async function createVerificationDocument(params: {
           revisionNumber: '0.1',
           changeDescription: 'Initial draft',
           contentHash: $contentHash,
+          format: $format,
           vdocId: $vdocId,
           createdAt: $now,
           createdBy: 'system'
@@ -476,6 +531,8 @@ export async function createDocumentRevision(params: {
   revisionNumber: string;
   changeDescription: string;
   createdBy: string;
+  /** Hash and format of the uploaded file, when the revision carries content */
+  content?: { hash: string; format: DocumentFormat };
 }): Promise<DocumentRevisionRecord> {
   const now = new Date().toISOString();
   const revisionId = genId();
@@ -502,6 +559,7 @@ export async function createDocumentRevision(params: {
           revisionNumber: $revisionNumber,
           changeDescription: $changeDescription,
           contentHash: $contentHash,
+          format: $format,
           vdocId: $vdocId,
           createdAt: $now,
           createdBy: $createdBy
@@ -514,7 +572,8 @@ export async function createDocumentRevision(params: {
         revisionId,
         revisionNumber: params.revisionNumber,
         changeDescription: params.changeDescription,
-        contentHash: sha256(`${params.vdocId}:${params.revisionNumber}:${now}`),
+        contentHash: params.content?.hash ?? sha256(`${params.vdocId}:${params.revisionNumber}:${now}`),
+        format: params.content?.format ?? null,
         createdBy: params.createdBy,
         now,
       });
@@ -602,8 +661,56 @@ export type VerificationFinding = {
   activityId?: string;
   evidenceId?: string;
   message: string;
+  /** Captured and current excerpt side by side, for drift findings */
+  drift?: {
+    refId: string;
+    status: DriftStatus;
+    similarity: number;
+    before: { locatorType: LocatorType; locator: Record<string, unknown>; excerptText: string };
+    after: { locatorType: LocatorType; locator: Record<string, unknown>; excerptText: string } | null;
+  };
 };
 
+function driftFinding(reference: StableReferenceRecord): Pick<VerificationFinding, "type" | "severity" | "message" | "drift"> {
+  const { drift } = reference;
+  if (!drift) {
+    return {
+      type: "drift_detected",
+      severity: "error",
+      message: `Source content has changed since evidence was captured. Verification may be invalidated.`,
+    };
+  }
+
+  const before = describeLocator(reference.locatorType, reference.locator);
+  const after = drift.locatorType && drift.locator ? describeLocator(drift.locatorType, drift.locator) : null;
+  const detail = {
+    refId: reference.refId,
+    status: drift.status,
+    similarity: drift.similarity,
+    before: { locatorType: reference.locatorType, locator: reference.locator, excerptText: reference.excerptText },
+    after: drift.locatorType && drift.locator && drift.excerptText !== null
+      ? { locatorType: drift.locatorType, locator: drift.locator, excerptText: drift.excerptText }
+      : null,
+  };
+
+  if (drift.status === "moved") {
+    return {
+      type: "reference_moved",
+      severity: "warning",
+      message: `Referenced excerpt moved from ${before} to ${after} in revision ${drift.revisionNumber}; its text is unchanged.`,
+      drift: detail,
+    };
+  }
+  return {
+    type: "drift_detected",
+    severity: "error",
+    message: drift.status === "missing"
+      ? `Referenced excerpt at ${before} no longer appears in revision ${drift.revisionNumber}. Verification may be invalidated.`
+      : `Referenced excerpt at ${before} changed in revision ${drift.revisionNumber} (now ${after}, ${Math.round(drift.similarity * 100)}% similar). Verification may be invalidated.`,
+    drift: detail,
+  };
+}
+
 export type VerificationReport = {
   tenant: string;
   projectKey: string;
@@ -703,22 +810,24 @@ export async function runVerificationEngine(
       });
     }
 
-    // 5. Find drifted stable references
+    // 5. Find drifted (changed or missing) and moved stable references
     const driftRes = await session.executeRead(async (tx: ManagedTransaction) => {
       return tx.run(`
-        MATCH (sr:StableReference {driftDetected: true})<-[:HAS_REFERENCE]-(ve:VerificationEvidence {tenant: $tenant, projectKey: $projectKey})
+        MATCH (sr:StableReference)<-[:HAS_REFERENCE]-(ve:VerificationEvidence {tenant: $tenant, projectKey: $projectKey})
+        WHERE sr.driftDetected = true OR sr.driftStatus = 'moved'
         OPTIONAL MATCH (ve)-[:SUPPORTS]->(va:VerificationActivity)-[:VERIFIES]->(req:Requirement)
-        RETURN sr.refId AS refId, ve.evidenceId AS evId, va.activityId AS actId, req.ref AS reqRef
+        RETURN sr, ve.evidenceId AS evId, va.activityId AS actId, req.ref AS reqRef
       `, { tenant: tenantSlug, projectKey: projectSlug });
     });
+    let driftCount = 0;
     for (const r of driftRes.records) {
+      const reference = mapStableRef(r.get("sr") as Neo4jNode);
+      if (reference.driftDetected) {driftCount++;}
       findings.push({
-        type: "drift_detected",
-        severity: "error",
+        ...driftFinding(reference),
         evidenceId: String(r.get("evId")),
         activityId: r.get("actId") ? String(r.get("actId")) : undefined,
         requirementRef: r.get("reqRef") ? String(r.get("reqRef")) : undefined,
-        message: `Source content has changed since evidence was captured. Verification may be invalidated.`,
       });
     }
 
@@ -741,6 +850,46 @@ export async function runVerificationEngine(
       });
     }
 
+    // 7. Find suspect trace links (either end changed since the link was last reviewed)
+    const suspectRes = await session.executeRead(async (tx: ManagedTransaction) => {
+      return tx.run(`
+        MATCH (:Tenant {slug: $tenant})-[:OWNS]->(:Project {slug: $projectKey})-[:HAS_TRACE_LINK]->(link:TraceLink {suspect: true})
+        MATCH (link)-[:FROM_REQUIREMENT]->(source:Requirement)
+        MATCH (link)-[:TO_REQUIREMENT]->(target:Requirement)
+        RETURN link.linkType AS linkType, link.suspectEnds AS ends,
+               source.ref AS sourceRef, target.ref AS targetRef, target.id AS targetId
+      `, { tenant: tenantSlug, projectKey: projectSlug });
+    });
+    for (const r of suspectRes.records) {
+      const ends = (r.get("ends") as string[] | null) ?? [];
+      const changed = ends.map(end => (end === "source" ? r.get("sourceRef") : r.get("targetRef"))).join(" and ");
+      findings.push({
+        type: "suspect_link",
+        severity: r.get("linkType") === "verifies" ? "error" : "warning",
+        requirementRef: String(r.get("targetRef")),
+        requirementId: String(r.get("targetId")),
+        message: `Trace link ${r.get("sourceRef")} ${r.get("linkType")} ${r.get("targetRef")} is suspect: ${changed || "a linked requirement"} changed since it was last reviewed.`,
+      });
+    }
+
+    // 8. Find trace rule violations (disallowed links and missing or excess coverage)
+    const traceRules = await getTraceRules(tenant, projectKey);
+    if (traceRules) {
+      const [endpoints, links] = await Promise.all([
+        listTraceEndpoints(tenant, projectKey),
+        listTraceLinks({ tenant, projectKey })
+      ]);
+      for (const violation of evaluateTraceRules(traceRules, endpoints, links)) {
+        findings.push({
+          type: "trace_rule",
+          severity: violation.enforcement === "reject" ? "error" : "warning",
+          requirementRef: violation.requirementRef,
+          requirementId: violation.requirementId,
+          message: violation.message,
+        });
+      }
+    }
+
     // Summary counts
     const countRes = await session.executeRead(async (tx: ManagedTransaction) => {
       return tx.run(`
@@ -760,7 +909,6 @@ export async function runVerificationEngine(
     const total = countRes.records[0]?.get("total")?.toNumber?.() ?? countRes.records[0]?.get("total") ?? 0;
     const verified = countRes.records[0]?.get("verified")?.toNumber?.() ?? countRes.records[0]?.get("verified") ?? 0;
     const incomplete = countRes.records[0]?.get("incomplete")?.toNumber?.() ?? countRes.records[0]?.get("incomplete") ?? 0;
-    const driftCount = driftRes.records.length;
 
     return {
       tenant: tenantSlug,
@@ -848,3 +996,117 @@ export async function getVerificationMatrix(
     await session.close();
   }
 }
+
+// ── Matrix Source (VCRM export) ────────────────────────────────
+
+export type MatrixSourceRequirement = {
+  id: string;
+  ref: string;
+  text: string;
+  verification: VerificationMethod | null;
+  attributes: Record<string, unknown>;
+  documentSlug: string | null;
+  documentName: string | null;
+  sectionName: string | null;
+  sectionOrder: number | null;
+  order: number | null;
+  deleted: boolean;
+};
+
+export type MatrixSourceProcedure = {
+  vdocId: string;
+  name: string;
+  kind: DocKind;
+  revisionNumber: string;
+};
+
+export type MatrixSourceEvidence = VerificationEvidenceRecord & {
+  /** Verification document revisions the evidence's stable references point at */
+  procedures: MatrixSourceProcedure[];
+};
+
+export type VerificationMatrixSource = {
+  requirements: MatrixSourceRequirement[];
+  activities: VerificationActivityRecord[];
+  evidence: MatrixSourceEvidence[];
+};
+
+/**
+ * Everything the VCRM export needs in one read: requirements with their
+ * document and section placement (deleted ones too, so baseline exports can
+ * place requirements deleted since), activities, and evidence with the
+ * procedure document revisions it references.
+ */
+export async function getVerificationMatrixSource(
+  tenant: string,
+  projectKey: string,
+): Promise<VerificationMatrixSource> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+
+  const session = getSession();
+  try {
+    return await session.executeRead(async (tx: ManagedTransaction) => {
+      const reqRes = await tx.run(`
+        MATCH (req:Requirement {tenant: $tenant, projectKey: $projectKey})
+        OPTIONAL MATCH (sectionDoc:Document)-[:HAS_SECTION]->(section:DocumentSection)-[:CONTAINS]->(req)
+        OPTIONAL MATCH (directDoc:Document)-[:CONTAINS]->(req)
+        WITH req, section, coalesce(sectionDoc, directDoc) AS document
+        RETURN req, document.slug AS documentSlug, document.name AS documentName,
+               section.name AS sectionName, section.order AS sectionOrder
+      `, { tenant: tenantSlug, projectKey: projectSlug });
+
+      const actRes = await tx.run(`
+        MATCH (va:VerificationActivity {tenant: $tenant, projectKey: $projectKey})
+        OPTIONAL MATCH (va)-[:VERIFIES]->(req:Requirement)
+        RETURN va, req.ref AS reqRef
+      `, { tenant: tenantSlug, projectKey: projectSlug });
+
+      const evRes = await tx.run(`
+        MATCH (ve:VerificationEvidence {tenant: $tenant, projectKey: $projectKey})
+        OPTIONAL MATCH (ve)-[:HAS_REFERENCE]->(:StableReference)-[:REFERENCES]->(rev:DocumentRevision)<-[:HAS_REVISION]-(vd:VerificationDocument)
+        WITH ve, collect(DISTINCT CASE WHEN vd IS NULL THEN null ELSE {
+          vdocId: vd.vdocId, name: vd.name, kind: vd.kind, revisionNumber: rev.revisionNumber
+        } END) AS procedures
+        RETURN ve, procedures
+      `, { tenant: tenantSlug, projectKey: projectSlug });
+
+      const optionalNumber = (value: unknown) => (value === null || value === undefined ? null : toNumber(value));
+
+      return {
+        requirements: reqRes.records.map(r => {
+          const p = (r.get("req") as Neo4jNode).properties as Record<string, unknown>;
+          return {
+            id: String(p.id),
+            ref: String(p.ref),
+            text: String(p.text ?? ""),
+            verification: p.verification ? (String(p.verification) as VerificationMethod) : null,
+            attributes: typeof p.attributes === "string" ? JSON.parse(p.attributes) as Record<string, unknown> : {},
+            documentSlug: r.get("documentSlug") ? String(r.get("documentSlug")) : null,
+            documentName: r.get("documentName") ? String(r.get("documentName")) : null,
+            sectionName: r.get("sectionName") ? String(r.get("sectionName")) : null,
+            sectionOrder: optionalNumber(r.get("sectionOrder")),
+            order: optionalNumber(p.order),
+            deleted: Boolean(p.deleted),
+          };
+        }),
+        activities: actRes.records.map(r =>
+          mapActivity(r.get("va") as Neo4jNode, r.get("reqRef") ? String(r.get("reqRef")) : undefined),
+        ),
+        evidence: evRes.records.map(r => ({
+          ...mapEvidence(r.get("ve") as Neo4jNode),
+          procedures: (r.get("procedures") as Array<Record<string, unknown>>)
+            .filter(Boolean)
+            .map(proc => ({
+              vdocId: String(proc.vdocId),
+              name: String(proc.name),
+              kind: String(proc.kind) as DocKind,
+              revisionNumber: String(proc.revisionNumber),
+            })),
+        })),
+      };
+    });
+  } finally {
+    await session.close();
+  }
+}
@@ -92,9 +92,17 @@ export class GeminiClient {
       logger.info({ imageSize: imageBuffer.length }, '[Imagine] Image size');
       logger.info({ mimeType }, '[Imagine] MIME type');
 
+      const usageMetadata = result.usageMetadata;
+
       return {
         imageData: imageBuffer,
         mimeType: mimeType || 'image/png',
+        usage: usageMetadata
+          ? {
+            promptTokens: usageMetadata.promptTokenCount ?? 0,
+            completionTokens: usageMetadata.candidatesTokenCount ?? 0,
+          }
+          : undefined,
       };
     } catch (error: any) {
       logger.error({ err: error }, '[Imagine] Gemini API error');
@@ -5,11 +5,17 @@
 import { config } from '../../config.js';
 import { getSession } from '../graph/driver.js';
 import { logger } from '../../lib/logger.js';
+import { recordLlmCall } from '../../lib/metrics.js';
+import { enforceLlmQuota, recordLlmUsage, type LlmCallContext, type LlmUsage } from '../llm-providers/index.js';
+import { estimateCostUsd, estimateTokens } from '../llm-providers/pricing.js';
 import { ContextBuilder } from './context-builder.js';
 import { PromptGenerator } from './prompt-generator.js';
 import { GeminiClient } from './gemini-client.js';
 import { ImageStorage } from './image-storage.js';
-import type { ImagineRequest, ImagineImage, ReImagineRequest } from './types.js';
+import type { GeminiImageGenerationResult, ImagineRequest, ImagineImage, ReImagineRequest } from './types.js';
+
+// Gemini 2.5 Flash Image bills about 1290 output tokens per image
+const IMAGE_OUTPUT_TOKENS = 1290;
 
 export class ImagineService {
   private contextBuilder: ContextBuilder;
@@ -50,7 +56,12 @@ export class ImagineService {
     logger.info(`[Imagine] Generated prompt (${prompt.length} chars)`);
 
     // Step 3: Generate image with Gemini
-    const imageResult = await this.geminiClient.generateImage(prompt);
+    const imageResult = await this.generateImage(prompt, {
+      tenant: request.tenantSlug,
+      project: request.projectSlug,
+      userId: request.userId,
+      feature: 'imagine',
+    });
 
     // Step 4: Store image
     const imageId = `img-${Date.now()}-${Math.random().toString(36).substring(7)}`;
@@ -91,6 +102,49 @@ export class ImagineService {
     return imagine;
   }
 
+  /**
+   * Generate an image within the tenant's LLM quota and meter the call
+   */
+  private async generateImage(prompt: string, context: LlmCallContext): Promise<GeminiImageGenerationResult> {
+    const target = { provider: 'gemini', model: config.imagine.model };
+    await enforceLlmQuota(context, target);
+
+    const startedAt = Date.now();
+    let result: GeminiImageGenerationResult;
+    try {
+      result = await this.geminiClient!.generateImage(prompt);
+    } catch (error) {
+      const latencyMs = Date.now() - startedAt;
+      recordLlmCall({ ...target, feature: context.feature, status: 'error', promptTokens: 0, completionTokens: 0, costUsd: null, latencyMs });
+      await recordLlmUsage(context, {
+        ...target,
+        usage: { promptTokens: 0, completionTokens: 0, estimated: false },
+        costUsd: null,
+        latencyMs,
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error),
+        audit: { request: { prompt }, response: null },
+      });
+      throw error;
+    }
+
+    const latencyMs = Date.now() - startedAt;
+    const usage: LlmUsage = result.usage
+      ? { ...result.usage, estimated: false }
+      : { promptTokens: estimateTokens(prompt), completionTokens: IMAGE_OUTPUT_TOKENS, estimated: true };
+    const costUsd = estimateCostUsd(target.provider, target.model, usage);
+    recordLlmCall({ ...target, feature: context.feature, status: 'success', ...usage, costUsd, latencyMs });
+    await recordLlmUsage(context, {
+      ...target,
+      usage,
+      costUsd,
+      latencyMs,
+      status: 'success',
+      audit: { request: { prompt }, response: `[${result.mimeType} image, ${result.imageData.length} bytes]` },
+    });
+    return result;
+  }
+
   /**
    * Persist ImagineImage metadata to Neo4j
    */
@@ -263,7 +317,12 @@ export class ImagineService {
       logger.info(`[Imagine] Generated iteration prompt (${iterationPrompt.length} chars)`);
 
       // Generate new image
-      const imageResult = await this.geminiClient.generateImage(iterationPrompt);
+      const imageResult = await this.generateImage(iterationPrompt, {
+        tenant: parentImage.tenantSlug,
+        project: parentImage.projectSlug,
+        userId: request.userId,
+        feature: 'imagine',
+      });
 
       // Store image
       const imageId = `img-${Date.now()}-${Math.random().toString(36).substring(7)}`;
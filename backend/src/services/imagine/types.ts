@@ -79,4 +79,5 @@ export interface ReImagineRequest {
 export interface GeminiImageGenerationResult {
   imageData: Buffer; // Raw image bytes
   mimeType: string; // e.g., "image/png"
+  usage?: { promptTokens: number; completionTokens: number }; // From usageMetadata when reported
 }
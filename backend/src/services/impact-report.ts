@@ -0,0 +1,131 @@
+/**
+ * Impact Report
+ *
+ * Renders an impact analysis as a change-board pack: a Markdown document for
+ * review packs and a flat CSV for spreadsheets.
+ */
+
+import type { ImpactAnalysis, ImpactEntry, ImpactNode, ImpactNodeKind } from "./graph/impact.js";
+
+export type ImpactReportFormat = "markdown" | "csv";
+
+const KIND_LABELS: Record<ImpactNodeKind, string> = {
+  requirement: "Requirement",
+  block: "Architecture block",
+  connector: "Interface",
+  verificationActivity: "Verification activity",
+  verificationEvidence: "Verification evidence",
+  verificationDocument: "Verification document"
+};
+
+function nodesByKey(analysis: ImpactAnalysis): Map<string, ImpactNode> {
+  return new Map(analysis.nodes.map(node => [node.key, node]));
+}
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownSection(title: string, entries: ImpactEntry[], nodes: Map<string, ImpactNode>): string[] {
+  const lines = [`## ${title} (${entries.length})`, ""];
+  if (entries.length === 0) {
+    lines.push("_None_", "");
+    return lines;
+  }
+
+  lines.push("| Depth | Type | Item | Details | Path |", "|---|---|---|---|---|");
+  for (const entry of entries) {
+    const node = nodes.get(entry.key);
+    if (!node) {continue;}
+    const suspect = entry.path.some(edge => edge.suspect) ? " ⚠ suspect link" : "";
+    lines.push(
+      `| ${entry.depth} | ${KIND_LABELS[node.kind]} | ${escapeMarkdownCell(node.label)} | ${escapeMarkdownCell(node.detail ?? "")} | ${escapeMarkdownCell(entry.explanation)}${suspect} |`
+    );
+  }
+  lines.push("");
+  return lines;
+}
+
+function countByKind(entries: ImpactEntry[], nodes: Map<string, ImpactNode>): string {
+  const counts = new Map<ImpactNodeKind, number>();
+  for (const entry of entries) {
+    const kind = nodes.get(entry.key)?.kind;
+    if (kind) {counts.set(kind, (counts.get(kind) ?? 0) + 1);}
+  }
+  return [...counts.entries()].map(([kind, count]) => `${count} × ${KIND_LABELS[kind].toLowerCase()}`).join(", ") || "nothing";
+}
+
+export function renderImpactMarkdown(analysis: ImpactAnalysis): string {
+  const nodes = nodesByKey(analysis);
+  const { root } = analysis;
+
+  const lines = [
+    `# Impact Analysis: ${root.label}`,
+    "",
+    `- **Item:** ${KIND_LABELS[root.kind]} ${root.label}${root.detail ? ` — ${root.detail}` : ""}`,
+    `- **Project:** ${analysis.tenant}/${analysis.projectKey}`,
+    `- **Direction:** ${analysis.direction}`,
+    `- **Depth limit:** ${analysis.maxDepth}`,
+    `- **Generated:** ${analysis.generatedAt}`,
+    "",
+    "### Summary",
+    "",
+    `- Upstream: ${countByKind(analysis.upstream, nodes)}`,
+    `- Downstream: ${countByKind(analysis.downstream, nodes)}`
+  ];
+  if (analysis.truncated) {
+    lines.push(`- Relationships continue beyond depth ${analysis.maxDepth}; increase the depth limit to see them`);
+  }
+  lines.push("");
+
+  if (analysis.direction !== "downstream") {
+    lines.push(...markdownSection("Upstream", analysis.upstream, nodes));
+  }
+  if (analysis.direction !== "upstream") {
+    lines.push(...markdownSection("Downstream", analysis.downstream, nodes));
+  }
+
+  return lines.join("\n");
+}
+
+export function renderImpactCsv(analysis: ImpactAnalysis): string {
+  const nodes = nodesByKey(analysis);
+  const rows: Array<Array<string | number>> = [["direction", "depth", "type", "id", "item", "details", "suspect", "path"]];
+
+  const addRows = (direction: string, entries: ImpactEntry[]) => {
+    for (const entry of entries) {
+      const node = nodes.get(entry.key);
+      if (!node) {continue;}
+      rows.push([
+        direction,
+        entry.depth,
+        KIND_LABELS[node.kind],
+        node.id,
+        node.label,
+        node.detail ?? "",
+        entry.path.some(edge => edge.suspect) ? "yes" : "no",
+        entry.explanation
+      ]);
+    }
+  };
+  addRows("upstream", analysis.upstream);
+  addRows("downstream", analysis.downstream);
+
+  return rows.map(row => row.map(escapeCsv).join(",")).join("\r\n") + "\r\n";
+}
+
+export function renderImpactReport(analysis: ImpactAnalysis, format: ImpactReportFormat): {
+  content: string;
+  contentType: string;
+  extension: string;
+} {
+  if (format === "csv") {
+    return { content: renderImpactCsv(analysis), contentType: "text/csv; charset=utf-8", extension: "csv" };
+  }
+  return { content: renderImpactMarkdown(analysis), contentType: "text/markdown; charset=utf-8", extension: "md" };
+}
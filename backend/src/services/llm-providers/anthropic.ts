@@ -0,0 +1,127 @@
+/**
+ * Anthropic Provider
+ *
+ * Chat completion over the Anthropic Messages HTTP API. Anthropic offers no
+ * embeddings endpoint, so embeddings need a separate embedding provider.
+ */
+
+import { config } from "../../config.js";
+import {
+  LlmProviderError,
+  type LlmChatRequest,
+  type LlmChatResponse,
+  type LlmEmbeddingResponse,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmProviderSettings
+} from "./types.js";
+
+const DEFAULT_BASE_URL = "https://api.anthropic.com";
+const API_VERSION = "2023-06-01";
+// The Messages API requires max_tokens
+const DEFAULT_MAX_TOKENS = 4096;
+// There is no JSON response mode; ask for it in the system prompt instead
+const JSON_INSTRUCTION = "Respond with a single valid JSON object and nothing else.";
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: { type: "base64"; media_type: string; data: string } };
+
+type AnthropicMessage = { role: "user" | "assistant"; content: string | AnthropicContentBlock[] };
+
+type AnthropicResponse = {
+  model?: string;
+  content?: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+  error?: { type?: string; message?: string };
+};
+
+function textOf(message: LlmMessage): string {
+  return typeof message.content === "string"
+    ? message.content
+    : message.content.map(part => (part.type === "text" ? part.text : "")).join("\n");
+}
+
+function toAnthropicMessage(message: LlmMessage): AnthropicMessage {
+  const role = message.role === "assistant" ? "assistant" : "user";
+  if (typeof message.content === "string") {
+    return { role, content: message.content };
+  }
+  return {
+    role,
+    content: message.content.map(part =>
+      part.type === "text"
+        ? { type: "text", text: part.text }
+        : { type: "image", source: { type: "base64", media_type: part.mimeType, data: part.data } }
+    )
+  };
+}
+
+export class AnthropicProvider implements LlmProvider {
+  readonly kind = "anthropic" as const;
+  readonly model: string;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(settings: LlmProviderSettings) {
+    if (!settings.apiKey) {
+      throw new LlmProviderError("Anthropic API key missing");
+    }
+    this.model = settings.model;
+    this.apiKey = settings.apiKey;
+    this.baseUrl = (settings.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const system = request.messages.filter(message => message.role === "system").map(textOf);
+    if (request.json) {
+      system.push(JSON_INSTRUCTION);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/v1/messages`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-api-key": this.apiKey,
+          "anthropic-version": API_VERSION
+        },
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          ...(request.temperature !== undefined && { temperature: request.temperature }),
+          ...(system.length > 0 && { system: system.join("\n\n") }),
+          messages: request.messages.filter(message => message.role !== "system").map(toAnthropicMessage)
+        }),
+        signal: AbortSignal.timeout(config.llm.timeoutMs)
+      });
+    } catch (error) {
+      throw new LlmProviderError(`anthropic request failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const body = await response.json().catch(() => ({})) as AnthropicResponse;
+    if (!response.ok) {
+      const detail = body.error?.message ?? response.statusText;
+      throw new LlmProviderError(`anthropic request failed: ${response.status} ${detail}`, response.status);
+    }
+
+    const content = (body.content ?? [])
+      .filter(block => block.type === "text")
+      .map(block => block.text ?? "")
+      .join("");
+    return {
+      content,
+      model: body.model ?? this.model,
+      usage: {
+        promptTokens: body.usage?.input_tokens ?? 0,
+        completionTokens: body.usage?.output_tokens ?? 0,
+        estimated: false
+      }
+    };
+  }
+
+  async embed(): Promise<LlmEmbeddingResponse> {
+    throw new LlmProviderError("Anthropic does not provide embeddings; configure an embedding provider");
+  }
+}
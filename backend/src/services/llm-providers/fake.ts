@@ -0,0 +1,87 @@
+/**
+ * Fake Provider
+ *
+ * Deterministic, offline stand-in for tests and demos. Chat replies come
+ * from a responder function (an echo by default); embeddings are hashed
+ * bag-of-words vectors, so texts sharing words are similar under cosine
+ * similarity and identical texts always embed identically.
+ */
+
+import { createHash } from "node:crypto";
+import { config } from "../../config.js";
+import { estimatePromptTokens, estimateTokens } from "./pricing.js";
+import type {
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmEmbeddingResponse,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderSettings
+} from "./types.js";
+
+export type FakeLlmResponder = (request: LlmChatRequest) => string;
+
+function lastUserText(messages: LlmMessage[]): string {
+  const message = [...messages].reverse().find(m => m.role === "user");
+  if (!message) {return "";}
+  return typeof message.content === "string"
+    ? message.content
+    : message.content.map(part => (part.type === "text" ? part.text : "")).join("\n");
+}
+
+const echoResponder: FakeLlmResponder = request => {
+  const text = lastUserText(request.messages);
+  return request.json ? JSON.stringify({ echo: text }) : `Echo: ${text}`;
+};
+
+let responder: FakeLlmResponder = echoResponder;
+
+/**
+ * Script the fake provider's chat replies; call without an argument to
+ * restore the echo.
+ */
+export function setFakeLlmResponder(fn?: FakeLlmResponder): void {
+  responder = fn ?? echoResponder;
+}
+
+/**
+ * Hash each word into one of `dimensions` buckets with a hash-derived sign,
+ * then normalise to unit length.
+ */
+export function fakeEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  for (const word of words) {
+    const digest = createHash("sha256").update(word).digest();
+    const bucket = digest.readUInt32BE(0) % dimensions;
+    vector[bucket] += digest[4] & 1 ? 1 : -1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+export class FakeLlmProvider implements LlmProvider {
+  readonly kind = "fake" as const;
+  readonly model: string;
+
+  constructor(settings: LlmProviderSettings) {
+    this.model = settings.model;
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const content = responder(request);
+    return {
+      content,
+      model: this.model,
+      usage: { promptTokens: estimatePromptTokens(request.messages), completionTokens: estimateTokens(content), estimated: false }
+    };
+  }
+
+  async embed(input: string[]): Promise<LlmEmbeddingResponse> {
+    return {
+      embeddings: input.map(text => fakeEmbedding(text, config.llm.embeddingDimensions)),
+      model: this.model,
+      usage: { promptTokens: input.reduce((total, text) => total + estimateTokens(text), 0), completionTokens: 0, estimated: false }
+    };
+  }
+}
@@ -0,0 +1,373 @@
+/**
+ * LLM Providers
+ *
+ * Resolves which provider serves a tenant's chat and embedding calls and
+ * runs those calls with token, cost and latency accounting. Tenants with a
+ * row in tenant_llm_settings use their own provider; everyone else uses the
+ * platform default from the LLM_* environment. Every call is metered and
+ * checked against the tenant's quota (see metering.ts).
+ */
+
+import { config } from "../../config.js";
+import { logger } from "../../lib/logger.js";
+import { recordLlmCall } from "../../lib/metrics.js";
+import { LlmSettingsRepository, type TenantLlmSettings } from "../../repositories/LlmSettingsRepository.js";
+import { AnthropicProvider } from "./anthropic.js";
+import { FakeLlmProvider } from "./fake.js";
+import { enforceLlmQuota, recordLlmUsage, toAuditRequest, __resetLlmMeteringForTests } from "./metering.js";
+import { OpenAiCompatibleProvider } from "./openai.js";
+import { estimateCostUsd } from "./pricing.js";
+import {
+  LlmNotConfiguredError,
+  isLlmProviderKind,
+  type LlmCallContext,
+  type LlmChatRequest,
+  type LlmChatResponse,
+  type LlmEmbeddingResponse,
+  type LlmProvider,
+  type LlmProviderKind,
+  type LlmProviderSettings
+} from "./types.js";
+
+export * from "./types.js";
+export { setFakeLlmResponder } from "./fake.js";
+export {
+  enforceLlmQuota,
+  evaluateLlmQuota,
+  getLlmUsageRepository,
+  invalidateTenantLlmQuota,
+  recordLlmUsage,
+  type LlmQuotaStatus
+} from "./metering.js";
+
+export type LlmPurpose = "chat" | "embeddings";
+
+export interface ResolvedLlmSettings {
+  source: "tenant" | "platform";
+  chat: LlmProviderSettings | null;
+  embeddings: LlmProviderSettings | null;
+}
+
+export interface LlmAccounting {
+  provider: LlmProviderKind;
+  costUsd: number | null;
+  latencyMs: number;
+}
+
+export type LlmChatResult = LlmChatResponse & LlmAccounting;
+export type LlmEmbeddingResult = LlmEmbeddingResponse & LlmAccounting;
+
+// Tenant settings are re-read after this long, or at once when changed here
+const TENANT_SETTINGS_TTL_MS = 60_000;
+
+const providers = new Map<string, LlmProvider>();
+const tenantSettingsCache = new Map<string, { settings: TenantLlmSettings | null; expiresAt: number }>();
+let repository: LlmSettingsRepository | null = null;
+
+/**
+ * Lazily create the repository so the LLM services load without a
+ * PostgreSQL connection.
+ */
+export function getLlmSettingsRepository(): LlmSettingsRepository {
+  if (!repository) {
+    repository = new LlmSettingsRepository();
+  }
+  return repository;
+}
+
+function parseProviderKind(value: string): LlmProviderKind {
+  if (!isLlmProviderKind(value)) {
+    throw new Error(`Unsupported LLM provider '${value}'`);
+  }
+  return value;
+}
+
+/**
+ * Whether a provider can be built from these settings without calling it.
+ */
+function isUsable(settings: LlmProviderSettings): boolean {
+  switch (settings.provider) {
+    case "openai":
+    case "anthropic":
+      return Boolean(settings.apiKey);
+    case "azure":
+      return Boolean(settings.apiKey && settings.baseUrl);
+    case "local":
+      return Boolean(settings.baseUrl);
+    case "fake":
+      return true;
+  }
+}
+
+/**
+ * Platform default from the environment. An API key without LLM_PROVIDER
+ * means OpenAI.
+ */
+function platformSettings(): ResolvedLlmSettings {
+  const chatKind = config.llm.provider ?? (config.llm.apiKey ? "openai" : null);
+  const chat: LlmProviderSettings | null = chatKind
+    ? {
+      provider: parseProviderKind(chatKind),
+      model: config.llm.model,
+      apiKey: config.llm.apiKey,
+      baseUrl: config.llm.baseUrl,
+      apiVersion: config.llm.azureApiVersion
+    }
+    : null;
+
+  let embeddings: LlmProviderSettings | null = null;
+  if (config.llm.embeddingProvider) {
+    const provider = parseProviderKind(config.llm.embeddingProvider);
+    const sameAsChat = provider === chat?.provider;
+    embeddings = {
+      provider,
+      model: config.llm.embeddingModel,
+      apiKey: config.llm.embeddingApiKey ?? (sameAsChat ? chat.apiKey : null),
+      baseUrl: config.llm.embeddingBaseUrl ?? (sameAsChat ? chat.baseUrl : null),
+      apiVersion: config.llm.azureApiVersion
+    };
+  } else if (chat && chat.provider !== "anthropic") {
+    embeddings = {
+      ...chat,
+      model: config.llm.embeddingModel,
+      baseUrl: config.llm.embeddingBaseUrl ?? chat.baseUrl
+    };
+  }
+
+  return { source: "platform", chat, embeddings };
+}
+
+function tenantResolvedSettings(tenant: TenantLlmSettings): ResolvedLlmSettings {
+  const chat: LlmProviderSettings = {
+    provider: tenant.provider,
+    model: tenant.model,
+    apiKey: tenant.apiKey,
+    baseUrl: tenant.baseUrl,
+    apiVersion: tenant.apiVersion
+  };
+
+  let embeddings: LlmProviderSettings | null;
+  if (tenant.embeddingProvider) {
+    const sameAsChat = tenant.embeddingProvider === tenant.provider;
+    embeddings = {
+      provider: tenant.embeddingProvider,
+      model: tenant.embeddingModel ?? config.llm.embeddingModel,
+      apiKey: tenant.embeddingApiKey ?? (sameAsChat ? tenant.apiKey : null),
+      baseUrl: tenant.embeddingBaseUrl ?? (sameAsChat ? tenant.baseUrl : null),
+      apiVersion: tenant.apiVersion
+    };
+  } else if (tenant.provider !== "anthropic") {
+    embeddings = { ...chat, model: tenant.embeddingModel ?? config.llm.embeddingModel };
+  } else {
+    // Anthropic has no embeddings; fall back to the platform's
+    embeddings = platformSettings().embeddings;
+  }
+
+  return { source: "tenant", chat, embeddings };
+}
+
+async function loadTenantSettings(tenant: string): Promise<TenantLlmSettings | null> {
+  const cached = tenantSettingsCache.get(tenant);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.settings;
+  }
+  const settings = await getLlmSettingsRepository().getSettings(tenant);
+  tenantSettingsCache.set(tenant, { settings, expiresAt: Date.now() + TENANT_SETTINGS_TTL_MS });
+  return settings;
+}
+
+/**
+ * Provider settings for a tenant, or the platform default when no tenant is
+ * given, the tenant has no settings, or PostgreSQL is not configured.
+ */
+export async function resolveLlmSettings(tenant?: string): Promise<ResolvedLlmSettings> {
+  if (tenant && config.databaseUrl) {
+    const settings = await loadTenantSettings(tenant);
+    if (settings) {
+      return tenantResolvedSettings(settings);
+    }
+  }
+  return platformSettings();
+}
+
+/**
+ * Drop a tenant's cached settings after they change.
+ */
+export function invalidateTenantLlmSettings(tenant: string): void {
+  tenantSettingsCache.delete(tenant);
+}
+
+/**
+ * Whether the platform default can serve chat completion.
+ */
+export function isLlmConfigured(): boolean {
+  try {
+    const { chat } = platformSettings();
+    return Boolean(chat && isUsable(chat));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Build a provider from settings. Instances are cached per settings so
+ * SDK clients and their connection pools are reused.
+ */
+export function createLlmProvider(settings: LlmProviderSettings): LlmProvider {
+  const key = JSON.stringify([settings.provider, settings.model, settings.apiKey, settings.baseUrl, settings.apiVersion]);
+  let provider = providers.get(key);
+  if (!provider) {
+    switch (settings.provider) {
+      case "openai":
+      case "local":
+      case "azure":
+        provider = new OpenAiCompatibleProvider(settings);
+        break;
+      case "anthropic":
+        provider = new AnthropicProvider(settings);
+        break;
+      case "fake":
+        provider = new FakeLlmProvider(settings);
+        break;
+      default:
+        throw new Error(`Unsupported LLM provider '${(settings as { provider: string }).provider}'`);
+    }
+    providers.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * @throws LlmNotConfiguredError if nothing serves this purpose for the tenant
+ */
+export async function getLlmProvider(purpose: LlmPurpose, tenant?: string): Promise<LlmProvider> {
+  const resolved = await resolveLlmSettings(tenant);
+  const settings = resolved[purpose];
+  if (!settings) {
+    throw new LlmNotConfiguredError(
+      purpose === "chat" ? "LLM provider is not configured" : "LLM embedding provider is not configured"
+    );
+  }
+  if (!isUsable(settings)) {
+    throw new LlmNotConfiguredError(`LLM provider '${settings.provider}' is missing its API key or endpoint URL`);
+  }
+  return createLlmProvider(settings);
+}
+
+async function account(
+  provider: LlmProvider,
+  context: LlmCallContext,
+  response: LlmChatResponse | LlmEmbeddingResponse,
+  startedAt: number,
+  audit: { request: unknown; response: string | null }
+): Promise<LlmAccounting> {
+  const latencyMs = Date.now() - startedAt;
+  const costUsd = estimateCostUsd(provider.kind, response.model, response.usage);
+  recordLlmCall({
+    provider: provider.kind,
+    model: response.model,
+    feature: context.feature,
+    status: "success",
+    promptTokens: response.usage.promptTokens,
+    completionTokens: response.usage.completionTokens,
+    costUsd,
+    latencyMs
+  });
+  logger.debug({
+    tenant: context.tenant,
+    feature: context.feature,
+    provider: provider.kind,
+    model: response.model,
+    usage: response.usage,
+    costUsd,
+    latencyMs
+  }, "[LLM] Call completed");
+  await recordLlmUsage(context, {
+    provider: provider.kind,
+    model: response.model,
+    usage: response.usage,
+    costUsd,
+    latencyMs,
+    status: "success",
+    audit
+  });
+  return { provider: provider.kind, costUsd, latencyMs };
+}
+
+async function recordFailure(
+  provider: LlmProvider,
+  context: LlmCallContext,
+  startedAt: number,
+  error: unknown,
+  request: unknown
+): Promise<void> {
+  const latencyMs = Date.now() - startedAt;
+  recordLlmCall({
+    provider: provider.kind,
+    model: provider.model,
+    feature: context.feature,
+    status: "error",
+    promptTokens: 0,
+    completionTokens: 0,
+    costUsd: null,
+    latencyMs
+  });
+  await recordLlmUsage(context, {
+    provider: provider.kind,
+    model: provider.model,
+    usage: { promptTokens: 0, completionTokens: 0, estimated: false },
+    costUsd: null,
+    latencyMs,
+    status: "error",
+    error: error instanceof Error ? error.message : String(error),
+    audit: { request, response: null }
+  });
+}
+
+/**
+ * Run a chat completion with the tenant's provider.
+ *
+ * @throws LlmQuotaExceededError when the tenant has reached a hard quota
+ */
+export async function llmChat(request: LlmChatRequest, context: LlmCallContext): Promise<LlmChatResult> {
+  const provider = await getLlmProvider("chat", context.tenant);
+  await enforceLlmQuota(context, { provider: provider.kind, model: provider.model });
+  const auditRequest = toAuditRequest(request);
+  const startedAt = Date.now();
+  let response: LlmChatResponse;
+  try {
+    response = await provider.chat(request);
+  } catch (error) {
+    await recordFailure(provider, context, startedAt, error, auditRequest);
+    throw error;
+  }
+  const accounting = await account(provider, context, response, startedAt, { request: auditRequest, response: response.content });
+  return { ...response, ...accounting };
+}
+
+/**
+ * Embed texts with the tenant's embedding provider, one vector per input.
+ *
+ * @throws LlmQuotaExceededError when the tenant has reached a hard quota
+ */
+export async function llmEmbed(input: string[], context: LlmCallContext): Promise<LlmEmbeddingResult> {
+  const provider = await getLlmProvider("embeddings", context.tenant);
+  await enforceLlmQuota(context, { provider: provider.kind, model: provider.model });
+  const startedAt = Date.now();
+  let response: LlmEmbeddingResponse;
+  try {
+    response = await provider.embed(input);
+  } catch (error) {
+    await recordFailure(provider, context, startedAt, error, { input });
+    throw error;
+  }
+  const accounting = await account(provider, context, response, startedAt, { request: { input }, response: null });
+  return { ...response, ...accounting };
+}
+
+export function __resetLlmProvidersForTests(): void {
+  providers.clear();
+  tenantSettingsCache.clear();
+  repository = null;
+  __resetLlmMeteringForTests();
+}
@@ -0,0 +1,206 @@
+/**
+ * LLM Metering
+ *
+ * Records every LLM call in llm_usage, enforces per-tenant monthly quotas
+ * before a call is made, and retains prompts and responses for tenants that
+ * opted in to auditing. Without PostgreSQL calls are neither metered nor
+ * limited.
+ */
+
+import { config } from "../../config.js";
+import { logger } from "../../lib/logger.js";
+import {
+  LlmUsageRepository,
+  type LlmUsageStatus,
+  type LlmUsageTotals,
+  type TenantLlmQuota
+} from "../../repositories/LlmUsageRepository.js";
+import { LlmQuotaExceededError, type LlmCallContext, type LlmChatRequest, type LlmUsage } from "./types.js";
+
+export interface LlmQuotaStatus {
+  quota: TenantLlmQuota | null;
+  monthToDate: LlmUsageTotals | null;
+  softLimitReached: boolean;
+  hardLimitReached: "tokens" | "cost" | null;
+}
+
+/** The model a call is about to be made with */
+export interface LlmCallTarget {
+  provider: string;
+  model: string;
+}
+
+export interface LlmUsageEntry extends LlmCallTarget {
+  usage: LlmUsage;
+  costUsd: number | null;
+  latencyMs: number;
+  status: LlmUsageStatus;
+  error?: string;
+  /** Kept only when the tenant retains prompts */
+  audit?: { request: unknown; response: string | null };
+}
+
+// Quotas change rarely; usage totals are always read fresh
+const QUOTA_TTL_MS = 60_000;
+
+const quotaCache = new Map<string, { quota: TenantLlmQuota | null; expiresAt: number }>();
+const softLimitWarnings = new Set<string>();
+let repository: LlmUsageRepository | null = null;
+
+export function getLlmUsageRepository(): LlmUsageRepository {
+  if (!repository) {
+    repository = new LlmUsageRepository();
+  }
+  return repository;
+}
+
+function isMeteringEnabled(): boolean {
+  return Boolean(config.databaseUrl);
+}
+
+async function loadQuota(tenant: string): Promise<TenantLlmQuota | null> {
+  const cached = quotaCache.get(tenant);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.quota;
+  }
+  const quota = await getLlmUsageRepository().getQuota(tenant);
+  quotaCache.set(tenant, { quota, expiresAt: Date.now() + QUOTA_TTL_MS });
+  return quota;
+}
+
+/**
+ * Drop a tenant's cached quota after it changes.
+ */
+export function invalidateTenantLlmQuota(tenant: string): void {
+  quotaCache.delete(tenant);
+}
+
+function reached(used: number, limit: number | null): boolean {
+  return limit !== null && used >= limit;
+}
+
+/**
+ * Compare month-to-date usage with a quota. Usage is only read when the
+ * quota sets at least one limit.
+ */
+export async function evaluateLlmQuota(quota: TenantLlmQuota | null): Promise<LlmQuotaStatus> {
+  const limited = quota && [
+    quota.monthlyTokenSoftLimit,
+    quota.monthlyTokenHardLimit,
+    quota.monthlyCostSoftLimitUsd,
+    quota.monthlyCostHardLimitUsd
+  ].some(limit => limit !== null);
+  if (!quota || !limited) {
+    return { quota, monthToDate: null, softLimitReached: false, hardLimitReached: null };
+  }
+
+  const monthToDate = await getLlmUsageRepository().getMonthToDate(quota.tenantSlug);
+  const tokens = monthToDate.promptTokens + monthToDate.completionTokens;
+  const hardLimitReached = reached(tokens, quota.monthlyTokenHardLimit)
+    ? "tokens"
+    : reached(monthToDate.costUsd, quota.monthlyCostHardLimitUsd) ? "cost" : null;
+
+  return {
+    quota,
+    monthToDate,
+    softLimitReached: reached(tokens, quota.monthlyTokenSoftLimit) || reached(monthToDate.costUsd, quota.monthlyCostSoftLimitUsd),
+    hardLimitReached
+  };
+}
+
+/**
+ * Refuse a call when the tenant has reached a hard monthly limit. The
+ * refusal is recorded as a blocked call. Passing a soft limit only logs a
+ * warning, once per tenant and month.
+ *
+ * @throws LlmQuotaExceededError
+ */
+export async function enforceLlmQuota(context: LlmCallContext, target: LlmCallTarget): Promise<void> {
+  const tenant = context.tenant;
+  if (!tenant || !isMeteringEnabled()) {
+    return;
+  }
+
+  const status = await evaluateLlmQuota(await loadQuota(tenant));
+  if (status.hardLimitReached) {
+    const error = new LlmQuotaExceededError(tenant, status.hardLimitReached);
+    await recordLlmUsage(context, {
+      ...target,
+      usage: { promptTokens: 0, completionTokens: 0, estimated: false },
+      costUsd: 0,
+      latencyMs: 0,
+      status: "blocked",
+      error: error.message
+    });
+    throw error;
+  }
+
+  if (status.softLimitReached) {
+    const key = `${tenant}:${new Date().toISOString().slice(0, 7)}`;
+    if (!softLimitWarnings.has(key)) {
+      softLimitWarnings.add(key);
+      logger.warn({ tenant, monthToDate: status.monthToDate }, "[LLM] Tenant passed its soft monthly quota");
+    }
+  }
+}
+
+/**
+ * Write a call to llm_usage, with its prompt and response when the tenant
+ * retains them. Metering failures are logged and never fail the call.
+ */
+export async function recordLlmUsage(context: LlmCallContext, entry: LlmUsageEntry): Promise<void> {
+  if (!isMeteringEnabled()) {
+    return;
+  }
+
+  try {
+    const quota = context.tenant ? await loadQuota(context.tenant) : null;
+    let audit: { request: unknown; response: string | null; expiresAt: Date } | undefined;
+    if (quota?.retainPrompts && entry.audit) {
+      const retentionDays = quota.retentionDays ?? config.llm.auditRetentionDays;
+      audit = { ...entry.audit, expiresAt: new Date(Date.now() + retentionDays * 86_400_000) };
+    }
+
+    await getLlmUsageRepository().recordUsage({
+      tenantSlug: context.tenant,
+      projectSlug: context.project,
+      userId: context.userId,
+      feature: context.feature,
+      provider: entry.provider,
+      model: entry.model,
+      promptTokens: entry.usage.promptTokens,
+      completionTokens: entry.usage.completionTokens,
+      tokensEstimated: entry.usage.estimated,
+      costUsd: entry.costUsd,
+      latencyMs: entry.latencyMs,
+      status: entry.status,
+      error: entry.error
+    }, audit);
+  } catch (error) {
+    logger.warn({ err: error, tenant: context.tenant, feature: context.feature }, "[LLM] Failed to record usage");
+  }
+}
+
+/**
+ * Chat request as retained for audit. Image data is replaced by its type
+ * and size so the audit log holds text only.
+ */
+export function toAuditRequest(request: LlmChatRequest): unknown {
+  return {
+    ...request,
+    messages: request.messages.map(message => ({
+      role: message.role,
+      content: typeof message.content === "string"
+        ? message.content
+        : message.content.map(part => part.type === "image"
+          ? { type: "image", mimeType: part.mimeType, bytes: Math.floor(part.data.length * 3 / 4) }
+          : part)
+    }))
+  };
+}
+
+export function __resetLlmMeteringForTests(): void {
+  quotaCache.clear();
+  softLimitWarnings.clear();
+  repository = null;
+}
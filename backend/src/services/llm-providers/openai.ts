@@ -0,0 +1,120 @@
+/**
+ * OpenAI-compatible Provider
+ *
+ * Covers OpenAI itself, Azure OpenAI and local servers that speak the
+ * OpenAI chat completions and embeddings API (llama.cpp server, Ollama,
+ * vLLM, LM Studio).
+ */
+
+import OpenAI, { AzureOpenAI } from "openai";
+import type { ChatCompletionContentPart, ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { config } from "../../config.js";
+import { estimatePromptTokens, estimateTokens } from "./pricing.js";
+import {
+  LlmProviderError,
+  type LlmChatRequest,
+  type LlmChatResponse,
+  type LlmEmbeddingResponse,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmProviderSettings
+} from "./types.js";
+
+// The SDK insists on a key; local servers ignore it
+const LOCAL_PLACEHOLDER_KEY = "local";
+
+function toOpenAiMessage(message: LlmMessage): ChatCompletionMessageParam {
+  if (typeof message.content === "string" || message.role !== "user") {
+    const content = typeof message.content === "string"
+      ? message.content
+      : message.content.map(part => (part.type === "text" ? part.text : "")).join("\n");
+    return { role: message.role, content };
+  }
+  const parts: ChatCompletionContentPart[] = message.content.map(part =>
+    part.type === "text"
+      ? { type: "text", text: part.text }
+      : { type: "image_url", image_url: { url: `data:${part.mimeType};base64,${part.data}`, detail: "high" } }
+  );
+  return { role: "user", content: parts };
+}
+
+function providerError(error: unknown, kind: string): LlmProviderError {
+  const status = (error as { status?: unknown }).status;
+  const message = error instanceof Error ? error.message : String(error);
+  return new LlmProviderError(`${kind} request failed: ${message}`, typeof status === "number" ? status : undefined);
+}
+
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly kind: LlmProviderSettings["provider"];
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(settings: LlmProviderSettings) {
+    this.kind = settings.provider;
+    this.model = settings.model;
+
+    if (settings.provider === "azure") {
+      if (!settings.apiKey || !settings.baseUrl) {
+        throw new LlmProviderError("Azure OpenAI requires an API key and an endpoint URL");
+      }
+      this.client = new AzureOpenAI({
+        apiKey: settings.apiKey,
+        endpoint: settings.baseUrl,
+        apiVersion: settings.apiVersion ?? config.llm.azureApiVersion,
+        timeout: config.llm.timeoutMs
+      });
+      return;
+    }
+
+    if (settings.provider === "local" && !settings.baseUrl) {
+      throw new LlmProviderError("Local LLM provider requires a base URL, e.g. http://localhost:11434/v1");
+    }
+    if (settings.provider === "openai" && !settings.apiKey) {
+      throw new LlmProviderError("OpenAI API key missing (set LLM_API_KEY or OPENAI_API_KEY)");
+    }
+    this.client = new OpenAI({
+      apiKey: settings.apiKey || LOCAL_PLACEHOLDER_KEY,
+      baseURL: settings.baseUrl || undefined,
+      timeout: config.llm.timeoutMs
+    });
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    let completion: OpenAI.Chat.Completions.ChatCompletion;
+    try {
+      completion = await this.client.chat.completions.create({
+        model: this.model,
+        temperature: request.temperature,
+        ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+        ...(request.json && { response_format: { type: "json_object" as const } }),
+        messages: request.messages.map(toOpenAiMessage)
+      });
+    } catch (error) {
+      throw providerError(error, this.kind);
+    }
+
+    const content = completion.choices[0]?.message?.content ?? "";
+    const usage = completion.usage
+      ? { promptTokens: completion.usage.prompt_tokens, completionTokens: completion.usage.completion_tokens, estimated: false }
+      : { promptTokens: estimatePromptTokens(request.messages), completionTokens: estimateTokens(content), estimated: true };
+    return { content, model: completion.model || this.model, usage };
+  }
+
+  async embed(input: string[]): Promise<LlmEmbeddingResponse> {
+    let response: OpenAI.Embeddings.CreateEmbeddingResponse;
+    try {
+      response = await this.client.embeddings.create({ model: this.model, input, encoding_format: "float" });
+    } catch (error) {
+      throw providerError(error, this.kind);
+    }
+
+    // Some servers omit the index; keep the input order either way
+    const embeddings = [...response.data]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(item => item.embedding);
+    const usage = response.usage
+      ? { promptTokens: response.usage.prompt_tokens, completionTokens: 0, estimated: false }
+      : { promptTokens: input.reduce((total, text) => total + estimateTokens(text), 0), completionTokens: 0, estimated: true };
+    return { embeddings, model: response.model || this.model, usage };
+  }
+}
@@ -0,0 +1,112 @@
+import { config } from "../../config.js";
+import { logger } from "../../lib/logger.js";
+import type { LlmMessage, LlmProviderKind, LlmUsage } from "./types.js";
+
+/** USD per million tokens */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * List prices, matched on the longest model name prefix so dated snapshots
+ * ("gpt-4o-mini-2024-07-18") resolve to their family. Override or extend
+ * with LLM_PRICING, e.g. {"my-finetune": {"prompt": 1, "completion": 2}}.
+ */
+const BUILT_IN_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "gpt-4o": { prompt: 2.5, completion: 10 },
+  "gpt-4.1-nano": { prompt: 0.1, completion: 0.4 },
+  "gpt-4.1-mini": { prompt: 0.4, completion: 1.6 },
+  "gpt-4.1": { prompt: 2, completion: 8 },
+  "o3-mini": { prompt: 1.1, completion: 4.4 },
+  "o4-mini": { prompt: 1.1, completion: 4.4 },
+  "text-embedding-3-small": { prompt: 0.02, completion: 0 },
+  "text-embedding-3-large": { prompt: 0.13, completion: 0 },
+  "claude-3-5-haiku": { prompt: 0.8, completion: 4 },
+  "claude-haiku-4": { prompt: 1, completion: 5 },
+  "claude-3-5-sonnet": { prompt: 3, completion: 15 },
+  "claude-3-7-sonnet": { prompt: 3, completion: 15 },
+  "claude-sonnet-4": { prompt: 3, completion: 15 },
+  "claude-opus-4": { prompt: 15, completion: 75 },
+  // Imagine renders through Gemini; image output is billed as completion tokens
+  "gemini-2.5-flash-image": { prompt: 0.3, completion: 30 }
+};
+
+/** Self-hosted and fake models cost nothing per token */
+const FREE_PROVIDERS: string[] = ["local", "fake"];
+
+let prices: Record<string, ModelPrice> | null = null;
+
+function parseOverrides(raw: string): Record<string, ModelPrice> {
+  try {
+    const parsed = JSON.parse(raw) as Record<string, Partial<ModelPrice>>;
+    const overrides: Record<string, ModelPrice> = {};
+    for (const [model, price] of Object.entries(parsed)) {
+      if (typeof price?.prompt === "number") {
+        overrides[model] = { prompt: price.prompt, completion: typeof price.completion === "number" ? price.completion : 0 };
+      }
+    }
+    return overrides;
+  } catch (error) {
+    logger.warn({ err: error }, "[LLM] Ignoring invalid LLM_PRICING");
+    return {};
+  }
+}
+
+function priceTable(): Record<string, ModelPrice> {
+  if (!prices) {
+    prices = { ...BUILT_IN_PRICES, ...(config.llm.pricing ? parseOverrides(config.llm.pricing) : {}) };
+  }
+  return prices;
+}
+
+/**
+ * Price of a model, or null when it is not in the table. The provider is a
+ * plain string so callers outside the provider layer (Imagine) can price
+ * their calls too.
+ */
+export function getModelPrice(provider: LlmProviderKind | string, model: string): ModelPrice | null {
+  if (FREE_PROVIDERS.includes(provider)) {
+    return { prompt: 0, completion: 0 };
+  }
+  const name = model.toLowerCase();
+  let best: string | null = null;
+  for (const prefix of Object.keys(priceTable())) {
+    if (name.startsWith(prefix.toLowerCase()) && (!best || prefix.length > best.length)) {
+      best = prefix;
+    }
+  }
+  return best ? priceTable()[best] : null;
+}
+
+/**
+ * Estimated cost of a call in USD, or null for models without a known price.
+ */
+export function estimateCostUsd(provider: LlmProviderKind | string, model: string, usage: LlmUsage): number | null {
+  const price = getModelPrice(provider, model);
+  if (!price) {return null;}
+  const cost = (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000;
+  return Math.round(cost * 1e8) / 1e8;
+}
+
+/**
+ * Rough token count for providers that report no usage: about four
+ * characters per token for English text.
+ */
+export function estimateTokens(text: string): number {
+  return text ? Math.ceil(text.length / 4) : 0;
+}
+
+export function estimatePromptTokens(messages: LlmMessage[]): number {
+  return messages.reduce((total, message) => {
+    const text = typeof message.content === "string"
+      ? message.content
+      : message.content.map(part => (part.type === "text" ? part.text : "")).join("\n");
+    return total + estimateTokens(text);
+  }, 0);
+}
+
+export function __resetPricingForTests(): void {
+  prices = null;
+}
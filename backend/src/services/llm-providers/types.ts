@@ -0,0 +1,115 @@
+/**
+ * LLM Provider Types
+ *
+ * Provider-neutral request and response shapes shared by the adapters.
+ */
+
+/**
+ * - `openai`: api.openai.com, or any endpoint set with a base URL
+ * - `local`: OpenAI-compatible local server (llama.cpp, Ollama, vLLM); the
+ *   API key is optional and missing usage figures are estimated
+ * - `azure`: Azure OpenAI; the model names the deployment
+ * - `anthropic`: Anthropic Messages API (chat only)
+ * - `fake`: deterministic offline provider for tests and demos
+ */
+export const LLM_PROVIDER_KINDS = ["openai", "local", "azure", "anthropic", "fake"] as const;
+
+export type LlmProviderKind = typeof LLM_PROVIDER_KINDS[number];
+
+export function isLlmProviderKind(value: string): value is LlmProviderKind {
+  return (LLM_PROVIDER_KINDS as readonly string[]).includes(value);
+}
+
+/** Everything needed to build a provider client */
+export interface LlmProviderSettings {
+  provider: LlmProviderKind;
+  model: string;
+  apiKey?: string | null;
+  baseUrl?: string | null;
+  /** Azure only */
+  apiVersion?: string | null;
+}
+
+export type LlmContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; mimeType: string; data: string };
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string | LlmContentPart[];
+}
+
+export interface LlmChatRequest {
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask for a single JSON object as the reply */
+  json?: boolean;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** True when the provider reported no usage and tokens were estimated */
+  estimated: boolean;
+}
+
+export interface LlmChatResponse {
+  content: string;
+  model: string;
+  usage: LlmUsage;
+}
+
+export interface LlmEmbeddingResponse {
+  embeddings: number[][];
+  model: string;
+  usage: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly kind: LlmProviderKind;
+  readonly model: string;
+  chat(request: LlmChatRequest): Promise<LlmChatResponse>;
+  /** @throws LlmProviderError when the provider has no embeddings endpoint */
+  embed(input: string[]): Promise<LlmEmbeddingResponse>;
+}
+
+/** Who a call is made for; metered and checked against the tenant's quota */
+export interface LlmCaller {
+  tenant?: string;
+  project?: string;
+  userId?: string;
+}
+
+export interface LlmCallContext extends LlmCaller {
+  feature: string;
+}
+
+export class LlmNotConfiguredError extends Error {
+  readonly statusCode = 503;
+
+  constructor(message = "LLM provider is not configured") {
+    super(message);
+    this.name = "LlmNotConfiguredError";
+  }
+}
+
+/** The provider rejected the request or could not be reached */
+export class LlmProviderError extends Error {
+  readonly statusCode = 502;
+
+  constructor(message: string, readonly providerStatus?: number) {
+    super(message);
+    this.name = "LlmProviderError";
+  }
+}
+
+/** The tenant has reached a hard monthly LLM quota */
+export class LlmQuotaExceededError extends Error {
+  readonly statusCode = 429;
+
+  constructor(readonly tenant: string, readonly limit: "tokens" | "cost") {
+    super(`Monthly LLM ${limit === "tokens" ? "token" : "cost"} quota reached for tenant '${tenant}'`);
+    this.name = "LlmQuotaExceededError";
+  }
+}
@@ -1,7 +1,7 @@
-import OpenAI from "openai";
 import { analyzeRequirement } from "@airgen/req-qa";
 import { config } from "../config.js";
 import type { DraftRequest, Draft } from "./drafts.js";
+import { llmChat, __resetLlmProvidersForTests, type LlmCaller } from "./llm-providers/index.js";
 import {
   sanitizePromptInput,
   INPUT_LIMITS,
@@ -9,39 +9,13 @@ import {
   buildSecureSystemPrompt
 } from "../lib/prompt-security.js";
 
-let openAiClient: OpenAI | null = null;
-
-export function isLlmConfigured(): boolean {
-  return Boolean(config.llm.provider && config.llm.apiKey);
-}
-
-export function getOpenAiClient(): OpenAI {
-  if (!config.llm.apiKey) {
-    throw new Error("OpenAI API key missing (set LLM_API_KEY or OPENAI_API_KEY)");
-  }
-  if (!openAiClient) {
-    openAiClient = new OpenAI({
-      apiKey: config.llm.apiKey,
-      baseURL: config.llm.baseUrl || undefined
-    });
-  }
-  return openAiClient;
-}
+export { isLlmConfigured } from "./llm-providers/index.js";
 
 function clampCount(count: number | undefined): number {
   return Math.min(Math.max(count ?? 3, 1), config.draftsPerRequestLimit);
 }
 
-export async function generateLlmDrafts(request: DraftRequest): Promise<Draft[]> {
-  if (!isLlmConfigured()) {
-    throw new Error("LLM provider is not configured");
-  }
-
-  if (config.llm.provider !== "openai") {
-    throw new Error(`Unsupported LLM provider '${config.llm.provider}'`);
-  }
-
-  const client = getOpenAiClient();
+export async function generateLlmDrafts(request: DraftRequest, caller: LlmCaller = {}): Promise<Draft[]> {
   const count = clampCount(request.count);
 
   // Sanitize and validate all text inputs
@@ -75,10 +49,9 @@ export async function generateLlmDrafts(request: DraftRequest): Promise<Draft[]>
     count
   };
 
-  const completion = await client.chat.completions.create({
-    model: config.llm.model,
+  const completion = await llmChat({
     temperature: config.llm.temperature,
-    response_format: { type: "json_object" },
+    json: true,
     messages: [
       { role: "system", content: prompt },
       {
@@ -86,9 +59,9 @@ export async function generateLlmDrafts(request: DraftRequest): Promise<Draft[]>
         content: `<USER_CONTEXT>${JSON.stringify(userContext, null, 2)}</USER_CONTEXT>\n\nRespond with valid JSON.`
       }
     ]
-  });
+  }, { ...caller, feature: "requirement-drafts" });
 
-  const content = completion.choices[0]?.message?.content ?? "";
+  const content = completion.content;
 
   // Detect suspicious output that may indicate successful prompt injection
   if (detectSuspiciousOutput(content)) {
@@ -139,5 +112,5 @@ export async function generateLlmDrafts(request: DraftRequest): Promise<Draft[]>
 }
 
 export function __resetOpenAiClientForTests(): void {
-  openAiClient = null;
+  __resetLlmProvidersForTests();
 }
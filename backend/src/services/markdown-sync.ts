@@ -4,6 +4,8 @@ import { toNumber } from "../lib/neo4j-utils.js";
 import { computeRequirementHash } from "../lib/requirement-hash.js";
 import type { ParsedDocument } from "./markdown-parser.js";
 import { slugify } from "./workspace.js";
+import { flagSuspectLinks } from "./graph/trace-suspect.js";
+import { assertDocumentUnlocked, assertRequirementsUnlocked } from "./graph/documents/documents-lock.js";
 import type { DocumentRecord } from "./graph/documents/index.js";
 
 const REQUIREMENT_PATH = (tenant: string, project: string, ref: string) =>
@@ -112,6 +114,12 @@ function normalizeMetadata(metadata?: Record<string, unknown> | null): Record<st
   return normalized;
 }
 
+/**
+ * Write a parsed Markdown document back to the graph: sections,
+ * requirements, info notes, surrogates and content blocks.
+ *
+ * @throws DocumentLockedError if the document, or a requirement in it, is approved
+ */
 export async function syncParsedDocument(
   tx: ManagedTransaction,
   params: {
@@ -177,6 +185,9 @@ export async function syncParsedDocument(
     existingRequirementsByRef.set(requirement.ref, requirementWithSection);
   }
 
+  await assertDocumentUnlocked(tx, { tenantSlug, projectSlug, documentSlug });
+  await assertRequirementsUnlocked(tx, [...existingRequirementsByRef.values()].map(requirement => requirement.id));
+
   const existingInfosResult = await tx.run(
     `
       MATCH (doc:Document {slug: $documentSlug, tenant: $tenantSlug, projectKey: $projectSlug})
@@ -346,6 +357,15 @@ export async function syncParsedDocument(
         }
       );
 
+      const previousHash = computeRequirementHash({
+        text: existing.text,
+        pattern: existing.pattern ?? null,
+        verification: existing.verification ?? null
+      });
+      if (previousHash !== contentHash) {
+        await flagSuspectLinks(tx, existing.id, timestamp);
+      }
+
       await tx.run(
         `
           MATCH (req:Requirement {id: $requirementId})
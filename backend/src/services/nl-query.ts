@@ -1,6 +1,5 @@
-import OpenAI from "openai";
 import { getSession } from "./graph/driver.js";
-import { config } from "../config.js";
+import { llmChat, LlmQuotaExceededError, type LlmCaller } from "./llm-providers/index.js";
 import {
   sanitizePromptInput,
   INPUT_LIMITS,
@@ -14,6 +13,8 @@ export interface NLQueryRequest {
   projectKey: string;
   query: string;
   includeExplanation?: boolean;
+  /** User the LLM calls are metered to */
+  userId?: string;
 }
 
 export interface NLQueryResult {
@@ -172,7 +173,7 @@ async function generateExplanation(
   naturalQuery: string,
   cypherQuery: string,
   resultCount: number,
-  client: OpenAI
+  caller: LlmCaller
 ): Promise<string> {
   try {
     const prompt = buildSecureSystemPrompt("data analyst", [
@@ -181,8 +182,7 @@ async function generateExplanation(
       "Keep explanations concise (1-2 sentences)."
     ]);
 
-    const completion = await client.chat.completions.create({
-      model: config.llm.model,
+    const completion = await llmChat({
       temperature: 0.3,
       messages: [
         {
@@ -194,10 +194,10 @@ async function generateExplanation(
           content: `User asked: "${naturalQuery}"\n\nGenerated query:\n${cypherQuery}\n\nThis query returned ${resultCount} results. Explain what this query does.`
         }
       ],
-      max_tokens: 150
-    });
+      maxTokens: 150
+    }, { ...caller, feature: "nl-query" });
 
-    return completion.choices[0]?.message?.content || "Query explanation unavailable";
+    return completion.content || "Query explanation unavailable";
   } catch (error) {
     return "Query explanation unavailable";
   }
@@ -209,7 +209,7 @@ async function generateExplanation(
 async function translateToCypher(
   naturalQuery: string,
   schemaInfo: string,
-  client: OpenAI
+  caller: LlmCaller
 ): Promise<string> {
   const sanitizedQuery = sanitizePromptInput(naturalQuery, "query", INPUT_LIMITS.USER_INPUT);
 
@@ -242,18 +242,16 @@ Remember:
 - Include LIMIT in the query
 - Return only raw Cypher, no explanation`;
 
-  const completion = await client.chat.completions.create({
-    model: config.llm.model,
+  const completion = await llmChat({
     temperature: 0.2,
-    response_format: undefined, // Don't use JSON format for this
     messages: [
       { role: "system", content: systemPrompt },
       { role: "user", content: userPrompt }
     ],
-    max_tokens: 500
-  });
+    maxTokens: 500
+  }, { ...caller, feature: "nl-query" });
 
-  const rawQuery = completion.choices[0]?.message?.content?.trim() || "";
+  const rawQuery = completion.content.trim();
 
   // Detect suspicious output
   if (detectSuspiciousOutput(rawQuery)) {
@@ -305,21 +303,13 @@ async function executeCypherQuery(
 export async function processNaturalLanguageQuery(
   request: NLQueryRequest
 ): Promise<NLQueryResult> {
-  if (!config.llm.provider || !config.llm.apiKey) {
-    throw new Error("LLM not configured. Set LLM_API_KEY and LLM_PROVIDER environment variables.");
-  }
-
-  const client = new OpenAI({
-    apiKey: config.llm.apiKey,
-    baseURL: config.llm.baseUrl || undefined
-  });
-
+  const caller: LlmCaller = { tenant: request.tenant, project: request.projectKey, userId: request.userId };
   try {
     // Step 1: Get schema information
     const schemaInfo = await getSchemaInfo();
 
     // Step 2: Translate natural language to Cypher
-    const cypherQuery = await translateToCypher(request.query, schemaInfo, client);
+    const cypherQuery = await translateToCypher(request.query, schemaInfo, caller);
 
     // Step 3: Validate the query
     const validation = validateCypherQuery(cypherQuery);
@@ -340,7 +330,7 @@ export async function processNaturalLanguageQuery(
         request.query,
         cypherQuery,
         results.length,
-        client
+        caller
       );
     }
 
@@ -352,6 +342,9 @@ export async function processNaturalLanguageQuery(
       explanation
     };
   } catch (error) {
+    if (error instanceof LlmQuotaExceededError) {
+      throw error;
+    }
     throw new Error(
       `Natural language query processing failed: ${error instanceof Error ? error.message : String(error)}`
     );
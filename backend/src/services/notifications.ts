@@ -0,0 +1,40 @@
+import {
+  NotificationRepository,
+  type CreateNotificationInput,
+  type Notification
+} from "../repositories/NotificationRepository.js";
+
+/**
+ * Per-user in-app notifications (currently @mentions in comments).
+ */
+
+let repository: NotificationRepository | null = null;
+
+function getRepository(): NotificationRepository {
+  if (!repository) {
+    repository = new NotificationRepository();
+  }
+  return repository;
+}
+
+export async function createNotifications(inputs: CreateNotificationInput[]): Promise<Notification[]> {
+  return getRepository().createNotifications(inputs);
+}
+
+export async function listNotifications(
+  userId: string,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<Notification[]> {
+  return getRepository().listForUser(userId, options);
+}
+
+export async function countUnreadNotifications(userId: string): Promise<number> {
+  return getRepository().countUnread(userId);
+}
+
+/**
+ * Mark the given notifications (or all unread ones) read.
+ */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+  return getRepository().markRead(userId, ids);
+}
@@ -0,0 +1,515 @@
+/**
+ * ReqIF 1.2 document model, serializer and parser.
+ *
+ * This module is pure: it converts between ReqIF XML and a plain object model
+ * without touching the graph. Mapping the model to AIRGen documents, sections,
+ * requirements and trace links lives in reqif-service.ts.
+ */
+
+import {
+  childElements,
+  escapeXml,
+  firstChild,
+  isElement,
+  localName,
+  parseXml,
+  path,
+  textContent,
+  type XmlElement,
+  type XmlNode
+} from "./reqif-xml.js";
+
+export const REQIF_NAMESPACE = "http://www.omg.org/spec/ReqIF/20110401/reqif.xsd";
+export const XHTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+
+// ============================================================================
+// Model
+// ============================================================================
+
+export type ReqIFDataType = "STRING" | "INTEGER" | "REAL" | "BOOLEAN" | "DATE" | "XHTML" | "ENUMERATION";
+
+export type ReqIFValue = string | number | boolean;
+
+export interface ReqIFHeader {
+  identifier: string;
+  title: string;
+  creationTime: string;
+  sourceToolId: string;
+  comment?: string;
+}
+
+export interface ReqIFAttributeDefinition {
+  identifier: string;
+  longName: string;
+  dataType: ReqIFDataType;
+}
+
+export interface ReqIFSpecObjectType {
+  identifier: string;
+  longName: string;
+  attributes: ReqIFAttributeDefinition[];
+}
+
+export interface ReqIFSpecRelationType {
+  identifier: string;
+  longName: string;
+}
+
+export interface ReqIFSpecObject {
+  identifier: string;
+  typeRef: string;
+  lastChange?: string;
+  /** Attribute values keyed by attribute definition identifier */
+  values: Record<string, ReqIFValue>;
+}
+
+export interface ReqIFSpecRelation {
+  identifier: string;
+  typeRef: string;
+  sourceRef: string;
+  targetRef: string;
+  lastChange?: string;
+}
+
+export interface ReqIFSpecHierarchy {
+  identifier: string;
+  objectRef: string;
+  children: ReqIFSpecHierarchy[];
+}
+
+export interface ReqIFSpecification {
+  identifier: string;
+  longName: string;
+  children: ReqIFSpecHierarchy[];
+}
+
+export interface ReqIFDocument {
+  header: ReqIFHeader;
+  specObjectTypes: ReqIFSpecObjectType[];
+  specRelationTypes: ReqIFSpecRelationType[];
+  specObjects: ReqIFSpecObject[];
+  specRelations: ReqIFSpecRelation[];
+  specifications: ReqIFSpecification[];
+}
+
+/**
+ * Convert an arbitrary string into a valid ReqIF identifier (xsd:ID / NCName).
+ */
+export function toReqIFIdentifier(prefix: string, value: string): string {
+  return `${prefix}${value.replace(/[^A-Za-z0-9._-]/g, "_")}`;
+}
+
+// ============================================================================
+// Serializer
+// ============================================================================
+
+type Tag = {
+  name: string;
+  attrs?: Record<string, string | undefined>;
+  children?: Tag[];
+  text?: string;
+  /** Pre-escaped XML content (used for XHTML values) */
+  raw?: string;
+};
+
+const DATATYPE_IDENTIFIERS: Record<Exclude<ReqIFDataType, "ENUMERATION">, string> = {
+  STRING: "AIRGEN-DT-STRING",
+  INTEGER: "AIRGEN-DT-INTEGER",
+  REAL: "AIRGEN-DT-REAL",
+  BOOLEAN: "AIRGEN-DT-BOOLEAN",
+  DATE: "AIRGEN-DT-DATE",
+  XHTML: "AIRGEN-DT-XHTML"
+};
+
+const SPECIFICATION_TYPE_IDENTIFIER = "AIRGEN-SPECIFICATION-TYPE";
+
+/**
+ * Serialize a ReqIF model to XML.
+ *
+ * Enumeration-typed attributes are written as strings since AIRGen has no
+ * enumeration datatype of its own.
+ */
+export function serializeReqIF(doc: ReqIFDocument): string {
+  const lastChange = doc.header.creationTime;
+  const usedTypes = new Set<Exclude<ReqIFDataType, "ENUMERATION">>();
+  const definitions = new Map<string, ReqIFAttributeDefinition>();
+
+  for (const type of doc.specObjectTypes) {
+    for (const attribute of type.attributes) {
+      usedTypes.add(writableType(attribute.dataType));
+      definitions.set(attribute.identifier, attribute);
+    }
+  }
+
+  const datatypes: Tag[] = [...usedTypes].map(type => ({
+    name: `DATATYPE-DEFINITION-${type}`,
+    attrs: {
+      IDENTIFIER: DATATYPE_IDENTIFIERS[type],
+      "LONG-NAME": type,
+      "LAST-CHANGE": lastChange,
+      ...datatypeFacets(type)
+    }
+  }));
+
+  const specTypes: Tag[] = [
+    ...doc.specObjectTypes.map(type => ({
+      name: "SPEC-OBJECT-TYPE",
+      attrs: { IDENTIFIER: type.identifier, "LONG-NAME": type.longName, "LAST-CHANGE": lastChange },
+      children: [{
+        name: "SPEC-ATTRIBUTES",
+        children: type.attributes.map(attribute => {
+          const dataType = writableType(attribute.dataType);
+          return {
+            name: `ATTRIBUTE-DEFINITION-${dataType}`,
+            attrs: { IDENTIFIER: attribute.identifier, "LONG-NAME": attribute.longName, "LAST-CHANGE": lastChange },
+            children: [{
+              name: "TYPE",
+              children: [{ name: `DATATYPE-DEFINITION-${dataType}-REF`, text: DATATYPE_IDENTIFIERS[dataType] }]
+            }]
+          };
+        })
+      }]
+    })),
+    ...doc.specRelationTypes.map(type => ({
+      name: "SPEC-RELATION-TYPE",
+      attrs: { IDENTIFIER: type.identifier, "LONG-NAME": type.longName, "LAST-CHANGE": lastChange }
+    })),
+    {
+      name: "SPECIFICATION-TYPE",
+      attrs: { IDENTIFIER: SPECIFICATION_TYPE_IDENTIFIER, "LONG-NAME": "Specification", "LAST-CHANGE": lastChange }
+    }
+  ];
+
+  const specObjects: Tag[] = doc.specObjects.map(object => ({
+    name: "SPEC-OBJECT",
+    attrs: { IDENTIFIER: object.identifier, "LAST-CHANGE": object.lastChange ?? lastChange },
+    children: [
+      {
+        name: "VALUES",
+        children: Object.entries(object.values).flatMap(([definitionRef, value]) => {
+          const definition = definitions.get(definitionRef);
+          return definition ? [serializeValue(definition, value)] : [];
+        })
+      },
+      { name: "TYPE", children: [{ name: "SPEC-OBJECT-TYPE-REF", text: object.typeRef }] }
+    ]
+  }));
+
+  const specRelations: Tag[] = doc.specRelations.map(relation => ({
+    name: "SPEC-RELATION",
+    attrs: { IDENTIFIER: relation.identifier, "LAST-CHANGE": relation.lastChange ?? lastChange },
+    children: [
+      { name: "SOURCE", children: [{ name: "SPEC-OBJECT-REF", text: relation.sourceRef }] },
+      { name: "TARGET", children: [{ name: "SPEC-OBJECT-REF", text: relation.targetRef }] },
+      { name: "TYPE", children: [{ name: "SPEC-RELATION-TYPE-REF", text: relation.typeRef }] }
+    ]
+  }));
+
+  const specifications: Tag[] = doc.specifications.map(specification => ({
+    name: "SPECIFICATION",
+    attrs: { IDENTIFIER: specification.identifier, "LONG-NAME": specification.longName, "LAST-CHANGE": lastChange },
+    children: [
+      { name: "TYPE", children: [{ name: "SPECIFICATION-TYPE-REF", text: SPECIFICATION_TYPE_IDENTIFIER }] },
+      { name: "CHILDREN", children: specification.children.map(node => serializeHierarchy(node, lastChange)) }
+    ]
+  }));
+
+  const root: Tag = {
+    name: "REQ-IF",
+    attrs: { xmlns: REQIF_NAMESPACE, "xmlns:xhtml": XHTML_NAMESPACE },
+    children: [
+      {
+        name: "THE-HEADER",
+        children: [{
+          name: "REQ-IF-HEADER",
+          attrs: { IDENTIFIER: doc.header.identifier },
+          children: [
+            ...(doc.header.comment ? [{ name: "COMMENT", text: doc.header.comment }] : []),
+            { name: "CREATION-TIME", text: doc.header.creationTime },
+            { name: "REQ-IF-TOOL-ID", text: "AIRGen" },
+            { name: "REQ-IF-VERSION", text: "1.0" },
+            { name: "SOURCE-TOOL-ID", text: doc.header.sourceToolId },
+            { name: "TITLE", text: doc.header.title }
+          ]
+        }]
+      },
+      {
+        name: "CORE-CONTENT",
+        children: [{
+          name: "REQ-IF-CONTENT",
+          children: [
+            { name: "DATATYPES", children: datatypes },
+            { name: "SPEC-TYPES", children: specTypes },
+            { name: "SPEC-OBJECTS", children: specObjects },
+            { name: "SPEC-RELATIONS", children: specRelations },
+            { name: "SPECIFICATIONS", children: specifications }
+          ]
+        }]
+      }
+    ]
+  };
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${renderTag(root, 0)}\n`;
+}
+
+function writableType(type: ReqIFDataType): Exclude<ReqIFDataType, "ENUMERATION"> {
+  return type === "ENUMERATION" ? "STRING" : type;
+}
+
+function datatypeFacets(type: ReqIFDataType): Record<string, string> {
+  switch (type) {
+    case "STRING":
+      return { "MAX-LENGTH": "65535" };
+    case "INTEGER":
+      return { MIN: "-2147483648", MAX: "2147483647" };
+    case "REAL":
+      return { ACCURACY: "10", MIN: "-1.7976931348623157E308", MAX: "1.7976931348623157E308" };
+    default:
+      return {};
+  }
+}
+
+function serializeValue(definition: ReqIFAttributeDefinition, value: ReqIFValue): Tag {
+  const dataType = writableType(definition.dataType);
+  const definitionTag: Tag = {
+    name: "DEFINITION",
+    children: [{ name: `ATTRIBUTE-DEFINITION-${dataType}-REF`, text: definition.identifier }]
+  };
+
+  if (dataType === "XHTML") {
+    return {
+      name: "ATTRIBUTE-VALUE-XHTML",
+      children: [
+        definitionTag,
+        { name: "THE-VALUE", raw: textToXhtml(String(value)) }
+      ]
+    };
+  }
+
+  return {
+    name: `ATTRIBUTE-VALUE-${dataType}`,
+    attrs: { "THE-VALUE": String(value) },
+    children: [definitionTag]
+  };
+}
+
+function serializeHierarchy(node: ReqIFSpecHierarchy, lastChange: string): Tag {
+  const children: Tag[] = [];
+  if (node.children.length > 0) {
+    children.push({ name: "CHILDREN", children: node.children.map(child => serializeHierarchy(child, lastChange)) });
+  }
+  children.push({ name: "OBJECT", children: [{ name: "SPEC-OBJECT-REF", text: node.objectRef }] });
+
+  return {
+    name: "SPEC-HIERARCHY",
+    attrs: { IDENTIFIER: node.identifier, "LAST-CHANGE": lastChange },
+    children
+  };
+}
+
+function renderTag(tag: Tag, depth: number): string {
+  const indent = "  ".repeat(depth);
+  const attrs = Object.entries(tag.attrs ?? {})
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join("");
+
+  if (tag.raw !== undefined) {
+    return `${indent}<${tag.name}${attrs}>${tag.raw}</${tag.name}>`;
+  }
+  if (tag.text !== undefined) {
+    return `${indent}<${tag.name}${attrs}>${escapeXml(tag.text)}</${tag.name}>`;
+  }
+  if (!tag.children || tag.children.length === 0) {
+    return `${indent}<${tag.name}${attrs}/>`;
+  }
+
+  const inner = tag.children.map(child => renderTag(child, depth + 1)).join("\n");
+  return `${indent}<${tag.name}${attrs}>\n${inner}\n${indent}</${tag.name}>`;
+}
+
+/**
+ * Wrap plain text in an XHTML div, preserving line breaks.
+ */
+export function textToXhtml(text: string): string {
+  const lines = text.split(/\r?\n/).map(line => escapeXml(line));
+  return `<xhtml:div>${lines.join("<xhtml:br/>")}</xhtml:div>`;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+const BLOCK_ELEMENTS = new Set(["p", "div", "li", "tr", "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "table"]);
+
+/**
+ * Parse a ReqIF XML document into the model.
+ *
+ * Attribute values are resolved to plain values: XHTML is flattened to text,
+ * enumerations to their LONG-NAMEs, numbers and booleans to JS primitives.
+ *
+ * @throws Error if the XML is malformed or is not a ReqIF document
+ */
+export function parseReqIF(xml: string): ReqIFDocument {
+  const root = parseXml(xml);
+  if (localName(root.name) !== "REQ-IF") {
+    throw new Error("Invalid ReqIF: root element must be REQ-IF");
+  }
+
+  const headerElement = path(root, "THE-HEADER", "REQ-IF-HEADER");
+  const header: ReqIFHeader = {
+    identifier: headerElement?.attributes.IDENTIFIER ?? "",
+    title: textContent(firstChild(headerElement, "TITLE")).trim(),
+    creationTime: textContent(firstChild(headerElement, "CREATION-TIME")).trim(),
+    sourceToolId: textContent(firstChild(headerElement, "SOURCE-TOOL-ID")).trim(),
+    comment: textContent(firstChild(headerElement, "COMMENT")).trim() || undefined
+  };
+
+  const content = path(root, "CORE-CONTENT", "REQ-IF-CONTENT");
+  if (!content) {
+    throw new Error("Invalid ReqIF: missing CORE-CONTENT/REQ-IF-CONTENT");
+  }
+
+  const enumValueNames = new Map<string, string>();
+  for (const datatype of childElements(firstChild(content, "DATATYPES") ?? emptyElement())) {
+    if (localName(datatype.name) !== "DATATYPE-DEFINITION-ENUMERATION") {continue;}
+    for (const enumValue of childElements(firstChild(datatype, "SPECIFIED-VALUES") ?? emptyElement(), "ENUM-VALUE")) {
+      const identifier = enumValue.attributes.IDENTIFIER;
+      if (identifier) {
+        enumValueNames.set(identifier, enumValue.attributes["LONG-NAME"] ?? identifier);
+      }
+    }
+  }
+
+  const specObjectTypes: ReqIFSpecObjectType[] = [];
+  const specRelationTypes: ReqIFSpecRelationType[] = [];
+  for (const type of childElements(firstChild(content, "SPEC-TYPES") ?? emptyElement())) {
+    const identifier = type.attributes.IDENTIFIER ?? "";
+    const longName = type.attributes["LONG-NAME"] ?? identifier;
+    const kind = localName(type.name);
+
+    if (kind === "SPEC-OBJECT-TYPE") {
+      const attributes = childElements(firstChild(type, "SPEC-ATTRIBUTES") ?? emptyElement())
+        .filter(definition => localName(definition.name).startsWith("ATTRIBUTE-DEFINITION-"))
+        .map(definition => ({
+          identifier: definition.attributes.IDENTIFIER ?? "",
+          longName: definition.attributes["LONG-NAME"] ?? definition.attributes.IDENTIFIER ?? "",
+          dataType: localName(definition.name).slice("ATTRIBUTE-DEFINITION-".length) as ReqIFDataType
+        }));
+      specObjectTypes.push({ identifier, longName, attributes });
+    } else if (kind === "SPEC-RELATION-TYPE") {
+      specRelationTypes.push({ identifier, longName });
+    }
+  }
+
+  const specObjects: ReqIFSpecObject[] = childElements(firstChild(content, "SPEC-OBJECTS") ?? emptyElement(), "SPEC-OBJECT")
+    .map(object => ({
+      identifier: object.attributes.IDENTIFIER ?? "",
+      typeRef: textContent(path(object, "TYPE", "SPEC-OBJECT-TYPE-REF")).trim(),
+      lastChange: object.attributes["LAST-CHANGE"],
+      values: parseValues(object, enumValueNames)
+    }));
+
+  const specRelations: ReqIFSpecRelation[] = childElements(firstChild(content, "SPEC-RELATIONS") ?? emptyElement(), "SPEC-RELATION")
+    .map(relation => ({
+      identifier: relation.attributes.IDENTIFIER ?? "",
+      typeRef: textContent(path(relation, "TYPE", "SPEC-RELATION-TYPE-REF")).trim(),
+      sourceRef: textContent(path(relation, "SOURCE", "SPEC-OBJECT-REF")).trim(),
+      targetRef: textContent(path(relation, "TARGET", "SPEC-OBJECT-REF")).trim(),
+      lastChange: relation.attributes["LAST-CHANGE"]
+    }));
+
+  const specifications: ReqIFSpecification[] = childElements(firstChild(content, "SPECIFICATIONS") ?? emptyElement(), "SPECIFICATION")
+    .map(specification => ({
+      identifier: specification.attributes.IDENTIFIER ?? "",
+      longName: specification.attributes["LONG-NAME"] ?? specification.attributes.IDENTIFIER ?? "",
+      children: parseHierarchyChildren(specification)
+    }));
+
+  return { header, specObjectTypes, specRelationTypes, specObjects, specRelations, specifications };
+}
+
+function emptyElement(): XmlElement {
+  return { name: "", attributes: {}, children: [] };
+}
+
+function parseValues(object: XmlElement, enumValueNames: Map<string, string>): Record<string, ReqIFValue> {
+  const values: Record<string, ReqIFValue> = {};
+
+  for (const valueElement of childElements(firstChild(object, "VALUES") ?? emptyElement())) {
+    const kind = localName(valueElement.name);
+    if (!kind.startsWith("ATTRIBUTE-VALUE-")) {continue;}
+    const dataType = kind.slice("ATTRIBUTE-VALUE-".length) as ReqIFDataType;
+
+    const definition = path(valueElement, "DEFINITION", `ATTRIBUTE-DEFINITION-${dataType}-REF`);
+    const definitionRef = textContent(definition).trim();
+    if (!definitionRef) {continue;}
+
+    switch (dataType) {
+      case "XHTML":
+        values[definitionRef] = xhtmlToText(firstChild(valueElement, "THE-VALUE"));
+        break;
+      case "ENUMERATION": {
+        const refs = childElements(firstChild(valueElement, "VALUES") ?? emptyElement(), "ENUM-VALUE-REF")
+          .map(ref => textContent(ref).trim());
+        values[definitionRef] = refs.map(ref => enumValueNames.get(ref) ?? ref).join(", ");
+        break;
+      }
+      case "INTEGER":
+      case "REAL": {
+        const numeric = Number(valueElement.attributes["THE-VALUE"]);
+        if (!Number.isNaN(numeric)) {
+          values[definitionRef] = numeric;
+        }
+        break;
+      }
+      case "BOOLEAN":
+        values[definitionRef] = valueElement.attributes["THE-VALUE"] === "true";
+        break;
+      default:
+        values[definitionRef] = valueElement.attributes["THE-VALUE"] ?? "";
+    }
+  }
+
+  return values;
+}
+
+function parseHierarchyChildren(parent: XmlElement): ReqIFSpecHierarchy[] {
+  return childElements(firstChild(parent, "CHILDREN") ?? emptyElement(), "SPEC-HIERARCHY")
+    .map(node => ({
+      identifier: node.attributes.IDENTIFIER ?? "",
+      objectRef: textContent(path(node, "OBJECT", "SPEC-OBJECT-REF")).trim(),
+      children: parseHierarchyChildren(node)
+    }));
+}
+
+/**
+ * Flatten an XHTML fragment to plain text. Line breaks and block elements
+ * become newlines; source indentation and wrapped lines collapse to a space.
+ */
+export function xhtmlToText(node: XmlNode | undefined): string {
+  const render = (current: XmlNode): string => {
+    if (typeof current === "string") {
+      return current.replace(/\s*[\t\r\n]\s*/g, " ");
+    }
+    const name = localName(current.name).toLowerCase();
+    if (name === "br") {
+      return "\n";
+    }
+    const inner = current.children.map(render).join("");
+    return BLOCK_ELEMENTS.has(name) ? `\n${inner}\n` : inner;
+  };
+
+  if (!isElement(node)) {
+    return typeof node === "string" ? node.trim() : "";
+  }
+
+  return node.children
+    .map(render)
+    .join("")
+    .split("\n")
+    .map(line => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,904 @@
+/**
+ * ReqIF Service - document-level ReqIF 1.2 exchange
+ *
+ * Maps an AIRGen document onto a ReqIF specification and back:
+ * - sections → heading SPEC-OBJECTs with a SPEC-HIERARCHY per section
+ * - requirements → SPEC-OBJECTs (text, ref, hashId, rationale, pattern,
+ *   verification, tags and custom `attributes`)
+ * - intra-document trace links → SPEC-RELATIONs typed by link type
+ *
+ * Imports are idempotent: a SPEC-OBJECT is matched to an existing requirement
+ * by its `AIRGen.HashId` value or by its ReqIF IDENTIFIER (stored on the
+ * requirement as `reqifIdentifier` the first time a foreign object is
+ * imported), so re-importing a file updates requirements instead of
+ * duplicating them.
+ */
+
+import type { ManagedTransaction, Node as Neo4jNode } from "neo4j-driver";
+import { getSession } from "../graph/driver.js";
+import {
+  createDocumentSection,
+  createRequirement,
+  createTraceLink,
+  getAttributeSchema,
+  getDocument,
+  listDocumentSections,
+  listTraceLinks,
+  mapRequirement,
+  reorderRequirements,
+  resolveVariant,
+  updateRequirement,
+  type AttributeFieldDefinition,
+  type ComplianceStatus,
+  type DocumentSectionRecord,
+  type TraceLinkRecord
+} from "../graph.js";
+import {
+  slugify,
+  type RequirementAttributes,
+  type RequirementPattern,
+  type RequirementRecord,
+  type VerificationMethod
+} from "../workspace.js";
+import {
+  parseReqIF,
+  serializeReqIF,
+  toReqIFIdentifier,
+  type ReqIFAttributeDefinition,
+  type ReqIFDataType,
+  type ReqIFDocument,
+  type ReqIFSpecHierarchy,
+  type ReqIFSpecObject,
+  type ReqIFValue
+} from "./reqif-format.js";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type ReqIFImportAction = "create" | "update" | "unchanged";
+
+export interface ReqIFImportItem {
+  identifier: string;
+  action: ReqIFImportAction;
+  requirementId?: string;
+  ref?: string;
+  section?: string | null;
+  changes?: string[];
+}
+
+export interface ReqIFImportResult {
+  dryRun: boolean;
+  sections: { created: number; matched: number };
+  requirements: { created: number; updated: number; unchanged: number };
+  traceLinks: { created: number; skipped: number };
+  items: ReqIFImportItem[];
+  warnings: string[];
+}
+
+type DocumentRequirement = {
+  requirement: RequirementRecord;
+  sectionId: string | null;
+  sectionOrder: number;
+  reqifIdentifier: string | null;
+};
+
+type ImportedRequirementFields = {
+  text: string;
+  rationale?: string;
+  pattern?: RequirementPattern;
+  verification?: VerificationMethod;
+  complianceStatus?: ComplianceStatus;
+  tags?: string[];
+  attributes: RequirementAttributes;
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const AIRGEN_TOOL_ID = "AIRGen";
+
+const REQUIREMENT_TYPE = "AIRGEN-REQUIREMENT-TYPE";
+const SECTION_TYPE = "AIRGEN-SECTION-TYPE";
+
+const REQUIREMENT_PREFIX = "AIRGEN-REQ-";
+const SECTION_PREFIX = "AIRGEN-SEC-";
+const HIERARCHY_PREFIX = "AIRGEN-H-";
+const LINK_PREFIX = "AIRGEN-LINK-";
+const RELATION_TYPE_PREFIX = "AIRGEN-RT-";
+const CUSTOM_ATTRIBUTE_PREFIX = "AIRGEN-AD-ATTR-";
+
+/** Well-known attribute LONG-NAMEs. ReqIF.* names follow the ReqIF Implementation Guide. */
+const ATTR = {
+  foreignId: "ReqIF.ForeignID",
+  text: "ReqIF.Text",
+  chapterName: "ReqIF.ChapterName",
+  name: "ReqIF.Name",
+  description: "ReqIF.Description",
+  hashId: "AIRGen.HashId",
+  rationale: "AIRGen.Rationale",
+  pattern: "AIRGen.Pattern",
+  verification: "AIRGen.Verification",
+  complianceStatus: "AIRGen.ComplianceStatus",
+  tags: "AIRGen.Tags",
+  shortCode: "AIRGen.ShortCode"
+} as const;
+
+const CORE_ATTRIBUTE_NAMES = new Set<string>(Object.values(ATTR));
+
+/** Fallback LONG-NAMEs used by other tools for the requirement text and heading. */
+const TEXT_FALLBACKS = ["object text", "text", "description"];
+const HEADING_FALLBACKS = ["object heading", "heading"];
+
+const REQUIREMENT_DEFINITIONS: ReqIFAttributeDefinition[] = [
+  { identifier: "AIRGEN-AD-FOREIGN-ID", longName: ATTR.foreignId, dataType: "STRING" },
+  { identifier: "AIRGEN-AD-TEXT", longName: ATTR.text, dataType: "XHTML" },
+  { identifier: "AIRGEN-AD-HASH-ID", longName: ATTR.hashId, dataType: "STRING" },
+  { identifier: "AIRGEN-AD-RATIONALE", longName: ATTR.rationale, dataType: "STRING" },
+  { identifier: "AIRGEN-AD-PATTERN", longName: ATTR.pattern, dataType: "STRING" },
+  { identifier: "AIRGEN-AD-VERIFICATION", longName: ATTR.verification, dataType: "STRING" },
+  { identifier: "AIRGEN-AD-COMPLIANCE-STATUS", longName: ATTR.complianceStatus, dataType: "STRING" },
+  { identifier: "AIRGEN-AD-TAGS", longName: ATTR.tags, dataType: "STRING" }
+];
+
+const SECTION_DEFINITIONS: ReqIFAttributeDefinition[] = [
+  { identifier: "AIRGEN-AD-SECTION-NAME", longName: ATTR.chapterName, dataType: "STRING" },
+  { identifier: "AIRGEN-AD-SECTION-DESCRIPTION", longName: ATTR.description, dataType: "STRING" },
+  { identifier: "AIRGEN-AD-SECTION-SHORT-CODE", longName: ATTR.shortCode, dataType: "STRING" }
+];
+
+const LINK_TYPES: TraceLinkRecord["linkType"][] = ["satisfies", "derives", "verifies", "implements", "refines", "conflicts"];
+const PATTERNS: RequirementPattern[] = ["ubiquitous", "event", "state", "unwanted", "optional"];
+const VERIFICATION_METHODS: VerificationMethod[] = ["Test", "Analysis", "Inspection", "Demonstration"];
+const COMPLIANCE_STATUSES: ComplianceStatus[] = ["N/A", "Compliant", "Compliance Risk", "Non-Compliant"];
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Export a document as a ReqIF 1.2 XML string.
+ *
+ * Only trace links whose source and target both live in the document are
+ * exported, since a SPEC-RELATION must reference SPEC-OBJECTs in the same file.
+ * With a variant, sections and requirements it excludes are left out, along
+ * with the requirements of excluded sections.
+ */
+export async function exportDocumentToReqIF(
+  tenant: string,
+  projectKey: string,
+  documentSlug: string,
+  variant?: { configuration?: string; features?: string[] }
+): Promise<string> {
+  const document = await getDocument(tenant, projectKey, documentSlug);
+  if (!document) {
+    throw new Error(`Document not found: ${documentSlug}`);
+  }
+
+  const [allSections, allRequirements, traceLinks, attributeSchema, resolution] = await Promise.all([
+    listDocumentSections(tenant, projectKey, documentSlug),
+    loadDocumentRequirements(tenant, projectKey, documentSlug),
+    listTraceLinks({ tenant, projectKey }),
+    getAttributeSchema(tenant, projectKey),
+    variant ? resolveVariant({ tenant, projectKey, ...variant }) : null
+  ]);
+
+  const excludedSections = new Set(resolution?.excluded.sections ?? []);
+  const excludedRequirements = new Set(resolution?.excluded.requirements ?? []);
+  const sections = allSections.filter(section => !excludedSections.has(section.id));
+  const requirements = allRequirements.filter(entry =>
+    !excludedRequirements.has(entry.requirement.id) && !(entry.sectionId && excludedSections.has(entry.sectionId))
+  );
+
+  const now = new Date().toISOString();
+  const customDefinitions = customAttributeDefinitions(
+    attributeSchema?.fields ?? [],
+    requirements.map(entry => entry.requirement.attributes ?? {})
+  );
+  const requirementDefinitions = [...REQUIREMENT_DEFINITIONS, ...customDefinitions];
+  const definitionId = (longName: string) =>
+    requirementDefinitions.find(definition => definition.longName === longName)!.identifier;
+
+  const requirementIdentifiers = new Map<string, string>();
+  const specObjects: ReqIFSpecObject[] = [];
+
+  for (const section of sections) {
+    specObjects.push({
+      identifier: sectionIdentifier(section),
+      typeRef: SECTION_TYPE,
+      lastChange: section.updatedAt,
+      values: compactValues({
+        "AIRGEN-AD-SECTION-NAME": section.name,
+        "AIRGEN-AD-SECTION-DESCRIPTION": section.description ?? undefined,
+        "AIRGEN-AD-SECTION-SHORT-CODE": section.shortCode ?? undefined
+      })
+    });
+  }
+
+  for (const entry of requirements) {
+    const { requirement } = entry;
+    const identifier = requirementIdentifier(entry);
+    requirementIdentifiers.set(requirement.id, identifier);
+
+    const values: Record<string, ReqIFValue | undefined> = {
+      [definitionId(ATTR.foreignId)]: requirement.ref,
+      [definitionId(ATTR.text)]: requirement.text,
+      [definitionId(ATTR.hashId)]: requirement.hashId || undefined,
+      [definitionId(ATTR.rationale)]: requirement.rationale,
+      [definitionId(ATTR.pattern)]: requirement.pattern,
+      [definitionId(ATTR.verification)]: requirement.verification,
+      [definitionId(ATTR.complianceStatus)]: requirement.complianceStatus,
+      [definitionId(ATTR.tags)]: requirement.tags && requirement.tags.length > 0 ? requirement.tags.join(", ") : undefined
+    };
+    for (const definition of customDefinitions) {
+      const value = requirement.attributes?.[definition.longName];
+      if (value !== null && value !== undefined) {
+        values[definition.identifier] = toReqIFValue(definition.dataType, value);
+      }
+    }
+
+    specObjects.push({
+      identifier,
+      typeRef: REQUIREMENT_TYPE,
+      lastChange: requirement.updatedAt,
+      values: compactValues(values)
+    });
+  }
+
+  const hierarchyFor = (entries: DocumentRequirement[]): ReqIFSpecHierarchy[] =>
+    entries.map(entry => {
+      const objectRef = requirementIdentifiers.get(entry.requirement.id)!;
+      return { identifier: `${HIERARCHY_PREFIX}${objectRef}`, objectRef, children: [] };
+    });
+
+  const hierarchy: ReqIFSpecHierarchy[] = sections.map(section => {
+    const objectRef = sectionIdentifier(section);
+    return {
+      identifier: `${HIERARCHY_PREFIX}${objectRef}`,
+      objectRef,
+      children: hierarchyFor(
+        requirements
+          .filter(entry => entry.sectionId === section.id)
+          .sort((a, b) => a.sectionOrder - b.sectionOrder)
+      )
+    };
+  });
+  hierarchy.push(...hierarchyFor(requirements.filter(entry => entry.sectionId === null)));
+
+  const documentLinks = traceLinks.filter(
+    link => requirementIdentifiers.has(link.sourceRequirementId) && requirementIdentifiers.has(link.targetRequirementId)
+  );
+  const usedLinkTypes = [...new Set(documentLinks.map(link => link.linkType))];
+
+  const reqif: ReqIFDocument = {
+    header: {
+      identifier: toReqIFIdentifier("AIRGEN-HEADER-", `${slugify(projectKey)}-${documentSlug}`),
+      title: document.name,
+      creationTime: now,
+      sourceToolId: AIRGEN_TOOL_ID,
+      comment: `Exported from ${slugify(tenant)}/${slugify(projectKey)}/${documentSlug}`
+    },
+    specObjectTypes: [
+      { identifier: SECTION_TYPE, longName: "Heading", attributes: SECTION_DEFINITIONS },
+      { identifier: REQUIREMENT_TYPE, longName: "Requirement", attributes: requirementDefinitions }
+    ],
+    specRelationTypes: usedLinkTypes.map(linkType => ({
+      identifier: relationTypeIdentifier(linkType),
+      longName: linkType
+    })),
+    specObjects,
+    specRelations: documentLinks.map(link => ({
+      identifier: toReqIFIdentifier(LINK_PREFIX, link.id),
+      typeRef: relationTypeIdentifier(link.linkType),
+      sourceRef: requirementIdentifiers.get(link.sourceRequirementId)!,
+      targetRef: requirementIdentifiers.get(link.targetRequirementId)!,
+      lastChange: link.updatedAt
+    })),
+    specifications: [{
+      identifier: toReqIFIdentifier("AIRGEN-DOC-", documentSlug),
+      longName: document.name,
+      children: hierarchy
+    }]
+  };
+
+  return serializeReqIF(reqif);
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Import a ReqIF file into an existing document.
+ *
+ * Headings become sections (matched by exported identifier, then by name),
+ * requirement objects are created or updated in place, and SPEC-RELATIONs
+ * between imported requirements become trace links. With `dryRun` the plan
+ * is computed and returned without writing anything.
+ *
+ * @throws Error if the document does not exist or the file is not valid ReqIF
+ */
+export async function importReqIFIntoDocument(params: {
+  tenant: string;
+  projectKey: string;
+  documentSlug: string;
+  content: string;
+  dryRun?: boolean;
+  userId: string;
+}): Promise<ReqIFImportResult> {
+  const { tenant, projectKey, documentSlug, userId } = params;
+  const dryRun = params.dryRun ?? false;
+
+  const reqif = parseReqIF(params.content);
+
+  const document = await getDocument(tenant, projectKey, documentSlug);
+  if (!document) {
+    throw new Error(`Document not found: ${documentSlug}`);
+  }
+
+  const [existingSections, existingRequirements, existingLinks] = await Promise.all([
+    listDocumentSections(tenant, projectKey, documentSlug),
+    loadDocumentRequirements(tenant, projectKey, documentSlug),
+    listTraceLinks({ tenant, projectKey })
+  ]);
+
+  const result: ReqIFImportResult = {
+    dryRun,
+    sections: { created: 0, matched: 0 },
+    requirements: { created: 0, updated: 0, unchanged: 0 },
+    traceLinks: { created: 0, skipped: 0 },
+    items: [],
+    warnings: []
+  };
+
+  const definitions = new Map<string, ReqIFAttributeDefinition>();
+  for (const type of reqif.specObjectTypes) {
+    for (const definition of type.attributes) {
+      definitions.set(definition.identifier, definition);
+    }
+  }
+  const objects = new Map(reqif.specObjects.map(object => [object.identifier, object]));
+  const fromAirgen = reqif.header.sourceToolId === AIRGEN_TOOL_ID;
+
+  // ── Walk the hierarchy into sections and requirements ──
+
+  type PlannedSection = {
+    identifier: string;
+    name: string;
+    description?: string;
+    shortCode?: string;
+    existing: DocumentSectionRecord | null;
+    id: string | null;
+  };
+  type PlannedRequirement = {
+    identifier: string;
+    section: PlannedSection | null;
+    fields: ImportedRequirementFields;
+    hashId?: string;
+    existing: DocumentRequirement | null;
+    requirementId: string | null;
+  };
+
+  const plannedSections: PlannedSection[] = [];
+  const plannedRequirements: PlannedRequirement[] = [];
+  const seenObjects = new Set<string>();
+  const claimedSections = new Set<string>();
+  const claimedRequirements = new Set<string>();
+
+  const matchSection = (identifier: string, name: string): DocumentSectionRecord | null => {
+    const byIdentifier = existingSections.find(
+      section => !claimedSections.has(section.id) && sectionIdentifier(section) === identifier
+    );
+    const byName = existingSections.find(
+      section => !claimedSections.has(section.id) && section.name.trim().toLowerCase() === name.trim().toLowerCase()
+    );
+    const match = byIdentifier ?? byName ?? null;
+    if (match) {claimedSections.add(match.id);}
+    return match;
+  };
+
+  const matchRequirement = (identifier: string, hashId: string | undefined): DocumentRequirement | null => {
+    const available = existingRequirements.filter(entry => !claimedRequirements.has(entry.requirement.id));
+    const match =
+      (hashId ? available.find(entry => entry.requirement.hashId === hashId) : undefined) ??
+      available.find(entry => requirementIdentifier(entry) === identifier) ??
+      null;
+    if (match) {claimedRequirements.add(match.requirement.id);}
+    return match;
+  };
+
+  const visit = (nodes: ReqIFSpecHierarchy[], section: PlannedSection | null) => {
+    for (const node of nodes) {
+      const object = objects.get(node.objectRef);
+      if (!object) {
+        result.warnings.push(`Hierarchy node ${node.identifier} references unknown object ${node.objectRef}`);
+        continue;
+      }
+      if (seenObjects.has(object.identifier)) {
+        visit(node.children, section);
+        continue;
+      }
+      seenObjects.add(object.identifier);
+
+      const values = valuesByLongName(object, definitions);
+      const heading = object.typeRef === SECTION_TYPE ? values[ATTR.chapterName] : headingOf(values);
+      const text = object.typeRef === SECTION_TYPE ? undefined : textOf(values, object, definitions);
+
+      if (heading !== undefined && !text) {
+        const name = String(heading).trim() || object.identifier;
+        const planned: PlannedSection = {
+          identifier: object.identifier,
+          name,
+          description: optionalString(values[ATTR.description]),
+          shortCode: optionalString(values[ATTR.shortCode]),
+          existing: matchSection(object.identifier, name),
+          id: null
+        };
+        planned.id = planned.existing?.id ?? null;
+        plannedSections.push(planned);
+        visit(node.children, planned);
+        continue;
+      }
+
+      if (!text) {
+        result.warnings.push(`Skipped object ${object.identifier}: no requirement text found`);
+        visit(node.children, section);
+        continue;
+      }
+
+      const hashId = optionalString(values[ATTR.hashId]);
+      const existing = matchRequirement(object.identifier, hashId);
+      plannedRequirements.push({
+        identifier: object.identifier,
+        section,
+        fields: toRequirementFields(text, values, fromAirgen, result.warnings, object.identifier),
+        hashId,
+        existing,
+        requirementId: existing?.requirement.id ?? null
+      });
+      visit(node.children, section);
+    }
+  };
+
+  for (const specification of reqif.specifications) {
+    visit(specification.children, null);
+  }
+
+  // ── Sections ──
+
+  let nextSectionOrder = existingSections.reduce((max, section) => Math.max(max, section.order + 1), 0);
+  for (const planned of plannedSections) {
+    if (planned.existing) {
+      result.sections.matched++;
+      continue;
+    }
+    result.sections.created++;
+    if (!dryRun) {
+      const created = await createDocumentSection({
+        tenant,
+        projectKey,
+        documentSlug,
+        name: planned.name,
+        description: planned.description,
+        shortCode: planned.shortCode,
+        order: nextSectionOrder++,
+        userId
+      });
+      planned.id = created.id;
+    }
+  }
+
+  // ── Requirements ──
+
+  for (const planned of plannedRequirements) {
+    const targetSectionId = planned.section?.id ?? null;
+    const sectionName = planned.section?.name ?? null;
+
+    if (!planned.existing) {
+      result.requirements.created++;
+      const item: ReqIFImportItem = { identifier: planned.identifier, action: "create", section: sectionName };
+      if (!dryRun) {
+        const created = await createRequirement({
+          tenant,
+          projectKey,
+          documentSlug,
+          sectionId: targetSectionId ?? undefined,
+          text: planned.fields.text,
+          rationale: planned.fields.rationale,
+          pattern: planned.fields.pattern,
+          verification: planned.fields.verification,
+          complianceStatus: planned.fields.complianceStatus,
+          tags: planned.fields.tags,
+          attributes: Object.keys(planned.fields.attributes).length > 0 ? planned.fields.attributes : undefined,
+          userId
+        });
+        await setRequirementReqIFIdentifier(tenant, projectKey, created.id, planned.identifier);
+        planned.requirementId = created.id;
+        item.requirementId = created.id;
+        item.ref = created.ref;
+      }
+      result.items.push(item);
+      continue;
+    }
+
+    const current = planned.existing.requirement;
+    const changes = diffRequirement(current, planned.existing.sectionId, planned.fields, targetSectionId, planned.section !== null);
+    const item: ReqIFImportItem = {
+      identifier: planned.identifier,
+      action: changes.length > 0 ? "update" : "unchanged",
+      requirementId: current.id,
+      ref: current.ref,
+      section: sectionName
+    };
+
+    if (changes.length === 0) {
+      result.requirements.unchanged++;
+    } else {
+      result.requirements.updated++;
+      item.changes = changes;
+      if (!dryRun) {
+        await updateRequirement(tenant, projectKey, current.id, {
+          ...(changes.includes("text") ? { text: planned.fields.text } : {}),
+          ...(changes.includes("rationale") ? { rationale: planned.fields.rationale ?? "" } : {}),
+          ...(changes.includes("pattern") ? { pattern: planned.fields.pattern } : {}),
+          ...(changes.includes("verification") ? { verification: planned.fields.verification } : {}),
+          ...(changes.includes("complianceStatus") ? { complianceStatus: planned.fields.complianceStatus } : {}),
+          ...(changes.includes("tags") ? { tags: planned.fields.tags ?? [] } : {}),
+          ...(changes.includes("attributes") ? { attributes: planned.fields.attributes } : {}),
+          ...(changes.includes("section") ? { sectionId: targetSectionId } : {}),
+          userId
+        });
+      }
+    }
+
+    if (!dryRun && planned.existing.reqifIdentifier !== planned.identifier) {
+      await setRequirementReqIFIdentifier(tenant, projectKey, current.id, planned.identifier);
+    }
+    result.items.push(item);
+  }
+
+  if (!dryRun) {
+    for (const section of plannedSections) {
+      if (!section.id) {continue;}
+      const ordered = plannedRequirements
+        .filter(planned => planned.section === section && planned.requirementId)
+        .map(planned => planned.requirementId!);
+      if (ordered.length > 0) {
+        await reorderRequirements(section.id, ordered);
+      }
+    }
+  }
+
+  // ── Trace links ──
+
+  const relationTypes = new Map(reqif.specRelationTypes.map(type => [type.identifier, type.longName]));
+  const byIdentifier = new Map(plannedRequirements.map(planned => [planned.identifier, planned]));
+  // Planned requirements have no id yet on a dry run, so key them by ReqIF identifier
+  const linkKey = (source: PlannedRequirement, target: PlannedRequirement, linkType: string) =>
+    `${source.requirementId ?? source.identifier}|${target.requirementId ?? target.identifier}|${linkType}`;
+  const linked = new Set(existingLinks.map(link => `${link.sourceRequirementId}|${link.targetRequirementId}|${link.linkType}`));
+
+  for (const relation of reqif.specRelations) {
+    const source = byIdentifier.get(relation.sourceRef);
+    const target = byIdentifier.get(relation.targetRef);
+    if (!source || !target) {
+      result.traceLinks.skipped++;
+      result.warnings.push(`Skipped relation ${relation.identifier}: source or target is not an imported requirement`);
+      continue;
+    }
+
+    const linkType = toLinkType(relationTypes.get(relation.typeRef));
+    const key = linkKey(source, target, linkType);
+    if (linked.has(key)) {
+      result.traceLinks.skipped++;
+      continue;
+    }
+
+    if (dryRun) {
+      linked.add(key);
+      result.traceLinks.created++;
+      continue;
+    }
+
+    try {
+      await createTraceLink({
+        tenant,
+        projectKey,
+        sourceRequirementId: source.requirementId!,
+        targetRequirementId: target.requirementId!,
+        linkType,
+        userId
+      });
+      linked.add(key);
+      result.traceLinks.created++;
+    } catch (error) {
+      result.traceLinks.skipped++;
+      result.warnings.push(`Failed to create relation ${relation.identifier}: ${(error as Error).message}`);
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Load every live requirement in a document with its section placement and
+ * stored ReqIF identifier. Bypasses the listing cache so imports see their
+ * own writes.
+ */
+async function loadDocumentRequirements(
+  tenant: string,
+  projectKey: string,
+  documentSlug: string
+): Promise<DocumentRequirement[]> {
+  const tenantSlug = slugify(tenant);
+  const projectSlug = slugify(projectKey);
+  const session = getSession();
+
+  try {
+    const result = await session.executeRead(async (tx: ManagedTransaction) => tx.run(
+      `
+        MATCH (tenant:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project {slug: $projectSlug})-[:HAS_DOCUMENT]->(document:Document {slug: $documentSlug})
+        WHERE (document.deletedAt IS NULL)
+        MATCH (requirement:Requirement {tenant: $tenantSlug, projectKey: $projectSlug})
+        WHERE ((document)-[:CONTAINS]->(requirement) OR (document)-[:HAS_SECTION]->(:DocumentSection)-[:CONTAINS]->(requirement))
+          AND (requirement.deleted IS NULL OR requirement.deleted = false)
+          AND (requirement.archived IS NULL OR requirement.archived = false)
+        OPTIONAL MATCH (document)-[:HAS_SECTION]->(section:DocumentSection)-[rel:CONTAINS]->(requirement)
+        WITH requirement, head(collect({sectionId: section.id, order: rel.order})) AS placement
+        RETURN requirement, placement.sectionId AS sectionId, placement.order AS sectionOrder
+        ORDER BY requirement.ref
+      `,
+      { tenantSlug, projectSlug, documentSlug }
+    ));
+
+    return result.records.map(record => {
+      const node = record.get("requirement") as Neo4jNode;
+      const order = record.get("sectionOrder");
+      const reqifIdentifier = (node.properties as Record<string, unknown>).reqifIdentifier;
+      return {
+        requirement: mapRequirement(node, documentSlug),
+        sectionId: record.get("sectionId") ? String(record.get("sectionId")) : null,
+        sectionOrder: order === null || order === undefined ? Number.MAX_SAFE_INTEGER : Number(order),
+        reqifIdentifier: reqifIdentifier ? String(reqifIdentifier) : null
+      };
+    });
+  } finally {
+    await session.close();
+  }
+}
+
+async function setRequirementReqIFIdentifier(
+  tenant: string,
+  projectKey: string,
+  requirementId: string,
+  identifier: string
+): Promise<void> {
+  const session = getSession();
+  try {
+    await session.executeWrite(async (tx: ManagedTransaction) => tx.run(
+      `
+        MATCH (requirement:Requirement {id: $requirementId, tenant: $tenantSlug, projectKey: $projectSlug})
+        SET requirement.reqifIdentifier = $identifier
+      `,
+      { requirementId, tenantSlug: slugify(tenant), projectSlug: slugify(projectKey), identifier }
+    ));
+  } finally {
+    await session.close();
+  }
+}
+
+function requirementIdentifier(entry: DocumentRequirement): string {
+  if (entry.reqifIdentifier) {return entry.reqifIdentifier;}
+  return toReqIFIdentifier(REQUIREMENT_PREFIX, entry.requirement.hashId || entry.requirement.id);
+}
+
+function sectionIdentifier(section: DocumentSectionRecord): string {
+  return toReqIFIdentifier(SECTION_PREFIX, section.id);
+}
+
+function relationTypeIdentifier(linkType: string): string {
+  return toReqIFIdentifier(RELATION_TYPE_PREFIX, linkType.toUpperCase());
+}
+
+function compactValues(values: Record<string, ReqIFValue | null | undefined>): Record<string, ReqIFValue> {
+  const compacted: Record<string, ReqIFValue> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined && value !== null && value !== "") {
+      compacted[key] = value;
+    }
+  }
+  return compacted;
+}
+
+const SCHEMA_DATATYPES: Record<AttributeFieldDefinition["type"], ReqIFDataType> = {
+  string: "STRING",
+  enum: "STRING",
+  user: "STRING",
+  "multi-select": "STRING",
+  number: "REAL",
+  boolean: "BOOLEAN",
+  date: "DATE"
+};
+
+/**
+ * Attribute definitions for custom attributes: fields in the project's
+ * attribute schema get the datatype of their declared type, any other keys
+ * are inferred from their values.
+ */
+function customAttributeDefinitions(
+  fields: AttributeFieldDefinition[],
+  attributeMaps: RequirementAttributes[]
+): ReqIFAttributeDefinition[] {
+  const schemaKeys = new Set(fields.map(field => field.key));
+  const typed = fields
+    .filter(field => !CORE_ATTRIBUTE_NAMES.has(field.key))
+    .map(field => ({
+      identifier: toReqIFIdentifier(CUSTOM_ATTRIBUTE_PREFIX, field.key),
+      longName: field.key,
+      dataType: SCHEMA_DATATYPES[field.type]
+    }));
+  const inferred = inferCustomDefinitions(attributeMaps).filter(definition => !schemaKeys.has(definition.longName));
+  return [...typed, ...inferred];
+}
+
+function toReqIFValue(dataType: ReqIFDataType, value: string | number | boolean | string[]): ReqIFValue {
+  if (Array.isArray(value)) {return value.join(", ");}
+  if (dataType === "DATE" && typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return `${value}T00:00:00Z`;
+  }
+  return dataType === "STRING" ? String(value) : value;
+}
+
+/**
+ * Derive one attribute definition per custom attribute key, picking the
+ * narrowest ReqIF datatype that fits every value seen for that key.
+ */
+function inferCustomDefinitions(attributeMaps: RequirementAttributes[]): ReqIFAttributeDefinition[] {
+  const valuesByKey = new Map<string, Array<string | number | boolean | string[]>>();
+  for (const attributes of attributeMaps) {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (CORE_ATTRIBUTE_NAMES.has(key)) {continue;}
+      const values = valuesByKey.get(key) ?? [];
+      if (value !== null && value !== undefined) {values.push(value);}
+      valuesByKey.set(key, values);
+    }
+  }
+
+  return [...valuesByKey.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, values]) => {
+      let dataType: ReqIFDataType = "STRING";
+      if (values.length > 0 && values.every(value => typeof value === "boolean")) {
+        dataType = "BOOLEAN";
+      } else if (values.length > 0 && values.every(value => typeof value === "number" && Number.isInteger(value))) {
+        dataType = "INTEGER";
+      } else if (values.length > 0 && values.every(value => typeof value === "number")) {
+        dataType = "REAL";
+      }
+      return { identifier: toReqIFIdentifier(CUSTOM_ATTRIBUTE_PREFIX, key), longName: key, dataType };
+    });
+}
+
+function valuesByLongName(
+  object: ReqIFSpecObject,
+  definitions: Map<string, ReqIFAttributeDefinition>
+): Record<string, ReqIFValue> {
+  const values: Record<string, ReqIFValue> = {};
+  for (const [definitionRef, value] of Object.entries(object.values)) {
+    values[definitions.get(definitionRef)?.longName ?? definitionRef] = value;
+  }
+  return values;
+}
+
+function findCaseInsensitive(values: Record<string, ReqIFValue>, names: string[]): ReqIFValue | undefined {
+  for (const name of names) {
+    const key = Object.keys(values).find(candidate => candidate.toLowerCase() === name);
+    if (key !== undefined) {return values[key];}
+  }
+  return undefined;
+}
+
+function headingOf(values: Record<string, ReqIFValue>): ReqIFValue | undefined {
+  const heading = values[ATTR.chapterName] ?? findCaseInsensitive(values, HEADING_FALLBACKS);
+  return heading !== undefined && String(heading).trim() !== "" ? heading : undefined;
+}
+
+function textOf(
+  values: Record<string, ReqIFValue>,
+  object: ReqIFSpecObject,
+  definitions: Map<string, ReqIFAttributeDefinition>
+): string | undefined {
+  const direct = values[ATTR.text] ?? findCaseInsensitive(values, TEXT_FALLBACKS);
+  if (direct !== undefined) {
+    return String(direct).trim() || undefined;
+  }
+  const xhtmlRef = Object.keys(object.values).find(ref => definitions.get(ref)?.dataType === "XHTML");
+  return xhtmlRef ? String(object.values[xhtmlRef]).trim() || undefined : undefined;
+}
+
+function optionalString(value: ReqIFValue | undefined): string | undefined {
+  if (value === undefined) {return undefined;}
+  const text = String(value).trim();
+  return text.length > 0 ? text : undefined;
+}
+
+function toRequirementFields(
+  text: string,
+  values: Record<string, ReqIFValue>,
+  fromAirgen: boolean,
+  warnings: string[],
+  identifier: string
+): ImportedRequirementFields {
+  const pick = <T extends string>(name: string, allowed: readonly T[]): T | undefined => {
+    const value = optionalString(values[name]);
+    if (value === undefined) {return undefined;}
+    if ((allowed as readonly string[]).includes(value)) {return value as T;}
+    warnings.push(`Ignored ${name} "${value}" on ${identifier}: expected one of ${allowed.join(", ")}`);
+    return undefined;
+  };
+
+  const textKeys = new Set([ATTR.text, ...TEXT_FALLBACKS].map(name => name.toLowerCase()));
+  const attributes: RequirementAttributes = {};
+  for (const [name, value] of Object.entries(values)) {
+    if (textKeys.has(name.toLowerCase())) {continue;}
+    if (CORE_ATTRIBUTE_NAMES.has(name) && !(name === ATTR.foreignId && !fromAirgen)) {continue;}
+    attributes[name] = value;
+  }
+
+  const tags = optionalString(values[ATTR.tags])
+    ?.split(",")
+    .map(tag => tag.trim())
+    .filter(tag => tag.length > 0);
+
+  return {
+    text,
+    rationale: optionalString(values[ATTR.rationale]),
+    pattern: pick(ATTR.pattern, PATTERNS),
+    verification: pick(ATTR.verification, VERIFICATION_METHODS),
+    complianceStatus: pick(ATTR.complianceStatus, COMPLIANCE_STATUSES),
+    tags,
+    attributes
+  };
+}
+
+function diffRequirement(
+  current: RequirementRecord,
+  currentSectionId: string | null,
+  fields: ImportedRequirementFields,
+  targetSectionId: string | null,
+  hasTargetSection: boolean
+): string[] {
+  const changes: string[] = [];
+  if (current.text !== fields.text) {changes.push("text");}
+  if ((current.rationale ?? undefined) !== fields.rationale) {changes.push("rationale");}
+  if (fields.pattern !== undefined && current.pattern !== fields.pattern) {changes.push("pattern");}
+  if (fields.verification !== undefined && current.verification !== fields.verification) {changes.push("verification");}
+  if (fields.complianceStatus !== undefined && current.complianceStatus !== fields.complianceStatus) {
+    changes.push("complianceStatus");
+  }
+  if (fields.tags !== undefined && stableJson(current.tags ?? []) !== stableJson(fields.tags)) {changes.push("tags");}
+  if (stableJson(current.attributes ?? {}) !== stableJson(fields.attributes)) {changes.push("attributes");}
+  if (hasTargetSection && currentSectionId !== targetSectionId) {changes.push("section");}
+  return changes;
+}
+
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableJson(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function toLinkType(longName: string | undefined): TraceLinkRecord["linkType"] {
+  const normalized = (longName ?? "").trim().toLowerCase();
+  return LINK_TYPES.find(linkType => linkType === normalized) ?? "satisfies";
+}
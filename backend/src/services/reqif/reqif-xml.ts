@@ -0,0 +1,219 @@
+/**
+ * Minimal XML reader/writer helpers for ReqIF exchange.
+ *
+ * ReqIF files are plain, namespace-light XML, so a small non-validating
+ * parser is enough and avoids pulling a DOM implementation into the backend.
+ * Comments, processing instructions and DOCTYPE declarations are skipped;
+ * CDATA sections are returned as text.
+ */
+
+export type XmlNode = XmlElement | string;
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " "
+};
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Character references outside the Unicode range are kept literally
+ * rather than failing the whole import.
+ */
+function fromCodePoint(codePoint: number, literal: string): string {
+  return Number.isInteger(codePoint) && codePoint >= 0 && codePoint <= 0x10ffff
+    ? String.fromCodePoint(codePoint)
+    : literal;
+}
+
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith("#x")) {
+      return fromCodePoint(parseInt(entity.slice(2), 16), match);
+    }
+    if (entity.startsWith("#")) {
+      return fromCodePoint(parseInt(entity.slice(1), 10), match);
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Strip a namespace prefix (`xhtml:div` → `div`).
+ */
+export function localName(name: string): string {
+  const index = name.indexOf(":");
+  return index === -1 ? name : name.slice(index + 1);
+}
+
+export function isElement(node: XmlNode | undefined): node is XmlElement {
+  return typeof node === "object" && node !== null;
+}
+
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement => isElement(child) && (name === undefined || localName(child.name) === name)
+  );
+}
+
+export function firstChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  if (!element) {return undefined;}
+  return childElements(element, name)[0];
+}
+
+/**
+ * Walk a chain of child element names, e.g. `path(el, "TYPE", "SPEC-OBJECT-TYPE-REF")`.
+ */
+export function path(element: XmlElement | undefined, ...names: string[]): XmlElement | undefined {
+  let current = element;
+  for (const name of names) {
+    current = firstChild(current, name);
+    if (!current) {return undefined;}
+  }
+  return current;
+}
+
+export function textContent(node: XmlNode | undefined): string {
+  if (node === undefined) {return "";}
+  if (typeof node === "string") {return node;}
+  return node.children.map(child => textContent(child)).join("");
+}
+
+/**
+ * Parse an XML document and return its root element.
+ *
+ * @throws Error if the document is not well-formed
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let index = 0;
+
+  const current = () => stack[stack.length - 1];
+
+  while (index < xml.length) {
+    const lt = xml.indexOf("<", index);
+    if (lt === -1) {
+      appendText(current(), xml.slice(index));
+      break;
+    }
+    if (lt > index) {
+      appendText(current(), xml.slice(index, lt));
+    }
+
+    if (xml.startsWith("<!--", lt)) {
+      const end = xml.indexOf("-->", lt + 4);
+      if (end === -1) {throw new Error("Malformed XML: unterminated comment");}
+      index = end + 3;
+      continue;
+    }
+
+    if (xml.startsWith("<![CDATA[", lt)) {
+      const end = xml.indexOf("]]>", lt + 9);
+      if (end === -1) {throw new Error("Malformed XML: unterminated CDATA section");}
+      current().children.push(xml.slice(lt + 9, end));
+      index = end + 3;
+      continue;
+    }
+
+    if (xml.startsWith("<?", lt)) {
+      const end = xml.indexOf("?>", lt + 2);
+      if (end === -1) {throw new Error("Malformed XML: unterminated processing instruction");}
+      index = end + 2;
+      continue;
+    }
+
+    if (xml.startsWith("<!", lt)) {
+      const end = xml.indexOf(">", lt + 2);
+      if (end === -1) {throw new Error("Malformed XML: unterminated declaration");}
+      index = end + 1;
+      continue;
+    }
+
+    const gt = findTagEnd(xml, lt + 1);
+    if (gt === -1) {throw new Error("Malformed XML: unterminated tag");}
+    const rawTag = xml.slice(lt + 1, gt);
+
+    if (rawTag.startsWith("/")) {
+      const closingName = rawTag.slice(1).trim();
+      const open = stack.pop();
+      if (!open || open === root || open.name !== closingName) {
+        throw new Error(`Malformed XML: unexpected closing tag </${closingName}>`);
+      }
+      index = gt + 1;
+      continue;
+    }
+
+    const selfClosing = rawTag.endsWith("/");
+    const tagBody = selfClosing ? rawTag.slice(0, -1) : rawTag;
+    const nameMatch = tagBody.match(/^\s*([^\s/>]+)/);
+    if (!nameMatch) {throw new Error("Malformed XML: missing tag name");}
+
+    const element: XmlElement = {
+      name: nameMatch[1],
+      attributes: parseAttributes(tagBody.slice(nameMatch[0].length)),
+      children: []
+    };
+    current().children.push(element);
+    if (!selfClosing) {
+      stack.push(element);
+    }
+    index = gt + 1;
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Malformed XML: unclosed element <${current().name}>`);
+  }
+
+  const documentElement = childElements(root)[0];
+  if (!documentElement) {
+    throw new Error("Malformed XML: no root element");
+  }
+  return documentElement;
+}
+
+function appendText(parent: XmlElement, raw: string): void {
+  if (raw.length === 0) {return;}
+  parent.children.push(decodeEntities(raw));
+}
+
+function findTagEnd(xml: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < xml.length; i++) {
+    const ch = xml[i];
+    if (quote) {
+      if (ch === quote) {quote = null;}
+    } else if (ch === "\"" || ch === "'") {
+      quote = ch;
+    } else if (ch === ">") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
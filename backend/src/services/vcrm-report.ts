@@ -0,0 +1,511 @@
+/**
+ * Verification Cross-Reference Matrix (VCRM)
+ *
+ * The formal verification deliverable: every requirement with its
+ * verification method and level, the activities verifying it, the procedure
+ * document revisions their evidence cites, the latest evidence verdict and
+ * the requirement's closure status, grouped by document and section with
+ * totals. Rendered server-side as XLSX or PDF.
+ *
+ * Against a baseline, requirement text comes from the baseline snapshot and
+ * only activities and evidence recorded up to the baseline's creation count,
+ * so the same baseline always yields the same matrix. Activity statuses are
+ * mutable, so baseline exports derive them from the evidence instead.
+ * Document and section placement is always the current one.
+ */
+
+import { createHash } from "node:crypto";
+import { canonicalJson } from "./baseline-change-report.js";
+import { renderPdf } from "../lib/pdf-writer.js";
+import { renderXlsx, type XlsxCell } from "../lib/xlsx-writer.js";
+import type { ReportBlock, ReportDocument } from "../lib/report-document.js";
+import { getBaselineDetails, HEAD_BASELINE_REF } from "./graph/requirement-baselines.js";
+import {
+  getVerificationMatrixSource,
+  type ActivityStatus,
+  type EvidenceVerdict,
+  type VerificationMatrixSource,
+  type VerificationMethod
+} from "./graph/verification.js";
+import { slugify, type BaselineRecord, type RequirementVersionRecord } from "./workspace.js";
+
+export type VcrmFormat = "xlsx" | "pdf";
+
+/**
+ * closed: every activity's latest evidence passed (or was not applicable);
+ * failed: some activity's latest evidence failed;
+ * open: activities exist but are not all closed;
+ * unverified: no verification activity
+ */
+export type VcrmClosure = "closed" | "open" | "failed" | "unverified";
+
+export type VcrmFilters = {
+  /** Document slug */
+  document?: string;
+  method?: VerificationMethod;
+  status?: VcrmClosure;
+};
+
+export type VcrmActivityRow = {
+  activityId: string;
+  method: VerificationMethod;
+  title: string;
+  status: ActivityStatus;
+  /** "Name rev N" for each procedure document revision the evidence cites */
+  procedures: string[];
+  verdict: EvidenceVerdict | null;
+  evidenceCount: number;
+};
+
+export type VcrmRequirementRow = {
+  requirementId: string;
+  ref: string;
+  text: string;
+  method: VerificationMethod | null;
+  level: string | null;
+  closure: VcrmClosure;
+  activities: VcrmActivityRow[];
+};
+
+export type VcrmTotals = {
+  requirements: number;
+  closed: number;
+  open: number;
+  failed: number;
+  unverified: number;
+};
+
+export type VcrmGroup = {
+  documentSlug: string | null;
+  document: string | null;
+  section: string | null;
+  requirements: VcrmRequirementRow[];
+  totals: VcrmTotals;
+};
+
+export type Vcrm = {
+  tenant: string;
+  projectKey: string;
+  baseline: { ref: string; label: string | null; createdAt: string } | null;
+  filters: VcrmFilters;
+  groups: VcrmGroup[];
+  totals: VcrmTotals;
+};
+
+export type VcrmFile = {
+  content: Buffer;
+  contentType: string;
+  fileName: string;
+  hash: string;
+};
+
+const CONTENT_TYPES: Record<VcrmFormat, string> = {
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pdf: "application/pdf"
+};
+
+const CLOSURE_LABELS: Record<VcrmClosure, string> = {
+  closed: "Closed",
+  open: "Open",
+  failed: "Failed",
+  unverified: "Unverified"
+};
+
+const STATUS_BY_VERDICT: Record<EvidenceVerdict, ActivityStatus> = {
+  pass: "passed",
+  fail: "failed",
+  inconclusive: "executed",
+  not_applicable: "executed"
+};
+
+// ============================================================================
+// Matrix
+// ============================================================================
+
+/** Attribute holding the requirement's verification level, e.g. "Level" or "Verification level" */
+function levelOf(attributes: Record<string, unknown> | undefined): string | null {
+  const entry = Object.entries(attributes ?? {}).find(([key]) => /^(verification[\s_-]?)?level$/i.test(key));
+  return entry && entry[1] !== null && entry[1] !== undefined && entry[1] !== "" ? String(entry[1]) : null;
+}
+
+/** Fallback ref for requirements no longer in the graph: IDs are tenant:project:ref */
+function refFromId(requirementId: string): string {
+  return requirementId.split(":").pop() ?? requirementId;
+}
+
+function closureOf(activities: VcrmActivityRow[]): VcrmClosure {
+  if (activities.length === 0) {return "unverified";}
+  if (activities.some(activity => activity.verdict === "fail")) {return "failed";}
+  return activities.every(activity => activity.verdict === "pass" || activity.verdict === "not_applicable")
+    ? "closed"
+    : "open";
+}
+
+function countTotals(requirements: VcrmRequirementRow[]): VcrmTotals {
+  const count = (closure: VcrmClosure) => requirements.filter(requirement => requirement.closure === closure).length;
+  return {
+    requirements: requirements.length,
+    closed: count("closed"),
+    open: count("open"),
+    failed: count("failed"),
+    unverified: count("unverified")
+  };
+}
+
+function compareNullable(a: number | null, b: number | null): number {
+  return (a ?? Number.MAX_SAFE_INTEGER) - (b ?? Number.MAX_SAFE_INTEGER);
+}
+
+/**
+ * Build the matrix from the verification source, optionally as of a
+ * baseline. Closure always considers all of a requirement's activities; the
+ * method filter only narrows which requirements and activity rows are shown.
+ */
+export function buildVcrm(
+  source: VerificationMatrixSource,
+  options: {
+    tenant: string;
+    projectKey: string;
+    filters?: VcrmFilters;
+    baseline?: { record: BaselineRecord; requirementVersions: RequirementVersionRecord[] };
+  }
+): Vcrm {
+  const filters = options.filters ?? {};
+  const cutoff = options.baseline?.record.createdAt ?? null;
+
+  const placement = new Map<string, VerificationMatrixSource["requirements"][number]>();
+  for (const requirement of source.requirements) {
+    if (!placement.has(requirement.id)) {placement.set(requirement.id, requirement);}
+  }
+
+  let requirements: Array<{ id: string; ref: string; text: string; method: VerificationMethod | null; level: string | null }>;
+  if (options.baseline) {
+    // Latest version of each requirement in the snapshot
+    const versions = new Map<string, RequirementVersionRecord>();
+    for (const version of options.baseline.requirementVersions) {
+      const current = versions.get(version.requirementId);
+      if (!current || version.versionNumber > current.versionNumber) {versions.set(version.requirementId, version);}
+    }
+    requirements = [...versions.values()]
+      .filter(version => version.changeType !== "deleted")
+      .map(version => ({
+        id: version.requirementId,
+        ref: placement.get(version.requirementId)?.ref ?? refFromId(version.requirementId),
+        text: version.text,
+        method: version.verification ?? null,
+        level: levelOf(version.attributes)
+      }));
+  } else {
+    requirements = [...placement.values()]
+      .filter(requirement => !requirement.deleted)
+      .map(requirement => ({
+        id: requirement.id,
+        ref: requirement.ref,
+        text: requirement.text,
+        method: requirement.verification,
+        level: levelOf(requirement.attributes)
+      }));
+  }
+
+  const evidenceByActivity = new Map<string, VerificationMatrixSource["evidence"]>();
+  for (const evidence of source.evidence) {
+    if (cutoff && evidence.recordedAt > cutoff) {continue;}
+    const list = evidenceByActivity.get(evidence.activityId) ?? [];
+    list.push(evidence);
+    evidenceByActivity.set(evidence.activityId, list);
+  }
+
+  const activitiesByRequirement = new Map<string, VcrmActivityRow[]>();
+  for (const activity of source.activities) {
+    if (cutoff && activity.createdAt > cutoff) {continue;}
+    const evidence = (evidenceByActivity.get(activity.activityId) ?? [])
+      .sort((a, b) => (a.recordedAt < b.recordedAt ? -1 : a.recordedAt > b.recordedAt ? 1 : a.evidenceId.localeCompare(b.evidenceId)));
+    const latest = evidence[evidence.length - 1];
+    const procedures = [...new Set(evidence.flatMap(item => item.procedures.map(proc => `${proc.name} rev ${proc.revisionNumber}`)))].sort();
+    const list = activitiesByRequirement.get(activity.requirementId) ?? [];
+    list.push({
+      activityId: activity.activityId,
+      method: activity.method,
+      title: activity.title,
+      status: cutoff ? (latest ? STATUS_BY_VERDICT[latest.verdict] : "planned") : activity.status,
+      procedures,
+      verdict: latest?.verdict ?? null,
+      evidenceCount: evidence.length
+    });
+    activitiesByRequirement.set(activity.requirementId, list);
+  }
+
+  const groups = new Map<string, VcrmGroup & { sectionOrder: number | null }>();
+  for (const requirement of requirements) {
+    const place = placement.get(requirement.id);
+    if (filters.document && place?.documentSlug !== filters.document) {continue;}
+
+    const activities = (activitiesByRequirement.get(requirement.id) ?? [])
+      .sort((a, b) => a.method.localeCompare(b.method) || a.title.localeCompare(b.title) || a.activityId.localeCompare(b.activityId));
+    const closure = closureOf(activities);
+    if (filters.status && closure !== filters.status) {continue;}
+
+    const shown = filters.method ? activities.filter(activity => activity.method === filters.method) : activities;
+    if (filters.method && shown.length === 0 && requirement.method !== filters.method) {continue;}
+
+    const key = `${place?.documentSlug ?? ""}\u0000${place?.sectionName ?? ""}`;
+    const group = groups.get(key) ?? {
+      documentSlug: place?.documentSlug ?? null,
+      document: place?.documentName ?? null,
+      section: place?.sectionName ?? null,
+      sectionOrder: place?.sectionOrder ?? null,
+      requirements: [],
+      totals: countTotals([])
+    };
+    group.requirements.push({
+      requirementId: requirement.id,
+      ref: requirement.ref,
+      text: requirement.text,
+      method: requirement.method,
+      level: requirement.level,
+      closure,
+      activities: shown
+    });
+    groups.set(key, group);
+  }
+
+  const orderOf = (id: string) => placement.get(id)?.order ?? null;
+  const sorted = [...groups.values()]
+    .sort((a, b) =>
+      (a.document === null ? 1 : 0) - (b.document === null ? 1 : 0) ||
+      (a.document ?? "").localeCompare(b.document ?? "") ||
+      compareNullable(a.sectionOrder, b.sectionOrder) ||
+      (a.section ?? "").localeCompare(b.section ?? ""))
+    .map(({ sectionOrder: _sectionOrder, ...group }) => {
+      group.requirements.sort((a, b) =>
+        compareNullable(orderOf(a.requirementId), orderOf(b.requirementId)) ||
+        a.ref.localeCompare(b.ref, "en", { numeric: true }));
+      return { ...group, totals: countTotals(group.requirements) };
+    });
+
+  return {
+    tenant: options.tenant,
+    projectKey: options.projectKey,
+    baseline: options.baseline
+      ? {
+          ref: options.baseline.record.ref,
+          label: options.baseline.record.label ?? null,
+          createdAt: options.baseline.record.createdAt
+        }
+      : null,
+    filters,
+    groups: sorted,
+    totals: countTotals(sorted.flatMap(group => group.requirements))
+  };
+}
+
+/** SHA-256 over the canonical JSON of the matrix */
+export function hashVcrm(vcrm: Vcrm): string {
+  return createHash("sha256").update(canonicalJson(vcrm)).digest("hex");
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+const MATRIX_HEADERS = [
+  "Document", "Section", "Ref", "Requirement", "Method", "Level",
+  "Activity", "Activity status", "Procedure", "Verdict", "Closure"
+];
+
+/** One line per activity; requirements without activities get one line of their own */
+function matrixRows(group: VcrmGroup): string[][] {
+  return group.requirements.flatMap(requirement => {
+    const base = [
+      group.document ?? "",
+      group.section ?? "",
+      requirement.ref,
+      requirement.text,
+      requirement.method ?? "",
+      requirement.level ?? ""
+    ];
+    const closure = CLOSURE_LABELS[requirement.closure];
+    if (requirement.activities.length === 0) {
+      return [[...base, "", "", "", "", closure]];
+    }
+    return requirement.activities.map(activity => [
+      ...base,
+      `${activity.method}: ${activity.title}`,
+      activity.status,
+      activity.procedures.join("\n"),
+      activity.verdict ?? "",
+      closure
+    ]);
+  });
+}
+
+function groupLabel(group: VcrmGroup): string {
+  const document = group.document ?? "Unassigned";
+  return group.section ? `${document} / ${group.section}` : document;
+}
+
+function percentClosed(totals: VcrmTotals): string {
+  return totals.requirements === 0 ? "-" : `${Math.round((totals.closed / totals.requirements) * 100)}%`;
+}
+
+function totalsCells(totals: VcrmTotals): string[] {
+  return [
+    String(totals.requirements),
+    String(totals.closed),
+    String(totals.open),
+    String(totals.failed),
+    String(totals.unverified),
+    percentClosed(totals)
+  ];
+}
+
+function describeFilters(filters: VcrmFilters): string {
+  const parts = [
+    filters.document ? `document ${filters.document}` : null,
+    filters.method ? `method ${filters.method}` : null,
+    filters.status ? `closure ${filters.status}` : null
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "none";
+}
+
+function describeBaseline(vcrm: Vcrm): string {
+  if (!vcrm.baseline) {return "Current state (HEAD)";}
+  const name = vcrm.baseline.label ? `${vcrm.baseline.ref} (${vcrm.baseline.label})` : vcrm.baseline.ref;
+  return `${name}, ${vcrm.baseline.createdAt}`;
+}
+
+function reportProperties(vcrm: Vcrm, hash: string, generatedBy: string | undefined, generatedAt: string): string[][] {
+  return [
+    ["Project", `${vcrm.tenant}/${vcrm.projectKey}`],
+    ["Baseline", describeBaseline(vcrm)],
+    ["Filters", describeFilters(vcrm.filters)],
+    ["Generated", generatedBy ? `${generatedAt} by ${generatedBy}` : generatedAt],
+    ["Content hash (SHA-256)", hash]
+  ];
+}
+
+function vcrmTitle(vcrm: Vcrm): string {
+  return `Verification cross-reference matrix: ${vcrm.projectKey}${vcrm.baseline ? ` at ${vcrm.baseline.ref}` : ""}`;
+}
+
+function buildVcrmDocument(vcrm: Vcrm, hash: string, generatedBy: string | undefined, generatedAt: string): ReportDocument {
+  const title = vcrmTitle(vcrm);
+  const blocks: ReportBlock[] = [
+    { type: "heading", level: 1, text: title },
+    { type: "table", headers: ["Property", "Value"], widths: [1, 4], rows: reportProperties(vcrm, hash, generatedBy, generatedAt) },
+    { type: "heading", level: 2, text: "Summary" },
+    {
+      type: "table",
+      headers: ["Document / section", "Requirements", "Closed", "Open", "Failed", "Unverified", "Closed %"],
+      widths: [4, 1.2, 1, 1, 1, 1.2, 1],
+      rows: [
+        ...vcrm.groups.map(group => [groupLabel(group), ...totalsCells(group.totals)]),
+        ["Total", ...totalsCells(vcrm.totals)]
+      ]
+    }
+  ];
+
+  if (vcrm.groups.length === 0) {
+    blocks.push({ type: "paragraph", runs: [{ text: "No requirements match the filters.", style: "muted" }] });
+  }
+  for (const group of vcrm.groups) {
+    blocks.push(
+      { type: "heading", level: 2, text: groupLabel(group) },
+      {
+        type: "table",
+        headers: MATRIX_HEADERS.slice(2),
+        widths: [1.1, 3.6, 1, 0.8, 2.2, 1, 1.9, 0.9, 0.9],
+        rows: matrixRows(group).map(row => row.slice(2))
+      },
+      {
+        type: "paragraph",
+        runs: [{
+          text: `${group.totals.requirements} requirements: ${group.totals.closed} closed, ${group.totals.open} open, ` +
+            `${group.totals.failed} failed, ${group.totals.unverified} unverified`,
+          style: "muted"
+        }]
+      }
+    );
+  }
+
+  return {
+    title,
+    author: generatedBy,
+    subject: `${vcrm.tenant}/${vcrm.projectKey}`,
+    orientation: "landscape",
+    footer: `${vcrm.projectKey} VCRM${vcrm.baseline ? ` ${vcrm.baseline.ref}` : ""} | sha256 ${hash.slice(0, 16)}`,
+    properties: { Baseline: vcrm.baseline?.ref ?? "HEAD", ContentHash: hash },
+    blocks
+  };
+}
+
+function numericCells(cells: string[]): XlsxCell[] {
+  return cells.map(cell => (/^\d+$/.test(cell) ? Number(cell) : cell));
+}
+
+export function renderVcrm(
+  vcrm: Vcrm,
+  format: VcrmFormat,
+  options: { generatedBy?: string; generatedAt?: string } = {}
+): VcrmFile {
+  const hash = hashVcrm(vcrm);
+  const generatedAt = options.generatedAt ?? new Date().toISOString();
+  const fileName = `${vcrm.projectKey}-vcrm${vcrm.baseline ? `-${vcrm.baseline.ref}` : ""}.${format}`;
+
+  const content = format === "pdf"
+    ? renderPdf(buildVcrmDocument(vcrm, hash, options.generatedBy, generatedAt))
+    : renderXlsx({
+        title: vcrmTitle(vcrm),
+        author: options.generatedBy,
+        subject: `${vcrm.tenant}/${vcrm.projectKey}`,
+        properties: { Baseline: vcrm.baseline?.ref ?? "HEAD", ContentHash: hash },
+        sheets: [
+          {
+            name: "VCRM",
+            headers: MATRIX_HEADERS,
+            widths: [20, 20, 12, 60, 14, 10, 32, 14, 28, 12, 12],
+            rows: vcrm.groups.flatMap(matrixRows)
+          },
+          {
+            name: "Summary",
+            headers: ["Document", "Section", "Requirements", "Closed", "Open", "Failed", "Unverified", "Closed %"],
+            widths: [24, 24, 14, 10, 10, 10, 12, 10],
+            rows: [
+              ...vcrm.groups.map(group => [group.document ?? "Unassigned", group.section ?? "", ...numericCells(totalsCells(group.totals))]),
+              ["Total", "", ...numericCells(totalsCells(vcrm.totals))]
+            ]
+          },
+          {
+            name: "Report",
+            headers: ["Property", "Value"],
+            widths: [24, 80],
+            rows: reportProperties(vcrm, hash, options.generatedBy, generatedAt)
+          }
+        ]
+      });
+
+  return { content, contentType: CONTENT_TYPES[format], fileName, hash };
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+export async function generateVcrm(
+  tenant: string,
+  projectKey: string,
+  format: VcrmFormat,
+  options: { filters?: VcrmFilters; baselineRef?: string; generatedBy?: string } = {}
+): Promise<VcrmFile> {
+  const source = await getVerificationMatrixSource(tenant, projectKey);
+  const snapshot = options.baselineRef && options.baselineRef !== HEAD_BASELINE_REF
+    ? await getBaselineDetails(tenant, projectKey, options.baselineRef)
+    : null;
+  const vcrm = buildVcrm(source, {
+    tenant: slugify(tenant),
+    projectKey: slugify(projectKey),
+    filters: options.filters,
+    baseline: snapshot ? { record: snapshot.baseline, requirementVersions: snapshot.requirementVersions } : undefined
+  });
+  return renderVcrm(vcrm, format, { generatedBy: options.generatedBy });
+}
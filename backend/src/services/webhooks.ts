@@ -0,0 +1,181 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import type { ManagedTransaction, Session } from "neo4j-driver";
+import { WebhookRepository } from "../repositories/WebhookRepository.js";
+import { logger } from "../lib/logger.js";
+
+/**
+ * Outbound webhook events.
+ *
+ * Graph services call emitWebhookEvent() next to the code that records
+ * version history; matching subscriptions get a queued delivery that the
+ * webhook dispatcher sends, signs and retries. Events raised inside a write
+ * transaction are held until it commits (see executeWriteWithWebhookEvents).
+ */
+
+export const WEBHOOK_EVENT_TYPES = [
+  "requirement.created",
+  "requirement.updated",
+  "requirement.archived",
+  "requirement.restored",
+  "requirement.deleted",
+  "trace-link.created",
+  "trace-link.updated",
+  "trace-link.restored",
+  "trace-link.deleted",
+  "baseline.created",
+  "baseline.restored",
+  "baseline.deleted",
+  "branch.created",
+  "branch.merged",
+  "verification.evidence.recorded",
+  "change-request.submitted",
+  "change-request.approved",
+  "change-request.rejected"
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export type WebhookEvent = {
+  id: string;
+  type: WebhookEventType;
+  occurredAt: string;
+  tenant: string;
+  project: string | null;
+  /** User id (or "system") that caused the change */
+  actor: string | null;
+  data: Record<string, unknown>;
+};
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-AirGen-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-AirGen-Timestamp";
+
+let repository: WebhookRepository | null = null;
+
+/** Events raised inside a transaction, queued once it commits */
+const pendingEvents = new WeakMap<ManagedTransaction, WebhookEvent[]>();
+
+/**
+ * Lazily create the repository so modules that emit events can be loaded
+ * without a PostgreSQL connection (e.g. in unit tests and scripts).
+ */
+export function getWebhookRepository(): WebhookRepository {
+  if (!repository) {
+    repository = new WebhookRepository();
+  }
+  return repository;
+}
+
+/** Generate a signing secret for a new subscription */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Check an event type against a subscription filter.
+ * Filters are exact types, "*" for everything, or a prefix wildcard such as "requirement.*".
+ */
+export function matchesEventFilter(eventType: string, filters: string[]): boolean {
+  return filters.some(filter => {
+    if (filter === "*" || filter === eventType) return true;
+    if (filter.endsWith(".*")) return eventType.startsWith(filter.slice(0, -1));
+    return false;
+  });
+}
+
+/** Whether a filter can ever match one of the known event types */
+export function isValidEventFilter(filter: string): boolean {
+  return WEBHOOK_EVENT_TYPES.some(type => matchesEventFilter(type, [filter]));
+}
+
+/**
+ * HMAC-SHA256 signature over "<timestamp>.<body>", sent as "sha256=<hex>".
+ * Including the timestamp lets receivers reject replayed deliveries.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verify a signature produced by signWebhookPayload (constant-time compare).
+ * Exposed for receivers written in TypeScript and for tests.
+ */
+export function verifyWebhookSignature(secret: string, timestamp: number, body: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Queue deliveries for every active subscription that matches the event.
+ *
+ * @returns Number of deliveries queued
+ */
+export async function enqueueWebhookEvent(event: WebhookEvent): Promise<number> {
+  const repo = getWebhookRepository();
+  const subscriptions = await repo.listActiveSubscriptionsForProject(event.tenant, event.project);
+  const matching = subscriptions.filter(subscription => matchesEventFilter(event.type, subscription.events));
+
+  const deliveries = await repo.enqueueDeliveries(
+    matching.map(subscription => subscription.id),
+    { id: event.id, type: event.type, payload: event }
+  );
+  return deliveries.length;
+}
+
+function queueEvent(event: WebhookEvent): void {
+  enqueueWebhookEvent(event).catch((err: unknown) => {
+    logger.warn({ err, eventType: event.type, tenant: event.tenant }, "[Webhooks] Failed to queue webhook event");
+  });
+}
+
+/**
+ * Fire-and-forget event emission. Never throws: webhook failures must not
+ * break the write that produced the event.
+ *
+ * With a transaction the event is held until that transaction commits, and
+ * dropped if it rolls back or is retried. Only transactions run through
+ * executeWriteWithWebhookEvents commit their events; others (dry runs,
+ * maintenance scripts) discard them.
+ */
+export function emitWebhookEvent(input: {
+  type: WebhookEventType;
+  tenant: string;
+  project: string | null;
+  actor?: string | null;
+  data: Record<string, unknown>;
+}, tx?: ManagedTransaction): void {
+  const event: WebhookEvent = {
+    id: randomUUID(),
+    type: input.type,
+    occurredAt: new Date().toISOString(),
+    tenant: input.tenant,
+    project: input.project,
+    actor: input.actor ?? null,
+    data: input.data
+  };
+
+  if (tx) {
+    pendingEvents.get(tx)?.push(event);
+    return;
+  }
+  queueEvent(event);
+}
+
+/**
+ * session.executeWrite() that queues the webhook events emitted with its
+ * transaction after the commit. Each retry starts with no pending events.
+ */
+export async function executeWriteWithWebhookEvents<T>(
+  session: Session,
+  work: (tx: ManagedTransaction) => Promise<T>
+): Promise<T> {
+  let events: WebhookEvent[] = [];
+  const result = await session.executeWrite(tx => {
+    events = [];
+    pendingEvents.set(tx, events);
+    return work(tx);
+  });
+  events.forEach(queueEvent);
+  return result;
+}
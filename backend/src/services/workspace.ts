@@ -21,11 +21,15 @@ import { config } from "../config.js";
 
 export type RequirementPattern = "ubiquitous" | "event" | "state" | "unwanted" | "optional";
 export type VerificationMethod = "Test" | "Analysis" | "Inspection" | "Demonstration";
+/** Custom attribute value; string arrays hold multi-select attributes */
+export type RequirementAttributeValue = string | number | boolean | string[] | null;
+export type RequirementAttributes = Record<string, RequirementAttributeValue>;
 
 export type RequirementRecord = {
   id: string;
   hashId: string;
   ref: string;
+  refAliases?: string[]; // Earlier refs replaced by renumbering
   tenant: string;
   projectKey: string;
   title: string;
@@ -37,9 +41,11 @@ export type RequirementRecord = {
   complianceRationale?: string;
   qaScore?: number;
   qaVerdict?: string;
+  qaRulePack?: string; // QA rule pack version that produced qaScore, e.g. "incose-gtwr@3"
   suggestions?: string[];
   tags?: string[];
-  attributes?: Record<string, string | number | boolean | null>;
+  attributes?: RequirementAttributes;
+  presenceCondition?: string; // Feature expression selecting the product variants this requirement belongs to
   path: string;
   documentSlug?: string;
   order?: number;
@@ -77,8 +83,12 @@ export type RequirementVersionRecord = {
   qaVerdict?: string;
   suggestions?: string[];
   tags?: string[];
-  attributes?: Record<string, string | number | boolean | null>;
+  attributes?: RequirementAttributes;
   contentHash: string;
+  // Set when the version was produced by an approved change request
+  changeRequestId?: string;
+  approvedBy?: string[];
+  approvedAt?: string;
 };
 
 export type BaselineRecord = {
@@ -57,7 +57,12 @@ export const createInvitationSchema = z.object({
 // ====================
 
 export const qaAnalysisSchema = z.object({
-  text: z.string().min(1, "Requirement text is required")
+  text: z.string().min(1, "Requirement text is required"),
+  tenant: z.string().min(1).optional(),
+  projectKey: z.string().min(1).optional(),
+  tags: z.array(z.string()).optional()
+}).refine(data => !data.tenant === !data.projectKey, {
+  message: "tenant and projectKey must be provided together"
 });
 
 export const draftGenerationSchema = z.object({
@@ -1,5 +1,6 @@
 import { getSession } from "../services/graph/driver.js";
 import { embeddingService } from "../services/embedding.js";
+import { LlmQuotaExceededError } from "../services/llm-providers/index.js";
 import { logger } from "../lib/logger.js";
 import type { ManagedTransaction } from "neo4j-driver";
 
@@ -24,6 +25,7 @@ class EmbeddingWorker {
   private startedAt: string | null = null;
   private completedAt: string | null = null;
   private shouldStop = false;
+  private queue: Array<{ tenant: string; projectKey: string }> = [];
 
   getStatus(): EmbeddingWorkerStatus {
     return {
@@ -56,6 +58,62 @@ class EmbeddingWorker {
     await this.processEmbeddings(tenant, projectKey, 'reembed-all');
   }
 
+  /**
+   * Clear every embedding in a tenant and queue a backfill of each of its
+   * projects. Used when the tenant's embedding provider or model changes,
+   * since vectors from different models cannot be compared.
+   */
+  async resetTenantEmbeddings(tenant: string): Promise<void> {
+    const session = getSession();
+    let projects: string[];
+    try {
+      projects = await session.executeWrite(async (tx: ManagedTransaction) => {
+        await tx.run(
+          `
+            MATCH (req:Requirement {tenant: $tenantSlug})
+            WHERE req.embedding IS NOT NULL
+            SET req.embedding = null,
+                req.embeddingModel = null,
+                req.embeddingGeneratedAt = null
+          `,
+          { tenantSlug: tenant }
+        );
+        const result = await tx.run(
+          `
+            MATCH (:Tenant {slug: $tenantSlug})-[:OWNS]->(project:Project)
+            RETURN project.slug AS slug
+          `,
+          { tenantSlug: tenant }
+        );
+        return result.records.map(record => String(record.get("slug")));
+      });
+    } finally {
+      await session.close();
+    }
+
+    logger.info(`[EmbeddingWorker] Cleared embeddings for tenant ${tenant}; queueing ${projects.length} project(s)`);
+    for (const projectKey of projects) {
+      if (!this.queue.some(job => job.tenant === tenant && job.projectKey === projectKey)) {
+        this.queue.push({ tenant, projectKey });
+      }
+    }
+    this.runNextQueued();
+  }
+
+  /** Start the next queued backfill; each one starts the next when it finishes */
+  private runNextQueued(): void {
+    if (this.isRunning) {
+      return;
+    }
+    const job = this.queue.shift();
+    if (!job) {
+      return;
+    }
+    this.backfillEmbeddings(job.tenant, job.projectKey).catch(error => {
+      logger.error({ err: error, tenant: job.tenant, project: job.projectKey }, "[EmbeddingWorker] Queued backfill failed");
+    });
+  }
+
   private async processEmbeddings(
     tenant: string,
     projectKey: string,
@@ -126,7 +184,7 @@ class EmbeddingWorker {
 
         try {
           // Generate embedding
-          const embedding = await embeddingService.generateEmbedding(req.text);
+          const { embedding, model } = await embeddingService.embed(req.text, { tenant, project: projectKey });
           const now = new Date().toISOString();
 
           // Update the requirement in Neo4j
@@ -142,7 +200,7 @@ class EmbeddingWorker {
             return tx.run(updateQuery, {
               id: req.id,
               embedding,
-              embeddingModel: 'text-embedding-3-small',
+              embeddingModel: model,
               embeddingGeneratedAt: now
             });
           });
@@ -154,6 +212,12 @@ class EmbeddingWorker {
             logger.info(`[EmbeddingWorker] Progress: ${this.processedCount}/${this.totalCount}`);
           }
         } catch (error) {
+          // Every further call would be refused too
+          if (error instanceof LlmQuotaExceededError) {
+            this.lastError = error.message;
+            logger.warn(`[EmbeddingWorker] Stopping at ${this.processedCount}/${this.totalCount}: ${error.message}`);
+            break;
+          }
           logger.error({ err: error, ref: req.ref }, `[EmbeddingWorker] Error processing requirement ${req.ref}`);
           this.lastError = `Failed to process ${req.ref}: ${(error as Error).message}`;
           // Continue with next requirement
@@ -174,6 +238,7 @@ class EmbeddingWorker {
       this.operation = null;
       this.currentRequirement = null;
       await session.close();
+      this.runNextQueued();
     }
   }
 }
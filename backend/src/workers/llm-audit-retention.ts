@@ -0,0 +1,56 @@
+import { config } from "../config.js";
+import { logger } from "../lib/logger.js";
+import { getLlmUsageRepository } from "../services/llm-providers/index.js";
+
+/** How often expired prompts and responses are deleted */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Deletes retained LLM prompts and responses once they pass the expiry set
+ * when they were recorded. Usage rows are kept; only their audit content
+ * goes.
+ */
+class LlmAuditRetention {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  start(): void {
+    if (this.timer || !config.databaseUrl) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.purgeExpired().catch((err: unknown) => {
+        logger.warn({ err }, "[LlmAuditRetention] Error while purging expired audit records");
+      });
+    }, PURGE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Delete expired audit records. Overlapping calls are skipped.
+   */
+  async purgeExpired(): Promise<number> {
+    if (this.isRunning) {
+      return 0;
+    }
+    this.isRunning = true;
+
+    try {
+      const purged = await getLlmUsageRepository().purgeExpiredAudit();
+      if (purged > 0) {
+        logger.info({ purged }, "[LlmAuditRetention] Purged expired audit records");
+      }
+      return purged;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
+
+export const llmAuditRetention = new LlmAuditRetention();
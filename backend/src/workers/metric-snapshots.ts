@@ -0,0 +1,62 @@
+import { listProjectsDueForSnapshot, recordMetricSnapshot, snapshotDate } from "../services/graph/metric-snapshots.js";
+import { logger } from "../lib/logger.js";
+
+/** How often to look for projects without today's snapshot */
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Records one metric snapshot per project per day. Each hourly check
+ * snapshots the projects that have none for today, so a day missed while the
+ * server was down is only lost if it was down all day.
+ */
+class MetricSnapshotScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.runDue().catch((err: unknown) => {
+        logger.warn({ err }, "[MetricSnapshots] Error while recording daily snapshots");
+      });
+    }, CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Snapshot every project that has none for today. Overlapping calls are
+   * skipped; one failing project does not stop the rest.
+   */
+  async runDue(): Promise<number> {
+    if (this.isRunning) {
+      return 0;
+    }
+    this.isRunning = true;
+
+    try {
+      const due = await listProjectsDueForSnapshot(snapshotDate());
+      let recorded = 0;
+      for (const { tenant, projectKey } of due) {
+        try {
+          await recordMetricSnapshot(tenant, projectKey);
+          recorded++;
+        } catch (err) {
+          logger.warn({ err, tenant, projectKey }, "[MetricSnapshots] Failed to record snapshot");
+        }
+      }
+      return recorded;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
+
+export const metricSnapshotScheduler = new MetricSnapshotScheduler();
@@ -1,6 +1,8 @@
-import { analyzeRequirement } from "@airgen/req-qa";
+import { analyzeRequirement, rulePackVersionTag } from "@airgen/req-qa";
 import { getSession } from "../services/graph/driver.js";
 import { updateRequirement } from "../services/graph/requirements/requirements-crud.js";
+import { resolveQaRulePack } from "../services/graph/qa-rule-packs.js";
+import { listGlossaryTerms } from "../services/graph/glossary.js";
 import { logger } from "../lib/logger.js";
 import type { ManagedTransaction } from "neo4j-driver";
 
@@ -14,6 +16,20 @@ export type QAScorerStatus = {
   completedAt: string | null;
 };
 
+// Tags are stored either as a list or as a JSON-encoded string
+function parseTags(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value) as unknown;
+      return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
 class QAScorer {
   private isRunning = false;
   private processedCount = 0;
@@ -57,6 +73,12 @@ class QAScorer {
     const session = getSession();
 
     try {
+      // Score with the project's active rule pack (or the built-in default)
+      // and its glossary
+      const pack = await resolveQaRulePack(tenant, projectKey);
+      const packTag = rulePackVersionTag(pack);
+      const glossary = await listGlossaryTerms(tenant, projectKey);
+
       // Get all requirements that need scoring (no qaScore or old scores)
       const result = await session.executeRead(async (tx: ManagedTransaction) => {
         const query = `
@@ -66,7 +88,7 @@ class QAScorer {
           MATCH (doc)-[:HAS_SECTION]->(section:DocumentSection)-[:CONTAINS]->(req:Requirement)
           WHERE (req.deleted IS NULL OR req.deleted = false)
             AND (req.archived IS NULL OR req.archived = false)
-          RETURN req.id AS id, req.ref AS ref, req.text AS text
+          RETURN req.id AS id, req.ref AS ref, req.text AS text, req.tags AS tags
           ORDER BY req.createdAt DESC
         `;
 
@@ -79,7 +101,8 @@ class QAScorer {
       const requirements = result.records.map(r => ({
         id: String(r.get('id')),
         ref: String(r.get('ref')),
-        text: String(r.get('text'))
+        text: String(r.get('text')),
+        tags: parseTags(r.get('tags'))
       }));
 
       this.totalCount = requirements.length;
@@ -94,7 +117,7 @@ class QAScorer {
 
         try {
           // Analyze the requirement using the QA package
-          const analysis = await analyzeRequirement(req.text);
+          const analysis = analyzeRequirement(req.text, { pack, tags: req.tags, glossary });
 
           // Update the requirement with QA results
           await updateRequirement(
@@ -104,7 +127,8 @@ class QAScorer {
             {
               qaScore: analysis.score,
               qaVerdict: analysis.verdict,
-              suggestions: analysis.suggestions || []
+              suggestions: analysis.suggestions || [],
+              qaRulePack: packTag
             }
           );
 
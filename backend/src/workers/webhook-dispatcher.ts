@@ -0,0 +1,158 @@
+import type { WebhookDelivery } from "../repositories/WebhookRepository.js";
+import {
+  getWebhookRepository,
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER
+} from "../services/webhooks.js";
+import { logger } from "../lib/logger.js";
+import { assertPublicUrl } from "../lib/outbound-url.js";
+
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+const POLL_INTERVAL_MS = 15 * 1000;
+const BATCH_SIZE = 20;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const MAX_RESPONSE_BODY = 2048;
+
+/**
+ * Delay before the next attempt after `attempts` failures:
+ * 30s, 1m, 2m, 4m ... capped at 1h.
+ */
+export function computeRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+export type WebhookDeliveryResult = {
+  ok: boolean;
+  status: WebhookDelivery["status"];
+  responseStatus?: number;
+  error?: string;
+};
+
+class WebhookDispatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private isDraining = false;
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.drain().catch((err: unknown) => {
+        logger.warn({ err }, "[Webhooks] Error while draining delivery queue");
+      });
+    }, POLL_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send all deliveries that are due. Overlapping calls are skipped.
+   */
+  async drain(): Promise<void> {
+    if (this.isDraining) {
+      return;
+    }
+    this.isDraining = true;
+
+    try {
+      const repo = getWebhookRepository();
+      let batch = await repo.claimDueDeliveries(BATCH_SIZE);
+      while (batch.length > 0) {
+        for (const delivery of batch) {
+          await this.deliver(delivery);
+        }
+        batch = batch.length === BATCH_SIZE ? await repo.claimDueDeliveries(BATCH_SIZE) : [];
+      }
+    } finally {
+      this.isDraining = false;
+    }
+  }
+
+  /**
+   * Attempt a single delivery and record the outcome, scheduling a retry
+   * with exponential backoff on failure. Endpoints that resolve to internal
+   * addresses are never contacted.
+   */
+  async deliver(delivery: WebhookDelivery): Promise<WebhookDeliveryResult> {
+    const repo = getWebhookRepository();
+    const subscription = await repo.getSubscriptionById(delivery.subscriptionId);
+    const attempts = delivery.attempts + 1;
+
+    if (!subscription || !subscription.active) {
+      await repo.recordAttempt(delivery.id, {
+        status: "failed",
+        attempts: delivery.attempts,
+        error: "Subscription is inactive or has been deleted"
+      });
+      return { ok: false, status: "failed", error: "Subscription is inactive or has been deleted" };
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | undefined;
+    let responseBody: string | undefined;
+    let error: string | undefined;
+
+    try {
+      // Re-checked on every attempt: the host may have been re-pointed at an internal address since it was saved
+      await assertPublicUrl(subscription.url);
+      const response = await fetch(subscription.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "AIRGen-Webhooks/1.0",
+          "X-AirGen-Event": delivery.eventType,
+          "X-AirGen-Delivery": delivery.id,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, timestamp, body)
+        },
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY);
+      if (!response.ok) {
+        error = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    if (!error) {
+      await repo.recordAttempt(delivery.id, { status: "succeeded", attempts, responseStatus, responseBody });
+      return { ok: true, status: "succeeded", responseStatus };
+    }
+
+    const exhausted = attempts >= WEBHOOK_MAX_ATTEMPTS;
+    const status = exhausted ? "failed" : "pending";
+    await repo.recordAttempt(delivery.id, {
+      status,
+      attempts,
+      nextAttemptAt: exhausted ? undefined : new Date(Date.now() + computeRetryDelay(attempts)),
+      responseStatus,
+      responseBody,
+      error
+    });
+
+    if (exhausted) {
+      logger.warn(
+        { deliveryId: delivery.id, subscriptionId: subscription.id, eventType: delivery.eventType },
+        "[Webhooks] Delivery failed after maximum attempts"
+      );
+    }
+    return { ok: false, status, responseStatus, error };
+  }
+}
+
+// Singleton instance
+export const webhookDispatcher = new WebhookDispatcher();
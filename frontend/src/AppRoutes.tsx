@@ -21,6 +21,10 @@ const DraftsRoute = lazy(() => import("./routes/DraftsRoute").then(m => ({ defau
 const RequirementsRoute = lazy(() => import("./routes/RequirementsRoute").then(m => ({ default: m.RequirementsRoute })));
 const BaselinesRoute = lazy(() => import("./routes/BaselinesRoute").then(m => ({ default: m.BaselinesRoute })));
 const LinksRoute = lazy(() => import("./routes/LinksRoute").then(m => ({ default: m.LinksRoute })));
+const AttributeSchemaRoute = lazy(() => import("./routes/AttributeSchemaRoute").then(m => ({ default: m.AttributeSchemaRoute })));
+const FeatureModelRoute = lazy(() => import("./routes/FeatureModelRoute").then(m => ({ default: m.FeatureModelRoute })));
+const TraceRulesRoute = lazy(() => import("./routes/TraceRulesRoute").then(m => ({ default: m.TraceRulesRoute })));
+const GlossaryRoute = lazy(() => import("./routes/GlossaryRoute").then(m => ({ default: m.GlossaryRoute })));
 const RequirementsSchemaRoute = lazy(() => import("./routes/RequirementsSchemaRoute").then(m => ({ default: m.RequirementsSchemaRoute })));
 const GraphViewerRoute = lazy(() => import("./routes/GraphViewerRoute").then(m => ({ default: m.GraphViewerRoute })));
 const SettingsRoute = lazy(() => import("./routes/SettingsRoute").then(m => ({ default: m.SettingsRoute })));
@@ -32,6 +36,7 @@ const AdminUsersRoute = lazy(() => import("./routes/AdminUsersRoute").then(m =>
 const AdminRequirementsRoute = lazy(() => import("./routes/AdminRequirementsRoute").then(m => ({ default: m.AdminRequirementsRoute })));
 const AdminRecoveryRoute = lazy(() => import("./routes/AdminRecoveryRoute"));
 const SuperAdminUsersRoute = lazy(() => import("./routes/SuperAdminUsersRoute").then(m => ({ default: m.SuperAdminUsersRoute })));
+const SuperAdminLlmUsageRoute = lazy(() => import("./routes/SuperAdminLlmUsageRoute").then(m => ({ default: m.SuperAdminLlmUsageRoute })));
 const TenantAdminUsersRoute = lazy(() => import("./routes/TenantAdminUsersRoute").then(m => ({ default: m.TenantAdminUsersRoute })));
 
 export default function AppRoutes(): JSX.Element {
@@ -68,6 +73,10 @@ export default function AppRoutes(): JSX.Element {
           <Route path="/baselines" element={<BaselinesRoute />} />
           <Route path="/links" element={<LinksRoute />} />
           <Route path="/requirements-schema" element={<RequirementsSchemaRoute />} />
+          <Route path="/attribute-schema" element={<AttributeSchemaRoute />} />
+          <Route path="/variants" element={<FeatureModelRoute />} />
+          <Route path="/trace-rules" element={<TraceRulesRoute />} />
+          <Route path="/glossary" element={<GlossaryRoute />} />
           <Route path="/graph-viewer" element={<GraphViewerRoute />} />
           <Route path="/settings" element={<SettingsRoute />} />
 
@@ -82,6 +91,16 @@ export default function AppRoutes(): JSX.Element {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/super-admin/llm-usage"
+            element={
+              <ProtectedRoute>
+                <RoleGuard requireSuperAdmin fallback={<Navigate to="/dashboard" replace />}>
+                  <SuperAdminLlmUsageRoute />
+                </RoleGuard>
+              </ProtectedRoute>
+            }
+          />
 
           {/* Tenant-Admin routes - full CRUD for tenant users */}
           <Route
@@ -0,0 +1,139 @@
+/**
+ * Shared form for issuing personal access and service account tokens,
+ * plus the one-time display of the newly created secret.
+ */
+
+import type { FormEvent } from "react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { FormField } from "./ui/form-field";
+import type { ApiTokenRecord, ApiTokenScope, CreateApiTokenRequest } from "../types";
+
+export const API_TOKEN_SCOPE_OPTIONS: Array<{ scope: ApiTokenScope; label: string }> = [
+  { scope: "read", label: "Read" },
+  { scope: "write", label: "Write" },
+  { scope: "verification:write", label: "Verification write" },
+  { scope: "admin", label: "Project admin" }
+];
+
+const EXPIRY_OPTIONS = [
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "1 year" },
+  { days: 0, label: "No expiry" }
+];
+
+type ApiTokenFormProps = {
+  submitting: boolean;
+  error?: string | null;
+  /** Pre-fills the project restriction hint, e.g. the current tenant */
+  projectHint?: string;
+  onSubmit: (body: CreateApiTokenRequest) => void;
+};
+
+export function ApiTokenForm({ submitting, error, projectHint, onSubmit }: ApiTokenFormProps): JSX.Element {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read"]);
+  const [projects, setProjects] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState(90);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(current => current.includes(scope) ? current.filter(s => s !== scope) : [...current, scope]);
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const projectList = projects.split(/[\s,]+/).map(entry => entry.trim()).filter(Boolean);
+    onSubmit({
+      name: name.trim(),
+      scopes,
+      projects: projectList.length > 0 ? projectList : undefined,
+      expiresInDays: expiresInDays > 0 ? expiresInDays : undefined
+    });
+    setName("");
+    setProjects("");
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <FormField label="Name" htmlFor="token-name" required error={error || undefined} hint="What the token is used for, e.g. CI pipeline">
+        <Input id="token-name" value={name} onChange={event => setName(event.target.value)} required />
+      </FormField>
+      <FormField label="Scopes" htmlFor="token-scopes">
+        <div id="token-scopes" className="flex flex-wrap gap-4">
+          {API_TOKEN_SCOPE_OPTIONS.map(option => (
+            <label key={option.scope} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={scopes.includes(option.scope)}
+                onChange={() => toggleScope(option.scope)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      </FormField>
+      <FormField
+        label="Projects"
+        htmlFor="token-projects"
+        hint={`Optional. Limit the token to "tenant/project" entries${projectHint ? `, e.g. ${projectHint}/my-project` : ""}`}
+      >
+        <Input id="token-projects" value={projects} onChange={event => setProjects(event.target.value)} />
+      </FormField>
+      <FormField label="Expires" htmlFor="token-expiry">
+        <select
+          id="token-expiry"
+          className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          value={expiresInDays}
+          onChange={event => setExpiresInDays(Number(event.target.value))}
+        >
+          {EXPIRY_OPTIONS.map(option => (
+            <option key={option.days} value={option.days}>{option.label}</option>
+          ))}
+        </select>
+      </FormField>
+      <div className="flex justify-end">
+        <Button type="submit" disabled={submitting || scopes.length === 0}>
+          {submitting ? "Creating..." : "Create Token"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export function NewTokenSecret({ secret, onDismiss }: { secret: string; onDismiss: () => void }): JSX.Element {
+  const copy = async () => {
+    await navigator.clipboard.writeText(secret);
+    toast.success("Token copied to clipboard");
+  };
+
+  return (
+    <div className="rounded-md border border-amber-300 bg-amber-50 p-4 space-y-2">
+      <p className="text-sm font-medium text-amber-900">
+        Copy this token now. It will not be shown again.
+      </p>
+      <code className="block break-all rounded bg-white px-3 py-2 text-sm">{secret}</code>
+      <div className="flex gap-2">
+        <Button type="button" size="sm" onClick={() => void copy()}>Copy</Button>
+        <Button type="button" size="sm" variant="secondary" onClick={onDismiss}>Done</Button>
+      </div>
+    </div>
+  );
+}
+
+export function describeTokenStatus(token: ApiTokenRecord): string {
+  if (token.revokedAt) return "Revoked";
+  if (token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now()) return "Expired";
+  return "Active";
+}
+
+export function formatTokenDate(timestamp?: string): string {
+  if (!timestamp) return "—";
+  try {
+    return new Intl.DateTimeFormat(undefined, { dateStyle: "medium" }).format(new Date(timestamp));
+  } catch (error) {
+    return timestamp;
+  }
+}
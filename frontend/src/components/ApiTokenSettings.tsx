@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { KeyRound } from "lucide-react";
+import { useApiClient } from "../lib/client";
+import { Spinner } from "./Spinner";
+import { ErrorState } from "./ErrorState";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { EmptyState } from "./ui/empty-state";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "./ui/table";
+import { ApiTokenForm, NewTokenSecret, describeTokenStatus, formatTokenDate } from "./ApiTokenForm";
+import type { CreateApiTokenRequest } from "../types";
+
+/**
+ * Personal access tokens for the CLI, MCP server and scripts.
+ */
+export function ApiTokenSettings(): JSX.Element {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+
+  const tokensQuery = useQuery({
+    queryKey: ["api-tokens"],
+    queryFn: () => api.listApiTokens()
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (body: CreateApiTokenRequest) => api.createApiToken(body),
+    onSuccess: (result) => {
+      setCreateError(null);
+      setNewSecret(result.secret);
+      void queryClient.invalidateQueries({ queryKey: ["api-tokens"] });
+    },
+    onError: (error: unknown) => {
+      setCreateError(error instanceof Error ? error.message : "Failed to create token");
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (tokenId: string) => api.revokeApiToken(tokenId),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["api-tokens"] });
+    }
+  });
+
+  const handleRevoke = (tokenId: string) => {
+    if (!window.confirm("Revoke this token? Clients using it will stop working immediately.")) return;
+    revokeMutation.mutate(tokenId);
+  };
+
+  const tokens = tokensQuery.data?.tokens ?? [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Create Personal Access Token</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Tokens act as you, limited to the selected scopes and projects. Use them with
+            the CLI and MCP server via <code>AIRGEN_TOKEN</code>.
+          </p>
+          {newSecret && <NewTokenSecret secret={newSecret} onDismiss={() => setNewSecret(null)} />}
+          <ApiTokenForm
+            submitting={createMutation.isPending}
+            error={createError}
+            onSubmit={body => createMutation.mutate(body)}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Tokens</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {tokensQuery.isLoading ? (
+            <div className="flex justify-center py-8">
+              <Spinner />
+            </div>
+          ) : tokensQuery.isError ? (
+            <ErrorState message={(tokensQuery.error as Error).message} />
+          ) : tokens.length === 0 ? (
+            <EmptyState icon={KeyRound} title="No tokens" description="Create a token using the form above." />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Token</TableHead>
+                    <TableHead>Scopes</TableHead>
+                    <TableHead>Projects</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Last used</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[100px]">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tokens.map(token => {
+                    const status = describeTokenStatus(token);
+                    return (
+                      <TableRow key={token.id}>
+                        <TableCell className="font-medium">{token.name}</TableCell>
+                        <TableCell><code className="text-xs">{token.tokenPrefix}…</code></TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {token.scopes.map(scope => <Badge key={scope} variant="secondary">{scope}</Badge>)}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm">{token.projects?.join(", ") ?? "All"}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{formatTokenDate(token.expiresAt)}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{formatTokenDate(token.lastUsedAt)}</TableCell>
+                        <TableCell>
+                          <Badge variant={status === "Active" ? "success" : "outline"}>{status}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {status === "Active" && (
+                            <Button
+                              type="button"
+                              variant="destructive"
+                              size="sm"
+                              onClick={() => handleRevoke(token.id)}
+                              disabled={revokeMutation.isPending}
+                            >
+                              Revoke
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -21,11 +21,17 @@ import {
   RefreshCw,
   ChevronDown,
   Image,
-  Activity
+  Activity,
+  SlidersHorizontal,
+  Split,
+  Route,
+  BookA,
+  Gauge
 } from "lucide-react";
 import { TenantProjectProvider } from "../hooks/useTenantProject";
 import { TokenControls } from "./TokenControls";
 import { UserMenu } from "./UserMenu";
+import { NotificationsMenu } from "./NotificationsMenu";
 import { useAuth } from "../contexts/AuthContext";
 import { useUserRole } from "../hooks/useUserRole";
 import { UserRole } from "../lib/rbac";
@@ -106,7 +112,11 @@ export function AppLayout({ children }: { children: React.ReactNode }): JSX.Elem
           { to: "/requirements", label: "Requirements", icon: ListChecks },
           { to: "/baselines", label: "Baselines", icon: Layers },
           { to: "/links", label: "Trace Links", icon: GitBranch },
+          { to: "/trace-rules", label: "Trace Rules", icon: Route },
           { to: "/requirements-schema", label: "Requirements Schema", icon: Share2 },
+          { to: "/attribute-schema", label: "Attribute Schema", icon: SlidersHorizontal },
+          { to: "/glossary", label: "Glossary", icon: BookA },
+          { to: "/variants", label: "Variants", icon: Split },
           { to: "/graph-viewer", label: "Graph Viewer", icon: Network }
         ]
       }
@@ -120,6 +130,7 @@ export function AppLayout({ children }: { children: React.ReactNode }): JSX.Elem
     if (superAdmin) {
       adminItems.push(
         { to: "/super-admin/users", label: "Super Admin Users", icon: Crown, visible: true },
+        { to: "/super-admin/llm-usage", label: "LLM Usage", icon: Gauge, visible: true },
         { to: "/admin/recovery", label: "Admin Recovery", icon: RefreshCw, visible: true }
       );
     }
@@ -198,6 +209,7 @@ export function AppLayout({ children }: { children: React.ReactNode }): JSX.Elem
               <div style={{ display: "flex", alignItems: "center", gap: "1rem", marginLeft: "auto" }}>
                 <MobileViewToggle />
                 <TokenControls />
+                <NotificationsMenu />
                 <UserMenu />
               </div>
             </header>
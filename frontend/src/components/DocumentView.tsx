@@ -5,16 +5,22 @@
  * Coordinates custom hooks and components for the document view.
  */
 
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useQueryClient } from "@tanstack/react-query";
 import { useFloatingDocuments } from "../contexts/FloatingDocumentsContext";
+import { useAuth } from "../contexts/AuthContext";
 import { RequirementsTable } from "./DocumentView/RequirementsTable";
 import { DocumentHeader } from "./document-view/DocumentHeader";
 import { SectionsSidebar } from "./document-view/SectionsSidebar";
 import { DocumentModals } from "./document-view/DocumentModals";
+import { RefNumberingModal } from "./document-view/RefNumberingModal";
 import { useDocumentData } from "../hooks/document-view/useDocumentData";
 import { useDocumentState } from "../hooks/document-view/useDocumentState";
 import { useDocumentMutations } from "../hooks/document-view/useDocumentMutations";
 import { useDocumentHandlers } from "../hooks/document-view/useDocumentHandlers";
+import { useDocumentCollaboration } from "../hooks/document-view/useDocumentCollaboration";
+import { VariantSelector, useVariantExclusions } from "./variants/VariantControls";
+import type { RequirementRecord, RequirementSoftLock } from "../types";
 
 interface DocumentViewProps {
   tenant: string;
@@ -31,6 +37,7 @@ export function DocumentView({
 }: DocumentViewProps): JSX.Element {
   const queryClient = useQueryClient();
   const { openFloatingDocument } = useFloatingDocuments();
+  const { user } = useAuth();
 
   // Use custom hooks for data, state, mutations, and handlers
   const data = useDocumentData(tenant, project, documentSlug);
@@ -45,7 +52,8 @@ export function DocumentView({
     state.manuallyUpdatedSectionsRef,
     state.setEditRequirementModal,
     state.setEditSectionModal,
-    state.setSectionsWithUnsavedChanges
+    state.setSectionsWithUnsavedChanges,
+    state.setEditConflict
   );
   const handlers = useDocumentHandlers(
     data.sections,
@@ -61,6 +69,58 @@ export function DocumentView({
     mutations.updateRequirementMutation,
     mutations.deleteRequirementMutation
   );
+  const collaboration = useDocumentCollaboration(tenant, project, documentSlug);
+  const [variant, setVariant] = useState("");
+  const [showNumbering, setShowNumbering] = useState(false);
+  const exclusions = useVariantExclusions(tenant, project, variant);
+
+  // With a variant selected, hide what it excludes from the view and exports
+  const visibleSections = useMemo(() => {
+    if (!exclusions) {
+      return data.sections;
+    }
+    return data.sections
+      .filter(section => !exclusions.sections.has(section.id))
+      .map(section => ({
+        ...section,
+        requirements: section.requirements.filter(requirement => !exclusions.requirements.has(requirement.id))
+      }));
+  }, [data.sections, exclusions]);
+  const { lockHeldByOther, lockRequirement, unlockRequirement, viewRequirement } = collaboration;
+
+  // Locks held by other users, for the table's lock indicators
+  const lockedRequirements = useMemo(() => {
+    const locked = new Map<string, RequirementSoftLock>();
+    for (const lock of collaboration.locks) {
+      if (lock.userId !== user?.id) {
+        locked.set(lock.requirementId, lock);
+      }
+    }
+    return locked;
+  }, [collaboration.locks, user?.id]);
+
+  // Soft-lock a requirement while it is open for editing; warn if someone else has it
+  const { handleEditRequirement } = handlers;
+  const handleEditRequirementWithLock = useCallback((requirement: RequirementRecord) => {
+    const lock = lockHeldByOther(requirement.id);
+    if (lock && !window.confirm(`${lock.name} is currently editing ${requirement.ref}. Edit it anyway?`)) {
+      return;
+    }
+    lockRequirement(requirement.id, Boolean(lock));
+    handleEditRequirement(requirement);
+  }, [lockHeldByOther, lockRequirement, handleEditRequirement]);
+
+  const editingRequirementId = state.editRequirementModal.requirement?.id;
+  useEffect(() => {
+    if (!editingRequirementId) {
+      return;
+    }
+    viewRequirement(editingRequirementId);
+    return () => {
+      unlockRequirement(editingRequirementId);
+      viewRequirement(null);
+    };
+  }, [editingRequirementId, unlockRequirement, viewRequirement]);
 
   // Helper for opening floating document
   const handleOpenFloatingDocument = () => {
@@ -107,12 +167,33 @@ export function DocumentView({
     }}>
       <DocumentHeader
         document={data.document}
+        participants={collaboration.participants}
+        currentUserId={user?.id}
         onClose={onClose}
+        toolbar={
+          <>
+            <button
+              onClick={() => setShowNumbering(true)}
+              title="Requirement numbering scheme"
+              style={{
+                background: "none",
+                border: "1px solid #e2e8f0",
+                borderRadius: "4px",
+                padding: "6px 10px",
+                cursor: "pointer",
+                fontSize: "14px"
+              }}
+            >
+              Numbering
+            </button>
+            <VariantSelector tenant={tenant} project={project} value={variant} onChange={setVariant} />
+          </>
+        }
       />
 
       <div style={{ display: "flex", flex: 1, overflow: "hidden" }}>
         <SectionsSidebar
-          sections={data.sections}
+          sections={visibleSections}
           selectedSection={state.selectedSection}
           draggedSection={state.draggedSection}
           onSectionSelect={state.setSelectedSection}
@@ -126,9 +207,9 @@ export function DocumentView({
 
         {/* Requirements Table */}
         <div style={{ flex: 1, display: "flex", flexDirection: "column", overflow: "hidden" }}>
-          {data.sections.length > 0 ? (
+          {visibleSections.length > 0 ? (
             <RequirementsTable
-              sections={data.sections}
+              sections={visibleSections}
               tenant={tenant}
               project={project}
               documentSlug={documentSlug}
@@ -136,13 +217,14 @@ export function DocumentView({
               onAddRequirement={() => state.setShowAddRequirementModal(true)}
               onAddInfo={() => state.setShowAddInfoModal(true)}
               onAddSurrogate={() => state.setShowAddSurrogateModal(true)}
-              onEditRequirement={handlers.handleEditRequirement}
+              onEditRequirement={handleEditRequirementWithLock}
               onOpenFloatingDocument={handleOpenFloatingDocument}
               onEditMarkdown={() => state.setShowMarkdownEditor(true)}
               onReorderItems={mutations.handleReorderItems}
               sectionsWithUnsavedChanges={state.sectionsWithUnsavedChanges}
               onSaveReorder={(sectionId) => mutations.saveReorderMutation.mutate(sectionId)}
               isSaving={mutations.saveReorderMutation.isPending}
+              lockedRequirements={lockedRequirements}
             />
           ) : (
             <div style={{
@@ -153,13 +235,24 @@ export function DocumentView({
               color: "#64748b",
               fontSize: "16px"
             }}>
-              No sections found. Add a section to get started.
+              {exclusions && data.sections.length > 0
+                ? "No sections in this variant."
+                : "No sections found. Add a section to get started."}
             </div>
           )}
         </div>
       </div>
 
       {/* All Modals */}
+      {data.document && (
+        <RefNumberingModal
+          isOpen={showNumbering}
+          tenant={tenant}
+          project={project}
+          document={data.document}
+          onClose={() => setShowNumbering(false)}
+        />
+      )}
       <DocumentModals
         showAddSectionModal={state.showAddSectionModal}
         showAddRequirementModal={state.showAddRequirementModal}
@@ -171,8 +264,10 @@ export function DocumentView({
         selectedSection={state.selectedSection}
         editRequirementModal={state.editRequirementModal}
         editSectionModal={state.editSectionModal}
+        editConflict={state.editConflict}
+        isSavingRequirement={mutations.updateRequirementMutation.isPending}
         document={data.document}
-        sections={data.sections}
+        sections={visibleSections}
         tenant={tenant}
         project={project}
         documentSlug={documentSlug}
@@ -183,6 +278,16 @@ export function DocumentView({
         onUpdateRequirement={(updates) => handlers.handleUpdateRequirement(state.editRequirementModal, updates)}
         onDeleteRequirement={() => handlers.handleDeleteRequirement(state.editRequirementModal.requirement)}
         onUpdateSection={(updates) => handlers.handleUpdateSection(state.editSectionModal, updates)}
+        onResolveEditConflict={(updates) => {
+          if (state.editConflict) {
+            handlers.handleResolveEditConflict(state.editConflict, updates);
+          }
+          state.setEditConflict(null);
+        }}
+        onDiscardEditConflict={() => {
+          state.setEditConflict(null);
+          state.setEditRequirementModal({ isOpen: false, requirement: null });
+        }}
         onImportComplete={() => {
           queryClient.invalidateQueries({ queryKey: ["sections", tenant, project, documentSlug] });
           state.setShowImportModal(false);
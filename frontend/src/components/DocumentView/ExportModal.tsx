@@ -1,7 +1,19 @@
 import { useState } from "react";
 import { toast } from "sonner";
 import { Modal, Select, Button } from "../Modal";
-import type { DocumentSectionRecord, RequirementRecord } from "../../types";
+import { useApiClient } from "../../lib/client";
+import { attributeValue, formatAttributeValue, useAttributeSchema } from "../attributes/AttributeFields";
+import { useGlossaryTerms } from "../glossary/GlossaryText";
+import { glossaryTermsUsed } from "../../lib/glossary";
+import type {
+  AttributeFieldDefinition,
+  AttributeFieldType,
+  CommentThread,
+  DocumentSectionRecord,
+  GlossaryTerm,
+  MentionableUser,
+  RequirementRecord
+} from "../../types";
 
 interface ExportModalProps {
   isOpen: boolean;
@@ -16,6 +28,130 @@ interface ExportModalProps {
 type ExportFormat = "word" | "pdf" | "csv" | "reqif";
 type ExportScope = "document" | "section" | "selected";
 
+/** Comment threads keyed by requirement or section id, with author display names */
+type ExportComments = {
+  byTarget: Map<string, CommentThread[]>;
+  authorNames: Map<string, string>;
+};
+
+const NO_COMMENTS: ExportComments = { byTarget: new Map(), authorNames: new Map() };
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** ReqIF datatype used for each attribute field type */
+const REQIF_KINDS: Record<AttributeFieldType, "STRING" | "REAL" | "BOOLEAN" | "DATE" | "ENUMERATION"> = {
+  string: "STRING",
+  user: "STRING",
+  number: "REAL",
+  boolean: "BOOLEAN",
+  date: "DATE",
+  enum: "ENUMERATION",
+  "multi-select": "ENUMERATION"
+};
+
+function reqifDatatype(field: AttributeFieldDefinition, index: number): string {
+  if (REQIF_KINDS[field.type] !== "ENUMERATION") {
+    return "";
+  }
+  const values = (field.options ?? []).map((option, optionIndex) => `
+            <ENUM-VALUE IDENTIFIER="ATTR_${index}_VALUE_${optionIndex}" LONG-NAME="${escapeHtml(option)}">
+              <PROPERTIES><EMBEDDED-VALUE KEY="${optionIndex}" OTHER-CONTENT="${escapeHtml(option)}"/></PROPERTIES>
+            </ENUM-VALUE>`).join("");
+  return `
+        <DATATYPE-DEFINITION-ENUMERATION IDENTIFIER="ATTR_${index}_TYPE" LONG-NAME="${escapeHtml(field.label)}">
+          <SPECIFIED-VALUES>${values}
+          </SPECIFIED-VALUES>
+        </DATATYPE-DEFINITION-ENUMERATION>`;
+}
+
+function reqifAttributeDefinition(field: AttributeFieldDefinition, index: number): string {
+  const kind = REQIF_KINDS[field.type];
+  const typeRef = kind === "ENUMERATION" ? `ATTR_${index}_TYPE` : `${kind}_TYPE`;
+  const multiValued = kind === "ENUMERATION" ? ` MULTI-VALUED="${field.type === "multi-select"}"` : "";
+  return `
+            <ATTRIBUTE-DEFINITION-${kind} IDENTIFIER="ATTR_${index}" LONG-NAME="${escapeHtml(field.label)}"${multiValued}>
+              <TYPE><DATATYPE-DEFINITION-${kind}-REF>${typeRef}</DATATYPE-DEFINITION-${kind}-REF></TYPE>
+            </ATTRIBUTE-DEFINITION-${kind}>`;
+}
+
+function reqifAttributeValue(
+  field: AttributeFieldDefinition,
+  index: number,
+  req: RequirementRecord,
+  users: MentionableUser[]
+): string {
+  const value = attributeValue(req.attributes, field);
+  if (value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0)) {
+    return "";
+  }
+  const kind = REQIF_KINDS[field.type];
+  const definition = `<DEFINITION><ATTRIBUTE-DEFINITION-${kind}-REF>ATTR_${index}</ATTRIBUTE-DEFINITION-${kind}-REF></DEFINITION>`;
+  if (kind === "ENUMERATION") {
+    const selected = Array.isArray(value) ? value : [String(value)];
+    const refs = selected
+      .map(item => (field.options ?? []).indexOf(item))
+      .filter(optionIndex => optionIndex >= 0)
+      .map(optionIndex => `<ENUM-VALUE-REF>ATTR_${index}_VALUE_${optionIndex}</ENUM-VALUE-REF>`)
+      .join("");
+    return `
+            <ATTRIBUTE-VALUE-ENUMERATION>
+              ${definition}
+              <VALUES>${refs}</VALUES>
+            </ATTRIBUTE-VALUE-ENUMERATION>`;
+  }
+  const text = kind === "DATE" ? `${String(value).slice(0, 10)}T00:00:00Z` : formatAttributeValue(value, users, field);
+  return `
+            <ATTRIBUTE-VALUE-${kind} THE-VALUE="${escapeHtml(text)}">
+              ${definition}
+            </ATTRIBUTE-VALUE-${kind}>`;
+}
+
+function threadLines(thread: CommentThread, comments: ExportComments): string[] {
+  return [thread, ...thread.replies]
+    .filter(comment => !comment.deletedAt)
+    .map(comment => `${comments.authorNames.get(comment.authorId) ?? "Unknown user"}: ${comment.body}`);
+}
+
+function renderCommentsHtml(targetId: string, comments: ExportComments): string {
+  const threads = comments.byTarget.get(targetId) ?? [];
+  if (threads.length === 0) {
+    return "";
+  }
+  return `
+        <div class="comments">
+            ${threads.map(thread => `
+            <div class="comment-thread">
+                ${thread.resolved ? '<span class="resolved">Resolved</span>' : ""}
+                ${threadLines(thread, comments).map(line => `<div>${escapeHtml(line)}</div>`).join("")}
+            </div>`).join("")}
+        </div>`;
+}
+
+/** Glossary section listing the given terms; empty when there are none */
+function renderGlossaryHtml(terms: GlossaryTerm[]): string {
+  if (terms.length === 0) {
+    return "";
+  }
+  return `
+    <h2>Glossary</h2>
+    <table class="glossary">
+        <thead><tr><th>Term</th><th>Abbreviation</th><th>Definition</th></tr></thead>
+        <tbody>${terms.map(term => `
+            <tr>
+                <td>${escapeHtml(term.term)}${term.synonyms.length > 0 ? `<div class="synonyms">Also: ${escapeHtml(term.synonyms.join(", "))}</div>` : ""}</td>
+                <td>${escapeHtml(term.abbreviation ?? "")}</td>
+                <td>${escapeHtml(term.definition)}</td>
+            </tr>`).join("")}
+        </tbody>
+    </table>`;
+}
+
 export function ExportModal({
   isOpen,
   onClose,
@@ -30,7 +166,12 @@ export function ExportModal({
   const [selectedSectionId, setSelectedSectionId] = useState("");
   const [includeMetadata, setIncludeMetadata] = useState(true);
   const [includeQaData, setIncludeQaData] = useState(true);
+  const [includeComments, setIncludeComments] = useState(false);
+  const [includeGlossary, setIncludeGlossary] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
+  const api = useApiClient();
+  const { fields: attributeFields } = useAttributeSchema(tenant, project);
+  const { terms: glossaryTerms } = useGlossaryTerms(tenant, project);
 
   const formatOptions = [
     { value: "word", label: "HTML Document (.html)" },
@@ -58,19 +199,27 @@ export function ExportModal({
         throw new Error("Please select a section to export");
       }
 
+      const comments = includeComments ? await loadComments() : NO_COMMENTS;
+      const glossary = includeGlossary
+        ? glossaryTermsUsed(exportData.flatMap(section => [section.description ?? "", ...section.requirements.map(req => req.text)]), glossaryTerms)
+        : [];
+      const users = attributeFields.some(field => field.type === "user")
+        ? (await api.listMentionableUsers(tenant, project)).users
+        : [];
+
       // Generate export based on format
       switch (format) {
         case "word":
-          await exportToWord(exportData);
+          await exportToWord(exportData, comments, glossary);
           break;
         case "pdf":
-          await exportToPdf(exportData);
+          await exportToPdf(exportData, comments, glossary);
           break;
         case "csv":
-          await exportToCsv(exportData);
+          await exportToCsv(exportData, comments, users);
           break;
         case "reqif":
-          await exportToReqif(exportData);
+          await exportToReqif(exportData, users);
           break;
       }
       
@@ -83,7 +232,22 @@ export function ExportModal({
     }
   };
 
-  const exportToWord = async (data: typeof sections) => {
+  const loadComments = async (): Promise<ExportComments> => {
+    const [{ threads }, { users }] = await Promise.all([
+      api.listComments(tenant, project, { documentSlug }),
+      api.listMentionableUsers(tenant, project)
+    ]);
+    const byTarget = new Map<string, CommentThread[]>();
+    threads.forEach(thread => {
+      byTarget.set(thread.targetId, [...(byTarget.get(thread.targetId) ?? []), thread]);
+    });
+    return {
+      byTarget,
+      authorNames: new Map(users.map(user => [user.id, user.name || user.email]))
+    };
+  };
+
+  const exportToWord = async (data: typeof sections, comments: ExportComments, glossary: GlossaryTerm[]) => {
     // Create Word document content
     let content = `
 <!DOCTYPE html>
@@ -103,6 +267,10 @@ export function ExportModal({
         table { width: 100%; border-collapse: collapse; margin-top: 10px; }
         th, td { border: 1px solid #e5e7eb; padding: 8px; text-align: left; }
         th { background-color: #f9fafb; }
+        .comments { margin-top: 10px; padding-left: 12px; border-left: 3px solid #bfdbfe; font-size: 13px; }
+        .comment-thread { margin: 6px 0; }
+        .resolved { font-size: 11px; color: #15803d; font-weight: bold; }
+        .synonyms { font-size: 12px; color: #6b7280; }
     </style>
 </head>
 <body>
@@ -115,6 +283,7 @@ export function ExportModal({
       content += `
     <h2>${section.name}</h2>
     ${section.description ? `<p><em>${section.description}</em></p>` : ''}
+    ${renderCommentsHtml(section.id, comments)}
     <p><strong>Requirements Count:</strong> ${section.requirements.length}</p>
 `;
 
@@ -132,13 +301,14 @@ export function ExportModal({
             ${includeQaData && req.qaVerdict ? `<span><strong>QA Verdict:</strong> ${req.qaVerdict}</span>` : ''}
         </div>
         ` : ''}
+        ${renderCommentsHtml(req.id, comments)}
     </div>
 `;
         });
       }
     });
 
-    content += `
+    content += `${renderGlossaryHtml(glossary)}
 </body>
 </html>
 `;
@@ -155,9 +325,9 @@ export function ExportModal({
     URL.revokeObjectURL(url);
   };
 
-  const exportToPdf = async (data: typeof sections) => {
+  const exportToPdf = async (data: typeof sections, comments: ExportComments, glossary: GlossaryTerm[]) => {
     // For PDF, we'll create an HTML version and let the browser handle PDF generation
-    const content = await generateHtmlContent(data);
+    const content = await generateHtmlContent(data, comments, glossary);
     const newWindow = window.open();
     if (newWindow) {
       newWindow.document.write(content);
@@ -168,8 +338,9 @@ export function ExportModal({
     }
   };
 
-  const exportToCsv = async (data: typeof sections) => {
-    let csvContent = "Section,Requirement ID,Requirement Text,Pattern,Verification,QA Score,QA Verdict,Created At,Updated At\n";
+  const exportToCsv = async (data: typeof sections, comments: ExportComments, users: MentionableUser[]) => {
+    const attributeHeaders = attributeFields.map(field => `,"${field.label.replace(/"/g, '""')}"`).join("");
+    let csvContent = `Section,Requirement ID,Requirement Text,Pattern,Verification,QA Score,QA Verdict,Created At,Updated At${attributeHeaders}${includeComments ? ",Comments" : ""}\n`;
     
     data.forEach(section => {
       section.requirements.forEach(req => {
@@ -182,7 +353,13 @@ export function ExportModal({
           req.qaScore || '',
           `"${req.qaVerdict || ''}"`,
           `"${req.createdAt}"`,
-          `"${req.updatedAt}"`
+          `"${req.updatedAt}"`,
+          ...attributeFields.map(field => field.type === "number" || field.type === "boolean"
+            ? formatAttributeValue(attributeValue(req.attributes, field))
+            : `"${formatAttributeValue(attributeValue(req.attributes, field), users, field).replace(/"/g, '""')}"`),
+          ...(includeComments
+            ? [`"${(comments.byTarget.get(req.id) ?? []).flatMap(thread => threadLines(thread, comments)).join(" | ").replace(/"/g, '""')}"`]
+            : [])
         ].join(',');
         csvContent += row + "\n";
       });
@@ -199,7 +376,7 @@ export function ExportModal({
     URL.revokeObjectURL(url);
   };
 
-  const exportToReqif = async (data: typeof sections) => {
+  const exportToReqif = async (data: typeof sections, users: MentionableUser[]) => {
     // Generate ReqIF XML format
     let reqifContent = `<?xml version="1.0" encoding="UTF-8"?>
 <REQ-IF xmlns="http://www.omg.org/ReqIF" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
@@ -218,6 +395,9 @@ export function ExportModal({
         <DATATYPE-DEFINITION-STRING IDENTIFIER="STRING_TYPE" LONG-NAME="String">
           <MAX-LENGTH>1000</MAX-LENGTH>
         </DATATYPE-DEFINITION-STRING>
+        <DATATYPE-DEFINITION-REAL IDENTIFIER="REAL_TYPE" LONG-NAME="Real" ACCURACY="6" MIN="-1000000000" MAX="1000000000"/>
+        <DATATYPE-DEFINITION-BOOLEAN IDENTIFIER="BOOLEAN_TYPE" LONG-NAME="Boolean"/>
+        <DATATYPE-DEFINITION-DATE IDENTIFIER="DATE_TYPE" LONG-NAME="Date"/>${attributeFields.map(reqifDatatype).join("")}
       </DATATYPES>
       <SPEC-TYPES>
         <SPEC-OBJECT-TYPE IDENTIFIER="REQUIREMENT_TYPE" LONG-NAME="Requirement">
@@ -230,7 +410,7 @@ export function ExportModal({
             </ATTRIBUTE-DEFINITION-STRING>
             <ATTRIBUTE-DEFINITION-STRING IDENTIFIER="REQ_VERIFICATION" LONG-NAME="Verification">
               <TYPE><DATATYPE-DEFINITION-STRING-REF>STRING_TYPE</DATATYPE-DEFINITION-STRING-REF></TYPE>
-            </ATTRIBUTE-DEFINITION-STRING>
+            </ATTRIBUTE-DEFINITION-STRING>${attributeFields.map(reqifAttributeDefinition).join("")}
           </SPEC-ATTRIBUTES>
         </SPEC-OBJECT-TYPE>
       </SPEC-TYPES>
@@ -255,7 +435,7 @@ export function ExportModal({
             <ATTRIBUTE-VALUE-STRING THE-VALUE="${req.verification}">
               <DEFINITION><ATTRIBUTE-DEFINITION-STRING-REF>REQ_VERIFICATION</ATTRIBUTE-DEFINITION-STRING-REF></DEFINITION>
             </ATTRIBUTE-VALUE-STRING>
-            ` : ''}
+            ` : ''}${attributeFields.map((field, index) => reqifAttributeValue(field, index, req, users)).join("")}
           </VALUES>
         </SPEC-OBJECT>
 `;
@@ -280,7 +460,7 @@ export function ExportModal({
     URL.revokeObjectURL(url);
   };
 
-  const generateHtmlContent = async (data: typeof sections) => {
+  const generateHtmlContent = async (data: typeof sections, comments: ExportComments, glossary: GlossaryTerm[]) => {
     return `
 <!DOCTYPE html>
 <html>
@@ -296,6 +476,13 @@ export function ExportModal({
         .requirement-text { margin: 8px 0; }
         .metadata { font-size: 12px; color: #6b7280; margin-top: 8px; }
         .metadata span { margin-right: 15px; }
+        .comments { margin-top: 10px; padding-left: 12px; border-left: 3px solid #bfdbfe; font-size: 13px; }
+        .comment-thread { margin: 6px 0; }
+        .resolved { font-size: 11px; color: #15803d; font-weight: bold; }
+        table.glossary { width: 100%; border-collapse: collapse; margin-top: 10px; page-break-inside: auto; }
+        table.glossary th, table.glossary td { border: 1px solid #e5e7eb; padding: 8px; text-align: left; vertical-align: top; }
+        table.glossary th { background-color: #f9fafb; }
+        .synonyms { font-size: 12px; color: #6b7280; }
         @media print { 
             body { margin: 20px; }
             .requirement { break-inside: avoid; }
@@ -309,6 +496,7 @@ export function ExportModal({
     ${data.map(section => `
         <h2>${section.name}</h2>
         ${section.description ? `<p><em>${section.description}</em></p>` : ''}
+        ${renderCommentsHtml(section.id, comments)}
         ${section.requirements.map(req => `
             <div class="requirement">
                 <div class="requirement-header">${req.ref}</div>
@@ -320,9 +508,11 @@ export function ExportModal({
                     ${includeQaData && req.qaScore ? `<span><strong>QA Score:</strong> ${req.qaScore}</span>` : ''}
                 </div>
                 ` : ''}
+                ${renderCommentsHtml(req.id, comments)}
             </div>
         `).join('')}
     `).join('')}
+    ${renderGlossaryHtml(glossary)}
 </body>
 </html>`;
   };
@@ -407,6 +597,26 @@ export function ExportModal({
             />
             Include QA data (scores, verdicts, suggestions)
           </label>
+
+          <label style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "14px" }}>
+            <input
+              type="checkbox"
+              checked={includeComments}
+              onChange={(e) => setIncludeComments(e.target.checked)}
+              disabled={format === "reqif"}
+            />
+            Include comment threads (HTML, PDF and CSV)
+          </label>
+
+          <label style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "14px" }}>
+            <input
+              type="checkbox"
+              checked={includeGlossary}
+              onChange={(e) => setIncludeGlossary(e.target.checked)}
+              disabled={glossaryTerms.length === 0 || format === "csv" || format === "reqif"}
+            />
+            Include a glossary of the project terms used (HTML and PDF)
+          </label>
         </div>
 
         <div style={{ 
@@ -4,7 +4,7 @@ import { DndContext, closestCenter, PointerSensor, useSensor, useSensors, DragEn
 import { SortableContext, verticalListSortingStrategy, useSortable, arrayMove } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import { toast } from "sonner";
-import type { RequirementRecord, DocumentSectionRecord, InfoRecord, SurrogateReferenceRecord, TraceLink, TraceLinkType } from "../../types";
+import type { RequirementAttributes, RequirementRecord, DocumentSectionRecord, InfoRecord, SurrogateReferenceRecord, TraceLink, TraceLinkType, RequirementSoftLock } from "../../types";
 import { RequirementContextMenu } from "../RequirementContextMenu";
 import { LinkTypeSelectionModal } from "../LinkTypeSelectionModal";
 import { useRequirementLinking } from "../../contexts/RequirementLinkingContext";
@@ -15,6 +15,8 @@ import { RequirementRow } from "./RequirementsTable/RequirementRow";
 import { AttributesEditor } from "./RequirementsTable/AttributesEditor";
 import { SortableRow, type SortableItemData } from "./RequirementsTable/SortableRow";
 import { HistoryModal } from "../HistoryModal";
+import { CommentsModal } from "../comments/CommentsModal";
+import { CommentCountButton, useCommentCounts } from "../comments/CommentCountButton";
 import { useApiClient } from "../../lib/client";
 import { useRequirementMutations } from "./RequirementsTable/useRequirementMutations";
 import { useSortableItems } from "./RequirementsTable/useSortableItems";
@@ -35,6 +37,8 @@ export interface RequirementsTableProps {
   sectionsWithUnsavedChanges: Set<string>;
   onSaveReorder: (sectionId: string) => void;
   isSaving: boolean;
+  /** Soft locks held by other users, keyed by requirement id */
+  lockedRequirements?: Map<string, RequirementSoftLock>;
 }
 
 const DEFAULT_COLUMN_WIDTHS = {
@@ -47,7 +51,7 @@ const DEFAULT_COLUMN_WIDTHS = {
   complianceRationale: 200,
   qaScore: 80,
   attributes: 200,
-  actions: 110
+  actions: 150
 };
 
 export function RequirementsTable({
@@ -65,7 +69,8 @@ export function RequirementsTable({
   onReorderItems,
   sectionsWithUnsavedChanges,
   onSaveReorder,
-  isSaving
+  isSaving,
+  lockedRequirements
 }: RequirementsTableProps): JSX.Element {
   const [columnWidths, setColumnWidths] = useState(DEFAULT_COLUMN_WIDTHS);
   const [isResizing, setIsResizing] = useState<string | null>(null);
@@ -106,14 +111,21 @@ export function RequirementsTable({
   });
   const [attributesEditor, setAttributesEditor] = useState<{
     requirement: RequirementRecord;
-    attributes: Record<string, string | number | boolean | null>;
+    attributes: RequirementAttributes;
   } | null>(null);
   const [historyModal, setHistoryModal] = useState<{
     requirement: RequirementRecord;
   } | null>(null);
+  const [commentsTarget, setCommentsTarget] = useState<{
+    targetType: "requirement" | "section";
+    targetId: string;
+    label: string;
+  } | null>(null);
   const tableRef = useRef<HTMLTableElement>(null);
   const api = useApiClient();
   const queryClient = useQueryClient();
+  const commentCounts = useCommentCounts(tenant, project, "requirement", documentSlug);
+  const sectionCommentCounts = useCommentCounts(tenant, project, "section", documentSlug);
 
   // Use mutations hook
   const { updateRequirementMutation, updateAttributesMutation } = useRequirementMutations(tenant, project, documentSlug);
@@ -131,7 +143,7 @@ export function RequirementsTable({
   }, []);
 
   // Handler for updating attributes
-  const handleAttributesSave = useCallback((attributes: Record<string, string | number | boolean | null>) => {
+  const handleAttributesSave = useCallback((attributes: RequirementAttributes) => {
     if (attributesEditor) {
       updateAttributesMutation.mutate({
         requirement: attributesEditor.requirement,
@@ -146,6 +158,10 @@ export function RequirementsTable({
     setHistoryModal({ requirement });
   }, []);
 
+  const handleOpenRequirementComments = useCallback((requirement: RequirementRecord) => {
+    setCommentsTarget({ targetType: "requirement", targetId: requirement.id, label: requirement.ref });
+  }, []);
+
   // Handler for restore callback - invalidate queries to refresh data
   const handleHistoryRestore = useCallback(() => {
     queryClient.invalidateQueries({ queryKey: ["sections", tenant, project, documentSlug] });
@@ -658,25 +674,35 @@ export function RequirementsTable({
                                   </span>
                                 )}
                               </div>
-                              {hasUnsavedChanges && (
-                                <button
-                                  onClick={() => onSaveReorder(item.sectionId)}
-                                  disabled={isSaving}
-                                  style={{
-                                    padding: "6px 12px",
-                                    backgroundColor: "#3b82f6",
-                                    color: "white",
-                                    border: "none",
-                                    borderRadius: "4px",
-                                    fontSize: "13px",
-                                    fontWeight: "500",
-                                    cursor: isSaving ? "not-allowed" : "pointer",
-                                    opacity: isSaving ? 0.6 : 1
-                                  }}
-                                >
-                                  {isSaving ? "Saving..." : "Save Order"}
-                                </button>
-                              )}
+                              <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+                                <CommentCountButton
+                                  count={sectionCommentCounts[item.sectionId]}
+                                  onClick={() => setCommentsTarget({
+                                    targetType: "section",
+                                    targetId: item.sectionId,
+                                    label: item.sectionName
+                                  })}
+                                />
+                                {hasUnsavedChanges && (
+                                  <button
+                                    onClick={() => onSaveReorder(item.sectionId)}
+                                    disabled={isSaving}
+                                    style={{
+                                      padding: "6px 12px",
+                                      backgroundColor: "#3b82f6",
+                                      color: "white",
+                                      border: "none",
+                                      borderRadius: "4px",
+                                      fontSize: "13px",
+                                      fontWeight: "500",
+                                      cursor: isSaving ? "not-allowed" : "pointer",
+                                      opacity: isSaving ? 0.6 : 1
+                                    }}
+                                  >
+                                    {isSaving ? "Saving..." : "Save Order"}
+                                  </button>
+                                )}
+                              </div>
                             </div>
                           </td>
                         </tr>
@@ -699,6 +725,9 @@ export function RequirementsTable({
                                 onFieldUpdate={handleFieldUpdate}
                                 onEditAttributes={handleEditAttributes}
                                 onViewHistory={handleViewHistory}
+                                onOpenComments={handleOpenRequirementComments}
+                                commentCounts={commentCounts}
+                                lock={lockedRequirements?.get(sortableItem.id)}
                                 visibleColumnCount={visibleColumnCount}
                               />
                             ))}
@@ -816,6 +845,18 @@ export function RequirementsTable({
           onRestore={handleHistoryRestore}
         />
       )}
+
+      {commentsTarget && (
+        <CommentsModal
+          isOpen={true}
+          onClose={() => setCommentsTarget(null)}
+          tenant={tenant}
+          project={project}
+          targetType={commentsTarget.targetType}
+          targetId={commentsTarget.targetId}
+          targetLabel={commentsTarget.label}
+        />
+      )}
     </div>
   );
 }
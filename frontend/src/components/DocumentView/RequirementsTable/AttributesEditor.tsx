@@ -1,10 +1,9 @@
 import { useState, useEffect } from 'react';
+import type { RequirementAttributes } from '../../../types';
 
 /**
  * Props for the AttributesEditor component
  */
-type RequirementAttributes = Record<string, string | number | boolean | null>;
-
 export interface AttributesEditorProps {
   /** Current attributes object */
   attributes: RequirementAttributes;
@@ -30,7 +29,9 @@ export function AttributesEditor({
           ? ''
           : typeof value === 'boolean'
             ? (value ? 'true' : 'false')
-            : String(value)
+            : Array.isArray(value)
+              ? value.join(', ')
+              : String(value)
       ])
     )
   );
@@ -1,8 +1,10 @@
-import type { RequirementRecord, TraceLink } from "../../../types";
+import type { RequirementRecord, RequirementSoftLock, TraceLink } from "../../../types";
 import type { ColumnVisibility } from "./ColumnSelector";
 import type { DraggableAttributes } from "@dnd-kit/core";
 import type { SyntheticListenerMap } from "@dnd-kit/core/dist/hooks/utilities";
 import { LinkIndicators } from "../LinkIndicators";
+import { GlossaryText } from "../../glossary/GlossaryText";
+import { CommentCountButton } from "../../comments/CommentCountButton";
 
 export interface EditableRequirementRowProps {
   requirement: RequirementRecord;
@@ -25,11 +27,15 @@ export interface EditableRequirementRowProps {
   onContextMenu: (e: React.MouseEvent, requirement: RequirementRecord) => void;
   onEditAttributes?: (requirement: RequirementRecord) => void;
   onViewHistory?: (requirement: RequirementRecord) => void;
+  onOpenComments?: (requirement: RequirementRecord) => void;
   // State setters for inline editing
   setEditValue: (value: string) => void;
   tenant: string;
   project: string;
   traceLinks?: TraceLink[];
+  commentCount?: { total: number; open: number };
+  /** Another user's soft lock while they have the requirement open for editing */
+  lock?: RequirementSoftLock;
 }
 
 export function EditableRequirementRow({
@@ -51,10 +57,13 @@ export function EditableRequirementRow({
   onContextMenu,
   onEditAttributes,
   onViewHistory,
+  onOpenComments,
   setEditValue,
   tenant,
   project,
-  traceLinks = []
+  traceLinks = [],
+  commentCount,
+  lock
 }: EditableRequirementRowProps): JSX.Element {
   return (
     <tr ref={setNodeRef} style={style}>
@@ -89,6 +98,11 @@ export function EditableRequirementRow({
             }}>
               {req.ref}
             </span>
+            {lock && (
+              <span title={`${lock.name} is editing this requirement`} style={{ fontSize: "12px", cursor: "help" }}>
+                🔒
+              </span>
+            )}
           </div>
         </td>
       )}
@@ -123,7 +137,9 @@ export function EditableRequirementRow({
             />
           ) : (
             <div style={{ display: "flex", alignItems: "flex-start", justifyContent: "space-between" }}>
-              <span style={{ flex: 1, marginRight: "8px" }}>{req.text}</span>
+              <span style={{ flex: 1, marginRight: "8px" }}>
+                <GlossaryText tenant={tenant} project={project} text={req.text} />
+              </span>
               <LinkIndicators
                 requirementId={req.id}
                 traceLinks={traceLinks}
@@ -425,6 +441,9 @@ export function EditableRequirementRow({
             >
               📜
             </button>
+            {onOpenComments && (
+              <CommentCountButton count={commentCount} onClick={() => onOpenComments(req)} />
+            )}
           </div>
         </td>
       )}
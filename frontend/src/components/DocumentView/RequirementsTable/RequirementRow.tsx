@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect } from "react";
 import type { RequirementRecord, TraceLink } from "../../../types";
 import { LinkIndicators } from "../LinkIndicators";
+import { GlossaryText } from "../../glossary/GlossaryText";
 import type { ColumnVisibility } from "./ColumnSelector";
 
 /**
@@ -130,7 +131,9 @@ export function RequirementRow({
             />
           ) : (
             <div style={{ display: "flex", alignItems: "flex-start", justifyContent: "space-between" }}>
-              <span style={{ flex: 1, marginRight: "8px" }}>{requirement.text}</span>
+              <span style={{ flex: 1, marginRight: "8px" }}>
+                <GlossaryText tenant={tenant} project={project} text={requirement.text} />
+              </span>
               <LinkIndicators
                 requirementId={requirement.id}
                 traceLinks={traceLinks}
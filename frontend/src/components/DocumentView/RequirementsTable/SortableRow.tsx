@@ -1,7 +1,7 @@
 import { useState, useRef, useEffect } from "react";
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
-import type { RequirementRecord, InfoRecord, SurrogateReferenceRecord, TraceLink } from "../../../types";
+import type { RequirementRecord, InfoRecord, SurrogateReferenceRecord, TraceLink, CommentCounts, RequirementSoftLock } from "../../../types";
 import type { ColumnVisibility } from "./ColumnSelector";
 import { InfoRow } from "./InfoRow";
 import { SurrogateRow } from "./SurrogateRow";
@@ -28,6 +28,9 @@ export interface SortableRowProps {
   onFieldUpdate?: (requirement: RequirementRecord, field: string, value: string) => void;
   onEditAttributes?: (requirement: RequirementRecord) => void;
   onViewHistory?: (requirement: RequirementRecord) => void;
+  onOpenComments?: (requirement: RequirementRecord) => void;
+  commentCounts?: CommentCounts;
+  lock?: RequirementSoftLock;
   visibleColumnCount: number;
 }
 
@@ -43,6 +46,9 @@ export function SortableRow({
   onFieldUpdate,
   onEditAttributes,
   onViewHistory,
+  onOpenComments,
+  commentCounts,
+  lock,
   visibleColumnCount
 }: SortableRowProps): JSX.Element {
   const {
@@ -148,10 +154,13 @@ export function SortableRow({
         onContextMenu={onContextMenu}
         onEditAttributes={onEditAttributes}
         onViewHistory={onViewHistory}
+        onOpenComments={onOpenComments}
         setEditValue={setEditValue}
         tenant={tenant}
         project={project}
         traceLinks={traceLinks}
+        commentCount={commentCounts?.[req.id]}
+        lock={lock}
       />
     );
   }
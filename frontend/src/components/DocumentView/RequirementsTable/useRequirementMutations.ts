@@ -1,5 +1,5 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import type { RequirementRecord } from "../../../types";
+import type { RequirementAttributes, RequirementRecord } from "../../../types";
 import { useApiClient } from "../../../lib/client";
 
 export function useRequirementMutations(
@@ -10,6 +10,24 @@ export function useRequirementMutations(
   const api = useApiClient();
   const queryClient = useQueryClient();
 
+  // Keep the cached version number current so a later full edit is not
+  // mistaken for a conflicting one
+  const syncVersionNumber = ({ requirement }: { requirement: RequirementRecord }) => {
+    queryClient.setQueryData(["sections", tenant, project, documentSlug], (old: any) => {
+      if (!old?.sections) return old;
+
+      return {
+        ...old,
+        sections: old.sections.map((section: any) => ({
+          ...section,
+          requirements: section.requirements?.map((req: RequirementRecord) =>
+            req.id === requirement.id ? { ...req, versionNumber: requirement.versionNumber } : req
+          )
+        }))
+      };
+    });
+  };
+
   // Mutation for inline field updates with optimistic updates
   const updateRequirementMutation = useMutation({
     mutationFn: async ({ requirement, field, value }: { requirement: RequirementRecord; field: string; value: string }) => {
@@ -56,14 +74,15 @@ export function useRequirementMutations(
       }
       // Only refetch on error to show user the correct server state
       queryClient.invalidateQueries({ queryKey: ["sections", tenant, project, documentSlug] });
-    }
+    },
+    onSuccess: syncVersionNumber
     // Note: We don't refetch on success - the optimistic update is trusted
     // The next time the user navigates away and back, they'll get fresh data
   });
 
   // Mutation for updating attributes
   const updateAttributesMutation = useMutation({
-    mutationFn: async ({ requirement, attributes }: { requirement: RequirementRecord; attributes: Record<string, string | number | boolean | null> }) => {
+    mutationFn: async ({ requirement, attributes }: { requirement: RequirementRecord; attributes: RequirementAttributes }) => {
       const updates: Partial<RequirementRecord> = { attributes };
       return api.updateRequirement(tenant, project, requirement.id, updates);
     },
@@ -95,7 +114,8 @@ export function useRequirementMutations(
         );
       }
       queryClient.invalidateQueries({ queryKey: ["sections", tenant, project, documentSlug] });
-    }
+    },
+    onSuccess: syncVersionNumber
   });
 
   return {
@@ -25,6 +25,13 @@ type DraftCardProps = {
   }) => Promise<RequirementRecord>;
 };
 
+function parseTags(raw: string): string[] {
+  return raw
+    .split(",")
+    .map(tag => tag.trim())
+    .filter(Boolean);
+}
+
 export function DraftCard({ draft, tenant, project, documentSlug, onPersist }: DraftCardProps): JSX.Element {
   const api = useApiClient();
 
@@ -47,7 +54,7 @@ export function DraftCard({ draft, tenant, project, documentSlug, onPersist }: D
   });
 
   const qaMutation = useMutation({
-    mutationFn: (payload: string) => api.qa(payload),
+    mutationFn: (payload: string) => api.qa(payload, { tenant, projectKey: project, tags: parseTags(tagsRaw) }),
     onSuccess: result => {
       setQaScore(result.score);
       setQaVerdict(result.verdict);
@@ -59,10 +66,7 @@ export function DraftCard({ draft, tenant, project, documentSlug, onPersist }: D
 
   const persistMutation = useMutation({
     mutationFn: async () => {
-      const payloadTags = tagsRaw
-        .split(",")
-        .map(tag => tag.trim())
-        .filter(Boolean);
+      const payloadTags = parseTags(tagsRaw);
       return onPersist({
         tenant,
         projectKey: project,
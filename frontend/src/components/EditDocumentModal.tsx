@@ -110,7 +110,7 @@ export function EditDocumentModal({
           placeholder="e.g., URD, SRS"
           maxLength={10}
           style={{ textTransform: "uppercase" }}
-          help="Used for requirement IDs (e.g., URD-FUN-001). Changing this will update all related requirement references."
+          help="Used for requirement IDs (e.g., URD-FUN-001). Changing this will update all related requirement references, unless the document has its own numbering scheme."
         />
 
         <TextArea
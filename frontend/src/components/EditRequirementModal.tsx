@@ -1,6 +1,16 @@
 import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Modal, TextInput, TextArea, Select, Button } from "./Modal";
-import type { RequirementRecord, RequirementPattern, VerificationMethod, DocumentSectionRecord } from "../types";
+import { useApiClient } from "../lib/client";
+import { AttributeFields, attributeValue, missingRequiredAttributes, useAttributeSchema } from "./attributes/AttributeFields";
+import { PresenceConditionField } from "./variants/VariantControls";
+import type {
+  RequirementRecord,
+  RequirementPattern,
+  VerificationMethod,
+  DocumentSectionRecord,
+  RequirementAttributes
+} from "../types";
 
 interface EditRequirementModalProps {
   isOpen: boolean;
@@ -12,6 +22,7 @@ interface EditRequirementModalProps {
     pattern?: RequirementPattern;
     verification?: VerificationMethod;
     sectionId?: string;
+    attributes?: RequirementAttributes;
   }) => void;
   onDelete?: () => void;
 }
@@ -28,36 +39,65 @@ export function EditRequirementModal({
   const [pattern, setPattern] = useState<RequirementPattern | "">("");
   const [verification, setVerification] = useState<VerificationMethod | "">("");
   const [sectionId, setSectionId] = useState<string>("");
+  const [attributes, setAttributes] = useState<RequirementAttributes>({});
+  const api = useApiClient();
+  const tenant = requirement?.tenant ?? "";
+  const project = requirement?.projectKey ?? "";
+  const { fields } = useAttributeSchema(tenant, project);
+  const hasUserFields = fields.some(field => field.type === "user");
+
+  const usersQuery = useQuery({
+    queryKey: ["mentionable-users", tenant, project],
+    queryFn: () => api.listMentionableUsers(tenant, project),
+    enabled: Boolean(isOpen && hasUserFields && tenant && project),
+    staleTime: 5 * 60 * 1000
+  });
 
   useEffect(() => {
     if (isOpen && requirement) {
       setText(requirement.text);
       setPattern(requirement.pattern || "");
       setVerification(requirement.verification || "");
+      setAttributes(Object.fromEntries(
+        fields.map(field => [field.key, attributeValue(requirement.attributes, field) ?? null])
+      ));
       // Find the current section ID if the requirement belongs to a section
       const currentSection = sections.find(s =>
         s.requirements?.some((r: any) => r.id === requirement.id)
       );
       setSectionId(currentSection?.id || "");
     }
-  }, [isOpen, requirement, sections]);
+  }, [isOpen, requirement, sections, fields]);
 
   const handleClose = () => {
     setText("");
     setPattern("");
     setVerification("");
     setSectionId("");
+    setAttributes({});
     onClose();
   };
 
+  const missingAttributes = missingRequiredAttributes(fields, attributes);
+
+  // Keep attributes outside the schema; schema fields replace loosely matching keys
+  const buildAttributes = (): RequirementAttributes => {
+    const normalize = (key: string) => key.toLowerCase().replace(/[\s_-]+/g, "");
+    const schemaKeys = new Set(fields.map(field => normalize(field.key)));
+    const preserved = Object.entries(requirement?.attributes ?? {})
+      .filter(([key]) => !schemaKeys.has(normalize(key)));
+    return { ...Object.fromEntries(preserved), ...attributes };
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (text.trim()) {
+    if (text.trim() && missingAttributes.length === 0) {
       onUpdate({
         text: text.trim(),
         pattern: pattern as RequirementPattern || undefined,
         verification: verification as VerificationMethod || undefined,
-        sectionId: sectionId || undefined
+        sectionId: sectionId || undefined,
+        attributes: fields.length > 0 ? buildAttributes() : undefined
       });
       handleClose();
     }
@@ -113,7 +153,7 @@ export function EditRequirementModal({
       </Button>
       <Button 
         type="submit" 
-        disabled={!text.trim()}
+        disabled={!text.trim() || missingAttributes.length > 0}
         onClick={handleSubmit}
       >
         Update Requirement
@@ -177,6 +217,29 @@ export function EditRequirementModal({
             help="Move this requirement to a different section"
           />
         )}
+
+        {fields.length > 0 && (
+          <div>
+            <h4 style={{ margin: "0 0 0.75rem", fontSize: "0.95rem", fontWeight: 600 }}>Attributes</h4>
+            <AttributeFields
+              fields={fields}
+              users={usersQuery.data?.users ?? []}
+              values={attributes}
+              onChange={(key, value) => setAttributes(current => ({ ...current, [key]: value }))}
+            />
+            {missingAttributes.length > 0 && (
+              <p className="form-error">Required: {missingAttributes.join(", ")}</p>
+            )}
+          </div>
+        )}
+
+        <PresenceConditionField
+          tenant={tenant}
+          project={project}
+          entityType="requirement"
+          entityId={requirement.id}
+          condition={requirement.presenceCondition}
+        />
       </form>
     </Modal>
   );
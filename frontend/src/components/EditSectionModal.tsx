@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useApiClient } from "../lib/client";
 import { Modal, TextInput, TextArea, Button } from "./Modal";
+import { PresenceConditionField } from "./variants/VariantControls";
 import type { DocumentSectionRecord } from "../types";
 
 interface EditSectionModalProps {
@@ -124,6 +125,16 @@ export function EditSectionModal({
           help="Helps team members understand what requirements belong in this section"
         />
 
+        {section && (
+          <PresenceConditionField
+            tenant={tenant}
+            project={project}
+            entityType="section"
+            entityId={section.id}
+            condition={section.presenceCondition}
+          />
+        )}
+
         {updateMutation.isError && (
           <div style={{ 
             padding: "12px", 
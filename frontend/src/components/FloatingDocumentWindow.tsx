@@ -6,6 +6,8 @@ import { LinkIndicators } from "./DocumentView/LinkIndicators";
 import { RequirementContextMenu } from "./RequirementContextMenu";
 import { LinkTypeSelectionModal } from "./LinkTypeSelectionModal";
 import { useRequirementLinking } from "../contexts/RequirementLinkingContext";
+import { CommentsModal } from "./comments/CommentsModal";
+import { CommentCountButton, useCommentCounts } from "./comments/CommentCountButton";
 import type { RequirementRecord, TraceLinkType } from "../types";
 import { toast } from "sonner";
 
@@ -61,7 +63,8 @@ export function FloatingDocumentWindow({
     sourceRequirement: RequirementRecord;
     targetRequirement: RequirementRecord;
   } | null>(null);
-
+  const [commentsRequirement, setCommentsRequirement] = useState<RequirementRecord | null>(null);
+  const commentCounts = useCommentCounts(tenant, project, "requirement", documentSlug);
 
   // Fetch document sections
   const sectionsQuery = useQuery({
@@ -519,8 +522,9 @@ export function FloatingDocumentWindow({
                             cursor: "pointer"
                           }}
                         >
-                          <div style={{ display: "flex", gap: "8px", marginBottom: "4px" }}>
+                          <div style={{ display: "flex", gap: "8px", marginBottom: "4px", alignItems: "center", justifyContent: "space-between" }}>
                             <span style={{ fontWeight: 600, color: "#3b82f6" }}>{req.ref}</span>
+                            <CommentCountButton count={commentCounts[req.id]} onClick={() => setCommentsRequirement(req)} />
                           </div>
                           <div style={{ display: "flex", alignItems: "flex-start", justifyContent: "space-between" }}>
                             <span style={{ flex: 1, marginRight: "8px", color: "#334155" }}>{req.text}</span>
@@ -586,6 +590,18 @@ export function FloatingDocumentWindow({
           onCancel={() => setLinkModal(null)}
         />
       )}
+
+      {commentsRequirement && (
+        <CommentsModal
+          isOpen={true}
+          onClose={() => setCommentsRequirement(null)}
+          tenant={tenant}
+          project={project}
+          targetType="requirement"
+          targetId={commentsRequirement.id}
+          targetLabel={commentsRequirement.ref}
+        />
+      )}
     </div>
   );
 }
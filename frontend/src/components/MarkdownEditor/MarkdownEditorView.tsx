@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useApiClient } from "../../lib/client";
 import { useAutoSave } from "../../hooks/useAutoSave";
@@ -10,6 +10,8 @@ import remarkGfm from "remark-gfm";
 import rehypeRaw from "rehype-raw";
 import { Modal } from "../Modal/Modal";
 import { MermaidRenderer } from "./MermaidRenderer";
+import { glossaryDecorations, rehypeGlossary } from "./glossaryHighlighting";
+import { useGlossaryTerms } from "../glossary/GlossaryText";
 import "./markdownEditor.css";
 
 interface MarkdownEditorViewProps {
@@ -143,6 +145,9 @@ export function MarkdownEditorView({
   const cursorPositionRef = useRef<number | null>(null);
   const lastValidatedContentRef = useRef<string>("");
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const glossaryDecorationsRef = useRef<editor.IEditorDecorationsCollection | null>(null);
+  const { terms: glossaryTerms } = useGlossaryTerms(tenant, project);
+  const rehypePlugins = useMemo(() => [rehypeRaw, rehypeGlossary(glossaryTerms)], [glossaryTerms]);
 
   const autosaveKey = `airgen:draft:${tenant}:${project}:${documentSlug}`;
 
@@ -281,6 +286,18 @@ export function MarkdownEditorView({
     return () => clearTimeout(timeout);
   }, [content, triggerValidation, isValidationPending]);
 
+  // Underline glossary terms in the editor once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const model = editorRef.current?.getModel();
+      if (model && glossaryDecorationsRef.current) {
+        glossaryDecorationsRef.current.set(glossaryDecorations(model, glossaryTerms));
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [content, glossaryTerms]);
+
   const handleSave = () => {
     saveMutation.mutate(false);
   };
@@ -585,6 +602,10 @@ Warning message
               onChange={(value) => handleContentChange(value || "")}
               onMount={(editor) => {
                 editorRef.current = editor;
+                const model = editor.getModel();
+                glossaryDecorationsRef.current = editor.createDecorationsCollection(
+                  model ? glossaryDecorations(model, glossaryTerms) : []
+                );
               }}
               theme="vs"
               options={{
@@ -624,7 +645,7 @@ Warning message
             <div className="markdown-preview-pane">
               <ReactMarkdown
                 remarkPlugins={[remarkGfm]}
-                rehypePlugins={[rehypeRaw]}
+                rehypePlugins={rehypePlugins}
                 components={markdownComponents}
               >
                 {preprocessMarkdown(content, tenant, project)}
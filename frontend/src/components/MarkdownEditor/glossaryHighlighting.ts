@@ -0,0 +1,82 @@
+import type { editor } from "monaco-editor";
+import { describeGlossaryMatch, findGlossaryMatches, glossarySegments } from "../../lib/glossary";
+import type { GlossaryTerm } from "../../types";
+
+/** The parts of a hast node the preview plugin touches */
+type HastNode = {
+  type: string;
+  value?: string;
+  tagName?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+};
+
+/** Elements whose text is never highlighted */
+const SKIPPED_ELEMENTS = new Set(["code", "pre", "a", "script", "style"]);
+
+function highlightChildren(node: HastNode, terms: GlossaryTerm[]): void {
+  if (!node.children) {
+    return;
+  }
+  node.children = node.children.flatMap(child => {
+    if (child.type === "element" && !SKIPPED_ELEMENTS.has(child.tagName ?? "")) {
+      highlightChildren(child, terms);
+    }
+    if (child.type !== "text" || !child.value) {
+      return [child];
+    }
+    const segments = glossarySegments(child.value, terms);
+    if (segments.every(segment => !segment.match)) {
+      return [child];
+    }
+    return segments.map(segment => segment.match
+      ? {
+          type: "element",
+          tagName: "span",
+          properties: {
+            className: ["glossary-term", `glossary-term-${segment.match.kind}`],
+            title: describeGlossaryMatch(segment.match)
+          },
+          children: [{ type: "text", value: segment.text }]
+        }
+      : { type: "text", value: segment.text });
+  });
+}
+
+/**
+ * Rehype plugin for the preview pane: wraps glossary terms in spans with
+ * their definition as the title.
+ */
+export function rehypeGlossary(terms: GlossaryTerm[]) {
+  return () => (tree: HastNode) => {
+    if (terms.length > 0) {
+      highlightChildren(tree, terms);
+    }
+  };
+}
+
+/**
+ * Monaco decorations underlining glossary terms in the editor, with the
+ * definition as the hover message.
+ */
+export function glossaryDecorations(model: editor.ITextModel, terms: GlossaryTerm[]): editor.IModelDeltaDecoration[] {
+  if (terms.length === 0) {
+    return [];
+  }
+  return findGlossaryMatches(model.getValue(), terms).map(match => {
+    const start = model.getPositionAt(match.start);
+    const end = model.getPositionAt(match.end);
+    return {
+      range: {
+        startLineNumber: start.lineNumber,
+        startColumn: start.column,
+        endLineNumber: end.lineNumber,
+        endColumn: end.column
+      },
+      options: {
+        inlineClassName: match.kind === "deprecated" ? "glossary-editor-deprecated" : "glossary-editor-term",
+        hoverMessage: { value: describeGlossaryMatch(match) }
+      }
+    };
+  });
+}
@@ -0,0 +1,140 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Bell } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { useApiClient } from "../lib/client";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "./ui/dropdown-menu";
+import type { NotificationRecord } from "../types";
+
+const NOTIFICATIONS_QUERY_KEY = ["notifications"];
+
+/**
+ * Header bell listing the current user's notifications (e.g. @mentions in comments).
+ */
+export function NotificationsMenu(): JSX.Element | null {
+  const api = useApiClient();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const notificationsQuery = useQuery({
+    queryKey: NOTIFICATIONS_QUERY_KEY,
+    queryFn: () => api.listNotifications({ limit: 20 }),
+    enabled: Boolean(user),
+    refetchInterval: 60 * 1000
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: (ids?: string[]) => api.markNotificationsRead(ids),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY });
+    }
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const notifications = notificationsQuery.data?.notifications ?? [];
+  const unreadCount = notificationsQuery.data?.unreadCount ?? 0;
+
+  const handleOpen = (notification: NotificationRecord) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate([notification.id]);
+    }
+    if (notification.target?.documentSlug) {
+      navigate("/documents");
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : "Notifications"}
+          style={{
+            position: "relative",
+            padding: "0.5rem",
+            background: "rgba(255, 255, 255, 0.1)",
+            border: "1px solid rgba(255, 255, 255, 0.2)",
+            borderRadius: "0.5rem",
+            color: "white",
+            cursor: "pointer",
+            display: "flex"
+          }}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span
+              style={{
+                position: "absolute",
+                top: "-4px",
+                right: "-4px",
+                minWidth: "18px",
+                height: "18px",
+                padding: "0 4px",
+                borderRadius: "9px",
+                background: "#dc2626",
+                color: "white",
+                fontSize: "11px",
+                fontWeight: 600,
+                lineHeight: "18px",
+                textAlign: "center"
+              }}
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              className="px-2 text-xs text-brand-600 hover:underline"
+              onClick={() => markReadMutation.mutate(undefined)}
+            >
+              Mark all read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <div className="px-2 py-4 text-center text-sm text-muted-foreground">You're all caught up</div>
+        ) : (
+          notifications.map(notification => (
+            <DropdownMenuItem
+              key={notification.id}
+              className="flex flex-col items-start gap-1"
+              onSelect={() => handleOpen(notification)}
+            >
+              <div className="flex w-full items-center gap-2">
+                {!notification.readAt && <span className="h-2 w-2 shrink-0 rounded-full bg-brand-500" />}
+                <span className={`text-sm ${notification.readAt ? "" : "font-semibold"}`}>{notification.title}</span>
+              </div>
+              {notification.body && (
+                <span className="line-clamp-2 text-xs text-muted-foreground">{notification.body}</span>
+              )}
+              <span className="text-xs text-muted-foreground">
+                {notification.projectSlug ? `${notification.tenantSlug}/${notification.projectSlug}` : notification.tenantSlug}
+                {notification.target?.documentSlug ? ` · ${notification.target.documentSlug}` : ""}
+                {" · "}
+                {new Date(notification.createdAt).toLocaleString()}
+              </span>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
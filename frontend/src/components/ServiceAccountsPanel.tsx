@@ -0,0 +1,220 @@
+import type { FormEvent } from "react";
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Bot } from "lucide-react";
+import { useApiClient } from "../lib/client";
+import { UserRole } from "../lib/rbac";
+import { ROLE_LABELS, TENANT_ROLE_OPTIONS } from "../routes/utils/userPermissions";
+import { Spinner } from "./Spinner";
+import { ErrorState } from "./ErrorState";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Badge } from "./ui/badge";
+import { FormField } from "./ui/form-field";
+import { EmptyState } from "./ui/empty-state";
+import { ApiTokenForm, NewTokenSecret, describeTokenStatus, formatTokenDate } from "./ApiTokenForm";
+import type { CreateApiTokenRequest, ServiceAccountRecord } from "../types";
+
+type ServiceAccountsPanelProps = {
+  tenant: string;
+};
+
+/**
+ * Tenant-owned service accounts and their tokens (Tenant-Admin only).
+ */
+export function ServiceAccountsPanel({ tenant }: ServiceAccountsPanelProps): JSX.Element {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+  const queryKey = ["tenant-service-accounts", tenant];
+
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<UserRole>(UserRole.VIEWER);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [issuingFor, setIssuingFor] = useState<string | null>(null);
+  const [tokenError, setTokenError] = useState<string | null>(null);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+
+  const accountsQuery = useQuery({
+    queryKey,
+    queryFn: () => api.listServiceAccounts(tenant),
+    enabled: !!tenant
+  });
+
+  const invalidate = () => void queryClient.invalidateQueries({ queryKey });
+
+  const createAccountMutation = useMutation({
+    mutationFn: () => api.createServiceAccount(tenant, { name: name.trim(), role }),
+    onSuccess: () => {
+      setName("");
+      setRole(UserRole.VIEWER);
+      setCreateError(null);
+      invalidate();
+    },
+    onError: (error: unknown) => {
+      setCreateError(error instanceof Error ? error.message : "Failed to create service account");
+    }
+  });
+
+  const disableAccountMutation = useMutation({
+    mutationFn: (id: string) => api.disableServiceAccount(tenant, id),
+    onSuccess: invalidate
+  });
+
+  const createTokenMutation = useMutation({
+    mutationFn: (payload: { id: string; body: CreateApiTokenRequest }) =>
+      api.createServiceAccountToken(tenant, payload.id, payload.body),
+    onSuccess: (result) => {
+      setTokenError(null);
+      setIssuingFor(null);
+      setNewSecret(result.secret);
+      invalidate();
+    },
+    onError: (error: unknown) => {
+      setTokenError(error instanceof Error ? error.message : "Failed to create token");
+    }
+  });
+
+  const revokeTokenMutation = useMutation({
+    mutationFn: (payload: { id: string; tokenId: string }) =>
+      api.revokeServiceAccountToken(tenant, payload.id, payload.tokenId),
+    onSuccess: invalidate
+  });
+
+  const handleCreateAccount = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!name.trim()) {
+      setCreateError("Name is required");
+      return;
+    }
+    createAccountMutation.mutate();
+  };
+
+  const handleDisable = (account: ServiceAccountRecord) => {
+    if (!window.confirm(`Disable ${account.name}? All of its tokens will be revoked.`)) return;
+    disableAccountMutation.mutate(account.id);
+  };
+
+  const accounts = accountsQuery.data?.serviceAccounts ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Bot className="h-5 w-5" />
+          <CardTitle>Service Accounts in {tenant}</CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form className="grid grid-cols-1 md:grid-cols-[1fr_200px_auto] gap-4 items-end" onSubmit={handleCreateAccount}>
+          <FormField label="Name" htmlFor="sa-name" required error={createError || undefined}>
+            <Input id="sa-name" value={name} onChange={event => setName(event.target.value)} placeholder="ci-pipeline" />
+          </FormField>
+          <FormField label="Role" htmlFor="sa-role">
+            <select
+              id="sa-role"
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              value={role}
+              onChange={event => setRole(event.target.value as UserRole)}
+            >
+              {TENANT_ROLE_OPTIONS.map(option => (
+                <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+              ))}
+            </select>
+          </FormField>
+          <Button type="submit" disabled={createAccountMutation.isPending}>
+            {createAccountMutation.isPending ? "Creating..." : "Add Service Account"}
+          </Button>
+        </form>
+
+        {newSecret && <NewTokenSecret secret={newSecret} onDismiss={() => setNewSecret(null)} />}
+
+        {accountsQuery.isLoading ? (
+          <div className="flex justify-center py-8">
+            <Spinner />
+          </div>
+        ) : accountsQuery.isError ? (
+          <ErrorState message={(accountsQuery.error as Error).message} />
+        ) : accounts.length === 0 ? (
+          <EmptyState
+            icon={Bot}
+            title="No service accounts"
+            description="Service accounts let CI pipelines and integrations call the API without a user login."
+          />
+        ) : (
+          <div className="space-y-4">
+            {accounts.map(account => (
+              <div key={account.id} className="rounded-md border p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{account.name}</span>
+                    <Badge variant="secondary">{ROLE_LABELS[account.role]}</Badge>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => setIssuingFor(issuingFor === account.id ? null : account.id)}
+                    >
+                      New Token
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => handleDisable(account)}
+                      disabled={disableAccountMutation.isPending}
+                    >
+                      Disable
+                    </Button>
+                  </div>
+                </div>
+
+                {issuingFor === account.id && (
+                  <ApiTokenForm
+                    submitting={createTokenMutation.isPending}
+                    error={tokenError}
+                    projectHint={tenant}
+                    onSubmit={body => createTokenMutation.mutate({ id: account.id, body })}
+                  />
+                )}
+
+                {account.tokens.length > 0 && (
+                  <ul className="space-y-1 text-sm">
+                    {account.tokens.map(token => {
+                      const status = describeTokenStatus(token);
+                      return (
+                        <li key={token.id} className="flex items-center justify-between gap-2">
+                          <span>
+                            <code className="text-xs">{token.tokenPrefix}…</code> {token.name}
+                            {" · "}{token.scopes.join(", ")}
+                            {token.projects ? ` · ${token.projects.join(", ")}` : ""}
+                            {" · last used "}{formatTokenDate(token.lastUsedAt)}
+                          </span>
+                          {status === "Active" ? (
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => revokeTokenMutation.mutate({ id: account.id, tokenId: token.id })}
+                              disabled={revokeTokenMutation.isPending}
+                            >
+                              Revoke
+                            </Button>
+                          ) : (
+                            <Badge variant="outline">{status}</Badge>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle } from "lucide-react";
+import { useApiClient } from "../../lib/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Spinner } from "../Spinner";
+import { ErrorState } from "../ErrorState";
+import { CommentsModal } from "../comments/CommentsModal";
+import type { TraceLink } from "../../types";
+
+type SuspectLinksPanelProps = {
+  tenant: string;
+  project: string;
+};
+
+function describeChangedEnds(link: TraceLink): string {
+  const refs = link.suspectEnds.map(end =>
+    end === "source" ? link.sourceRequirement?.ref ?? "source" : link.targetRequirement?.ref ?? "target"
+  );
+  return refs.length > 0 ? `${refs.join(" and ")} changed` : "A linked requirement changed";
+}
+
+/**
+ * Queue of trace links whose requirements changed since the link was last reviewed.
+ */
+export function SuspectLinksPanel({ tenant, project }: SuspectLinksPanelProps): JSX.Element | null {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+  const queryKey = ["suspect-links", tenant, project];
+  const [discussedLink, setDiscussedLink] = useState<TraceLink | null>(null);
+
+  const suspectQuery = useQuery({
+    queryKey,
+    queryFn: () => api.listSuspectLinks(tenant, project),
+    enabled: Boolean(tenant && project)
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: (linkId: string) => api.clearLinkSuspicion(tenant, project, linkId),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey });
+      void queryClient.invalidateQueries({ queryKey: ["linksets", tenant, project] });
+    }
+  });
+
+  if (suspectQuery.isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Spinner />
+      </div>
+    );
+  }
+
+  if (suspectQuery.isError) {
+    return <ErrorState message={(suspectQuery.error as Error).message} />;
+  }
+
+  const links = suspectQuery.data?.traceLinks ?? [];
+  if (links.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-amber-500" />
+          <CardTitle>Suspect Links ({links.length})</CardTitle>
+        </div>
+        <CardDescription>
+          These links were created against older requirement text. Review each one and clear it if the link still holds.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2">
+          {links.map(link => (
+            <li key={link.id} className="flex items-center justify-between gap-4 rounded-md border p-3 text-sm">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{link.sourceRequirement?.ref ?? link.sourceRequirementId}</span>
+                  <Badge variant="secondary">{link.linkType}</Badge>
+                  <span className="font-medium">{link.targetRequirement?.ref ?? link.targetRequirementId}</span>
+                </div>
+                <p className="text-muted-foreground">
+                  {describeChangedEnds(link)}
+                  {link.suspectSince ? ` · since ${new Date(link.suspectSince).toLocaleString()}` : ""}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button type="button" size="sm" variant="ghost" onClick={() => setDiscussedLink(link)}>
+                  Discuss
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => clearMutation.mutate(link.id)}
+                  disabled={clearMutation.isPending}
+                >
+                  Mark Reviewed
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+        {discussedLink && (
+          <CommentsModal
+            isOpen={true}
+            onClose={() => setDiscussedLink(null)}
+            tenant={tenant}
+            project={project}
+            targetType="trace-link"
+            targetId={discussedLink.id}
+            targetLabel={`${discussedLink.sourceRequirement?.ref ?? discussedLink.sourceRequirementId} ${discussedLink.linkType} ${discussedLink.targetRequirement?.ref ?? discussedLink.targetRequirementId}`}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
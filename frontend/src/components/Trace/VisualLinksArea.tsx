@@ -182,6 +182,7 @@ export function VisualLinksArea({ traceLinks, leftDocument, rightDocument, colla
                   ${offsetRightPoints.x},${offsetRightPoints.y}`}
                 stroke={color}
                 strokeWidth={2}
+                strokeDasharray={link.suspect ? "6 4" : undefined}
                 fill="none"
                 markerEnd="url(#arrowhead)"
               />
@@ -193,7 +194,7 @@ export function VisualLinksArea({ traceLinks, leftDocument, rightDocument, colla
                 textAnchor="middle"
                 className="trace-link-label"
               >
-                {link.linkType}
+                {link.suspect ? `${link.linkType} (suspect)` : link.linkType}
               </text>
 
               <rect
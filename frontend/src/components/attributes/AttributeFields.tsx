@@ -0,0 +1,205 @@
+import { useQuery } from "@tanstack/react-query";
+import { useApiClient } from "../../lib/client";
+import { FormField, TextInput, Select } from "../Modal";
+import type {
+  AttributeFieldDefinition,
+  MentionableUser,
+  RequirementAttributes,
+  RequirementAttributeValue
+} from "../../types";
+
+const NO_FIELDS: AttributeFieldDefinition[] = [];
+
+/**
+ * The project's attribute schema; an empty field list when none is defined.
+ */
+export function useAttributeSchema(tenant: string, project: string): {
+  fields: AttributeFieldDefinition[];
+  isLoading: boolean;
+} {
+  const api = useApiClient();
+  const schemaQuery = useQuery({
+    queryKey: ["attribute-schema", tenant, project],
+    queryFn: () => api.getAttributeSchema(tenant, project),
+    enabled: Boolean(tenant && project),
+    staleTime: 5 * 60 * 1000
+  });
+  return { fields: schemaQuery.data?.schema?.fields ?? NO_FIELDS, isLoading: schemaQuery.isLoading };
+}
+
+function isBlank(value: RequirementAttributeValue | undefined): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Find the stored value for a field, tolerating keys written before the
+ * schema existed (e.g. "priority" for "Priority").
+ */
+export function attributeValue(
+  attributes: RequirementAttributes | undefined,
+  field: AttributeFieldDefinition
+): RequirementAttributeValue | undefined {
+  if (!attributes) return undefined;
+  if (field.key in attributes) return attributes[field.key];
+  const normalized = field.key.toLowerCase().replace(/[\s_-]+/g, "");
+  const key = Object.keys(attributes).find(candidate => candidate.toLowerCase().replace(/[\s_-]+/g, "") === normalized);
+  return key === undefined ? undefined : attributes[key];
+}
+
+/**
+ * Labels of required fields that have no value.
+ */
+export function missingRequiredAttributes(
+  fields: AttributeFieldDefinition[],
+  values: RequirementAttributes
+): string[] {
+  return fields.filter(field => field.required && isBlank(values[field.key])).map(field => field.label);
+}
+
+/**
+ * Format an attribute value for display and export.
+ */
+export function formatAttributeValue(
+  value: RequirementAttributeValue | undefined,
+  users: MentionableUser[] = [],
+  field?: AttributeFieldDefinition
+): string {
+  if (isBlank(value)) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  if (field?.type === "user") {
+    const user = users.find(candidate => candidate.id === value);
+    return user ? user.name || user.email : String(value);
+  }
+  return String(value);
+}
+
+type AttributeFieldsProps = {
+  fields: AttributeFieldDefinition[];
+  users: MentionableUser[];
+  values: RequirementAttributes;
+  onChange: (key: string, value: RequirementAttributeValue) => void;
+};
+
+/**
+ * Form controls for the attributes defined in a project's attribute schema.
+ */
+export function AttributeFields({ fields, users, values, onChange }: AttributeFieldsProps): JSX.Element {
+  return (
+    <div className="form-row" style={{ flexWrap: "wrap" }}>
+      {fields.map(field => {
+        const value = values[field.key];
+        const help = field.description;
+
+        switch (field.type) {
+          case "enum":
+            return (
+              <Select
+                key={field.key}
+                label={field.label}
+                required={field.required}
+                help={help}
+                value={typeof value === "string" ? value : ""}
+                onChange={e => onChange(field.key, e.target.value || null)}
+                options={[
+                  { value: "", label: field.required ? "Select…" : "— None —" },
+                  ...(field.options ?? []).map(option => ({ value: option, label: option }))
+                ]}
+              />
+            );
+          case "user":
+            return (
+              <Select
+                key={field.key}
+                label={field.label}
+                required={field.required}
+                help={help}
+                value={typeof value === "string" ? value : ""}
+                onChange={e => onChange(field.key, e.target.value || null)}
+                options={[
+                  { value: "", label: field.required ? "Select user…" : "— None —" },
+                  ...users.map(user => ({ value: user.id, label: user.name ? `${user.name} (${user.email})` : user.email }))
+                ]}
+              />
+            );
+          case "boolean":
+            return (
+              <Select
+                key={field.key}
+                label={field.label}
+                required={field.required}
+                help={help}
+                value={typeof value === "boolean" ? String(value) : ""}
+                onChange={e => onChange(field.key, e.target.value === "" ? null : e.target.value === "true")}
+                options={[
+                  { value: "", label: "— Not set —" },
+                  { value: "true", label: "Yes" },
+                  { value: "false", label: "No" }
+                ]}
+              />
+            );
+          case "number":
+            return (
+              <TextInput
+                key={field.key}
+                label={field.label}
+                required={field.required}
+                help={help ?? (field.min !== undefined || field.max !== undefined
+                  ? `Between ${field.min ?? "−∞"} and ${field.max ?? "∞"}`
+                  : undefined)}
+                type="number"
+                min={field.min}
+                max={field.max}
+                value={typeof value === "number" ? value : ""}
+                onChange={e => onChange(field.key, e.target.value === "" ? null : Number(e.target.value))}
+              />
+            );
+          case "date":
+            return (
+              <TextInput
+                key={field.key}
+                label={field.label}
+                required={field.required}
+                help={help}
+                type="date"
+                value={typeof value === "string" ? value.slice(0, 10) : ""}
+                onChange={e => onChange(field.key, e.target.value || null)}
+              />
+            );
+          case "multi-select": {
+            const selected = Array.isArray(value) ? value : [];
+            return (
+              <FormField key={field.key} label={field.label} required={field.required} help={help}>
+                <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem" }}>
+                  {(field.options ?? []).map(option => (
+                    <label key={option} style={{ display: "flex", alignItems: "center", gap: "0.25rem", fontSize: "0.875rem" }}>
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(option)}
+                        onChange={e => onChange(
+                          field.key,
+                          e.target.checked ? [...selected, option] : selected.filter(item => item !== option)
+                        )}
+                      />
+                      {option}
+                    </label>
+                  ))}
+                </div>
+              </FormField>
+            );
+          }
+          default:
+            return (
+              <TextInput
+                key={field.key}
+                label={field.label}
+                required={field.required}
+                help={help}
+                value={typeof value === "string" ? value : value == null ? "" : String(value)}
+                onChange={e => onChange(field.key, e.target.value)}
+              />
+            );
+        }
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { useQuery } from "@tanstack/react-query";
+import { useApiClient } from "../../lib/client";
+import type { CommentCounts, CommentTargetType } from "../../types";
+
+/**
+ * Comment counts for one kind of target in a document, shared by the table and floating windows.
+ */
+export function useCommentCounts(
+  tenant: string,
+  project: string,
+  targetType: CommentTargetType,
+  documentSlug: string
+): CommentCounts {
+  const api = useApiClient();
+  const countsQuery = useQuery({
+    queryKey: ["comment-counts", tenant, project, targetType, documentSlug],
+    queryFn: () => api.getCommentCounts(tenant, project, targetType, documentSlug),
+    enabled: Boolean(tenant && project && documentSlug)
+  });
+  return countsQuery.data?.counts ?? {};
+}
+
+type CommentCountButtonProps = {
+  count?: { total: number; open: number };
+  onClick: () => void;
+};
+
+/**
+ * 💬 button showing how many comments a target has; highlighted while threads are open.
+ */
+export function CommentCountButton({ count, onClick }: CommentCountButtonProps): JSX.Element {
+  const total = count?.total ?? 0;
+  const open = count?.open ?? 0;
+
+  return (
+    <button
+      type="button"
+      onClick={e => {
+        e.stopPropagation();
+        onClick();
+      }}
+      style={{
+        background: open > 0 ? "#fef3c7" : "none",
+        border: `1px solid ${open > 0 ? "#f59e0b" : "#d1d5db"}`,
+        borderRadius: "4px",
+        padding: "4px 8px",
+        cursor: "pointer",
+        fontSize: "11px",
+        color: open > 0 ? "#92400e" : "#6b7280",
+        whiteSpace: "nowrap"
+      }}
+      title={total > 0 ? `${total} comment${total !== 1 ? "s" : ""}, ${open} open thread${open !== 1 ? "s" : ""}` : "Comments"}
+    >
+      💬{total > 0 ? ` ${total}` : ""}
+    </button>
+  );
+}
@@ -0,0 +1,255 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle2, MessageSquare, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useApiClient } from "../../lib/client";
+import { useAuth } from "../../contexts/AuthContext";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Textarea } from "../ui/textarea";
+import { Spinner } from "../Spinner";
+import { ErrorState } from "../ErrorState";
+import type { CommentRecord, CommentTargetType, CommentThread, MentionableUser } from "../../types";
+
+type CommentThreadsPanelProps = {
+  tenant: string;
+  project: string;
+  targetType: CommentTargetType;
+  targetId: string;
+};
+
+type CommentComposerProps = {
+  users: MentionableUser[];
+  placeholder: string;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (body: string) => void;
+  onCancel?: () => void;
+};
+
+/**
+ * Textarea with a picker that inserts @email mentions.
+ */
+function CommentComposer({
+  users,
+  placeholder,
+  submitLabel,
+  isPending,
+  onSubmit,
+  onCancel
+}: CommentComposerProps): JSX.Element {
+  const [body, setBody] = useState("");
+
+  const handleSubmit = () => {
+    if (!body.trim()) return;
+    onSubmit(body.trim());
+    setBody("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={e => setBody(e.target.value)}
+        placeholder={placeholder}
+        onKeyDown={e => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handleSubmit();
+          }
+        }}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <select
+          className="h-9 rounded-md border border-input bg-background px-2 text-xs"
+          value=""
+          onChange={e => {
+            if (e.target.value) {
+              setBody(current => `${current}${current && !current.endsWith(" ") ? " " : ""}@${e.target.value} `);
+            }
+          }}
+          disabled={users.length === 0}
+        >
+          <option value="">@ Mention…</option>
+          {users.map(user => (
+            <option key={user.id} value={user.email}>
+              {user.name ? `${user.name} (${user.email})` : user.email}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="button" size="sm" onClick={handleSubmit} disabled={isPending || !body.trim()}>
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Threaded discussion on a requirement, section or trace link.
+ */
+export function CommentThreadsPanel({ tenant, project, targetType, targetId }: CommentThreadsPanelProps): JSX.Element {
+  const api = useApiClient();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const queryKey = ["comments", tenant, project, targetType, targetId];
+
+  const threadsQuery = useQuery({
+    queryKey,
+    queryFn: () => api.listComments(tenant, project, { targetType, targetId }),
+    enabled: Boolean(tenant && project && targetId)
+  });
+
+  const usersQuery = useQuery({
+    queryKey: ["mentionable-users", tenant, project],
+    queryFn: () => api.listMentionableUsers(tenant, project),
+    enabled: Boolean(tenant && project),
+    staleTime: 5 * 60 * 1000
+  });
+
+  const users = usersQuery.data?.users ?? [];
+  const usersById = useMemo(() => new Map(users.map(u => [u.id, u])), [users]);
+
+  const invalidate = () => {
+    void queryClient.invalidateQueries({ queryKey });
+    void queryClient.invalidateQueries({ queryKey: ["comment-counts", tenant, project] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (input: { body: string; parentId?: string }) =>
+      api.createComment(tenant, project, { targetType, targetId, ...input }),
+    onSuccess: () => {
+      setReplyingTo(null);
+      invalidate();
+    },
+    onError: (error: Error) => toast.error(error.message)
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: (input: { commentId: string; resolved: boolean }) =>
+      api.setCommentThreadResolved(tenant, project, input.commentId, input.resolved),
+    onSuccess: invalidate,
+    onError: (error: Error) => toast.error(error.message)
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (commentId: string) => api.deleteComment(tenant, project, commentId),
+    onSuccess: invalidate,
+    onError: (error: Error) => toast.error(error.message)
+  });
+
+  const authorName = (authorId: string) => {
+    if (authorId === user?.id) return "You";
+    const author = usersById.get(authorId);
+    return author?.name || author?.email || "Unknown user";
+  };
+
+  const renderComment = (comment: CommentRecord) => (
+    <div key={comment.id} className="space-y-1">
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          <span className="font-medium text-foreground">{authorName(comment.authorId)}</span>
+          {" · "}
+          {new Date(comment.createdAt).toLocaleString()}
+          {comment.editedAt && !comment.deletedAt ? " (edited)" : ""}
+        </span>
+        {comment.authorId === user?.id && !comment.deletedAt && (
+          <button
+            type="button"
+            className="text-muted-foreground hover:text-red-600"
+            onClick={() => deleteMutation.mutate(comment.id)}
+            title="Delete comment"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+      {comment.deletedAt ? (
+        <p className="text-sm italic text-muted-foreground">Comment deleted</p>
+      ) : (
+        <p className="whitespace-pre-wrap text-sm">{comment.body}</p>
+      )}
+    </div>
+  );
+
+  const renderThread = (thread: CommentThread) => (
+    <li key={thread.id} className={`space-y-3 rounded-md border p-3 ${thread.resolved ? "opacity-70" : ""}`}>
+      {renderComment(thread)}
+      {thread.replies.length > 0 && (
+        <div className="ml-4 space-y-3 border-l pl-3">
+          {thread.replies.map(renderComment)}
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        {thread.resolved && (
+          <Badge variant="success">
+            Resolved{thread.resolvedBy ? ` by ${authorName(thread.resolvedBy)}` : ""}
+          </Badge>
+        )}
+        <div className="ml-auto flex gap-1">
+          <Button type="button" size="sm" variant="ghost" onClick={() => setReplyingTo(thread.id)}>
+            <MessageSquare /> Reply
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() => resolveMutation.mutate({ commentId: thread.id, resolved: !thread.resolved })}
+            disabled={resolveMutation.isPending}
+          >
+            {thread.resolved ? <><RotateCcw /> Reopen</> : <><CheckCircle2 /> Resolve</>}
+          </Button>
+        </div>
+      </div>
+      {replyingTo === thread.id && (
+        <CommentComposer
+          users={users}
+          placeholder="Reply… (Ctrl+Enter to send)"
+          submitLabel="Reply"
+          isPending={createMutation.isPending}
+          onSubmit={body => createMutation.mutate({ body, parentId: thread.id })}
+          onCancel={() => setReplyingTo(null)}
+        />
+      )}
+    </li>
+  );
+
+  if (threadsQuery.isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Spinner />
+      </div>
+    );
+  }
+
+  if (threadsQuery.isError) {
+    return <ErrorState message={(threadsQuery.error as Error).message} />;
+  }
+
+  const threads = threadsQuery.data?.threads ?? [];
+
+  return (
+    <div className="space-y-4">
+      {threads.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments yet. Start the discussion below.</p>
+      ) : (
+        <ul className="space-y-3">{threads.map(renderThread)}</ul>
+      )}
+      <CommentComposer
+        users={users}
+        placeholder="Add a comment… Mention someone with @email (Ctrl+Enter to send)"
+        submitLabel="Comment"
+        isPending={createMutation.isPending}
+        onSubmit={body => createMutation.mutate({ body })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { Modal } from "../Modal";
+import { CommentThreadsPanel } from "./CommentThreadsPanel";
+import type { CommentTargetType } from "../../types";
+
+type CommentsModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  tenant: string;
+  project: string;
+  targetType: CommentTargetType;
+  targetId: string;
+  /** Shown in the title, e.g. the requirement ref */
+  targetLabel: string;
+};
+
+export function CommentsModal({
+  isOpen,
+  onClose,
+  tenant,
+  project,
+  targetType,
+  targetId,
+  targetLabel
+}: CommentsModalProps): JSX.Element {
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Comments – ${targetLabel}`} size="large">
+      <CommentThreadsPanel tenant={tenant} project={project} targetType={targetType} targetId={targetId} />
+    </Modal>
+  );
+}
@@ -0,0 +1,391 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Camera } from "lucide-react";
+import { useApiClient } from "../../lib/client";
+import { Button } from "../ui/button";
+import { Spinner } from "../Spinner";
+import { ErrorState } from "../ErrorState";
+import { MetricsSection } from "./MetricsSection";
+import { StatCard } from "./StatCard";
+import type { BurnUp, BurnUpMeasure, MetricSnapshotRecord } from "../../types";
+
+interface MetricTrendsPanelProps {
+  tenant: string;
+  project: string;
+}
+
+type Series = {
+  label: string;
+  color: string;
+  values: Array<number | null>;
+};
+
+const RANGES = [
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+  { days: 365, label: "Last year" }
+];
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 160;
+const PADDING = { top: 10, right: 10, bottom: 22, left: 36 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function dayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+function niceMax(value: number): number {
+  if (value <= 0) { return 1; }
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  return Math.ceil(value / magnitude) * magnitude;
+}
+
+/**
+ * Plot area helpers shared by the trend and burn-up charts
+ */
+function scales(xMin: number, xMax: number, yMax: number) {
+  const width = CHART_WIDTH - PADDING.left - PADDING.right;
+  const height = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  return {
+    x: (value: number) => PADDING.left + (xMax === xMin ? width / 2 : ((value - xMin) / (xMax - xMin)) * width),
+    y: (value: number) => PADDING.top + height - (value / yMax) * height
+  };
+}
+
+function Axes({ yMax, unit, firstLabel, lastLabel }: { yMax: number; unit: string; firstLabel: string; lastLabel: string }) {
+  const bottom = CHART_HEIGHT - PADDING.bottom;
+  return (
+    <g fontSize="10" fill="#6b7280">
+      <line x1={PADDING.left} y1={bottom} x2={CHART_WIDTH - PADDING.right} y2={bottom} stroke="#e5e7eb" />
+      <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={bottom} stroke="#e5e7eb" />
+      <text x={PADDING.left - 4} y={PADDING.top + 8} textAnchor="end">{yMax}{unit}</text>
+      <text x={PADDING.left - 4} y={bottom} textAnchor="end">0</text>
+      <text x={PADDING.left} y={CHART_HEIGHT - 6}>{firstLabel}</text>
+      <text x={CHART_WIDTH - PADDING.right} y={CHART_HEIGHT - 6} textAnchor="end">{lastLabel}</text>
+    </g>
+  );
+}
+
+function Legend({ items }: { items: Array<{ label: string; color: string; dashed?: boolean }> }) {
+  return (
+    <div style={{ display: 'flex', gap: '1rem', fontSize: '0.75rem', color: '#4b5563', flexWrap: 'wrap' }}>
+      {items.map(item => (
+        <span key={item.label} style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem' }}>
+          <span style={{ width: 14, borderTop: `2px ${item.dashed ? 'dashed' : 'solid'} ${item.color}` }} />
+          {item.label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Line chart of one or more series over the snapshot dates
+ */
+function TrendChart({ title, dates, series, unit = "", fixedMax }: {
+  title: string;
+  dates: string[];
+  series: Series[];
+  unit?: string;
+  fixedMax?: number;
+}) {
+  const days = dates.map(dayNumber);
+  const observed = series.flatMap(item => item.values.filter((value): value is number => value !== null));
+  const yMax = fixedMax ?? niceMax(Math.max(0, ...observed));
+  const { x, y } = scales(days[0], days[days.length - 1], yMax);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+      <div style={{ fontSize: '0.85rem', fontWeight: 600 }}>{title}</div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} style={{ width: '100%', height: 'auto' }} role="img" aria-label={title}>
+        <Axes yMax={yMax} unit={unit} firstLabel={dates[0]} lastLabel={dates[dates.length - 1]} />
+        {series.map(item => {
+          const points = item.values
+            .map((value, i) => (value === null ? null : `${x(days[i])},${y(value)}`))
+            .filter((point): point is string => point !== null);
+          return (
+            <g key={item.label}>
+              <polyline points={points.join(" ")} fill="none" stroke={item.color} strokeWidth={2} />
+              {points.length === 1 && (
+                <circle cx={points[0].split(",")[0]} cy={points[0].split(",")[1]} r={3} fill={item.color} />
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <Legend items={series} />
+    </div>
+  );
+}
+
+/**
+ * Scope and progress with the ideal line to the target date and the
+ * projection at the current rate
+ */
+function BurnUpChart({ burnUp, measureLabel }: { burnUp: BurnUp; measureLabel: string }) {
+  const { points, ideal, targetDate, projectedCompletion } = burnUp;
+  const last = points[points.length - 1];
+  const endDates = [last.date, targetDate, projectedCompletion].filter((date): date is string => Boolean(date));
+  const xMin = Math.min(...[points[0].date, ...endDates].map(dayNumber));
+  const xMax = Math.max(...endDates.map(dayNumber));
+  const yMax = niceMax(Math.max(...points.map(point => point.scope)));
+  const { x, y } = scales(xMin, xMax, yMax);
+  const line = (values: Array<{ date: string; value: number }>) =>
+    values.map(value => `${x(dayNumber(value.date))},${y(value.value)}`).join(" ");
+  const firstLabel = endDates.reduce((earliest, date) => (date < earliest ? date : earliest), points[0].date);
+  const lastLabel = endDates.reduce((latest, date) => (date > latest ? date : latest), last.date);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} style={{ width: '100%', height: 'auto' }} role="img" aria-label="Burn-up chart">
+        <Axes yMax={yMax} unit="" firstLabel={firstLabel} lastLabel={lastLabel} />
+        <polyline
+          points={line(points.map(point => ({ date: point.date, value: point.scope })))}
+          fill="none"
+          stroke="#6b7280"
+          strokeWidth={2}
+        />
+        <polyline
+          points={line(points.map(point => ({ date: point.date, value: point.done })))}
+          fill="none"
+          stroke="#059669"
+          strokeWidth={2}
+        />
+        {ideal.length > 0 && (
+          <polyline points={line(ideal)} fill="none" stroke="#3b82f6" strokeWidth={1.5} strokeDasharray="6 4" />
+        )}
+        {projectedCompletion && projectedCompletion > last.date && (
+          <polyline
+            points={line([{ date: last.date, value: last.done }, { date: projectedCompletion, value: last.scope }])}
+            fill="none"
+            stroke="#059669"
+            strokeWidth={1.5}
+            strokeDasharray="2 3"
+          />
+        )}
+        {targetDate && (
+          <line
+            x1={x(dayNumber(targetDate))}
+            y1={PADDING.top}
+            x2={x(dayNumber(targetDate))}
+            y2={CHART_HEIGHT - PADDING.bottom}
+            stroke="#ef4444"
+            strokeDasharray="3 3"
+          />
+        )}
+      </svg>
+      <Legend
+        items={[
+          { label: "Requirements", color: "#6b7280" },
+          { label: measureLabel, color: "#059669" },
+          { label: "Ideal", color: "#3b82f6", dashed: true },
+          { label: "Projected", color: "#059669", dashed: true },
+          { label: "Target", color: "#ef4444", dashed: true }
+        ]}
+      />
+    </div>
+  );
+}
+
+function trendSeries(snapshots: MetricSnapshotRecord[]) {
+  const pick = (read: (snapshot: MetricSnapshotRecord) => number | null) => snapshots.map(read);
+  return {
+    counts: [
+      { label: "Requirements", color: "#6b7280", values: pick(s => s.metrics.requirements) },
+      { label: "Traced", color: "#3b82f6", values: pick(s => s.metrics.traced) },
+      { label: "Verified", color: "#059669", values: pick(s => s.metrics.verification.verified) }
+    ],
+    coverage: [
+      { label: "Trace coverage", color: "#3b82f6", values: pick(s => s.metrics.traceCoveragePercent) },
+      { label: "Verification coverage", color: "#059669", values: pick(s => s.metrics.verification.coveragePercent) }
+    ],
+    quality: [
+      { label: "Average QA score", color: "#8b5cf6", values: pick(s => s.metrics.qa.average) }
+    ],
+    issues: [
+      { label: "Suspect links", color: "#f59e0b", values: pick(s => s.metrics.suspectLinks) },
+      { label: "Verification errors", color: "#ef4444", values: pick(s => s.metrics.verification.errorFindings) }
+    ]
+  };
+}
+
+/**
+ * Coverage and traceability trends from the project's daily metric
+ * snapshots, a burn-up towards a target date and the current per-document
+ * breakdown
+ */
+export function MetricTrendsPanel({ tenant, project }: MetricTrendsPanelProps) {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+  const [rangeDays, setRangeDays] = useState(90);
+  const [measure, setMeasure] = useState<BurnUpMeasure>("verified");
+  const [targetDate, setTargetDate] = useState("");
+  const from = useMemo(() => daysAgo(rangeDays), [rangeDays]);
+
+  const snapshotsQuery = useQuery({
+    queryKey: ["metric-snapshots", tenant, project, from],
+    queryFn: () => api.listMetricSnapshots(tenant, project, { from })
+  });
+
+  const burnUpQuery = useQuery({
+    queryKey: ["metric-burnup", tenant, project, from, measure, targetDate],
+    queryFn: () => api.getBurnUp(tenant, project, { from, measure, targetDate: targetDate || undefined })
+  });
+
+  const currentQuery = useQuery({
+    queryKey: ["project-metrics-current", tenant, project],
+    queryFn: () => api.getCurrentProjectMetrics(tenant, project)
+  });
+
+  const recordMutation = useMutation({
+    mutationFn: () => api.recordMetricSnapshot(tenant, project),
+    onSuccess: ({ snapshot }) => {
+      toast.success(`Recorded metric snapshot for ${snapshot.date}`);
+      queryClient.invalidateQueries({ queryKey: ["metric-snapshots", tenant, project] });
+      queryClient.invalidateQueries({ queryKey: ["metric-burnup", tenant, project] });
+      queryClient.invalidateQueries({ queryKey: ["project-metrics-current", tenant, project] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    }
+  });
+
+  const snapshots = snapshotsQuery.data?.snapshots ?? [];
+  const series = useMemo(() => trendSeries(snapshotsQuery.data?.snapshots ?? []), [snapshotsQuery.data]);
+  const dates = snapshots.map(snapshot => snapshot.date);
+  const burnUp = burnUpQuery.data?.burnUp;
+  const current = currentQuery.data?.metrics;
+  const measureLabel = measure === "verified" ? "Verified" : "Traced";
+
+  return (
+    <div style={{ padding: '1.5rem', display: 'flex', flexDirection: 'column', gap: '2rem' }}>
+      <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', flexWrap: 'wrap' }}>
+        <select
+          value={rangeDays}
+          onChange={event => setRangeDays(Number(event.target.value))}
+          aria-label="Trend range"
+        >
+          {RANGES.map(range => (
+            <option key={range.days} value={range.days}>{range.label}</option>
+          ))}
+        </select>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => recordMutation.mutate()}
+          disabled={recordMutation.isPending}
+        >
+          <Camera className="h-4 w-4" />
+          {recordMutation.isPending ? "Recording..." : "Record snapshot"}
+        </Button>
+        <span className="hint">Snapshots are recorded automatically once a day.</span>
+      </div>
+
+      <MetricsSection title="Trends">
+        {snapshotsQuery.isLoading ? (
+          <Spinner />
+        ) : snapshotsQuery.isError ? (
+          <ErrorState message={snapshotsQuery.error.message} />
+        ) : snapshots.length === 0 ? (
+          <p className="hint">No snapshots in this range yet.</p>
+        ) : (
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(320px, 1fr))', gap: '1.5rem' }}>
+            <TrendChart title="Requirements" dates={dates} series={series.counts} />
+            <TrendChart title="Coverage" dates={dates} series={series.coverage} unit="%" fixedMax={100} />
+            <TrendChart title="Quality" dates={dates} series={series.quality} fixedMax={100} />
+            <TrendChart title="Open issues" dates={dates} series={series.issues} />
+          </div>
+        )}
+      </MetricsSection>
+
+      <MetricsSection title="Burn-up">
+        <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', marginBottom: '1rem', flexWrap: 'wrap' }}>
+          <select
+            value={measure}
+            onChange={event => setMeasure(event.target.value as BurnUpMeasure)}
+            aria-label="Burn-up measure"
+          >
+            <option value="verified">Verified requirements</option>
+            <option value="traced">Traced requirements</option>
+          </select>
+          <label style={{ display: 'inline-flex', gap: '0.5rem', alignItems: 'center', fontSize: '0.875rem' }}>
+            Target date
+            <input type="date" value={targetDate} onChange={event => setTargetDate(event.target.value)} />
+          </label>
+        </div>
+        {burnUpQuery.isLoading ? (
+          <Spinner />
+        ) : burnUpQuery.isError ? (
+          <ErrorState message={burnUpQuery.error.message} />
+        ) : !burnUp || burnUp.points.length === 0 ? (
+          <p className="hint">No snapshots in this range yet.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3" style={{ marginBottom: '1rem' }}>
+              <StatCard label="Rate per Day" value={burnUp.ratePerDay ?? "—"} />
+              <StatCard label="Projected Completion" value={burnUp.projectedCompletion ?? "—"} />
+              <StatCard
+                label="On Track"
+                value={burnUp.onTrack === null ? "—" : burnUp.onTrack ? "Yes" : "No"}
+                color={burnUp.onTrack === null ? undefined : burnUp.onTrack ? '#059669' : '#ef4444'}
+              />
+            </div>
+            <BurnUpChart burnUp={burnUp} measureLabel={measureLabel} />
+          </>
+        )}
+      </MetricsSection>
+
+      <MetricsSection title="By Document">
+        {currentQuery.isLoading ? (
+          <Spinner />
+        ) : currentQuery.isError ? (
+          <ErrorState message={currentQuery.error.message} />
+        ) : !current || current.documents.length === 0 ? (
+          <p className="hint">No documents in this project.</p>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', borderBottom: '1px solid #e5e7eb' }}>
+                <th style={{ padding: '0.5rem' }}>Document</th>
+                <th style={{ padding: '0.5rem' }}>Requirements</th>
+                <th style={{ padding: '0.5rem' }}>Traced</th>
+                <th style={{ padding: '0.5rem' }}>Verified</th>
+                <th style={{ padding: '0.5rem' }}>Avg QA</th>
+              </tr>
+            </thead>
+            <tbody>
+              {current.documents.map(document => (
+                <tr key={document.slug} style={{ borderBottom: '1px solid #f3f4f6' }}>
+                  <td style={{ padding: '0.5rem' }}>{document.name}</td>
+                  <td style={{ padding: '0.5rem' }}>{document.requirements}</td>
+                  <td style={{ padding: '0.5rem' }}>{document.traced}</td>
+                  <td style={{ padding: '0.5rem' }}>{document.verified}</td>
+                  <td style={{ padding: '0.5rem' }}>{document.averageQaScore ?? "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {current && current.linksets.length > 0 && (
+          <div className="grid grid-cols-3" style={{ marginTop: '1rem' }}>
+            {current.linksets.map(linkset => (
+              <StatCard
+                key={linkset.linksetId}
+                label={`${linkset.sourceDocumentSlug} → ${linkset.targetDocumentSlug}`}
+                value={`${linkset.covered} / ${linkset.requirements}`}
+                percentage={linkset.coveragePercent}
+              />
+            ))}
+          </div>
+        )}
+      </MetricsSection>
+    </div>
+  );
+}
@@ -1,17 +1,34 @@
 /**
  * Document Header Component
  *
- * Displays document header with breadcrumb navigation and close button
+ * Displays document header with breadcrumb navigation, who else has the
+ * document open, and close button
  */
 
-import type { DocumentRecord } from "../../types";
+import type { ReactNode } from "react";
+import type { DocumentParticipant, DocumentRecord } from "../../types";
 
 export interface DocumentHeaderProps {
   document: DocumentRecord | undefined;
+  participants?: DocumentParticipant[];
+  currentUserId?: string;
   onClose: () => void;
+  /** Extra controls shown before the participants, e.g. the variant selector */
+  toolbar?: ReactNode;
 }
 
-export function DocumentHeader({ document, onClose }: DocumentHeaderProps): JSX.Element {
+function initials(name: string): string {
+  const parts = name.replace(/@.*$/, "").split(/[\s._-]+/).filter(Boolean);
+  return (parts.length > 1 ? parts[0][0] + parts[1][0] : (parts[0] ?? "?").slice(0, 2)).toUpperCase();
+}
+
+export function DocumentHeader({ document, participants = [], currentUserId, onClose, toolbar }: DocumentHeaderProps): JSX.Element {
+  // One avatar per user, even with the document open in several tabs
+  const others = participants.filter((participant, index) =>
+    participant.userId !== currentUserId &&
+    participants.findIndex(candidate => candidate.userId === participant.userId) === index
+  );
+
   return (
     <div style={{
       borderBottom: "1px solid #e2e8f0",
@@ -68,19 +85,48 @@ export function DocumentHeader({ document, onClose }: DocumentHeaderProps): JSX.
           {document?.description || "No description provided"}
         </p>
       </div>
-      <button
-        onClick={onClose}
-        style={{
-          background: "none",
-          border: "1px solid #e2e8f0",
-          borderRadius: "4px",
-          padding: "8px 12px",
-          cursor: "pointer",
-          fontSize: "16px"
-        }}
-      >
-        ✕ Close
-      </button>
+      <div style={{ display: "flex", alignItems: "center", gap: "16px" }}>
+        {toolbar}
+        {others.length > 0 && (
+          <div style={{ display: "flex", alignItems: "center" }} aria-label="Also viewing this document">
+            {others.map((participant, index) => (
+              <span
+                key={participant.userId}
+                title={`${participant.name} is viewing this document`}
+                style={{
+                  width: "32px",
+                  height: "32px",
+                  borderRadius: "999px",
+                  backgroundColor: "#dbeafe",
+                  color: "#1d4ed8",
+                  border: "2px solid #f8f9fa",
+                  marginLeft: index === 0 ? 0 : "-8px",
+                  display: "inline-flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  fontSize: "12px",
+                  fontWeight: 600
+                }}
+              >
+                {initials(participant.name)}
+              </span>
+            ))}
+          </div>
+        )}
+        <button
+          onClick={onClose}
+          style={{
+            background: "none",
+            border: "1px solid #e2e8f0",
+            borderRadius: "4px",
+            padding: "8px 12px",
+            cursor: "pointer",
+            fontSize: "16px"
+          }}
+        >
+          ✕ Close
+        </button>
+      </div>
     </div>
   );
 }
@@ -13,14 +13,20 @@ import { EditSectionModal } from "../EditSectionModal";
 import { ExportModal } from "../DocumentView/ExportModal";
 import { ImportModalV2 as ImportModal } from "../DocumentView/ImportModalV2";
 import { MarkdownEditorView } from "../MarkdownEditor/MarkdownEditorView";
+import { EditConflictModal } from "./EditConflictModal";
 import type {
   DocumentRecord,
   RequirementRecord,
   DocumentSectionRecord,
   RequirementPattern,
-  VerificationMethod
+  VerificationMethod,
+  RequirementAttributes
 } from "../../types";
-import type { DocumentSectionWithRequirements } from "../../hooks/document-view/useDocumentState";
+import type {
+  DocumentSectionWithRequirements,
+  EditConflict,
+  RequirementEditUpdates
+} from "../../hooks/document-view/useDocumentState";
 
 export interface DocumentModalsProps {
   // Modal visibility
@@ -42,6 +48,8 @@ export interface DocumentModalsProps {
     isOpen: boolean;
     section: DocumentSectionRecord | null;
   };
+  editConflict: EditConflict | null;
+  isSavingRequirement: boolean;
 
   // Data
   document: DocumentRecord | undefined;
@@ -55,10 +63,12 @@ export interface DocumentModalsProps {
   onAddRequirement: (req: { text: string; pattern?: RequirementPattern; verification?: VerificationMethod }) => void;
   onAddInfo: (info: { text: string; title?: string; sectionId: string }) => void;
   onAddSurrogate: (surrogate: { slug: string; caption?: string; sectionId: string }) => void;
-  onUpdateRequirement: (updates: { text?: string; pattern?: RequirementPattern; verification?: VerificationMethod; sectionId?: string }) => void;
+  onUpdateRequirement: (updates: { text?: string; pattern?: RequirementPattern; verification?: VerificationMethod; sectionId?: string; attributes?: RequirementAttributes }) => void;
   onDeleteRequirement: () => void;
   onUpdateSection: (updates: { name?: string; description?: string; shortCode?: string }) => void;
   onImportComplete: () => void;
+  onResolveEditConflict: (updates: RequirementEditUpdates) => void;
+  onDiscardEditConflict: () => void;
 
   // Close handlers
   onCloseAddSection: () => void;
@@ -83,6 +93,8 @@ export function DocumentModals({
   selectedSection,
   editRequirementModal,
   editSectionModal,
+  editConflict,
+  isSavingRequirement,
   document,
   sections,
   tenant,
@@ -96,6 +108,8 @@ export function DocumentModals({
   onDeleteRequirement,
   onUpdateSection,
   onImportComplete,
+  onResolveEditConflict,
+  onDiscardEditConflict,
   onCloseAddSection,
   onCloseAddRequirement,
   onCloseAddInfo,
@@ -153,6 +167,13 @@ export function DocumentModals({
         onDelete={onDeleteRequirement}
       />
 
+      <EditConflictModal
+        conflict={editConflict}
+        isSaving={isSavingRequirement}
+        onResolve={onResolveEditConflict}
+        onDiscard={onDiscardEditConflict}
+      />
+
       <EditSectionModal
         isOpen={editSectionModal.isOpen}
         tenant={tenant}
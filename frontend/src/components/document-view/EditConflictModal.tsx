@@ -0,0 +1,141 @@
+/**
+ * Edit Conflict Modal
+ *
+ * Shown when saving a requirement fails because someone else saved it first.
+ * Lists each field where the two edits disagree and lets the user pick which
+ * value to keep before re-submitting on top of the latest version.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { Modal, Button } from "../Modal";
+import type { EditConflict, RequirementEditUpdates } from "../../hooks/document-view/useDocumentState";
+
+type ConflictField = "text" | "pattern" | "verification" | "attributes";
+
+const FIELD_LABELS: Record<ConflictField, string> = {
+  text: "Text",
+  pattern: "Pattern",
+  verification: "Verification",
+  attributes: "Attributes"
+};
+
+function display(value: unknown): string {
+  if (value === undefined || value === null || value === "") {
+    return "—";
+  }
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export interface EditConflictModalProps {
+  conflict: EditConflict | null;
+  isSaving: boolean;
+  onResolve: (updates: RequirementEditUpdates) => void;
+  onDiscard: () => void;
+}
+
+export function EditConflictModal({ conflict, isSaving, onResolve, onDiscard }: EditConflictModalProps): JSX.Element | null {
+  const [choices, setChoices] = useState<Partial<Record<ConflictField, "mine" | "theirs">>>({});
+
+  const fields = useMemo(() => {
+    if (!conflict) {
+      return [];
+    }
+    return (Object.keys(FIELD_LABELS) as ConflictField[]).filter(field =>
+      conflict.updates[field] !== undefined && !sameValue(conflict.updates[field], conflict.current[field])
+    );
+  }, [conflict]);
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  if (!conflict) {
+    return null;
+  }
+
+  const handleResolve = () => {
+    const updates: RequirementEditUpdates = { ...conflict.updates };
+    for (const field of fields) {
+      if (choices[field] === "theirs") {
+        delete updates[field];
+      }
+    }
+    onResolve(updates);
+  };
+
+  const footer = (
+    <>
+      <Button variant="secondary" onClick={onDiscard} disabled={isSaving}>
+        Discard my changes
+      </Button>
+      <Button onClick={handleResolve} loading={isSaving}>
+        Save merged version
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen
+      onClose={onDiscard}
+      title={`${conflict.current.ref} was changed while you were editing`}
+      subtitle="Choose which value to keep for each field that differs"
+      size="large"
+      footer={footer}
+    >
+      {fields.length === 0 ? (
+        <p style={{ margin: 0, color: "#475569", fontSize: "14px" }}>
+          The other changes do not touch the fields you edited. Your changes can be saved on top of them.
+        </p>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: "16px" }}>
+          {fields.map(field => {
+            const choice = choices[field] ?? "mine";
+            const option = (side: "mine" | "theirs", label: string, value: unknown) => (
+              <label
+                style={{
+                  flex: 1,
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: "6px",
+                  padding: "10px 12px",
+                  border: `1px solid ${choice === side ? "#3b82f6" : "#e2e8f0"}`,
+                  borderRadius: "8px",
+                  background: choice === side ? "#eff6ff" : "#ffffff",
+                  cursor: "pointer"
+                }}
+              >
+                <span style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "13px", fontWeight: 600 }}>
+                  <input
+                    type="radio"
+                    name={`conflict-${field}`}
+                    checked={choice === side}
+                    onChange={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                  />
+                  {label}
+                </span>
+                <span style={{ whiteSpace: "pre-wrap", fontSize: "14px", color: "#0f172a" }}>{display(value)}</span>
+              </label>
+            );
+
+            return (
+              <div key={field}>
+                <div style={{ fontSize: "13px", fontWeight: 600, color: "#64748b", marginBottom: "6px" }}>
+                  {FIELD_LABELS[field]}
+                </div>
+                <div style={{ display: "flex", gap: "12px" }}>
+                  {option("mine", "Mine", conflict.updates[field])}
+                  {option("theirs", "Theirs", conflict.current[field])}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Modal>
+  );
+}
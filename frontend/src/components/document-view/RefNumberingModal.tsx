@@ -0,0 +1,190 @@
+/**
+ * Ref Numbering Modal
+ *
+ * Edits a document's requirement numbering scheme and renumbers the
+ * document's requirements after previewing the new refs
+ */
+
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useApiClient } from "../../lib/client";
+import { Modal, TextInput, Select, Button } from "../Modal";
+import type { DocumentRecord, DocumentRenumberResult, RefScheme } from "../../types";
+
+interface RefNumberingModalProps {
+  isOpen: boolean;
+  tenant: string;
+  project: string;
+  document: DocumentRecord;
+  onClose: () => void;
+}
+
+const DEFAULT_SCHEME: RefScheme = { template: "{doc}-{section}-{n:3}", start: 1, step: 1, counter: "document" };
+
+const COUNTER_OPTIONS = [
+  { value: "document", label: "One counter for the document" },
+  { value: "section", label: "A counter per section" }
+];
+
+export function RefNumberingModal({ isOpen, tenant, project, document, onClose }: RefNumberingModalProps): JSX.Element {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+  const [scheme, setScheme] = useState<RefScheme>(document.refScheme ?? DEFAULT_SCHEME);
+  const [preview, setPreview] = useState<DocumentRenumberResult | null>(null);
+
+  useEffect(() => {
+    setScheme(document.refScheme ?? DEFAULT_SCHEME);
+    setPreview(null);
+  }, [document.refScheme, isOpen]);
+
+  const updateScheme = (changes: Partial<RefScheme>) => {
+    setScheme(current => ({ ...current, ...changes }));
+    setPreview(null);
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["document", tenant, project, document.slug] });
+    queryClient.invalidateQueries({ queryKey: ["documents", tenant, project] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (next: RefScheme | null) => api.saveDocumentRefScheme(tenant, project, document.slug, next),
+    onSuccess: ({ scheme: saved }) => {
+      toast.success(saved ? "Numbering scheme saved; new requirements will use it" : "Document uses default refs again");
+      invalidate();
+      onClose();
+    },
+    onError: (error: Error) => toast.error(error.message)
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => api.renumberDocument(tenant, project, document.slug, { scheme, dryRun: true }),
+    onSuccess: setPreview,
+    onError: (error: Error) => toast.error(error.message)
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: () => api.renumberDocument(tenant, project, document.slug, { scheme, dryRun: false }),
+    onSuccess: result => {
+      toast.success(`Renumbered ${result.changes.length} requirement${result.changes.length === 1 ? "" : "s"}; old refs still resolve`);
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["sections", tenant, project, document.slug] });
+      queryClient.invalidateQueries({ queryKey: ["requirements", tenant, project] });
+      onClose();
+    },
+    onError: (error: Error) => toast.error(error.message)
+  });
+
+  const busy = saveMutation.isPending || previewMutation.isPending || applyMutation.isPending;
+
+  const footer = (
+    <>
+      {document.refScheme && (
+        <Button variant="secondary" onClick={() => saveMutation.mutate(null)} disabled={busy}>
+          Use Default Refs
+        </Button>
+      )}
+      <Button variant="secondary" onClick={() => saveMutation.mutate(scheme)} disabled={busy} loading={saveMutation.isPending}>
+        Save Scheme
+      </Button>
+      <Button variant="secondary" onClick={() => previewMutation.mutate()} disabled={busy} loading={previewMutation.isPending}>
+        Preview Renumber
+      </Button>
+      <Button
+        onClick={() => applyMutation.mutate()}
+        disabled={busy || !preview || preview.conflicts.length > 0 || preview.changes.length === 0}
+        loading={applyMutation.isPending}
+      >
+        Renumber
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Requirement Numbering"
+      subtitle={`How requirement refs in ${document.name} are generated`}
+      size="large"
+      footer={footer}
+    >
+      <div className="space-y-4">
+        <TextInput
+          label="Template"
+          required
+          value={scheme.template}
+          onChange={e => updateScheme({ template: e.target.value })}
+          placeholder="e.g., SRS-NAV-{n:4} or {section}-R{n}"
+          help="Tokens: {doc} document short code, {section} section short code, {n} counter, {n:4} counter padded to 4 digits"
+        />
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 2fr", gap: "12px" }}>
+          <TextInput
+            label="Start"
+            type="number"
+            min={0}
+            value={scheme.start}
+            onChange={e => updateScheme({ start: Number(e.target.value) })}
+          />
+          <TextInput
+            label="Step"
+            type="number"
+            min={1}
+            value={scheme.step}
+            onChange={e => updateScheme({ step: Number(e.target.value) })}
+            help="e.g., 10 leaves gaps for later insertions"
+          />
+          <Select
+            label="Counter"
+            value={scheme.counter}
+            options={COUNTER_OPTIONS}
+            onChange={e => updateScheme({ counter: e.target.value as RefScheme["counter"] })}
+          />
+        </div>
+
+        {preview && (
+          <div>
+            <p style={{ fontSize: "14px", color: "#475569", margin: "0 0 8px 0" }}>
+              {preview.changes.length} ref{preview.changes.length === 1 ? "" : "s"} will change, {preview.unchanged} unchanged.
+              Old refs are kept as aliases, so links, exports and lookups by old ref keep working.
+            </p>
+            {preview.conflicts.length > 0 && (
+              <div style={{
+                padding: "12px",
+                backgroundColor: "#fef2f2",
+                border: "1px solid #fecaca",
+                borderRadius: "8px",
+                color: "#dc2626",
+                fontSize: "14px",
+                marginBottom: "8px"
+              }}>
+                {preview.conflicts.map(conflict => <div key={conflict}>{conflict}</div>)}
+              </div>
+            )}
+            {preview.changes.length > 0 && (
+              <div style={{ maxHeight: "240px", overflowY: "auto", border: "1px solid #e2e8f0", borderRadius: "8px" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "13px" }}>
+                  <thead>
+                    <tr style={{ textAlign: "left", backgroundColor: "#f8fafc" }}>
+                      <th style={{ padding: "6px 10px" }}>Current</th>
+                      <th style={{ padding: "6px 10px" }}>New</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.changes.map(change => (
+                      <tr key={change.requirementId} style={{ borderTop: "1px solid #f1f5f9" }}>
+                        <td style={{ padding: "6px 10px", fontFamily: "monospace" }}>{change.oldRef}</td>
+                        <td style={{ padding: "6px 10px", fontFamily: "monospace" }}>{change.newRef}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,65 @@
+import { useQuery } from "@tanstack/react-query";
+import { useApiClient } from "../../lib/client";
+import { describeGlossaryMatch, glossarySegments, type GlossaryMatchKind } from "../../lib/glossary";
+import type { GlossaryTerm } from "../../types";
+
+const NO_TERMS: GlossaryTerm[] = [];
+
+/**
+ * The project's glossary terms; an empty list when it has none.
+ */
+export function useGlossaryTerms(tenant: string, project: string): {
+  terms: GlossaryTerm[];
+  isLoading: boolean;
+} {
+  const api = useApiClient();
+  const glossaryQuery = useQuery({
+    queryKey: ["glossary", tenant, project],
+    queryFn: () => api.listGlossaryTerms(tenant, project),
+    enabled: Boolean(tenant && project),
+    staleTime: 5 * 60 * 1000
+  });
+  return { terms: glossaryQuery.data?.terms ?? NO_TERMS, isLoading: glossaryQuery.isLoading };
+}
+
+/** Underline for each kind of match; deprecated forms look like a spelling error */
+export const GLOSSARY_MATCH_STYLES: Record<GlossaryMatchKind, React.CSSProperties> = {
+  term: { textDecoration: "underline dotted #2563eb", textUnderlineOffset: "3px", cursor: "help" },
+  abbreviation: { textDecoration: "underline dotted #2563eb", textUnderlineOffset: "3px", cursor: "help" },
+  synonym: { textDecoration: "underline dotted #64748b", textUnderlineOffset: "3px", cursor: "help" },
+  deprecated: { textDecoration: "underline wavy #dc2626", textUnderlineOffset: "3px", cursor: "help" }
+};
+
+interface GlossaryTextProps {
+  tenant: string;
+  project: string;
+  text: string;
+}
+
+/**
+ * Text with glossary terms underlined; hovering a term shows its
+ * definition, hovering a deprecated form shows the preferred term.
+ */
+export function GlossaryText({ tenant, project, text }: GlossaryTextProps): JSX.Element {
+  const { terms } = useGlossaryTerms(tenant, project);
+  if (terms.length === 0) {
+    return <>{text}</>;
+  }
+
+  return (
+    <>
+      {glossarySegments(text, terms).map((segment, index) => segment.match ? (
+        <span
+          key={index}
+          title={describeGlossaryMatch(segment.match)}
+          style={GLOSSARY_MATCH_STYLES[segment.match.kind]}
+          data-glossary-term={segment.match.term.id}
+        >
+          {segment.text}
+        </span>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      ))}
+    </>
+  );
+}
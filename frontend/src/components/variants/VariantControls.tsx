@@ -0,0 +1,193 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useApiClient } from "../../lib/client";
+import type { FeatureModelRecord, PresenceConditionTarget } from "../../types";
+
+export type VariantExclusions = {
+  requirements: Set<string>;
+  sections: Set<string>;
+  blocks: Set<string>;
+  connectors: Set<string>;
+};
+
+/**
+ * The project's feature model; null when none is defined.
+ */
+export function useFeatureModel(tenant: string, project: string): {
+  model: FeatureModelRecord | null;
+  isLoading: boolean;
+} {
+  const api = useApiClient();
+  const modelQuery = useQuery({
+    queryKey: ["feature-model", tenant, project],
+    queryFn: () => api.getFeatureModel(tenant, project),
+    enabled: Boolean(tenant && project),
+    staleTime: 5 * 60 * 1000
+  });
+  return { model: modelQuery.data?.model ?? null, isLoading: modelQuery.isLoading };
+}
+
+/**
+ * What a saved variant configuration leaves out; null while no variant is
+ * selected so callers show everything.
+ */
+export function useVariantExclusions(tenant: string, project: string, configuration: string): VariantExclusions | null {
+  const api = useApiClient();
+  const variantQuery = useQuery({
+    queryKey: ["variant", tenant, project, configuration],
+    queryFn: () => api.resolveVariant(tenant, project, configuration),
+    enabled: Boolean(tenant && project && configuration)
+  });
+
+  return useMemo(() => {
+    const excluded = configuration ? variantQuery.data?.excluded : undefined;
+    if (!excluded) {
+      return null;
+    }
+    return {
+      requirements: new Set(excluded.requirements),
+      sections: new Set(excluded.sections),
+      blocks: new Set(excluded.blocks),
+      connectors: new Set(excluded.connectors)
+    };
+  }, [configuration, variantQuery.data]);
+}
+
+interface VariantSelectorProps {
+  tenant: string;
+  project: string;
+  value: string;
+  onChange: (configuration: string) => void;
+  className?: string;
+}
+
+/**
+ * Picks a saved variant configuration to filter a view by. Renders nothing
+ * when the project has no saved configurations.
+ */
+export function VariantSelector({ tenant, project, value, onChange, className }: VariantSelectorProps): JSX.Element | null {
+  const { model } = useFeatureModel(tenant, project);
+  const configurations = model?.configurations ?? [];
+  if (configurations.length === 0) {
+    return null;
+  }
+
+  return (
+    <label className={className} style={{ display: "inline-flex", alignItems: "center", gap: "6px", fontSize: "13px" }}>
+      Variant
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        style={{ padding: "4px 8px", border: "1px solid #e2e8f0", borderRadius: "4px", fontSize: "13px" }}
+      >
+        <option value="">All variants</option>
+        {configurations.map(configuration => (
+          <option key={configuration.name} value={configuration.name}>{configuration.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+const INVALIDATED_QUERIES: Record<PresenceConditionTarget, string[]> = {
+  requirement: ["requirements", "sections"],
+  section: ["sections"],
+  block: ["architecture-blocks", "architecture-block-library"],
+  connector: ["architecture-connectors"]
+};
+
+interface PresenceConditionFieldProps {
+  tenant: string;
+  project: string;
+  entityType: PresenceConditionTarget;
+  entityId: string;
+  condition?: string | null;
+  className?: string;
+}
+
+/**
+ * Edits the presence condition of a requirement, section, block or
+ * connector. Hidden until the project has a feature model.
+ */
+export function PresenceConditionField({
+  tenant,
+  project,
+  entityType,
+  entityId,
+  condition,
+  className
+}: PresenceConditionFieldProps): JSX.Element | null {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+  const { model } = useFeatureModel(tenant, project);
+  const [draft, setDraft] = useState(condition ?? "");
+  // The record passed in can be stale after a save (e.g. inside an open modal)
+  const [saved, setSaved] = useState(condition ?? "");
+
+  useEffect(() => {
+    setDraft(condition ?? "");
+    setSaved(condition ?? "");
+  }, [entityId, condition]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => api.setPresenceCondition(tenant, project, {
+      entityType,
+      entityId,
+      condition: draft.trim() || null
+    }),
+    onSuccess: data => {
+      setSaved(data.condition?.condition ?? "");
+      for (const key of INVALIDATED_QUERIES[entityType]) {
+        queryClient.invalidateQueries({ queryKey: [key, tenant, project] });
+      }
+      queryClient.invalidateQueries({ queryKey: ["variant", tenant, project] });
+      queryClient.invalidateQueries({ queryKey: ["presence-conditions", tenant, project] });
+    }
+  });
+
+  if (!model) {
+    return null;
+  }
+
+  const dirty = draft.trim() !== saved;
+
+  return (
+    <div className={className}>
+      <label style={{ display: "block", fontSize: "13px", fontWeight: 600, marginBottom: "4px" }}>
+        Presence condition
+      </label>
+      <div style={{ display: "flex", gap: "8px" }}>
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => {
+            // Save the condition rather than submitting a surrounding form
+            if (e.key === "Enter") {
+              e.preventDefault();
+              if (dirty) saveMutation.mutate();
+            }
+          }}
+          placeholder="Always present, e.g. abs && !manual"
+          style={{ flex: 1, padding: "6px 8px", border: "1px solid #e2e8f0", borderRadius: "4px", fontFamily: "monospace", fontSize: "13px" }}
+        />
+        <button
+          type="button"
+          onClick={() => saveMutation.mutate()}
+          disabled={!dirty || saveMutation.isPending}
+          style={{ padding: "6px 10px", border: "1px solid #e2e8f0", borderRadius: "4px", background: "white", cursor: "pointer", fontSize: "13px" }}
+        >
+          {saveMutation.isPending ? "Saving…" : "Set"}
+        </button>
+      </div>
+      {saveMutation.isError ? (
+        <span style={{ display: "block", color: "#dc2626", fontSize: "12px", marginTop: "4px" }}>
+          {(saveMutation.error as Error).message}
+        </span>
+      ) : (
+        <span style={{ display: "block", color: "#64748b", fontSize: "12px", marginTop: "4px" }}>
+          Features: {model.features.map(feature => feature.id).join(", ")}
+        </span>
+      )}
+    </div>
+  );
+}
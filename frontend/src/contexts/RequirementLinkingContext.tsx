@@ -1,6 +1,7 @@
 import type { ReactNode } from "react";
 import { createContext, useContext, useState } from "react";
 import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
 import { useApiClient } from "../lib/client";
 import type { RequirementRecord, TraceLinkType } from "../types";
 
@@ -75,6 +76,7 @@ export function RequirementLinkingProvider({ children }: { children: ReactNode }
       });
 
       console.log('[RequirementLinkingContext] Trace link created successfully:', result);
+      result.traceLink.ruleWarnings?.forEach(warning => toast.warning(warning));
 
       // Invalidate relevant queries to refresh the UI
       await queryClient.invalidateQueries({ queryKey: ['traceLinks'] });
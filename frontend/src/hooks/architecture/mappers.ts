@@ -90,6 +90,7 @@ export function mapBlockFromApi(block: ArchitectureBlockRecord): SysmlBlock {
       return acc;
     }, {}),
     documentIds: block.documentIds,
+    presenceCondition: block.presenceCondition ?? null,
     // Styling properties
     backgroundColor: block.backgroundColor || undefined,
     borderColor: block.borderColor || undefined,
@@ -121,6 +122,7 @@ export function mapConnectorFromApi(connector: ArchitectureConnectorRecord): Sys
     sourcePortId: connector.sourcePortId,
     targetPortId: connector.targetPortId,
     documentIds: connector.documentIds ?? [],
+    presenceCondition: connector.presenceCondition ?? null,
     // Styling properties
     lineStyle: connector.lineStyle,
     markerStart: connector.markerStart,
@@ -0,0 +1,168 @@
+/**
+ * Document Collaboration Hook
+ *
+ * Keeps a WebSocket open to the document's collaboration channel:
+ * - Presence (who else has the document open and what they are viewing)
+ * - Soft locks on requirements being edited
+ * - Live refresh when someone else changes the document
+ *
+ * Reconnects with backoff; locks are released by the server on disconnect.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { config } from "../../config";
+import { useAuth } from "../../contexts/AuthContext";
+import type {
+  CollaborationServerMessage,
+  DocumentChange,
+  DocumentParticipant,
+  RequirementSoftLock
+} from "../../types";
+
+const PING_INTERVAL_MS = 25_000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+function collaborationUrl(tenant: string, project: string, documentSlug: string, token: string): string {
+  const base = new URL(config.apiBaseUrl, window.location.href);
+  base.protocol = base.protocol === "https:" ? "wss:" : "ws:";
+  const path = [tenant, project, documentSlug].map(encodeURIComponent).join("/");
+  return `${base.href.replace(/\/$/, "")}/collab/documents/${path}?token=${encodeURIComponent(token)}`;
+}
+
+function describeChange(change: DocumentChange): string {
+  const subject = change.ref ?? (change.entity === "info" ? "an info block" : `a ${change.entity}`);
+  return `${change.action} ${subject}`;
+}
+
+export function useDocumentCollaboration(tenant: string, project: string, documentSlug: string) {
+  const { token, user } = useAuth();
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+  const [connectionId, setConnectionId] = useState<string | null>(null);
+  const [participants, setParticipants] = useState<DocumentParticipant[]>([]);
+  const [locks, setLocks] = useState<RequirementSoftLock[]>([]);
+  const socketRef = useRef<WebSocket | null>(null);
+
+  const send = useCallback((message: Record<string, unknown>) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!token || typeof WebSocket === "undefined") {
+      return;
+    }
+
+    let disposed = false;
+    let attempt = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let pingTimer: ReturnType<typeof setInterval> | undefined;
+
+    const handleMessage = (message: CollaborationServerMessage) => {
+      switch (message.type) {
+        case "welcome":
+          setConnectionId(message.connectionId);
+          setParticipants(message.participants);
+          setLocks(message.locks);
+          break;
+        case "presence":
+          setParticipants(message.participants);
+          break;
+        case "locks":
+          setLocks(message.locks);
+          break;
+        case "lock-denied":
+          toast.warning(`${message.lock.name} is already editing this requirement`);
+          break;
+        case "change":
+          queryClient.invalidateQueries({ queryKey: ["sections", tenant, project, documentSlug] });
+          if (message.change.entity === "document") {
+            queryClient.invalidateQueries({ queryKey: ["document", tenant, project, documentSlug] });
+          }
+          if (message.actor && message.actor.userId !== user?.id) {
+            toast.info(`${message.actor.name} ${describeChange(message.change)}`);
+          }
+          break;
+        case "error":
+          console.warn("[COLLABORATION]", message.message);
+          break;
+      }
+    };
+
+    const connect = () => {
+      const socket = new WebSocket(collaborationUrl(tenant, project, documentSlug, token));
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempt = 0;
+        setConnected(true);
+        pingTimer = setInterval(() => send({ type: "ping" }), PING_INTERVAL_MS);
+      };
+      socket.onmessage = event => {
+        try {
+          handleMessage(JSON.parse(String(event.data)) as CollaborationServerMessage);
+        } catch (error) {
+          console.warn("[COLLABORATION] Ignoring malformed message", error);
+        }
+      };
+      socket.onclose = () => {
+        clearInterval(pingTimer);
+        if (disposed || socketRef.current !== socket) {
+          return;
+        }
+        socketRef.current = null;
+        setConnected(false);
+        setConnectionId(null);
+        setParticipants([]);
+        setLocks([]);
+
+        const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempt);
+        attempt += 1;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      clearInterval(pingTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [tenant, project, documentSlug, token, user?.id, queryClient, send]);
+
+  const lockRequirement = useCallback((requirementId: string, force = false) => {
+    send({ type: "lock", requirementId, force });
+  }, [send]);
+
+  const unlockRequirement = useCallback((requirementId: string) => {
+    send({ type: "unlock", requirementId });
+  }, [send]);
+
+  const viewRequirement = useCallback((requirementId: string | null) => {
+    send({ type: "view", requirementId });
+  }, [send]);
+
+  /** A lock on the requirement held by another user, if any */
+  const lockHeldByOther = useCallback((requirementId: string): RequirementSoftLock | undefined => {
+    const lock = locks.find(candidate => candidate.requirementId === requirementId);
+    return lock && lock.userId !== user?.id ? lock : undefined;
+  }, [locks, user?.id]);
+
+  return {
+    connected,
+    connectionId,
+    participants,
+    locks,
+    lockRequirement,
+    unlockRequirement,
+    viewRequirement,
+    lockHeldByOther
+  };
+}
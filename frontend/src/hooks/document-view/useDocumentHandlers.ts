@@ -13,9 +13,10 @@ import type {
   RequirementPattern,
   VerificationMethod,
   DocumentSectionRecord,
-  RequirementRecord
+  RequirementRecord,
+  RequirementAttributes
 } from "../../types";
-import type { DocumentSectionWithRequirements } from "./useDocumentState";
+import type { DocumentSectionWithRequirements, EditConflict, RequirementEditUpdates } from "./useDocumentState";
 
 export function useDocumentHandlers(
   sections: DocumentSectionWithRequirements[],
@@ -93,6 +94,7 @@ export function useDocumentHandlers(
       pattern?: RequirementPattern;
       verification?: VerificationMethod;
       sectionId?: string;
+      attributes?: RequirementAttributes;
     }
   ) => {
     if (!editRequirementModal.requirement) return;
@@ -105,10 +107,19 @@ export function useDocumentHandlers(
     updateRequirementMutation.mutate({
       requirementId: editRequirementModal.requirement.id,
       originalSectionId: currentSection?.id,
-      updates
+      updates: { ...updates, expectedVersionNumber: editRequirementModal.requirement.versionNumber }
     });
   }, [sections, updateRequirementMutation]);
 
+  // Re-submit a conflicting edit on top of the version that won
+  const handleResolveEditConflict = useCallback((conflict: EditConflict, updates: RequirementEditUpdates) => {
+    updateRequirementMutation.mutate({
+      requirementId: conflict.current.id,
+      originalSectionId: conflict.originalSectionId,
+      updates: { ...updates, expectedVersionNumber: conflict.current.versionNumber }
+    });
+  }, [updateRequirementMutation]);
+
   // Delete requirement handler
   const handleDeleteRequirement = useCallback((requirement: RequirementRecord | null) => {
     if (!requirement) return;
@@ -177,6 +188,7 @@ export function useDocumentHandlers(
     handleEditRequirement,
     handleInlineEditRequirement,
     handleUpdateRequirement,
+    handleResolveEditConflict,
     handleDeleteRequirement,
     handleEditSection,
     handleUpdateSection,
@@ -9,13 +9,16 @@
  */
 
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { useApiClient } from "../../lib/client";
+import { toast } from "sonner";
+import { ApiError, useApiClient } from "../../lib/client";
 import type {
   RequirementPattern,
   VerificationMethod,
-  DocumentSectionWithRelations
+  RequirementAttributes,
+  DocumentSectionWithRelations,
+  RequirementConflictResponse
 } from "../../types";
-import type { DocumentSectionWithRequirements } from "./useDocumentState";
+import type { DocumentSectionWithRequirements, EditConflict } from "./useDocumentState";
 
 export function useDocumentMutations(
   tenant: string,
@@ -27,7 +30,8 @@ export function useDocumentMutations(
   manuallyUpdatedSectionsRef: React.MutableRefObject<Set<string>>,
   setEditRequirementModal: (state: { isOpen: boolean; requirement: any }) => void,
   setEditSectionModal: (state: { isOpen: boolean; section: any }) => void,
-  setSectionsWithUnsavedChanges: React.Dispatch<React.SetStateAction<Set<string>>>
+  setSectionsWithUnsavedChanges: React.Dispatch<React.SetStateAction<Set<string>>>,
+  setEditConflict: (conflict: EditConflict | null) => void
 ) {
   const api = useApiClient();
   const queryClient = useQueryClient();
@@ -114,7 +118,7 @@ export function useDocumentMutations(
 
   // Update requirement mutation
   const updateRequirementMutation = useMutation({
-    mutationFn: (params: { requirementId: string; originalSectionId?: string; updates: { text?: string; pattern?: RequirementPattern; verification?: VerificationMethod; sectionId?: string; } }) => {
+    mutationFn: (params: { requirementId: string; originalSectionId?: string; updates: { text?: string; pattern?: RequirementPattern; verification?: VerificationMethod; sectionId?: string; attributes?: RequirementAttributes; expectedVersionNumber?: number } }) => {
       console.log('[UPDATE MUTATION] Called with requirementId:', params.requirementId);
       console.log('[UPDATE MUTATION] Updates:', JSON.stringify(params.updates, null, 2));
       console.log('[UPDATE MUTATION] Original section:', params.originalSectionId);
@@ -211,6 +215,20 @@ export function useDocumentMutations(
       }
 
       setEditRequirementModal({ isOpen: false, requirement: null });
+    },
+    onError: (error: Error, variables) => {
+      // Someone else saved first: let the user merge instead of failing
+      if (error instanceof ApiError && error.status === 409) {
+        const { expectedVersionNumber: _expected, ...updates } = variables.updates;
+        setEditConflict({
+          current: (error.body as RequirementConflictResponse).current,
+          updates,
+          originalSectionId: variables.originalSectionId
+        });
+        queryClient.invalidateQueries({ queryKey: ["sections", tenant, project, documentSlug] });
+        return;
+      }
+      toast.error(`Failed to update requirement: ${error.message}`);
     }
   });
 
@@ -305,11 +323,15 @@ export function useDocumentMutations(
       // Prepare payload with explicit order values
       const payload: {
         tenant: string;
+        projectKey: string;
+        documentSlug: string;
         requirements?: Array<{ id: string; order: number }>;
         infos?: Array<{ id: string; order: number }>;
         surrogates?: Array<{ id: string; order: number }>;
       } = {
-        tenant
+        tenant,
+        projectKey: project,
+        documentSlug
       };
 
       // Only include arrays that have items, and filter out any items without valid IDs
@@ -4,17 +4,39 @@
  * Manages all UI state for document view:
  * - Modal visibility (8 different modals)
  * - Selected section
- * - Edit modal states
+ * - Edit modal states and edit conflicts
  * - Drag and drop state
  * - Unsaved changes tracking with refs
  */
 
 import { useState, useEffect, useRef } from "react";
-import type { RequirementRecord, DocumentSectionRecord, DocumentSectionWithRelations } from "../../types";
+import type {
+  RequirementRecord,
+  DocumentSectionRecord,
+  DocumentSectionWithRelations,
+  RequirementPattern,
+  VerificationMethod,
+  RequirementAttributes
+} from "../../types";
 
 // Type alias for clarity
 export type DocumentSectionWithRequirements = DocumentSectionWithRelations;
 
+export type RequirementEditUpdates = {
+  text?: string;
+  pattern?: RequirementPattern;
+  verification?: VerificationMethod;
+  sectionId?: string;
+  attributes?: RequirementAttributes;
+};
+
+/** An edit rejected because someone else saved the requirement first */
+export type EditConflict = {
+  current: RequirementRecord;
+  updates: RequirementEditUpdates;
+  originalSectionId?: string;
+};
+
 export function useDocumentState(
   documentSlug: string,
   sections: DocumentSectionWithRequirements[]
@@ -39,6 +61,8 @@ export function useDocumentState(
     section: DocumentSectionRecord | null;
   }>({ isOpen: false, section: null });
 
+  const [editConflict, setEditConflict] = useState<EditConflict | null>(null);
+
   // Selection and drag state
   const [selectedSection, setSelectedSection] = useState<string | null>(null);
   const [draggedSection, setDraggedSection] = useState<string | null>(null);
@@ -101,6 +125,8 @@ export function useDocumentState(
     setEditRequirementModal,
     editSectionModal,
     setEditSectionModal,
+    editConflict,
+    setEditConflict,
 
     // Selection and drag
     selectedSection,
@@ -21,6 +21,11 @@ import type {
   RequirementCandidateActionResponse,
   BaselineResponse,
   BaselineListResponse,
+  BaselineRestorePlan,
+  BaselineComparison,
+  BranchComparison,
+  BranchMergeResult,
+  BranchRecord,
   TenantsResponse,
   TenantRecord,
   TenantInvitationsResponse,
@@ -52,10 +57,23 @@ import type {
   CreateTraceLinkRequest,
   TraceLink,
   DocumentLinkset,
+  CommentThread,
+  CommentRecord,
+  CommentCounts,
+  CommentTargetType,
+  CreateCommentRequest,
+  MentionableUser,
+  NotificationRecord,
   CreateLinksetRequest,
   AddLinkToLinksetRequest,
   DevUserListResponse,
   DevUserResponse,
+  ApiTokenListResponse,
+  ApiTokenScopesResponse,
+  CreateApiTokenRequest,
+  CreateApiTokenResponse,
+  ServiceAccountListResponse,
+  ServiceAccountRecord,
   DiagramCandidate,
   RequirementHistoryResponse,
   RequirementDiffResponse,
@@ -95,22 +113,66 @@ import type {
   SysmlDiagramResponse,
   SysmlDiagramDetailResponse,
   CreateSysmlDiagramRequest,
-  UpdateSysmlDiagramRequest
+  UpdateSysmlDiagramRequest,
+  RequirementAttributes,
+  AttributeFieldDefinition,
+  AttributeSchemaRecord,
+  FeatureConstraint,
+  FeatureDefinition,
+  FeatureModelRecord,
+  PresenceConditionRecord,
+  PresenceConditionTarget,
+  VariantConfiguration,
+  VariantResolution,
+  TraceRule,
+  TraceRuleSetRecord,
+  UnmatchedLinkPolicy,
+  RefScheme,
+  DocumentRenumberResult,
+  ProjectMetricValues,
+  MetricSnapshotRecord,
+  BurnUp,
+  BurnUpMeasure,
+  GlossaryTerm,
+  GlossaryTermInput,
+  GlossaryTermUsage,
+  ImpactAnalysis,
+  ImpactAnalysisRequest,
+  ImpactReportFormat,
+  LlmUsageGroupBy,
+  LlmUsageReport,
+  LlmUsageRecord,
+  LlmUsageAudit,
+  LlmQuota,
+  LlmQuotaInput
 } from "../types";
 
 type RequestOptions = RequestInit & { skipAuth?: boolean };
 
+/**
+ * Error thrown for non-2xx API responses. Keeps the status and parsed body so
+ * callers can react to specific failures (e.g. a 409 edit conflict).
+ */
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number, public readonly body: unknown) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
 async function handleResponse<T>(response: Response): Promise<T> {
   if (!response.ok) {
     const text = await response.text();
     let message = text;
+    let body: unknown = text;
     try {
       const json = JSON.parse(text);
+      body = json;
       message = json.error ?? json.message ?? text;
     } catch (error) {
       // keep original text
     }
-    throw new Error(message || `Request failed with status ${response.status}`);
+    throw new ApiError(message || `Request failed with status ${response.status}`, response.status, body);
   }
   if (response.status === 204) {
     return undefined as T;
@@ -219,7 +281,9 @@ export function useApiClient() {
       draft: (body: DraftRequest) => request<DraftResponse>(`/draft`, { method: "POST", body: JSON.stringify(body) }),
       airgenChat: (body: AirGenChatRequest) =>
         request<AirGenChatResponse>(`/airgen/chat`, { method: "POST", body: JSON.stringify(body) }),
-      qa: (text: string) => request<QaResponse>(`/qa`, { method: "POST", body: JSON.stringify({ text }) }),
+      /** With a project, its active rule pack and glossary are applied */
+      qa: (text: string, project?: { tenant: string; projectKey: string; tags?: string[] }) =>
+        request<QaResponse>(`/qa`, { method: "POST", body: JSON.stringify({ text, ...project }) }),
       applyFix: (text: string) => request<ApplyFixResponse>(`/apply-fix`, { method: "POST", body: JSON.stringify({ text }) }),
       listRequirementCandidates: (tenant: string, project: string) =>
         request<RequirementCandidateListResponse>(`/airgen/candidates/${tenant}/${project}`),
@@ -281,7 +345,7 @@ export function useApiClient() {
           method: "POST",
           body: JSON.stringify(body)
         }),
-      updateRequirement: (tenant: string, project: string, requirementId: string, updates: { text?: string; pattern?: string; verification?: string }) =>
+      updateRequirement: (tenant: string, project: string, requirementId: string, updates: { text?: string; pattern?: string; verification?: string; attributes?: RequirementAttributes; expectedVersionNumber?: number }) =>
         request<{ requirement: RequirementRecord }>(`/requirements/${tenant}/${project}/${requirementId}`, { method: "PATCH", body: JSON.stringify(updates) }),
       deleteRequirement: (tenant: string, project: string, requirementId: string) =>
         request<{ requirement: RequirementRecord }>(`/requirements/${tenant}/${project}/${requirementId}`, { method: "DELETE" }),
@@ -320,8 +384,36 @@ export function useApiClient() {
         request<any>(`/baselines/${tenant}/${project}/${baselineRef}`),
       compareBaselines: (tenant: string, project: string, fromRef: string, toRef: string) => {
         const params = new URLSearchParams({ from: fromRef, to: toRef });
-        return request<any>(`/baselines/${tenant}/${project}/compare?${params}`);
+        return request<BaselineComparison>(`/baselines/${tenant}/${project}/compare?${params}`);
+      },
+      downloadBaselineChangeReport: (tenant: string, project: string, fromRef: string, toRef: string, format: "pdf" | "docx") => {
+        const params = new URLSearchParams({ from: fromRef, to: toRef, format });
+        return requestBlob(`/baselines/${tenant}/${project}/change-report?${params}`);
       },
+      restoreBaseline: (
+        tenant: string,
+        project: string,
+        baselineRef: string,
+        body: { scope: "project" | "document" | "section"; documentSlug?: string; sectionId?: string; dryRun: boolean }
+      ) =>
+        request<BaselineRestorePlan>(`/baselines/${tenant}/${project}/${baselineRef}/restore`, { method: "POST", body: JSON.stringify(body) }),
+      listBranches: (tenant: string, project: string) =>
+        request<{ branches: BranchRecord[] }>(`/branches/${tenant}/${project}`),
+      createBranch: (
+        tenant: string,
+        project: string,
+        body: { slug: string; name?: string; baselineRef?: string; documentSlugs?: string[] }
+      ) =>
+        request<{ branch: BranchRecord; counts: Record<string, number> }>(`/branches/${tenant}/${project}`, { method: "POST", body: JSON.stringify(body) }),
+      compareBranch: (tenant: string, project: string, branch: string) =>
+        request<BranchComparison>(`/branches/${tenant}/${project}/${branch}/compare`),
+      mergeBranch: (
+        tenant: string,
+        project: string,
+        branch: string,
+        body: { requirementIds?: string[]; resolveWithBranch?: string[]; dryRun: boolean }
+      ) =>
+        request<BranchMergeResult>(`/branches/${tenant}/${project}/${branch}/merge`, { method: "POST", body: JSON.stringify(body) }),
       deleteBaseline: (tenant: string, project: string, baselineRef: string) =>
         request<{ deleted: boolean }>(`/baselines/${tenant}/${project}/${baselineRef}`, { method: "DELETE" }),
       listDocuments: (tenant: string, project: string) =>
@@ -334,6 +426,16 @@ export function useApiClient() {
         request<DocumentResponse>(`/documents/${tenant}/${project}/${documentSlug}`, { method: "PATCH", body: JSON.stringify(updates) }),
       updateDocumentFolder: (tenant: string, project: string, documentSlug: string, parentFolder?: string | null) =>
         request<DocumentResponse>(`/documents/${tenant}/${project}/${documentSlug}`, { method: "PATCH", body: JSON.stringify({ parentFolder }) }),
+      saveDocumentRefScheme: (tenant: string, project: string, documentSlug: string, scheme: RefScheme | null) =>
+        request<{ scheme: RefScheme | null }>(`/documents/${tenant}/${project}/${documentSlug}/ref-scheme`, {
+          method: "PUT",
+          body: JSON.stringify({ scheme })
+        }),
+      renumberDocument: (tenant: string, project: string, documentSlug: string, body: { scheme?: RefScheme; dryRun: boolean }) =>
+        request<DocumentRenumberResult>(`/documents/${tenant}/${project}/${documentSlug}/renumber`, {
+          method: "POST",
+          body: JSON.stringify(body)
+        }),
       uploadSurrogateDocument: (params: {
         tenant: string;
         projectKey: string;
@@ -456,6 +558,8 @@ export function useApiClient() {
         sectionId: string,
         payload: {
           tenant: string;
+          projectKey?: string;
+          documentSlug?: string;
           requirements?: Array<{ id: string; order: number }>;
           infos?: Array<{ id: string; order: number }>;
           surrogates?: Array<{ id: string; order: number }>;
@@ -587,7 +691,167 @@ export function useApiClient() {
         request<{ traceLinks: TraceLink[] }>(`/trace-links/${tenant}/${project}/${requirementId}`),
       deleteTraceLink: (tenant: string, project: string, linkId: string) =>
         request<{ success: boolean }>(`/trace-links/${tenant}/${project}/${linkId}`, { method: "DELETE" }),
-      
+      listSuspectLinks: (tenant: string, project: string) =>
+        request<{ traceLinks: TraceLink[] }>(`/trace-links/${tenant}/${project}/suspect`),
+      clearLinkSuspicion: (tenant: string, project: string, linkId: string, comment?: string) =>
+        request<{ traceLink: TraceLink }>(`/trace-links/${tenant}/${project}/${linkId}/clear-suspicion`, {
+          method: "POST",
+          body: JSON.stringify({ comment })
+        }),
+
+
+      // Attribute schema API methods
+      getAttributeSchema: (tenant: string, project: string) =>
+        request<{ schema: AttributeSchemaRecord | null }>(`/attribute-schema/${tenant}/${project}`),
+      saveAttributeSchema: (tenant: string, project: string, fields: AttributeFieldDefinition[]) =>
+        request<{ schema: AttributeSchemaRecord }>(`/attribute-schema/${tenant}/${project}`, {
+          method: "PUT",
+          body: JSON.stringify({ fields })
+        }),
+
+      // Feature model / variant API methods
+      getFeatureModel: (tenant: string, project: string) =>
+        request<{ model: FeatureModelRecord | null }>(`/feature-model/${tenant}/${project}`),
+      saveFeatureModel: (
+        tenant: string,
+        project: string,
+        body: { features: FeatureDefinition[]; constraints: FeatureConstraint[]; configurations: VariantConfiguration[] }
+      ) =>
+        request<{ model: FeatureModelRecord }>(`/feature-model/${tenant}/${project}`, {
+          method: "PUT",
+          body: JSON.stringify(body)
+        }),
+      validateFeatureConfiguration: (tenant: string, project: string, features: string[]) =>
+        request<{ valid: boolean; errors: string[] }>(`/feature-model/${tenant}/${project}/validate`, {
+          method: "POST",
+          body: JSON.stringify({ features })
+        }),
+      listPresenceConditions: (tenant: string, project: string) =>
+        request<{ conditions: PresenceConditionRecord[] }>(`/feature-model/${tenant}/${project}/presence-conditions`),
+      setPresenceCondition: (
+        tenant: string,
+        project: string,
+        body: { entityType: PresenceConditionTarget; entityId: string; condition: string | null }
+      ) =>
+        request<{ condition: PresenceConditionRecord | null }>(`/feature-model/${tenant}/${project}/presence-conditions`, {
+          method: "PUT",
+          body: JSON.stringify(body)
+        }),
+      resolveVariant: (tenant: string, project: string, configuration: string) =>
+        request<VariantResolution>(
+          `/feature-model/${tenant}/${project}/variant?configuration=${encodeURIComponent(configuration)}`
+        ),
+
+      // Trace rule API methods
+      getTraceRules: (tenant: string, project: string) =>
+        request<{ ruleSet: TraceRuleSetRecord | null }>(`/trace-rules/${tenant}/${project}`),
+      saveTraceRules: (tenant: string, project: string, body: { rules: TraceRule[]; unmatched: UnmatchedLinkPolicy }) =>
+        request<{ ruleSet: TraceRuleSetRecord }>(`/trace-rules/${tenant}/${project}`, {
+          method: "PUT",
+          body: JSON.stringify(body)
+        }),
+
+      // Project metric API methods
+      getCurrentProjectMetrics: (tenant: string, project: string) =>
+        request<{ metrics: ProjectMetricValues }>(`/project-metrics/${tenant}/${project}/current`),
+      listMetricSnapshots: (tenant: string, project: string, range: { from?: string; to?: string } = {}) => {
+        const params = new URLSearchParams();
+        if (range.from) params.append("from", range.from);
+        if (range.to) params.append("to", range.to);
+        const query = params.toString();
+        return request<{ snapshots: MetricSnapshotRecord[] }>(
+          `/project-metrics/${tenant}/${project}/snapshots${query ? `?${query}` : ""}`
+        );
+      },
+      recordMetricSnapshot: (tenant: string, project: string) =>
+        request<{ snapshot: MetricSnapshotRecord }>(`/project-metrics/${tenant}/${project}/snapshots`, {
+          method: "POST"
+        }),
+      getBurnUp: (
+        tenant: string,
+        project: string,
+        options: { measure?: BurnUpMeasure; targetDate?: string; from?: string } = {}
+      ) => {
+        const params = new URLSearchParams();
+        if (options.measure) params.append("measure", options.measure);
+        if (options.targetDate) params.append("targetDate", options.targetDate);
+        if (options.from) params.append("from", options.from);
+        const query = params.toString();
+        return request<{ measure: BurnUpMeasure; burnUp: BurnUp }>(
+          `/project-metrics/${tenant}/${project}/burnup${query ? `?${query}` : ""}`
+        );
+      },
+
+      // Glossary API methods
+      listGlossaryTerms: (tenant: string, project: string) =>
+        request<{ terms: GlossaryTerm[] }>(`/glossary/${tenant}/${project}`),
+      getGlossaryUsage: (tenant: string, project: string) =>
+        request<{ usage: GlossaryTermUsage[] }>(`/glossary/${tenant}/${project}/usage`),
+      createGlossaryTerm: (tenant: string, project: string, input: GlossaryTermInput) =>
+        request<{ term: GlossaryTerm }>(`/glossary/${tenant}/${project}`, {
+          method: "POST",
+          body: JSON.stringify(input)
+        }),
+      updateGlossaryTerm: (tenant: string, project: string, termId: string, input: GlossaryTermInput) =>
+        request<{ term: GlossaryTerm }>(`/glossary/${tenant}/${project}/${termId}`, {
+          method: "PUT",
+          body: JSON.stringify(input)
+        }),
+      deleteGlossaryTerm: (tenant: string, project: string, termId: string) =>
+        request<void>(`/glossary/${tenant}/${project}/${termId}`, { method: "DELETE" }),
+
+      // Comment API methods
+      listComments: (
+        tenant: string,
+        project: string,
+        filters: { targetType?: CommentTargetType; targetId?: string; documentSlug?: string; includeResolved?: boolean } = {}
+      ) => {
+        const params = new URLSearchParams();
+        if (filters.targetType) params.append("targetType", filters.targetType);
+        if (filters.targetId) params.append("targetId", filters.targetId);
+        if (filters.documentSlug) params.append("documentSlug", filters.documentSlug);
+        if (filters.includeResolved === false) params.append("includeResolved", "false");
+        const query = params.toString();
+        return request<{ threads: CommentThread[] }>(`/comments/${tenant}/${project}${query ? `?${query}` : ""}`);
+      },
+      getCommentCounts: (tenant: string, project: string, targetType: CommentTargetType, documentSlug?: string) => {
+        const params = new URLSearchParams({ targetType });
+        if (documentSlug) params.append("documentSlug", documentSlug);
+        return request<{ counts: CommentCounts }>(`/comments/${tenant}/${project}/counts?${params.toString()}`);
+      },
+      listMentionableUsers: (tenant: string, project: string) =>
+        request<{ users: MentionableUser[] }>(`/comments/${tenant}/${project}/mentionable-users`),
+      createComment: (tenant: string, project: string, body: CreateCommentRequest) =>
+        request<{ comment: CommentRecord }>(`/comments/${tenant}/${project}`, {
+          method: "POST",
+          body: JSON.stringify(body)
+        }),
+      updateComment: (tenant: string, project: string, commentId: string, body: string) =>
+        request<{ comment: CommentRecord }>(`/comments/${tenant}/${project}/${commentId}`, {
+          method: "PATCH",
+          body: JSON.stringify({ body })
+        }),
+      deleteComment: (tenant: string, project: string, commentId: string) =>
+        request<void>(`/comments/${tenant}/${project}/${commentId}`, { method: "DELETE" }),
+      setCommentThreadResolved: (tenant: string, project: string, commentId: string, resolved: boolean) =>
+        request<{ thread: CommentThread }>(`/comments/${tenant}/${project}/${commentId}/resolve`, {
+          method: "POST",
+          body: JSON.stringify({ resolved })
+        }),
+
+      // Notification API methods
+      listNotifications: (options: { unread?: boolean; limit?: number } = {}) => {
+        const params = new URLSearchParams();
+        if (options.unread) params.append("unread", "true");
+        if (options.limit) params.append("limit", options.limit.toString());
+        const query = params.toString();
+        return request<{ notifications: NotificationRecord[]; unreadCount: number }>(`/notifications${query ? `?${query}` : ""}`);
+      },
+      markNotificationsRead: (ids?: string[]) =>
+        request<{ updated: number }>(`/notifications/read`, {
+          method: "POST",
+          body: JSON.stringify({ ids })
+        }),      
       // Linkset API methods
       listLinksets: (tenant: string, project: string) =>
         request<{ linksets: DocumentLinkset[] }>(`/linksets/${tenant}/${project}`),
@@ -700,6 +964,20 @@ export function useApiClient() {
         }>(`/graph/data?${params}`);
       },
 
+      // Impact Analysis
+      getImpactAnalysis: (tenant: string, project: string, query: ImpactAnalysisRequest) => {
+        const params = new URLSearchParams({ kind: query.kind, id: query.id });
+        if (query.direction) params.append("direction", query.direction);
+        if (query.depth) params.append("depth", query.depth.toString());
+        return request<{ analysis: ImpactAnalysis }>(`/impact/${tenant}/${project}?${params}`);
+      },
+      downloadImpactReport: (tenant: string, project: string, query: ImpactAnalysisRequest, format: ImpactReportFormat) => {
+        const params = new URLSearchParams({ kind: query.kind, id: query.id, format });
+        if (query.direction) params.append("direction", query.direction);
+        if (query.depth) params.append("depth", query.depth.toString());
+        return requestBlob(`/impact/${tenant}/${project}/report?${params}`);
+      },
+
       // QA Scorer Worker
       startQAScorer: (tenant: string, project: string) =>
         request<{ message: string; status: QAScorerStatus }>(`/workers/qa-scorer/start`, {
@@ -815,6 +1093,30 @@ export function useApiClient() {
         projectKey?: string;
       }) =>
         request<{ success: boolean; user: any }>(`/super-admin/permissions/revoke`, { method: "POST", body: JSON.stringify(body) }),
+      getLlmUsageReport: (params: { from?: string; to?: string; tenant?: string; groupBy?: LlmUsageGroupBy } = {}) => {
+        const search = new URLSearchParams();
+        if (params.from) search.set("from", params.from);
+        if (params.to) search.set("to", params.to);
+        if (params.tenant) search.set("tenant", params.tenant);
+        if (params.groupBy) search.set("groupBy", params.groupBy);
+        return request<LlmUsageReport>(`/super-admin/llm-usage?${search.toString()}`);
+      },
+      listLlmUsageRecords: (params: { from?: string; to?: string; tenant?: string; limit?: number } = {}) => {
+        const search = new URLSearchParams();
+        if (params.from) search.set("from", params.from);
+        if (params.to) search.set("to", params.to);
+        if (params.tenant) search.set("tenant", params.tenant);
+        if (params.limit) search.set("limit", String(params.limit));
+        return request<{ records: LlmUsageRecord[] }>(`/super-admin/llm-usage/records?${search.toString()}`);
+      },
+      getLlmUsageAudit: (id: string) =>
+        request<{ audit: LlmUsageAudit }>(`/super-admin/llm-usage/records/${id}/audit`),
+      listLlmQuotas: () =>
+        request<{ quotas: LlmQuota[] }>(`/super-admin/llm-quotas`),
+      saveLlmQuota: (tenant: string, input: LlmQuotaInput) =>
+        request<{ quota: LlmQuota }>(`/super-admin/llm-quotas/${tenant}`, { method: "PUT", body: JSON.stringify(input) }),
+      deleteLlmQuota: (tenant: string) =>
+        request<{ deleted: boolean }>(`/super-admin/llm-quotas/${tenant}`, { method: "DELETE" }),
 
       // Tenant-Admin API methods
       listTenantUsers: (tenant: string) =>
@@ -842,6 +1144,34 @@ export function useApiClient() {
         }),
       listTenantProjects: (tenant: string) =>
         request<ProjectsResponse>(`/tenant-admin/${tenant}/projects`),
+      listServiceAccounts: (tenant: string) =>
+        request<ServiceAccountListResponse>(`/tenant-admin/${tenant}/service-accounts`),
+      createServiceAccount: (tenant: string, body: { name: string; description?: string; role: string }) =>
+        request<{ serviceAccount: ServiceAccountRecord }>(`/tenant-admin/${tenant}/service-accounts`, {
+          method: "POST",
+          body: JSON.stringify(body)
+        }),
+      disableServiceAccount: (tenant: string, id: string) =>
+        request<{ success: boolean }>(`/tenant-admin/${tenant}/service-accounts/${id}`, { method: "DELETE" }),
+      createServiceAccountToken: (tenant: string, id: string, body: CreateApiTokenRequest) =>
+        request<CreateApiTokenResponse>(`/tenant-admin/${tenant}/service-accounts/${id}/tokens`, {
+          method: "POST",
+          body: JSON.stringify(body)
+        }),
+      revokeServiceAccountToken: (tenant: string, id: string, tokenId: string) =>
+        request<{ success: boolean }>(`/tenant-admin/${tenant}/service-accounts/${id}/tokens/${tokenId}`, {
+          method: "DELETE"
+        }),
+
+      // Personal access token API methods
+      listApiTokenScopes: () =>
+        request<ApiTokenScopesResponse>(`/tokens/scopes`),
+      listApiTokens: () =>
+        request<ApiTokenListResponse>(`/tokens`),
+      createApiToken: (body: CreateApiTokenRequest) =>
+        request<CreateApiTokenResponse>(`/tokens`, { method: "POST", body: JSON.stringify(body) }),
+      revokeApiToken: (tokenId: string) =>
+        request<{ success: boolean }>(`/tokens/${tokenId}`, { method: "DELETE" }),
 
       // Imagine Visualization API methods
       getImagineRequirements: (tenant: string, project: string, elementId: string) =>
@@ -0,0 +1,108 @@
+import type { GlossaryTerm } from "../types";
+
+/**
+ * Glossary term detection for highlighting and exports.
+ *
+ * Mirrors findGlossaryMatches in @airgen/req-qa so what the UI highlights is
+ * what the GlossaryTerms QA rule checks: the longest overlapping form wins,
+ * abbreviations match case-sensitively, other forms ignore case and a
+ * trailing plural "s" is accepted.
+ */
+
+export type GlossaryMatchKind = "term" | "abbreviation" | "synonym" | "deprecated";
+
+export type GlossaryMatch = {
+  term: GlossaryTerm;
+  kind: GlossaryMatchKind;
+  text: string;
+  start: number;
+  end: number;
+};
+
+/** A piece of text, either plain or a glossary match */
+export type GlossarySegment = { text: string; match: GlossaryMatch | null };
+
+type CompiledForm = { term: GlossaryTerm; kind: GlossaryMatchKind; pattern: RegExp };
+
+const compiled = new WeakMap<GlossaryTerm[], CompiledForm[]>();
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function compile(terms: GlossaryTerm[]): CompiledForm[] {
+  const cached = compiled.get(terms);
+  if (cached) {
+    return cached;
+  }
+  const forms = terms.flatMap(term => [
+    { term, kind: "term" as const, form: term.term },
+    ...(term.abbreviation ? [{ term, kind: "abbreviation" as const, form: term.abbreviation }] : []),
+    ...term.synonyms.map(form => ({ term, kind: "synonym" as const, form })),
+    ...term.deprecated.map(form => ({ term, kind: "deprecated" as const, form }))
+  ])
+    .filter(({ form }) => form.trim().length > 0)
+    .map(({ term, kind, form }) => ({
+      term,
+      kind,
+      pattern: new RegExp(`(?<![A-Za-z0-9])${escapeRegex(form)}s?(?![A-Za-z0-9])`, kind === "abbreviation" ? "g" : "gi")
+    }));
+  compiled.set(terms, forms);
+  return forms;
+}
+
+export function findGlossaryMatches(text: string, terms: GlossaryTerm[]): GlossaryMatch[] {
+  const candidates: GlossaryMatch[] = [];
+  for (const { term, kind, pattern } of compile(terms)) {
+    for (const match of text.matchAll(pattern)) {
+      candidates.push({ term, kind, text: match[0], start: match.index ?? 0, end: (match.index ?? 0) + match[0].length });
+    }
+  }
+
+  candidates.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const matches: GlossaryMatch[] = [];
+  let covered = 0;
+  for (const candidate of candidates) {
+    if (candidate.start >= covered) {
+      matches.push(candidate);
+      covered = candidate.end;
+    }
+  }
+  return matches;
+}
+
+/** Split text into plain and matched segments for rendering */
+export function glossarySegments(text: string, terms: GlossaryTerm[]): GlossarySegment[] {
+  const segments: GlossarySegment[] = [];
+  let position = 0;
+  for (const match of findGlossaryMatches(text, terms)) {
+    if (match.start > position) {
+      segments.push({ text: text.slice(position, match.start), match: null });
+    }
+    segments.push({ text: match.text, match });
+    position = match.end;
+  }
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), match: null });
+  }
+  return segments;
+}
+
+/** Hover text for a match */
+export function describeGlossaryMatch(match: GlossaryMatch): string {
+  const { term } = match;
+  const name = term.abbreviation ? `${term.term} (${term.abbreviation})` : term.term;
+  const definition = term.definition ? `: ${term.definition}` : "";
+  return match.kind === "deprecated"
+    ? `Deprecated, use "${term.term}"${definition}`
+    : `${name}${definition}`;
+}
+
+/** Terms used anywhere in the given texts, in glossary order */
+export function glossaryTermsUsed(texts: string[], terms: GlossaryTerm[]): GlossaryTerm[] {
+  const used = new Set<string>();
+  for (const text of texts) {
+    findGlossaryMatches(text, terms).forEach(match => used.add(match.term.id));
+  }
+  return terms.filter(term => used.has(term.id));
+}
@@ -21,6 +21,7 @@ import type {
 import { ArchitecturePalette } from "./components/ArchitecturePalette";
 import { DiagramTabs } from "./components/DiagramTabs";
 import { DiagramCanvas, type DiagramCanvasHandle } from "../../components/diagram/DiagramCanvas";
+import { PresenceConditionField, VariantSelector, useVariantExclusions } from "../../components/variants/VariantControls";
 import { BLOCK_PRESETS } from "./constants";
 import { computeBlockPlacement, mapConnectorToEdge } from "./utils/diagram";
 import type { BlockPreset } from "./types";
@@ -160,6 +161,8 @@ export function ArchitectureWorkspace({
   const [selectedBlockIds, setSelectedBlockIds] = useState<string[]>([]);
   const [selectedConnectorId, setSelectedConnectorId] = useState<string | null>(null);
   const [hiddenTabIds, setHiddenTabIds] = useState<Set<string>>(new Set());
+  const [variant, setVariant] = useState("");
+  const exclusions = useVariantExclusions(tenant, project, variant);
   const [diagramViewports, setDiagramViewports] = useState<Record<string, { x: number; y: number; zoom: number }>>({});
   const [leftPaneWidth, setLeftPaneWidth] = useState<number>(() => {
     const saved = localStorage.getItem('airgen:leftPaneWidth');
@@ -347,6 +350,22 @@ export function ArchitectureWorkspace({
   }, [activeDiagramId, diagramViewports]);
 
   const documents = useMemo(() => documentList, [documentList]);
+  // With a variant selected, the canvas shows only its blocks and the connectors between them
+  const visibleArchitecture = useMemo(() => {
+    if (!exclusions) {
+      return architecture;
+    }
+    const blocks = architecture.blocks.filter(block => !exclusions.blocks.has(block.id));
+    const blockIds = new Set(blocks.map(block => block.id));
+    return {
+      ...architecture,
+      blocks,
+      connectors: architecture.connectors.filter(connector =>
+        !exclusions.connectors.has(connector.id) && blockIds.has(connector.source) && blockIds.has(connector.target)
+      )
+    };
+  }, [architecture, exclusions]);
+
   const blocksInDiagram = useMemo(() => new Set(architecture.blocks.map(block => block.id)), [architecture.blocks]);
 
   const handleCreateDiagram = useCallback(() => {
@@ -513,6 +532,7 @@ export function ArchitectureWorkspace({
           <p>Compose SysML views for {project}</p>
         </div>
         <div className="architecture-header-actions">
+          <VariantSelector tenant={tenant} project={project} value={variant} onChange={setVariant} />
           <button className="ghost-button" onClick={handleCreateDiagram}>
             + Diagram
           </button>
@@ -573,7 +593,7 @@ export function ArchitectureWorkspace({
           ref={canvasRef}
           tenant={tenant}
           project={project}
-          architecture={architecture}
+          architecture={visibleArchitecture}
           activeDiagram={activeDiagram}
           activeDiagramId={activeDiagramId}
           documents={documents}
@@ -636,6 +656,17 @@ export function ArchitectureWorkspace({
             />
           )}
 
+          {selectedBlock && selectedBlocks.length <= 1 && (
+            <PresenceConditionField
+              className="panel"
+              tenant={tenant}
+              project={project}
+              entityType="block"
+              entityId={selectedBlock.id}
+              condition={selectedBlock.presenceCondition}
+            />
+          )}
+
           {selectedConnector && (
             <ConnectorDetailsPanel
               connector={selectedConnector}
@@ -647,6 +678,17 @@ export function ArchitectureWorkspace({
             />
           )}
 
+          {selectedConnector && (
+            <PresenceConditionField
+              className="panel"
+              tenant={tenant}
+              project={project}
+              entityType="connector"
+              entityId={selectedConnector.id}
+              condition={selectedConnector.presenceCondition}
+            />
+          )}
+
           {!selectedBlock && selectedBlocks.length <= 1 && !selectedConnector && (
             <div className="architecture-hint">
               <h3>Workspace tips</h3>
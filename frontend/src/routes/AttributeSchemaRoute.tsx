@@ -0,0 +1,342 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, Plus, SlidersHorizontal, Trash2 } from "lucide-react";
+import { useApiClient } from "../lib/client";
+import { useTenantProject } from "../hooks/useTenantProject";
+import { useUserRole } from "../hooks/useUserRole";
+import { Spinner } from "../components/Spinner";
+import { ErrorState } from "../components/ErrorState";
+import { PageLayout } from "../components/layout/PageLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { EmptyState } from "../components/ui/empty-state";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "../components/ui/table";
+import type { AttributeFieldDefinition, AttributeFieldType, RequirementAttributeValue } from "../types";
+
+const FIELD_TYPES: Array<{ value: AttributeFieldType; label: string }> = [
+  { value: "string", label: "Text" },
+  { value: "enum", label: "Enum" },
+  { value: "multi-select", label: "Multi-select" },
+  { value: "number", label: "Number" },
+  { value: "date", label: "Date" },
+  { value: "boolean", label: "Yes / No" },
+  { value: "user", label: "User" }
+];
+
+/** Editable form of a field; list and number inputs are kept as text until saved */
+type DraftField = {
+  key: string;
+  label: string;
+  type: AttributeFieldType;
+  description: string;
+  required: boolean;
+  options: string;
+  min: string;
+  max: string;
+  defaultValue: string;
+};
+
+const selectClassName = "h-9 rounded-md border border-input bg-background px-2 text-sm";
+
+function toDraft(field: AttributeFieldDefinition): DraftField {
+  const defaultValue = field.defaultValue;
+  return {
+    key: field.key,
+    label: field.label,
+    type: field.type,
+    description: field.description ?? "",
+    required: field.required,
+    options: (field.options ?? []).join(", "),
+    min: field.min !== undefined ? String(field.min) : "",
+    max: field.max !== undefined ? String(field.max) : "",
+    defaultValue: defaultValue === undefined || defaultValue === null
+      ? ""
+      : Array.isArray(defaultValue) ? defaultValue.join(", ") : String(defaultValue)
+  };
+}
+
+function parseDefault(draft: DraftField): RequirementAttributeValue | undefined {
+  const text = draft.defaultValue.trim();
+  if (!text) return undefined;
+  switch (draft.type) {
+    case "number":
+      return Number(text);
+    case "boolean":
+      return text === "true";
+    case "multi-select":
+      return text.split(",").map(item => item.trim()).filter(Boolean);
+    default:
+      return text;
+  }
+}
+
+function fromDraft(draft: DraftField): AttributeFieldDefinition {
+  const hasOptions = draft.type === "enum" || draft.type === "multi-select";
+  return {
+    key: draft.key.trim(),
+    label: draft.label.trim() || draft.key.trim(),
+    type: draft.type,
+    description: draft.description.trim() || undefined,
+    required: draft.required,
+    options: hasOptions ? draft.options.split(",").map(option => option.trim()).filter(Boolean) : undefined,
+    min: draft.type === "number" && draft.min !== "" ? Number(draft.min) : undefined,
+    max: draft.type === "number" && draft.max !== "" ? Number(draft.max) : undefined,
+    defaultValue: parseDefault(draft)
+  };
+}
+
+const emptyField = (): DraftField => ({
+  key: "",
+  label: "",
+  type: "string",
+  description: "",
+  required: false,
+  options: "",
+  min: "",
+  max: "",
+  defaultValue: ""
+});
+
+/**
+ * Project attribute schema editor: typed custom attributes for requirements.
+ */
+export function AttributeSchemaRoute(): JSX.Element {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+  const { state } = useTenantProject();
+  const { isAdmin } = useUserRole();
+  const tenant = state.tenant ?? "";
+  const project = state.project ?? "";
+  const canEdit = Boolean(tenant && project && isAdmin(tenant, project));
+  const [drafts, setDrafts] = useState<DraftField[]>([]);
+
+  const schemaQuery = useQuery({
+    queryKey: ["attribute-schema", tenant, project],
+    queryFn: () => api.getAttributeSchema(tenant, project),
+    enabled: Boolean(tenant && project)
+  });
+
+  useEffect(() => {
+    setDrafts((schemaQuery.data?.schema?.fields ?? []).map(toDraft));
+  }, [schemaQuery.data]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => api.saveAttributeSchema(tenant, project, drafts.map(fromDraft)),
+    onSuccess: data => {
+      queryClient.setQueryData(["attribute-schema", tenant, project], data);
+      toast.success("Attribute schema saved");
+    },
+    onError: (error: Error) => toast.error(error.message)
+  });
+
+  const updateDraft = (index: number, changes: Partial<DraftField>) => {
+    setDrafts(current => current.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const moveDraft = (index: number, offset: number) => {
+    setDrafts(current => {
+      const next = [...current];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  if (!state.tenant || !state.project) {
+    return (
+      <PageLayout title="Attribute Schema" description="Select a tenant and project to manage its attribute schema.">
+        <Card>
+          <CardContent className="py-8">
+            <EmptyState
+              icon={SlidersHorizontal}
+              title="No Project Selected"
+              description="Select a tenant and project to manage its attribute schema."
+            />
+          </CardContent>
+        </Card>
+      </PageLayout>
+    );
+  }
+
+  return (
+    <PageLayout title="Attribute Schema" description={`${state.tenant} / ${state.project}`}>
+      <Card>
+        <CardHeader>
+          <CardTitle>Requirement attributes</CardTitle>
+          <CardDescription>
+            Typed custom attributes are validated whenever a requirement is created or updated. Keys are matched
+            case-insensitively, so "priority" is stored as "Priority". Give required fields a default so imports and
+            accepted candidates still validate.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {schemaQuery.isLoading ? (
+            <div className="flex justify-center py-6"><Spinner /></div>
+          ) : schemaQuery.isError ? (
+            <ErrorState message={(schemaQuery.error as Error).message} />
+          ) : drafts.length === 0 ? (
+            <EmptyState
+              icon={SlidersHorizontal}
+              title="No attributes defined"
+              description="Requirements in this project accept any custom attributes until you define a schema."
+            />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Options / range</TableHead>
+                  <TableHead>Default</TableHead>
+                  <TableHead>Required</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drafts.map((draft, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Input
+                        value={draft.key}
+                        onChange={e => updateDraft(index, { key: e.target.value })}
+                        placeholder="Priority"
+                        disabled={!canEdit}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={draft.label}
+                        onChange={e => updateDraft(index, { label: e.target.value })}
+                        placeholder={draft.key || "Label"}
+                        disabled={!canEdit}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <select
+                        className={selectClassName}
+                        value={draft.type}
+                        onChange={e => updateDraft(index, { type: e.target.value as AttributeFieldType })}
+                        disabled={!canEdit}
+                      >
+                        {FIELD_TYPES.map(type => (
+                          <option key={type.value} value={type.value}>{type.label}</option>
+                        ))}
+                      </select>
+                    </TableCell>
+                    <TableCell>
+                      {draft.type === "enum" || draft.type === "multi-select" ? (
+                        <Input
+                          value={draft.options}
+                          onChange={e => updateDraft(index, { options: e.target.value })}
+                          placeholder="High, Medium, Low"
+                          disabled={!canEdit}
+                        />
+                      ) : draft.type === "number" ? (
+                        <div className="flex gap-2">
+                          <Input
+                            type="number"
+                            value={draft.min}
+                            onChange={e => updateDraft(index, { min: e.target.value })}
+                            placeholder="Min"
+                            disabled={!canEdit}
+                          />
+                          <Input
+                            type="number"
+                            value={draft.max}
+                            onChange={e => updateDraft(index, { max: e.target.value })}
+                            placeholder="Max"
+                            disabled={!canEdit}
+                          />
+                        </div>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {draft.type === "boolean" ? (
+                        <select
+                          className={selectClassName}
+                          value={draft.defaultValue}
+                          onChange={e => updateDraft(index, { defaultValue: e.target.value })}
+                          disabled={!canEdit}
+                        >
+                          <option value="">None</option>
+                          <option value="true">Yes</option>
+                          <option value="false">No</option>
+                        </select>
+                      ) : draft.type === "user" ? (
+                        <span className="text-xs text-muted-foreground">—</span>
+                      ) : (
+                        <Input
+                          type={draft.type === "number" ? "number" : draft.type === "date" ? "date" : "text"}
+                          value={draft.defaultValue}
+                          onChange={e => updateDraft(index, { defaultValue: e.target.value })}
+                          placeholder="None"
+                          disabled={!canEdit}
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <input
+                        type="checkbox"
+                        checked={draft.required}
+                        onChange={e => updateDraft(index, { required: e.target.checked })}
+                        disabled={!canEdit}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {canEdit && (
+                        <div className="flex gap-1">
+                          <Button type="button" size="icon" variant="ghost" disabled={index === 0} onClick={() => moveDraft(index, -1)} title="Move up">
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button type="button" size="icon" variant="ghost" disabled={index === drafts.length - 1} onClick={() => moveDraft(index, 1)} title="Move down">
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setDrafts(current => current.filter((_, i) => i !== index))}
+                            title="Remove field"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {canEdit ? (
+            <div className="flex justify-between">
+              <Button type="button" variant="outline" onClick={() => setDrafts(current => [...current, emptyField()])}>
+                <Plus className="h-4 w-4" /> Add field
+              </Button>
+              <Button
+                type="button"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || drafts.some(draft => !draft.key.trim())}
+              >
+                {saveMutation.isPending ? "Saving…" : "Save schema"}
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Only project admins can change the attribute schema.</p>
+          )}
+          {schemaQuery.data?.schema && (
+            <p className="text-xs text-muted-foreground">
+              Version {schemaQuery.data.schema.version}, last updated {new Date(schemaQuery.data.schema.updatedAt).toLocaleString()}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </PageLayout>
+  );
+}
@@ -12,9 +12,9 @@ import { Input } from "../components/ui/input";
 import { FormField } from "../components/ui/form-field";
 import { EmptyState } from "../components/ui/empty-state";
 import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "../components/ui/table";
-import { GitBranch, GitCompare, ChevronDown, ChevronRight, Trash2, Eye, X } from "lucide-react";
+import { GitBranch, GitCompare, GitMerge, ChevronDown, ChevronRight, Trash2, Eye, X, FileDown, RotateCcw } from "lucide-react";
 
-import type { BaselineRecord } from "../types";
+import type { BaselineRecord, BaselineRestorePlan, BranchMergeResult, BranchMergeStatus, BranchRecord } from "../types";
 
 function formatDate(value: string): string {
   try {
@@ -173,6 +173,431 @@ function BaselineDetailPanel({ tenant, project, baselineRef, baseline, onClose }
             })}
           </div>
         ) : null}
+        <BaselineRestoreSection tenant={tenant} project={project} baselineRef={baselineRef} />
+      </CardContent>
+    </Card>
+  );
+}
+
+const RESTORE_ACTION_LABELS: Record<BaselineRestorePlan["actions"][number]["action"], string> = {
+  update: "Update",
+  undelete: "Undelete",
+  recreate: "Recreate",
+  delete: "Remove",
+  skip: "Skipped"
+};
+
+const RESTORE_ENTITY_LABELS: Record<BaselineRestorePlan["actions"][number]["entityType"], string> = {
+  document: "Document",
+  section: "Section",
+  requirement: "Requirement",
+  traceLink: "Trace link"
+};
+
+/** Preview and apply a restore of the project or one document to a baseline */
+function BaselineRestoreSection({ tenant, project, baselineRef }: {
+  tenant: string;
+  project: string;
+  baselineRef: string;
+}) {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+  const [documentSlug, setDocumentSlug] = useState("");
+  const [plan, setPlan] = useState<BaselineRestorePlan | null>(null);
+  const [confirming, setConfirming] = useState(false);
+
+  const documentsQuery = useQuery({
+    queryKey: ["documents", tenant, project],
+    queryFn: () => api.listDocuments(tenant, project)
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (dryRun: boolean) => api.restoreBaseline(tenant, project, baselineRef, documentSlug
+      ? { scope: "document", documentSlug, dryRun }
+      : { scope: "project", dryRun }),
+    onSuccess: result => {
+      setPlan(result);
+      setConfirming(false);
+      if (!result.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ["requirements", tenant, project] });
+        queryClient.invalidateQueries({ queryKey: ["documents", tenant, project] });
+      }
+    }
+  });
+
+  const pending = plan ? plan.actions.length - plan.summary.skip : 0;
+
+  return (
+    <div className="mt-6 border-t pt-4 space-y-3">
+      <h4 className="text-sm font-semibold">Restore to this baseline</h4>
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <label htmlFor="restore-scope" className="text-xs text-muted-foreground">Scope</label>
+          <select
+            id="restore-scope"
+            value={documentSlug}
+            onChange={e => { setDocumentSlug(e.target.value); setPlan(null); setConfirming(false); }}
+            className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            <option value="">Whole project</option>
+            {(documentsQuery.data?.documents ?? []).map(doc => (
+              <option key={doc.slug} value={doc.slug}>{doc.name}</option>
+            ))}
+          </select>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={restoreMutation.isPending}
+          onClick={() => restoreMutation.mutate(true)}
+        >
+          <Eye className="h-4 w-4 mr-1" />
+          Preview
+        </Button>
+      </div>
+
+      {restoreMutation.isError && <ErrorState message={(restoreMutation.error as Error).message} />}
+
+      {plan && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            {plan.dryRun
+              ? `${pending} change${pending === 1 ? "" : "s"} needed${plan.summary.skip ? `, ${plan.summary.skip} skipped` : ""}.`
+              : `Restored ${pending} item${pending === 1 ? "" : "s"} to ${plan.baselineRef}.`}
+          </p>
+          {plan.actions.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plan.actions.map(action => (
+                  <TableRow key={`${action.entityType}:${action.entityId}`}>
+                    <TableCell className="text-sm">{RESTORE_ENTITY_LABELS[action.entityType]}</TableCell>
+                    <TableCell className="text-sm">{truncate(action.label, 60)}</TableCell>
+                    <TableCell className={`text-sm ${action.action === "skip" ? "text-muted-foreground" : action.action === "delete" ? "text-red-600 dark:text-red-400" : ""}`}>
+                      {RESTORE_ACTION_LABELS[action.action]}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{action.reason ?? action.fields.join(", ")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {plan.dryRun && pending > 0 && (
+            confirming ? (
+              <div className="flex gap-2 items-center">
+                <span className="text-sm">Apply {pending} change{pending === 1 ? "" : "s"}?</span>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  disabled={restoreMutation.isPending}
+                  onClick={() => restoreMutation.mutate(false)}
+                >
+                  {restoreMutation.isPending ? "..." : "Confirm"}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setConfirming(false)}>
+                  Cancel
+                </Button>
+              </div>
+            ) : (
+              <Button size="sm" onClick={() => setConfirming(true)}>
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Apply restore
+              </Button>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const BRANCH_STATUS_LABELS: Record<BranchMergeStatus, string> = {
+  "unchanged": "Unchanged",
+  "branch-changed": "Changed in branch",
+  "mainline-changed": "Changed in project",
+  "both-changed-same": "Same change on both",
+  "conflict": "Conflict",
+  "added": "Added in branch",
+  "branch-deleted": "Deleted in branch",
+  "mainline-deleted": "Deleted in project"
+};
+
+const MERGE_ACTION_LABELS: Record<BranchMergeResult["actions"][number]["action"], string> = {
+  update: "Update",
+  create: "Create",
+  delete: "Delete",
+  undelete: "Undelete",
+  sync: "Mark merged",
+  skip: "Skip"
+};
+
+/** Fork the project into branches, compare them with it and merge requirement changes back */
+function BranchesCard({ tenant, project, baselines }: {
+  tenant: string;
+  project: string;
+  baselines: BaselineRecord[];
+}) {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+  const [slug, setSlug] = useState("");
+  const [baselineRef, setBaselineRef] = useState("HEAD");
+  const [documentSlug, setDocumentSlug] = useState("");
+  const [selectedBranch, setSelectedBranch] = useState<BranchRecord | null>(null);
+  const [resolveWithBranch, setResolveWithBranch] = useState<string[]>([]);
+  const [mergePlan, setMergePlan] = useState<BranchMergeResult | null>(null);
+  const [confirming, setConfirming] = useState(false);
+
+  const branchesQuery = useQuery({
+    queryKey: ["branches", tenant, project],
+    queryFn: () => api.listBranches(tenant, project)
+  });
+
+  const documentsQuery = useQuery({
+    queryKey: ["documents", tenant, project],
+    queryFn: () => api.listDocuments(tenant, project)
+  });
+
+  const compareQuery = useQuery({
+    queryKey: ["branch-compare", tenant, project, selectedBranch?.slug],
+    queryFn: () => api.compareBranch(tenant, project, selectedBranch!.slug),
+    enabled: Boolean(selectedBranch)
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createBranch(tenant, project, {
+      slug,
+      baselineRef,
+      documentSlugs: documentSlug ? [documentSlug] : undefined
+    }),
+    onSuccess: () => {
+      setSlug("");
+      queryClient.invalidateQueries({ queryKey: ["branches", tenant, project] });
+    }
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: (dryRun: boolean) => api.mergeBranch(tenant, project, selectedBranch!.slug, { resolveWithBranch, dryRun }),
+    onSuccess: result => {
+      setMergePlan(result);
+      setConfirming(false);
+      if (!result.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ["requirements", tenant, project] });
+        queryClient.invalidateQueries({ queryKey: ["branch-compare", tenant, project, selectedBranch?.slug] });
+      }
+    }
+  });
+
+  const selectBranch = (branch: BranchRecord | null) => {
+    setSelectedBranch(branch);
+    setResolveWithBranch([]);
+    setMergePlan(null);
+    setConfirming(false);
+  };
+
+  const handleCreate = (event: FormEvent) => {
+    event.preventDefault();
+    if (slug.trim()) {
+      createMutation.mutate();
+    }
+  };
+
+  const changed = (compareQuery.data?.requirements ?? []).filter(r => r.status !== "unchanged");
+  const pending = mergePlan ? mergePlan.actions.length - mergePlan.summary.skip : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Branches</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-2">
+          <FormField label="Branch slug" htmlFor="branch-slug">
+            <Input id="branch-slug" value={slug} onChange={e => setSlug(e.target.value)} placeholder="e.g. rover-block2" />
+          </FormField>
+          <FormField label="From" htmlFor="branch-baseline">
+            <select
+              id="branch-baseline"
+              value={baselineRef}
+              onChange={e => setBaselineRef(e.target.value)}
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              <option value="HEAD">Current state (HEAD)</option>
+              {baselines.map((item, index) => (
+                <option key={buildBaselineKey(item, index)} value={item.ref}>{item.ref}</option>
+              ))}
+            </select>
+          </FormField>
+          <FormField label="Scope" htmlFor="branch-scope">
+            <select
+              id="branch-scope"
+              value={documentSlug}
+              onChange={e => setDocumentSlug(e.target.value)}
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              <option value="">Whole project</option>
+              {(documentsQuery.data?.documents ?? []).map(doc => (
+                <option key={doc.slug} value={doc.slug}>{doc.name}</option>
+              ))}
+            </select>
+          </FormField>
+          <Button type="submit" size="sm" disabled={!slug.trim() || createMutation.isPending}>
+            <GitBranch className="h-4 w-4 mr-1" />
+            {createMutation.isPending ? "Creating..." : "Create branch"}
+          </Button>
+        </form>
+        {createMutation.isError && <ErrorState message={(createMutation.error as Error).message} />}
+
+        {branchesQuery.isLoading ? (
+          <div className="flex justify-center py-4"><Spinner /></div>
+        ) : branchesQuery.isError ? (
+          <ErrorState message={(branchesQuery.error as Error).message} />
+        ) : (branchesQuery.data?.branches.length ?? 0) === 0 ? (
+          <p className="text-sm text-muted-foreground">No branches yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Branch</TableHead>
+                <TableHead>Forked from</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {branchesQuery.data!.branches.map(branch => (
+                <TableRow key={branch.slug}>
+                  <TableCell className="font-medium">{branch.slug}</TableCell>
+                  <TableCell className="text-sm">{branch.baselineRef}</TableCell>
+                  <TableCell className="text-sm">{branch.documentSlugs?.join(", ") ?? "Whole project"}</TableCell>
+                  <TableCell className="text-sm">{formatDate(branch.createdAt)}{branch.createdBy ? ` by ${branch.createdBy}` : ""}</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" onClick={() => selectBranch(branch)}>
+                      <GitCompare className="h-4 w-4 mr-1" />
+                      Compare
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {selectedBranch && (
+          <div className="border-t pt-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold">{selectedBranch.slug} compared with {project}</h4>
+              <Button variant="ghost" size="sm" onClick={() => selectBranch(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            {compareQuery.isLoading ? (
+              <div className="flex justify-center py-4"><Spinner /></div>
+            ) : compareQuery.isError ? (
+              <ErrorState message={(compareQuery.error as Error).message} />
+            ) : changed.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No requirement differences.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Requirement</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Use branch version</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changed.map(item => (
+                    <TableRow key={item.requirementId}>
+                      <TableCell className="text-sm">{item.ref}</TableCell>
+                      <TableCell className={`text-sm ${item.status === "conflict" ? "text-red-600 dark:text-red-400" : ""}`}>
+                        {BRANCH_STATUS_LABELS[item.status]}
+                      </TableCell>
+                      <TableCell>
+                        {item.status === "conflict" && (
+                          <input
+                            type="checkbox"
+                            checked={resolveWithBranch.includes(item.requirementId)}
+                            onChange={e => {
+                              setResolveWithBranch(current => e.target.checked
+                                ? [...current, item.requirementId]
+                                : current.filter(id => id !== item.requirementId));
+                              setMergePlan(null);
+                            }}
+                          />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={mergeMutation.isPending || changed.length === 0}
+              onClick={() => mergeMutation.mutate(true)}
+            >
+              <Eye className="h-4 w-4 mr-1" />
+              Preview merge
+            </Button>
+            {mergeMutation.isError && <ErrorState message={(mergeMutation.error as Error).message} />}
+
+            {mergePlan && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {mergePlan.dryRun
+                    ? `${pending} change${pending === 1 ? "" : "s"} to merge${mergePlan.summary.skip ? `, ${mergePlan.summary.skip} skipped` : ""}.`
+                    : `Merged ${pending} requirement${pending === 1 ? "" : "s"} into ${mergePlan.targetProject}.`}
+                </p>
+                <Table>
+                  <TableBody>
+                    {mergePlan.actions.filter(action => action.status !== "unchanged").map(action => (
+                      <TableRow key={action.requirementId}>
+                        <TableCell className="text-sm">{action.ref}</TableCell>
+                        <TableCell className={`text-sm ${action.action === "skip" ? "text-muted-foreground" : ""}`}>
+                          {MERGE_ACTION_LABELS[action.action]}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">{action.reason ?? ""}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {mergePlan.dryRun && pending > 0 && (
+                  confirming ? (
+                    <div className="flex gap-2 items-center">
+                      <span className="text-sm">Merge {pending} change{pending === 1 ? "" : "s"} into {project}?</span>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        disabled={mergeMutation.isPending}
+                        onClick={() => mergeMutation.mutate(false)}
+                      >
+                        {mergeMutation.isPending ? "..." : "Confirm"}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setConfirming(false)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button size="sm" onClick={() => setConfirming(true)}>
+                      <GitMerge className="h-4 w-4 mr-1" />
+                      Merge
+                    </Button>
+                  )
+                )}
+              </div>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -272,6 +697,20 @@ export function BaselinesRoute(): JSX.Element {
     enabled: Boolean(state.tenant && state.project && fromBaseline && toBaseline && showComparison)
   });
 
+  const reportMutation = useMutation({
+    mutationFn: async (format: "pdf" | "docx") => {
+      const blob = await api.downloadBaselineChangeReport(state.tenant ?? "", state.project ?? "", fromBaseline, toBaseline, format);
+      const link = document.createElement("a");
+      const url = URL.createObjectURL(blob);
+      link.href = url;
+      link.download = `${state.project}-${fromBaseline}-to-${toBaseline}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    }
+  });
+
   const handleSubmit = (event: FormEvent) => {
     event.preventDefault();
     createBaselineMutation.mutate({
@@ -515,6 +954,7 @@ export function BaselinesRoute(): JSX.Element {
                           {item.ref} - {item.label || formatDate(item.createdAt)}
                         </option>
                       ))}
+                      <option value="HEAD">HEAD - Current working state</option>
                     </select>
                   </FormField>
                   <div className="flex items-end">
@@ -538,9 +978,28 @@ export function BaselinesRoute(): JSX.Element {
                 )}
                 {showComparison && comparisonQuery.data && (
                   <div className="space-y-4">
-                    <h3 className="text-lg font-semibold">
-                      Comparison: {comparisonQuery.data.fromBaseline.ref} → {comparisonQuery.data.toBaseline.ref}
-                    </h3>
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <h3 className="text-lg font-semibold">
+                        Comparison: {comparisonQuery.data.fromBaseline.ref} → {comparisonQuery.data.toBaseline.ref}
+                      </h3>
+                      <div className="flex gap-2">
+                        {(["pdf", "docx"] as const).map(format => (
+                          <Button
+                            key={format}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => reportMutation.mutate(format)}
+                            disabled={reportMutation.isPending}
+                          >
+                            <FileDown className="h-4 w-4 mr-2" />
+                            Change report ({format.toUpperCase()})
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    {reportMutation.isError && (
+                      <ErrorState message={(reportMutation.error as Error).message} />
+                    )}
 
                     {/* Summary table */}
                     <div className="overflow-x-auto">
@@ -623,6 +1082,10 @@ export function BaselinesRoute(): JSX.Element {
             )}
           </CardContent>
         </Card>
+
+        {state.tenant && state.project && (
+          <BranchesCard tenant={state.tenant} project={state.project} baselines={baselinesQuery.data?.items ?? []} />
+        )}
       </div>
     </PageLayout>
   );
@@ -13,6 +13,7 @@ import { SystemHealthCard } from "../components/dashboard/SystemHealthCard";
 import { TenantsTable } from "../components/dashboard/TenantsTable";
 import { QAScorerPanel } from "../components/dashboard/QAScorerPanel";
 import { ProjectMetricsOverview } from "../components/dashboard/ProjectMetricsOverview";
+import { MetricTrendsPanel } from "../components/dashboard/MetricTrendsPanel";
 import { CreateTenantModal } from "../components/dashboard/modals/CreateTenantModal";
 import { CreateProjectModal } from "../components/dashboard/modals/CreateProjectModal";
 import { InviteUserDialog } from "../components/dashboard/modals/InviteUserDialog";
@@ -175,6 +176,13 @@ export function DashboardRoute(): JSX.Element {
               />
             )}
           </div>
+          <PageHeader
+            title="Coverage Trends"
+            description="Daily snapshots of traceability, verification and quality with burn-up to a target date"
+          />
+          <div className="mb-8">
+            <MetricTrendsPanel tenant={state.tenant!} project={state.project!} />
+          </div>
         </>
       )}
 
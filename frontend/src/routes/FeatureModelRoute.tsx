@@ -0,0 +1,411 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Plus, Split, Trash2 } from "lucide-react";
+import { useApiClient } from "../lib/client";
+import { useTenantProject } from "../hooks/useTenantProject";
+import { useUserRole } from "../hooks/useUserRole";
+import { Spinner } from "../components/Spinner";
+import { ErrorState } from "../components/ErrorState";
+import { PageLayout } from "../components/layout/PageLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { EmptyState } from "../components/ui/empty-state";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "../components/ui/table";
+import type { FeatureConstraint, FeatureDefinition, FeatureGroupKind, FeatureModelRecord } from "../types";
+
+const GROUP_KINDS: Array<{ value: FeatureGroupKind; label: string }> = [
+  { value: "and", label: "All mandatory, any optional" },
+  { value: "alternative", label: "Exactly one (alternative)" },
+  { value: "or", label: "At least one (or)" }
+];
+
+/** Editable form of a saved configuration; features are kept as comma-separated text until saved */
+type DraftConfiguration = {
+  name: string;
+  description: string;
+  features: string;
+};
+
+const selectClassName = "h-9 rounded-md border border-input bg-background px-2 text-sm";
+
+const emptyFeature = (parentId: string | null): FeatureDefinition => ({
+  id: "",
+  name: "",
+  parentId,
+  optional: parentId !== null,
+  group: "and"
+});
+
+function toDraftConfigurations(model: FeatureModelRecord | null | undefined): DraftConfiguration[] {
+  return (model?.configurations ?? []).map(configuration => ({
+    name: configuration.name,
+    description: configuration.description ?? "",
+    features: configuration.features.join(", ")
+  }));
+}
+
+/**
+ * Product-line variability: the project's feature model, constraints and
+ * saved variant configurations, plus where presence conditions are used.
+ */
+export function FeatureModelRoute(): JSX.Element {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+  const { state } = useTenantProject();
+  const { isAdmin } = useUserRole();
+  const tenant = state.tenant ?? "";
+  const project = state.project ?? "";
+  const canEdit = Boolean(tenant && project && isAdmin(tenant, project));
+  const [features, setFeatures] = useState<FeatureDefinition[]>([]);
+  const [constraints, setConstraints] = useState<FeatureConstraint[]>([]);
+  const [configurations, setConfigurations] = useState<DraftConfiguration[]>([]);
+
+  const modelQuery = useQuery({
+    queryKey: ["feature-model", tenant, project],
+    queryFn: () => api.getFeatureModel(tenant, project),
+    enabled: Boolean(tenant && project)
+  });
+
+  const conditionsQuery = useQuery({
+    queryKey: ["presence-conditions", tenant, project],
+    queryFn: () => api.listPresenceConditions(tenant, project),
+    enabled: Boolean(tenant && project)
+  });
+
+  useEffect(() => {
+    const model = modelQuery.data?.model;
+    setFeatures(model?.features ?? []);
+    setConstraints(model?.constraints ?? []);
+    setConfigurations(toDraftConfigurations(model));
+  }, [modelQuery.data]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => api.saveFeatureModel(tenant, project, {
+      features: features.map(feature => ({
+        ...feature,
+        id: feature.id.trim(),
+        name: feature.name.trim() || feature.id.trim(),
+        description: feature.description?.trim() || undefined
+      })),
+      constraints: constraints
+        .filter(constraint => constraint.expression.trim())
+        .map(constraint => ({ expression: constraint.expression.trim(), description: constraint.description?.trim() || undefined })),
+      configurations: configurations.map(configuration => ({
+        name: configuration.name.trim(),
+        description: configuration.description.trim() || undefined,
+        features: configuration.features.split(",").map(id => id.trim()).filter(Boolean)
+      }))
+    }),
+    onSuccess: data => {
+      queryClient.setQueryData(["feature-model", tenant, project], data);
+      queryClient.invalidateQueries({ queryKey: ["variant", tenant, project] });
+      toast.success("Feature model saved");
+    },
+    onError: (error: Error) => toast.error(error.message)
+  });
+
+  const updateFeature = (index: number, changes: Partial<FeatureDefinition>) => {
+    setFeatures(current => current.map((feature, i) => (i === index ? { ...feature, ...changes } : feature)));
+  };
+
+  const updateConstraint = (index: number, changes: Partial<FeatureConstraint>) => {
+    setConstraints(current => current.map((constraint, i) => (i === index ? { ...constraint, ...changes } : constraint)));
+  };
+
+  const updateConfiguration = (index: number, changes: Partial<DraftConfiguration>) => {
+    setConfigurations(current => current.map((configuration, i) => (i === index ? { ...configuration, ...changes } : configuration)));
+  };
+
+  if (!state.tenant || !state.project) {
+    return (
+      <PageLayout title="Variants" description="Select a tenant and project to manage its feature model.">
+        <Card>
+          <CardContent className="py-8">
+            <EmptyState
+              icon={Split}
+              title="No Project Selected"
+              description="Select a tenant and project to manage its feature model."
+            />
+          </CardContent>
+        </Card>
+      </PageLayout>
+    );
+  }
+
+  const rootId = features.find(feature => feature.parentId === null)?.id;
+  const conditions = conditionsQuery.data?.conditions ?? [];
+
+  return (
+    <PageLayout title="Variants" description={`${state.tenant} / ${state.project}`}>
+      {modelQuery.isLoading ? (
+        <div className="flex justify-center py-6"><Spinner /></div>
+      ) : modelQuery.isError ? (
+        <ErrorState message={(modelQuery.error as Error).message} />
+      ) : (
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Feature model</CardTitle>
+              <CardDescription>
+                One root feature, with each feature deciding how its children are chosen. Children of an "all" group are
+                mandatory unless marked optional. Feature IDs are what presence conditions refer to.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {features.length === 0 ? (
+                <EmptyState
+                  icon={Split}
+                  title="No feature model"
+                  description="Requirements, sections, blocks and connectors appear in every variant until you define features."
+                />
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>ID</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Parent</TableHead>
+                      <TableHead>Optional</TableHead>
+                      <TableHead>Children</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {features.map((feature, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Input
+                            value={feature.id}
+                            onChange={e => updateFeature(index, { id: e.target.value })}
+                            placeholder="abs"
+                            className="font-mono"
+                            disabled={!canEdit}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            value={feature.name}
+                            onChange={e => updateFeature(index, { name: e.target.value })}
+                            placeholder={feature.id || "Name"}
+                            disabled={!canEdit}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <select
+                            className={selectClassName}
+                            value={feature.parentId ?? ""}
+                            onChange={e => updateFeature(index, { parentId: e.target.value || null })}
+                            disabled={!canEdit}
+                          >
+                            <option value="">(root)</option>
+                            {features
+                              .filter((candidate, i) => i !== index && candidate.id.trim())
+                              .map(candidate => (
+                                <option key={candidate.id} value={candidate.id}>{candidate.id}</option>
+                              ))}
+                          </select>
+                        </TableCell>
+                        <TableCell>
+                          <input
+                            type="checkbox"
+                            checked={feature.optional}
+                            onChange={e => updateFeature(index, { optional: e.target.checked })}
+                            disabled={!canEdit || feature.parentId === null}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <select
+                            className={selectClassName}
+                            value={feature.group}
+                            onChange={e => updateFeature(index, { group: e.target.value as FeatureGroupKind })}
+                            disabled={!canEdit}
+                          >
+                            {GROUP_KINDS.map(kind => (
+                              <option key={kind.value} value={kind.value}>{kind.label}</option>
+                            ))}
+                          </select>
+                        </TableCell>
+                        <TableCell>
+                          {canEdit && (
+                            <Button
+                              type="button"
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => setFeatures(current => current.filter((_, i) => i !== index))}
+                              title="Remove feature"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              {canEdit && (
+                <Button type="button" variant="outline" onClick={() => setFeatures(current => [...current, emptyFeature(rootId ?? null)])}>
+                  <Plus className="h-4 w-4" /> Add feature
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Constraints</CardTitle>
+              <CardDescription>
+                Cross-tree rules every configuration must satisfy, written over feature IDs with !, &amp;&amp;, || and =&gt;
+                (or not, and, or, implies). For example: <code>tracks =&gt; !lidar</code>.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {constraints.map((constraint, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    value={constraint.expression}
+                    onChange={e => updateConstraint(index, { expression: e.target.value })}
+                    placeholder="eu_market => abs"
+                    className="font-mono"
+                    disabled={!canEdit}
+                  />
+                  <Input
+                    value={constraint.description ?? ""}
+                    onChange={e => updateConstraint(index, { description: e.target.value })}
+                    placeholder="Why (optional)"
+                    disabled={!canEdit}
+                  />
+                  {canEdit && (
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setConstraints(current => current.filter((_, i) => i !== index))}
+                      title="Remove constraint"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {canEdit && (
+                <Button type="button" variant="outline" onClick={() => setConstraints(current => [...current, { expression: "" }])}>
+                  <Plus className="h-4 w-4" /> Add constraint
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Saved configurations</CardTitle>
+              <CardDescription>
+                Named feature selections offered by the variant selector in documents and diagrams. The root feature is
+                always selected; configurations that break a group rule or constraint are rejected on save.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {configurations.map((configuration, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    value={configuration.name}
+                    onChange={e => updateConfiguration(index, { name: e.target.value })}
+                    placeholder="EU base model"
+                    className="max-w-[200px]"
+                    disabled={!canEdit}
+                  />
+                  <Input
+                    value={configuration.features}
+                    onChange={e => updateConfiguration(index, { features: e.target.value })}
+                    placeholder="drive, wheels, abs"
+                    className="font-mono"
+                    disabled={!canEdit}
+                  />
+                  {canEdit && (
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setConfigurations(current => current.filter((_, i) => i !== index))}
+                      title="Remove configuration"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {canEdit && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setConfigurations(current => [...current, { name: "", description: "", features: "" }])}
+                >
+                  <Plus className="h-4 w-4" /> Add configuration
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          {canEdit ? (
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                onClick={() => saveMutation.mutate()}
+                disabled={
+                  saveMutation.isPending ||
+                  features.some(feature => !feature.id.trim()) ||
+                  configurations.some(configuration => !configuration.name.trim())
+                }
+              >
+                {saveMutation.isPending ? "Saving…" : "Save feature model"}
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Only project admins can change the feature model.</p>
+          )}
+          {modelQuery.data?.model && (
+            <p className="text-xs text-muted-foreground">
+              Version {modelQuery.data.model.version}, last updated {new Date(modelQuery.data.model.updatedAt).toLocaleString()}
+            </p>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Presence conditions</CardTitle>
+              <CardDescription>
+                Set on requirements and sections from their edit dialogs, and on blocks and connectors from the
+                architecture inspector. Entities without a condition are in every variant.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {conditions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No presence conditions yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Condition</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {conditions.map(condition => (
+                      <TableRow key={`${condition.entityType}:${condition.entityId}`}>
+                        <TableCell className="capitalize">{condition.entityType}</TableCell>
+                        <TableCell>{condition.label}</TableCell>
+                        <TableCell className="font-mono text-sm">{condition.condition}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </PageLayout>
+  );
+}
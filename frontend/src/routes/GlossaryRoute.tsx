@@ -0,0 +1,327 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { BookA, Pencil, Plus, Trash2 } from "lucide-react";
+import { useApiClient } from "../lib/client";
+import { useTenantProject } from "../hooks/useTenantProject";
+import { useUserRole } from "../hooks/useUserRole";
+import { Spinner } from "../components/Spinner";
+import { ErrorState } from "../components/ErrorState";
+import { PageLayout } from "../components/layout/PageLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Textarea } from "../components/ui/textarea";
+import { EmptyState } from "../components/ui/empty-state";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "../components/ui/table";
+import type { GlossaryTerm, GlossaryTermInput } from "../types";
+
+/** Editable form of a term; synonym and deprecated lists are kept as comma-separated text */
+type DraftTerm = {
+  term: string;
+  abbreviation: string;
+  synonyms: string;
+  deprecated: string;
+  definition: string;
+};
+
+const emptyDraft: DraftTerm = { term: "", abbreviation: "", synonyms: "", deprecated: "", definition: "" };
+
+function toDraft(term: GlossaryTerm): DraftTerm {
+  return {
+    term: term.term,
+    abbreviation: term.abbreviation ?? "",
+    synonyms: term.synonyms.join(", "),
+    deprecated: term.deprecated.join(", "),
+    definition: term.definition
+  };
+}
+
+function fromDraft(draft: DraftTerm): GlossaryTermInput {
+  const list = (value: string) => value.split(",").map(item => item.trim()).filter(Boolean);
+  return {
+    term: draft.term.trim(),
+    abbreviation: draft.abbreviation.trim() || null,
+    synonyms: list(draft.synonyms),
+    deprecated: list(draft.deprecated),
+    definition: draft.definition.trim()
+  };
+}
+
+/**
+ * The project's controlled vocabulary: preferred terms with definitions,
+ * abbreviations, accepted synonyms and deprecated forms.
+ */
+export function GlossaryRoute(): JSX.Element {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+  const { state } = useTenantProject();
+  const { isAdmin } = useUserRole();
+  const tenant = state.tenant ?? "";
+  const project = state.project ?? "";
+  const canEdit = Boolean(tenant && project && isAdmin(tenant, project));
+  const [filter, setFilter] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<DraftTerm | null>(null);
+
+  const termsQuery = useQuery({
+    queryKey: ["glossary", tenant, project],
+    queryFn: () => api.listGlossaryTerms(tenant, project),
+    enabled: Boolean(tenant && project)
+  });
+
+  const usageQuery = useQuery({
+    queryKey: ["glossary-usage", tenant, project],
+    queryFn: () => api.getGlossaryUsage(tenant, project),
+    enabled: Boolean(tenant && project)
+  });
+
+  const usageById = useMemo(
+    () => new Map((usageQuery.data?.usage ?? []).map(usage => [usage.termId, usage])),
+    [usageQuery.data]
+  );
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["glossary", tenant, project] });
+    queryClient.invalidateQueries({ queryKey: ["glossary-usage", tenant, project] });
+  };
+
+  const closeForm = () => {
+    setDraft(null);
+    setEditingId(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (input: GlossaryTermInput) => editingId
+      ? api.updateGlossaryTerm(tenant, project, editingId, input)
+      : api.createGlossaryTerm(tenant, project, input),
+    onSuccess: ({ term }) => {
+      toast.success(`Saved "${term.term}"`);
+      invalidate();
+      closeForm();
+    },
+    onError: (error: Error) => toast.error(error.message)
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (term: GlossaryTerm) => api.deleteGlossaryTerm(tenant, project, term.id),
+    onSuccess: () => {
+      toast.success("Term deleted");
+      invalidate();
+    },
+    onError: (error: Error) => toast.error(error.message)
+  });
+
+  if (!state.tenant || !state.project) {
+    return (
+      <PageLayout title="Glossary" description="Select a tenant and project to manage its glossary.">
+        <Card>
+          <CardContent className="py-8">
+            <EmptyState
+              icon={BookA}
+              title="No Project Selected"
+              description="Select a tenant and project to manage its glossary."
+            />
+          </CardContent>
+        </Card>
+      </PageLayout>
+    );
+  }
+
+  const terms = termsQuery.data?.terms ?? [];
+  const needle = filter.trim().toLowerCase();
+  const visibleTerms = needle
+    ? terms.filter(term => [term.term, term.abbreviation ?? "", ...term.synonyms, ...term.deprecated, term.definition]
+      .some(value => value.toLowerCase().includes(needle)))
+    : terms;
+  const deprecatedUses = terms.flatMap(term => (usageById.get(term.id)?.deprecatedUses ?? []).map(use => ({ ...use, term })));
+
+  const updateDraft = (changes: Partial<DraftTerm>) => setDraft(current => ({ ...(current ?? emptyDraft), ...changes }));
+
+  return (
+    <PageLayout title="Glossary" description={`${state.tenant} / ${state.project}`}>
+      {termsQuery.isLoading ? (
+        <div className="flex justify-center py-6"><Spinner /></div>
+      ) : termsQuery.isError ? (
+        <ErrorState message={(termsQuery.error as Error).message} />
+      ) : (
+        <div className="space-y-6">
+          {draft && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{editingId ? "Edit term" : "Add term"}</CardTitle>
+                <CardDescription>
+                  Synonyms are accepted alternatives; deprecated forms are flagged by the GlossaryTerms QA rule with the
+                  preferred term as the fix. Separate several forms with commas.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex gap-2">
+                  <Input
+                    value={draft.term}
+                    onChange={e => updateDraft({ term: e.target.value })}
+                    placeholder="Preferred term, e.g. brake control unit"
+                  />
+                  <Input
+                    value={draft.abbreviation}
+                    onChange={e => updateDraft({ abbreviation: e.target.value })}
+                    placeholder="Abbreviation, e.g. BCU"
+                    className="max-w-[200px]"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    value={draft.synonyms}
+                    onChange={e => updateDraft({ synonyms: e.target.value })}
+                    placeholder="Synonyms, e.g. brake controller"
+                  />
+                  <Input
+                    value={draft.deprecated}
+                    onChange={e => updateDraft({ deprecated: e.target.value })}
+                    placeholder="Deprecated forms, e.g. brake box"
+                  />
+                </div>
+                <Textarea
+                  value={draft.definition}
+                  onChange={e => updateDraft({ definition: e.target.value })}
+                  placeholder="Definition"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={closeForm}>Cancel</Button>
+                  <Button
+                    type="button"
+                    onClick={() => saveMutation.mutate(fromDraft(draft))}
+                    disabled={saveMutation.isPending || !draft.term.trim()}
+                  >
+                    {saveMutation.isPending ? "Saving…" : "Save term"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Terms</CardTitle>
+              <CardDescription>
+                Terms are underlined in documents and the markdown editor with their definition on hover, checked by
+                the QA scorer and listed in HTML and PDF exports.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Input value={filter} onChange={e => setFilter(e.target.value)} placeholder="Filter terms" />
+                {canEdit && !draft && (
+                  <Button type="button" variant="outline" onClick={() => setDraft(emptyDraft)}>
+                    <Plus className="h-4 w-4" /> Add term
+                  </Button>
+                )}
+              </div>
+              {terms.length === 0 ? (
+                <EmptyState
+                  icon={BookA}
+                  title="No glossary terms"
+                  description="Add the project's terms so they are written one way across every document."
+                />
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Term</TableHead>
+                      <TableHead>Abbreviation</TableHead>
+                      <TableHead>Synonyms</TableHead>
+                      <TableHead>Deprecated</TableHead>
+                      <TableHead>Definition</TableHead>
+                      <TableHead>Used in</TableHead>
+                      {canEdit && <TableHead />}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleTerms.map(term => {
+                      const usage = usageById.get(term.id);
+                      return (
+                        <TableRow key={term.id}>
+                          <TableCell className="font-medium">{term.term}</TableCell>
+                          <TableCell className="font-mono">{term.abbreviation}</TableCell>
+                          <TableCell>{term.synonyms.join(", ")}</TableCell>
+                          <TableCell className="text-red-600">{term.deprecated.join(", ")}</TableCell>
+                          <TableCell className="max-w-[420px]">{term.definition}</TableCell>
+                          <TableCell>
+                            {usage ? `${usage.requirements} requirement${usage.requirements === 1 ? "" : "s"}` : "—"}
+                            {usage && usage.deprecatedUses.length > 0 && (
+                              <div className="text-xs text-red-600">{usage.deprecatedUses.length} deprecated</div>
+                            )}
+                          </TableCell>
+                          {canEdit && (
+                            <TableCell className="whitespace-nowrap">
+                              <Button
+                                type="button"
+                                size="icon"
+                                variant="ghost"
+                                title="Edit term"
+                                onClick={() => {
+                                  setEditingId(term.id);
+                                  setDraft(toDraft(term));
+                                }}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                type="button"
+                                size="icon"
+                                variant="ghost"
+                                title="Delete term"
+                                disabled={deleteMutation.isPending}
+                                onClick={() => {
+                                  if (window.confirm(`Delete "${term.term}" from the glossary?`)) {
+                                    deleteMutation.mutate(term);
+                                  }
+                                }}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+              {!canEdit && <p className="text-sm text-muted-foreground">Only project admins can change the glossary.</p>}
+            </CardContent>
+          </Card>
+
+          {deprecatedUses.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Deprecated usage</CardTitle>
+                <CardDescription>Requirements that still use a deprecated form.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Requirement</TableHead>
+                      <TableHead>Written as</TableHead>
+                      <TableHead>Use instead</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {deprecatedUses.map((use, index) => (
+                      <TableRow key={`${use.ref}-${index}`}>
+                        <TableCell className="font-mono">{use.ref}</TableCell>
+                        <TableCell className="text-red-600">{use.form}</TableCell>
+                        <TableCell>{use.term.term}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </PageLayout>
+  );
+}
@@ -16,6 +16,7 @@ import { useGraphLayout } from "./graph-viewer/hooks/useGraphLayout";
 import { useSavedViews } from "./graph-viewer/hooks/useSavedViews";
 import { useContextMenus, type ContextMenuItem } from "./graph-viewer/hooks/useContextMenus";
 import { useEdgeStyles, type EdgeStyle } from "./graph-viewer/hooks/useEdgeStyles";
+import { useImpactAnalysis } from "./graph-viewer/hooks/useImpactAnalysis";
 import { GraphControls } from "./graph-viewer/components/GraphControls";
 import { GraphInspector } from "./graph-viewer/components/GraphInspector";
 import { GraphCanvas } from "./graph-viewer/components/GraphCanvas";
@@ -24,6 +25,8 @@ import { GraphLegendRelationships } from "./graph-viewer/components/GraphLegendR
 import { GraphSidebar } from "./graph-viewer/components/GraphSidebar";
 import { SaveViewDialog } from "./graph-viewer/components/SaveViewDialog";
 import { GraphContextMenu } from "./graph-viewer/components/GraphContextMenu";
+import { ImpactPanel } from "./graph-viewer/components/ImpactPanel";
+import { buildImpactElements, getImpactRoot } from "./graph-viewer/impactGraph";
 import * as menuConfig from "./graph-viewer/contextMenuConfig";
 import { getGraphStylesheet } from "./graph-viewer/graphStylesheet";
 import "./graphViewer.css";
@@ -122,6 +125,9 @@ export function GraphViewerRoute() {
     resetAllEdgeStyles,
   } = edgeStylesState;
 
+  const impact = useImpactAnalysis(tenant, project);
+  const { analysis: impactAnalysis, isActive: impactActive } = impact;
+
   // Fetch graph data from Neo4j
   const { data: graphData, isLoading } = useQuery({
     queryKey: ["graph-data", tenant, project],
@@ -135,7 +141,7 @@ export function GraphViewerRoute() {
 
   // Transform Neo4j data to Cytoscape format WITH edge metadata for hierarchy
   // Memoized to prevent unnecessary re-creation that could trigger layout reapplication
-  const elements: ElementDefinition[] = useMemo(() =>
+  const graphElements: ElementDefinition[] = useMemo(() =>
     graphData
       ? [
           // Nodes
@@ -171,6 +177,13 @@ export function GraphViewerRoute() {
     [graphData, showOnlyHierarchy]
   );
 
+  // In impact mode the canvas shows only the impacted set
+  const impactElements = useMemo(
+    () => (impactAnalysis ? buildImpactElements(impactAnalysis) : []),
+    [impactAnalysis]
+  );
+  const elements = impactActive ? impactElements : graphElements;
+
   // Cytoscape stylesheet (using extracted config)
   // Memoized to prevent unnecessary recreation
   const stylesheet = useMemo(() => getGraphStylesheet(edgeStyles), [edgeStyles]);
@@ -195,7 +208,7 @@ export function GraphViewerRoute() {
 
   // Apply filters and search (without auto-layout to prevent constant refocusing)
   useEffect(() => {
-    if (!cyInstance) return;
+    if (!cyInstance || impactActive) return;
 
     try {
       // Apply visibility filters only - layout is now opt-in via buttons
@@ -216,7 +229,20 @@ export function GraphViewerRoute() {
     } catch (error) {
       console.warn('Error applying filters:', error);
     }
-  }, [cyInstance, visibleNodeTypes, searchTerm, hiddenNodeIds]);
+  }, [cyInstance, visibleNodeTypes, searchTerm, hiddenNodeIds, impactActive]);
+
+  // Lay out the impact graph left-to-right (upstream → root → downstream),
+  // and restore the selected layout when leaving impact mode
+  useEffect(() => {
+    if (!cyInstance || (impactActive && !impactAnalysis)) return;
+
+    try {
+      const impactLayout = { name: 'dagre', rankDir: 'LR', fit: true, padding: 30, animate: false };
+      cyInstance.layout((impactActive ? impactLayout : layout) as any).run();
+    } catch (error) {
+      console.warn('Error laying out impact graph:', error);
+    }
+  }, [cyInstance, impactActive, impactAnalysis]);
 
   // Apply visual highlighting styles
   useEffect(() => {
@@ -526,6 +552,12 @@ export function GraphViewerRoute() {
 
   // Generate context menu items based on node type (using extracted config)
   const generateContextMenuItems = (nodeId: string, nodeType: string, nodeLabel: string): ContextMenuItem[] => {
+    // Impact nodes can be re-analyzed in place; full-graph nodes are mapped from their type
+    const properties = cyInstance?.$id(nodeId).data('properties');
+    const impactRoot = impactActive
+      ? (properties?.kind === 'verificationDocument' ? { kind: 'verificationDocument' as const, id: properties.id } : getImpactRoot(nodeType, properties))
+      : getImpactRoot(nodeType, properties);
+
     return menuConfig.generateNodeContextMenuItems({
       nodeId,
       nodeType,
@@ -551,6 +583,11 @@ export function GraphViewerRoute() {
         setSelectedNodeInfo({ id: nodeId, label: nodeLabel, type: nodeType });
         setContextMenu(null);
       },
+      onAnalyzeImpact: impactRoot ? () => {
+        impact.startAnalysis(impactRoot);
+        setSelectedNodeInfo(null);
+        setContextMenu(null);
+      } : undefined,
     });
   };
 
@@ -579,12 +616,28 @@ export function GraphViewerRoute() {
             onCyInit={setCyInstance}
           />
 
-          <GraphInspector
-            selectedNodeInfo={selectedNodeInfo}
-            onClose={() => setSelectedNodeInfo(null)}
-          />
-
-          <GraphLegendNodes inspectorOpen={!!selectedNodeInfo} />
+          {impactActive ? (
+            <ImpactPanel
+              analysis={impactAnalysis}
+              isLoading={impact.isLoading}
+              error={impact.error}
+              direction={impact.direction}
+              depth={impact.depth}
+              isExporting={impact.isExporting}
+              onDirectionChange={impact.setDirection}
+              onDepthChange={impact.setDepth}
+              onSelectEntry={(key) => graphOps.centerNode(cyInstance, key)}
+              onExport={impact.exportReport}
+              onClose={impact.clearAnalysis}
+            />
+          ) : (
+            <GraphInspector
+              selectedNodeInfo={selectedNodeInfo}
+              onClose={() => setSelectedNodeInfo(null)}
+            />
+          )}
+
+          <GraphLegendNodes inspectorOpen={!!selectedNodeInfo || impactActive} />
           <GraphLegendRelationships
             edgeStyles={edgeStyles}
             onResetAllEdgeStyles={handleResetAllEdgeStyles}
@@ -1,5 +1,6 @@
 import { useState, useRef, useCallback, useEffect, memo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
 import { useApiClient } from "../lib/client";
 import { useTenantProject } from "../hooks/useTenantProject";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
@@ -10,6 +11,7 @@ import { Textarea } from "../components/ui/textarea";
 import { Badge } from "../components/ui/badge";
 import { Spinner } from "../components/Spinner";
 import { ErrorState } from "../components/ErrorState";
+import { SuspectLinksPanel } from "../components/Trace/SuspectLinksPanel";
 import type { DocumentRecord, DocumentLinkset, CreateLinksetRequest } from "../types";
 
 interface DocumentNode {
@@ -177,11 +179,13 @@ export function LinkSetsRoute(): JSX.Element {
   const createLinksetMutation = useMutation({
     mutationFn: (body: CreateLinksetRequest) => 
       apiClient.createLinkset(tenant, project, body),
-    onSuccess: () => {
+    onSuccess: data => {
+      data.linkset.ruleWarnings?.forEach(warning => toast.warning(warning));
       queryClient.invalidateQueries({ queryKey: ["linksets", tenant, project] });
       setShowLinksetDialog(false);
       setNewLinkset({ sourceDocId: '', targetDocId: '', description: '' });
-    }
+    },
+    onError: (error: Error) => toast.error(error.message)
   });
 
   // Save node positions to localStorage
@@ -581,6 +585,11 @@ export function LinkSetsRoute(): JSX.Element {
                     <Badge key={linkset.id} variant="secondary" className="text-xs">
                       {linkset.sourceDocument.name} → {linkset.targetDocument.name}
                       <span className="ml-1 text-muted-foreground">({linkset.linkCount})</span>
+                      {linkset.links.some(link => link.suspect) && (
+                        <span className="ml-1 text-amber-600">
+                          · {linkset.links.filter(link => link.suspect).length} suspect
+                        </span>
+                      )}
                     </Badge>
                   ))}
                 </div>
@@ -590,6 +599,8 @@ export function LinkSetsRoute(): JSX.Element {
         </CardContent>
       </Card>
 
+      <SuspectLinksPanel tenant={tenant} project={project} />
+
       <Card className="flex-1">
         <CardContent className="p-0">
           <div 
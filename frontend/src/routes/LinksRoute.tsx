@@ -1,6 +1,7 @@
 import { useState, useCallback } from "react";
 import * as React from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
 import { useApiClient } from "../lib/client";
 import { useTenantProject } from "../hooks/useTenantProject";
 import { ErrorState } from "../components/ErrorState";
@@ -229,12 +230,13 @@ export function LinksRoute(): JSX.Element {
       // Step 2: Create a trace link between source and copied requirement
       const linkType = selectedLinkset.defaultLinkType || "satisfies";
 
-      await apiClient.createTraceLink(tenant, project, {
+      const { traceLink } = await apiClient.createTraceLink(tenant, project, {
         sourceRequirementId: sourceRequirement.id,
         targetRequirementId: copiedRequirement.id,
         linkType,
         description: `Auto-linked from copy operation`
       });
+      traceLink.ruleWarnings?.forEach(warning => toast.warning(warning));
 
       // Step 3: Invalidate queries to refresh the UI
       await queryClient.invalidateQueries({ queryKey: ["trace-links", tenant, project] });
@@ -401,6 +403,12 @@ export function LinksRoute(): JSX.Element {
                     targetRequirementId: link.targetRequirementId,
                     linkType: link.linkType,
                     description: link.description,
+                    suspect: link.suspect ?? false,
+                    suspectEnds: [],
+                    suspectSince: null,
+                    suspectClearedBy: null,
+                    suspectClearedAt: null,
+                    suspectClearComment: null,
                     createdAt: link.createdAt,
                     updatedAt: link.updatedAt,
                     sourceRequirement: {} as any,
@@ -1,4 +1,5 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
 import { useApiClient } from "../../lib/client";
 import type { CreateTraceLinkRequest } from "../../types";
 
@@ -19,7 +20,8 @@ export function useTraceLinkMutations({ tenant, project }: UseTraceLinkMutations
   const createTraceLinkMutation = useMutation({
     mutationFn: (body: CreateTraceLinkRequest) =>
       apiClient.createTraceLink(tenant, project, body),
-    onSuccess: () => {
+    onSuccess: data => {
+      data.traceLink.ruleWarnings?.forEach(warning => toast.warning(warning));
       queryClient.invalidateQueries({ queryKey: ["trace-links", tenant, project] });
       queryClient.invalidateQueries({ queryKey: ["linksets", tenant, project] });
     }
@@ -1,10 +1,11 @@
 import React, { useState } from 'react';
 import { TwoFactorSettings } from '../components/TwoFactorSettings';
+import { ApiTokenSettings } from '../components/ApiTokenSettings';
 import { useAuth } from '../contexts/AuthContext';
 
 export function SettingsRoute(): JSX.Element {
   const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState<'profile' | 'security'>('security');
+  const [activeTab, setActiveTab] = useState<'profile' | 'security' | 'tokens'>('security');
 
   return (
     <div style={{ padding: '2rem' }}>
@@ -52,6 +53,22 @@ export function SettingsRoute(): JSX.Element {
           >
             Security
           </button>
+          <button
+            onClick={() => setActiveTab('tokens')}
+            style={{
+              padding: '1rem 1.5rem',
+              background: 'transparent',
+              border: 'none',
+              borderBottom: `3px solid ${activeTab === 'tokens' ? '#1f5eff' : 'transparent'}`,
+              color: activeTab === 'tokens' ? '#1f5eff' : '#64748b',
+              fontWeight: activeTab === 'tokens' ? '600' : '400',
+              cursor: 'pointer',
+              transition: 'all 0.2s ease',
+              marginBottom: '-2px'
+            }}
+          >
+            API Tokens
+          </button>
         </div>
 
         {/* Tab Content */}
@@ -130,6 +147,10 @@ export function SettingsRoute(): JSX.Element {
         {activeTab === 'security' && (
           <TwoFactorSettings />
         )}
+
+        {activeTab === 'tokens' && (
+          <ApiTokenSettings />
+        )}
       </div>
     </div>
   );
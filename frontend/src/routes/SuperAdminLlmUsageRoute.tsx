@@ -0,0 +1,621 @@
+/**
+ * Super-Admin LLM Usage
+ *
+ * Usage report for every metered LLM call (tokens, estimated cost, latency)
+ * with per-tenant monthly quotas and prompt retention settings.
+ * Only accessible to Super-Admin users.
+ */
+
+import type { FormEvent } from "react";
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useApiClient } from "../lib/client";
+import { Spinner } from "../components/Spinner";
+import { ErrorState } from "../components/ErrorState";
+import { PageLayout } from "../components/layout/PageLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { FormField } from "../components/ui/form-field";
+import { EmptyState } from "../components/ui/empty-state";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "../components/ui/table";
+import { Badge } from "../components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "../components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
+import { Gauge, Plus, RefreshCw } from "lucide-react";
+import type { LlmQuota, LlmQuotaInput, LlmUsageGroupBy, LlmUsageRecord, LlmUsageTotals } from "../types";
+
+type Period = "month" | "last-month" | "30-days";
+
+type QuotaFormState = {
+  tenant: string;
+  tokenSoft: string;
+  tokenHard: string;
+  costSoft: string;
+  costHard: string;
+  retainPrompts: boolean;
+  retentionDays: string;
+};
+
+const PERIOD_OPTIONS: Array<{ value: Period; label: string }> = [
+  { value: "month", label: "This month" },
+  { value: "last-month", label: "Last month" },
+  { value: "30-days", label: "Last 30 days" }
+];
+
+const GROUP_BY_OPTIONS: Array<{ value: LlmUsageGroupBy; label: string }> = [
+  { value: "tenant", label: "Tenant" },
+  { value: "project", label: "Project" },
+  { value: "user", label: "User" },
+  { value: "feature", label: "Feature" },
+  { value: "model", label: "Model" },
+  { value: "day", label: "Day" }
+];
+
+const TENANT_OPTION_LIST_ID = "llm-usage-tenant-options";
+
+/** Period bounds in UTC, matching the server's monthly quota window */
+function periodRange(period: Period): { from: string; to?: string } {
+  const now = new Date();
+  const monthStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+  switch (period) {
+    case "month":
+      return { from: new Date(monthStart).toISOString() };
+    case "last-month":
+      return {
+        from: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString(),
+        to: new Date(monthStart).toISOString()
+      };
+    case "30-days":
+      return { from: new Date(now.getTime() - 30 * 86_400_000).toISOString() };
+  }
+}
+
+function formatTokens(value: number): string {
+  return new Intl.NumberFormat(undefined, { notation: value >= 100_000 ? "compact" : "standard" }).format(value);
+}
+
+function formatCost(value: number | null): string {
+  if (value === null) return "—";
+  return `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+}
+
+function formatDate(timestamp: string): string {
+  try {
+    return new Intl.DateTimeFormat(undefined, {
+      dateStyle: "medium",
+      timeStyle: "short"
+    }).format(new Date(timestamp));
+  } catch (error) {
+    return timestamp;
+  }
+}
+
+function makeQuotaForm(quota?: LlmQuota): QuotaFormState {
+  const text = (value: number | null | undefined) => (value === null || value === undefined ? "" : String(value));
+  return {
+    tenant: quota?.tenantSlug ?? "",
+    tokenSoft: text(quota?.monthlyTokenSoftLimit),
+    tokenHard: text(quota?.monthlyTokenHardLimit),
+    costSoft: text(quota?.monthlyCostSoftLimitUsd),
+    costHard: text(quota?.monthlyCostHardLimitUsd),
+    retainPrompts: quota?.retainPrompts ?? false,
+    retentionDays: text(quota?.retentionDays)
+  };
+}
+
+function parseLimit(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+function quotaState(quota: LlmQuota): { label: string; variant: "success" | "warning" | "error" } {
+  const usage = quota.monthToDate;
+  if (!usage) return { label: "OK", variant: "success" };
+  const tokens = usage.promptTokens + usage.completionTokens;
+  const reached = (used: number, limit: number | null) => limit !== null && used >= limit;
+  if (reached(tokens, quota.monthlyTokenHardLimit) || reached(usage.costUsd, quota.monthlyCostHardLimitUsd)) {
+    return { label: "Blocked", variant: "error" };
+  }
+  if (reached(tokens, quota.monthlyTokenSoftLimit) || reached(usage.costUsd, quota.monthlyCostSoftLimitUsd)) {
+    return { label: "Over soft limit", variant: "warning" };
+  }
+  return { label: "OK", variant: "success" };
+}
+
+function statusVariant(status: LlmUsageRecord["status"]): "success" | "warning" | "error" {
+  return status === "success" ? "success" : status === "blocked" ? "warning" : "error";
+}
+
+function TotalsSummary({ totals }: { totals: LlmUsageTotals }): JSX.Element {
+  const items = [
+    { label: "Calls", value: totals.calls.toLocaleString() },
+    { label: "Tokens", value: formatTokens(totals.promptTokens + totals.completionTokens) },
+    { label: "Estimated cost", value: formatCost(totals.costUsd) },
+    { label: "Errors / blocked", value: `${totals.errors} / ${totals.blocked}` },
+    { label: "Avg latency", value: `${totals.avgLatencyMs} ms` }
+  ];
+  return (
+    <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+      {items.map(item => (
+        <div key={item.label}>
+          <p className="text-xs text-muted-foreground">{item.label}</p>
+          <p className="text-lg font-semibold">{item.value}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function SuperAdminLlmUsageRoute(): JSX.Element {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+
+  const [period, setPeriod] = useState<Period>("month");
+  const [groupBy, setGroupBy] = useState<LlmUsageGroupBy>("tenant");
+  const [tenantFilter, setTenantFilter] = useState("");
+
+  const [quotaForm, setQuotaForm] = useState<QuotaFormState | null>(null);
+  const [quotaMode, setQuotaMode] = useState<"create" | "edit">("create");
+  const [quotaError, setQuotaError] = useState<string | null>(null);
+  const [auditId, setAuditId] = useState<string | null>(null);
+
+  const range = useMemo(() => periodRange(period), [period]);
+  const tenant = tenantFilter.trim() || undefined;
+
+  const reportQuery = useQuery({
+    queryKey: ["super-admin-llm-usage", range, groupBy, tenant],
+    queryFn: () => api.getLlmUsageReport({ ...range, groupBy, tenant })
+  });
+
+  const recordsQuery = useQuery({
+    queryKey: ["super-admin-llm-usage-records", range, tenant],
+    queryFn: () => api.listLlmUsageRecords({ ...range, tenant, limit: 50 })
+  });
+
+  const quotasQuery = useQuery({
+    queryKey: ["super-admin-llm-quotas"],
+    queryFn: () => api.listLlmQuotas()
+  });
+
+  const tenantsQuery = useQuery({
+    queryKey: ["super-admin-tenants"],
+    queryFn: () => api.listAllSuperAdminTenants()
+  });
+
+  const auditQuery = useQuery({
+    queryKey: ["super-admin-llm-usage-audit", auditId],
+    queryFn: () => api.getLlmUsageAudit(auditId as string),
+    enabled: Boolean(auditId)
+  });
+
+  const saveQuotaMutation = useMutation({
+    mutationFn: (payload: { tenant: string; input: LlmQuotaInput }) => api.saveLlmQuota(payload.tenant, payload.input),
+    onSuccess: () => {
+      setQuotaForm(null);
+      void queryClient.invalidateQueries({ queryKey: ["super-admin-llm-quotas"] });
+    },
+    onError: (error: unknown) => {
+      setQuotaError(error instanceof Error ? error.message : "Failed to save quota");
+    }
+  });
+
+  const deleteQuotaMutation = useMutation({
+    mutationFn: (tenantSlug: string) => api.deleteLlmQuota(tenantSlug),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["super-admin-llm-quotas"] });
+    }
+  });
+
+  const quotas = quotasQuery.data?.quotas ?? [];
+  const records = recordsQuery.data?.records ?? [];
+  const groupLabel = GROUP_BY_OPTIONS.find(option => option.value === groupBy)?.label ?? "Key";
+
+  const openQuotaDialog = (quota?: LlmQuota) => {
+    setQuotaMode(quota ? "edit" : "create");
+    setQuotaForm(makeQuotaForm(quota));
+    setQuotaError(null);
+  };
+
+  const handleSaveQuota = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!quotaForm) return;
+    if (!quotaForm.tenant.trim()) {
+      setQuotaError("Tenant is required");
+      return;
+    }
+    const input: LlmQuotaInput = {
+      monthlyTokenSoftLimit: parseLimit(quotaForm.tokenSoft),
+      monthlyTokenHardLimit: parseLimit(quotaForm.tokenHard),
+      monthlyCostSoftLimitUsd: parseLimit(quotaForm.costSoft),
+      monthlyCostHardLimitUsd: parseLimit(quotaForm.costHard),
+      retainPrompts: quotaForm.retainPrompts,
+      retentionDays: parseLimit(quotaForm.retentionDays)
+    };
+    if (Object.values(input).some(value => typeof value === "number" && (Number.isNaN(value) || value < 0))) {
+      setQuotaError("Limits must be positive numbers");
+      return;
+    }
+    setQuotaError(null);
+    saveQuotaMutation.mutate({ tenant: quotaForm.tenant.trim(), input });
+  };
+
+  const handleDeleteQuota = (tenantSlug: string) => {
+    if (!window.confirm(`Remove the LLM quota for ${tenantSlug}? The tenant becomes unlimited.`)) return;
+    deleteQuotaMutation.mutate(tenantSlug);
+  };
+
+  const updateQuotaForm = (changes: Partial<QuotaFormState>) => {
+    setQuotaForm(current => (current ? { ...current, ...changes } : current));
+  };
+
+  return (
+    <PageLayout
+      title="Super Admin - LLM Usage"
+      description="Metered LLM calls, estimated cost and monthly quotas per tenant."
+    >
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+              <CardTitle>Usage</CardTitle>
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={period} onValueChange={value => setPeriod(value as Period)}>
+                  <SelectTrigger className="w-[150px]" aria-label="Period">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PERIOD_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={groupBy} onValueChange={value => setGroupBy(value as LlmUsageGroupBy)}>
+                  <SelectTrigger className="w-[150px]" aria-label="Group by">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GROUP_BY_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>By {option.label.toLowerCase()}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="w-[180px]"
+                  placeholder="All tenants"
+                  list={TENANT_OPTION_LIST_ID}
+                  value={tenantFilter}
+                  onChange={event => setTenantFilter(event.target.value)}
+                  aria-label="Tenant"
+                />
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => {
+                    void reportQuery.refetch();
+                    void recordsQuery.refetch();
+                  }}
+                  disabled={reportQuery.isFetching}
+                  aria-label="Refresh usage"
+                >
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {reportQuery.isLoading ? (
+              <div className="flex justify-center py-8">
+                <Spinner />
+              </div>
+            ) : reportQuery.isError ? (
+              <ErrorState message={(reportQuery.error as Error).message} />
+            ) : !reportQuery.data || reportQuery.data.totals.calls === 0 ? (
+              <EmptyState icon={Gauge} title="No LLM calls" description="No calls were metered in this period." />
+            ) : (
+              <>
+                <TotalsSummary totals={reportQuery.data.totals} />
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{groupLabel}</TableHead>
+                        <TableHead className="text-right">Calls</TableHead>
+                        <TableHead className="text-right">Prompt tokens</TableHead>
+                        <TableHead className="text-right">Completion tokens</TableHead>
+                        <TableHead className="text-right">Est. cost</TableHead>
+                        <TableHead className="text-right">Errors</TableHead>
+                        <TableHead className="text-right">Blocked</TableHead>
+                        <TableHead className="text-right">Avg latency</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {reportQuery.data.rows.map(row => (
+                        <TableRow key={row.key ?? "__none__"}>
+                          <TableCell className="font-medium">
+                            {row.label ?? <span className="text-muted-foreground">(none)</span>}
+                          </TableCell>
+                          <TableCell className="text-right">{row.calls.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{formatTokens(row.promptTokens)}</TableCell>
+                          <TableCell className="text-right">{formatTokens(row.completionTokens)}</TableCell>
+                          <TableCell className="text-right">{formatCost(row.costUsd)}</TableCell>
+                          <TableCell className="text-right">{row.errors}</TableCell>
+                          <TableCell className="text-right">{row.blocked}</TableCell>
+                          <TableCell className="text-right">{row.avgLatencyMs} ms</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+              <CardTitle>Quotas</CardTitle>
+              <Button type="button" size="sm" onClick={() => openQuotaDialog()}>
+                <Plus className="mr-2 h-4 w-4" />
+                New Quota
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {quotasQuery.isLoading ? (
+              <div className="flex justify-center py-8">
+                <Spinner />
+              </div>
+            ) : quotasQuery.isError ? (
+              <ErrorState message={(quotasQuery.error as Error).message} />
+            ) : quotas.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No tenant has a quota; all tenants are unlimited.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tenant</TableHead>
+                      <TableHead>Tokens this month (soft / hard)</TableHead>
+                      <TableHead>Cost this month (soft / hard)</TableHead>
+                      <TableHead>Prompt retention</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="w-[150px]">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {quotas.map(quota => {
+                      const usage = quota.monthToDate;
+                      const state = quotaState(quota);
+                      const limit = (value: number | null, format: (n: number) => string) =>
+                        value === null ? "∞" : format(value);
+                      return (
+                        <TableRow key={quota.tenantSlug}>
+                          <TableCell className="font-medium">{quota.tenantSlug}</TableCell>
+                          <TableCell className="text-sm">
+                            {formatTokens(usage ? usage.promptTokens + usage.completionTokens : 0)}
+                            <span className="text-muted-foreground">
+                              {" "}({limit(quota.monthlyTokenSoftLimit, formatTokens)} / {limit(quota.monthlyTokenHardLimit, formatTokens)})
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {formatCost(usage?.costUsd ?? 0)}
+                            <span className="text-muted-foreground">
+                              {" "}({limit(quota.monthlyCostSoftLimitUsd, formatCost)} / {limit(quota.monthlyCostHardLimitUsd, formatCost)})
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {quota.retainPrompts ? `${quota.retentionDays ?? "Default"} days` : "Off"}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={state.variant}>{state.label}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-2">
+                              <Button type="button" variant="secondary" size="sm" onClick={() => openQuotaDialog(quota)}>
+                                Edit
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="destructive"
+                                size="sm"
+                                onClick={() => handleDeleteQuota(quota.tenantSlug)}
+                                disabled={deleteQuotaMutation.isPending}
+                              >
+                                Remove
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Calls</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {recordsQuery.isLoading ? (
+              <div className="flex justify-center py-8">
+                <Spinner />
+              </div>
+            ) : recordsQuery.isError ? (
+              <ErrorState message={(recordsQuery.error as Error).message} />
+            ) : records.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No calls in this period.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Tenant / project</TableHead>
+                      <TableHead>Feature</TableHead>
+                      <TableHead>Model</TableHead>
+                      <TableHead className="text-right">Tokens</TableHead>
+                      <TableHead className="text-right">Est. cost</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="w-[100px]">Audit</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {records.map(record => (
+                      <TableRow key={record.id}>
+                        <TableCell className="text-sm text-muted-foreground">{formatDate(record.createdAt)}</TableCell>
+                        <TableCell className="text-sm">
+                          {record.tenantSlug ?? "—"}
+                          {record.projectSlug && <span className="text-muted-foreground"> / {record.projectSlug}</span>}
+                        </TableCell>
+                        <TableCell className="text-sm">{record.feature}</TableCell>
+                        <TableCell className="text-sm">{record.provider}:{record.model}</TableCell>
+                        <TableCell className="text-right text-sm">
+                          {record.tokensEstimated && "~"}
+                          {formatTokens(record.promptTokens + record.completionTokens)}
+                        </TableCell>
+                        <TableCell className="text-right text-sm">{formatCost(record.costUsd)}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariant(record.status)} title={record.error}>{record.status}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {record.hasAudit && (
+                            <Button type="button" variant="secondary" size="sm" onClick={() => setAuditId(record.id)}>
+                              View
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {(tenantsQuery.data?.tenants.length ?? 0) > 0 && (
+        <datalist id={TENANT_OPTION_LIST_ID}>
+          {tenantsQuery.data?.tenants.map(option => (
+            <option key={option.slug} value={option.slug} label={option.name ?? option.slug} />
+          ))}
+        </datalist>
+      )}
+
+      <Dialog open={quotaForm !== null} onOpenChange={open => !open && setQuotaForm(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{quotaMode === "create" ? "New LLM Quota" : `Edit quota for ${quotaForm?.tenant}`}</DialogTitle>
+            <DialogDescription>
+              Limits apply per calendar month (UTC). Leave a limit empty for no limit. Calls are refused once a hard limit is reached.
+            </DialogDescription>
+          </DialogHeader>
+          {quotaForm && (
+            <form className="space-y-4" onSubmit={handleSaveQuota}>
+              <FormField label="Tenant" htmlFor="llm-quota-tenant" required>
+                <Input
+                  id="llm-quota-tenant"
+                  list={TENANT_OPTION_LIST_ID}
+                  value={quotaForm.tenant}
+                  onChange={event => updateQuotaForm({ tenant: event.target.value })}
+                  disabled={quotaMode === "edit"}
+                />
+              </FormField>
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                <FormField label="Token soft limit" htmlFor="llm-quota-token-soft">
+                  <Input id="llm-quota-token-soft" type="number" min={0} step={1} value={quotaForm.tokenSoft}
+                    onChange={event => updateQuotaForm({ tokenSoft: event.target.value })} />
+                </FormField>
+                <FormField label="Token hard limit" htmlFor="llm-quota-token-hard">
+                  <Input id="llm-quota-token-hard" type="number" min={0} step={1} value={quotaForm.tokenHard}
+                    onChange={event => updateQuotaForm({ tokenHard: event.target.value })} />
+                </FormField>
+                <FormField label="Cost soft limit (USD)" htmlFor="llm-quota-cost-soft">
+                  <Input id="llm-quota-cost-soft" type="number" min={0} step={0.01} value={quotaForm.costSoft}
+                    onChange={event => updateQuotaForm({ costSoft: event.target.value })} />
+                </FormField>
+                <FormField label="Cost hard limit (USD)" htmlFor="llm-quota-cost-hard">
+                  <Input id="llm-quota-cost-hard" type="number" min={0} step={0.01} value={quotaForm.costHard}
+                    onChange={event => updateQuotaForm({ costHard: event.target.value })} />
+                </FormField>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={quotaForm.retainPrompts}
+                  onChange={event => updateQuotaForm({ retainPrompts: event.target.checked })}
+                />
+                Retain prompts and responses for audit
+              </label>
+              {quotaForm.retainPrompts && (
+                <FormField label="Retention (days)" htmlFor="llm-quota-retention" hint="Empty uses the platform default">
+                  <Input id="llm-quota-retention" type="number" min={1} step={1} value={quotaForm.retentionDays}
+                    onChange={event => updateQuotaForm({ retentionDays: event.target.value })} />
+                </FormField>
+              )}
+              {quotaError && (
+                <p className="text-sm text-error" role="alert">
+                  {quotaError}
+                </p>
+              )}
+              <DialogFooter>
+                <Button type="button" variant="secondary" onClick={() => setQuotaForm(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveQuotaMutation.isPending}>
+                  {saveQuotaMutation.isPending ? "Saving..." : "Save Quota"}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={auditId !== null} onOpenChange={open => !open && setAuditId(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Retained Prompt</DialogTitle>
+            <DialogDescription>
+              {auditQuery.data ? `Kept until ${formatDate(auditQuery.data.audit.expiresAt)}` : "Prompt and response as sent to the provider."}
+            </DialogDescription>
+          </DialogHeader>
+          {auditQuery.isLoading ? (
+            <div className="flex justify-center py-8">
+              <Spinner />
+            </div>
+          ) : auditQuery.isError ? (
+            <ErrorState message={(auditQuery.error as Error).message} />
+          ) : auditQuery.data ? (
+            <div className="space-y-4">
+              <div>
+                <h4 className="mb-1 text-sm font-medium">Request</h4>
+                <pre className="max-h-72 overflow-auto rounded bg-muted p-3 text-xs">
+                  {JSON.stringify(auditQuery.data.audit.request, null, 2)}
+                </pre>
+              </div>
+              <div>
+                <h4 className="mb-1 text-sm font-medium">Response</h4>
+                <pre className="max-h-72 overflow-auto whitespace-pre-wrap rounded bg-muted p-3 text-xs">
+                  {auditQuery.data.audit.response ?? "—"}
+                </pre>
+              </div>
+            </div>
+          ) : null}
+        </DialogContent>
+      </Dialog>
+    </PageLayout>
+  );
+}
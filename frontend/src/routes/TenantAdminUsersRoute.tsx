@@ -14,6 +14,7 @@ import { useUserRole } from "../hooks/useUserRole";
 import { Spinner } from "../components/Spinner";
 import { ErrorState } from "../components/ErrorState";
 import { PageLayout } from "../components/layout/PageLayout";
+import { ServiceAccountsPanel } from "../components/ServiceAccountsPanel";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
@@ -436,6 +437,9 @@ export function TenantAdminUsersRoute(): JSX.Element {
             </CardContent>
           </Card>
         )}
+
+        {/* Service Accounts */}
+        {selectedTenant && <ServiceAccountsPanel tenant={selectedTenant} />}
       </div>
     </PageLayout>
   );
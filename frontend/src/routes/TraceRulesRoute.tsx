@@ -0,0 +1,369 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Plus, Route as RouteIcon, Trash2 } from "lucide-react";
+import { useApiClient } from "../lib/client";
+import { useTenantProject } from "../hooks/useTenantProject";
+import { useUserRole } from "../hooks/useUserRole";
+import { Spinner } from "../components/Spinner";
+import { ErrorState } from "../components/ErrorState";
+import { PageLayout } from "../components/layout/PageLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { EmptyState } from "../components/ui/empty-state";
+import type {
+  RequirementClass,
+  TraceLinkType,
+  TraceRule,
+  TraceRuleEnforcement,
+  TraceRuleSetRecord,
+  UnmatchedLinkPolicy
+} from "../types";
+
+const LINK_TYPES: TraceLinkType[] = ["satisfies", "derives", "verifies", "implements", "refines", "conflicts"];
+
+const UNMATCHED_POLICIES: Array<{ value: UnmatchedLinkPolicy; label: string }> = [
+  { value: "allow", label: "Allow links no rule covers" },
+  { value: "warn", label: "Warn on links no rule covers" },
+  { value: "reject", label: "Reject links no rule covers" }
+];
+
+type CountKey = "minPerSource" | "maxPerSource" | "minPerTarget" | "maxPerTarget";
+
+/** Editable form of a requirement class; the attribute is kept as "key=value" text until saved */
+type DraftClass = {
+  document: string;
+  tag: string;
+  attribute: string;
+};
+
+/** Editable form of a rule; counts are kept as text so they can be left blank */
+type DraftRule = {
+  id: string;
+  description: string;
+  source: DraftClass;
+  target: DraftClass;
+  linkTypes: TraceLinkType[];
+  enforcement: TraceRuleEnforcement;
+} & Record<CountKey, string>;
+
+const selectClassName = "h-9 rounded-md border border-input bg-background px-2 text-sm";
+
+const emptyClass: DraftClass = { document: "", tag: "", attribute: "" };
+
+const emptyRule = (): DraftRule => ({
+  id: "",
+  description: "",
+  source: emptyClass,
+  target: emptyClass,
+  linkTypes: ["satisfies"],
+  enforcement: "warn",
+  minPerSource: "",
+  maxPerSource: "",
+  minPerTarget: "",
+  maxPerTarget: ""
+});
+
+function toDraftClass(requirementClass: RequirementClass): DraftClass {
+  return {
+    document: requirementClass.document ?? "",
+    tag: requirementClass.tag ?? "",
+    attribute: requirementClass.attribute ? `${requirementClass.attribute.key}=${requirementClass.attribute.value}` : ""
+  };
+}
+
+function toDraftRules(ruleSet: TraceRuleSetRecord | null | undefined): DraftRule[] {
+  return (ruleSet?.rules ?? []).map(rule => ({
+    id: rule.id,
+    description: rule.description ?? "",
+    source: toDraftClass(rule.source),
+    target: toDraftClass(rule.target),
+    linkTypes: rule.linkTypes,
+    enforcement: rule.enforcement,
+    minPerSource: rule.minPerSource?.toString() ?? "",
+    maxPerSource: rule.maxPerSource?.toString() ?? "",
+    minPerTarget: rule.minPerTarget?.toString() ?? "",
+    maxPerTarget: rule.maxPerTarget?.toString() ?? ""
+  }));
+}
+
+function fromDraftClass(draft: DraftClass): RequirementClass {
+  const [key, ...value] = draft.attribute.split("=");
+  return {
+    document: draft.document.trim() || undefined,
+    tag: draft.tag.trim() || undefined,
+    attribute: key.trim() && value.join("=").trim() ? { key: key.trim(), value: value.join("=").trim() } : undefined
+  };
+}
+
+function fromDraftRule(draft: DraftRule): TraceRule {
+  const count = (value: string) => (value.trim() ? Number(value) : undefined);
+  return {
+    id: draft.id.trim(),
+    description: draft.description.trim() || undefined,
+    source: fromDraftClass(draft.source),
+    target: fromDraftClass(draft.target),
+    linkTypes: draft.linkTypes,
+    enforcement: draft.enforcement,
+    minPerSource: count(draft.minPerSource),
+    maxPerSource: count(draft.maxPerSource),
+    minPerTarget: count(draft.minPerTarget),
+    maxPerTarget: count(draft.maxPerTarget)
+  };
+}
+
+interface ClassFieldsProps {
+  label: string;
+  value: DraftClass;
+  onChange: (value: DraftClass) => void;
+  disabled: boolean;
+}
+
+function ClassFields({ label, value, onChange, disabled }: ClassFieldsProps): JSX.Element {
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium text-muted-foreground">{label}</div>
+      <div className="flex gap-2">
+        <Input
+          value={value.document}
+          onChange={e => onChange({ ...value, document: e.target.value })}
+          placeholder="Document (slug or code)"
+          disabled={disabled}
+        />
+        <Input
+          value={value.tag}
+          onChange={e => onChange({ ...value, tag: e.target.value })}
+          placeholder="Tag"
+          disabled={disabled}
+        />
+        <Input
+          value={value.attribute}
+          onChange={e => onChange({ ...value, attribute: e.target.value })}
+          placeholder="attribute=value"
+          className="font-mono"
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The project's traceability information model: which requirements may link
+ * to which, with which link types and how many links each must have.
+ */
+export function TraceRulesRoute(): JSX.Element {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+  const { state } = useTenantProject();
+  const { isAdmin } = useUserRole();
+  const tenant = state.tenant ?? "";
+  const project = state.project ?? "";
+  const canEdit = Boolean(tenant && project && isAdmin(tenant, project));
+  const [rules, setRules] = useState<DraftRule[]>([]);
+  const [unmatched, setUnmatched] = useState<UnmatchedLinkPolicy>("allow");
+
+  const rulesQuery = useQuery({
+    queryKey: ["trace-rules", tenant, project],
+    queryFn: () => api.getTraceRules(tenant, project),
+    enabled: Boolean(tenant && project)
+  });
+
+  useEffect(() => {
+    setRules(toDraftRules(rulesQuery.data?.ruleSet));
+    setUnmatched(rulesQuery.data?.ruleSet?.unmatched ?? "allow");
+  }, [rulesQuery.data]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => api.saveTraceRules(tenant, project, { rules: rules.map(fromDraftRule), unmatched }),
+    onSuccess: data => {
+      queryClient.setQueryData(["trace-rules", tenant, project], data);
+      toast.success("Trace rules saved");
+    },
+    onError: (error: Error) => toast.error(error.message)
+  });
+
+  const updateRule = (index: number, changes: Partial<DraftRule>) => {
+    setRules(current => current.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const toggleLinkType = (index: number, linkType: TraceLinkType) => {
+    const rule = rules[index];
+    updateRule(index, {
+      linkTypes: rule.linkTypes.includes(linkType)
+        ? rule.linkTypes.filter(type => type !== linkType)
+        : [...rule.linkTypes, linkType]
+    });
+  };
+
+  if (!state.tenant || !state.project) {
+    return (
+      <PageLayout title="Trace Rules" description="Select a tenant and project to manage its trace rules.">
+        <Card>
+          <CardContent className="py-8">
+            <EmptyState
+              icon={RouteIcon}
+              title="No Project Selected"
+              description="Select a tenant and project to manage its trace rules."
+            />
+          </CardContent>
+        </Card>
+      </PageLayout>
+    );
+  }
+
+  const countFields: Array<{ key: CountKey; label: string }> = [
+    { key: "minPerSource", label: "Min per source" },
+    { key: "maxPerSource", label: "Max per source" },
+    { key: "minPerTarget", label: "Min per target" },
+    { key: "maxPerTarget", label: "Max per target" }
+  ];
+
+  return (
+    <PageLayout title="Trace Rules" description={`${state.tenant} / ${state.project}`}>
+      {rulesQuery.isLoading ? (
+        <div className="flex justify-center py-6"><Spinner /></div>
+      ) : rulesQuery.isError ? (
+        <ErrorState message={(rulesQuery.error as Error).message} />
+      ) : (
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Rules</CardTitle>
+              <CardDescription>
+                Each rule matches link sources and targets by document, tag and/or attribute (blank matches any
+                requirement) and lists the link types allowed between them. Rejecting rules block new links; warning
+                rules let them through with a warning. Minimum and maximum link counts are reported by the
+                verification engine, e.g. every SYS requirement satisfied by at least one SUB requirement is source
+                SUB, target SYS, satisfies, min per target 1.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {rules.length === 0 && (
+                <EmptyState
+                  icon={RouteIcon}
+                  title="No trace rules"
+                  description="Any requirement may link to any other with any link type until you add rules."
+                />
+              )}
+              {rules.map((rule, index) => (
+                <div key={index} className="space-y-3 rounded-md border p-3">
+                  <div className="flex gap-2">
+                    <Input
+                      value={rule.id}
+                      onChange={e => updateRule(index, { id: e.target.value })}
+                      placeholder="sub-satisfies-sys"
+                      className="max-w-[220px] font-mono"
+                      disabled={!canEdit}
+                    />
+                    <Input
+                      value={rule.description}
+                      onChange={e => updateRule(index, { description: e.target.value })}
+                      placeholder="Why (optional)"
+                      disabled={!canEdit}
+                    />
+                    <select
+                      className={selectClassName}
+                      value={rule.enforcement}
+                      onChange={e => updateRule(index, { enforcement: e.target.value as TraceRuleEnforcement })}
+                      disabled={!canEdit}
+                    >
+                      <option value="warn">Warn</option>
+                      <option value="reject">Reject</option>
+                    </select>
+                    {canEdit && (
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => setRules(current => current.filter((_, i) => i !== index))}
+                        title="Remove rule"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <ClassFields label="Source" value={rule.source} onChange={source => updateRule(index, { source })} disabled={!canEdit} />
+                  <ClassFields label="Target" value={rule.target} onChange={target => updateRule(index, { target })} disabled={!canEdit} />
+                  <div className="flex flex-wrap items-center gap-4 text-sm">
+                    {LINK_TYPES.map(linkType => (
+                      <label key={linkType} className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={rule.linkTypes.includes(linkType)}
+                          onChange={() => toggleLinkType(index, linkType)}
+                          disabled={!canEdit}
+                        />
+                        {linkType}
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    {countFields.map(field => (
+                      <Input
+                        key={field.key}
+                        type="number"
+                        min={0}
+                        value={rule[field.key]}
+                        onChange={e => updateRule(index, { [field.key]: e.target.value })}
+                        placeholder={field.label}
+                        title={field.label}
+                        disabled={!canEdit}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {canEdit && (
+                <Button type="button" variant="outline" onClick={() => setRules(current => [...current, emptyRule()])}>
+                  <Plus className="h-4 w-4" /> Add rule
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Unmatched links</CardTitle>
+              <CardDescription>
+                What happens to a link between requirements that no rule matches.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <select
+                className={selectClassName}
+                value={unmatched}
+                onChange={e => setUnmatched(e.target.value as UnmatchedLinkPolicy)}
+                disabled={!canEdit}
+              >
+                {UNMATCHED_POLICIES.map(policy => (
+                  <option key={policy.value} value={policy.value}>{policy.label}</option>
+                ))}
+              </select>
+            </CardContent>
+          </Card>
+
+          {canEdit ? (
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || rules.some(rule => !rule.id.trim() || rule.linkTypes.length === 0)}
+              >
+                {saveMutation.isPending ? "Saving…" : "Save trace rules"}
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Only project admins can change the trace rules.</p>
+          )}
+          {rulesQuery.data?.ruleSet && (
+            <p className="text-xs text-muted-foreground">
+              Version {rulesQuery.data.ruleSet.version}, last updated {new Date(rulesQuery.data.ruleSet.updatedAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+      )}
+    </PageLayout>
+  );
+}
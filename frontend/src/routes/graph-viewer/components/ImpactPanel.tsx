@@ -0,0 +1,133 @@
+/**
+ * ImpactPanel Component
+ *
+ * Side panel for impact analysis mode: direction and depth controls,
+ * the upstream/downstream impact lists with the path explaining each item,
+ * and report export for change-board packs.
+ */
+
+import type { ImpactAnalysis, ImpactDirection, ImpactEntry, ImpactReportFormat } from "../../../types";
+import { IMPACT_NODE_TYPES } from "../impactGraph";
+
+interface ImpactPanelProps {
+  analysis: ImpactAnalysis | null;
+  isLoading: boolean;
+  error: Error | null;
+  direction: ImpactDirection;
+  depth: number;
+  isExporting: boolean;
+  onDirectionChange: (direction: ImpactDirection) => void;
+  onDepthChange: (depth: number) => void;
+  onSelectEntry: (key: string) => void;
+  onExport: (format: ImpactReportFormat) => void;
+  onClose: () => void;
+}
+
+function ImpactList({ title, entries, analysis, onSelectEntry }: {
+  title: string;
+  entries: ImpactEntry[];
+  analysis: ImpactAnalysis;
+  onSelectEntry: (key: string) => void;
+}) {
+  const nodes = new Map(analysis.nodes.map(node => [node.key, node]));
+
+  return (
+    <div className="inspector-field">
+      <label>{title} ({entries.length})</label>
+      {entries.length === 0 ? (
+        <span style={{ color: '#6b7280' }}>Nothing impacted</span>
+      ) : (
+        <ul className="impact-list">
+          {entries.map(entry => {
+            const node = nodes.get(entry.key);
+            if (!node) return null;
+            const suspect = entry.path.some(edge => edge.suspect);
+            return (
+              <li key={entry.key} className="impact-entry" onClick={() => onSelectEntry(entry.key)}>
+                <div className="impact-entry-title">
+                  <span className="impact-depth">{entry.depth}</span>
+                  <strong>{node.label}</strong>
+                  <span className="impact-kind">{IMPACT_NODE_TYPES[node.kind]}</span>
+                  {suspect && <span title="Path crosses a suspect trace link">⚠️</span>}
+                </div>
+                <div className="impact-explanation">{entry.explanation}</div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function ImpactPanel({
+  analysis,
+  isLoading,
+  error,
+  direction,
+  depth,
+  isExporting,
+  onDirectionChange,
+  onDepthChange,
+  onSelectEntry,
+  onExport,
+  onClose,
+}: ImpactPanelProps) {
+  return (
+    <div className="graph-inspector-panel">
+      <div className="inspector-header">
+        <h3>Impact Analysis{analysis ? `: ${analysis.root.label}` : ''}</h3>
+        <button onClick={onClose} className="inspector-close" title="Exit impact analysis">
+          ×
+        </button>
+      </div>
+      <div className="inspector-content">
+        <div className="impact-controls">
+          <select value={direction} onChange={(e) => onDirectionChange(e.target.value as ImpactDirection)}>
+            <option value="both">Upstream & downstream</option>
+            <option value="upstream">Upstream only</option>
+            <option value="downstream">Downstream only</option>
+          </select>
+          <label>
+            Depth
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={depth}
+              onChange={(e) => onDepthChange(Math.min(Math.max(Number(e.target.value) || 1, 1), 10))}
+            />
+          </label>
+        </div>
+
+        {error && <div className="impact-error">{error.message}</div>}
+        {isLoading && !analysis && <div className="impact-status">Analyzing impact...</div>}
+
+        {analysis && (
+          <>
+            {analysis.root.detail && (
+              <div className="inspector-field">
+                <span>{analysis.root.detail}</span>
+              </div>
+            )}
+            {analysis.truncated && (
+              <div className="impact-status">
+                Relationships continue beyond depth {analysis.maxDepth}.
+              </div>
+            )}
+            <div className="impact-controls">
+              <button onClick={() => onExport('markdown')} disabled={isExporting}>Export Markdown</button>
+              <button onClick={() => onExport('csv')} disabled={isExporting}>Export CSV</button>
+            </div>
+            {analysis.direction !== 'downstream' && (
+              <ImpactList title="Upstream" entries={analysis.upstream} analysis={analysis} onSelectEntry={onSelectEntry} />
+            )}
+            {analysis.direction !== 'upstream' && (
+              <ImpactList title="Downstream" entries={analysis.downstream} analysis={analysis} onSelectEntry={onSelectEntry} />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
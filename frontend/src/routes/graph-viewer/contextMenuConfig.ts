@@ -104,6 +104,8 @@ export interface NodeMenuParams {
   onResetNodePosition: (nodeId: string) => void;
   onHideNode: (nodeId: string) => void;
   onViewDetails: (nodeId: string, nodeLabel: string, nodeType: string) => void;
+  /** Present when impact analysis applies to this node */
+  onAnalyzeImpact?: () => void;
 }
 
 /**
@@ -133,6 +135,7 @@ export function generateNodeContextMenuItems(params: NodeMenuParams): ContextMen
     onResetNodePosition,
     onHideNode,
     onViewDetails,
+    onAnalyzeImpact,
   } = params;
 
   const items: ContextMenuItem[] = [];
@@ -214,6 +217,10 @@ export function generateNodeContextMenuItems(params: NodeMenuParams): ContextMen
     });
   }
 
+  if (onAnalyzeImpact) {
+    items.push({ label: '💥 Analyze Impact', action: onAnalyzeImpact });
+  }
+
   items.push({ separator: true });
 
   // Visual operations
@@ -275,6 +275,42 @@ export function getGraphStylesheet(edgeStyles: Map<string, EdgeStyle>): any[] {
       }
     },
 
+    // Verification Nodes (Teal family) - shown in impact analysis
+    {
+      selector: "node[type='VerificationActivity']",
+      style: {
+        "background-color": "#14b8a6",  // Teal-500
+        "border-color": "#0f766e",      // Teal-700
+        "border-width": "2px",
+        shape: "round-rectangle",        // Planned work
+        width: "55px",
+        height: "40px"
+      }
+    },
+    {
+      selector: "node[type='VerificationEvidence']",
+      style: {
+        "background-color": "#5eead4",  // Teal-300
+        "border-color": "#14b8a6",      // Teal-500
+        "border-width": "2px",
+        shape: "ellipse",                // Result
+        width: "40px",
+        height: "40px",
+        "font-size": "9px"
+      }
+    },
+    {
+      selector: "node[type='VerificationDocument']",
+      style: {
+        "background-color": "#0d9488",  // Teal-600
+        "border-color": "#134e4a",      // Teal-900
+        "border-width": "2px",
+        shape: "tag",                    // Controlled document
+        width: "55px",
+        height: "45px"
+      }
+    },
+
     // ============================================================================
     // Node Interactive States
     // Enhanced with smooth transitions and better visual feedback
@@ -478,6 +514,38 @@ export function getGraphStylesheet(edgeStyles: Map<string, EdgeStyle>): any[] {
         opacity: 0.15
       }
     },
+    // Impact analysis: root and the side of the root each item sits on
+    {
+      selector: "node.impact-root",
+      style: {
+        "border-width": "6px",
+        "border-color": "#dc2626",      // Red-600
+        "border-style": "double",
+        "z-index": 999
+      }
+    },
+    {
+      selector: "node.impact-upstream",
+      style: {
+        "border-width": "4px",
+        "border-color": "#7c3aed"       // Violet-600
+      }
+    },
+    {
+      selector: "node.impact-downstream",
+      style: {
+        "border-width": "4px",
+        "border-color": "#ea580c"       // Orange-600
+      }
+    },
+    {
+      selector: "edge.impact-suspect",
+      style: {
+        "line-color": "#f59e0b",        // Amber-500
+        "target-arrow-color": "#f59e0b",
+        "line-style": "dashed"
+      }
+    },
     {
       selector: "node.search-match",
       style: {
@@ -0,0 +1,83 @@
+/**
+ * useImpactAnalysis Hook
+ *
+ * Manages impact analysis mode: the analyzed item, direction and depth
+ * controls, fetching the analysis, and downloading change-board reports.
+ */
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useApiClient } from "../../../lib/client";
+import type {
+  ImpactAnalysisRequest,
+  ImpactDirection,
+  ImpactReportFormat
+} from "../../../types";
+
+export const DEFAULT_IMPACT_DEPTH = 3;
+
+export function useImpactAnalysis(tenant: string | null, project: string | null) {
+  const api = useApiClient();
+  const [root, setRoot] = useState<Pick<ImpactAnalysisRequest, "kind" | "id"> | null>(null);
+  const [direction, setDirection] = useState<ImpactDirection>("both");
+  const [depth, setDepth] = useState(DEFAULT_IMPACT_DEPTH);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const request: ImpactAnalysisRequest | null = root ? { ...root, direction, depth } : null;
+
+  const { data, isFetching, error } = useQuery({
+    queryKey: ["impact-analysis", tenant, project, request],
+    queryFn: async () => {
+      const response = await api.getImpactAnalysis(tenant!, project!, request!);
+      return response.analysis;
+    },
+    enabled: Boolean(tenant && project && request),
+    placeholderData: previous => previous
+  });
+
+  const startAnalysis = (next: Pick<ImpactAnalysisRequest, "kind" | "id">) => {
+    setRoot(next);
+  };
+
+  const clearAnalysis = () => {
+    setRoot(null);
+  };
+
+  const exportReport = async (format: ImpactReportFormat) => {
+    if (!tenant || !project || !request || !data) return;
+
+    setIsExporting(true);
+    try {
+      const blob = await api.downloadImpactReport(tenant, project, request, format);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `impact-${data.root.label.replace(/[^a-z0-9._-]+/gi, '_')}.${format === 'csv' ? 'csv' : 'md'}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(`Failed to export impact report: ${(err as Error).message}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return {
+    isActive: root !== null,
+    // Only show an analysis for the current root while a new one loads
+    analysis: root && data && data.root.id === root.id && data.root.kind === root.kind ? data : null,
+    isLoading: isFetching,
+    error: error as Error | null,
+    direction,
+    depth,
+    isExporting,
+    setDirection,
+    setDepth,
+    startAnalysis,
+    clearAnalysis,
+    exportReport,
+  };
+}
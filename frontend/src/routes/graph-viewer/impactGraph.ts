@@ -0,0 +1,80 @@
+/**
+ * Impact Graph
+ *
+ * Converts an impact analysis into Cytoscape elements so the graph viewer
+ * can render the impacted set in place of the full project graph.
+ */
+
+import type { ElementDefinition } from "cytoscape";
+import type { ImpactAnalysis, ImpactAnalysisRequest, ImpactNodeKind } from "../../types";
+
+/**
+ * Graph viewer node type for each impact node kind, so impacted items share
+ * the stylesheet of the full graph
+ */
+export const IMPACT_NODE_TYPES: Record<ImpactNodeKind, string> = {
+  requirement: "Requirement",
+  block: "ArchitectureBlock",
+  connector: "ArchitectureConnector",
+  verificationActivity: "VerificationActivity",
+  verificationEvidence: "VerificationEvidence",
+  verificationDocument: "VerificationDocument"
+};
+
+/**
+ * Impact analysis root for a node in the full project graph, or null when
+ * impact analysis does not apply to that node type
+ */
+export function getImpactRoot(nodeType: string, properties: Record<string, any> | undefined): Pick<ImpactAnalysisRequest, "kind" | "id"> | null {
+  const id = properties?.id;
+  if (typeof id !== "string") return null;
+
+  switch (nodeType) {
+    case "Requirement":
+      return { kind: "requirement", id };
+    case "ArchitectureBlock":
+      return { kind: "block", id };
+    case "ArchitectureConnector":
+      return { kind: "connector", id };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build Cytoscape elements for an impact analysis. Nodes are classed by the
+ * side of the root they sit on; edges keep their explanation as the label.
+ */
+export function buildImpactElements(analysis: ImpactAnalysis): ElementDefinition[] {
+  const upstream = new Set(analysis.upstream.map(entry => entry.key));
+  const downstream = new Set(analysis.downstream.map(entry => entry.key));
+
+  const nodes: ElementDefinition[] = analysis.nodes.map(node => {
+    const classes = node.key === analysis.root.key
+      ? "impact-root"
+      : [upstream.has(node.key) && "impact-upstream", downstream.has(node.key) && "impact-downstream"].filter(Boolean).join(" ");
+
+    return {
+      data: {
+        id: node.key,
+        label: node.label,
+        type: IMPACT_NODE_TYPES[node.kind],
+        properties: { id: node.id, kind: node.kind, detail: node.detail, documentSlug: node.documentSlug }
+      },
+      classes
+    };
+  });
+
+  const edges: ElementDefinition[] = analysis.edges.map(edge => ({
+    data: {
+      id: `${edge.from}->${edge.to}:${edge.relation}`,
+      source: edge.from,
+      target: edge.to,
+      label: edge.label,
+      properties: { relation: edge.relation, suspect: Boolean(edge.suspect) }
+    },
+    classes: edge.suspect ? "impact-suspect" : ""
+  }));
+
+  return [...nodes, ...edges];
+}
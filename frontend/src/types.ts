@@ -66,10 +66,15 @@ export type ApplyFixResponse = {
   notes: string[];
 };
 
+/** Custom attribute value; string arrays hold multi-select attributes */
+export type RequirementAttributeValue = string | number | boolean | string[] | null;
+export type RequirementAttributes = Record<string, RequirementAttributeValue>;
+
 export type RequirementRecord = {
   id: string;
   hashId: string;
   ref: string;
+  refAliases?: string[]; // Earlier refs replaced by renumbering
   tenant: string;
   projectKey: string;
   title: string;
@@ -90,7 +95,10 @@ export type RequirementRecord = {
   updatedAt: string;
   deleted?: boolean;
   archived?: boolean;
-  attributes?: Record<string, string | number | boolean | null>;
+  attributes?: RequirementAttributes;
+  presenceCondition?: string;
+  /** Latest version number; send back as expectedVersionNumber to detect concurrent edits */
+  versionNumber?: number;
 };
 
 export type RequirementVersionRecord = {
@@ -111,7 +119,7 @@ export type RequirementVersionRecord = {
   qaVerdict?: string;
   suggestions?: string[];
   tags?: string[];
-  attributes?: Record<string, string | number | boolean | null>;
+  attributes?: RequirementAttributes;
   contentHash: string;
 };
 
@@ -152,7 +160,7 @@ export type CreateRequirementRequest = {
   qaVerdict?: string;
   suggestions?: string[];
   tags?: string[];
-  attributes?: Record<string, string | number | boolean | null>;
+  attributes?: RequirementAttributes;
 };
 
 export type RequirementCandidateStatus = "pending" | "accepted" | "rejected";
@@ -312,6 +320,111 @@ export type BaselineListResponse = {
   items: BaselineRecord[];
 };
 
+export type BaselineRestoreScope =
+  | { type: "project" }
+  | { type: "document"; documentSlug: string }
+  | { type: "section"; sectionId: string };
+
+export type BaselineRestoreAction = {
+  entityType: "document" | "section" | "requirement" | "traceLink";
+  entityId: string;
+  label: string;
+  action: "update" | "undelete" | "recreate" | "delete" | "skip";
+  fields: string[];
+  reason?: string;
+};
+
+export type BaselineRestorePlan = {
+  baselineRef: string;
+  scope: BaselineRestoreScope;
+  dryRun: boolean;
+  actions: BaselineRestoreAction[];
+  summary: Record<BaselineRestoreAction["action"], number>;
+};
+
+export type BranchRecord = {
+  tenant: string;
+  slug: string;
+  name: string | null;
+  description: string | null;
+  sourceProject: string;
+  baselineRef: string;
+  documentSlugs: string[] | null;
+  createdAt: string;
+  createdBy: string | null;
+};
+
+export type BranchMergeStatus =
+  | "unchanged"
+  | "branch-changed"
+  | "mainline-changed"
+  | "both-changed-same"
+  | "conflict"
+  | "added"
+  | "branch-deleted"
+  | "mainline-deleted";
+
+export type BranchRequirementStatus = {
+  requirementId: string;
+  originId: string | null;
+  ref: string;
+  status: BranchMergeStatus;
+};
+
+/** Version record of a non-requirement entity; the ID and content fields depend on the entity type */
+export type EntityVersionRecord = {
+  versionId: string;
+  versionNumber: number;
+  timestamp: string;
+  changedBy: string;
+  changeType: string;
+  contentHash: string;
+  [field: string]: unknown;
+};
+
+/** One entity type's versions, split by how they differ between two snapshots */
+export type EntityComparison<T> = {
+  added: T[];
+  removed: T[];
+  modified: T[];
+  unchanged: T[];
+};
+
+export type BaselineComparison = {
+  fromBaseline: BaselineRecord;
+  toBaseline: BaselineRecord;
+  requirements: EntityComparison<RequirementVersionRecord>;
+  documents: EntityComparison<EntityVersionRecord>;
+  documentSections: EntityComparison<EntityVersionRecord>;
+  infos: EntityComparison<EntityVersionRecord>;
+  surrogateReferences: EntityComparison<EntityVersionRecord>;
+  traceLinks: EntityComparison<EntityVersionRecord>;
+  linksets: EntityComparison<EntityVersionRecord>;
+  diagrams: EntityComparison<EntityVersionRecord>;
+  blocks: EntityComparison<EntityVersionRecord>;
+  connectors: EntityComparison<EntityVersionRecord>;
+};
+
+export type BranchComparison = {
+  branch: BranchRecord;
+  /** Mainline HEAD (from) against branch HEAD (to), in mainline IDs */
+  comparison: BaselineComparison;
+  requirements: BranchRequirementStatus[];
+};
+
+export type BranchMergeAction = BranchRequirementStatus & {
+  action: "update" | "create" | "delete" | "undelete" | "sync" | "skip";
+  reason?: string;
+};
+
+export type BranchMergeResult = {
+  branch: string;
+  targetProject: string;
+  dryRun: boolean;
+  actions: BranchMergeAction[];
+  summary: Record<BranchMergeAction["action"], number>;
+};
+
 export type TenantRecord = {
   slug: string;
   name: string | null;
@@ -398,6 +511,24 @@ export type DocumentRecord = {
   previewMimeType?: string | null;
   downloadUrl?: string | null;
   previewDownloadUrl?: string | null;
+  refScheme?: RefScheme | null;
+};
+
+// Requirement numbering scheme for a document, e.g. template "SRS-NAV-{n:4}"
+export type RefScheme = {
+  template: string;
+  start: number;
+  step: number;
+  counter: "document" | "section";
+};
+
+export type DocumentRenumberResult = {
+  documentSlug: string;
+  scheme: RefScheme;
+  dryRun: boolean;
+  changes: Array<{ requirementId: string; oldRef: string; newRef: string }>;
+  unchanged: number;
+  conflicts: string[];
 };
 
 export type FolderRecord = {
@@ -423,6 +554,7 @@ export type DocumentSectionRecord = {
   tenant: string;
   projectKey: string;
   order: number;
+  presenceCondition?: string | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -527,8 +659,16 @@ export type TraceLink = {
   targetRequirement: RequirementRecord;
   linkType: TraceLinkType;
   description?: string;
+  suspect: boolean;
+  suspectEnds: Array<"source" | "target">;
+  suspectSince: string | null;
+  suspectClearedBy: string | null;
+  suspectClearedAt: string | null;
+  suspectClearComment: string | null;
   createdAt: string;
   updatedAt: string;
+  /** Trace rule warnings raised by the request that returned this */
+  ruleWarnings?: string[];
 };
 
 export type CreateTraceLinkRequest = {
@@ -545,6 +685,7 @@ export type TraceLinkItem = {
   targetRequirementId: string;
   linkType: TraceLinkType;
   description?: string;
+  suspect?: boolean;
   createdAt: string;
   updatedAt: string;
 };
@@ -562,6 +703,8 @@ export type DocumentLinkset = {
   defaultLinkType?: TraceLinkType;
   createdAt: string;
   updatedAt: string;
+  /** Trace rule warnings raised by the request that returned this */
+  ruleWarnings?: string[];
 };
 
 export type CreateLinksetRequest = {
@@ -586,6 +729,435 @@ export type DocumentTreeNode = {
   children?: DocumentTreeNode[];
 };
 
+// Attribute Schema Types
+export type AttributeFieldType = "string" | "enum" | "number" | "date" | "user" | "multi-select" | "boolean";
+
+export type AttributeFieldDefinition = {
+  key: string;
+  label: string;
+  type: AttributeFieldType;
+  description?: string;
+  required: boolean;
+  options?: string[];
+  min?: number;
+  max?: number;
+  defaultValue?: RequirementAttributeValue;
+};
+
+export type AttributeSchemaRecord = {
+  tenant: string;
+  projectKey: string;
+  version: number;
+  fields: AttributeFieldDefinition[];
+  updatedAt: string;
+  updatedBy: string | null;
+};
+
+// Feature Model / Variant Types
+export type FeatureGroupKind = "and" | "alternative" | "or";
+
+export type FeatureDefinition = {
+  id: string;
+  name: string;
+  description?: string;
+  parentId: string | null;
+  optional: boolean;
+  group: FeatureGroupKind;
+};
+
+export type FeatureConstraint = {
+  expression: string;
+  description?: string;
+};
+
+export type VariantConfiguration = {
+  name: string;
+  description?: string;
+  features: string[];
+};
+
+export type FeatureModelRecord = {
+  tenant: string;
+  projectKey: string;
+  version: number;
+  features: FeatureDefinition[];
+  constraints: FeatureConstraint[];
+  configurations: VariantConfiguration[];
+  updatedAt: string;
+  updatedBy: string | null;
+};
+
+export type PresenceConditionTarget = "requirement" | "section" | "block" | "connector";
+
+export type PresenceConditionRecord = {
+  entityType: PresenceConditionTarget;
+  entityId: string;
+  label: string;
+  condition: string;
+};
+
+export type VariantResolution = {
+  configuration: string | null;
+  features: string[];
+  excluded: {
+    requirements: string[];
+    sections: string[];
+    blocks: string[];
+    connectors: string[];
+  };
+};
+
+// Trace Rule Types
+export type TraceRuleEnforcement = "reject" | "warn";
+export type UnmatchedLinkPolicy = "allow" | "warn" | "reject";
+
+export type RequirementClass = {
+  document?: string;
+  tag?: string;
+  attribute?: { key: string; value: string };
+};
+
+export type TraceRule = {
+  id: string;
+  description?: string;
+  source: RequirementClass;
+  target: RequirementClass;
+  linkTypes: TraceLinkType[];
+  enforcement: TraceRuleEnforcement;
+  minPerSource?: number;
+  maxPerSource?: number;
+  minPerTarget?: number;
+  maxPerTarget?: number;
+};
+
+export type TraceRuleSetRecord = {
+  tenant: string;
+  projectKey: string;
+  version: number;
+  rules: TraceRule[];
+  unmatched: UnmatchedLinkPolicy;
+  updatedAt: string;
+  updatedBy: string | null;
+};
+
+// Project Metric Snapshot Types
+export type ImplementationStatus = "not_started" | "in_progress" | "implemented" | "verified" | "blocked";
+
+export type LinksetCoverage = {
+  linksetId: string;
+  sourceDocumentSlug: string;
+  targetDocumentSlug: string;
+  requirements: number;
+  covered: number;
+  coveragePercent: number;
+};
+
+export type DocumentMetrics = {
+  slug: string;
+  name: string;
+  requirements: number;
+  traced: number;
+  verified: number;
+  averageQaScore: number | null;
+};
+
+export type ProjectMetricValues = {
+  requirements: number;
+  traced: number;
+  traceCoveragePercent: number;
+  qa: {
+    average: number | null;
+    excellent: number;
+    good: number;
+    needsWork: number;
+    unscored: number;
+  };
+  linksets: LinksetCoverage[];
+  verification: {
+    verified: number;
+    unverified: number;
+    incomplete: number;
+    coveragePercent: number;
+    errorFindings: number;
+    warningFindings: number;
+  };
+  implementation: Record<ImplementationStatus | "unset", number>;
+  suspectLinks: number;
+  documents: DocumentMetrics[];
+};
+
+export type MetricSnapshotRecord = {
+  tenant: string;
+  projectKey: string;
+  date: string;
+  capturedAt: string;
+  metrics: ProjectMetricValues;
+};
+
+export type BurnUpMeasure = "verified" | "traced";
+
+export type BurnUp = {
+  points: Array<{ date: string; scope: number; done: number }>;
+  targetDate: string | null;
+  ideal: Array<{ date: string; value: number }>;
+  ratePerDay: number | null;
+  projectedCompletion: string | null;
+  onTrack: boolean | null;
+};
+
+// Glossary Types
+export type GlossaryTermInput = {
+  term: string;
+  definition: string;
+  abbreviation: string | null;
+  synonyms: string[];
+  deprecated: string[];
+};
+
+export type GlossaryTerm = GlossaryTermInput & {
+  id: string;
+  tenant: string;
+  projectKey: string;
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string | null;
+};
+
+export type GlossaryTermUsage = {
+  termId: string;
+  requirements: number;
+  deprecatedUses: Array<{ ref: string; form: string }>;
+};
+
+// Comment Types
+export type CommentTargetType = "requirement" | "section" | "trace-link";
+
+export type CommentRecord = {
+  id: string;
+  tenant: string;
+  projectKey: string;
+  targetType: CommentTargetType;
+  targetId: string;
+  documentSlug: string | null;
+  threadId: string;
+  parentId: string | null;
+  authorId: string;
+  body: string;
+  mentions: string[];
+  createdAt: string;
+  updatedAt: string;
+  editedAt: string | null;
+  deletedAt: string | null;
+};
+
+export type CommentThread = CommentRecord & {
+  resolved: boolean;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  replies: CommentRecord[];
+};
+
+/** Total comments and open threads keyed by target id */
+export type CommentCounts = Record<string, { total: number; open: number }>;
+
+export type MentionableUser = {
+  id: string;
+  email: string;
+  name: string | null;
+};
+
+export type CreateCommentRequest = {
+  targetType: CommentTargetType;
+  targetId: string;
+  parentId?: string;
+  body: string;
+};
+
+export type NotificationRecord = {
+  id: string;
+  userId: string;
+  tenantSlug: string;
+  projectSlug?: string;
+  type: "mention";
+  title: string;
+  body?: string;
+  target?: {
+    kind: "comment";
+    commentId: string;
+    threadId: string;
+    targetType: CommentTargetType;
+    targetId: string;
+    documentSlug: string | null;
+  };
+  actorId?: string;
+  readAt?: string;
+  createdAt: string;
+};
+
+// Document Collaboration Types
+export type CollaborationUser = {
+  userId: string;
+  name: string;
+};
+
+export type DocumentParticipant = CollaborationUser & {
+  connectionId: string;
+  viewingRequirementId: string | null;
+  joinedAt: string;
+};
+
+export type RequirementSoftLock = CollaborationUser & {
+  requirementId: string;
+  connectionId: string;
+  acquiredAt: string;
+};
+
+export type DocumentChange = {
+  entity: "requirement" | "section" | "info" | "surrogate" | "document";
+  action: "created" | "updated" | "deleted" | "reordered";
+  id?: string;
+  ref?: string;
+};
+
+export type CollaborationServerMessage =
+  | { type: "welcome"; connectionId: string; participants: DocumentParticipant[]; locks: RequirementSoftLock[] }
+  | { type: "presence"; participants: DocumentParticipant[] }
+  | { type: "locks"; locks: RequirementSoftLock[] }
+  | { type: "lock-denied"; requirementId: string; lock: RequirementSoftLock }
+  | { type: "change"; change: DocumentChange; actor: CollaborationUser | null; at: string }
+  | { type: "pong" }
+  | { type: "error"; message: string };
+
+/** Body of a 409 response to a requirement update based on a stale version */
+export type RequirementConflictResponse = {
+  error: string;
+  current: RequirementRecord;
+};
+
+// Impact Analysis Types
+export type ImpactNodeKind =
+  | "requirement"
+  | "block"
+  | "connector"
+  | "verificationActivity"
+  | "verificationEvidence"
+  | "verificationDocument";
+
+export type ImpactRootKind = "requirement" | "block" | "connector" | "verificationDocument";
+export type ImpactDirection = "upstream" | "downstream" | "both";
+export type ImpactReportFormat = "markdown" | "csv";
+
+export type ImpactNode = {
+  key: string;
+  kind: ImpactNodeKind;
+  id: string;
+  label: string;
+  detail: string | null;
+  documentSlug?: string | null;
+};
+
+export type ImpactEdge = {
+  from: string;
+  to: string;
+  relation: "trace" | "allocated" | "connects" | "verifies" | "evidences" | "documents";
+  label: string;
+  suspect?: boolean;
+};
+
+export type ImpactEntry = {
+  key: string;
+  depth: number;
+  path: ImpactEdge[];
+  explanation: string;
+};
+
+export type ImpactAnalysis = {
+  tenant: string;
+  projectKey: string;
+  root: ImpactNode;
+  direction: ImpactDirection;
+  maxDepth: number;
+  generatedAt: string;
+  nodes: ImpactNode[];
+  edges: ImpactEdge[];
+  upstream: ImpactEntry[];
+  downstream: ImpactEntry[];
+  truncated: boolean;
+};
+
+export type ImpactAnalysisRequest = {
+  kind: ImpactRootKind;
+  id: string;
+  direction?: ImpactDirection;
+  depth?: number;
+};
+
+// LLM Usage Types
+export type LlmUsageGroupBy = "tenant" | "project" | "user" | "feature" | "model" | "day";
+
+export type LlmUsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  errors: number;
+  blocked: number;
+  avgLatencyMs: number;
+};
+
+export type LlmUsageReport = {
+  from: string;
+  to: string;
+  groupBy: LlmUsageGroupBy;
+  totals: LlmUsageTotals;
+  rows: Array<LlmUsageTotals & { key: string | null; label: string | null }>;
+};
+
+export type LlmUsageRecord = {
+  id: string;
+  tenantSlug?: string;
+  projectSlug?: string;
+  userId?: string;
+  feature: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  tokensEstimated: boolean;
+  costUsd: number | null;
+  latencyMs: number;
+  status: "success" | "error" | "blocked";
+  error?: string;
+  hasAudit: boolean;
+  createdAt: string;
+};
+
+export type LlmUsageAudit = {
+  usageId: string;
+  request: unknown;
+  response: string | null;
+  createdAt: string;
+  expiresAt: string;
+};
+
+/** Null limits are unlimited; a null retention period uses the platform default */
+export type LlmQuotaInput = {
+  monthlyTokenSoftLimit: number | null;
+  monthlyTokenHardLimit: number | null;
+  monthlyCostSoftLimitUsd: number | null;
+  monthlyCostHardLimitUsd: number | null;
+  retainPrompts: boolean;
+  retentionDays: number | null;
+};
+
+export type LlmQuota = LlmQuotaInput & {
+  tenantSlug: string;
+  updatedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+  monthToDate?: LlmUsageTotals;
+};
+
 // Architecture Types
 export type BlockKind = "system" | "subsystem" | "component" | "actor" | "external" | "interface";
 export type ConnectorKind = "association" | "flow" | "dependency" | "composition";
@@ -633,6 +1205,7 @@ export type ArchitectureBlockDefinitionRecord = {
   packageId?: string | null;
   ports: BlockPortRecord[];
   documentIds: string[];
+  presenceCondition?: string | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -674,6 +1247,7 @@ export type ArchitectureConnectorRecord = {
   projectKey: string;
   diagramId: string;
   documentIds: string[];
+  presenceCondition?: string | null;
   createdAt: string;
   updatedAt: string;
   // Styling properties
@@ -1020,6 +1594,61 @@ export type DevUserResponse = {
   user: DevUser;
 };
 
+// API Token Types
+
+export type ApiTokenScope = "read" | "write" | "verification:write" | "admin";
+
+export type ApiTokenRecord = {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  userId?: string;
+  serviceAccountId?: string;
+  scopes: ApiTokenScope[];
+  projects?: string[];
+  expiresAt?: string;
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+  revokedAt?: string;
+  createdAt: string;
+};
+
+export type CreateApiTokenRequest = {
+  name: string;
+  scopes: ApiTokenScope[];
+  /** "tenant/project" entries */
+  projects?: string[];
+  expiresInDays?: number;
+};
+
+/** The plain token is only returned in this response */
+export type CreateApiTokenResponse = {
+  token: ApiTokenRecord;
+  secret: string;
+};
+
+export type ApiTokenListResponse = {
+  tokens: ApiTokenRecord[];
+};
+
+export type ApiTokenScopesResponse = {
+  scopes: Array<{ scope: ApiTokenScope; description: string }>;
+};
+
+export type ServiceAccountRecord = {
+  id: string;
+  tenantSlug: string;
+  name: string;
+  description?: string;
+  role: import("./lib/rbac").UserRole;
+  createdAt: string;
+  tokens: ApiTokenRecord[];
+};
+
+export type ServiceAccountListResponse = {
+  serviceAccounts: ServiceAccountRecord[];
+};
+
 // Admin Recovery / Backup Types
 export type BackupComponent = {
   id: string;
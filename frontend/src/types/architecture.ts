@@ -34,6 +34,7 @@ export interface SysmlBlock {
   definitionPorts?: BlockPort[];
   portOverrides?: Record<string, BlockPortOverride>;
   documentIds?: string[];
+  presenceCondition?: string | null;
 
   // Styling properties
   backgroundColor?: string;
@@ -156,6 +157,7 @@ export interface SysmlConnector {
   sourcePortId?: string | null;
   targetPortId?: string | null;
   documentIds?: string[];
+  presenceCondition?: string | null;
 
   // Styling properties
   lineStyle?: string;
@@ -25,7 +25,9 @@ export default defineConfig({
       "/api": {
         target: apiTarget,
         changeOrigin: true,
-        secure: apiTarget.startsWith("https")
+        secure: apiTarget.startsWith("https"),
+        // Document collaboration channel
+        ws: true
       }
     }
   }
@@ -13,8 +13,10 @@ const SESSION_FILE = join(homedir(), ".airgen-session");
 
 export interface ClientConfig {
   apiUrl: string;
-  email: string;
-  password: string;
+  email?: string;
+  password?: string;
+  /** Personal access or service account token; used instead of email/password login */
+  token?: string;
 }
 
 interface AuthState {
@@ -33,7 +35,12 @@ export class AirgenClient {
   private loginPromise: Promise<void> | null = null;
 
   constructor(private config: ClientConfig) {
-    this.loadSession();
+    if (config.token) {
+      // API tokens do not expire client-side and need no session
+      this.auth = { accessToken: config.token, refreshToken: null, tokenExpiresAt: Infinity };
+    } else {
+      this.loadSession();
+    }
   }
 
   private loadSession(): void {
@@ -87,6 +94,10 @@ export class AirgenClient {
     return this.request<T>("POST", path, body);
   }
 
+  async put<T = unknown>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>("PUT", path, body);
+  }
+
   async patch<T = unknown>(path: string, body?: unknown): Promise<T> {
     return this.request<T>("PATCH", path, body);
   }
@@ -259,6 +270,10 @@ export class AirgenClient {
   }
 
   private async login(): Promise<void> {
+    if (!this.config.email || !this.config.password) {
+      throw new AirgenApiError(401, "API token was rejected and no email/password is configured", "/auth/login");
+    }
+
     const res = await globalThis.fetch(`${this.config.apiUrl}/auth/login`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
@@ -10,6 +10,22 @@ interface Baseline {
   requirementCount?: number;
 }
 
+interface RestoreAction {
+  entityType: string;
+  entityId: string;
+  label: string;
+  action: string;
+  fields: string[];
+  reason?: string;
+}
+
+interface RestorePlan {
+  baselineRef: string;
+  dryRun: boolean;
+  actions: RestoreAction[];
+  summary: Record<string, number>;
+}
+
 export function registerBaselineCommands(program: Command, client: AirgenClient) {
   const cmd = program.command("baselines").alias("bl").description("Baseline snapshots");
 
@@ -72,4 +88,37 @@ export function registerBaselineCommands(program: Command, client: AirgenClient)
       );
       output(data);
     });
+
+  cmd
+    .command("restore")
+    .description("Restore a project, document or section to a baseline (dry run unless --apply)")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .argument("<ref>", "Baseline ref")
+    .option("--document <slug>", "Restore only this document")
+    .option("--section <id>", "Restore only this section")
+    .option("--apply", "Apply the changes instead of previewing them")
+    .action(async (tenant: string, project: string, ref: string, opts: { document?: string; section?: string; apply?: boolean }) => {
+      if (opts.document && opts.section) {
+        console.error("Use either --document or --section, not both.");
+        process.exit(1);
+      }
+      const scope = opts.section ? "section" : opts.document ? "document" : "project";
+      const plan = await client.post<RestorePlan>(
+        `/baselines/${tenant}/${project}/${ref}/restore`,
+        { scope, documentSlug: opts.document, sectionId: opts.section, dryRun: !opts.apply },
+      );
+      if (isJsonMode()) {
+        output(plan);
+        return;
+      }
+      printTable(
+        ["Type", "Item", "Action", "Details"],
+        plan.actions.map(a => [a.entityType, a.label, a.action, a.reason ?? a.fields.join(", ")]),
+      );
+      const changes = plan.actions.length - (plan.summary.skip ?? 0);
+      console.log(plan.dryRun
+        ? `\n${changes} change(s) needed. Re-run with --apply to restore to ${plan.baselineRef}.`
+        : `\nRestored ${changes} item(s) to ${plan.baselineRef}.`);
+    });
 }
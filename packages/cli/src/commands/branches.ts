@@ -0,0 +1,129 @@
+import { Command } from "commander";
+import type { AirgenClient } from "../client.js";
+import { output, printTable, isJsonMode } from "../output.js";
+
+interface Branch {
+  slug: string;
+  name?: string | null;
+  sourceProject: string;
+  baselineRef: string;
+  documentSlugs?: string[] | null;
+  createdAt: string;
+  createdBy?: string | null;
+}
+
+interface RequirementStatus {
+  requirementId: string;
+  originId: string | null;
+  ref: string;
+  status: string;
+}
+
+interface MergeAction extends RequirementStatus {
+  action: string;
+  reason?: string;
+}
+
+interface MergeResult {
+  branch: string;
+  targetProject: string;
+  dryRun: boolean;
+  actions: MergeAction[];
+  summary: Record<string, number>;
+}
+
+export function registerBranchCommands(program: Command, client: AirgenClient) {
+  const cmd = program.command("branches").alias("br").description("Project branches forked from baselines");
+
+  cmd
+    .command("list")
+    .description("List branches forked from a project")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .action(async (tenant: string, project: string) => {
+      const data = await client.get<{ branches: Branch[] }>(`/branches/${tenant}/${project}`);
+      if (isJsonMode()) {
+        output(data.branches);
+        return;
+      }
+      printTable(
+        ["Branch", "From", "Scope", "Created"],
+        data.branches.map(b => [
+          b.slug,
+          b.baselineRef,
+          b.documentSlugs?.join(", ") ?? "project",
+          b.createdAt,
+        ]),
+      );
+    });
+
+  cmd
+    .command("create")
+    .description("Fork a project (or some documents) into a branch")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .argument("<branch>", "Slug of the new branch project")
+    .option("--from <ref>", "Baseline to fork from", "HEAD")
+    .option("--document <slug...>", "Fork only these documents")
+    .option("--name <name>", "Branch name")
+    .action(async (tenant: string, project: string, branch: string, opts: { from: string; document?: string[]; name?: string }) => {
+      const data = await client.post<{ branch: Branch; counts: Record<string, number> }>(
+        `/branches/${tenant}/${project}`,
+        { slug: branch, name: opts.name, baselineRef: opts.from, documentSlugs: opts.document },
+      );
+      if (isJsonMode()) {
+        output(data);
+        return;
+      }
+      const counts = Object.entries(data.counts).map(([type, count]) => `${count} ${type}`).join(", ");
+      console.log(`Created branch ${data.branch.slug} from ${project} at ${data.branch.baselineRef} (${counts}).`);
+    });
+
+  cmd
+    .command("compare")
+    .description("Show how a branch differs from its project")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .argument("<branch>", "Branch slug")
+    .action(async (tenant: string, project: string, branch: string) => {
+      const data = await client.get<{ requirements: RequirementStatus[] }>(
+        `/branches/${tenant}/${project}/${branch}/compare`,
+      );
+      if (isJsonMode()) {
+        output(data);
+        return;
+      }
+      printTable(
+        ["Requirement", "Status"],
+        data.requirements.filter(r => r.status !== "unchanged").map(r => [r.ref, r.status]),
+      );
+    });
+
+  cmd
+    .command("merge")
+    .description("Merge requirement changes from a branch into its project (dry run unless --apply)")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .argument("<branch>", "Branch slug")
+    .option("--requirement <id...>", "Merge only these branch requirement IDs")
+    .option("--theirs <id...>", "Resolve these conflicting branch requirement IDs with the branch version")
+    .option("--apply", "Apply the merge instead of previewing it")
+    .action(async (tenant: string, project: string, branch: string, opts: { requirement?: string[]; theirs?: string[]; apply?: boolean }) => {
+      const result = await client.post<MergeResult>(
+        `/branches/${tenant}/${project}/${branch}/merge`,
+        { requirementIds: opts.requirement, resolveWithBranch: opts.theirs, dryRun: !opts.apply },
+      );
+      if (isJsonMode()) {
+        output(result);
+        return;
+      }
+      printTable(
+        ["Requirement", "Status", "Action", "Details"],
+        result.actions.filter(a => a.status !== "unchanged").map(a => [a.ref, a.status, a.action, a.reason ?? ""]),
+      );
+      const changes = result.actions.length - (result.summary.skip ?? 0);
+      console.log(result.dryRun
+        ? `\n${changes} change(s) to merge. Re-run with --apply to merge into ${result.targetProject}.`
+        : `\nMerged ${changes} requirement(s) into ${result.targetProject}.`);
+    });
+}
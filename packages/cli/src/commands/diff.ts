@@ -221,11 +221,20 @@ export function registerDiffCommand(program: Command, client: AirgenClient) {
     .argument("<project>", "Project slug")
     .requiredOption("--from <ref>", "Source baseline ref (earlier)")
     .requiredOption("--to <ref>", "Target baseline ref (later)")
-    .option("--format <fmt>", "Output format: text, markdown", "text")
+    .option("--format <fmt>", "Output format: text, markdown, pdf, docx (pdf/docx produce the signed change report)", "text")
     .option("-o, --output <file>", "Write report to file")
     .action(async (tenant: string, project: string, opts: {
       from: string; to: string; format: string; output?: string;
     }) => {
+      if (opts.format === "pdf" || opts.format === "docx") {
+        const params = new URLSearchParams({ from: opts.from, to: opts.to, format: opts.format });
+        const { data } = await client.fetchBinary(`/baselines/${tenant}/${project}/change-report?${params}`);
+        const file = opts.output ?? `${project}-${opts.from}-to-${opts.to}.${opts.format}`;
+        writeFileSync(file, data);
+        console.log(`Change report written to ${file}`);
+        return;
+      }
+
       const data = await client.get<CompareResponse>(
         `/baselines/${tenant}/${project}/compare`,
         { from: opts.from, to: opts.to },
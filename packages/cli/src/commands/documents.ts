@@ -10,6 +10,39 @@ interface Document {
   description?: string;
   sectionCount?: number;
   requirementCount?: number;
+  refScheme?: RefScheme | null;
+}
+
+interface RefScheme {
+  template: string;
+  start: number;
+  step: number;
+  counter: "document" | "section";
+}
+
+interface RenumberResult {
+  scheme: RefScheme;
+  dryRun: boolean;
+  changes: Array<{ requirementId: string; oldRef: string; newRef: string }>;
+  unchanged: number;
+  conflicts: string[];
+}
+
+interface SchemeOptions {
+  template?: string;
+  start?: string;
+  step?: string;
+  counter?: string;
+}
+
+function schemeFromOptions(opts: SchemeOptions): RefScheme | undefined {
+  if (!opts.template) return undefined;
+  return {
+    template: opts.template,
+    start: opts.start ? parseInt(opts.start, 10) : 1,
+    step: opts.step ? parseInt(opts.step, 10) : 1,
+    counter: opts.counter === "section" ? "section" : "document",
+  };
 }
 
 export function registerDocumentCommands(program: Command, client: AirgenClient) {
@@ -106,6 +139,96 @@ export function registerDocumentCommands(program: Command, client: AirgenClient)
       }
     });
 
+  // Numbering sub-group
+  const numbering = cmd.command("numbering").alias("num").description("Requirement ref numbering schemes");
+
+  numbering
+    .command("show")
+    .description("Show a document's numbering scheme")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .argument("<slug>", "Document slug")
+    .action(async (tenant: string, project: string, slug: string) => {
+      const data = await client.get<{ document: Document }>(`/documents/${tenant}/${project}/${slug}`);
+      const scheme = data.document?.refScheme ?? null;
+      if (isJsonMode()) {
+        output(scheme);
+      } else if (!scheme) {
+        console.log("No numbering scheme; the document uses default refs (DOC-SECTION-001).");
+      } else {
+        console.log(`Template: ${scheme.template}`);
+        console.log(`Start:    ${scheme.start}`);
+        console.log(`Step:     ${scheme.step}`);
+        console.log(`Counter:  per ${scheme.counter}`);
+      }
+    });
+
+  numbering
+    .command("set")
+    .description("Set the numbering scheme for new requirements (existing refs change only on renumber)")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .argument("<slug>", "Document slug")
+    .requiredOption("--template <template>", "Ref template, e.g. SRS-NAV-{n:4} or {section}-R{n}")
+    .option("--start <n>", "First number", "1")
+    .option("--step <n>", "Gap between numbers", "1")
+    .option("--counter <scope>", "Counter scope: document, section", "document")
+    .action(async (tenant: string, project: string, slug: string, opts: SchemeOptions) => {
+      const data = await client.put(`/documents/${tenant}/${project}/${slug}/ref-scheme`, {
+        scheme: schemeFromOptions(opts),
+      });
+      if (isJsonMode()) {
+        output(data);
+      } else {
+        console.log("Numbering scheme saved.");
+      }
+    });
+
+  numbering
+    .command("clear")
+    .description("Go back to default refs for new requirements")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .argument("<slug>", "Document slug")
+    .action(async (tenant: string, project: string, slug: string) => {
+      await client.put(`/documents/${tenant}/${project}/${slug}/ref-scheme`, { scheme: null });
+      console.log("Numbering scheme cleared.");
+    });
+
+  numbering
+    .command("renumber")
+    .description("Renumber all requirements in a document (preview unless --apply)")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .argument("<slug>", "Document slug")
+    .option("--template <template>", "Use (and save) this template instead of the saved scheme")
+    .option("--start <n>", "First number (with --template)")
+    .option("--step <n>", "Gap between numbers (with --template)")
+    .option("--counter <scope>", "Counter scope with --template: document, section")
+    .option("--apply", "Apply the renumbering; old refs are kept as aliases")
+    .action(async (tenant: string, project: string, slug: string, opts: SchemeOptions & { apply?: boolean }) => {
+      const result = await client.post<RenumberResult>(`/documents/${tenant}/${project}/${slug}/renumber`, {
+        scheme: schemeFromOptions(opts),
+        dryRun: !opts.apply,
+      });
+
+      if (isJsonMode()) {
+        output(result);
+        return;
+      }
+      if (result.changes.length > 0) {
+        printTable(["Current", "New"], result.changes.map(c => [c.oldRef, c.newRef]));
+      }
+      console.log(`\n${result.changes.length} ref(s) ${result.dryRun ? "would change" : "changed"}, ${result.unchanged} unchanged.`);
+      if (result.conflicts.length > 0) {
+        console.log("\nConflicts:");
+        for (const conflict of result.conflicts) console.log(`  ${conflict}`);
+      }
+      if (result.dryRun && result.conflicts.length === 0 && result.changes.length > 0) {
+        console.log("Run again with --apply to renumber.");
+      }
+    });
+
   // Sections sub-group
   const sections = cmd.command("sections").alias("sec").description("Manage document sections");
 
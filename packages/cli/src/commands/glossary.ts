@@ -0,0 +1,122 @@
+import { Command } from "commander";
+import type { AirgenClient } from "../client.js";
+import { output, printTable, isJsonMode, truncate } from "../output.js";
+
+interface GlossaryTerm {
+  id: string;
+  term: string;
+  definition: string;
+  abbreviation: string | null;
+  synonyms: string[];
+  deprecated: string[];
+}
+
+interface GlossaryTermUsage {
+  termId: string;
+  requirements: number;
+  deprecatedUses: Array<{ ref: string; form: string }>;
+}
+
+interface TermOptions {
+  definition?: string;
+  abbreviation?: string;
+  synonym: string[];
+  deprecated: string[];
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function termBody(term: string, opts: TermOptions) {
+  return {
+    term,
+    definition: opts.definition ?? "",
+    abbreviation: opts.abbreviation ?? null,
+    synonyms: opts.synonym,
+    deprecated: opts.deprecated,
+  };
+}
+
+function withTermOptions(command: Command): Command {
+  return command
+    .option("--definition <text>", "Definition")
+    .option("--abbreviation <abbr>", "Abbreviation, e.g. BCU")
+    .option("--synonym <form>", "Accepted synonym (repeatable)", collect, [])
+    .option("--deprecated <form>", "Deprecated form to flag (repeatable)", collect, []);
+}
+
+export function registerGlossaryCommands(program: Command, client: AirgenClient) {
+  const cmd = program.command("glossary").alias("gloss").description("Project glossary (controlled vocabulary)");
+
+  cmd
+    .command("list")
+    .description("List glossary terms")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .option("--usage", "Include how many requirements use each term")
+    .action(async (tenant: string, project: string, opts: { usage?: boolean }) => {
+      const data = await client.get<{ terms: GlossaryTerm[] }>(`/glossary/${tenant}/${project}`);
+      const usage = opts.usage
+        ? (await client.get<{ usage: GlossaryTermUsage[] }>(`/glossary/${tenant}/${project}/usage`)).usage
+        : [];
+      if (isJsonMode()) {
+        output(opts.usage ? { terms: data.terms, usage } : data.terms);
+        return;
+      }
+      const usageById = new Map(usage.map(u => [u.termId, u]));
+      printTable(
+        ["ID", "Term", "Abbr", "Synonyms", "Deprecated", "Definition", ...(opts.usage ? ["Used", "Deprecated uses"] : [])],
+        data.terms.map(t => [
+          t.id,
+          t.term,
+          t.abbreviation ?? "",
+          t.synonyms.join(", "),
+          t.deprecated.join(", "),
+          truncate(t.definition, 60),
+          ...(opts.usage
+            ? [
+              String(usageById.get(t.id)?.requirements ?? 0),
+              (usageById.get(t.id)?.deprecatedUses ?? []).map(u => `${u.ref} (${u.form})`).join(", "),
+            ]
+            : []),
+        ]),
+      );
+    });
+
+  withTermOptions(
+    cmd
+      .command("add")
+      .description("Add a glossary term")
+      .argument("<tenant>", "Tenant slug")
+      .argument("<project>", "Project slug")
+      .argument("<term>", "Preferred term"),
+  ).action(async (tenant: string, project: string, term: string, opts: TermOptions) => {
+    const data = await client.post<{ term: GlossaryTerm }>(`/glossary/${tenant}/${project}`, termBody(term, opts));
+    output(data.term, `Added "${data.term.term}" (${data.term.id}).`);
+  });
+
+  withTermOptions(
+    cmd
+      .command("update")
+      .description("Replace a glossary term's fields (omitted options are cleared)")
+      .argument("<tenant>", "Tenant slug")
+      .argument("<project>", "Project slug")
+      .argument("<id>", "Term ID")
+      .argument("<term>", "Preferred term"),
+  ).action(async (tenant: string, project: string, id: string, term: string, opts: TermOptions) => {
+    const data = await client.put<{ term: GlossaryTerm }>(`/glossary/${tenant}/${project}/${id}`, termBody(term, opts));
+    output(data.term, `Updated "${data.term.term}".`);
+  });
+
+  cmd
+    .command("remove")
+    .description("Remove a glossary term")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .argument("<id>", "Term ID")
+    .action(async (tenant: string, project: string, id: string) => {
+      await client.delete(`/glossary/${tenant}/${project}/${id}`);
+      output({ deleted: id }, "Term removed.");
+    });
+}
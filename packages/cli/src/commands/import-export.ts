@@ -1,7 +1,22 @@
 import { Command } from "commander";
-import { readFileSync } from "node:fs";
+import { readFileSync, writeFileSync } from "node:fs";
 import type { AirgenClient } from "../client.js";
-import { output, isJsonMode } from "../output.js";
+import { output, isJsonMode, printTable } from "../output.js";
+
+interface ReqifImportResult {
+  dryRun: boolean;
+  sections: { created: number; matched: number };
+  requirements: { created: number; updated: number; unchanged: number };
+  traceLinks: { created: number; skipped: number };
+  items: Array<{
+    identifier: string;
+    action: "create" | "update" | "unchanged";
+    ref?: string;
+    section?: string | null;
+    changes?: string[];
+  }>;
+  warnings: string[];
+}
 
 export function registerImportExportCommands(program: Command, client: AirgenClient) {
   const imp = program.command("import").description("Import requirements");
@@ -47,8 +62,69 @@ export function registerImportExportCommands(program: Command, client: AirgenCli
       console.log(`Imported ${created} requirements.`);
     });
 
+  imp
+    .command("reqif")
+    .description("Import a ReqIF file into a document, updating previously imported requirements")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .argument("<document>", "Target document slug")
+    .requiredOption("--file <path>", "Path to .reqif file")
+    .option("--dry-run", "Preview changes without importing")
+    .action(async (tenant: string, project: string, document: string, opts: { file: string; dryRun?: boolean }) => {
+      const content = readFileSync(opts.file, "utf-8");
+      const { result } = await client.post<{ result: ReqifImportResult }>(
+        `/documents/${tenant}/${project}/${document}/reqif`,
+        { content, dryRun: opts.dryRun ?? false },
+      );
+
+      if (isJsonMode()) {
+        output(result);
+        return;
+      }
+
+      const changed = result.items.filter(item => item.action !== "unchanged");
+      if (changed.length > 0) {
+        printTable(
+          ["Action", "Identifier", "Ref", "Section", "Changes"],
+          changed.map(item => [
+            item.action,
+            item.identifier,
+            item.ref ?? "",
+            item.section ?? "",
+            (item.changes ?? []).join(", "),
+          ]),
+        );
+        console.log();
+      }
+
+      const { sections, requirements, traceLinks } = result;
+      console.log(`${result.dryRun ? "Would import" : "Imported"}: ` +
+        `${requirements.created} created, ${requirements.updated} updated, ${requirements.unchanged} unchanged; ` +
+        `${sections.created} new sections; ${traceLinks.created} trace links.`);
+      for (const warning of result.warnings) {
+        console.log(`  ! ${warning}`);
+      }
+    });
+
   const exp = program.command("export").description("Export data");
 
+  exp
+    .command("reqif")
+    .description("Export a document as ReqIF 1.2 (sections, requirements, trace links)")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .argument("<document>", "Document slug")
+    .option("-o, --output <file>", "Write to file instead of stdout")
+    .action(async (tenant: string, project: string, document: string, opts: { output?: string }) => {
+      const xml = await client.get<string>(`/documents/${tenant}/${project}/${document}/reqif`);
+      if (opts.output) {
+        writeFileSync(opts.output, xml, "utf-8");
+        console.log(`ReqIF written to ${opts.output}`);
+      } else {
+        console.log(xml);
+      }
+    });
+
   exp
     .command("requirements")
     .description("Export requirements as markdown or JSON")
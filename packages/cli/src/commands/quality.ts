@@ -10,12 +10,18 @@ export function registerQualityCommands(program: Command, client: AirgenClient)
     .description("Analyze requirement quality (ISO 29148 + EARS)")
     .argument("<text>", "Requirement text to analyze")
     .option("--auto-fix", "Suggest improved text")
-    .action(async (text: string, opts: { autoFix?: boolean }) => {
+    .option("--tenant <slug>", "Tenant slug (with --project: apply the project's rule pack and glossary)")
+    .option("--project <slug>", "Project slug")
+    .option("--tags <list>", "Comma-separated requirement tags, for tag-scoped rules")
+    .action(async (text: string, opts: { autoFix?: boolean; tenant?: string; project?: string; tags?: string }) => {
       if (opts.autoFix) {
         const data = await client.post("/apply-fix", { text });
         output(data);
       } else {
-        const data = await client.post("/qa", { text });
+        const tags = opts.tags?.split(",").map(tag => tag.trim()).filter(Boolean);
+        const data = await client.post("/qa", opts.tenant && opts.project
+          ? { text, tenant: opts.tenant, projectKey: opts.project, tags }
+          : { text, tags });
         output(data);
       }
     });
@@ -48,11 +54,15 @@ export function registerQualityCommands(program: Command, client: AirgenClient)
     .command("draft")
     .description("Generate candidate requirement texts from natural language")
     .argument("<input>", "Natural language description")
+    .requiredOption("--tenant <slug>", "Tenant slug (its LLM provider and quota are used)")
+    .requiredOption("--project <slug>", "Project slug")
     .option("--glossary <text>", "Domain glossary")
     .option("--constraints <text>", "Constraints")
     .option("-n, --count <n>", "Number of candidates")
-    .action(async (input: string, opts: { glossary?: string; constraints?: string; count?: string }) => {
+    .action(async (input: string, opts: { tenant: string; project: string; glossary?: string; constraints?: string; count?: string }) => {
       const data = await client.post("/draft/candidates", {
+        tenant: opts.tenant,
+        project: opts.project,
         user_input: input,
         glossary: opts.glossary,
         constraints: opts.constraints,
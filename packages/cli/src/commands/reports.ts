@@ -20,6 +20,26 @@ const IMPL_STATUSES = ["not_started", "in_progress", "implemented", "verified",
 type ImplStatus = (typeof IMPL_STATUSES)[number];
 const PAGE_SIZE = 100;
 const MAX_PAGES = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface MetricSnapshot {
+  date: string;
+  metrics: {
+    requirements: number;
+    traced: number;
+    traceCoveragePercent: number;
+    qa: { average: number | null };
+    verification: { verified: number; coveragePercent: number };
+    suspectLinks: number;
+  };
+}
+
+interface BurnUp {
+  targetDate: string | null;
+  ratePerDay: number | null;
+  projectedCompletion: string | null;
+  onTrack: boolean | null;
+}
 
 function getImplStatus(tags?: string[]): ImplStatus | null {
   if (!tags) return null;
@@ -189,4 +209,57 @@ export function registerReportCommands(program: Command, client: AirgenClient) {
         }
       }
     });
+
+  cmd
+    .command("trends")
+    .description("Coverage and quality trends from daily metric snapshots")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .option("--days <n>", "How many days back to show", "30")
+    .option("--target <date>", "Target date (YYYY-MM-DD) for the burn-up projection")
+    .option("--measure <measure>", "Burn-up measure: verified, traced", "verified")
+    .action(async (tenant: string, project: string, opts: { days: string; target?: string; measure: string }) => {
+      const days = parseInt(opts.days, 10) || 30;
+      const from = new Date(Date.now() - days * DAY_MS).toISOString().slice(0, 10);
+      const [snapshotData, burnUpData] = await Promise.all([
+        client.get<{ snapshots: MetricSnapshot[] }>(`/project-metrics/${tenant}/${project}/snapshots`, { from }),
+        client.get<{ burnUp: BurnUp }>(`/project-metrics/${tenant}/${project}/burnup`, {
+          from,
+          measure: opts.measure,
+          targetDate: opts.target,
+        }),
+      ]);
+      const snapshots = snapshotData.snapshots ?? [];
+      const burnUp = burnUpData.burnUp;
+
+      if (isJsonMode()) {
+        output({ snapshots, burnUp });
+        return;
+      }
+
+      if (snapshots.length === 0) {
+        console.log(`No metric snapshots since ${from}.`);
+        return;
+      }
+      printTable(
+        ["Date", "Reqs", "Traced", "Trace %", "Verified", "Verif %", "Avg QA", "Suspect"],
+        snapshots.map(s => [
+          s.date,
+          String(s.metrics.requirements),
+          String(s.metrics.traced),
+          `${s.metrics.traceCoveragePercent}%`,
+          String(s.metrics.verification.verified),
+          `${s.metrics.verification.coveragePercent}%`,
+          s.metrics.qa.average === null ? "-" : String(s.metrics.qa.average),
+          String(s.metrics.suspectLinks),
+        ]),
+      );
+
+      console.log(`\nBurn-up (${opts.measure}):`);
+      console.log(`  Rate per day:         ${burnUp.ratePerDay ?? "-"}`);
+      console.log(`  Projected completion: ${burnUp.projectedCompletion ?? "-"}`);
+      if (burnUp.targetDate) {
+        console.log(`  Target date:          ${burnUp.targetDate} (${burnUp.onTrack ? "on track" : "behind"})`);
+      }
+    });
 }
@@ -1,4 +1,5 @@
 import { Command } from "commander";
+import { readFileSync } from "node:fs";
 import type { AirgenClient } from "../client.js";
 import { output, printTable, isJsonMode } from "../output.js";
 
@@ -12,6 +13,47 @@ interface TraceLink {
   description?: string;
 }
 
+interface RequirementClass {
+  document?: string;
+  tag?: string;
+  attribute?: { key: string; value: string };
+}
+
+interface TraceRule {
+  id: string;
+  source: RequirementClass;
+  target: RequirementClass;
+  linkTypes: string[];
+  enforcement: string;
+  minPerSource?: number;
+  maxPerSource?: number;
+  minPerTarget?: number;
+  maxPerTarget?: number;
+}
+
+interface TraceRuleSet {
+  version: number;
+  rules: TraceRule[];
+  unmatched: string;
+}
+
+function describeClass(requirementClass: RequirementClass): string {
+  const parts = [
+    requirementClass.document,
+    requirementClass.tag && `#${requirementClass.tag}`,
+    requirementClass.attribute && `${requirementClass.attribute.key}=${requirementClass.attribute.value}`,
+  ].filter(Boolean);
+  return parts.length ? parts.join(" ") : "*";
+}
+
+function describeCounts(rule: TraceRule): string {
+  const range = (min?: number, max?: number) =>
+    min === undefined && max === undefined ? null : `${min ?? 0}..${max ?? "*"}`;
+  const perSource = range(rule.minPerSource, rule.maxPerSource);
+  const perTarget = range(rule.minPerTarget, rule.maxPerTarget);
+  return [perSource && `source ${perSource}`, perTarget && `target ${perTarget}`].filter(Boolean).join(", ");
+}
+
 export function registerTraceabilityCommands(program: Command, client: AirgenClient) {
   const cmd = program.command("traces").alias("trace").description("Traceability links");
 
@@ -55,7 +97,7 @@ export function registerTraceabilityCommands(program: Command, client: AirgenCli
     .action(async (tenant: string, projectKey: string, opts: {
       source: string; target: string; type: string; description?: string;
     }) => {
-      const data = await client.post("/trace-links", {
+      const data = await client.post<{ traceLink: { ruleWarnings?: string[] } }>("/trace-links", {
         tenant,
         projectKey,
         sourceRequirementId: opts.source,
@@ -67,6 +109,9 @@ export function registerTraceabilityCommands(program: Command, client: AirgenCli
         output(data);
       } else {
         console.log("Trace link created.");
+        for (const warning of data.traceLink.ruleWarnings ?? []) {
+          console.log(`  Warning: ${warning}`);
+        }
       }
     });
 
@@ -81,6 +126,54 @@ export function registerTraceabilityCommands(program: Command, client: AirgenCli
       console.log("Trace link deleted.");
     });
 
+  // Trace rules
+  const rules = cmd.command("rules").description("Traceability information model");
+
+  rules
+    .command("show")
+    .description("Show the project's trace rules")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .action(async (tenant: string, project: string) => {
+      const data = await client.get<{ ruleSet: TraceRuleSet | null }>(`/trace-rules/${tenant}/${project}`);
+      if (isJsonMode()) {
+        output(data.ruleSet);
+        return;
+      }
+      if (!data.ruleSet) {
+        console.log("No trace rules defined.");
+        return;
+      }
+      printTable(
+        ["Rule", "Source", "Target", "Link types", "Links", "On violation"],
+        data.ruleSet.rules.map(r => [
+          r.id,
+          describeClass(r.source),
+          describeClass(r.target),
+          r.linkTypes.join(", "),
+          describeCounts(r),
+          r.enforcement,
+        ]),
+      );
+      console.log(`\nLinks no rule covers: ${data.ruleSet.unmatched}`);
+    });
+
+  rules
+    .command("set")
+    .description("Replace the project's trace rules from a JSON file ({ rules, unmatched })")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .argument("<file>", "JSON file")
+    .action(async (tenant: string, project: string, file: string) => {
+      const body = JSON.parse(readFileSync(file, "utf-8"));
+      const data = await client.put<{ ruleSet: TraceRuleSet }>(`/trace-rules/${tenant}/${project}`, body);
+      if (isJsonMode()) {
+        output(data.ruleSet);
+      } else {
+        console.log(`Saved ${data.ruleSet.rules.length} trace rule(s), version ${data.ruleSet.version}.`);
+      }
+    });
+
   // Linksets
   const linksets = cmd.command("linksets").description("Document linksets");
 
@@ -103,7 +196,7 @@ export function registerTraceabilityCommands(program: Command, client: AirgenCli
     .requiredOption("--target <slug>", "Target document slug")
     .option("--link-type <type>", "Default link type")
     .action(async (tenant: string, project: string, opts: { source: string; target: string; linkType?: string }) => {
-      const data = await client.post(`/linksets/${tenant}/${project}`, {
+      const data = await client.post<{ linkset: { ruleWarnings?: string[] } }>(`/linksets/${tenant}/${project}`, {
         sourceDocumentSlug: opts.source,
         targetDocumentSlug: opts.target,
         defaultLinkType: opts.linkType,
@@ -112,6 +205,9 @@ export function registerTraceabilityCommands(program: Command, client: AirgenCli
         output(data);
       } else {
         console.log("Linkset created.");
+        for (const warning of data.linkset.ruleWarnings ?? []) {
+          console.log(`  Warning: ${warning}`);
+        }
       }
     });
 
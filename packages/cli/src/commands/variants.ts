@@ -0,0 +1,129 @@
+import { Command } from "commander";
+import type { AirgenClient } from "../client.js";
+import { output, printTable, isJsonMode } from "../output.js";
+
+interface Feature {
+  id: string;
+  name: string;
+  parentId: string | null;
+  optional: boolean;
+  group: string;
+}
+
+interface FeatureModel {
+  version: number;
+  features: Feature[];
+  constraints: Array<{ expression: string; description?: string }>;
+  configurations: Array<{ name: string; features: string[] }>;
+}
+
+interface VariantResolution {
+  configuration: string | null;
+  features: string[];
+  excluded: Record<"requirements" | "sections" | "blocks" | "connectors", string[]>;
+}
+
+const ENTITY_TYPES = ["requirement", "section", "block", "connector"];
+
+export function registerVariantCommands(program: Command, client: AirgenClient) {
+  const cmd = program.command("variants").alias("var").description("Product-line feature model and variants");
+
+  cmd
+    .command("model")
+    .description("Show the project's feature model and saved configurations")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .action(async (tenant: string, project: string) => {
+      const data = await client.get<{ model: FeatureModel | null }>(`/feature-model/${tenant}/${project}`);
+      if (isJsonMode()) {
+        output(data.model);
+        return;
+      }
+      if (!data.model) {
+        console.log("No feature model defined.");
+        return;
+      }
+      printTable(
+        ["Feature", "Name", "Parent", "Optional", "Children"],
+        data.model.features.map(f => [f.id, f.name, f.parentId ?? "(root)", f.optional ? "yes" : "", f.group]),
+      );
+      if (data.model.constraints.length > 0) {
+        console.log(`\nConstraints:\n${data.model.constraints.map(c => `  ${c.expression}`).join("\n")}`);
+      }
+      if (data.model.configurations.length > 0) {
+        console.log(`\nConfigurations:\n${data.model.configurations.map(c => `  ${c.name}: ${c.features.join(", ")}`).join("\n")}`);
+      }
+    });
+
+  cmd
+    .command("check")
+    .description("Check a feature selection against the model's groups and constraints")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .argument("<features...>", "Selected feature IDs")
+    .action(async (tenant: string, project: string, features: string[]) => {
+      const result = await client.post<{ valid: boolean; errors: string[] }>(
+        `/feature-model/${tenant}/${project}/validate`,
+        { features },
+      );
+      if (isJsonMode()) {
+        output(result);
+        return;
+      }
+      if (result.valid) {
+        console.log("Configuration is valid.");
+        return;
+      }
+      console.log(result.errors.map(e => `  - ${e}`).join("\n"));
+      process.exitCode = 1;
+    });
+
+  cmd
+    .command("resolve")
+    .description("List what a variant excludes")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .option("--config <name>", "Saved configuration")
+    .option("--features <ids>", "Comma-separated feature IDs")
+    .action(async (tenant: string, project: string, opts: { config?: string; features?: string }) => {
+      const data = await client.get<VariantResolution>(`/feature-model/${tenant}/${project}/variant`, {
+        configuration: opts.config,
+        features: opts.features,
+      });
+      if (isJsonMode()) {
+        output(data);
+        return;
+      }
+      console.log(`Features: ${data.features.join(", ")}`);
+      printTable(
+        ["Type", "Excluded"],
+        Object.entries(data.excluded).map(([type, ids]) => [type, ids.length ? ids.join(", ") : "-"]),
+      );
+    });
+
+  cmd
+    .command("condition")
+    .description("Set or clear the presence condition of a requirement, section, block or connector")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .argument("<type>", ENTITY_TYPES.join(" | "))
+    .argument("<id>", "Entity ID")
+    .argument("[condition]", "Feature expression, e.g. \"abs && !manual\"; omit to clear")
+    .action(async (tenant: string, project: string, type: string, id: string, condition?: string) => {
+      if (!ENTITY_TYPES.includes(type)) {
+        console.error(`Unknown type "${type}". Expected one of: ${ENTITY_TYPES.join(", ")}`);
+        process.exit(1);
+      }
+      const result = await client.put<{ condition: { label: string; condition: string } | null }>(
+        `/feature-model/${tenant}/${project}/presence-conditions`,
+        { entityType: type, entityId: id, condition: condition ?? null },
+      );
+      if (isJsonMode()) {
+        output(result);
+        return;
+      }
+      console.log(result.condition
+        ? `${result.condition.label} is present when: ${result.condition.condition}`
+        : `Cleared the presence condition of ${id}.`);
+    });
+}
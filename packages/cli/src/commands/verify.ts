@@ -1,4 +1,5 @@
 import { Command } from "commander";
+import { readFileSync, writeFileSync } from "node:fs";
 import type { AirgenClient } from "../client.js";
 import { output, printTable, isJsonMode, truncate } from "../output.js";
 
@@ -39,11 +40,31 @@ interface Revision {
   revisionId: string;
   revisionNumber: string;
   changeDescription: string;
+  format?: string | null;
   vdocId: string;
   createdAt: string;
   createdBy: string;
 }
 
+interface Excerpt {
+  locatorType: string;
+  locator: Record<string, unknown>;
+  excerptText: string;
+}
+
+interface DriftCheck {
+  format: string;
+  totals: { checked: number; unchanged: number; moved: number; changed: number; missing: number };
+  references: Array<{
+    refId: string;
+    evidenceId: string;
+    status: string;
+    similarity: number;
+    before: Excerpt;
+    after: Excerpt | null;
+  }>;
+}
+
 interface Finding {
   type: string;
   severity: string;
@@ -51,6 +72,7 @@ interface Finding {
   activityId?: string;
   evidenceId?: string;
   message: string;
+  drift?: { refId: string; status: string; similarity: number; before: Excerpt; after: Excerpt | null };
 }
 
 interface Report {
@@ -79,12 +101,31 @@ interface MatrixRow {
   }>;
 }
 
+interface Ingestion {
+  format: string;
+  dryRun: boolean;
+  totals: { cases: number; passed: number; failed: number; skipped: number };
+  requirements: Array<{
+    requirementId: string;
+    ref: string;
+    verdict: string;
+    cases: number;
+    activities: Array<{ activityId: string | null; title: string; created: boolean; status: string }>;
+  }>;
+  withoutActivity: string[];
+  unmatched: string[];
+  unknownRefs: string[];
+  evidence: Evidence[];
+}
+
 const METHODS = ["Test", "Analysis", "Inspection", "Demonstration"] as const;
 const ACTIVITY_STATUSES = ["planned", "in_progress", "executed", "passed", "failed", "blocked"] as const;
 const EVIDENCE_TYPES = ["test_result", "analysis_report", "inspection_record", "demonstration_record"] as const;
 const VERDICTS = ["pass", "fail", "inconclusive", "not_applicable"] as const;
 const DOC_KINDS = ["test_plan", "test_procedure", "test_report", "analysis_report", "inspection_checklist", "demonstration_protocol"] as const;
 const DOC_STATUSES = ["draft", "review", "approved", "superseded"] as const;
+const RESULT_FORMATS = ["junit", "tap", "ctest"] as const;
+const CLOSURE_STATUSES = ["closed", "open", "failed", "unverified"] as const;
 
 function severityIcon(s: string): string {
   switch (s) {
@@ -107,6 +148,22 @@ function statusIcon(s: string): string {
   }
 }
 
+function locatorLabel(excerpt: Excerpt | null): string {
+  if (!excerpt) return "-";
+  const l = excerpt.locator;
+  switch (excerpt.locatorType) {
+    case "pdf_page": return `page ${l.page}`;
+    case "docx_paragraph": return `para ${l.paragraph}`;
+    case "xlsx_cell": return `${l.sheet}!${l.cell}`;
+    default: return excerpt.locatorType;
+  }
+}
+
+function printExcerpts(before: Excerpt, after: Excerpt | null) {
+  console.log(`    was (${locatorLabel(before)}): ${truncate(before.excerptText, 100)}`);
+  console.log(`    now (${locatorLabel(after)}): ${after ? truncate(after.excerptText, 100) : "(not found)"}`);
+}
+
 // ── Command registration ─────────────────────────────────────
 
 export function registerVerifyCommands(program: Command, client: AirgenClient) {
@@ -268,6 +325,83 @@ export function registerVerifyCommands(program: Command, client: AirgenClient) {
       }
     });
 
+  // ── Test result ingestion ──────────────────────────────
+
+  cmd
+    .command("ingest")
+    .description("Record CI test results (JUnit XML, TAP or CTest) as evidence on Test activities")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project key")
+    .argument("<file>", "Test result file")
+    .option("--format <f>", `Format: ${RESULT_FORMATS.join(", ")} (detected when omitted)`)
+    .option("--mapping <path>", "JSON file mapping test names (with * wildcards) to requirement refs")
+    .option("--run-name <name>", "Name used in evidence titles, e.g. CI job and build number")
+    .option("--create-activities", "Create a Test activity for requirements that have none")
+    .option("--recorded-by <name>", "Who recorded this evidence (defaults to the API user)")
+    .option("--dry-run", "Show the mapping without recording anything")
+    .action(async (tenant: string, project: string, file: string, opts: {
+      format?: string; mapping?: string; runName?: string; createActivities?: boolean; recordedBy?: string; dryRun?: boolean;
+    }) => {
+      if (opts.format && !RESULT_FORMATS.includes(opts.format as typeof RESULT_FORMATS[number])) {
+        console.error(`Invalid format. Must be one of: ${RESULT_FORMATS.join(", ")}`);
+        process.exit(1);
+      }
+
+      let content: string;
+      let mapping: Record<string, string | string[]> | undefined;
+      try {
+        content = readFileSync(file, "utf-8");
+        mapping = opts.mapping ? JSON.parse(readFileSync(opts.mapping, "utf-8")) : undefined;
+      } catch (err) {
+        console.error(`Failed to read file: ${(err as Error).message}`);
+        process.exit(1);
+      }
+
+      const data = await client.post<{ ingestion: Ingestion }>("/verification/ingest", {
+        tenant,
+        projectKey: project,
+        content,
+        format: opts.format,
+        mapping,
+        runName: opts.runName,
+        createActivities: opts.createActivities,
+        recordedBy: opts.recordedBy,
+        dryRun: opts.dryRun,
+      });
+      const ingestion = data.ingestion;
+
+      if (isJsonMode()) {
+        output(ingestion);
+        return;
+      }
+
+      const t = ingestion.totals;
+      console.log(`${t.cases} ${ingestion.format} test case(s): ${t.passed} passed, ${t.failed} failed, ${t.skipped} skipped\n`);
+      if (ingestion.requirements.length > 0) {
+        printTable(
+          ["Req", "Verdict", "Cases", "Activities"],
+          ingestion.requirements.map(r => [
+            r.ref,
+            r.verdict,
+            String(r.cases),
+            r.activities.map(a => `${a.activityId ?? "(new)"}${a.created ? " (created)" : ""}`).join(", "),
+          ]),
+        );
+      }
+      if (ingestion.withoutActivity.length > 0) {
+        console.log(`\nNo Test activity (use --create-activities): ${ingestion.withoutActivity.join(", ")}`);
+      }
+      if (ingestion.unknownRefs.length > 0) {
+        console.log(`\nUnknown refs: ${ingestion.unknownRefs.join(", ")}`);
+      }
+      if (ingestion.unmatched.length > 0) {
+        console.log(`\n${ingestion.unmatched.length} test case(s) matched no requirement.`);
+      }
+      console.log(ingestion.dryRun
+        ? "\nDry run: nothing recorded."
+        : `\n${ingestion.evidence.length} evidence item(s) recorded.`);
+    });
+
   // ── Verification Documents ─────────────────────────────
 
   const docs = cmd.command("documents").alias("docs").description("Verification documents");
@@ -383,19 +517,41 @@ export function registerVerifyCommands(program: Command, client: AirgenClient) {
     .requiredOption("--rev <n>", "Revision number (e.g. 0.2, 1.0)")
     .requiredOption("--change <desc>", "Change description")
     .requiredOption("--by <name>", "Created by")
-    .action(async (vdocId: string, opts: { rev: string; change: string; by: string }) => {
-      const data = await client.post<{ revision: Revision }>(
+    .option("--file <path>", "Upload the revised PDF, DOCX or XLSX and check existing references for drift")
+    .action(async (vdocId: string, opts: { rev: string; change: string; by: string; file?: string }) => {
+      let content: string | undefined;
+      if (opts.file) {
+        try {
+          content = readFileSync(opts.file).toString("base64");
+        } catch (err) {
+          console.error(`Failed to read file: ${(err as Error).message}`);
+          process.exit(1);
+        }
+      }
+
+      const data = await client.post<{ revision: Revision; drift?: DriftCheck }>(
         `/verification/documents/${vdocId}/revisions`, {
           revisionNumber: opts.rev,
           changeDescription: opts.change,
           createdBy: opts.by,
+          content,
         },
       );
 
       if (isJsonMode()) {
-        output(data.revision);
-      } else {
-        console.log(`Revision created: ${data.revision.revisionId} (${data.revision.revisionNumber})`);
+        output(data.drift ? data : data.revision);
+        return;
+      }
+
+      console.log(`Revision created: ${data.revision.revisionId} (${data.revision.revisionNumber})`);
+      if (!data.drift) return;
+
+      const t = data.drift.totals;
+      console.log(`\n${t.checked} reference(s) checked against the ${data.drift.format.toUpperCase()}: ${t.unchanged} unchanged, ${t.moved} moved, ${t.changed} changed, ${t.missing} missing`);
+      for (const r of data.drift.references.filter(ref => ref.status !== "unchanged")) {
+        const similarity = r.status === "changed" ? ` (${Math.round(r.similarity * 100)}% similar)` : "";
+        console.log(`\n  ${r.status.toUpperCase()}${similarity}  evidence ${r.evidenceId}, ref ${r.refId}`);
+        printExcerpts(r.before, r.after);
       }
     });
 
@@ -435,6 +591,15 @@ export function registerVerifyCommands(program: Command, client: AirgenClient) {
           ]),
         );
         console.log(`\n${report.findings.length} finding(s) total.`);
+
+        const drifted = report.findings.filter(f => f.drift && f.drift.status !== "moved");
+        if (drifted.length > 0) {
+          console.log(`\nDrifted excerpts:`);
+          for (const f of drifted) {
+            console.log(`\n  ${f.requirementRef ?? f.evidenceId ?? ""} — ${f.drift!.status}`);
+            printExcerpts(f.drift!.before, f.drift!.after);
+          }
+        }
       }
     });
 
@@ -473,4 +638,41 @@ export function registerVerifyCommands(program: Command, client: AirgenClient) {
         console.log();
       }
     });
+
+  // ── VCRM ───────────────────────────────────────────────
+
+  cmd
+    .command("vcrm")
+    .description("Download the verification cross-reference matrix as XLSX or PDF")
+    .argument("<tenant>", "Tenant slug")
+    .argument("<project>", "Project slug")
+    .option("--format <fmt>", "xlsx or pdf", "xlsx")
+    .option("--document <slug>", "Only requirements in this document")
+    .option("--method <m>", `Only this method: ${METHODS.join(", ")}`)
+    .option("--status <s>", `Only this closure status: ${CLOSURE_STATUSES.join(", ")}`)
+    .option("--baseline <ref>", "Reproduce the matrix as of a baseline")
+    .option("-o, --output <file>", "Output file")
+    .action(async (tenant: string, project: string, opts: {
+      format: string; document?: string; method?: string; status?: string; baseline?: string; output?: string;
+    }) => {
+      if (opts.format !== "xlsx" && opts.format !== "pdf") {
+        console.error("Invalid format. Must be one of: xlsx, pdf");
+        process.exit(1);
+      }
+      if (opts.status && !CLOSURE_STATUSES.includes(opts.status as typeof CLOSURE_STATUSES[number])) {
+        console.error(`Invalid status. Must be one of: ${CLOSURE_STATUSES.join(", ")}`);
+        process.exit(1);
+      }
+
+      const params = new URLSearchParams({ format: opts.format });
+      if (opts.document) params.set("document", opts.document);
+      if (opts.method) params.set("method", opts.method);
+      if (opts.status) params.set("status", opts.status);
+      if (opts.baseline) params.set("baseline", opts.baseline);
+
+      const { data } = await client.fetchBinary(`/verification/vcrm/${tenant}/${project}?${params}`);
+      const file = opts.output ?? `${project}-vcrm${opts.baseline ? `-${opts.baseline}` : ""}.${opts.format}`;
+      writeFileSync(file, data);
+      console.log(`VCRM written to ${file}`);
+    });
 }
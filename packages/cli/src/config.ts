@@ -8,14 +8,16 @@ import { homedir } from "node:os";
 
 export interface CliConfig {
   apiUrl: string;
-  email: string;
-  password: string;
+  email?: string;
+  password?: string;
+  token?: string;
 }
 
 interface RcFile {
   apiUrl?: string;
   email?: string;
   password?: string;
+  token?: string;
 }
 
 function loadRcFile(): RcFile {
@@ -33,13 +35,17 @@ export function loadConfig(): CliConfig {
   const apiUrl = process.env.AIRGEN_API_URL ?? rc.apiUrl;
   const email = process.env.AIRGEN_EMAIL ?? rc.email;
   const password = process.env.AIRGEN_PASSWORD ?? rc.password;
+  const token = process.env.AIRGEN_TOKEN ?? rc.token;
 
   if (!apiUrl) {
     console.error("Missing AIRGEN_API_URL. Set it via environment variable or ~/.airgenrc");
     process.exit(1);
   }
+  if (token) {
+    return { apiUrl, token };
+  }
   if (!email || !password) {
-    console.error("Missing AIRGEN_EMAIL / AIRGEN_PASSWORD. Set via environment or ~/.airgenrc");
+    console.error("Missing AIRGEN_TOKEN or AIRGEN_EMAIL / AIRGEN_PASSWORD. Set via environment or ~/.airgenrc");
     process.exit(1);
   }
 
@@ -15,6 +15,9 @@ import { registerDocumentCommands } from "./commands/documents.js";
 import { registerDiagramCommands } from "./commands/diagrams.js";
 import { registerTraceabilityCommands } from "./commands/traceability.js";
 import { registerBaselineCommands } from "./commands/baselines.js";
+import { registerBranchCommands } from "./commands/branches.js";
+import { registerVariantCommands } from "./commands/variants.js";
+import { registerGlossaryCommands } from "./commands/glossary.js";
 import { registerQualityCommands } from "./commands/quality.js";
 import { registerAiCommands } from "./commands/ai.js";
 import { registerReportCommands } from "./commands/reports.js";
@@ -71,6 +74,9 @@ registerDocumentCommands(program, clientProxy);
 registerDiagramCommands(program, clientProxy);
 registerTraceabilityCommands(program, clientProxy);
 registerBaselineCommands(program, clientProxy);
+registerBranchCommands(program, clientProxy);
+registerVariantCommands(program, clientProxy);
+registerGlossaryCommands(program, clientProxy);
 registerQualityCommands(program, clientProxy);
 registerAiCommands(program, clientProxy);
 registerReportCommands(program, clientProxy);
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from "vitest";
+import { parseResourceUri, requirementUri } from "../resources.js";
+import { ActivitySubscriptions, resourceUrisForEvent } from "../subscriptions.js";
+
+/** Minimal McpServer stand-in exposing the inner server calls subscriptions use. */
+function stubServer() {
+  return {
+    server: {
+      registerCapabilities: vi.fn(),
+      setRequestHandler: vi.fn(),
+      sendResourceUpdated: vi.fn(async () => undefined),
+      onclose: undefined as (() => void) | undefined,
+    },
+  };
+}
+
+describe("resource URIs", () => {
+  it("round-trips requirement URIs with reserved characters", () => {
+    const uri = requirementUri("acme", "brake system", "REQ/001");
+    expect(uri).toBe("airgen://acme/brake%20system/requirements/REQ%2F001");
+    expect(parseResourceUri(uri)).toEqual({ tenant: "acme", project: "brake system", kind: "requirements", id: "REQ/001" });
+  });
+
+  it("parses project URIs and rejects unknown shapes", () => {
+    expect(parseResourceUri("airgen://acme/brakes")).toEqual({ tenant: "acme", project: "brakes", kind: "project" });
+    expect(parseResourceUri("airgen://acme/brakes/widgets/1")).toBeNull();
+    expect(parseResourceUri("https://acme/brakes")).toBeNull();
+  });
+
+  it("maps activity events to the resources they change", () => {
+    expect(resourceUrisForEvent("acme", "brakes", { id: "1", activityType: "requirement", entityRef: "REQ-001" })).toEqual([
+      "airgen://acme/brakes",
+      "airgen://acme/brakes/requirements/REQ-001",
+    ]);
+    expect(
+      resourceUrisForEvent("acme", "brakes", { id: "2", activityType: "document", entityId: "d1", metadata: { slug: "srs" } }),
+    ).toEqual(["airgen://acme/brakes", "airgen://acme/brakes/documents/srs"]);
+  });
+});
+
+describe("ActivitySubscriptions", () => {
+  it("notifies subscribed URIs touched by new activity once", async () => {
+    const server = stubServer();
+    const events = [
+      { id: "e1", timestamp: "2099-01-01T00:00:00.000Z", activityType: "requirement", entityRef: "REQ-001" },
+      { id: "e2", timestamp: "2099-01-01T00:00:00.000Z", activityType: "requirement", entityRef: "REQ-002" },
+      { id: "e3", timestamp: "2099-01-01T00:00:00.000Z", activityType: "block", entityId: "b1" },
+    ];
+    const client = { get: vi.fn(async () => ({ events })) };
+    const subscriptions = new ActivitySubscriptions(server as any, client as any, 60_000);
+    subscriptions.register();
+
+    subscriptions.subscribe("airgen://acme/brakes/requirements/REQ-001");
+    subscriptions.subscribe("airgen://acme/brakes/diagrams/dg-1");
+    await subscriptions.poll();
+
+    expect(client.get).toHaveBeenCalledWith("/activity", expect.objectContaining({ tenantSlug: "acme", projectSlug: "brakes" }));
+    expect(server.server.sendResourceUpdated.mock.calls.map(call => (call as any[])[0].uri).sort()).toEqual([
+      "airgen://acme/brakes/diagrams/dg-1",
+      "airgen://acme/brakes/requirements/REQ-001",
+    ]);
+
+    // The feed's start date is inclusive, so the same events come back and must not re-notify
+    server.server.sendResourceUpdated.mockClear();
+    await subscriptions.poll();
+    expect(server.server.sendResourceUpdated).not.toHaveBeenCalled();
+    expect(client.get).toHaveBeenLastCalledWith("/activity", expect.objectContaining({ startDate: "2099-01-01T00:00:00.000Z" }));
+
+    subscriptions.unsubscribe("airgen://acme/brakes/requirements/REQ-001");
+    subscriptions.unsubscribe("airgen://acme/brakes/diagrams/dg-1");
+    client.get.mockClear();
+    await subscriptions.poll();
+    expect(client.get).not.toHaveBeenCalled();
+  });
+
+  it("pages through every event since the cursor", async () => {
+    const server = stubServer();
+    const events = Array.from({ length: 150 }, (_, i) => ({
+      id: `e${i}`,
+      timestamp: "2099-01-01T00:00:00.000Z",
+      activityType: "requirement",
+      entityRef: `REQ-${i}`,
+    }));
+    const client = {
+      get: vi.fn(async (_path: string, params: { offset: number; limit: number }) => ({
+        events: events.slice(params.offset, params.offset + params.limit),
+        hasMore: params.offset + params.limit < events.length,
+      })),
+    };
+    const subscriptions = new ActivitySubscriptions(server as any, client as any, 60_000);
+    subscriptions.register();
+
+    // Only the oldest event touches the subscribed requirement, and it lands on the second page
+    subscriptions.subscribe("airgen://acme/brakes/requirements/REQ-149");
+    await subscriptions.poll();
+
+    expect(client.get).toHaveBeenCalledTimes(2);
+    expect(client.get).toHaveBeenLastCalledWith("/activity", expect.objectContaining({ offset: 100 }));
+    expect(server.server.sendResourceUpdated).toHaveBeenCalledWith({ uri: "airgen://acme/brakes/requirements/REQ-149" });
+  });
+
+  it("rejects subscriptions to unknown URIs", () => {
+    const subscriptions = new ActivitySubscriptions(stubServer() as any, { get: vi.fn() } as any);
+    expect(() => subscriptions.subscribe("airgen://acme")).toThrow("Unknown resource URI");
+  });
+});
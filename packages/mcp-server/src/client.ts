@@ -6,8 +6,10 @@
 
 export interface ClientConfig {
   apiUrl: string;
-  email: string;
-  password: string;
+  email?: string;
+  password?: string;
+  /** Personal access or service account token; used instead of email/password login */
+  token?: string;
 }
 
 interface AuthState {
@@ -25,7 +27,12 @@ export class AirgenClient {
   };
   private loginPromise: Promise<void> | null = null;
 
-  constructor(private config: ClientConfig) {}
+  constructor(private config: ClientConfig) {
+    if (config.token) {
+      // API tokens do not expire client-side and need no login or refresh
+      this.auth = { accessToken: config.token, refreshToken: null, tokenExpiresAt: Infinity };
+    }
+  }
 
   /** The base API URL this client is configured for. */
   get apiUrl(): string {
@@ -215,6 +222,10 @@ export class AirgenClient {
   }
 
   private async login(): Promise<void> {
+    if (!this.config.email || !this.config.password) {
+      throw new AirgenApiError(401, "API token was rejected and no email/password is configured", "/auth/login");
+    }
+
     const res = await globalThis.fetch(`${this.config.apiUrl}/auth/login`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
@@ -20,7 +20,7 @@ export function formatError(err: unknown) {
   if (err instanceof AirgenApiError) {
     switch (err.statusCode) {
       case 401:
-        return error("Authentication failed. Check your AIRGEN_EMAIL and AIRGEN_PASSWORD.");
+        return error("Authentication failed. Check your AIRGEN_TOKEN or AIRGEN_EMAIL and AIRGEN_PASSWORD.");
       case 403:
         return error(`Access denied: ${err.apiMessage}`);
       case 404:
@@ -5,8 +5,10 @@
  *
  * Environment variables:
  *   AIRGEN_API_URL  — Base URL of the AIRGen API (e.g. https://api.airgen.studio/api)
- *   AIRGEN_EMAIL    — Login email
- *   AIRGEN_PASSWORD — Login password
+ *   AIRGEN_TOKEN    — Personal access or service account token (preferred)
+ *   AIRGEN_EMAIL    — Login email (when no token is set)
+ *   AIRGEN_PASSWORD — Login password (when no token is set)
+ *   AIRGEN_SUBSCRIPTION_INTERVAL_MS — Activity poll interval for resource subscriptions (default 15000)
  *   MCP_PORT        — If set, run as HTTP server on this port (for Claude.ai connector)
  *                     If not set, run as stdio server (for Claude Desktop / Claude Code)
  */
@@ -17,6 +19,7 @@ import { createServer } from "./server.js";
 const apiUrl = process.env.AIRGEN_API_URL;
 const email = process.env.AIRGEN_EMAIL;
 const password = process.env.AIRGEN_PASSWORD;
+const token = process.env.AIRGEN_TOKEN;
 const mcpPort = process.env.MCP_PORT;
 
 if (!apiUrl) {
@@ -24,12 +27,12 @@ if (!apiUrl) {
   process.exit(1);
 }
 
-if (!email || !password) {
-  console.error("AIRGEN_EMAIL and AIRGEN_PASSWORD are required");
+if (!token && (!email || !password)) {
+  console.error("AIRGEN_TOKEN, or AIRGEN_EMAIL and AIRGEN_PASSWORD, are required");
   process.exit(1);
 }
 
-const client = new AirgenClient({ apiUrl, email, password });
+const client = new AirgenClient(token ? { apiUrl, token } : { apiUrl, email, password });
 
 if (mcpPort) {
   // HTTP mode — for Claude.ai web connector
@@ -0,0 +1,230 @@
+/**
+ * MCP resources — addressable AIRGen projects, documents, requirements and diagrams.
+ *
+ * URIs:
+ *   airgen://{tenant}/{project}
+ *   airgen://{tenant}/{project}/requirements/{ref}
+ *   airgen://{tenant}/{project}/documents/{slug}
+ *   airgen://{tenant}/{project}/diagrams/{diagramId}
+ */
+
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AirgenClient } from "./client.js";
+import { formatRequirement, formatTable, truncate } from "./format.js";
+
+export const RESOURCE_SCHEME = "airgen:";
+
+export type ResourceKind = "project" | "requirements" | "documents" | "diagrams";
+
+export interface ResourceAddress {
+  tenant: string;
+  project: string;
+  kind: ResourceKind;
+  id?: string;
+}
+
+function segment(value: string): string {
+  return encodeURIComponent(value);
+}
+
+export function projectUri(tenant: string, project: string): string {
+  return `airgen://${segment(tenant)}/${segment(project)}`;
+}
+
+export function requirementUri(tenant: string, project: string, ref: string): string {
+  return `${projectUri(tenant, project)}/requirements/${segment(ref)}`;
+}
+
+export function documentUri(tenant: string, project: string, slug: string): string {
+  return `${projectUri(tenant, project)}/documents/${segment(slug)}`;
+}
+
+export function diagramUri(tenant: string, project: string, diagramId: string): string {
+  return `${projectUri(tenant, project)}/diagrams/${segment(diagramId)}`;
+}
+
+/** Parse an airgen:// URI, returning null for anything this server does not serve. */
+export function parseResourceUri(uri: string): ResourceAddress | null {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== RESOURCE_SCHEME || !url.hostname) return null;
+
+  const parts = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+  const tenant = decodeURIComponent(url.hostname);
+  if (parts.length === 1) {
+    return { tenant, project: parts[0], kind: "project" };
+  }
+  if (parts.length === 3 && ["requirements", "documents", "diagrams"].includes(parts[1])) {
+    return { tenant, project: parts[0], kind: parts[1] as ResourceKind, id: parts[2] };
+  }
+  return null;
+}
+
+function text(uri: URL, body: string) {
+  return { contents: [{ uri: uri.href, mimeType: "text/markdown", text: body }] };
+}
+
+/** Template variables arrive percent-encoded, as matched from the URI */
+function variable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+export function registerResources(server: McpServer, client: AirgenClient) {
+  server.registerResource(
+    "project",
+    new ResourceTemplate("airgen://{tenant}/{project}", {
+      list: async () => {
+        const { tenants } = await client.get<{ tenants: Array<{ slug: string }> }>("/tenants");
+        const resources = [];
+        for (const tenant of tenants ?? []) {
+          const { projects } = await client.get<{ projects: Array<{ slug: string; name?: string; description?: string }> }>(
+            `/tenants/${tenant.slug}/projects`,
+          );
+          for (const p of projects ?? []) {
+            resources.push({
+              uri: projectUri(tenant.slug, p.slug),
+              name: `${tenant.slug}/${p.slug}`,
+              title: p.name ?? p.slug,
+              description: p.description,
+              mimeType: "text/markdown",
+            });
+          }
+        }
+        return { resources };
+      },
+    }),
+    {
+      title: "AIRGen project",
+      description: "Project overview with links to its documents and architecture diagrams",
+      mimeType: "text/markdown",
+    },
+    async (uri, vars) => {
+      const tenant = variable(vars.tenant);
+      const project = variable(vars.project);
+      const [docs, diagrams] = await Promise.all([
+        client.get<{ documents: Array<{ slug: string; name: string; requirementCount?: number }> }>(
+          `/documents/${tenant}/${project}`,
+        ),
+        client.get<{ diagrams: Array<{ id: string; name: string; view?: string }> }>(
+          `/architecture/diagrams/${tenant}/${project}`,
+        ),
+      ]);
+
+      const lines = [`# ${tenant}/${project}\n`, "## Documents\n"];
+      const documents = docs.documents ?? [];
+      lines.push(
+        documents.length === 0
+          ? "No documents."
+          : formatTable(
+              ["Name", "Reqs", "URI"],
+              documents.map(d => [d.name, String(d.requirementCount ?? 0), documentUri(tenant, project, d.slug)]),
+            ),
+      );
+      lines.push("\n## Diagrams\n");
+      const diagramList = diagrams.diagrams ?? [];
+      lines.push(
+        diagramList.length === 0
+          ? "No diagrams."
+          : formatTable(
+              ["Name", "View", "URI"],
+              diagramList.map(d => [d.name, d.view ?? "block", diagramUri(tenant, project, d.id)]),
+            ),
+      );
+      return text(uri, lines.join("\n"));
+    },
+  );
+
+  server.registerResource(
+    "requirement",
+    new ResourceTemplate("airgen://{tenant}/{project}/requirements/{ref}", { list: undefined }),
+    {
+      title: "AIRGen requirement",
+      description: "A requirement by reference, e.g. airgen://acme/brake-system/requirements/REQ-001",
+      mimeType: "text/markdown",
+    },
+    async (uri, vars) => {
+      const data = await client.get<{ record: Record<string, unknown> }>(
+        `/requirements/${variable(vars.tenant)}/${variable(vars.project)}/${variable(vars.ref)}`,
+      );
+      return text(uri, formatRequirement((data.record ?? data) as any));
+    },
+  );
+
+  server.registerResource(
+    "document",
+    new ResourceTemplate("airgen://{tenant}/{project}/documents/{slug}", { list: undefined }),
+    {
+      title: "AIRGen document",
+      description: "A structured document with its sections and requirements",
+      mimeType: "text/markdown",
+    },
+    async (uri, vars) => {
+      const tenant = variable(vars.tenant);
+      const project = variable(vars.project);
+      const slug = variable(vars.slug);
+      const data = await client.get<{
+        sections: Array<{
+          title?: string;
+          name?: string;
+          description?: string;
+          requirements?: Array<{ ref: string; text: string }>;
+        }>;
+      }>(`/sections/${tenant}/${project}/${slug}/full`);
+
+      const lines = [`# Document: ${slug}\n`];
+      for (const section of data.sections ?? []) {
+        lines.push(`## ${section.title ?? section.name ?? "Untitled"}\n`);
+        if (section.description) lines.push(`${section.description}\n`);
+        for (const r of section.requirements ?? []) {
+          lines.push(`- **${r.ref}**: ${r.text} (${requirementUri(tenant, project, r.ref)})`);
+        }
+        lines.push("");
+      }
+      return text(uri, lines.join("\n"));
+    },
+  );
+
+  server.registerResource(
+    "diagram",
+    new ResourceTemplate("airgen://{tenant}/{project}/diagrams/{diagramId}", { list: undefined }),
+    {
+      title: "AIRGen architecture diagram",
+      description: "Blocks and connectors of an architecture diagram",
+      mimeType: "text/markdown",
+    },
+    async (uri, vars) => {
+      const tenant = variable(vars.tenant);
+      const project = variable(vars.project);
+      const diagramId = variable(vars.diagramId);
+      const [blocksData, connectorsData] = await Promise.all([
+        client.get<{ blocks: Array<{ id: string; name: string; kind?: string; stereotype?: string }> }>(
+          `/architecture/blocks/${tenant}/${project}/${diagramId}`,
+        ),
+        client.get<{ connectors: Array<{ source?: string; target?: string; kind?: string; label?: string }> }>(
+          `/architecture/connectors/${tenant}/${project}/${diagramId}`,
+        ),
+      ]);
+
+      const blocks = blocksData.blocks ?? [];
+      const names = new Map(blocks.map(b => [b.id, b.name]));
+      const lines = [`# Diagram: ${diagramId}\n`, `## Blocks (${blocks.length})\n`];
+      for (const b of blocks) {
+        const stereo = b.stereotype ? ` «${b.stereotype}»` : "";
+        lines.push(`- **${b.name}**${b.kind ? ` [${b.kind}]` : ""}${stereo}`);
+      }
+      const connectors = connectorsData.connectors ?? [];
+      lines.push(`\n## Connectors (${connectors.length})\n`);
+      for (const c of connectors) {
+        const source = names.get(c.source ?? "") ?? c.source ?? "?";
+        const target = names.get(c.target ?? "") ?? c.target ?? "?";
+        const label = c.label ? ` "${truncate(c.label, 60)}"` : "";
+        lines.push(`- ${source} → ${target}${c.kind ? ` (${c.kind})` : ""}${label}`);
+      }
+      return text(uri, lines.join("\n"));
+    },
+  );
+}
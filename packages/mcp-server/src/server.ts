@@ -1,5 +1,5 @@
 /**
- * AIRGen MCP Server — tool registration and setup.
+ * AIRGen MCP Server — tool and resource registration and setup.
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
@@ -22,6 +22,8 @@ import { registerReportingTools } from "./tools/reporting.js";
 import { registerImportExportTools } from "./tools/import-export.js";
 import { registerImplementationTools } from "./tools/implementation.js";
 import { registerSectionContentTools } from "./tools/section-content.js";
+import { registerResources } from "./resources.js";
+import { ActivitySubscriptions } from "./subscriptions.js";
 
 export function createServer(client: AirgenClient): McpServer {
   const server = new McpServer({
@@ -48,5 +50,8 @@ export function createServer(client: AirgenClient): McpServer {
   registerImplementationTools(server, client);
   registerSectionContentTools(server, client);
 
+  registerResources(server, client);
+  new ActivitySubscriptions(server, client).register();
+
   return server;
 }
@@ -0,0 +1,191 @@
+/**
+ * Resource subscriptions driven by the AIRGen activity feed.
+ *
+ * While a client holds at least one subscription, the projects behind its
+ * subscribed URIs are polled via /activity and every URI touched by a new
+ * event gets a `notifications/resources/updated`.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { AirgenClient } from "./client.js";
+import { diagramUri, documentUri, parseResourceUri, projectUri, requirementUri } from "./resources.js";
+
+/** Poll interval in ms (AIRGEN_SUBSCRIPTION_INTERVAL_MS, default 15s) */
+const DEFAULT_INTERVAL = 15_000;
+/** Largest page the activity feed serves */
+const ACTIVITY_PAGE_SIZE = 100;
+
+export interface ActivityEvent {
+  id: string;
+  timestamp?: string;
+  activityType: string;
+  actionType?: string;
+  entityId?: string;
+  entityRef?: string | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+interface ProjectCursor {
+  /** Timestamp of the newest event seen */
+  since: string;
+  /** Event ids already seen at `since`, as the feed filter is inclusive */
+  seen: Set<string>;
+}
+
+/** URIs whose content an activity event may have changed */
+export function resourceUrisForEvent(tenant: string, project: string, event: ActivityEvent): string[] {
+  const uris = [projectUri(tenant, project)];
+  switch (event.activityType) {
+    case "requirement":
+      if (event.entityRef) uris.push(requirementUri(tenant, project, event.entityRef));
+      break;
+    case "document": {
+      const slug = event.metadata?.slug;
+      if (typeof slug === "string") uris.push(documentUri(tenant, project, slug));
+      break;
+    }
+    case "diagram":
+      if (event.entityId) uris.push(diagramUri(tenant, project, event.entityId));
+      break;
+  }
+  return uris;
+}
+
+export class ActivitySubscriptions {
+  private readonly subscribed = new Set<string>();
+  private readonly cursors = new Map<string, ProjectCursor>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(
+    private readonly server: McpServer,
+    private readonly client: AirgenClient,
+    private readonly intervalMs = Number(process.env.AIRGEN_SUBSCRIPTION_INTERVAL_MS) || DEFAULT_INTERVAL,
+  ) {}
+
+  /** Advertise subscribe support and handle subscribe/unsubscribe requests */
+  register(): void {
+    const inner = this.server.server;
+    inner.registerCapabilities({ resources: { subscribe: true } });
+    inner.setRequestHandler(SubscribeRequestSchema, async request => {
+      this.subscribe(request.params.uri);
+      return {};
+    });
+    inner.setRequestHandler(UnsubscribeRequestSchema, async request => {
+      this.unsubscribe(request.params.uri);
+      return {};
+    });
+
+    const onclose = inner.onclose;
+    inner.onclose = () => {
+      onclose?.();
+      this.close();
+    };
+  }
+
+  subscribe(uri: string): void {
+    const address = parseResourceUri(uri);
+    if (!address) {
+      throw new Error(`Unknown resource URI: ${uri}`);
+    }
+
+    this.subscribed.add(uri);
+    const key = projectUri(address.tenant, address.project);
+    if (!this.cursors.has(key)) {
+      this.cursors.set(key, { since: new Date().toISOString(), seen: new Set() });
+    }
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+      this.timer.unref?.();
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscribed.delete(uri);
+
+    const projects = new Set(
+      [...this.subscribed].map(u => {
+        const address = parseResourceUri(u)!;
+        return projectUri(address.tenant, address.project);
+      }),
+    );
+    for (const key of this.cursors.keys()) {
+      if (!projects.has(key)) this.cursors.delete(key);
+    }
+    if (this.subscribed.size === 0) this.close();
+  }
+
+  close(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Fetch new activity for each subscribed project and notify affected URIs */
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const [key, cursor] of this.cursors) {
+        const { tenant, project } = parseResourceUri(key)!;
+        try {
+          await this.pollProject(tenant, project, cursor);
+        } catch (err) {
+          console.error(`Activity poll failed for ${key}:`, err instanceof Error ? err.message : err);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async pollProject(tenant: string, project: string, cursor: ProjectCursor): Promise<void> {
+    // The feed is newest first, so page through everything since the cursor
+    // rather than dropping whatever falls past the first page
+    const byId = new Map<string, ActivityEvent>();
+    for (let offset = 0; ; ) {
+      const data = await this.client.get<{ events: ActivityEvent[]; hasMore?: boolean }>("/activity", {
+        tenantSlug: tenant,
+        projectSlug: project,
+        startDate: cursor.since,
+        limit: ACTIVITY_PAGE_SIZE,
+        offset,
+      });
+      const page = data.events ?? [];
+      for (const event of page) byId.set(event.id, event);
+      if (!data.hasMore || page.length === 0) break;
+      offset += page.length;
+    }
+
+    const events = [...byId.values()].filter(e => !cursor.seen.has(e.id));
+    if (events.length === 0) return;
+
+    const changed = new Set<string>();
+    for (const event of events) {
+      for (const uri of resourceUrisForEvent(tenant, project, event)) {
+        if (this.subscribed.has(uri)) changed.add(uri);
+      }
+      // Block and connector edits can change any diagram they appear on
+      if (event.activityType === "block" || event.activityType === "connector") {
+        for (const uri of this.subscribed) {
+          if (uri.startsWith(`${projectUri(tenant, project)}/diagrams/`)) changed.add(uri);
+        }
+      }
+    }
+
+    const newest = events.reduce((max, e) => (e.timestamp && e.timestamp > max ? e.timestamp : max), cursor.since);
+    if (newest !== cursor.since) {
+      cursor.since = newest;
+      cursor.seen.clear();
+    }
+    for (const event of events) {
+      if (event.timestamp === cursor.since) cursor.seen.add(event.id);
+    }
+
+    for (const uri of changed) {
+      await this.server.server.sendResourceUpdated({ uri });
+    }
+  }
+}
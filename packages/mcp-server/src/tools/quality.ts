@@ -6,15 +6,18 @@ import { ok, formatError } from "../format.js";
 export function registerQualityTools(server: McpServer, client: AirgenClient) {
   server.tool(
     "analyze_requirement_quality",
-    "Analyze requirement quality using AIRGen's deterministic QA engine (ISO/IEC/IEEE 29148 + EARS). Returns score, verdict, and suggestions. Set autoFix=true to also get an automatically fixed version.",
+    "Analyze requirement quality using AIRGen's deterministic QA engine (ISO/IEC/IEEE 29148 + EARS). Returns score, verdict, and suggestions. Give tenant and project to apply that project's QA rule pack and glossary. Set autoFix=true to also get an automatically fixed version.",
     {
       text: z.string().describe("Requirement text to analyze"),
+      tenant: z.string().optional().describe("Tenant slug (with project: apply the project's rule pack and glossary)"),
+      project: z.string().optional().describe("Project slug"),
+      tags: z.array(z.string()).optional().describe("Requirement tags, for tag-scoped rules"),
       autoFix: z
         .boolean()
         .optional()
         .describe("If true, also return an auto-fixed version with ambiguities removed and weak modals strengthened. Default: false"),
     },
-    async ({ text, autoFix }) => {
+    async ({ text, tenant, project, tags, autoFix }) => {
       try {
         const data = await client.post<{
           score: number;
@@ -23,7 +26,7 @@ export function registerQualityTools(server: McpServer, client: AirgenClient) {
           verification?: string;
           hits?: Array<{ rule: string; ok: boolean; message?: string }>;
           suggestions?: string[];
-        }>("/qa", { text });
+        }>("/qa", tenant && project ? { text, tenant, projectKey: project, tags } : { text, tags });
 
         const lines: string[] = [
           `## QA Analysis`,
@@ -163,12 +166,14 @@ export function registerQualityTools(server: McpServer, client: AirgenClient) {
     "draft_requirements",
     "Generate multiple candidate requirement texts from a natural language description. Uses AIRGen's heuristic drafting engine with optional LLM enhancement. Returns candidates with quality scores.",
     {
+      tenant: z.string().describe("Tenant slug (its LLM provider and quota are used)"),
+      project: z.string().describe("Project slug"),
       user_input: z.string().describe("Natural language description of what you need requirements for"),
       glossary: z.string().optional().describe("Domain glossary or terminology to use"),
       constraints: z.string().optional().describe("Constraints or rules to follow"),
       n: z.number().optional().describe("Number of candidates to generate (default 5)"),
     },
-    async ({ user_input, glossary, constraints, n }) => {
+    async ({ tenant, project, user_input, glossary, constraints, n }) => {
       try {
         const data = await client.post<{
           count: number;
@@ -181,6 +186,8 @@ export function registerQualityTools(server: McpServer, client: AirgenClient) {
             };
           }>;
         }>("/draft/candidates", {
+          tenant,
+          project,
           user_input,
           glossary,
           constraints,
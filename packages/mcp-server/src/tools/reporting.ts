@@ -25,6 +25,7 @@ interface TraceLink {
   sourceRequirementId?: string;
   targetRequirementId?: string;
   linkType?: string;
+  suspect?: boolean;
 }
 
 const PAGE_SIZE = 100;
@@ -103,6 +104,8 @@ type ReportParams = {
   threshold?: number;
   orphanDirection?: string;
   requirementId?: string;
+  impactKind?: "requirement" | "block" | "connector" | "verificationDocument";
+  itemId?: string;
   impactDirection?: string;
   maxDepth?: number;
 };
@@ -241,11 +244,18 @@ async function handleMatrix(client: AirgenClient, p: ReportParams) {
 
   const sourceToTargets = new Map<string, Set<string>>();
   const targetToSources = new Map<string, Set<string>>();
+  const suspectPairs = new Set<string>();
+  const suspectCount = relevantLinks.filter((l) => l.suspect).length;
 
   for (const link of relevantLinks) {
     const src = link.sourceRequirementId ?? "";
     const tgt = link.targetRequirementId ?? "";
 
+    if (link.suspect) {
+      suspectPairs.add(`${src}|${tgt}`);
+      suspectPairs.add(`${tgt}|${src}`);
+    }
+
     if (sourceIds.has(src) && targetIds.has(tgt)) {
       if (!sourceToTargets.has(src)) sourceToTargets.set(src, new Set());
       sourceToTargets.get(src)!.add(tgt);
@@ -274,6 +284,7 @@ async function handleMatrix(client: AirgenClient, p: ReportParams) {
     `- Forward coverage: ${pct(linkedSources.length, sourceReqs.length)} (${linkedSources.length}/${sourceReqs.length} source reqs linked)`,
     `- Backward coverage: ${pct(linkedTargets.length, targetReqs.length)} (${linkedTargets.length}/${targetReqs.length} target reqs linked)`,
     `- Total links: ${relevantLinks.length}`,
+    suspectCount > 0 ? `- Suspect links: ${suspectCount} (marked ⚠; a linked requirement changed since review)` : "",
   ].filter(Boolean);
 
   if (unlinkedSources.length > 0) {
@@ -302,7 +313,10 @@ async function handleMatrix(client: AirgenClient, p: ReportParams) {
       const targets = sourceToTargets.get(src.id);
       if (targets && targets.size > 0) {
         const targetRefs = [...targets]
-          .map((id) => targetById.get(id)?.ref ?? id)
+          .map((id) => {
+            const ref = targetById.get(id)?.ref ?? id;
+            return suspectPairs.has(`${src.id}|${id}`) ? `${ref} ⚠` : ref;
+          })
           .join(", ");
         rows.push([src.ref, truncate(src.text, 60), targetRefs]);
       } else {
@@ -459,131 +473,91 @@ async function handleOrphans(client: AirgenClient, p: ReportParams) {
   );
 }
 
-async function handleImpact(client: AirgenClient, p: ReportParams) {
-  if (!p.requirementId) {
-    return ok("impact report requires requirementId.");
-  }
-
-  const dir = p.impactDirection ?? "both";
-  const depth = p.maxDepth ?? 5;
-
-  const [allReqs, allLinks] = await Promise.all([
-    fetchAllRequirements(client, p.tenant, p.project),
-    fetchTraceLinks(client, p.tenant, p.project),
-  ]);
-
-  const reqById = new Map(allReqs.map((r) => [r.id, r]));
+interface ImpactAnalysisNode {
+  key: string;
+  kind: string;
+  id: string;
+  label: string;
+  detail: string | null;
+}
 
-  const downstream = new Map<string, Array<{ id: string; linkType: string }>>();
-  const upstream = new Map<string, Array<{ id: string; linkType: string }>>();
+interface ImpactAnalysisEntry {
+  key: string;
+  depth: number;
+  path: Array<{ suspect?: boolean }>;
+  explanation: string;
+}
 
-  for (const link of allLinks) {
-    const src = link.sourceRequirementId ?? "";
-    const tgt = link.targetRequirementId ?? "";
-    const lt = link.linkType ?? "unknown";
+interface ImpactAnalysis {
+  root: ImpactAnalysisNode;
+  direction: string;
+  maxDepth: number;
+  nodes: ImpactAnalysisNode[];
+  upstream: ImpactAnalysisEntry[];
+  downstream: ImpactAnalysisEntry[];
+  truncated: boolean;
+}
 
-    if (!downstream.has(src)) downstream.set(src, []);
-    downstream.get(src)!.push({ id: tgt, linkType: lt });
-    if (!upstream.has(tgt)) upstream.set(tgt, []);
-    upstream.get(tgt)!.push({ id: src, linkType: lt });
-  }
+const IMPACT_KIND_LABELS: Record<string, string> = {
+  requirement: "requirement",
+  block: "block",
+  connector: "interface",
+  verificationActivity: "verification activity",
+  verificationEvidence: "evidence",
+  verificationDocument: "verification document",
+};
 
-  interface ImpactNode {
-    depth: number;
-    linkType: string;
-    requirement: { ref: string; text: string; id: string };
+async function handleImpact(client: AirgenClient, p: ReportParams) {
+  const kind = p.impactKind ?? "requirement";
+  const id = kind === "requirement" ? p.requirementId : p.itemId;
+  if (!id) {
+    return ok(
+      kind === "requirement"
+        ? "impact report requires requirementId."
+        : "impact report requires itemId for blocks, connectors and verification documents.",
+    );
   }
 
-  function traverse(
-    startId: string,
-    adjacency: Map<string, Array<{ id: string; linkType: string }>>,
-    maxD: number,
-  ): ImpactNode[] {
-    const result: ImpactNode[] = [];
-    const visited = new Set<string>([startId]);
-    const queue: Array<{ id: string; depth: number; linkType: string }> = [];
-
-    for (const next of adjacency.get(startId) ?? []) {
-      if (!visited.has(next.id)) {
-        queue.push({ id: next.id, depth: 1, linkType: next.linkType });
-        visited.add(next.id);
-      }
-    }
-
-    while (queue.length > 0) {
-      const item = queue.shift()!;
-      const req = reqById.get(item.id);
-      result.push({
-        depth: item.depth,
-        linkType: item.linkType,
-        requirement: {
-          id: item.id,
-          ref: req?.ref ?? "?",
-          text: req?.text ?? "",
-        },
-      });
-
-      if (item.depth < maxD) {
-        for (const next of adjacency.get(item.id) ?? []) {
-          if (!visited.has(next.id)) {
-            queue.push({
-              id: next.id,
-              depth: item.depth + 1,
-              linkType: next.linkType,
-            });
-            visited.add(next.id);
-          }
-        }
-      }
-    }
+  const dir = p.impactDirection ?? "both";
+  const depth = Math.min(Math.max(p.maxDepth ?? 5, 1), 10);
 
-    return result;
-  }
+  const { analysis } = await client.get<{ analysis: ImpactAnalysis }>(
+    `/impact/${p.tenant}/${p.project}`,
+    { kind, id, direction: dir, depth },
+  );
 
-  const startReq = reqById.get(p.requirementId);
+  const nodes = new Map(analysis.nodes.map((n) => [n.key, n]));
   const lines = [
     `## Impact Analysis\n`,
-    `**Starting requirement:** ${startReq?.ref ?? p.requirementId}`,
-    startReq?.text ? `**Text:** ${truncate(startReq.text, 100)}` : "",
-    `**Direction:** ${dir} | **Max depth:** ${depth}\n`,
+    `**Starting ${IMPACT_KIND_LABELS[analysis.root.kind] ?? analysis.root.kind}:** ${analysis.root.label}`,
+    analysis.root.detail ? `**Details:** ${truncate(analysis.root.detail, 100)}` : "",
+    `**Direction:** ${dir} | **Max depth:** ${analysis.maxDepth}\n`,
   ].filter(Boolean);
 
-  let upstreamNodes: ImpactNode[] = [];
-  let downstreamNodes: ImpactNode[] = [];
-
-  if (dir === "upstream" || dir === "both") {
-    upstreamNodes = traverse(p.requirementId, upstream, depth);
-  }
-  if (dir === "downstream" || dir === "both") {
-    downstreamNodes = traverse(p.requirementId, downstream, depth);
-  }
-
-  if (upstreamNodes.length > 0) {
-    lines.push(`### Upstream (${upstreamNodes.length})\n`);
-    for (const node of upstreamNodes) {
-      const indent = "  ".repeat(node.depth - 1);
+  const section = (title: string, entries: ImpactAnalysisEntry[]) => {
+    if (entries.length === 0) return;
+    lines.push(`\n### ${title} (${entries.length})\n`);
+    for (const entry of entries) {
+      const node = nodes.get(entry.key);
+      const indent = "  ".repeat(entry.depth - 1);
+      const suspect = entry.path.some((e) => e.suspect) ? " ⚠ suspect" : "";
       lines.push(
-        `${indent}- [depth ${node.depth}, ${node.linkType}] **${node.requirement.ref}**: ${truncate(node.requirement.text, 80)}`,
+        `${indent}- [depth ${entry.depth}, ${IMPACT_KIND_LABELS[node?.kind ?? ""] ?? node?.kind}] **${node?.label ?? entry.key}**${suspect}: ${truncate(entry.explanation, 160)}`,
       );
     }
-  }
-
-  if (downstreamNodes.length > 0) {
-    lines.push(`\n### Downstream (${downstreamNodes.length})\n`);
-    for (const node of downstreamNodes) {
-      const indent = "  ".repeat(node.depth - 1);
-      lines.push(
-        `${indent}- [depth ${node.depth}, ${node.linkType}] **${node.requirement.ref}**: ${truncate(node.requirement.text, 80)}`,
-      );
-    }
-  }
+  };
+  section("Upstream", analysis.upstream);
+  section("Downstream", analysis.downstream);
 
-  const totalImpacted = upstreamNodes.length + downstreamNodes.length;
+  const totalImpacted = analysis.upstream.length + analysis.downstream.length;
   if (totalImpacted === 0) {
-    lines.push(`\n_No linked requirements found in the ${dir} direction._`);
+    lines.push(`\n_Nothing linked in the ${dir} direction._`);
   } else {
     lines.push(`\n**Total impacted:** ${totalImpacted}`);
   }
+  if (analysis.truncated) {
+    lines.push(`_Relationships continue beyond depth ${analysis.maxDepth}._`);
+  }
 
   return ok(lines.join("\n"));
 }
@@ -594,7 +568,7 @@ export function registerReportingTools(
 ) {
   server.tool(
     "get_report",
-    "Generate a project report. Types: 'stats' (project overview), 'traceability_matrix' (coverage between documents), 'quality' (QA score analysis), 'compliance' (status breakdown), 'orphans' (unlinked requirements), 'impact' (change impact chain).",
+    "Generate a project report. Types: 'stats' (project overview), 'traceability_matrix' (coverage between documents), 'quality' (QA score analysis), 'compliance' (status breakdown), 'orphans' (unlinked requirements), 'impact' (change impact across trace links, architecture and verification).",
     {
       project: z.string().describe("Project slug"),
       tenant: z.string().describe("Tenant slug"),
@@ -652,6 +626,14 @@ export function registerReportingTools(
         .string()
         .optional()
         .describe("(impact) Starting requirement ID"),
+      impactKind: z
+        .enum(["requirement", "block", "connector", "verificationDocument"])
+        .optional()
+        .describe("(impact) Kind of item to start from. Default: requirement"),
+      itemId: z
+        .string()
+        .optional()
+        .describe("(impact) Starting block, connector or verification document ID (when impactKind is not requirement)"),
       impactDirection: z
         .enum(["upstream", "downstream", "both"])
         .optional()
@@ -659,7 +641,7 @@ export function registerReportingTools(
       maxDepth: z
         .number()
         .optional()
-        .describe("(impact) Max traversal depth. Default: 5"),
+        .describe("(impact) Max traversal depth (1-10). Default: 5"),
     },
     async (params) => {
       try {
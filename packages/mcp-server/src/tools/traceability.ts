@@ -26,6 +26,7 @@ export function registerTraceabilityTools(server: McpServer, client: AirgenClien
             targetRequirementId?: string;
             linkType: string;
             description?: string;
+            suspect?: boolean;
           }>;
         }>(path);
 
@@ -38,8 +39,9 @@ export function registerTraceabilityTools(server: McpServer, client: AirgenClien
           l.linkType,
           l.targetRef ?? l.targetRequirementId ?? "?",
           l.description ?? "",
+          l.suspect ? "suspect" : "",
         ]);
-        return ok(formatTable(["Link ID", "Source", "Link Type", "Target", "Description"], rows));
+        return ok(formatTable(["Link ID", "Source", "Link Type", "Target", "Description", "Status"], rows));
       } catch (err) {
         return formatError(err);
       }
@@ -0,0 +1,44 @@
+import { strict as assert } from "node:assert";
+import { describe, it } from "node:test";
+import { compileRulePattern, MAX_RULE_INPUT_LENGTH } from "../rule-pack.js";
+
+describe("compileRulePattern", () => {
+  it("accepts the patterns rule packs are written with", () => {
+    for (const pattern of [
+      "\\b(shall|must)\\b",
+      "^The \\w+ shall",
+      "\\d+(\\.\\d+)?\\s*(ms|s|Hz)\\b",
+      "\\w+\\s+\\w+",
+      ".*\\bnot\\b.*",
+      "(?:TBD|TBC)\\s*\\d*",
+      "\\s*[A-Z]{2,5}-\\d+"
+    ]) {
+      assert.ok(compileRulePattern(pattern) instanceof RegExp, pattern);
+    }
+  });
+
+  it("rejects patterns that backtrack catastrophically", () => {
+    assert.equal(compileRulePattern("^(a+)+$"), "nested quantifiers are not allowed");
+    assert.equal(compileRulePattern("^(\\w+\\s?)*$"), "nested quantifiers are not allowed");
+    assert.equal(compileRulePattern("(a|a)*$"), "quantified alternation is not allowed");
+    assert.equal(compileRulePattern("(a|aa)+$"), "quantified alternation is not allowed");
+    assert.equal(compileRulePattern("(\\w|\\d)+x"), "quantified alternation is not allowed");
+    assert.equal(compileRulePattern("((a|b)c){2,}"), "quantified alternation is not allowed");
+    assert.equal(compileRulePattern("\\w*\\w*\\w*\\w*\\w*z"), "adjacent overlapping quantifiers are not allowed");
+    assert.equal(compileRulePattern("\\d+\\s?\\w+$"), "adjacent overlapping quantifiers are not allowed");
+    assert.equal(compileRulePattern("[a-z]*(?:[0-9]*)[^ ]*!"), "adjacent overlapping quantifiers are not allowed");
+    assert.equal(compileRulePattern("a".repeat(201)), "longer than 200 characters");
+    assert.equal(compileRulePattern("(unclosed"), "invalid regular expression");
+  });
+
+  it("matches accepted patterns against the longest input quickly", () => {
+    const input = `${"1".repeat(MAX_RULE_INPUT_LENGTH - 1)}!`;
+    for (const pattern of ["\\w+\\s+\\w+$", "^\\d+(\\.\\d+)?x", ".*\\bnot\\b.*z"]) {
+      const regex = compileRulePattern(pattern);
+      if (!(regex instanceof RegExp)) assert.fail(pattern);
+      const started = Date.now();
+      regex.test(input);
+      assert.ok(Date.now() - started < 1000, pattern);
+    }
+  });
+});
@@ -0,0 +1,240 @@
+import { AMBIGUOUS } from "./ambiguity.js";
+import { findGlossaryMatches, findUndefinedAcronyms } from "./glossary.js";
+import { compileRulePattern, MAX_RULE_INPUT_LENGTH } from "./rule-pack.js";
+import type { QaRule, RuleContext, RequirementPattern } from "./rule-pack.js";
+
+const SHALL_REGEX = /\bshall\b/i;
+const FORBIDDEN_MODALS = /\b(will|should|may|can|could|might)\b/i;
+const AND_OR = /\b(and\/or)\b/i;
+const DEFAULT_UNITS = "(ms|s|kg|g|m|km|cm|mm|°c|kpa|bar|v|a|w|hz|db|m\\/?s|m\\/?s²|%)\\b";
+
+export function countWords(s: string) {
+  return s.trim().split(/\s+/).filter(Boolean).length;
+}
+
+export function detectPattern(s: string): RequirementPattern {
+  if (/^when\b/i.test(s)) return "event";
+  if (/^while\b/i.test(s)) return "state";
+  if (/^if\b/i.test(s)) return "unwanted";
+  if (/^where\b/i.test(s)) return "optional";
+  return "ubiquitous";
+}
+
+function escapeRegex(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+function numberOption(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Test a rule pack pattern against the start of the text. Patterns that fail
+ * validation are never run and yield null.
+ */
+function testPattern(text: string, options: Record<string, unknown>): boolean | null {
+  if (typeof options.pattern !== "string" || !options.pattern) return null;
+  const regex = compileRulePattern(options.pattern, typeof options.flags === "string" ? options.flags : "i");
+  if (typeof regex === "string") return null;
+  return regex.test(text.slice(0, MAX_RULE_INPUT_LENGTH));
+}
+
+function findPhrases(text: string, phrases: string[]): string[] {
+  return phrases.filter(phrase => new RegExp(`\\b${escapeRegex(phrase)}\\b`, "i").test(text));
+}
+
+function hasUnits(text: string, units: string[]): boolean {
+  const source = units.length > 0 ? `(${units.map(escapeRegex).join("|")})\\b` : DEFAULT_UNITS;
+  return new RegExp(source, "i").test(text);
+}
+
+/**
+ * Built-in rules. The first seven reproduce the original req-qa heuristics;
+ * the rest are parameterised building blocks for project rule packs.
+ */
+export const BUILTIN_RULES: QaRule[] = [
+  {
+    id: "ShallVoice",
+    description: "Binding requirements use 'shall'.",
+    check: ({ text }) => ({
+      ok: SHALL_REGEX.test(text),
+      message: "Use 'shall' for binding requirements.",
+      suggestion: "Use 'shall' for binding language."
+    })
+  },
+  {
+    id: "NoForbiddenModals",
+    description: "No will/should/may/can/could/might in binding text.",
+    check: ({ text }) => ({
+      ok: !FORBIDDEN_MODALS.test(text),
+      message: "Avoid will/should/may for binding reqs.",
+      suggestion: "Remove 'will/should/may/can...' from binding text."
+    })
+  },
+  {
+    id: "NoAndOr",
+    description: "No 'and/or' constructions.",
+    check: ({ text }) => ({ ok: !AND_OR.test(text), message: "Avoid 'and/or'." })
+  },
+  {
+    id: "SingleVerb",
+    description: "One main action after 'shall'.",
+    check: ({ text }) => ({
+      ok: /\bshall\s+([a-z]+)/i.test(text),
+      message: "Prefer one main action.",
+      suggestion: "Ensure one main action after 'shall'."
+    })
+  },
+  {
+    id: "Length<=35Words",
+    description: "Word count within bounds. Options: min (default 8), max (default 35).",
+    check: ({ words }, options) => {
+      const min = numberOption(options.min, 8);
+      const max = numberOption(options.max, 35);
+      return {
+        ok: words >= min && words <= max,
+        message: `Aim for 12–25 words, hard cap ${max}.`,
+        suggestion: `Rewrite to 12–25 words (hard cap ${max}).`
+      };
+    }
+  },
+  {
+    id: "AmbiguityBlacklist",
+    description: "No vague terms. Options: terms (replaces the default list), extraTerms.",
+    check: ({ text }, options) => {
+      const terms = [...(options.terms ? stringList(options.terms) : AMBIGUOUS), ...stringList(options.extraTerms)];
+      const low = text.toLowerCase();
+      const found = terms.filter(term => low.includes(term.toLowerCase()));
+      return {
+        ok: found.length === 0,
+        message: found.length ? `Ambiguous terms: ${found.join(", ")}` : undefined,
+        suggestion: found.length ? `Replace ambiguous terms: ${found.join(", ")}.` : undefined
+      };
+    }
+  },
+  {
+    id: "UnitsPresent",
+    description: "Measurable units or tolerances present. Options: units.",
+    check: ({ text }, options) => ({
+      ok: hasUnits(text, stringList(options.units)),
+      message: "Include measurable units/tolerances.",
+      suggestion: "Add measurable criteria with units (e.g., ms, bar, m/s²)."
+    })
+  },
+  {
+    id: "BannedWords",
+    description: "Whole-word phrases that must not appear. Options: words, label.",
+    check: ({ text }, options) => {
+      const found = findPhrases(text, stringList(options.words));
+      const label = typeof options.label === "string" ? options.label : "Banned terms";
+      return {
+        ok: found.length === 0,
+        message: found.length ? `${label}: ${found.join(", ")}` : undefined,
+        suggestion: found.length ? `Remove ${label.toLowerCase()}: ${found.join(", ")}.` : undefined
+      };
+    }
+  },
+  {
+    id: "UnitsPerTag",
+    description: "Requirements carrying any of the given tags must state units. Options: tags, units.",
+    check: (context, options) => {
+      const tags = stringList(options.tags).map(tag => tag.toLowerCase());
+      const applies = (context.tags ?? []).some(tag => tags.includes(tag.toLowerCase()));
+      if (!applies) return { ok: true };
+      const units = stringList(options.units);
+      return {
+        ok: hasUnits(context.text, units),
+        message: `Tagged ${tags.join("/")} requirements must state units${units.length ? ` (${units.join(", ")})` : ""}.`,
+        suggestion: `Add measurable units${units.length ? ` (${units.join(", ")})` : ""}.`
+      };
+    }
+  },
+  {
+    id: "MaxWordsPerPattern",
+    description: "Per-EARS-pattern word limits. Options: limits ({ pattern: maxWords }), default.",
+    check: (context, options) => {
+      const limits = (options.limits && typeof options.limits === "object" ? options.limits : {}) as Record<string, unknown>;
+      const pattern = context.pattern ?? "ubiquitous";
+      const limit = numberOption(limits[pattern], numberOption(options.default, Infinity));
+      return {
+        ok: context.words <= limit,
+        message: `${pattern} requirements are limited to ${limit} words.`,
+        suggestion: `Shorten to at most ${limit} words for the ${pattern} pattern.`
+      };
+    }
+  },
+  {
+    id: "RegexForbidden",
+    description: "Text must not match a regular expression. Options: pattern, flags, message.",
+    check: ({ text }, options) => {
+      const matched = testPattern(text, options);
+      if (matched === null) return { ok: true };
+      const message = typeof options.message === "string" ? options.message : `Text must not match /${String(options.pattern)}/.`;
+      return { ok: !matched, message, suggestion: message };
+    }
+  },
+  {
+    id: "RegexRequired",
+    description: "Text must match a regular expression. Options: pattern, flags, message.",
+    check: ({ text }, options) => {
+      const matched = testPattern(text, options);
+      if (matched === null) return { ok: true };
+      const message = typeof options.message === "string" ? options.message : `Text must match /${String(options.pattern)}/.`;
+      return { ok: matched, message, suggestion: message };
+    }
+  },
+  {
+    id: "GlossaryTerms",
+    description: "Acronyms are defined in the project glossary and deprecated forms are not used. Passes when the project has no glossary. Options: allowedAcronyms.",
+    check: ({ text, glossary }, options) => {
+      if (!glossary || glossary.length === 0) return { ok: true };
+      const deprecated = findGlossaryMatches(text, glossary).filter(match => match.kind === "deprecated");
+      const acronyms = findUndefinedAcronyms(text, glossary, stringList(options.allowedAcronyms));
+      const messages = [
+        ...deprecated.map(match => `'${match.text}' is deprecated, use '${glossary[match.entry].term}'`),
+        ...(acronyms.length ? [`Undefined acronyms: ${acronyms.join(", ")}`] : [])
+      ];
+      const suggestions = [
+        ...deprecated.map(match => `Replace '${match.text}' with '${glossary[match.entry].term}'.`),
+        ...(acronyms.length ? [`Spell out or add to the glossary: ${acronyms.join(", ")}.`] : [])
+      ];
+      return {
+        ok: messages.length === 0,
+        message: messages.length ? messages.join("; ") : undefined,
+        suggestion: suggestions.length ? suggestions.join(" ") : undefined
+      };
+    }
+  }
+];
+
+const registry = new Map<string, QaRule>(BUILTIN_RULES.map(rule => [rule.id, rule]));
+
+/**
+ * Register a custom rule so packs can reference it by id.
+ * Registering an existing id replaces it.
+ */
+export function registerRule(rule: QaRule): void {
+  registry.set(rule.id, rule);
+}
+
+export function getRule(id: string): QaRule | undefined {
+  return registry.get(id);
+}
+
+export function listRules(): QaRule[] {
+  return [...registry.values()];
+}
+
+export function buildContext(text: string, input: Partial<Omit<RuleContext, "text" | "words">> = {}): RuleContext {
+  return {
+    text,
+    words: countWords(text),
+    pattern: input.pattern ?? detectPattern(text),
+    tags: input.tags ?? [],
+    glossary: input.glossary
+  };
+}
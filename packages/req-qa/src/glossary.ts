@@ -0,0 +1,102 @@
+/**
+ * Glossary term detection.
+ *
+ * A project glossary defines each concept once: the preferred term, an
+ * optional abbreviation, accepted synonyms and deprecated forms that should
+ * be replaced with the preferred term.
+ */
+
+export type GlossaryEntry = {
+  term: string;
+  definition?: string;
+  abbreviation?: string | null;
+  synonyms?: string[];
+  deprecated?: string[];
+};
+
+export type GlossaryMatchKind = "term" | "abbreviation" | "synonym" | "deprecated";
+
+export type GlossaryMatch = {
+  /** Index of the matched entry in the glossary */
+  entry: number;
+  kind: GlossaryMatchKind;
+  /** The matched text as written */
+  text: string;
+  start: number;
+  end: number;
+};
+
+/** Upper-case words that are emphasis rather than acronyms */
+const UPPERCASE_KEYWORDS = new Set(["SHALL", "MUST", "SHOULD", "MAY", "WILL", "NOT", "AND", "OR", "IF", "WHEN", "WHILE", "WHERE", "THEN"]);
+
+const ACRONYM = /(?<![A-Za-z0-9])[A-Z][A-Z0-9&-]*[A-Z][A-Z0-9]*(?:s)?(?![A-Za-z0-9])/g;
+
+function escapeRegex(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function formPattern(form: string, caseSensitive: boolean): RegExp {
+  return new RegExp(`(?<![A-Za-z0-9])${escapeRegex(form)}s?(?![A-Za-z0-9])`, caseSensitive ? "g" : "gi");
+}
+
+function entryForms(entry: GlossaryEntry): Array<{ form: string; kind: GlossaryMatchKind }> {
+  return [
+    { form: entry.term, kind: "term" as const },
+    ...(entry.abbreviation ? [{ form: entry.abbreviation, kind: "abbreviation" as const }] : []),
+    ...(entry.synonyms ?? []).map(form => ({ form, kind: "synonym" as const })),
+    ...(entry.deprecated ?? []).map(form => ({ form, kind: "deprecated" as const }))
+  ].filter(({ form }) => form.trim().length > 0);
+}
+
+/**
+ * Glossary terms in `text`, in text order. Where forms overlap the longest
+ * wins, so "brake control unit" is one match rather than "brake" plus
+ * "control unit". Abbreviations match case-sensitively, everything else
+ * ignores case; a trailing plural "s" is accepted.
+ */
+export function findGlossaryMatches(text: string, glossary: GlossaryEntry[]): GlossaryMatch[] {
+  const candidates: GlossaryMatch[] = [];
+  glossary.forEach((entry, index) => {
+    for (const { form, kind } of entryForms(entry)) {
+      for (const match of text.matchAll(formPattern(form, kind === "abbreviation"))) {
+        candidates.push({ entry: index, kind, text: match[0], start: match.index!, end: match.index! + match[0].length });
+      }
+    }
+  });
+
+  candidates.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const matches: GlossaryMatch[] = [];
+  let covered = 0;
+  for (const candidate of candidates) {
+    if (candidate.start >= covered) {
+      matches.push(candidate);
+      covered = candidate.end;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Acronyms in `text` that the glossary does not define. An acronym spelled
+ * out in the text itself, as in "Global Positioning System (GPS)", counts as
+ * defined.
+ *
+ * @param allowed - acronyms accepted without a glossary entry
+ */
+export function findUndefinedAcronyms(text: string, glossary: GlossaryEntry[], allowed: string[] = []): string[] {
+  const defined = new Set([...allowed, ...UPPERCASE_KEYWORDS]);
+  for (const entry of glossary) {
+    for (const { form } of entryForms(entry)) {
+      defined.add(form);
+    }
+  }
+
+  const found = new Set<string>();
+  for (const [token] of text.matchAll(ACRONYM)) {
+    const acronym = token.endsWith("s") ? token.slice(0, -1) : token;
+    if (!defined.has(acronym) && !text.includes(`(${acronym})`)) {
+      found.add(acronym);
+    }
+  }
+  return [...found];
+}
@@ -1,2 +1,5 @@
 export * from "./rules.js";
+export * from "./rule-pack.js";
+export { BUILTIN_RULES, registerRule, getRule, listRules, detectPattern } from "./builtin-rules.js";
+export * from "./glossary.js";
 export { AMBIGUOUS } from "./ambiguity.js";
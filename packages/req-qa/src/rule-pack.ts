@@ -0,0 +1,396 @@
+import type { GlossaryEntry } from "./glossary.js";
+
+export type RequirementPattern = "ubiquitous" | "event" | "state" | "unwanted" | "optional";
+
+/**
+ * error   – counts toward the score; a failure caps the verdict at "warn"
+ * warning – counts toward the score
+ * info    – reported only, never affects the score or verdict
+ */
+export type RuleSeverity = "error" | "warning" | "info";
+
+export type RuleContext = {
+  text: string;
+  words: number;
+  pattern?: RequirementPattern;
+  tags?: string[];
+  /** The project glossary, used by glossary rules */
+  glossary?: GlossaryEntry[];
+};
+
+export type RuleCheckResult = {
+  ok: boolean;
+  /** Shown on the rule hit */
+  message?: string;
+  /** Added to the suggestion list when the rule fails */
+  suggestion?: string;
+};
+
+/**
+ * Plugin interface for QA rules. Rules are registered by id and referenced
+ * from rule packs, which supply per-rule options, weight and severity.
+ */
+export interface QaRule {
+  id: string;
+  description?: string;
+  check(context: RuleContext, options: Record<string, unknown>): RuleCheckResult;
+}
+
+export type RulePackEntry = {
+  /** Registered rule id */
+  rule: string;
+  /** Name reported on hits; defaults to the rule id. Lets a pack use one rule twice. */
+  name?: string;
+  enabled?: boolean;
+  weight?: number;
+  severity?: RuleSeverity;
+  options?: Record<string, unknown>;
+};
+
+export type RulePackThresholds = {
+  /** Minimum score for a "pass" verdict */
+  pass: number;
+  /** Minimum score for a "warn" verdict; below this is "fail" */
+  warn: number;
+};
+
+export type RulePack = {
+  id: string;
+  name: string;
+  version: number;
+  description?: string;
+  thresholds: RulePackThresholds;
+  rules: RulePackEntry[];
+};
+
+export const DEFAULT_THRESHOLDS: RulePackThresholds = { pass: 85, warn: 70 };
+
+const ORIGINAL_RULES: RulePackEntry[] = [
+  { rule: "ShallVoice" },
+  { rule: "NoForbiddenModals" },
+  { rule: "NoAndOr" },
+  { rule: "SingleVerb" },
+  { rule: "Length<=35Words" },
+  { rule: "AmbiguityBlacklist" },
+  { rule: "UnitsPresent" },
+  { rule: "GlossaryTerms", severity: "info" }
+];
+
+/**
+ * The original seven heuristics with equal weights and 85/70 thresholds,
+ * plus the glossary check, which is reported but not scored.
+ */
+export const DEFAULT_RULE_PACK: RulePack = {
+  id: "airgen-default",
+  name: "AIRGen default",
+  version: 1,
+  description: "ISO 29148 / EARS heuristics shipped with AIRGen.",
+  thresholds: DEFAULT_THRESHOLDS,
+  rules: ORIGINAL_RULES
+};
+
+export const INCOSE_GTWR_RULE_PACK: RulePack = {
+  id: "incose-gtwr",
+  name: "INCOSE Guide to Writing Requirements",
+  version: 2,
+  description: "Subset of INCOSE GtWR rules that can be checked lexically.",
+  thresholds: { pass: 90, warn: 75 },
+  rules: [
+    { rule: "ShallVoice", severity: "error", weight: 2 },
+    { rule: "NoForbiddenModals", severity: "error", weight: 2 },
+    { rule: "NoAndOr", name: "R19-Combinators", weight: 1 },
+    { rule: "SingleVerb", name: "R18-SingleThought" },
+    { rule: "AmbiguityBlacklist", name: "R7-VagueTerms", weight: 2 },
+    {
+      rule: "BannedWords",
+      name: "R8-EscapeClauses",
+      options: { label: "Escape clauses", words: ["so far as is possible", "as far as possible", "as little as possible", "where possible", "as much as possible", "if it should prove necessary", "if necessary", "to the extent necessary", "as appropriate", "if practicable"] }
+    },
+    {
+      rule: "BannedWords",
+      name: "R9-OpenEnded",
+      options: { label: "Open-ended clauses", words: ["including but not limited to", "etc", "and so on", "and so forth"] }
+    },
+    {
+      rule: "BannedWords",
+      name: "R16-Negatives",
+      severity: "info",
+      options: { label: "Negative constructions", words: ["shall not", "must not", "never"] }
+    },
+    {
+      rule: "BannedWords",
+      name: "R24-Pronouns",
+      options: { label: "Pronouns", words: ["it", "its", "they", "them", "their"] }
+    },
+    { rule: "UnitsPresent", name: "R31-Measurable" },
+    { rule: "GlossaryTerms", name: "R37-DefinedTerms" },
+    { rule: "Length<=35Words", options: { min: 6, max: 40 } }
+  ]
+};
+
+export const NASA_RULE_PACK: RulePack = {
+  id: "nasa-se-handbook",
+  name: "NASA SE Handbook (Appendix C)",
+  version: 1,
+  description: "Checks derived from the NASA Systems Engineering Handbook requirement checklist.",
+  thresholds: DEFAULT_THRESHOLDS,
+  rules: [
+    { rule: "ShallVoice", severity: "error", weight: 2 },
+    { rule: "NoForbiddenModals", severity: "error" },
+    { rule: "NoAndOr" },
+    {
+      rule: "BannedWords",
+      name: "NoTBD",
+      severity: "error",
+      options: { label: "Unresolved placeholders", words: ["TBD", "TBR", "TBS"] }
+    },
+    {
+      rule: "BannedWords",
+      name: "NoUnverifiableTerms",
+      weight: 2,
+      options: { label: "Unverifiable terms", words: ["flexible", "easy", "sufficient", "safe", "adequate", "user-friendly", "usable", "when required", "if required", "appropriate", "fast", "robust", "minimize", "maximize", "optimize", "rapid", "support", "but not limited to", "be able to", "be capable of"] }
+    },
+    { rule: "AmbiguityBlacklist" },
+    { rule: "UnitsPresent" },
+    { rule: "Length<=35Words" }
+  ]
+};
+
+export const BUILTIN_RULE_PACKS: RulePack[] = [DEFAULT_RULE_PACK, INCOSE_GTWR_RULE_PACK, NASA_RULE_PACK];
+
+/** Identifier recorded alongside scores, e.g. "incose-gtwr@3". */
+export function rulePackVersionTag(pack: Pick<RulePack, "id" | "version">): string {
+  return `${pack.id}@${pack.version}`;
+}
+
+/** Longest pattern accepted for the regex rules */
+export const MAX_RULE_PATTERN_LENGTH = 200;
+
+/** Regex rules only test this many leading characters of a requirement */
+export const MAX_RULE_INPUT_LENGTH = 2000;
+
+type PatternQuantifier = {
+  /** The atom may match zero times */
+  optional: boolean;
+  /** No upper bound: *, + or {n,} */
+  unbounded: boolean;
+  /** Anything but ? (the quantifiers the nesting check has always counted) */
+  repeats: boolean;
+  length: number;
+};
+
+/** Read the quantifier, including a lazy ?, that starts at `index` */
+function readQuantifier(source: string, index: number): PatternQuantifier | null {
+  let quantifier: PatternQuantifier | null = null;
+  const char = source[index];
+  if (char === "*" || char === "+" || char === "?") {
+    quantifier = { optional: char !== "+", unbounded: char !== "?", repeats: char !== "?", length: 1 };
+  } else if (char === "{") {
+    const bounds = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(index));
+    if (!bounds) return null;
+    quantifier = {
+      optional: Number(bounds[1]) === 0,
+      unbounded: bounds[2] !== undefined && bounds[3] === "",
+      repeats: true,
+      length: bounds[0].length
+    };
+  }
+  if (quantifier && source[index + quantifier.length] === "?") {
+    quantifier.length++;
+  }
+  return quantifier;
+}
+
+/** Length of the escape sequence starting with the backslash at `index` */
+function escapeLength(source: string, index: number): number {
+  const rest = source.slice(index + 1);
+  const match = /^(u\{[0-9a-f]+\}|u[0-9a-f]{4}|x[0-9a-f]{2}|[pP]\{[^}]*\}|k<[^>]*>|c[a-z]|\d+)/i.exec(rest);
+  return 1 + (match ? match[0].length : 1);
+}
+
+/** Characters tried when deciding whether two atoms can match the same input */
+const SAMPLE_CHARACTERS = [
+  ...Array.from({ length: 0x180 }, (_, code) => String.fromCharCode(code)),
+  "\u2013", "\u2028", "\u3000", "\u4e00", "\u20ac"
+];
+
+/**
+ * Whether two single-character atoms share a character. Atoms that are not
+ * single characters (groups, back-references) are assumed to overlap.
+ */
+function atomsOverlap(a: RegExp | null, b: RegExp | null): boolean {
+  if (!a || !b) return true;
+  return SAMPLE_CHARACTERS.some(char => a.test(char) && b.test(char));
+}
+
+/**
+ * Find constructs that make backtracking blow up on a non-matching input:
+ * a repeated group containing a quantifier, e.g. (a+)+, or an alternation,
+ * e.g. (a|aa)+, and unbounded quantifiers on overlapping atoms with only
+ * optional atoms between them, e.g. \w*\s?\w*.
+ *
+ * @returns Why the pattern is unsafe, or null
+ */
+function backtrackingRisk(source: string, flags: string): string | null {
+  // run: unbounded atoms since the last atom that must match, which an
+  // overlapping unbounded atom must not follow
+  type Frame = {
+    quantified: boolean;
+    alternation: boolean;
+    lookaround: boolean;
+    entryRun: Array<RegExp | null>;
+    run: Array<RegExp | null>;
+  };
+  const atomFlags = flags.replace(/[gy]/g, "");
+  const frames: Frame[] = [{ quantified: false, alternation: false, lookaround: false, entryRun: [], run: [] }];
+  let frame = frames[0];
+
+  const compileAtom = (atom: string): RegExp | null => {
+    try {
+      return new RegExp(`^(?:${atom})$`, atomFlags);
+    } catch {
+      return null;
+    }
+  };
+
+  /** Record a quantified atom; returns an error when it overlaps an adjacent one */
+  const addAtom = (matcher: RegExp | null, quantifier: PatternQuantifier | null): string | null => {
+    if (quantifier?.repeats) frame.quantified = true;
+    if (quantifier?.unbounded) {
+      if (frame.run.some(previous => atomsOverlap(previous, matcher))) {
+        return "adjacent overlapping quantifiers are not allowed";
+      }
+      frame.run = quantifier.optional ? [...frame.run, matcher] : [matcher];
+    } else if (!quantifier?.optional) {
+      frame.run = [];
+    }
+    return null;
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    let atom: string;
+
+    if (char === "|") {
+      frame.alternation = true;
+      frame.run = frame.entryRun;
+      continue;
+    }
+    if (char === "^" || char === "$") {
+      continue;
+    }
+    if (char === "(") {
+      const prefix = /^\?(:|=|!|<=|<!|<[^>]*>)?/.exec(source.slice(i + 1))?.[0] ?? "";
+      const lookaround = /^\?(=|!|<=|<!)$/.test(prefix);
+      const entryRun = lookaround ? [] : frame.run;
+      frame = { quantified: false, alternation: false, lookaround, entryRun, run: entryRun };
+      frames.push(frame);
+      i += prefix.length;
+      continue;
+    }
+    if (char === ")") {
+      const inner = frames.pop()!;
+      frame = frames[frames.length - 1];
+      const quantifier = readQuantifier(source, i + 1);
+      if (quantifier?.repeats && inner.quantified) return "nested quantifiers are not allowed";
+      if (quantifier?.repeats && inner.alternation) return "quantified alternation is not allowed";
+      frame.quantified ||= inner.quantified;
+      frame.alternation ||= inner.alternation;
+      if (quantifier) {
+        const error = addAtom(null, quantifier);
+        if (error) return error;
+      } else if (!inner.lookaround) {
+        frame.run = inner.run;
+      }
+      i += quantifier?.length ?? 0;
+      continue;
+    }
+
+    if (char === "[") {
+      let end = i + 1;
+      while (end < source.length && source[end] !== "]") {
+        end += source[end] === "\\" ? 2 : 1;
+      }
+      atom = source.slice(i, end + 1);
+    } else if (char === "\\") {
+      atom = source.slice(i, i + escapeLength(source, i));
+      if (atom === "\\b" || atom === "\\B") {
+        i++;
+        continue;
+      }
+    } else {
+      atom = char;
+    }
+
+    i += atom.length - 1;
+    const quantifier = readQuantifier(source, i + 1);
+    const error = addAtom(/^\\(\d|k<)/.test(atom) ? null : compileAtom(atom), quantifier);
+    if (error) return error;
+    i += quantifier?.length ?? 0;
+  }
+  return null;
+}
+
+/**
+ * Compile a pattern supplied in a rule pack's options.
+ *
+ * @returns The expression, or an error message when the pattern is invalid
+ *   or could backtrack catastrophically
+ */
+export function compileRulePattern(source: string, flags = "i"): RegExp | string {
+  if (source.length > MAX_RULE_PATTERN_LENGTH) {
+    return `longer than ${MAX_RULE_PATTERN_LENGTH} characters`;
+  }
+  let regex: RegExp;
+  try {
+    regex = new RegExp(source, flags);
+  } catch {
+    return "invalid regular expression";
+  }
+  return backtrackingRisk(source, regex.flags) ?? regex;
+}
+
+/**
+ * Validate a pack against the rule registry.
+ *
+ * @param isKnownRule - Lookup for registered rule ids
+ * @returns A list of problems; empty when the pack is valid
+ */
+export function validateRulePack(pack: RulePack, isKnownRule: (id: string) => boolean): string[] {
+  const errors: string[] = [];
+  const { pass, warn } = pack.thresholds ?? {};
+
+  if (!pack.id || !/^[a-z0-9][a-z0-9._-]*$/i.test(pack.id)) {
+    errors.push("Pack id must be alphanumeric (dots, dashes and underscores allowed).");
+  }
+  if (typeof pass !== "number" || typeof warn !== "number" || pass < 0 || pass > 100 || warn < 0 || warn > pass) {
+    errors.push("Thresholds must satisfy 0 <= warn <= pass <= 100.");
+  }
+  if (!Array.isArray(pack.rules) || pack.rules.filter(entry => entry.enabled !== false).length === 0) {
+    errors.push("Pack must enable at least one rule.");
+  }
+
+  const names = new Set<string>();
+  for (const entry of pack.rules ?? []) {
+    const name = entry.name ?? entry.rule;
+    if (!isKnownRule(entry.rule)) {
+      errors.push(`Unknown rule '${entry.rule}'.`);
+    }
+    if (names.has(name)) {
+      errors.push(`Duplicate rule name '${name}'; set a distinct 'name' when reusing a rule.`);
+    }
+    names.add(name);
+    if (entry.weight !== undefined && (!Number.isFinite(entry.weight) || entry.weight < 0)) {
+      errors.push(`Rule '${name}' has an invalid weight.`);
+    }
+    const pattern = entry.options?.pattern;
+    if (typeof pattern === "string") {
+      const compiled = compileRulePattern(pattern, typeof entry.options?.flags === "string" ? entry.options.flags : "i");
+      if (typeof compiled === "string") {
+        errors.push(`Rule '${name}' pattern is rejected: ${compiled}.`);
+      }
+    }
+  }
+
+  return errors;
+}